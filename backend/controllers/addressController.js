@@ -143,8 +143,8 @@ exports.updateAddress = async (req, res) => {
       });
     }
 
-    // Find the address first to get userId for default handling
-    const existingAddress = await Address.findById(addressId);
+    // Find the signed-in user's address first to get userId for default handling
+    const existingAddress = await Address.findOne({ _id: addressId, userId: req.user.id });
     if (!existingAddress) {
       return res.status(404).json({
         success: false,
@@ -180,8 +180,11 @@ exports.updateAddress = async (req, res) => {
       delete updateData.isDefault;
     }
 
-    const updatedAddress = await Address.findByIdAndUpdate(
-      addressId,
+    // userId is never reassigned through an update
+    delete updateData.userId;
+
+    const updatedAddress = await Address.findOneAndUpdate(
+      { _id: addressId, userId: req.user.id },
       updateData,
       { new: true, runValidators: true }
     );
@@ -225,7 +228,7 @@ exports.deleteAddress = async (req, res) => {
       });
     }
 
-    const address = await Address.findById(addressId);
+    const address = await Address.findOne({ _id: addressId, userId: req.user.id });
     if (!address) {
       return res.status(404).json({
         success: false,
@@ -237,7 +240,7 @@ exports.deleteAddress = async (req, res) => {
     const userId = address.userId;
 
     // Delete the address
-    await Address.findByIdAndDelete(addressId);
+    await Address.findOneAndDelete({ _id: addressId, userId: req.user.id });
 
     // If deleted address was default, set another as default
     if (wasDefault) {
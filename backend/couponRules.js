@@ -1,57 +1,12 @@
-const fs = require('fs');
-const path = require('path');
-
-// ✅ FIXED: Enhanced error handling and logging
-const loadCoupons = () => {
-  try {
-    const couponsPath = path.join(__dirname, 'coupons.json');
-    console.log('📂 Loading coupons from:', couponsPath);
-    
-    if (!fs.existsSync(couponsPath)) {
-      console.warn('⚠️ Coupons file not found:', couponsPath);
-      return [];
-    }
-
-    const couponsData = fs.readFileSync(couponsPath, 'utf8');
-    const parsedData = JSON.parse(couponsData);
-    const coupons = parsedData.coupons || [];
-    
-    console.log('✅ Loaded', coupons.length, 'coupons from JSON file');
-    return coupons;
-  } catch (error) {
-    console.error('❌ Error loading coupons:', error.message);
-    return [];
-  }
-};
+// ============================================================================
+// COUPON RULE ENGINE - PURE RULE CHECKS; COUPONS COME FROM couponService
+// ============================================================================
 
 // Coupon Rule Engine Class
 class CouponRuleEngine {
-  
-  static getAllCoupons() {
-    return loadCoupons();
-  }
 
-  static getActiveCoupons() {
-    const allCoupons = loadCoupons();
-    const now = new Date();
-    
-    const activeCoupons = allCoupons.filter(coupon => {
-      try {
-        const validFrom = new Date(coupon.validFrom);
-        const validUpto = new Date(coupon.validUpto);
-        
-        return coupon.isActive && 
-               now >= validFrom && 
-               now <= validUpto &&
-               (!coupon.usageLimit || coupon.used < coupon.usageLimit);
-      } catch (error) {
-        console.error('❌ Error validating coupon dates:', coupon.id, error);
-        return false;
-      }
-    });
-
-    console.log('🎟️ Active coupons:', activeCoupons.length, 'out of', allCoupons.length);
-    return activeCoupons;
+  static isExpired(coupon, now = new Date()) {
+    return !coupon.isActive || now > new Date(coupon.validUpto);
   }
 
   // ✅ FIXED: validateCoupon method with proper context
@@ -83,6 +38,13 @@ class CouponRuleEngine {
         return validationResult;
       }
 
+      // ✅ NEW: Per-user checks run before the threshold so suggestions skip coupons the user can't use
+      const userReason = CouponRuleEngine.getUserRestriction(coupon, userState);
+      if (userReason) {
+        validationResult.reasons.push(userReason);
+        return validationResult;
+      }
+
       if (cartState.total < coupon.threshold) {
         validationResult.reasons.push(`Minimum order value ₹${coupon.threshold} required`);
         return validationResult;
@@ -115,8 +77,17 @@ class CouponRuleEngine {
           }
         }
 
-        if (conditions.userType && userState.type !== conditions.userType) {
-          validationResult.reasons.push(`This coupon is only for ${conditions.userType} users`);
+        if (conditions.categoryCount && conditions.categoryCount.min && cartState.items) {
+          const categoryCount = new Set(cartState.items.map(item => item.category).filter(Boolean)).size;
+          if (categoryCount < conditions.categoryCount.min) {
+            validationResult.reasons.push(`Items from at least ${conditions.categoryCount.min} categories required`);
+            return validationResult;
+          }
+        }
+
+        if (conditions.platform && conditions.platform !== 'both' && userState.platform &&
+            conditions.platform !== userState.platform) {
+          validationResult.reasons.push(`Coupon only valid on ${conditions.platform.replace('_', ' ')}`);
           return validationResult;
         }
 
@@ -146,7 +117,7 @@ class CouponRuleEngine {
 
       if (coupon.categories && coupon.categories.length > 0 && cartState.items) {
         const hasValidCategory = cartState.items.some(item => 
-          coupon.categories.includes(item.category)
+          coupon.categories.includes(item.category) || coupon.categories.includes(item.subcategory)
         );
         if (!hasValidCategory) {
           validationResult.reasons.push(`Coupon only applicable to ${coupon.categories.join(', ')} categories`);
@@ -164,7 +135,7 @@ class CouponRuleEngine {
 
       return validationResult;
     } catch (error) {
-      console.error('❌ Error validating coupon:', coupon.id, error);
+      console.error('❌ Error validating coupon:', coupon.code, error);
       return {
         isValid: false,
         reasons: ['Error validating coupon'],
@@ -211,16 +182,15 @@ class CouponRuleEngine {
 
       return Math.min(discountAmount, cartState.total);
     } catch (error) {
-      console.error('❌ Error calculating discount:', coupon.id, error);
+      console.error('❌ Error calculating discount:', coupon.code, error);
       return 0;
     }
   }
 
-  static findApplicableCoupons(cartState, userState = {}) {
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
+  static findApplicableCoupons(coupons, cartState, userState = {}) {
     const applicableCoupons = [];
 
-    activeCoupons.forEach(coupon => {
+    coupons.forEach(coupon => {
       const validation = CouponRuleEngine.validateCoupon(coupon, cartState, userState);
       if (validation.isValid) {
         applicableCoupons.push({
@@ -239,11 +209,10 @@ class CouponRuleEngine {
     });
   }
 
-  static getThresholdSuggestions(cartState, userState = {}) {
-    const allCoupons = CouponRuleEngine.getActiveCoupons();
+  static getThresholdSuggestions(coupons, cartState, userState = {}) {
     const suggestions = [];
 
-    allCoupons.forEach(coupon => {
+    coupons.forEach(coupon => {
       try {
         const tempValidation = CouponRuleEngine.validateCoupon(coupon, cartState, userState);
         
@@ -264,7 +233,7 @@ class CouponRuleEngine {
           }
         }
       } catch (error) {
-        console.error('❌ Error processing threshold suggestion:', coupon.id, error);
+        console.error('❌ Error processing threshold suggestion:', coupon.code, error);
       }
     });
 
@@ -276,8 +245,8 @@ class CouponRuleEngine {
     });
   }
 
-  static getBestThresholdSuggestion(cartState, userState = {}) {
-    const suggestions = CouponRuleEngine.getThresholdSuggestions(cartState, userState);
+  static getBestThresholdSuggestion(coupons, cartState, userState = {}) {
+    const suggestions = CouponRuleEngine.getThresholdSuggestions(coupons, cartState, userState);
     return suggestions.length > 0 ? suggestions[0] : null;
   }
 
@@ -297,73 +266,52 @@ class CouponRuleEngine {
     }
   }
 
-  static getCouponById(couponId) {
-    const allCoupons = CouponRuleEngine.getAllCoupons();
-    return allCoupons.find(coupon => coupon.id === couponId);
-  }
+  // ✅ NEW: Rules that depend on who is checking out (see couponService.getUserState)
+  static getUserRestriction(coupon, userState = {}) {
+    const usedByUser = (userState.couponUsage && userState.couponUsage[coupon.code]) || 0;
+    if (coupon.perUserLimit && usedByUser >= coupon.perUserLimit) {
+      return coupon.perUserLimit === 1
+        ? 'You have already used this coupon'
+        : `You can use this coupon only ${coupon.perUserLimit} times`;
+    }
 
-  static isCouponCodeValid(code) {
-    const allCoupons = CouponRuleEngine.getAllCoupons();
-    return allCoupons.some(coupon => coupon.name === code.toUpperCase());
-  }
+    const conditions = coupon.conditions || {};
+    const userTypes = userState.userTypes || [];
+    const orderCount = userState.orderCount || 0;
 
-  static getExpiredCoupons() {
-    const allCoupons = loadCoupons();
-    const now = new Date();
-    
-    return allCoupons.filter(coupon => {
-      try {
-        const validUpto = new Date(coupon.validUpto);
-        return now > validUpto || !coupon.isActive;
-      } catch (error) {
-        console.error('❌ Error checking expired coupon:', coupon.id, error);
-        return true; // Consider it expired if there's an error
-      }
-    });
-  }
+    if (conditions.userType && !userTypes.includes(conditions.userType)) {
+      return conditions.userType === 'new' || conditions.userType === 'first_purchase'
+        ? 'This coupon is only valid on your first order'
+        : `This coupon is only for ${conditions.userType.replace(/_/g, ' ')} users`;
+    }
 
-  static getCouponsByCategory(category) {
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
-    return activeCoupons.filter(coupon => 
-      !coupon.categories || !coupon.categories.length || coupon.categories.includes(category)
-    );
-  }
+    if (conditions.minimumOrders && orderCount < conditions.minimumOrders) {
+      return `Available after ${conditions.minimumOrders} orders`;
+    }
 
-  static getCouponsByPaymentMethod(paymentMethod) {
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
-    return activeCoupons.filter(coupon => 
-      !coupon.paymentMethods || !coupon.paymentMethods.length || coupon.paymentMethods.includes(paymentMethod)
-    );
+    if (conditions.daysSinceLastOrder && conditions.daysSinceLastOrder.min && userState.lastOrderDate) {
+      const daysSince = (Date.now() - new Date(userState.lastOrderDate)) / (1000 * 60 * 60 * 24);
+      if (daysSince < conditions.daysSinceLastOrder.min) {
+        return `Available ${conditions.daysSinceLastOrder.min} days after your last order`;
+      }
+    }
+
+    return null;
   }
 
-  static getAutoApplyCoupon(cartState, userState = {}) {
-    const applicableCoupons = CouponRuleEngine.findApplicableCoupons(cartState, userState);
+  static getAutoApplyCoupon(coupons, cartState, userState = {}) {
+    const applicableCoupons = CouponRuleEngine.findApplicableCoupons(coupons, cartState, userState);
     const autoApplyCoupons = applicableCoupons.filter(coupon => 
       coupon.autoApply || coupon.priority === 1
     );
     return autoApplyCoupons.length > 0 ? autoApplyCoupons[0] : null;
   }
 
-  static getCouponUsageStats(couponId) {
-    const coupon = CouponRuleEngine.getCouponById(couponId);
-    if (!coupon) return null;
-
-    return {
-      id: coupon.id,
-      name: coupon.name,
-      used: coupon.used,
-      usageLimit: coupon.usageLimit,
-      usagePercentage: coupon.usageLimit ? (coupon.used / coupon.usageLimit) * 100 : 0,
-      isActive: coupon.isActive,
-      daysUntilExpiry: Math.ceil((new Date(coupon.validUpto) - new Date()) / (1000 * 60 * 60 * 24))
-    };
-  }
-
   static formatCouponForDisplay(coupon, cartState = null, userState = {}) {
     try {
       const formatted = {
-        id: coupon.id,
-        name: coupon.name,
+        id: coupon.code,
+        name: coupon.code,
         description: coupon.description,
         discount: coupon.discount,
         discountType: coupon.discountType,
@@ -384,7 +332,7 @@ class CouponRuleEngine {
 
       return formatted;
     } catch (error) {
-      console.error('❌ Error formatting coupon for display:', coupon.id, error);
+      console.error('❌ Error formatting coupon for display:', coupon.code, error);
       return {
         ...coupon,
         isApplicable: false,
@@ -392,44 +340,6 @@ class CouponRuleEngine {
       };
     }
   }
-
-  static incrementUsageCount(couponId) {
-    try {
-      const couponsPath = path.join(__dirname, 'coupons.json');
-      const couponsData = JSON.parse(fs.readFileSync(couponsPath, 'utf8'));
-      
-      const couponIndex = couponsData.coupons.findIndex(c => c.id === couponId);
-      if (couponIndex !== -1) {
-        couponsData.coupons[couponIndex].used += 1;
-        fs.writeFileSync(couponsPath, JSON.stringify(couponsData, null, 2));
-        console.log('✅ Incremented usage count for coupon:', couponId);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('❌ Error incrementing usage count:', error);
-      return false;
-    }
-  }
-
-  static decrementUsageCount(couponId) {
-    try {
-      const couponsPath = path.join(__dirname, 'coupons.json');
-      const couponsData = JSON.parse(fs.readFileSync(couponsPath, 'utf8'));
-      
-      const couponIndex = couponsData.coupons.findIndex(c => c.id === couponId);
-      if (couponIndex !== -1 && couponsData.coupons[couponIndex].used > 0) {
-        couponsData.coupons[couponIndex].used -= 1;
-        fs.writeFileSync(couponsPath, JSON.stringify(couponsData, null, 2));
-        console.log('✅ Decremented usage count for coupon:', couponId);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('❌ Error decrementing usage count:', error);
-      return false;
-    }
-  }
 }
 
 module.exports = CouponRuleEngine;
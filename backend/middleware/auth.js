@@ -0,0 +1,158 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+
+// ============================================================================
+// JWT AUTHENTICATION MIDDLEWARE & TOKEN HELPERS
+// ============================================================================
+
+const ACCESS_TOKEN_SECRET = process.env.JWT_SECRET || 'myntra-dev-access-secret';
+const REFRESH_TOKEN_SECRET = process.env.JWT_REFRESH_SECRET || 'myntra-dev-refresh-secret';
+const ACCESS_TOKEN_EXPIRY = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRY = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
+// Signed-in devices per user; signing in on one more drops the oldest session
+const MAX_REFRESH_SESSIONS = 10;
+
+if (!process.env.JWT_SECRET || !process.env.JWT_REFRESH_SECRET) {
+  console.warn('⚠️ JWT_SECRET / JWT_REFRESH_SECRET not set - using development secrets');
+}
+
+// ✅ Issue an access + refresh token pair for a user document. The refresh token's id (jti)
+// is recorded on the user, and verifyRefreshToken() spends it - each one works exactly once.
+const generateAuthTokens = async (user) => {
+  const payload = { id: user._id.toString(), email: user.email, role: user.role || 'user' };
+
+  const accessToken = jwt.sign(payload, ACCESS_TOKEN_SECRET, {
+    expiresIn: ACCESS_TOKEN_EXPIRY
+  });
+
+  // tokenVersion lets us revoke every refresh token of a user (logout, password reset)
+  const jti = crypto.randomUUID();
+  const refreshToken = jwt.sign(
+    { ...payload, tokenVersion: user.tokenVersion || 0, jti },
+    REFRESH_TOKEN_SECRET,
+    { expiresIn: REFRESH_TOKEN_EXPIRY }
+  );
+  await User.updateOne(
+    { _id: user._id },
+    { $push: { refreshTokenIds: { $each: [jti], $slice: -MAX_REFRESH_SESSIONS } } }
+  );
+
+  const { exp } = jwt.decode(accessToken);
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: 'Bearer',
+    expiresAt: new Date(exp * 1000).toISOString()
+  };
+};
+
+// ✅ Validate a refresh token and spend it, returning the user it belongs to. A token that was
+// already spent is being replayed (e.g. it leaked) - every session of the user is revoked.
+const verifyRefreshToken = async (refreshToken) => {
+  const decoded = jwt.verify(refreshToken, REFRESH_TOKEN_SECRET);
+  const tokenVersion = decoded.tokenVersion || { $in: [0, null] };
+
+  const user = decoded.jti && await User.findOneAndUpdate(
+    { _id: decoded.id, tokenVersion, refreshTokenIds: decoded.jti },
+    { $pull: { refreshTokenIds: decoded.jti } },
+    { new: true }
+  );
+  if (!user) {
+    if (decoded.jti) {
+      await User.updateOne(
+        { _id: decoded.id, tokenVersion },
+        { $inc: { tokenVersion: 1 }, $set: { refreshTokenIds: [] } }
+      );
+    }
+    throw new Error('Refresh token has been revoked');
+  }
+
+  return user;
+};
+
+// ✅ Require a valid Bearer access token; sets req.user = { id, email, role }
+const authenticate = (req, res, next) => {
+  const authHeader = req.headers.authorization || '';
+  const [scheme, token] = authHeader.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+      code: 'TOKEN_MISSING'
+    });
+  }
+
+  try {
+    const decoded = jwt.verify(token, ACCESS_TOKEN_SECRET);
+    req.user = { id: decoded.id, email: decoded.email, role: decoded.role || 'user' };
+    next();
+  } catch (error) {
+    const expired = error.name === 'TokenExpiredError';
+    return res.status(401).json({
+      success: false,
+      message: expired ? 'Access token expired' : 'Invalid access token',
+      code: expired ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID'
+    });
+  }
+};
+
+// ✅ NEW: Sets req.user when a valid Bearer token is sent; anonymous (or expired) requests carry on without it
+const optionalAuthenticate = (req, res, next) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme === 'Bearer' && token) {
+    try {
+      const decoded = jwt.verify(token, ACCESS_TOKEN_SECRET);
+      req.user = { id: decoded.id, email: decoded.email, role: decoded.role || 'user' };
+    } catch (error) {
+      // Public route - an unusable token just means no personalisation
+    }
+  }
+  next();
+};
+
+// ✅ Reject requests that act on another user's data.
+// Body/query userId fields are checked here; route params via matchUserParam.
+const USER_ID_FIELDS = ['userId', 'userid'];
+
+const forbidden = (res) => res.status(403).json({
+  success: false,
+  message: 'You are not allowed to access this resource'
+});
+
+const requireSameUser = (req, res, next) => {
+  const mismatch = USER_ID_FIELDS.some(field =>
+    [req.body?.[field], req.query?.[field]]
+      .some(value => value && value.toString() !== req.user?.id)
+  );
+
+  if (mismatch) return forbidden(res);
+  next();
+};
+
+// ✅ For router.param('userid' | 'userId', matchUserParam)
+const matchUserParam = (req, res, next, value) => {
+  if (value && value.toString() !== req.user?.id) return forbidden(res);
+  next();
+};
+
+// ✅ NEW: Role gate, used after authenticate (role comes from the access token)
+const requireRole = (...roles) => (req, res, next) => {
+  if (!roles.includes(req.user?.role)) return forbidden(res);
+  next();
+};
+
+const requireAdmin = requireRole('admin');
+
+module.exports = {
+  authenticate,
+  optionalAuthenticate,
+  requireSameUser,
+  matchUserParam,
+  requireRole,
+  requireAdmin,
+  generateAuthTokens,
+  verifyRefreshToken
+};
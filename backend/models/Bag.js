@@ -43,6 +43,12 @@ const bagSchema = new mongoose.Schema({
     type: String,
     required: false
   },
+  // ✅ Flash sale the item was added under - checkout reprices the item if it has ended
+  saleIdWhenAdded: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SaleEvent',
+    default: null
+  },
   savedForLater: {
     type: Boolean,
     default: false
@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// BRAND MODEL - BRAND PAGES. PRODUCTS LINK BY NAME (Product.brand, CASE-INSENSITIVE)
+// ============================================================================
+
+const slugify = (value) => (value || '')
+  .toString()
+  .trim()
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-|-$/g, '');
+
+const brandSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  logo: {
+    type: String,
+    default: ''
+  },
+  banner: {
+    type: String,
+    default: ''
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  country: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Kept in step with BrandFollow by brandService
+  followerCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+brandSchema.index({ followerCount: -1 });
+
+brandSchema.pre('validate', function(next) {
+  if (!this.slug && this.name) this.slug = slugify(this.name);
+  next();
+});
+
+brandSchema.statics.slugify = slugify;
+
+module.exports = mongoose.model('Brand', brandSchema);
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// BRAND FOLLOW MODEL - BRANDS A USER FOLLOWS (HOME "FROM BRANDS YOU FOLLOW")
+// ============================================================================
+
+const brandFollowSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+brandFollowSchema.index({ userId: 1, brandId: 1 }, { unique: true });
+brandFollowSchema.index({ userId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('BrandFollow', brandFollowSchema);
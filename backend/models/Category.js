@@ -3,11 +3,34 @@ const mongoose = require("mongoose");
 const CategorySchema = new mongoose.Schema(
   {
     name: String,
-    subcategory: [String],
+    slug: { type: String, trim: true, lowercase: true, unique: true, sparse: true }, // ✅ URL key, e.g. "men-t-shirts"
+    parent: { type: mongoose.Schema.Types.ObjectId, ref: "Category", default: null }, // ✅ null = top level
+    ancestors: [{ type: mongoose.Schema.Types.ObjectId, ref: "Category" }], // ✅ Root first, parent last
+    order: { type: Number, default: 0 }, // ✅ Position among siblings (then name)
+    subcategory: [String], // Legacy child names for older clients - child categories are the source of truth
     image: String,
     productId: [{ type: mongoose.Schema.Types.ObjectId, ref: "Product" }],
   },
   { timestamps: true }
 );
 
+CategorySchema.index({ parent: 1, order: 1, name: 1 });
+CategorySchema.index({ ancestors: 1 });
+
+const slugify = (value) => (value || '')
+  .toString()
+  .trim()
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-|-$/g, '');
+
+// ✅ Default slug from the name (callers prefix the parent slug so sibling names can repeat across branches)
+CategorySchema.pre('validate', function(next) {
+  if (!this.slug && this.name) this.slug = slugify(this.name);
+  next();
+});
+
+CategorySchema.statics.slugify = slugify;
+
 module.exports = mongoose.model("Category", CategorySchema);
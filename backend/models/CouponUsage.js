@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// COUPON USAGE MODEL - PER-USER REDEMPTION COUNT AND HISTORY FOR ONE COUPON
+// ============================================================================
+
+const RedemptionSchema = new mongoose.Schema({
+  orderId: { type: String, required: true },
+  discountAmount: { type: Number, required: true, min: 0 },
+  status: {
+    type: String,
+    enum: ['redeemed', 'released'],
+    default: 'redeemed'
+  },
+  redeemedAt: { type: Date, default: Date.now },
+  releasedAt: { type: Date, default: null }
+}, { _id: false });
+
+const couponUsageSchema = new mongoose.Schema({
+  couponId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: true
+  },
+  code: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Redemptions that still count against the per-user limit (released ones don't)
+  count: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  redemptions: {
+    type: [RedemptionSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+// ✅ One document per user and coupon - the limit check relies on this being unique
+couponUsageSchema.index({ couponId: 1, userId: 1 }, { unique: true });
+couponUsageSchema.index({ userId: 1, code: 1 });
+couponUsageSchema.index({ 'redemptions.orderId': 1 });
+
+module.exports = mongoose.model('CouponUsage', couponUsageSchema);
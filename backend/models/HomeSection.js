@@ -0,0 +1,114 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// HOME SECTION MODEL - CMS CONTENT FOR THE HOME SCREEN (BANNERS, CAROUSELS, TILES, COLLECTIONS)
+// ============================================================================
+
+// recently_viewed / followed_brands are placeholders the app fills from the device / the
+// user's follows - the CMS only decides where (and whether) they appear.
+// flash_sale shows whichever sales are live (see saleService) and hides when there are none.
+const SECTION_TYPES = [
+  'banner', 'carousel', 'category_tiles', 'product_collection', 'recently_viewed', 'followed_brands',
+  'flash_sale'
+];
+const SLIDE_TYPES = ['banner', 'carousel'];
+
+// new = no orders yet (guests included), returning = at least one order - same split as coupon userType
+const AUDIENCES = ['all', 'new', 'returning'];
+
+const MAX_COLLECTION_SIZE = 24;
+
+const slideSchema = new mongoose.Schema({
+  title: { type: String, trim: true, maxlength: 80 },
+  subtitle: { type: String, trim: true, maxlength: 160 },
+  image: { type: String, required: [true, 'Slide image is required'], trim: true },
+  // App path ("/categories?discount=40", "/brand/nike") or an http(s) URL
+  link: { type: String, trim: true },
+  badge: { type: String, trim: true, maxlength: 30 },
+  icon: { type: String, trim: true },
+  gradient: { type: [String], default: undefined }
+}, { _id: false });
+
+// Products picked by id (in that order), or by listing query params (GET /api/product names)
+const sourceSchema = new mongoose.Schema({
+  productIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+  filters: { type: mongoose.Schema.Types.Mixed, default: undefined },
+  sortBy: { type: String, default: 'popularity' },
+  limit: { type: Number, min: 1, max: MAX_COLLECTION_SIZE, default: 12 }
+}, { _id: false });
+
+const homeSectionSchema = new mongoose.Schema({
+  // Stable identifier for seeding and analytics, e.g. "deals-of-the-day"
+  key: {
+    type: String,
+    required: [true, 'Section key is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9-]+$/, 'Section key may only contain letters, numbers and dashes'],
+    unique: true
+  },
+  type: {
+    type: String,
+    enum: SECTION_TYPES,
+    required: true
+  },
+  title: { type: String, trim: true, maxlength: 60 },
+  subtitle: { type: String, trim: true, maxlength: 120 },
+  icon: { type: String, trim: true },
+  viewAllLink: { type: String, trim: true },
+  order: { type: Number, default: 0 },
+  isActive: { type: Boolean, default: true },
+  // ✅ Scheduling window - null = open-ended
+  startsAt: { type: Date, default: null },
+  endsAt: { type: Date, default: null },
+  audience: {
+    type: String,
+    enum: AUDIENCES,
+    default: 'all'
+  },
+  slides: { type: [slideSchema], default: undefined },
+  // Empty = the top-level categories
+  categoryIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Category' }],
+  // product_collection only
+  source: { type: sourceSchema, default: undefined },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null }
+}, {
+  timestamps: true
+});
+
+homeSectionSchema.index({ isActive: 1, order: 1 });
+
+// ✅ Each type carries its own content
+homeSectionSchema.pre('validate', function(next) {
+  if (SLIDE_TYPES.includes(this.type) && !(this.slides && this.slides.length)) {
+    this.invalidate('slides', `A ${this.type} section needs at least one slide`);
+  }
+  if (this.type === 'banner' && this.slides && this.slides.length > 1) {
+    this.invalidate('slides', 'A banner section has exactly one slide - use a carousel for more');
+  }
+  if (this.type === 'product_collection' && !this.source) {
+    this.invalidate('source', 'A product collection needs productIds or filters');
+  }
+  if (this.startsAt && this.endsAt && this.startsAt >= this.endsAt) {
+    this.invalidate('endsAt', 'endsAt must be after startsAt');
+  }
+  next();
+});
+
+// ✅ Live sections: active and inside their scheduling window
+homeSectionSchema.statics.liveQuery = function(now = new Date()) {
+  return {
+    isActive: true,
+    $and: [
+      { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+      { $or: [{ endsAt: null }, { endsAt: { $gte: now } }] }
+    ]
+  };
+};
+
+homeSectionSchema.statics.SECTION_TYPES = SECTION_TYPES;
+homeSectionSchema.statics.AUDIENCES = AUDIENCES;
+homeSectionSchema.statics.MAX_COLLECTION_SIZE = MAX_COLLECTION_SIZE;
+
+module.exports = mongoose.model('HomeSection', homeSectionSchema);
@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// NOTIFICATION MODEL - IN-APP NOTIFICATIONS (PRICE DROPS, BACK IN STOCK, ...)
+// ============================================================================
+
+const NOTIFICATION_TYPES = ['price_drop', 'back_in_stock', 'saved_search'];
+
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 120
+  },
+  message: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  // Type-specific payload, e.g. the products that dropped in price
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, isRead: 1 });
+
+notificationSchema.statics.NOTIFICATION_TYPES = NOTIFICATION_TYPES;
+
+module.exports = mongoose.model('Notification', notificationSchema);
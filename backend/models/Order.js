@@ -1,9 +1,61 @@
 const mongoose = require("mongoose");
+const inventoryService = require("../services/inventoryService");
+const orderEvents = require("../services/orderEvents");
 
 // ============================================================================
 // ENHANCED ORDER MODEL WITH PROFESSIONAL FEATURES & TRACKING
 // ============================================================================
 
+// ✅ NEW: Order lifecycle - the only status changes updateStatus() accepts
+const ORDER_STATUS_TRANSITIONS = {
+  'Pending': ['Confirmed', 'Cancelled'],
+  'Confirmed': ['Processing', 'Cancelled'],
+  'Processing': ['Shipped', 'Cancelled'],
+  'Shipped': ['Delivered', 'Returned'], // Returned = undeliverable, back to sender
+  'Delivered': ['Returned'],
+  'Returned': ['Refunded'],
+  'Cancelled': [],
+  'Refunded': []
+};
+
+// Timeline / tracking / item statuses that follow an order status change
+const TIMELINE_STATUS_FOR_ORDER = {
+  'Pending': 'Order Placed',
+  'Confirmed': 'Order Confirmed'
+};
+
+const TRACKING_STATUS_FOR_ORDER = {
+  'Shipped': 'In Transit',
+  'Delivered': 'Delivered'
+};
+
+const ITEM_STATUS_FOR_ORDER = {
+  'Shipped': 'Shipped',
+  'Delivered': 'Delivered',
+  'Returned': 'Returned'
+};
+
+// ✅ NEW: Carrier scans recorded while an order is Shipped, and the timeline entry each one adds
+const CARRIER_SCAN_STATUSES = ['Picked Up', 'In Transit', 'Out for Delivery', 'Failed Delivery'];
+const TIMELINE_STATUS_FOR_SCAN = {
+  'Picked Up': 'Shipped',
+  'In Transit': 'In Transit',
+  'Out for Delivery': 'Out for Delivery',
+  'Failed Delivery': 'Delivery Attempted'
+};
+
+// ✅ NEW: Carrier tracking number formats (prefix + digits, total length)
+const CARRIER_FORMATS = {
+  'Delhivery': { prefix: 'DEL', length: 12 },
+  'Bluedart': { prefix: 'BD', length: 10 },
+  'Ecom Express': { prefix: 'ECE', length: 11 },
+  'XpressBees': { prefix: 'XPB', length: 10 },
+  'India Post': { prefix: 'IP', length: 13 },
+  'FedEx': { prefix: 'FDX', length: 12 },
+  'DHL': { prefix: 'DHL', length: 10 },
+  'Aramex': { prefix: 'ARX', length: 11 }
+};
+
 // ✅ Enhanced Timeline Schema with validation
 const TimelineSchema = new mongoose.Schema({
   status: {
@@ -16,9 +68,17 @@ const TimelineSchema = new mongoose.Schema({
       'Processing',
       'Packed',
       'Shipped',
+      'In Transit',
       'Out for Delivery',
+      'Delivery Attempted',
       'Delivered',
       'Cancelled',
+      'Return Requested',
+      'Return Approved',
+      'Return Rejected',
+      'Return Picked Up',
+      'Return Cancelled',
+      'Exchanged',
       'Returned',
       'Refunded'
     ]
@@ -57,16 +117,7 @@ const TrackingSchema = new mongoose.Schema({
   carrier: {
     type: String,
     required: true,
-    enum: [
-      'Delhivery', 
-      'Bluedart', 
-      'Ecom Express', 
-      'XpressBees', 
-      'India Post',
-      'FedEx',
-      'DHL',
-      'Aramex'
-    ]
+    enum: Object.keys(CARRIER_FORMATS)
   },
   estimatedDelivery: {
     type: Date,
@@ -160,6 +211,16 @@ const OrderItemSchema = new mongoose.Schema({
     amount: { type: Number, default: 0, min: 0 },
     code: { type: String, default: '' }
   },
+  // ✅ Flash sale the item was bought in (its units count against the sale's quantity cap)
+  sale: {
+    type: new mongoose.Schema({
+      saleId: { type: mongoose.Schema.Types.ObjectId, ref: "SaleEvent", required: true },
+      name: String,
+      discountPercent: Number,
+      regularPrice: Number
+    }, { _id: false }),
+    default: undefined
+  },
   // ✅ Item status (for partial deliveries)
   status: {
     type: String,
@@ -171,9 +232,10 @@ const OrderItemSchema = new mongoose.Schema({
   returnReason: String,
   returnStatus: {
     type: String,
-    enum: ['Not Requested', 'Requested', 'Approved', 'Rejected', 'Completed'],
+    enum: ['Not Requested', 'Requested', 'Approved', 'Rejected', 'Picked Up', 'Completed'],
     default: 'Not Requested'
-  }
+  },
+  exchangedSize: String // ✅ Size sent out for a completed exchange
 });
 
 // ✅ Enhanced Address Schema
@@ -194,6 +256,83 @@ const AddressSchema = new mongoose.Schema({
   }
 }, { _id: false });
 
+// ✅ NEW: Return / exchange requests
+const RETURN_REASON_CODES = {
+  SIZE_TOO_SMALL: 'Size too small',
+  SIZE_TOO_LARGE: 'Size too large',
+  DEFECTIVE: 'Damaged or defective product',
+  WRONG_ITEM: 'Received a different item',
+  NOT_AS_DESCRIBED: 'Product not as described',
+  QUALITY: 'Quality not as expected',
+  CHANGED_MIND: 'No longer needed'
+};
+
+// requested → approved → picked up → refunded / exchanged
+const RETURN_TRANSITIONS = {
+  'Requested': ['Approved', 'Rejected', 'Cancelled'],
+  'Approved': ['Picked Up', 'Cancelled'],
+  'Picked Up': ['Refunded', 'Exchanged'],
+  'Rejected': [],
+  'Cancelled': [],
+  'Refunded': [],
+  'Exchanged': []
+};
+
+const PICKUP_TIME_SLOTS = ['Morning (9AM-12PM)', 'Afternoon (12PM-6PM)', 'Evening (6PM-9PM)'];
+
+const ReturnItemSchema = new mongoose.Schema({
+  itemId: { type: mongoose.Schema.Types.ObjectId, required: true }, // order item _id
+  productId: { type: mongoose.Schema.Types.ObjectId, ref: "Product", required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  size: String,
+  color: String,
+  exchangeSize: String,
+  reasonCode: {
+    type: String,
+    required: true,
+    enum: Object.keys(RETURN_REASON_CODES)
+  },
+  comments: { type: String, maxlength: 500, default: '' },
+  refundAmount: { type: Number, default: 0, min: 0 }
+}, { _id: false });
+
+const ReturnHistorySchema = new mongoose.Schema({
+  status: { type: String, required: true },
+  timestamp: { type: Date, default: Date.now },
+  note: { type: String, maxlength: 300, default: '' },
+  updatedBy: {
+    type: String,
+    enum: ['system', 'admin', 'courier', 'customer'],
+    default: 'system'
+  }
+}, { _id: false });
+
+const ReturnRequestSchema = new mongoose.Schema({
+  returnId: { type: String, required: true },
+  type: { type: String, enum: ['return', 'exchange'], required: true },
+  status: {
+    type: String,
+    enum: Object.keys(RETURN_TRANSITIONS),
+    default: 'Requested'
+  },
+  items: {
+    type: [ReturnItemSchema],
+    validate: {
+      validator: items => items && items.length > 0,
+      message: 'A return must include at least one item'
+    }
+  },
+  pickup: {
+    addressId: { type: mongoose.Schema.Types.ObjectId, ref: "Address" },
+    address: { type: AddressSchema, required: true },
+    scheduledDate: { type: Date, required: true },
+    timeSlot: { type: String, enum: PICKUP_TIME_SLOTS, default: 'Morning (9AM-12PM)' },
+    pickedUpAt: Date
+  },
+  refundAmount: { type: Number, default: 0, min: 0 },
+  history: { type: [ReturnHistorySchema], default: [] }
+}, { timestamps: true });
+
 // ✅ Enhanced Payment Schema
 const PaymentSchema = new mongoose.Schema({
   method: {
@@ -209,7 +348,7 @@ const PaymentSchema = new mongoose.Schema({
   transactionId: String,
   paymentGateway: {
     type: String,
-    enum: ['Razorpay', 'Payu', 'CCAvenue', 'Stripe', 'PayPal'],
+    enum: ['Razorpay', 'Payu', 'CCAvenue', 'Stripe', 'PayPal', 'Mock'],
     required: function() { return this.method !== 'COD'; }
   },
   paidAmount: { type: Number, default: 0, min: 0 },
@@ -274,7 +413,8 @@ const OrderSchema = new mongoose.Schema(
     // ✅ Pricing breakdown
     pricing: {
       subtotal: { type: Number, required: true, min: 0 },
-      discount: { type: Number, default: 0, min: 0 },
+      discount: { type: Number, default: 0, min: 0 }, // Promotions + coupons
+      promotionDiscount: { type: Number, default: 0, min: 0 },
       shipping: { type: Number, default: 0, min: 0 },
       tax: { type: Number, default: 0, min: 0 },
       total: { type: Number, required: true, min: 0 }
@@ -284,7 +424,22 @@ const OrderSchema = new mongoose.Schema(
     coupons: [{
       code: { type: String, required: true },
       discount: { type: Number, required: true, min: 0 },
-      type: { type: String, enum: ['percentage', 'fixed'], required: true }
+      type: { type: String, enum: ['percentage', 'fixed', 'shipping', 'bogo', 'cashback'], required: true }
+    }],
+
+    // ✅ Automatic promotions, with the units each one covered (also on items[].discount)
+    promotions: [{
+      promotionId: { type: mongoose.Schema.Types.ObjectId, ref: "Promotion" },
+      name: { type: String, required: true },
+      label: String,
+      type: { type: String, enum: ['buy_x_get_y', 'quantity_discount', 'spend_threshold', 'bundle'], required: true },
+      discount: { type: Number, required: true, min: 0 },
+      items: [{
+        _id: false,
+        productId: { type: mongoose.Schema.Types.ObjectId, ref: "Product" },
+        quantity: { type: Number, min: 1 },
+        discount: { type: Number, min: 0 }
+      }]
     }],
     
     // ✅ Enhanced address and payment
@@ -301,6 +456,12 @@ const OrderSchema = new mongoose.Schema(
     // ✅ Enhanced tracking
     tracking: TrackingSchema,
     
+    // ✅ NEW: Return / exchange requests (one per type per submission)
+    returns: {
+      type: [ReturnRequestSchema],
+      default: []
+    },
+    
     // ✅ Customer interaction
     customerNotes: {
       type: String,
@@ -364,8 +525,10 @@ OrderSchema.virtual('isDelivered').get(function() {
   return this.status === 'Delivered';
 });
 
+const CANCELLABLE_STATUSES = ['Pending', 'Confirmed', 'Processing'];
+
 OrderSchema.virtual('canBeCancelled').get(function() {
-  return ['Pending', 'Confirmed', 'Processing'].includes(this.status);
+  return CANCELLABLE_STATUSES.includes(this.status);
 });
 
 OrderSchema.virtual('canBeReturned').get(function() {
@@ -375,52 +538,421 @@ OrderSchema.virtual('canBeReturned').get(function() {
 });
 
 // ✅ Instance methods for order operations
-OrderSchema.methods.updateStatus = function(newStatus, location = '', description = '') {
+const orderError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+OrderSchema.methods.getAllowedTransitions = function() {
+  return ORDER_STATUS_TRANSITIONS[this.status] || [];
+};
+
+// ✅ NEW: Validated status change, not saved - tracking, timeline and items follow the order
+OrderSchema.methods.transitionTo = function(newStatus, { location = '', description = '', updatedBy = 'system' } = {}) {
+  const allowed = this.getAllowedTransitions();
+  if (!allowed.includes(newStatus)) {
+    const error = orderError(`Cannot change order status from ${this.status} to ${newStatus}`, 'INVALID_STATUS_TRANSITION');
+    error.allowedTransitions = allowed;
+    throw error;
+  }
+
+  const previousStatus = this.status;
   this.status = newStatus;
-  
-  // Update tracking timeline
+
+  const itemStatus = ITEM_STATUS_FOR_ORDER[newStatus];
+  if (itemStatus) {
+    this.items.forEach(item => {
+      if (!['Cancelled', 'Returned'].includes(item.status)) item.status = itemStatus;
+    });
+  }
+
   if (this.tracking) {
     this.tracking.timeline.push({
-      status: newStatus,
+      status: TIMELINE_STATUS_FOR_ORDER[newStatus] || newStatus,
       location: location || this.tracking.currentLocation,
       timestamp: new Date(),
       description,
-      updatedBy: 'system'
+      updatedBy
     });
-    
-    // Update tracking status
-    this.tracking.status = newStatus;
+
+    if (TRACKING_STATUS_FOR_ORDER[newStatus]) {
+      this.tracking.status = TRACKING_STATUS_FOR_ORDER[newStatus];
+    } else if (newStatus === 'Returned' && previousStatus === 'Shipped') {
+      this.tracking.status = 'Returned to Sender';
+    }
     if (location) this.tracking.currentLocation = location;
   }
-  
+
   // Set delivery date if delivered
-  if (newStatus === 'Delivered' && !this.actualDeliveryDate) {
-    this.actualDeliveryDate = new Date();
+  if (newStatus === 'Delivered') {
+    if (!this.actualDeliveryDate) this.actualDeliveryDate = new Date();
+    if (this.tracking) this.tracking.actualDelivery = this.actualDeliveryDate;
   }
-  
-  return this.save();
+
+  return previousStatus;
+};
+
+// ✅ NEW: Save a status change only while the stored status is still the one it was made from,
+// so a copy loaded before a concurrent change (e.g. a cancel) can't overwrite the newer status
+OrderSchema.methods.saveTransition = async function(fromStatus) {
+  this.$where = { status: fromStatus };
+  try {
+    await this.save();
+  } catch (error) {
+    if (error.name === 'DocumentNotFoundError') {
+      throw orderError(`Order is no longer ${fromStatus}; reload it and try again`, 'INVALID_STATUS_TRANSITION');
+    }
+    throw error;
+  } finally {
+    this.$where = undefined;
+  }
+};
+
+// ✅ UPDATED: Saved changes are pushed to the customer's live order stream
+OrderSchema.methods.updateStatus = async function(newStatus, location = '', description = '', updatedBy = 'system') {
+  const previousStatus = this.transitionTo(newStatus, { location, description, updatedBy });
+  await this.saveTransition(previousStatus);
+  orderEvents.publish(this, 'status', { previousStatus });
+  return this;
 };
 
-OrderSchema.methods.cancelOrder = function(reason = '') {
+// ✅ UPDATED: Online payments are refunded first (via refundPayment), so a failed refund leaves the order intact
+// `onlyIf` narrows the claim with extra conditions on the stored order
+OrderSchema.methods.cancelOrder = async function(reason = '', { refundAmount, refundPayment = null, updatedBy = 'system', onlyIf = {} } = {}) {
   if (!this.canBeCancelled) {
-    throw new Error('This order cannot be cancelled');
+    throw orderError('This order cannot be cancelled', 'INVALID_STATUS_TRANSITION');
   }
+
+  // ✅ Claim the transition in the database first - of two concurrent cancels only the one
+  // whose update matched restocks and refunds. Other status changes go through
+  // saveTransition(), which fails once the stored status is 'Cancelled'.
+  const claimed = await this.constructor.findOneAndUpdate(
+    { status: { $in: CANCELLABLE_STATUSES }, ...onlyIf, _id: this._id },
+    { $set: { status: 'Cancelled' } }
+  ).select('status payment');
+  if (!claimed) {
+    throw orderError('This order cannot be cancelled', 'INVALID_STATUS_TRANSITION');
+  }
+  this.status = claimed.status;
+  this.payment.status = claimed.payment.status;
+  this.payment.paidAmount = claimed.payment.paidAmount;
+  this.payment.refundAmount = claimed.payment.refundAmount;
+
+  const paidOnline = ['Completed', 'Partially Refunded'].includes(this.payment.status);
+  const amountToRefund = paidOnline
+    ? (refundAmount || (this.payment.paidAmount || 0) - (this.payment.refundAmount || 0))
+    : 0;
+  if (amountToRefund > 0 && refundPayment) {
+    try {
+      await refundPayment(amountToRefund, `Order cancelled: ${reason}`);
+    } catch (error) {
+      // Nothing was restocked or refunded yet - hand the order back so it can be retried
+      await this.constructor.updateOne({ _id: this._id, status: 'Cancelled' }, { $set: { status: claimed.status } });
+      throw error;
+    }
+  }
+
+  // ✅ Items that still hold stock go back to inventory
+  const itemsToRestock = this.items
+    .filter(item => !['Cancelled', 'Returned'].includes(item.status))
+    .map(item => ({ productId: item.productId, size: item.size, color: item.color, quantity: item.quantity }));
   
-  this.status = 'Cancelled';
   this.items.forEach(item => {
     item.status = 'Cancelled';
     if (reason) item.cancellationReason = reason;
   });
   
-  return this.updateStatus('Cancelled', 'System', `Order cancelled: ${reason}`);
+  await inventoryService.restoreStock(itemsToRestock);
+
+  if (amountToRefund > 0) this.applyRefund(amountToRefund);
+  
+  const previousStatus = this.transitionTo('Cancelled', { location: 'System', description: `Order cancelled: ${reason}`, updatedBy });
+  await this.saveTransition('Cancelled');
+  orderEvents.publish(this, 'cancelled', { previousStatus, reason, refundAmount: amountToRefund });
+  return this;
+};
+
+// ✅ NEW: Hand the parcel to a carrier; a tracking number in its format is generated when none is given
+OrderSchema.methods.assignCarrier = function(carrier, trackingNumber = '', updatedBy = 'admin') {
+  if (!CARRIER_FORMATS[carrier]) {
+    throw orderError(`Unknown carrier: ${carrier}`, 'CARRIER_NOT_ALLOWED');
+  }
+  if (['Delivered', 'Cancelled', 'Returned', 'Refunded'].includes(this.status)) {
+    throw orderError(`Cannot change the carrier of a ${this.status.toLowerCase()} order`, 'CARRIER_NOT_ALLOWED');
+  }
+
+  const previousCarrier = this.tracking.carrier;
+  this.tracking.carrier = carrier;
+  this.tracking.number = trackingNumber.trim() || this.constructor.generateTrackingNumber(carrier);
+  this.addTimelineEvent(
+    TIMELINE_STATUS_FOR_ORDER[this.status] || this.status,
+    previousCarrier === carrier
+      ? `Tracking number updated to ${this.tracking.number}`
+      : `Shipment assigned to ${carrier} (${this.tracking.number})`,
+    updatedBy
+  );
 };
 
-OrderSchema.methods.processRefund = function(amount) {
-  this.payment.status = amount >= this.pricing.total ? 'Refunded' : 'Partially Refunded';
+// ✅ NEW: Carrier scan while the parcel is on its way - tracking status only, the order stays Shipped
+OrderSchema.methods.recordCarrierScan = function(trackingStatus, { location = '', description = '', updatedBy = 'courier' } = {}) {
+  if (!CARRIER_SCAN_STATUSES.includes(trackingStatus)) {
+    throw orderError(`Invalid tracking status: ${trackingStatus}`, 'INVALID_STATUS_TRANSITION');
+  }
+  if (this.status !== 'Shipped' || !this.tracking) {
+    throw orderError(`Cannot record a carrier scan on a ${this.status.toLowerCase()} order`, 'INVALID_STATUS_TRANSITION');
+  }
+
+  this.tracking.status = trackingStatus;
+  if (trackingStatus === 'Failed Delivery') {
+    this.tracking.deliveryAttempts = Math.min(3, (this.tracking.deliveryAttempts || 0) + 1);
+  }
+  if (location) this.tracking.currentLocation = location;
+  this.addTimelineEvent(TIMELINE_STATUS_FOR_SCAN[trackingStatus], description || `${trackingStatus}${location ? ` - ${location}` : ''}`, updatedBy, location);
+};
+
+// ✅ FIXED: Refund status is based on everything refunded so far, not just this amount
+OrderSchema.methods.applyRefund = function(amount) {
   this.payment.refundAmount = (this.payment.refundAmount || 0) + amount;
+  this.payment.status = this.payment.refundAmount >= this.pricing.total ? 'Refunded' : 'Partially Refunded';
   this.payment.refundDate = new Date();
-  
-  return this.save();
+};
+
+OrderSchema.methods.processRefund = async function(amount) {
+  this.applyRefund(amount);
+  await this.save();
+  orderEvents.publish(this, 'refund', { refundAmount: amount });
+  return this;
+};
+
+// ✅ NEW: Timeline entry that does not change the order status
+OrderSchema.methods.addTimelineEvent = function(status, description = '', updatedBy = 'system', location = '') {
+  if (!this.tracking) return;
+  this.tracking.timeline.push({
+    status,
+    location: location || this.tracking.currentLocation || 'System',
+    timestamp: new Date(),
+    description,
+    updatedBy
+  });
+};
+
+// ============================================================================
+// RETURNS & EXCHANGES
+// ============================================================================
+
+const returnError = (message) => {
+  const error = new Error(message);
+  error.code = 'RETURN_NOT_ALLOWED';
+  return error;
+};
+
+// Item's own promotion discount plus its share of the coupon, so refunds never exceed what was paid
+OrderSchema.methods.getItemRefundAmount = function(item, quantity) {
+  const promotionDiscount = this.pricing.promotionDiscount || 0;
+  const itemPromotion = item.quantity > 0 ? (item.discount?.amount || 0) * quantity / item.quantity : 0;
+  const promotedSubtotal = (this.pricing.subtotal || 0) - promotionDiscount;
+  const couponDiscount = Math.max(0, (this.pricing.discount || 0) - promotionDiscount);
+  const discountRatio = promotedSubtotal > 0 ? Math.min(1, couponDiscount / promotedSubtotal) : 0;
+  return Math.round(Math.max(0, item.price * quantity - itemPromotion) * (1 - discountRatio));
+};
+
+// ✅ Create return/exchange requests. items: [{ itemId, quantity, type, reasonCode, comments, exchangeSize }]
+OrderSchema.methods.requestReturn = async function({ items = [], pickupAddress, addressId, scheduledDate, timeSlot }) {
+  if (!this.canBeReturned) {
+    throw returnError('This order is not eligible for return');
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    throw returnError('Select at least one item to return or exchange');
+  }
+
+  const pickupDate = new Date(scheduledDate);
+  const earliest = new Date();
+  earliest.setHours(0, 0, 0, 0);
+  earliest.setDate(earliest.getDate() + 1);
+  const latest = new Date(earliest.getTime() + 7 * 24 * 60 * 60 * 1000);
+  if (isNaN(pickupDate.getTime()) || pickupDate < earliest || pickupDate >= latest) {
+    throw returnError('Pickup must be scheduled between tomorrow and the next 7 days');
+  }
+  if (timeSlot && !PICKUP_TIME_SLOTS.includes(timeSlot)) {
+    throw returnError(`Invalid pickup time slot. Choose one of: ${PICKUP_TIME_SLOTS.join(', ')}`);
+  }
+
+  const seenItems = new Set();
+  const groups = { return: [], exchange: [] };
+
+  for (const requested of items) {
+    const orderItem = requested.itemId && this.items.id(requested.itemId);
+    if (!orderItem) throw returnError('Item not found in this order');
+
+    const key = orderItem._id.toString();
+    if (seenItems.has(key)) throw returnError(`${orderItem.productSnapshot.name} is listed more than once`);
+    seenItems.add(key);
+
+    if (['Cancelled', 'Returned'].includes(orderItem.status) ||
+        !['Not Requested', 'Rejected'].includes(orderItem.returnStatus)) {
+      throw returnError(`${orderItem.productSnapshot.name} already has a return in progress or is not returnable`);
+    }
+
+    const type = requested.type === 'exchange' ? 'exchange' : 'return';
+    const quantity = parseInt(requested.quantity) || orderItem.quantity;
+    if (quantity < 1 || quantity > orderItem.quantity) {
+      throw returnError(`Quantity for ${orderItem.productSnapshot.name} must be between 1 and ${orderItem.quantity}`);
+    }
+    if (!RETURN_REASON_CODES[requested.reasonCode]) {
+      throw returnError(`Invalid reason code. Use one of: ${Object.keys(RETURN_REASON_CODES).join(', ')}`);
+    }
+
+    if (type === 'exchange') {
+      if (!requested.exchangeSize || requested.exchangeSize === orderItem.size) {
+        throw returnError(`Choose a different size to exchange ${orderItem.productSnapshot.name}`);
+      }
+      const { results } = await inventoryService.checkItems([{
+        productId: orderItem.productId,
+        size: requested.exchangeSize,
+        color: orderItem.color,
+        quantity
+      }]);
+      if (!results[0].ok) {
+        throw returnError(`Size ${requested.exchangeSize} of ${orderItem.productSnapshot.name} is not available for exchange`);
+      }
+    }
+
+    groups[type].push({
+      itemId: orderItem._id,
+      productId: orderItem.productId,
+      quantity,
+      size: orderItem.size,
+      color: orderItem.color,
+      exchangeSize: type === 'exchange' ? requested.exchangeSize : undefined,
+      reasonCode: requested.reasonCode,
+      comments: (requested.comments || '').toString().trim().slice(0, 500),
+      refundAmount: type === 'return' ? this.getItemRefundAmount(orderItem, quantity) : 0
+    });
+  }
+
+  const created = [];
+  Object.entries(groups).forEach(([type, returnItems]) => {
+    if (returnItems.length === 0) return;
+
+    const request = {
+      returnId: this.constructor.generateReturnId(),
+      type,
+      status: 'Requested',
+      items: returnItems,
+      pickup: {
+        addressId,
+        address: pickupAddress,
+        scheduledDate: pickupDate,
+        timeSlot: timeSlot || PICKUP_TIME_SLOTS[0]
+      },
+      refundAmount: returnItems.reduce((sum, item) => sum + item.refundAmount, 0),
+      history: [{ status: 'Requested', note: `${type === 'exchange' ? 'Exchange' : 'Return'} requested`, updatedBy: 'customer' }]
+    };
+    this.returns.push(request);
+    created.push(this.returns[this.returns.length - 1]);
+
+    returnItems.forEach(returnItem => {
+      const orderItem = this.items.id(returnItem.itemId);
+      orderItem.returnStatus = 'Requested';
+      orderItem.returnReason = RETURN_REASON_CODES[returnItem.reasonCode];
+    });
+
+    this.addTimelineEvent(
+      'Return Requested',
+      `${type === 'exchange' ? 'Exchange' : 'Return'} ${request.returnId} requested for ${returnItems.length} item(s), pickup on ${pickupDate.toDateString()}`,
+      'customer'
+    );
+  });
+
+  await this.save();
+  return created;
+};
+
+const RETURN_TIMELINE_STATUS = {
+  'Approved': 'Return Approved',
+  'Rejected': 'Return Rejected',
+  'Cancelled': 'Return Cancelled',
+  'Picked Up': 'Return Picked Up',
+  'Refunded': 'Refunded',
+  'Exchanged': 'Exchanged'
+};
+
+const ITEM_RETURN_STATUS = {
+  'Approved': 'Approved',
+  'Rejected': 'Rejected',
+  'Cancelled': 'Not Requested',
+  'Picked Up': 'Picked Up',
+  'Refunded': 'Completed',
+  'Exchanged': 'Completed'
+};
+
+// ✅ Move a return request along the state machine; stock and refunds follow the step
+OrderSchema.methods.advanceReturn = async function(returnId, nextStatus, { note = '', updatedBy = 'system', refundPayment = null } = {}) {
+  const request = this.returns.find(entry => entry.returnId === returnId);
+  if (!request) throw returnError('Return request not found');
+
+  const allowed = RETURN_TRANSITIONS[request.status] || [];
+  if (!allowed.includes(nextStatus)) {
+    throw returnError(`Cannot move return from ${request.status} to ${nextStatus}. Allowed: ${allowed.join(', ') || 'none'}`);
+  }
+  if ((nextStatus === 'Refunded' && request.type !== 'return') ||
+      (nextStatus === 'Exchanged' && request.type !== 'exchange')) {
+    throw returnError(`A${request.type === 'exchange' ? 'n exchange' : ' return'} cannot be marked ${nextStatus}`);
+  }
+
+  const replacementItems = request.items.map(item => ({
+    productId: item.productId, size: item.exchangeSize, color: item.color, quantity: item.quantity
+  }));
+  const returnedItems = request.items.map(item => ({
+    productId: item.productId, size: item.size, color: item.color, quantity: item.quantity
+  }));
+
+  if (nextStatus === 'Approved' && request.type === 'exchange') {
+    // Hold the replacement size as soon as the exchange is approved
+    await inventoryService.decrementStock(replacementItems);
+  }
+  if (nextStatus === 'Cancelled' && request.status === 'Approved' && request.type === 'exchange') {
+    await inventoryService.restoreStock(replacementItems);
+  }
+  if (nextStatus === 'Picked Up') {
+    request.pickup.pickedUpAt = new Date();
+    await inventoryService.restoreStock(returnedItems);
+  }
+  if (nextStatus === 'Refunded') {
+    if (refundPayment) await refundPayment(request.refundAmount, `Return ${request.returnId}`);
+    this.applyRefund(request.refundAmount);
+  }
+
+  request.items.forEach(returnItem => {
+    const orderItem = this.items.id(returnItem.itemId);
+    if (!orderItem) return;
+    orderItem.returnStatus = ITEM_RETURN_STATUS[nextStatus];
+    if (nextStatus === 'Refunded' && returnItem.quantity === orderItem.quantity) {
+      orderItem.status = 'Returned';
+    }
+    if (nextStatus === 'Exchanged') {
+      orderItem.exchangedSize = returnItem.exchangeSize;
+    }
+  });
+
+  request.status = nextStatus;
+  request.history.push({ status: nextStatus, note, updatedBy });
+  this.addTimelineEvent(
+    RETURN_TIMELINE_STATUS[nextStatus],
+    note || `${request.type === 'exchange' ? 'Exchange' : 'Return'} ${request.returnId}: ${nextStatus.toLowerCase()}`,
+    updatedBy
+  );
+
+  // Every item sent back and refunded → the whole order is returned
+  const previousStatus = this.status;
+  if (nextStatus === 'Refunded' && this.items.every(item => ['Returned', 'Cancelled'].includes(item.status))) {
+    this.status = 'Returned';
+  }
+
+  await this.saveTransition(previousStatus);
+  orderEvents.publish(this, 'return', { returnId: request.returnId, returnStatus: nextStatus });
+  return request;
 };
 
 // ✅ Static methods for common operations
@@ -430,6 +962,25 @@ OrderSchema.statics.generateOrderId = function() {
   return `ORD${timestamp.slice(-6)}${random}`;
 };
 
+OrderSchema.statics.generateReturnId = function() {
+  const timestamp = Date.now().toString();
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `RET${timestamp.slice(-6)}${random}`;
+};
+
+OrderSchema.statics.generateTrackingNumber = function(carrier) {
+  const { prefix, length } = CARRIER_FORMATS[carrier] || CARRIER_FORMATS['Delhivery'];
+  const digits = length - prefix.length;
+  return prefix + Math.floor(Math.random() * Math.pow(10, digits)).toString().padStart(digits, '0');
+};
+
+OrderSchema.statics.ORDER_STATUS_TRANSITIONS = ORDER_STATUS_TRANSITIONS;
+OrderSchema.statics.CARRIERS = Object.keys(CARRIER_FORMATS);
+OrderSchema.statics.CARRIER_SCAN_STATUSES = CARRIER_SCAN_STATUSES;
+OrderSchema.statics.RETURN_REASON_CODES = RETURN_REASON_CODES;
+OrderSchema.statics.RETURN_TRANSITIONS = RETURN_TRANSITIONS;
+OrderSchema.statics.PICKUP_TIME_SLOTS = PICKUP_TIME_SLOTS;
+
 OrderSchema.statics.getUserOrders = function(userId, options = {}) {
   const {
     status,
@@ -452,7 +1003,7 @@ OrderSchema.statics.getUserOrders = function(userId, options = {}) {
   return this.find(query)
     .populate({
       path: 'items.productId',
-      select: 'name brand images price discount rating'
+      select: 'name brand images price discount rating sizes'
     })
     .sort({ [sortBy]: sortOrder })
     .skip(skip)
@@ -0,0 +1,133 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+// ============================================================================
+// PAYMENT INTENT MODEL - ONE ATTEMPT TO COLLECT AN ORDER'S ONLINE PAYMENT
+// ============================================================================
+
+const INTENT_STATUSES = ['requires_confirmation', 'processing', 'succeeded', 'failed', 'cancelled'];
+
+const RefundSchema = new mongoose.Schema({
+  refundId: { type: String, required: true },
+  amount: { type: Number, required: true, min: 0 },
+  reason: { type: String, maxlength: 200, default: '' },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending'
+  },
+  createdAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+// ✅ Audit trail of everything the API and the provider's webhooks did to the intent
+const PaymentEventSchema = new mongoose.Schema({
+  type: { type: String, required: true },
+  source: {
+    type: String,
+    enum: ['api', 'webhook', 'system'],
+    default: 'api'
+  },
+  data: { type: mongoose.Schema.Types.Mixed, default: {} },
+  timestamp: { type: Date, default: Date.now }
+}, { _id: false });
+
+const paymentIntentSchema = new mongoose.Schema({
+  intentId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true,
+    index: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  // The provider's own id for this payment (webhooks refer to it)
+  providerReference: {
+    type: String,
+    index: true
+  },
+  // Handed to the client SDK so card/UPI details go straight to the provider
+  clientSecret: String,
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  },
+  method: {
+    type: String,
+    enum: ['Credit Card', 'Debit Card', 'UPI', 'Net Banking', 'Wallet'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: INTENT_STATUSES,
+    default: 'requires_confirmation'
+  },
+  transactionId: String,
+  failureReason: String,
+  refundedAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  refunds: {
+    type: [RefundSchema],
+    default: []
+  },
+  events: {
+    type: [PaymentEventSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+paymentIntentSchema.index({ orderId: 1, createdAt: -1 });
+
+paymentIntentSchema.statics.generateIntentId = function() {
+  return `pi_${Date.now().toString(36)}${crypto.randomBytes(6).toString('hex')}`;
+};
+
+paymentIntentSchema.statics.INTENT_STATUSES = INTENT_STATUSES;
+
+paymentIntentSchema.methods.recordEvent = function(type, source = 'api', data = {}) {
+  this.events.push({ type, source, data });
+};
+
+// ✅ Never expose the event log or provider internals to the app
+paymentIntentSchema.methods.toClientJSON = function() {
+  return {
+    intentId: this.intentId,
+    orderId: this.orderId,
+    provider: this.provider,
+    clientSecret: this.status === 'requires_confirmation' ? this.clientSecret : undefined,
+    amount: this.amount,
+    currency: this.currency,
+    method: this.method,
+    status: this.status,
+    transactionId: this.transactionId,
+    failureReason: this.failureReason,
+    refundedAmount: this.refundedAmount,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt
+  };
+};
+
+module.exports = mongoose.model('PaymentIntent', paymentIntentSchema);
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// PRICE HISTORY MODEL - ONE ENTRY PER PRODUCT PRICE CHANGE
+// ============================================================================
+
+const priceHistorySchema = new mongoose.Schema({
+  productId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // null for the first price we know about
+  previousPrice: {
+    type: Number,
+    default: null
+  },
+  // MRP at the time (null for products without structured pricing)
+  mrp: {
+    type: Number,
+    default: null
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+priceHistorySchema.index({ productId: 1, changedAt: -1 });
+
+// ✅ Append an entry unless the price (and MRP) are the same as the last one recorded
+priceHistorySchema.statics.recordPrice = async function(productId, price, mrp = null) {
+  if (price === null || price === undefined) return null;
+
+  const latest = await this.findOne({ productId }).sort({ changedAt: -1 }).select('price mrp').lean();
+  if (latest && latest.price === price && (latest.mrp ?? null) === (mrp ?? null)) return null;
+
+  return this.create({ productId, price, mrp, previousPrice: latest ? latest.price : null });
+};
+
+// ✅ Newest first; `since` limits it to a time window
+priceHistorySchema.statics.getProductHistory = function(productId, limit = 30, since = null) {
+  const query = { productId };
+  if (since) query.changedAt = { $gte: since };
+  return this.find(query).sort({ changedAt: -1 }).limit(limit).lean();
+};
+
+module.exports = mongoose.model('PriceHistory', priceHistorySchema);
@@ -1,18 +1,254 @@
 const mongoose = require("mongoose");
+const PriceHistory = require("./PriceHistory");
+const Category = require("./Category");
+
+// ✅ NEW: One stock-keeping unit per size/color combination
+const SkuSchema = new mongoose.Schema(
+  {
+    sku: { type: String, trim: true },
+    size: { type: String, trim: true, default: '' },
+    color: { type: String, trim: true, default: '' },
+    stock: { type: Number, default: 0, min: 0 }
+  },
+  { _id: false }
+);
+
+// ✅ NEW: Structured pricing. sellingPrice applies inside the effectiveFrom/effectiveTo window
+// (open-ended when unset); outside it the product sells at MRP.
+const PricingSchema = new mongoose.Schema(
+  {
+    mrp: { type: Number, required: true, min: 0 },
+    sellingPrice: { type: Number, required: true, min: 0 },
+    discountPercent: { type: Number, default: 0 }, // computed - the discount in effect right now
+    effectiveFrom: { type: Date, default: null },
+    effectiveTo: { type: Date, default: null }
+  },
+  { _id: false }
+);
+
+// ✅ NEW: Flash sale in effect - a snapshot of the SaleEvent written by saleService while it is live
+const FlashSaleSchema = new mongoose.Schema(
+  {
+    saleId: { type: mongoose.Schema.Types.ObjectId, ref: "SaleEvent", required: true },
+    name: { type: String, trim: true },
+    discountPercent: { type: Number, required: true, min: 0, max: 100 },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true }
+  },
+  { _id: false }
+);
 
 const ProductSchema = new mongoose.Schema(
   {
     name: String,
     brand: String,
-    price: Number,
-    discount: String,
+    price: Number, // ✅ Effective selling price - derived from pricing when present
+    pricing: { type: PricingSchema, default: undefined },
+    flashSale: { type: FlashSaleSchema, default: undefined }, // ✅ Overrides pricing while its window is open
+    discount: String, // ✅ Derived "40% OFF" label for older clients - use pricing.discountPercent
     description: String,
     sizes: [String],
+    colors: [String],
     images: [String],
-    category: { type: mongoose.Schema.Types.ObjectId, ref: "Category" }, // related category
-    rating: Number // ✅ Add if using in filter
+    category: { type: mongoose.Schema.Types.ObjectId, ref: "Category" }, // ✅ Deepest category, e.g. Men > T-Shirts
+    categoryPath: [{ type: mongoose.Schema.Types.ObjectId, ref: "Category" }], // ✅ Root → category, for subtree queries
+    subcategory: String, // ✅ e.g. "T-Shirts" within the "Men" category
+    rating: Number, // ✅ Add if using in filter
+    ratingCount: { type: Number, default: 0 }, // ✅ Number of reviews behind rating
+    skus: { type: [SkuSchema], default: undefined }, // ✅ Per size/color stock; absent = stock not tracked
+    stock: Number // ✅ Total of skus[].stock, kept in sync for listings
   },
   { timestamps: true }
 );
 
+const normalizeOption = (value) => (value || '').toString().trim().toLowerCase();
+
+// ✅ Price, discount and whether the selling-price window is open at `now`.
+// A live flash sale takes its discount off that price (regularPrice is the price without it).
+const resolvePricing = (pricing, now = new Date(), flashSale = null) => {
+  const started = !pricing.effectiveFrom || pricing.effectiveFrom <= now;
+  const ended = pricing.effectiveTo && pricing.effectiveTo <= now;
+  const onSale = started && !ended && pricing.sellingPrice < pricing.mrp;
+
+  const regularPrice = onSale ? pricing.sellingPrice : pricing.mrp;
+  const saleLive = !!flashSale && flashSale.startsAt <= now && flashSale.endsAt > now;
+  const price = saleLive
+    ? Math.round(regularPrice * (100 - flashSale.discountPercent) / 100)
+    : regularPrice;
+  const discountPercent = price < pricing.mrp && pricing.mrp > 0
+    ? Math.round(((pricing.mrp - price) / pricing.mrp) * 100)
+    : 0;
+
+  return { price, regularPrice, discountPercent, onSale: onSale || saleLive, flashSale: saleLive };
+};
+
+// Keep price/discount in sync with the pricing window (runs for save() and insertMany())
+ProductSchema.pre('validate', function(next) {
+  const pricing = this.pricing;
+  if (pricing && pricing.mrp != null && pricing.sellingPrice != null) {
+    if (pricing.sellingPrice > pricing.mrp) {
+      this.invalidate('pricing.sellingPrice', 'Selling price cannot be higher than MRP', pricing.sellingPrice);
+    }
+    if (pricing.effectiveFrom && pricing.effectiveTo && pricing.effectiveTo <= pricing.effectiveFrom) {
+      this.invalidate('pricing.effectiveTo', 'effectiveTo must be after effectiveFrom', pricing.effectiveTo);
+    }
+
+    const { price, discountPercent } = resolvePricing(pricing, new Date(), this.flashSale);
+    this.price = price;
+    this.pricing.discountPercent = discountPercent;
+    this.discount = discountPercent > 0 ? `${discountPercent}% OFF` : '';
+  }
+  next();
+});
+
+// Keep the total in sync (runs for save() and insertMany())
+ProductSchema.pre('validate', function(next) {
+  if (Array.isArray(this.skus) && this.skus.length > 0) {
+    this.skus.forEach(sku => {
+      if (!sku.sku) {
+        sku.sku = [this._id, sku.size, sku.color].filter(Boolean).join('-').replace(/\s+/g, '').toUpperCase();
+      }
+    });
+    this.stock = this.skus.reduce((sum, sku) => sum + (sku.stock || 0), 0);
+  }
+  next();
+});
+
+ProductSchema.index({ 'skus.sku': 1 }, { sparse: true });
+
+// ✅ Listing filters and sorts (productQueryService). Category listings lead with categoryPath;
+// the compound indexes also serve plain categoryPath lookups.
+ProductSchema.index({ categoryPath: 1, ratingCount: -1, rating: -1 });
+ProductSchema.index({ categoryPath: 1, price: 1 });
+ProductSchema.index({ categoryPath: 1, createdAt: -1 });
+ProductSchema.index({ brand: 1, price: 1 });
+ProductSchema.index({ sizes: 1 });
+ProductSchema.index({ colors: 1 });
+ProductSchema.index({ price: 1 });
+ProductSchema.index({ createdAt: -1 });
+ProductSchema.index({ ratingCount: -1, rating: -1 });
+ProductSchema.index({ rating: -1, ratingCount: -1 });
+ProductSchema.index({ 'pricing.discountPercent': -1 });
+
+// ✅ Keep categoryPath in step with category (runs for save() and insertMany()).
+// Category moves rewrite the paths in bulk - see categoryService.rebuildSubtree.
+ProductSchema.pre('validate', async function() {
+  if (!this.isModified('category') || this.isModified('categoryPath')) return;
+
+  const category = this.category
+    ? await Category.findById(this.category).select('ancestors').lean()
+    : null;
+  this.categoryPath = category ? [...category.ancestors, category._id] : [];
+});
+
+// ============================================================================
+// PRICE HISTORY - EVERY PRICE CHANGE IS RECORDED (USED BY WISHLIST PRICE ALERTS)
+// ============================================================================
+
+// History is a side record - a failure is logged, never surfaced to the write that changed the price
+const recordPrices = async (products) => {
+  try {
+    for (const product of products) {
+      await PriceHistory.recordPrice(product._id, product.price, product.pricing?.mrp);
+    }
+  } catch (error) {
+    console.error('❌ Failed to record price history:', error.message);
+  }
+};
+
+ProductSchema.pre('save', function(next) {
+  this.$locals.priceChanged = this.isNew || this.isModified('price') || this.isModified('pricing') || this.isModified('flashSale');
+  next();
+});
+
+ProductSchema.post('save', async function(doc) {
+  if (doc.$locals.priceChanged) await recordPrices([doc]);
+});
+
+ProductSchema.post('insertMany', async function(docs) {
+  await recordPrices(docs);
+});
+
+// Also used for the restock hooks below
+const PRICE_UPDATE_QUERIES = ['updateOne', 'updateMany', 'findOneAndUpdate'];
+
+ProductSchema.pre(PRICE_UPDATE_QUERIES, function(next) {
+  const update = this.getUpdate() || {};
+  this._priceChanged = update.price !== undefined || (update.$set && update.$set.price !== undefined) || !!update.$inc?.price;
+  next();
+});
+
+ProductSchema.post(PRICE_UPDATE_QUERIES, async function() {
+  if (!this._priceChanged) return;
+  try {
+    await recordPrices(await this.model.find(this.getFilter()).select('price pricing.mrp').lean());
+  } catch (error) {
+    console.error('❌ Failed to record price history:', error.message);
+  }
+});
+
+// ============================================================================
+// RESTOCKS - STOCK INCREASES WAKE UP BACK-IN-STOCK SUBSCRIPTIONS
+// ============================================================================
+
+// Required lazily - the service (via inventoryService) requires this model
+const queueRestock = (productIds) => {
+  if (productIds.length > 0) require('../services/stockAlertService').queueRestock(productIds);
+};
+
+const raisesStock = (update) => {
+  if (update.stock !== undefined || update.skus !== undefined) return true;
+  if (update.$set && (update.$set.stock !== undefined || update.$set.skus !== undefined)) return true;
+  return Object.entries(update.$inc || {}).some(([path, amount]) =>
+    (path === 'stock' || path.startsWith('skus')) && amount > 0
+  );
+};
+
+ProductSchema.pre('save', function(next) {
+  this.$locals.stockChanged = !this.isNew && (this.isModified('skus') || this.isModified('stock'));
+  next();
+});
+
+ProductSchema.post('save', function(doc) {
+  if (doc.$locals.stockChanged) queueRestock([doc._id]);
+});
+
+ProductSchema.pre(PRICE_UPDATE_QUERIES, function(next) {
+  this._stockRaised = raisesStock(this.getUpdate() || {});
+  next();
+});
+
+ProductSchema.post(PRICE_UPDATE_QUERIES, async function() {
+  if (!this._stockRaised) return;
+  try {
+    const products = await this.model.find(this.getFilter()).select('_id').lean();
+    queueRestock(products.map(product => product._id));
+  } catch (error) {
+    console.error('❌ Failed to queue back-in-stock check:', error.message);
+  }
+});
+
+ProductSchema.statics.resolvePricing = resolvePricing;
+
+// ✅ SKU for a size/color pick. A SKU without a color matches any color.
+ProductSchema.statics.findSku = function(product, size, color) {
+  if (!product || !Array.isArray(product.skus) || product.skus.length === 0) return null;
+
+  const wantedSize = normalizeOption(size);
+  const wantedColor = normalizeOption(color);
+  const sizeMatches = product.skus.filter(sku => normalizeOption(sku.size) === wantedSize);
+
+  return sizeMatches.find(sku => wantedColor && normalizeOption(sku.color) === wantedColor) ||
+    sizeMatches.find(sku => !sku.color) ||
+    (!wantedColor ? sizeMatches[0] : null) ||
+    null;
+};
+
+// ✅ Default SKUs for a size x color grid (used by the seed script)
+ProductSchema.statics.buildSkus = function(sizes = [], colors = [], stockPerSku = 0) {
+  const sizeList = sizes.length ? sizes : [''];
+  const colorList = colors.length ? colors : [''];
+  return sizeList.flatMap(size => colorList.map(color => ({ size, color, stock: stockPerSku })));
+};
+
 module.exports = mongoose.model("Product", ProductSchema);
@@ -0,0 +1,114 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// PROMOTION MODEL - AUTOMATIC CART PROMOTIONS (NO CODE NEEDED)
+// ============================================================================
+
+const PROMOTION_TYPES = ['buy_x_get_y', 'quantity_discount', 'spend_threshold', 'bundle'];
+const DISCOUNT_TYPES = ['percentage', 'fixed'];
+
+const promotionSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Promotion name is required'],
+    trim: true,
+    maxlength: 80
+  },
+  description: { type: String, trim: true, maxlength: 200 },
+  // buy_x_get_y: buy `buyQuantity`, get `getQuantity` at `discountPercent` off (100 = free)
+  // quantity_discount: `minQuantity` or more matching units all get `discountPercent` off
+  // spend_threshold: matching units worth `minAmount` or more get `discountValue` off
+  // bundle: one unit of each of `bundleProductIds` for `bundlePrice`
+  type: {
+    type: String,
+    enum: { values: PROMOTION_TYPES, message: 'Invalid promotion type' },
+    required: [true, 'Promotion type is required']
+  },
+  // ✅ Which bag items count - empty lists match everything; categories include their subtrees
+  conditions: {
+    brands: [{ type: String, trim: true }],
+    categoryIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Category' }],
+    productIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }]
+  },
+  buyQuantity: { type: Number, min: [1, 'Buy quantity must be at least 1'], default: null },
+  getQuantity: { type: Number, min: [1, 'Get quantity must be at least 1'], default: null },
+  minQuantity: { type: Number, min: [2, 'Minimum quantity must be at least 2'], default: null },
+  discountPercent: {
+    type: Number,
+    min: [1, 'Discount must be at least 1%'],
+    max: [100, 'Discount cannot exceed 100%'],
+    default: null
+  },
+  minAmount: { type: Number, min: [1, 'Minimum amount must be at least ₹1'], default: null },
+  discountType: { type: String, enum: DISCOUNT_TYPES, default: null },
+  discountValue: { type: Number, min: [1, 'Discount must be at least 1'], default: null },
+  maxDiscount: { type: Number, min: 0, default: null },
+  bundleProductIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+  bundlePrice: { type: Number, min: [1, 'Bundle price must be at least ₹1'], default: null },
+  // Times a buy_x_get_y group or a bundle can apply in one bag; null = no limit
+  maxApplications: { type: Number, min: [1, 'Max applications must be at least 1'], default: null },
+  // ✅ Lower runs first; a bag unit is discounted by one promotion at most
+  priority: { type: Number, default: 100, min: 0 },
+  startsAt: { type: Date, default: Date.now },
+  endsAt: { type: Date, default: null },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null }
+}, {
+  timestamps: true
+});
+
+promotionSchema.index({ isActive: 1, startsAt: 1, endsAt: 1, priority: 1 });
+
+// ✅ Each type needs its own fields
+promotionSchema.pre('validate', function(next) {
+  switch (this.type) {
+    case 'buy_x_get_y':
+      if (!this.buyQuantity) this.invalidate('buyQuantity', 'Buy quantity is required');
+      if (!this.getQuantity) this.invalidate('getQuantity', 'Get quantity is required');
+      if (this.discountPercent == null) this.discountPercent = 100;
+      break;
+    case 'quantity_discount':
+      if (!this.minQuantity) this.invalidate('minQuantity', 'Minimum quantity is required');
+      if (this.discountPercent == null) this.invalidate('discountPercent', 'Discount is required');
+      break;
+    case 'spend_threshold':
+      if (!this.minAmount) this.invalidate('minAmount', 'Minimum amount is required');
+      if (!this.discountType) this.invalidate('discountType', 'Discount type is required');
+      if (!this.discountValue) this.invalidate('discountValue', 'Discount is required');
+      if (this.discountType === 'percentage' && this.discountValue > 100) {
+        this.invalidate('discountValue', 'Discount cannot exceed 100%');
+      }
+      if (this.discountType === 'fixed' && this.discountValue >= this.minAmount) {
+        this.invalidate('discountValue', 'Discount must be less than the minimum amount');
+      }
+      break;
+    case 'bundle': {
+      const distinct = new Set((this.bundleProductIds || []).map(id => id.toString()));
+      if (distinct.size < 2 || distinct.size !== this.bundleProductIds.length) {
+        this.invalidate('bundleProductIds', 'A bundle needs at least two different products');
+      }
+      if (!this.bundlePrice) this.invalidate('bundlePrice', 'Bundle price is required');
+      break;
+    }
+  }
+
+  if (this.startsAt && this.endsAt && this.startsAt >= this.endsAt) {
+    this.invalidate('endsAt', 'endsAt must be after startsAt');
+  }
+  next();
+});
+
+// ✅ Live promotions: active and inside their window (no endsAt = open-ended)
+promotionSchema.statics.liveQuery = function(now = new Date()) {
+  return {
+    isActive: true,
+    startsAt: { $lte: now },
+    $or: [{ endsAt: null }, { endsAt: { $gt: now } }]
+  };
+};
+
+promotionSchema.statics.PROMOTION_TYPES = PROMOTION_TYPES;
+promotionSchema.statics.DISCOUNT_TYPES = DISCOUNT_TYPES;
+
+module.exports = mongoose.model('Promotion', promotionSchema);
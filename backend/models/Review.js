@@ -0,0 +1,151 @@
+const mongoose = require("mongoose");
+
+// ============================================================================
+// PRODUCT REVIEW MODEL WITH RATING AGGREGATION
+// ============================================================================
+
+const ReviewSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true
+    },
+    productId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+      index: true
+    },
+    userName: {
+      type: String,
+      trim: true,
+      default: 'Myntra Customer'
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+      default: ''
+    },
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+      default: ''
+    },
+    images: [{
+      type: String,
+      trim: true
+    }],
+    // ✅ Size the reviewer bought - helps other shoppers judge the fit
+    size: {
+      type: String,
+      trim: true
+    },
+    // ✅ Only set when the user has a delivered order containing this product
+    verified: {
+      type: Boolean,
+      default: false
+    },
+    helpful: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    helpfulBy: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User"
+    }]
+  },
+  {
+    timestamps: true
+  }
+);
+
+// ✅ One review per user per product
+ReviewSchema.index({ userId: 1, productId: 1 }, { unique: true });
+ReviewSchema.index({ productId: 1, createdAt: -1 });
+ReviewSchema.index({ productId: 1, helpful: -1 });
+ReviewSchema.index({ productId: 1, rating: -1 });
+
+// ✅ Verified purchase = a Delivered order that contains the product
+ReviewSchema.statics.isVerifiedPurchase = async function(userId, productId) {
+  const Order = mongoose.model("Order");
+  const order = await Order.exists({
+    userId: new mongoose.Types.ObjectId(userId),
+    status: 'Delivered',
+    'items.productId': new mongoose.Types.ObjectId(productId)
+  });
+  return !!order;
+};
+
+// ✅ Rating breakdown in the shape the product screen expects
+ReviewSchema.statics.getRatingBreakdown = async function(productId) {
+  try {
+    const counts = await this.aggregate([
+      { $match: { productId: new mongoose.Types.ObjectId(productId) } },
+      { $group: { _id: '$rating', count: { $sum: 1 } } }
+    ]);
+
+    const breakdown = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
+    counts.forEach(({ _id, count }) => {
+      const star = Math.round(_id);
+      if (breakdown[star] !== undefined) breakdown[star] += count;
+    });
+
+    const total = Object.values(breakdown).reduce((sum, count) => sum + count, 0);
+    const weighted = Object.entries(breakdown)
+      .reduce((sum, [star, count]) => sum + Number(star) * count, 0);
+
+    const percentages = {};
+    Object.keys(breakdown).forEach(star => {
+      percentages[star] = total > 0 ? Math.round((breakdown[star] / total) * 100) : 0;
+    });
+
+    return {
+      average: total > 0 ? Math.round((weighted / total) * 10) / 10 : 0,
+      total,
+      breakdown,
+      percentages
+    };
+  } catch (error) {
+    console.error('❌ Error in getRatingBreakdown:', error);
+    throw error;
+  }
+};
+
+// ✅ Keep Product.rating / ratingCount in sync with the review collection
+ReviewSchema.statics.syncProductRating = async function(productId) {
+  const Product = mongoose.model("Product");
+  const ratingBreakdown = await this.getRatingBreakdown(productId);
+  await Product.findByIdAndUpdate(productId, {
+    rating: ratingBreakdown.average,
+    ratingCount: ratingBreakdown.total
+  });
+  return ratingBreakdown;
+};
+
+// ✅ Voter ids stay on the server - clients get the count (and isHelpful via toClientJSON)
+ReviewSchema.methods.toJSON = function() {
+  const { helpful, helpfulBy, ...review } = this.toObject();
+  return { ...review, helpfulCount: helpful };
+};
+
+ReviewSchema.methods.isHelpfulTo = function(userId) {
+  return !!userId && this.helpfulBy.some(id => id.toString() === userId);
+};
+
+// Review as the given user sees it; anonymous viewers get isHelpful: false
+ReviewSchema.methods.toClientJSON = function(viewerId) {
+  return { ...this.toJSON(), isHelpful: this.isHelpfulTo(viewerId) };
+};
+
+module.exports = mongoose.model("Review", ReviewSchema);
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// SALE EVENT MODEL - TIME-BOXED FLASH SALES ON PRODUCTS AND CATEGORIES
+// ============================================================================
+
+const MAX_DISCOUNT_PERCENT = 90;
+
+const saleEventSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Sale name is required'],
+    trim: true,
+    maxlength: 80
+  },
+  description: { type: String, trim: true, maxlength: 200 },
+  bannerImage: { type: String, trim: true },
+  // ✅ Targets - listed products plus everything under the listed categories (subtrees included)
+  productIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+  categoryIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Category' }],
+  // Off the price the product would otherwise sell at (its selling price or MRP)
+  discountPercent: {
+    type: Number,
+    required: [true, 'Discount is required'],
+    min: [1, 'Discount must be at least 1%'],
+    max: [MAX_DISCOUNT_PERCENT, `Discount cannot exceed ${MAX_DISCOUNT_PERCENT}%`]
+  },
+  startsAt: { type: Date, required: [true, 'Start time is required'] },
+  endsAt: { type: Date, required: [true, 'End time is required'] },
+  // ✅ Units sold at the sale price across all its products; null = no cap
+  quantityCap: { type: Number, min: [1, 'Quantity cap must be at least 1'], default: null },
+  soldQuantity: { type: Number, default: 0, min: 0 },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+saleEventSchema.index({ isActive: 1, startsAt: 1, endsAt: 1 });
+
+saleEventSchema.virtual('remainingQuantity').get(function() {
+  return this.quantityCap == null ? null : Math.max(0, this.quantityCap - (this.soldQuantity || 0));
+});
+
+saleEventSchema.pre('validate', function(next) {
+  if (!(this.productIds && this.productIds.length) && !(this.categoryIds && this.categoryIds.length)) {
+    this.invalidate('productIds', 'A sale needs at least one product or category');
+  }
+  if (this.startsAt && this.endsAt && this.startsAt >= this.endsAt) {
+    this.invalidate('endsAt', 'endsAt must be after startsAt');
+  }
+  next();
+});
+
+// ✅ Live sales: active, inside their window and not sold out
+saleEventSchema.statics.liveQuery = function(now = new Date()) {
+  return {
+    isActive: true,
+    startsAt: { $lte: now },
+    endsAt: { $gt: now },
+    $or: [
+      { quantityCap: null },
+      { $expr: { $lt: ['$soldQuantity', '$quantityCap'] } }
+    ]
+  };
+};
+
+saleEventSchema.statics.MAX_DISCOUNT_PERCENT = MAX_DISCOUNT_PERCENT;
+
+module.exports = mongoose.model('SaleEvent', saleEventSchema);
@@ -0,0 +1,80 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// SAVED SEARCH MODEL - A NAMED QUERY + FILTERS, WITH AN OPTIONAL NEW-ARRIVALS DIGEST
+// ============================================================================
+
+const DIGEST_FREQUENCIES = ['daily', 'weekly'];
+const SORT_OPTIONS = ['relevance', 'price_asc', 'price_desc', 'rating', 'newest', 'popularity'];
+
+// Same fields as the frontend FilterState, except isNew → isNewArrival (isNew is reserved
+// by Mongoose) - savedSearchService maps between the two
+const filtersSchema = new mongoose.Schema({
+  category: { type: String, trim: true },
+  subcategory: { type: String, trim: true },
+  brands: { type: [String], default: undefined },
+  sizes: { type: [String], default: undefined },
+  colors: { type: [String], default: undefined },
+  priceMin: { type: Number, min: 0 },
+  priceMax: { type: Number, min: 0 },
+  rating: { type: Number, min: 0, max: 5 },
+  discount: { type: Number, min: 0, max: 100 },
+  inStock: { type: Boolean },
+  isNewArrival: { type: Boolean },
+  isBestseller: { type: Boolean },
+  sortBy: { type: String, enum: SORT_OPTIONS, default: 'relevance' }
+}, { _id: false });
+
+const savedSearchSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Saved search name is required'],
+    trim: true,
+    maxlength: [60, 'Saved search name cannot exceed 60 characters']
+  },
+  // Empty = a filters-only search
+  query: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Search query cannot exceed 100 characters'],
+    default: ''
+  },
+  filters: {
+    type: filtersSchema,
+    default: () => ({})
+  },
+  // "New since last visit" counts products added after this
+  lastViewedAt: {
+    type: Date,
+    default: Date.now
+  },
+  digestEnabled: {
+    type: Boolean,
+    default: false
+  },
+  digestFrequency: {
+    type: String,
+    enum: DIGEST_FREQUENCIES,
+    default: 'daily'
+  },
+  lastDigestAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Names are unique per user
+savedSearchSchema.index({ userId: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+savedSearchSchema.index({ userId: 1, updatedAt: -1 });
+savedSearchSchema.index({ digestEnabled: 1, lastDigestAt: 1 });
+
+savedSearchSchema.statics.DIGEST_FREQUENCIES = DIGEST_FREQUENCIES;
+
+module.exports = mongoose.model('SavedSearch', savedSearchSchema);
@@ -0,0 +1,96 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// SEARCH LOG MODEL - FEEDS TRENDING / POPULAR QUERY SUGGESTIONS
+// ============================================================================
+
+const searchLogSchema = new mongoose.Schema({
+  // Normalized query (lowercase, single-spaced) used for grouping
+  query: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+    maxlength: 100
+  },
+  rawQuery: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  resultCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  searchedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+searchLogSchema.index({ searchedAt: -1, query: 1 });
+// ✅ Auto-delete logs after 90 days
+searchLogSchema.index({ searchedAt: 1 }, { expireAfterSeconds: 86400 * 90 });
+
+const normalizeQuery = (query) => (query || '')
+  .toString()
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// ✅ Fire-and-forget logging helper used by the search route
+searchLogSchema.statics.logSearch = async function({ query, resultCount = 0, userId = null }) {
+  const normalized = normalizeQuery(query);
+  if (normalized.length < 2) return null;
+
+  return this.create({
+    query: normalized.slice(0, 100),
+    rawQuery: query.toString().trim().slice(0, 100),
+    resultCount,
+    userId: userId && mongoose.Types.ObjectId.isValid(userId) ? userId : null
+  });
+};
+
+// ✅ Most searched queries (that returned results) in the last N days, optionally by prefix
+searchLogSchema.statics.getTrendingQueries = function({ prefix = '', days = 7, limit = 5 } = {}) {
+  const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const match = {
+    searchedAt: { $gte: startDate },
+    resultCount: { $gt: 0 }
+  };
+
+  const normalizedPrefix = normalizeQuery(prefix);
+  if (normalizedPrefix) {
+    match.query = { $regex: `^${normalizedPrefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` };
+  }
+
+  return this.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$query',
+        searchCount: { $sum: 1 },
+        avgResults: { $avg: '$resultCount' },
+        lastSearchedAt: { $max: '$searchedAt' }
+      }
+    },
+    { $sort: { searchCount: -1, lastSearchedAt: -1 } },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 0,
+        query: '$_id',
+        searchCount: 1,
+        avgResults: { $round: ['$avgResults', 0] }
+      }
+    }
+  ]);
+};
+
+module.exports = mongoose.model('SearchLog', searchLogSchema);
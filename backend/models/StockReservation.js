@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// STOCK RESERVATION MODEL - SHORT-LIVED HOLDS WHILE A USER IS AT CHECKOUT
+// ============================================================================
+
+const ReservedItemSchema = new mongoose.Schema({
+  productId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  size: { type: String, default: '' },
+  color: { type: String, default: '' },
+  quantity: { type: Number, required: true, min: 1 }
+}, { _id: false });
+
+const stockReservationSchema = new mongoose.Schema({
+  // One active reservation per user - re-reserving replaces it
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  items: {
+    type: [ReservedItemSchema],
+    default: []
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// ✅ MongoDB removes expired holds on its own; queries also ignore them right away
+stockReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+stockReservationSchema.index({ 'items.productId': 1, expiresAt: 1 });
+
+stockReservationSchema.statics.keyFor = function(productId, size, color) {
+  return [productId.toString(), (size || '').toLowerCase(), (color || '').toLowerCase()].join('|');
+};
+
+// ✅ Quantities held by other users' active reservations, keyed by product|size|color
+stockReservationSchema.statics.getReservedQuantities = async function(productIds, excludeUserId = null) {
+  const match = {
+    expiresAt: { $gt: new Date() },
+    'items.productId': { $in: productIds.map(id => new mongoose.Types.ObjectId(id.toString())) }
+  };
+  if (excludeUserId && mongoose.Types.ObjectId.isValid(excludeUserId)) {
+    match.userId = { $ne: new mongoose.Types.ObjectId(excludeUserId.toString()) };
+  }
+
+  const rows = await this.aggregate([
+    { $match: match },
+    { $unwind: '$items' },
+    { $match: { 'items.productId': match['items.productId'] } },
+    {
+      $group: {
+        _id: { productId: '$items.productId', size: '$items.size', color: '$items.color' },
+        quantity: { $sum: '$items.quantity' }
+      }
+    }
+  ]);
+
+  const reserved = new Map();
+  rows.forEach(({ _id, quantity }) => {
+    const key = this.keyFor(_id.productId, _id.size, _id.color);
+    reserved.set(key, (reserved.get(key) || 0) + quantity);
+  });
+  return reserved;
+};
+
+module.exports = mongoose.model('StockReservation', stockReservationSchema);
@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// STOCK SUBSCRIPTION MODEL - "NOTIFY ME" WHEN A SOLD-OUT SIZE/COLOR IS RESTOCKED
+// ============================================================================
+
+const SUBSCRIPTION_STATUSES = ['active', 'notified', 'cancelled'];
+
+const stockSubscriptionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  productId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  size: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Empty = any color of the size
+  color: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  status: {
+    type: String,
+    enum: SUBSCRIPTION_STATUSES,
+    default: 'active'
+  },
+  notifiedAt: {
+    type: Date,
+    default: null
+  },
+  cancelledAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// One active subscription per user and size/color
+stockSubscriptionSchema.index(
+  { userId: 1, productId: 1, size: 1, color: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+stockSubscriptionSchema.index({ productId: 1, status: 1 });
+stockSubscriptionSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+stockSubscriptionSchema.statics.SUBSCRIPTION_STATUSES = SUBSCRIPTION_STATUSES;
+
+module.exports = mongoose.model('StockSubscription', stockSubscriptionSchema);
@@ -31,6 +31,23 @@ const UserSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    // ✅ NEW: Admins manage every order; set directly in the database
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      default: 'user',
+    },
+    // ✅ Bumped on logout / password reset to revoke outstanding refresh tokens
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    // ✅ Refresh tokens (by jti) that haven't been exchanged yet - each one is spent on refresh
+    refreshTokenIds: {
+      type: [String],
+      default: [],
+      select: false,
+    },
   },
   { 
     timestamps: true,
@@ -38,6 +55,8 @@ const UserSchema = new mongoose.Schema(
       transform: function(doc, ret) {
         delete ret.password;
         delete ret.resetPasswordToken;
+        delete ret.tokenVersion;
+        delete ret.refreshTokenIds;
         return ret;
       }
     }
@@ -36,9 +36,19 @@ const WishlistSchema = new mongoose.Schema(
       type: Boolean,
       default: false
     },
+    // Price when wishlisted - the baseline price alerts compare against
     originalPrice: {
       type: Number,
       min: 0
+    },
+    // ✅ NEW: Last price the user was alerted about, so the same drop isn't announced twice
+    lastAlertedPrice: {
+      type: Number,
+      default: null
+    },
+    lastAlertedAt: {
+      type: Date,
+      default: null
     }
   },
   { 
@@ -48,6 +58,21 @@ const WishlistSchema = new mongoose.Schema(
 
 // ✅ Prevent duplicate entries
 WishlistSchema.index({ userId: 1, productId: 1 }, { unique: true });
+WishlistSchema.index({ priceAlertEnabled: 1 });
+
+// ✅ NEW: How far the current price is below the price when wishlisted (null = no drop)
+WishlistSchema.statics.getPriceDrop = function(originalPrice, currentPrice) {
+  if (!originalPrice || currentPrice === null || currentPrice === undefined || currentPrice >= originalPrice) {
+    return null;
+  }
+  const amount = originalPrice - currentPrice;
+  return {
+    amount,
+    percentage: Math.round((amount / originalPrice) * 100),
+    originalPrice,
+    currentPrice
+  };
+};
 
 // ✅ FIXED: Complete implementation of static methods
 WishlistSchema.statics.getUserWishlistWithProducts = async function(userId, options = {}) {
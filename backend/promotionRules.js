@@ -0,0 +1,195 @@
+// ============================================================================
+// PROMOTION RULE ENGINE - PURE CART MATH; PROMOTIONS COME FROM promotionService
+// ============================================================================
+
+// Cart items: { id, productId, name, brand, price, quantity, categoryIds }. Every unit of an
+// item is evaluated on its own, so one promotion can discount part of a line's quantity.
+
+const idOf = (value) => (value?._id || value || '').toString();
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// Split `amount` across units by price; the last unit takes the rounding remainder
+const spreadDiscount = (units, amount) => {
+  const total = units.reduce((sum, unit) => sum + unit.price, 0);
+  let remaining = round(amount);
+
+  return units.map((unit, index) => {
+    const discount = index === units.length - 1 ? remaining : round(amount * unit.price / total);
+    remaining = round(remaining - discount);
+    return { unit, discount };
+  });
+};
+
+class PromotionRuleEngine {
+
+  static isLive(promotion, now = new Date()) {
+    return !!promotion.isActive &&
+      new Date(promotion.startsAt) <= now &&
+      (!promotion.endsAt || new Date(promotion.endsAt) > now);
+  }
+
+  // ✅ Brand, category (subtree) and product conditions must all hold; empty ones match anything
+  static matchesItem(promotion, item) {
+    const { brands = [], categoryIds = [], productIds = [] } = promotion.conditions || {};
+
+    if (brands.length > 0) {
+      const brand = (item.brand || '').toLowerCase();
+      if (!brands.some(name => name.toLowerCase() === brand)) return false;
+    }
+    if (categoryIds.length > 0) {
+      const path = (item.categoryIds || []).map(idOf);
+      if (!categoryIds.some(id => path.includes(idOf(id)))) return false;
+    }
+    if (productIds.length > 0 && !productIds.some(id => idOf(id) === idOf(item.productId))) {
+      return false;
+    }
+    return true;
+  }
+
+  // "Buy 2 Get 1 Free", "Buy 3, Get 20% Off", "₹300 Off on ₹2999+", "Bundle of 2 for ₹999"
+  static getLabel(promotion) {
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return promotion.discountPercent >= 100
+          ? `Buy ${promotion.buyQuantity} Get ${promotion.getQuantity} Free`
+          : `Buy ${promotion.buyQuantity} Get ${promotion.getQuantity} at ${promotion.discountPercent}% Off`;
+      case 'quantity_discount':
+        return `Buy ${promotion.minQuantity}, Get ${promotion.discountPercent}% Off`;
+      case 'spend_threshold':
+        return promotion.discountType === 'percentage'
+          ? `${promotion.discountValue}% Off on ₹${promotion.minAmount}+`
+          : `₹${promotion.discountValue} Off on ₹${promotion.minAmount}+`;
+      case 'bundle':
+        return `Bundle of ${promotion.bundleProductIds.length} for ₹${promotion.bundlePrice}`;
+      default:
+        return promotion.name;
+    }
+  }
+
+  // ✅ Units a promotion discounts, each with its discount → [{ unit, discount }] (empty = not met)
+  static applyToUnits(promotion, units) {
+    switch (promotion.type) {
+      case 'buy_x_get_y': {
+        // Priciest units are bought, the cheapest of each group are the "get" units
+        const groupSize = promotion.buyQuantity + promotion.getQuantity;
+        const sorted = [...units].sort((a, b) => b.price - a.price);
+        let groups = Math.floor(sorted.length / groupSize);
+        if (promotion.maxApplications) groups = Math.min(groups, promotion.maxApplications);
+
+        const applied = [];
+        for (let group = 0; group < groups; group++) {
+          const groupUnits = sorted.slice(group * groupSize, (group + 1) * groupSize);
+          groupUnits.forEach((unit, index) => applied.push({
+            unit,
+            discount: index < promotion.buyQuantity ? 0 : round(unit.price * promotion.discountPercent / 100)
+          }));
+        }
+        return applied;
+      }
+
+      case 'quantity_discount':
+        if (units.length < promotion.minQuantity) return [];
+        return units.map(unit => ({ unit, discount: round(unit.price * promotion.discountPercent / 100) }));
+
+      case 'spend_threshold': {
+        const spend = units.reduce((sum, unit) => sum + unit.price, 0);
+        if (units.length === 0 || spend < promotion.minAmount) return [];
+
+        let discount = promotion.discountType === 'percentage'
+          ? spend * promotion.discountValue / 100
+          : promotion.discountValue;
+        if (promotion.maxDiscount) discount = Math.min(discount, promotion.maxDiscount);
+        return spreadDiscount(units, Math.min(discount, spend));
+      }
+
+      case 'bundle': {
+        const bundleIds = promotion.bundleProductIds.map(idOf);
+        const pools = bundleIds.map(id => units
+          .filter(unit => idOf(unit.productId) === id)
+          .sort((a, b) => b.price - a.price));
+
+        let sets = Math.min(...pools.map(pool => pool.length));
+        if (promotion.maxApplications) sets = Math.min(sets, promotion.maxApplications);
+
+        const applied = [];
+        for (let set = 0; set < sets; set++) {
+          const setUnits = pools.map(pool => pool[set]);
+          const setPrice = setUnits.reduce((sum, unit) => sum + unit.price, 0);
+          if (setPrice <= promotion.bundlePrice) break;
+          applied.push(...spreadDiscount(setUnits, setPrice - promotion.bundlePrice));
+        }
+        return applied;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Apply live promotions to a cart, lowest priority first. A unit used by one promotion
+   * (including the "buy" units of a buy X get Y) isn't available to the next.
+   * → { totalDiscount, applied: [{ promotionId, name, label, type, discount, items }], items }
+   * `items` maps each cart item id to { discount, promotions: [{ promotionId, name, discount }] }.
+   */
+  static evaluate(promotions, cartItems, now = new Date()) {
+    const units = cartItems
+      .filter(item => item.price > 0 && item.quantity > 0)
+      .flatMap(item => Array.from({ length: item.quantity }, () => ({
+        item,
+        productId: item.productId,
+        price: item.price
+      })));
+    const used = new Set();
+
+    const ordered = promotions
+      .filter(promotion => PromotionRuleEngine.isLive(promotion, now))
+      .sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100));
+
+    const applied = [];
+    const items = {};
+
+    for (const promotion of ordered) {
+      const eligible = units.filter(unit => !used.has(unit) && PromotionRuleEngine.matchesItem(promotion, unit.item));
+      const unitDiscounts = PromotionRuleEngine.applyToUnits(promotion, eligible);
+      const discount = round(unitDiscounts.reduce((sum, { discount }) => sum + discount, 0));
+      if (discount <= 0) continue;
+
+      // Roll units back up into cart lines
+      const lines = new Map();
+      for (const { unit, discount: unitDiscount } of unitDiscounts) {
+        used.add(unit);
+        const line = lines.get(unit.item.id) || { itemId: unit.item.id, productId: unit.productId, quantity: 0, discount: 0 };
+        line.quantity += 1;
+        line.discount = round(line.discount + unitDiscount);
+        lines.set(unit.item.id, line);
+      }
+
+      const promotionId = promotion._id;
+      applied.push({
+        promotionId,
+        name: promotion.name,
+        label: PromotionRuleEngine.getLabel(promotion),
+        type: promotion.type,
+        discount,
+        items: [...lines.values()]
+      });
+
+      for (const line of lines.values()) {
+        if (line.discount <= 0) continue;
+        const entry = items[line.itemId] || (items[line.itemId] = { discount: 0, promotions: [] });
+        entry.discount = round(entry.discount + line.discount);
+        entry.promotions.push({ promotionId, name: promotion.name, discount: line.discount });
+      }
+    }
+
+    return {
+      totalDiscount: round(applied.reduce((sum, promotion) => sum + promotion.discount, 0)),
+      applied,
+      items
+    };
+  }
+}
+
+module.exports = PromotionRuleEngine;
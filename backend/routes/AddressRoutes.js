@@ -7,9 +7,14 @@ const {
   setDefaultAddress,
   getDefaultAddress
 } = require("../controllers/addressController");
+const { authenticate, requireSameUser, matchUserParam } = require("../middleware/auth");
 
 const router = express.Router();
 
+// ✅ NEW: JWT auth - every address route acts on the signed-in user's own data
+router.use(authenticate, requireSameUser);
+router.param("userId", matchUserParam);
+
 // ============================================================================
 // ADDRESS ROUTES - REST API ENDPOINTS
 // ============================================================================
@@ -0,0 +1,341 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Coupon = require("../models/Coupon");
+const CouponUsage = require("../models/CouponUsage");
+const couponService = require("../services/couponService");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN COUPON MANAGEMENT - CRUD, RULE VALIDATION, USAGE HISTORY
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+// `used` is only ever changed by redemptions; `code` is fixed once created (bags and history refer to it)
+const EDITABLE_FIELDS = [
+  'description', 'discount', 'discountType', 'threshold', 'maxDiscount', 'validFrom', 'validUpto',
+  'paymentMethods', 'categories', 'usageLimit', 'perUserLimit', 'isActive', 'priority',
+  'stackable', 'autoApply', 'conditions'
+];
+const SORT_FIELDS = {
+  priority: 'priority',
+  validUpto: 'validUpto',
+  used: 'used',
+  createdAt: 'createdAt',
+  code: 'code'
+};
+const COUPON_STATES = ['active', 'scheduled', 'expired', 'inactive'];
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((fields, key) => {
+  if (body[key] !== undefined) fields[key] = body[key];
+  return fields;
+}, {});
+
+const sendCouponError = (res, error, fallbackMessage) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid coupon rules",
+      errors: Object.values(error.errors).map(err => err.message)
+    });
+  }
+  if (error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid value for ${error.path}`
+    });
+  }
+  if (error.code === 11000) {
+    return res.status(409).json({ success: false, message: "A coupon with this code already exists" });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+const stateQuery = (state, now = new Date()) => {
+  switch (state) {
+    case 'active':
+      return Coupon.activeQuery(now);
+    case 'scheduled':
+      return { isActive: true, validFrom: { $gt: now } };
+    case 'expired':
+      return { validUpto: { $lt: now } };
+    case 'inactive':
+      return { isActive: false };
+    default:
+      return {};
+  }
+};
+
+const findCoupon = async (req, res) => {
+  const { couponId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(couponId)) {
+    res.status(400).json({ success: false, message: "Invalid coupon ID format" });
+    return null;
+  }
+
+  const coupon = await Coupon.findById(couponId);
+  if (!coupon) {
+    res.status(404).json({ success: false, message: "Coupon not found" });
+    return null;
+  }
+  return coupon;
+};
+
+// ✅ Allowed values for the coupon form
+router.get("/options", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      discountTypes: Coupon.DISCOUNT_TYPES,
+      paymentMethods: Coupon.PAYMENT_METHODS,
+      weekdays: Coupon.WEEKDAYS,
+      platforms: Coupon.PLATFORMS,
+      userTypes: Coupon.USER_TYPES,
+      states: COUPON_STATES
+    }
+  });
+});
+
+// ✅ List/search coupons by state and discount type
+router.get("/", async (req, res) => {
+  try {
+    const {
+      state,
+      discountType,
+      search,
+      page = 1,
+      limit = 20,
+      sortBy = 'priority',
+      sortOrder = 'asc'
+    } = req.query;
+
+    if (state && !COUPON_STATES.includes(state)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid state",
+        validStates: COUPON_STATES
+      });
+    }
+
+    const query = { ...stateQuery(state) };
+    if (discountType) query.discountType = discountType;
+    if (search && search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      const searchFilter = { $or: [{ code: searchRegex }, { description: searchRegex }] };
+      // The active state already uses $or for the usage limit
+      if (query.$or) {
+        query.$and = [{ $or: query.$or }, searchFilter];
+        delete query.$or;
+      } else {
+        query.$or = searchFilter.$or;
+      }
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const skip = (pageNum - 1) * limitNum;
+    const sortField = SORT_FIELDS[sortBy] || SORT_FIELDS.priority;
+    const sortOrderNum = sortOrder.toLowerCase() === 'desc' ? -1 : 1;
+
+    const [coupons, totalCount] = await Promise.all([
+      Coupon.find(query)
+        .sort({ [sortField]: sortOrderNum, _id: 1 })
+        .skip(skip)
+        .limit(limitNum),
+      Coupon.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: coupons,
+      meta: {
+        total: totalCount,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage: pageNum * limitNum < totalCount,
+        hasPrevPage: pageNum > 1
+      },
+      filters: {
+        applied: { state, discountType, search, sortBy, sortOrder }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching admin coupons:", error);
+    sendCouponError(res, error, "Failed to fetch coupons");
+  }
+});
+
+// ✅ Create a coupon - every rule shape is validated by the model
+router.post("/", async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: "Coupon code is required"
+      });
+    }
+
+    const coupon = await Coupon.create({
+      ...pickEditable(req.body),
+      code,
+      used: 0,
+      createdBy: req.user.id,
+      updatedBy: req.user.id
+    });
+
+    console.log(`🎟️ Coupon ${coupon.code} created by admin ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Coupon created",
+      data: coupon
+    });
+
+  } catch (error) {
+    console.error("Error creating coupon:", error);
+    sendCouponError(res, error, "Failed to create coupon");
+  }
+});
+
+router.get("/:couponId", async (req, res) => {
+  try {
+    const coupon = await findCoupon(req, res);
+    if (!coupon) return;
+
+    const customers = await CouponUsage.countDocuments({ couponId: coupon._id, count: { $gt: 0 } });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...coupon.toJSON(),
+        usage: {
+          used: coupon.used,
+          usageLimit: coupon.usageLimit,
+          remaining: coupon.usageLimit != null ? Math.max(0, coupon.usageLimit - coupon.used) : null,
+          customers
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching coupon:", error);
+    sendCouponError(res, error, "Failed to fetch coupon");
+  }
+});
+
+// ✅ Partial update; `conditions` is replaced as a whole when sent
+router.patch("/:couponId", async (req, res) => {
+  try {
+    const coupon = await findCoupon(req, res);
+    if (!coupon) return;
+
+    if (req.body.code !== undefined && String(req.body.code).trim().toUpperCase() !== coupon.code) {
+      return res.status(400).json({
+        success: false,
+        message: "Coupon code cannot be changed - create a new coupon instead"
+      });
+    }
+
+    const updates = pickEditable(req.body);
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No editable fields provided",
+        editableFields: EDITABLE_FIELDS
+      });
+    }
+
+    coupon.set({ ...updates, updatedBy: req.user.id });
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Coupon updated",
+      data: coupon
+    });
+
+  } catch (error) {
+    console.error("Error updating coupon:", error);
+    sendCouponError(res, error, "Failed to update coupon");
+  }
+});
+
+// ✅ Only never-redeemed coupons can be deleted; the rest keep their history and get deactivated
+router.delete("/:couponId", async (req, res) => {
+  try {
+    const coupon = await findCoupon(req, res);
+    if (!coupon) return;
+
+    const hasHistory = coupon.used > 0 || await CouponUsage.exists({ couponId: coupon._id });
+    if (hasHistory) {
+      return res.status(409).json({
+        success: false,
+        message: "This coupon has been used - deactivate it instead of deleting"
+      });
+    }
+
+    await coupon.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: `Coupon ${coupon.code} deleted`
+    });
+
+  } catch (error) {
+    console.error("Error deleting coupon:", error);
+    sendCouponError(res, error, "Failed to delete coupon");
+  }
+});
+
+// ✅ Per-user redemption history for one coupon
+router.get("/:couponId/usage", async (req, res) => {
+  try {
+    const coupon = await findCoupon(req, res);
+    if (!coupon) return;
+
+    const pageNum = Math.max(1, parseInt(req.query.page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
+    const { usages, total } = await couponService.getUsageHistory(coupon._id, { page: pageNum, limit: limitNum });
+
+    res.status(200).json({
+      success: true,
+      data: usages.map(usage => ({
+        customer: usage.userId && usage.userId.email ? {
+          _id: usage.userId._id,
+          fullName: usage.userId.fullName,
+          email: usage.userId.email
+        } : null,
+        count: usage.count,
+        redemptions: usage.redemptions,
+        updatedAt: usage.updatedAt
+      })),
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching coupon usage:", error);
+    sendCouponError(res, error, "Failed to fetch coupon usage");
+  }
+});
+
+module.exports = router;
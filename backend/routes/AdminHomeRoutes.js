@@ -0,0 +1,271 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const HomeSection = require("../models/HomeSection");
+const homeService = require("../services/homeService");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN HOME SCREEN CONTENT - SECTIONS, SCHEDULING AND AUDIENCE PREVIEW
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+// `key` is fixed once created (seeding and analytics refer to it)
+const EDITABLE_FIELDS = [
+  'type', 'title', 'subtitle', 'icon', 'viewAllLink', 'order', 'isActive', 'startsAt', 'endsAt',
+  'audience', 'slides', 'categoryIds', 'source'
+];
+const SECTION_STATES = ['live', 'scheduled', 'ended', 'inactive'];
+
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((fields, key) => {
+  if (body[key] !== undefined) fields[key] = body[key];
+  return fields;
+}, {});
+
+const stateQuery = (state, now = new Date()) => {
+  switch (state) {
+    case 'live':
+      return HomeSection.liveQuery(now);
+    case 'scheduled':
+      return { isActive: true, startsAt: { $gt: now } };
+    case 'ended':
+      return { endsAt: { $lt: now } };
+    case 'inactive':
+      return { isActive: false };
+    default:
+      return {};
+  }
+};
+
+const sendSectionError = (res, error, fallbackMessage) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid home section",
+      errors: Object.values(error.errors).map(err => err.message)
+    });
+  }
+  if (error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid value for ${error.path}`
+    });
+  }
+  if (error.code === 'INVALID_SECTION') {
+    return res.status(400).json({ success: false, message: error.message, code: error.code });
+  }
+  if (error.code === 11000) {
+    return res.status(409).json({ success: false, message: "A home section with this key already exists" });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+const findSection = async (req, res) => {
+  const { sectionId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(sectionId)) {
+    res.status(400).json({ success: false, message: "Invalid section ID format" });
+    return null;
+  }
+
+  const section = await HomeSection.findById(sectionId);
+  if (!section) {
+    res.status(404).json({ success: false, message: "Home section not found" });
+    return null;
+  }
+  return section;
+};
+
+// ✅ Allowed values for the section form
+router.get("/options", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      types: HomeSection.SECTION_TYPES,
+      audiences: HomeSection.AUDIENCES,
+      states: SECTION_STATES,
+      maxCollectionSize: HomeSection.MAX_COLLECTION_SIZE
+    }
+  });
+});
+
+// ✅ What the home screen returns for an audience at a point in time (?audience=new|returning&at=ISO date)
+router.get("/preview", async (req, res) => {
+  try {
+    const { audience = 'new', at } = req.query;
+
+    if (!HomeSection.AUDIENCES.includes(audience) || audience === 'all') {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid audience",
+        validAudiences: HomeSection.AUDIENCES.filter(value => value !== 'all')
+      });
+    }
+
+    const now = at ? new Date(at) : new Date();
+    if (Number.isNaN(now.getTime())) {
+      return res.status(400).json({ success: false, message: "Invalid preview date" });
+    }
+
+    const { sections } = await homeService.getSections({ audience, now });
+
+    res.status(200).json({
+      success: true,
+      data: sections,
+      meta: { total: sections.length, audience, at: now }
+    });
+
+  } catch (error) {
+    console.error("Error previewing home sections:", error);
+    sendSectionError(res, error, "Failed to preview home screen");
+  }
+});
+
+// ✅ All sections in display order, optionally by state (?state=live|scheduled|ended|inactive)
+router.get("/", async (req, res) => {
+  try {
+    const { state, type, audience } = req.query;
+
+    if (state && !SECTION_STATES.includes(state)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid state",
+        validStates: SECTION_STATES
+      });
+    }
+
+    const query = { ...stateQuery(state) };
+    if (type) query.type = type;
+    if (audience) query.audience = audience;
+
+    const sections = await HomeSection.find(query).sort({ order: 1, _id: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: sections,
+      meta: { total: sections.length },
+      filters: {
+        applied: { state, type, audience }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching home sections:", error);
+    sendSectionError(res, error, "Failed to fetch home sections");
+  }
+});
+
+// ✅ Create a section - content shape per type is validated by the model
+router.post("/", async (req, res) => {
+  try {
+    const { key } = req.body;
+
+    if (!key || typeof key !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: "Section key is required"
+      });
+    }
+
+    const section = new HomeSection({
+      ...pickEditable(req.body),
+      key,
+      createdBy: req.user.id,
+      updatedBy: req.user.id
+    });
+    homeService.checkSource(section);
+    await section.save();
+
+    console.log(`🏠 Home section ${section.key} created by admin ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Home section created",
+      data: section
+    });
+
+  } catch (error) {
+    console.error("Error creating home section:", error);
+    sendSectionError(res, error, "Failed to create home section");
+  }
+});
+
+router.get("/:sectionId", async (req, res) => {
+  try {
+    const section = await findSection(req, res);
+    if (!section) return;
+
+    res.status(200).json({
+      success: true,
+      data: section
+    });
+
+  } catch (error) {
+    console.error("Error fetching home section:", error);
+    sendSectionError(res, error, "Failed to fetch home section");
+  }
+});
+
+// ✅ Partial update; slides, categoryIds and source are replaced as a whole when sent
+router.patch("/:sectionId", async (req, res) => {
+  try {
+    const section = await findSection(req, res);
+    if (!section) return;
+
+    if (req.body.key !== undefined && String(req.body.key).trim().toLowerCase() !== section.key) {
+      return res.status(400).json({
+        success: false,
+        message: "Section key cannot be changed - create a new section instead"
+      });
+    }
+
+    const updates = pickEditable(req.body);
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No editable fields provided",
+        editableFields: EDITABLE_FIELDS
+      });
+    }
+
+    section.set({ ...updates, updatedBy: req.user.id });
+    homeService.checkSource(section);
+    await section.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Home section updated",
+      data: section
+    });
+
+  } catch (error) {
+    console.error("Error updating home section:", error);
+    sendSectionError(res, error, "Failed to update home section");
+  }
+});
+
+router.delete("/:sectionId", async (req, res) => {
+  try {
+    const section = await findSection(req, res);
+    if (!section) return;
+
+    await section.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: `Home section ${section.key} deleted`
+    });
+
+  } catch (error) {
+    console.error("Error deleting home section:", error);
+    sendSectionError(res, error, "Failed to delete home section");
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,476 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Order = require("../models/Order");
+const User = require("../models/User");
+const paymentService = require("../services/paymentService");
+const couponService = require("../services/couponService");
+const saleService = require("../services/saleService");
+const emailService = require("../services/emailService");
+const orderEvents = require("../services/orderEvents");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN ORDER MANAGEMENT - SEARCH, STATUS TRANSITIONS, CARRIERS, BULK UPDATES
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+const ORDER_STATUSES = Object.keys(Order.ORDER_STATUS_TRANSITIONS);
+const SORT_FIELDS = {
+  orderDate: 'orderDate',
+  updatedAt: 'updatedAt',
+  total: 'pricing.total',
+  status: 'status'
+};
+const MAX_BULK_ORDERS = 100;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sendOrderError = (res, error, fallbackMessage) => {
+  if (error.code === 'INVALID_STATUS_TRANSITION') {
+    return res.status(409).json({
+      success: false,
+      message: error.message,
+      allowedTransitions: error.allowedTransitions || []
+    });
+  }
+  if (['CARRIER_NOT_ALLOWED', 'PAYMENT_NOT_ALLOWED'].includes(error.code)) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  if (error.code === 'REFUND_FAILED') {
+    return res.status(502).json({ success: false, message: error.message });
+  }
+  if (error.code === 11000) {
+    return res.status(409).json({ success: false, message: "Tracking number is already in use" });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+// ✅ Cancelling also restocks items, refunds online payments and frees the coupon and sale units; the customer is emailed
+const applyStatus = async (order, status, { location = '', description = '' } = {}) => {
+  if (status === 'Cancelled') {
+    const reason = description || 'Cancelled by admin';
+    const refundedBefore = order.payment.refundAmount || 0;
+    await order.cancelOrder(reason, {
+      updatedBy: 'admin',
+      refundPayment: (amount, refundReason) => paymentService.refundOrder(order, amount, refundReason)
+    });
+    await couponService.releaseOrderCoupons(order);
+    await saleService.releaseOrderSales(order);
+    emailService.notifyOrderStatus(order, 'Cancelled', {
+      reason,
+      refundAmount: (order.payment.refundAmount || 0) - refundedBefore
+    });
+    return order;
+  }
+  await order.updateStatus(status, location, description, 'admin');
+  emailService.notifyOrderStatus(order, status);
+  return order;
+};
+
+const toAdminSummary = (order) => ({
+  _id: order._id,
+  orderId: order.orderId,
+  status: order.status,
+  orderDate: order.orderDate,
+  updatedAt: order.updatedAt,
+  customer: order.userId && order.userId.email ? {
+    _id: order.userId._id,
+    fullName: order.userId.fullName,
+    email: order.userId.email
+  } : null,
+  itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+  total: order.pricing?.total || 0,
+  payment: {
+    method: order.payment?.method,
+    status: order.payment?.status
+  },
+  carrier: order.tracking?.carrier,
+  trackingNumber: order.tracking?.number,
+  trackingStatus: order.tracking?.status,
+  shippingCity: order.shippingAddress?.city,
+  allowedTransitions: Order.ORDER_STATUS_TRANSITIONS[order.status] || []
+});
+
+// ✅ Statuses, legal transitions and carriers for the admin filters/actions
+router.get("/options", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      statuses: ORDER_STATUSES,
+      transitions: Order.ORDER_STATUS_TRANSITIONS,
+      carriers: Order.CARRIERS,
+      carrierScanStatuses: Order.CARRIER_SCAN_STATUSES,
+      paymentStatuses: ['Pending', 'Completed', 'Failed', 'Refunded', 'Partially Refunded']
+    }
+  });
+});
+
+// ✅ List/search orders by status, date, customer and carrier
+router.get("/", async (req, res) => {
+  try {
+    const {
+      status,
+      paymentStatus,
+      carrier,
+      userId,
+      search,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 20,
+      sortBy = 'orderDate',
+      sortOrder = 'desc'
+    } = req.query;
+
+    const query = {};
+
+    if (userId) {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid user ID format"
+        });
+      }
+      query.userId = userId;
+    }
+    if (carrier) query['tracking.carrier'] = carrier;
+    if (paymentStatus) query['payment.status'] = paymentStatus;
+    if (startDate || endDate) {
+      query.orderDate = {};
+      if (startDate) query.orderDate.$gte = new Date(startDate);
+      if (endDate) query.orderDate.$lte = new Date(endDate);
+    }
+
+    // Order ID, tracking number, recipient or customer name/email
+    if (search && search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      const customers = await User.find({
+        $or: [{ email: searchRegex }, { fullName: searchRegex }]
+      }).select('_id').limit(50).lean();
+
+      query.$or = [
+        { orderId: searchRegex },
+        { 'tracking.number': searchRegex },
+        { 'shippingAddress.fullName': searchRegex },
+        { 'shippingAddress.phone': searchRegex },
+        { userId: { $in: customers.map(customer => customer._id) } }
+      ];
+    }
+
+    // Status counts use every other filter, so the tabs show what each status would return
+    const statusFilter = status ? { status: { $in: status.split(',') } } : {};
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const skip = (pageNum - 1) * limitNum;
+    const sortField = SORT_FIELDS[sortBy] || SORT_FIELDS.orderDate;
+    const sortOrderNum = sortOrder.toLowerCase() === 'asc' ? 1 : -1;
+
+    const [orders, totalCount, statusCounts] = await Promise.all([
+      Order.find({ ...query, ...statusFilter })
+        .select('orderId userId status orderDate updatedAt items.quantity pricing.total payment.method payment.status tracking.carrier tracking.number tracking.status shippingAddress.city')
+        .populate({ path: 'userId', select: 'fullName email' })
+        .sort({ [sortField]: sortOrderNum, _id: sortOrderNum })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Order.countDocuments({ ...query, ...statusFilter }),
+      Order.aggregate([
+        { $match: query },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: orders.map(toAdminSummary),
+      meta: {
+        total: totalCount,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage: pageNum * limitNum < totalCount,
+        hasPrevPage: pageNum > 1
+      },
+      statusCounts: statusCounts.reduce((acc, { _id, count }) => {
+        acc[_id] = count;
+        return acc;
+      }, {}),
+      filters: {
+        applied: { status, paymentStatus, carrier, userId, search, startDate, endDate, sortBy, sortOrder }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching admin orders:", error);
+    sendOrderError(res, error, "Failed to fetch orders");
+  }
+});
+
+// ✅ Move many orders to the same status; each order is validated on its own
+router.patch("/bulk/status", async (req, res) => {
+  try {
+    const { orderIds, status, location = '', description = '' } = req.body;
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "orderIds must be a non-empty array"
+      });
+    }
+
+    if (orderIds.length > MAX_BULK_ORDERS) {
+      return res.status(400).json({
+        success: false,
+        message: `At most ${MAX_BULK_ORDERS} orders can be updated at once`
+      });
+    }
+
+    if (!ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid status",
+        validStatuses: ORDER_STATUSES
+      });
+    }
+
+    const validIds = [...new Set(orderIds.filter(id => mongoose.Types.ObjectId.isValid(id)))];
+    const orders = await Order.find({ _id: { $in: validIds } });
+    const ordersById = new Map(orders.map(order => [order._id.toString(), order]));
+
+    // Sequential - cancellations restock inventory and refund payments
+    const results = [];
+    for (const id of orderIds) {
+      const order = ordersById.get(String(id));
+      if (!order) {
+        results.push({ id, success: false, message: "Order not found" });
+        continue;
+      }
+
+      const previousStatus = order.status;
+      try {
+        await applyStatus(order, status, { location, description });
+        results.push({ id, orderId: order.orderId, success: true, previousStatus, newStatus: status });
+      } catch (error) {
+        if (!error.code) throw error;
+        results.push({ id, orderId: order.orderId, success: false, message: error.message, previousStatus });
+      }
+    }
+
+    const updated = results.filter(result => result.success).length;
+
+    res.status(200).json({
+      success: true,
+      message: `${updated} of ${orderIds.length} orders updated to ${status}`,
+      data: {
+        updated,
+        failed: orderIds.length - updated,
+        results
+      }
+    });
+
+  } catch (error) {
+    console.error("Error bulk updating orders:", error);
+    sendOrderError(res, error, "Failed to update orders");
+  }
+});
+
+// ✅ Full order details for the admin screen
+router.get("/:orderid", async (req, res) => {
+  try {
+    const { orderid } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    const order = await Order.findById(orderid)
+      .populate({ path: 'userId', select: 'fullName email' })
+      .populate({ path: 'items.productId', select: 'name brand images' });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...order.toObject(),
+        itemCount: order.itemCount,
+        allowedTransitions: order.getAllowedTransitions()
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching admin order:", error);
+    sendOrderError(res, error, "Failed to fetch order details");
+  }
+});
+
+// ✅ Advance one order along its lifecycle (illegal transitions → 409)
+router.patch("/:orderid/status", async (req, res) => {
+  try {
+    const { orderid } = req.params;
+    const { status, location = '', description = '' } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    if (!ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid status",
+        validStatuses: ORDER_STATUSES
+      });
+    }
+
+    const order = await Order.findById(orderid);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    const previousStatus = order.status;
+    await applyStatus(order, status, { location, description });
+
+    res.status(200).json({
+      success: true,
+      message: `Order status updated to ${status}`,
+      data: {
+        orderId: order.orderId,
+        previousStatus,
+        newStatus: order.status,
+        allowedTransitions: order.getAllowedTransitions(),
+        payment: {
+          status: order.payment.status,
+          refundAmount: order.payment.refundAmount || 0
+        },
+        tracking: order.tracking
+      }
+    });
+
+  } catch (error) {
+    console.error("Error updating order status:", error);
+    sendOrderError(res, error, "Failed to update order status");
+  }
+});
+
+// ✅ Assign (or change) the shipping carrier and tracking number
+router.patch("/:orderid/carrier", async (req, res) => {
+  try {
+    const { orderid } = req.params;
+    const { carrier, trackingNumber = '' } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    if (!carrier) {
+      return res.status(400).json({
+        success: false,
+        message: "Carrier is required",
+        carriers: Order.CARRIERS
+      });
+    }
+
+    const order = await Order.findById(orderid);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    order.assignCarrier(carrier, String(trackingNumber));
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Order assigned to ${carrier}`,
+      data: {
+        orderId: order.orderId,
+        tracking: order.tracking
+      }
+    });
+
+  } catch (error) {
+    console.error("Error assigning carrier:", error);
+    sendOrderError(res, error, "Failed to assign carrier");
+  }
+});
+
+// ✅ NEW: Record a carrier scan (picked up, in transit, out for delivery, failed attempt) on a shipped order
+router.patch("/:orderid/tracking", async (req, res) => {
+  try {
+    const { orderid } = req.params;
+    const { status, location = '', description = '' } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    if (!Order.CARRIER_SCAN_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid tracking status",
+        validStatuses: Order.CARRIER_SCAN_STATUSES
+      });
+    }
+
+    const order = await Order.findById(orderid);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    order.recordCarrierScan(status, { location, description, updatedBy: 'admin' });
+    await order.save();
+    orderEvents.publish(order, 'tracking');
+    emailService.notifyOrderStatus(order, status);
+
+    res.status(200).json({
+      success: true,
+      message: `Tracking status updated to ${status}`,
+      data: {
+        orderId: order.orderId,
+        tracking: order.tracking
+      }
+    });
+
+  } catch (error) {
+    console.error("Error recording carrier scan:", error);
+    sendOrderError(res, error, "Failed to update tracking");
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,281 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Product = require("../models/Product");
+const catalogService = require("../services/catalogService");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN PRODUCT MANAGEMENT - CRUD, BULK IMPORT (CSV/JSON, DRY RUN) AND EXPORT
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+const IMPORT_FORMATS = ['csv', 'json'];
+const SORT_FIELDS = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  name: 'name',
+  price: 'price',
+  stock: 'stock'
+};
+
+const sendCatalogError = (res, error, fallbackMessage) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid product data",
+      errors: Object.values(error.errors).map(err => err.message)
+    });
+  }
+  if (error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid value for ${error.path}`
+    });
+  }
+  if (['INVALID_FILTER', 'TOO_MANY_ROWS'].includes(error.code)) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+const findProduct = async (req, res) => {
+  const { productId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(productId)) {
+    res.status(400).json({ success: false, message: "Invalid product ID format" });
+    return null;
+  }
+
+  const product = await Product.findById(productId);
+  if (!product) {
+    res.status(404).json({ success: false, message: "Product not found" });
+    return null;
+  }
+  return product;
+};
+
+// ✅ List/search the catalog (same filters as export)
+router.get("/", async (req, res) => {
+  try {
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
+
+    const query = catalogService.buildQuery(req.query);
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const sortField = SORT_FIELDS[sortBy] || SORT_FIELDS.createdAt;
+    const sortOrderNum = sortOrder.toLowerCase() === 'asc' ? 1 : -1;
+
+    const [products, totalCount] = await Promise.all([
+      Product.find(query)
+        .sort({ [sortField]: sortOrderNum, _id: 1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .populate({ path: 'category', select: 'name' }),
+      Product.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: products,
+      meta: {
+        total: totalCount,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage: pageNum * limitNum < totalCount,
+        hasPrevPage: pageNum > 1
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching admin products:", error);
+    sendCatalogError(res, error, "Failed to fetch products");
+  }
+});
+
+// ✅ Download the filtered catalog - ?format=csv|json plus the list filters
+router.get("/export", async (req, res) => {
+  try {
+    const { format = 'json' } = req.query;
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid export format",
+        validFormats: IMPORT_FORMATS
+      });
+    }
+
+    const products = await catalogService.exportProducts(catalogService.buildQuery(req.query));
+    const filename = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    console.log(`📦 Catalog export (${format}, ${products.length} products) by admin ${req.user.email}`);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      res.type('text/csv').send(catalogService.toCsv(products));
+    } else {
+      res.status(200).json({
+        success: true,
+        data: products,
+        meta: { total: products.length, exportedAt: new Date().toISOString() }
+      });
+    }
+
+  } catch (error) {
+    console.error("Error exporting catalog:", error);
+    sendCatalogError(res, error, "Failed to export catalog");
+  }
+});
+
+// ✅ Bulk import. Body: { format: 'csv' | 'json', data: csvText | rows[], dryRun }
+// Every row is validated and reported; invalid rows are skipped, and dryRun writes nothing.
+router.post("/import", async (req, res) => {
+  try {
+    const { format = 'json', data, dryRun = false } = req.body;
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid import format",
+        validFormats: IMPORT_FORMATS
+      });
+    }
+
+    let rows;
+    if (format === 'csv') {
+      if (typeof data !== 'string' || !data.trim()) {
+        return res.status(400).json({ success: false, message: "CSV imports need the file contents in `data`" });
+      }
+      rows = catalogService.parseCsv(data);
+    } else {
+      if (!Array.isArray(data) || data.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+        return res.status(400).json({ success: false, message: "JSON imports need an array of product objects in `data`" });
+      }
+      rows = data;
+    }
+
+    if (rows.length === 0) {
+      return res.status(400).json({ success: false, message: "No rows to import" });
+    }
+
+    const report = await catalogService.importProducts(rows, { dryRun: dryRun === true || dryRun === 'true' });
+    const { summary } = report;
+
+    console.log(`📦 Catalog import${report.dryRun ? ' (dry run)' : ''} by admin ${req.user.email}: ` +
+      `${summary.valid}/${summary.total} valid, ${summary.created} created, ${summary.updated} updated`);
+
+    res.status(200).json({
+      success: true,
+      message: report.dryRun
+        ? `Dry run: ${summary.valid} of ${summary.total} rows would be imported`
+        : `${summary.created} created, ${summary.updated} updated, ${summary.invalid} skipped`,
+      data: report
+    });
+
+  } catch (error) {
+    console.error("Error importing catalog:", error);
+    sendCatalogError(res, error, "Failed to import catalog");
+  }
+});
+
+// ✅ Create a product - pricing as { mrp, sellingPrice, effectiveFrom?, effectiveTo? } or a flat price
+router.post("/", async (req, res) => {
+  try {
+    const categoryLookup = await catalogService.loadCategoryLookup();
+    const { fields, errors } = catalogService.normalizeInput(req.body, categoryLookup);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: "Invalid product data", errors });
+    }
+
+    const product = await catalogService.createProduct(fields);
+    console.log(`📦 Product ${product._id} (${product.name}) created by admin ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Product created",
+      data: product
+    });
+
+  } catch (error) {
+    console.error("Error creating product:", error);
+    sendCatalogError(res, error, "Failed to create product");
+  }
+});
+
+router.get("/:productId", async (req, res) => {
+  try {
+    const product = await findProduct(req, res);
+    if (!product) return;
+
+    await product.populate({ path: 'category', select: 'name' });
+
+    res.status(200).json({
+      success: true,
+      data: product
+    });
+
+  } catch (error) {
+    console.error("Error fetching product:", error);
+    sendCatalogError(res, error, "Failed to fetch product");
+  }
+});
+
+// ✅ Partial update; pricing fields are merged, `skus` replaces the stock grid
+router.patch("/:productId", async (req, res) => {
+  try {
+    const product = await findProduct(req, res);
+    if (!product) return;
+
+    const categoryLookup = await catalogService.loadCategoryLookup();
+    const { fields, errors } = catalogService.normalizeInput(req.body, categoryLookup, { partial: true });
+
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: "Invalid product data", errors });
+    }
+    if (Object.keys(fields).length === 0) {
+      return res.status(400).json({ success: false, message: "No editable fields provided" });
+    }
+
+    await catalogService.updateProduct(product, fields);
+
+    res.status(200).json({
+      success: true,
+      message: "Product updated",
+      data: product
+    });
+
+  } catch (error) {
+    console.error("Error updating product:", error);
+    sendCatalogError(res, error, "Failed to update product");
+  }
+});
+
+router.delete("/:productId", async (req, res) => {
+  try {
+    const product = await findProduct(req, res);
+    if (!product) return;
+
+    await catalogService.deleteProduct(product);
+    console.log(`🗑️ Product ${product._id} (${product.name}) deleted by admin ${req.user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: `Product ${product.name} deleted`
+    });
+
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    sendCatalogError(res, error, "Failed to delete product");
+  }
+});
+
+module.exports = router;
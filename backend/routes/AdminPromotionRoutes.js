@@ -0,0 +1,209 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Promotion = require("../models/Promotion");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN PROMOTIONS - AUTOMATIC BAG PROMOTIONS, THEIR RULES AND WINDOWS
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+const EDITABLE_FIELDS = [
+  'name', 'description', 'type', 'conditions', 'buyQuantity', 'getQuantity', 'minQuantity',
+  'discountPercent', 'minAmount', 'discountType', 'discountValue', 'maxDiscount',
+  'bundleProductIds', 'bundlePrice', 'maxApplications', 'priority', 'startsAt', 'endsAt', 'isActive'
+];
+const PROMOTION_STATES = ['live', 'scheduled', 'ended', 'inactive'];
+
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((fields, key) => {
+  if (body[key] !== undefined) fields[key] = body[key];
+  return fields;
+}, {});
+
+const stateQuery = (state, now = new Date()) => {
+  switch (state) {
+    case 'live':
+      return Promotion.liveQuery(now);
+    case 'scheduled':
+      return { isActive: true, startsAt: { $gt: now } };
+    case 'ended':
+      return { endsAt: { $ne: null, $lte: now } };
+    case 'inactive':
+      return { isActive: false };
+    default:
+      return {};
+  }
+};
+
+const sendPromotionError = (res, error, fallbackMessage) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid promotion",
+      errors: Object.values(error.errors).map(err => err.message)
+    });
+  }
+  if (error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid value for ${error.path}`
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+const findPromotion = async (req, res) => {
+  const { promotionId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(promotionId)) {
+    res.status(400).json({ success: false, message: "Invalid promotion ID format" });
+    return null;
+  }
+
+  const promotion = await Promotion.findById(promotionId);
+  if (!promotion) {
+    res.status(404).json({ success: false, message: "Promotion not found" });
+    return null;
+  }
+  return promotion;
+};
+
+// ✅ Allowed values for the promotion form
+router.get("/options", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      types: Promotion.PROMOTION_TYPES,
+      discountTypes: Promotion.DISCOUNT_TYPES,
+      states: PROMOTION_STATES
+    }
+  });
+});
+
+// ✅ All promotions in the order they're applied, optionally by state (?state=live|scheduled|ended|inactive)
+router.get("/", async (req, res) => {
+  try {
+    const { state } = req.query;
+
+    if (state && !PROMOTION_STATES.includes(state)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid state",
+        validStates: PROMOTION_STATES
+      });
+    }
+
+    const promotions = await Promotion.find(stateQuery(state)).sort({ priority: 1, createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: promotions,
+      meta: { total: promotions.length },
+      filters: {
+        applied: { state }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching promotions:", error);
+    sendPromotionError(res, error, "Failed to fetch promotions");
+  }
+});
+
+// ✅ Create a promotion - bags pick it up on their next fetch once it's live
+router.post("/", async (req, res) => {
+  try {
+    const promotion = new Promotion({
+      ...pickEditable(req.body),
+      createdBy: req.user.id,
+      updatedBy: req.user.id
+    });
+    await promotion.save();
+
+    console.log(`🏷️ Promotion ${promotion.name} created by admin ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Promotion created",
+      data: promotion
+    });
+
+  } catch (error) {
+    console.error("Error creating promotion:", error);
+    sendPromotionError(res, error, "Failed to create promotion");
+  }
+});
+
+router.get("/:promotionId", async (req, res) => {
+  try {
+    const promotion = await findPromotion(req, res);
+    if (!promotion) return;
+
+    res.status(200).json({
+      success: true,
+      data: promotion
+    });
+
+  } catch (error) {
+    console.error("Error fetching promotion:", error);
+    sendPromotionError(res, error, "Failed to fetch promotion");
+  }
+});
+
+// ✅ Partial update; conditions and bundleProductIds are replaced as a whole when sent
+router.patch("/:promotionId", async (req, res) => {
+  try {
+    const promotion = await findPromotion(req, res);
+    if (!promotion) return;
+
+    const updates = pickEditable(req.body);
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No editable fields provided",
+        editableFields: EDITABLE_FIELDS
+      });
+    }
+
+    promotion.set({ ...updates, updatedBy: req.user.id });
+    await promotion.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Promotion updated",
+      data: promotion
+    });
+
+  } catch (error) {
+    console.error("Error updating promotion:", error);
+    sendPromotionError(res, error, "Failed to update promotion");
+  }
+});
+
+// ✅ Placed orders keep their promotion records; only bags stop getting the discount
+router.delete("/:promotionId", async (req, res) => {
+  try {
+    const promotion = await findPromotion(req, res);
+    if (!promotion) return;
+
+    await promotion.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: `Promotion ${promotion.name} deleted`
+    });
+
+  } catch (error) {
+    console.error("Error deleting promotion:", error);
+    sendPromotionError(res, error, "Failed to delete promotion");
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,218 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const SaleEvent = require("../models/SaleEvent");
+const Product = require("../models/Product");
+const saleService = require("../services/saleService");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// ADMIN FLASH SALES - TARGETS, DISCOUNT, WINDOW AND QUANTITY CAP
+// ============================================================================
+
+router.use(authenticate, requireAdmin);
+
+// soldQuantity is only moved by orders (claims and cancellations)
+const EDITABLE_FIELDS = [
+  'name', 'description', 'bannerImage', 'productIds', 'categoryIds', 'discountPercent',
+  'startsAt', 'endsAt', 'quantityCap', 'isActive'
+];
+const SALE_STATES = ['live', 'scheduled', 'ended', 'sold_out', 'inactive'];
+
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((fields, key) => {
+  if (body[key] !== undefined) fields[key] = body[key];
+  return fields;
+}, {});
+
+const stateQuery = (state, now = new Date()) => {
+  switch (state) {
+    case 'live':
+      return SaleEvent.liveQuery(now);
+    case 'scheduled':
+      return { isActive: true, startsAt: { $gt: now } };
+    case 'ended':
+      return { endsAt: { $lte: now } };
+    case 'sold_out':
+      return { quantityCap: { $ne: null }, $expr: { $gte: ['$soldQuantity', '$quantityCap'] } };
+    case 'inactive':
+      return { isActive: false };
+    default:
+      return {};
+  }
+};
+
+const sendSaleError = (res, error, fallbackMessage) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid sale",
+      errors: Object.values(error.errors).map(err => err.message)
+    });
+  }
+  if (error.name === 'CastError') {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid value for ${error.path}`
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+const findSale = async (req, res) => {
+  const { saleId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(saleId)) {
+    res.status(400).json({ success: false, message: "Invalid sale ID format" });
+    return null;
+  }
+
+  const sale = await SaleEvent.findById(saleId);
+  if (!sale) {
+    res.status(404).json({ success: false, message: "Sale not found" });
+    return null;
+  }
+  return sale;
+};
+
+// ✅ Allowed values for the sale form
+router.get("/options", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      states: SALE_STATES,
+      maxDiscountPercent: SaleEvent.MAX_DISCOUNT_PERCENT
+    }
+  });
+});
+
+// ✅ All sales, latest ending first, optionally by state (?state=live|scheduled|ended|sold_out|inactive)
+router.get("/", async (req, res) => {
+  try {
+    const { state } = req.query;
+
+    if (state && !SALE_STATES.includes(state)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid state",
+        validStates: SALE_STATES
+      });
+    }
+
+    const sales = await SaleEvent.find(stateQuery(state)).sort({ endsAt: -1, _id: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: sales,
+      meta: { total: sales.length },
+      filters: {
+        applied: { state }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching sales:", error);
+    sendSaleError(res, error, "Failed to fetch sales");
+  }
+});
+
+// ✅ Create a sale - products pick up the sale price when its window opens
+router.post("/", async (req, res) => {
+  try {
+    const sale = new SaleEvent({
+      ...pickEditable(req.body),
+      createdBy: req.user.id,
+      updatedBy: req.user.id
+    });
+    await sale.save();
+    saleService.queueSync();
+
+    console.log(`⚡ Sale ${sale.name} created by admin ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Sale created",
+      data: sale
+    });
+
+  } catch (error) {
+    console.error("Error creating sale:", error);
+    sendSaleError(res, error, "Failed to create sale");
+  }
+});
+
+// ✅ A sale with the number of products currently priced by it
+router.get("/:saleId", async (req, res) => {
+  try {
+    const sale = await findSale(req, res);
+    if (!sale) return;
+
+    const pricedProducts = await Product.countDocuments({ 'flashSale.saleId': sale._id });
+
+    res.status(200).json({
+      success: true,
+      data: { ...sale.toObject(), pricedProducts }
+    });
+
+  } catch (error) {
+    console.error("Error fetching sale:", error);
+    sendSaleError(res, error, "Failed to fetch sale");
+  }
+});
+
+// ✅ Partial update; productIds and categoryIds are replaced as a whole when sent
+router.patch("/:saleId", async (req, res) => {
+  try {
+    const sale = await findSale(req, res);
+    if (!sale) return;
+
+    const updates = pickEditable(req.body);
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No editable fields provided",
+        editableFields: EDITABLE_FIELDS
+      });
+    }
+
+    sale.set({ ...updates, updatedBy: req.user.id });
+    await sale.save();
+    saleService.queueSync();
+
+    res.status(200).json({
+      success: true,
+      message: "Sale updated",
+      data: sale
+    });
+
+  } catch (error) {
+    console.error("Error updating sale:", error);
+    sendSaleError(res, error, "Failed to update sale");
+  }
+});
+
+// ✅ Deleting a sale puts its products back at their regular price
+router.delete("/:saleId", async (req, res) => {
+  try {
+    const sale = await findSale(req, res);
+    if (!sale) return;
+
+    await sale.deleteOne();
+    saleService.queueSync();
+
+    res.status(200).json({
+      success: true,
+      message: `Sale ${sale.name} deleted`
+    });
+
+  } catch (error) {
+    console.error("Error deleting sale:", error);
+    sendSaleError(res, error, "Failed to delete sale");
+  }
+});
+
+module.exports = router;
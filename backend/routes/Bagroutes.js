@@ -2,9 +2,18 @@ const express = require("express");
 const Bag = require("../models/Bag");
 const Product = require("../models/Product");
 const Wishlist = require("../models/Wishlist"); // NEW: Import Wishlist model
+const inventoryService = require("../services/inventoryService");
+const couponService = require("../services/couponService");
+const saleService = require("../services/saleService");
+const promotionService = require("../services/promotionService");
+const { authenticate, requireSameUser, matchUserParam } = require("../middleware/auth");
 const router = express.Router();
 const mongoose = require("mongoose");
 
+// ✅ NEW: JWT auth - every bag route acts on the signed-in user's own data
+router.use(authenticate, requireSameUser);
+router.param("userid", matchUserParam);
+
 // ============================================================================
 // ENHANCED BAG/CART ROUTES WITH PROFESSIONAL FEATURES
 // ============================================================================
@@ -47,7 +56,7 @@ router.post("/", async (req, res) => {
 
     // Check if product exists and get current details
     const product = await Product.findById(productId).select(
-      'name brand price discount images stock sizes colors isNew isFeatured'
+      'name brand price pricing flashSale discount images stock skus sizes colors isNew isFeatured'
     );
 
     if (!product) {
@@ -57,14 +66,8 @@ router.post("/", async (req, res) => {
       });
     }
 
-    // Check stock availability
-    if (product.stock !== undefined && product.stock < quantity) {
-      return res.status(400).json({
-        success: false,
-        message: `Only ${product.stock} items available in stock`,
-        availableStock: product.stock
-      });
-    }
+    // ✅ A flash sale that just ended must not be added at its sale price
+    await saleService.refreshProducts([product]);
 
     // Validate size if product has specific sizes
     if (product.sizes && product.sizes.length > 0 && !product.sizes.includes(size)) {
@@ -86,6 +89,22 @@ router.post("/", async (req, res) => {
 
     // Check if same item (product + size + color) already exists in bag
     const existingItem = await Bag.findByUserAndProduct(userId, productId, size, color);
+
+    // ✅ Check stock of the selected size/color (counting what is already in the bag)
+    const requestedQuantity = Math.min((existingItem?.quantity || 0) + quantity, 10);
+    const { results } = await inventoryService.checkItems(
+      [{ productId, size, color, quantity: requestedQuantity }],
+      { excludeUserId: userId }
+    );
+    if (!results[0].ok) {
+      return res.status(400).json({
+        success: false,
+        message: results[0].available > 0
+          ? `Only ${results[0].available} items available in size ${size}`
+          : results[0].issue || "Selected size is out of stock",
+        availableStock: results[0].available
+      });
+    }
     
     if (existingItem) {
       // Update quantity of existing item
@@ -106,7 +125,7 @@ router.post("/", async (req, res) => {
       const populatedItem = await Bag.findById(updatedItem._id)
         .populate({
           path: 'productId',
-          select: 'name brand price discount images rating ratingCount stock'
+          select: 'name brand price pricing discount images rating ratingCount stock'
         });
 
       return res.status(200).json({
@@ -126,6 +145,7 @@ router.post("/", async (req, res) => {
       quantity,
       priceWhenAdded: product.price,
       discountWhenAdded: product.discount || '',
+      saleIdWhenAdded: product.flashSale?.saleId || null,
       addedFrom,
       savedForLater: false
     };
@@ -140,7 +160,7 @@ router.post("/", async (req, res) => {
     const populatedItem = await Bag.findById(savedItem._id)
       .populate({
         path: 'productId',
-        select: 'name brand price discount images rating ratingCount stock'
+        select: 'name brand price pricing discount images rating ratingCount stock'
       });
 
     res.status(201).json({
@@ -204,28 +224,32 @@ router.get("/:userid", async (req, res) => {
     const skip = (pageNum - 1) * limitNum;
     const sortOrderNum = sortOrder.toLowerCase() === 'desc' ? -1 : 1;
 
-    // ✅ FIXED: Corrected MongoDB query syntax
+    // ✅ The whole bag is loaded - promotions and totals cover every item, only `data` is paged
     let bagItems = await Bag.find({ userId: userid, savedForLater: false })
       .populate({
         path: 'productId',
-        select: 'name brand price discount images rating ratingCount stock colors sizes isNew isFeatured category',
+        select: 'name brand price pricing flashSale discount images rating ratingCount stock colors sizes isNew isFeatured category categoryPath',
         // ✅ FIXED: Use proper field-condition syntax instead of top-level $ne
         match: { _id: { $exists: true } }
       })
-      .populate({
-        path: 'appliedCoupon',
-        select: 'code description discount_type discount_value'
-      })
       .sort({ [sortBy]: sortOrderNum })
-      .skip(skip)
-      .limit(limitNum)
       .lean();
 
     // Remove items with null productId (deleted products)
     bagItems = bagItems.filter(item => item.productId);
 
+    // ✅ Flash sales that ended since the last sync are priced out before the totals
+    await saleService.refreshProducts(bagItems.map(item => item.productId));
+    const endedSaleItemIds = new Set(saleService.findEndedSaleItems(bagItems).map(item => item._id.toString()));
+
+    // ✅ Real per-size/color availability (other users' checkout holds excluded)
+    const { results: stockResults } = await inventoryService.checkItems(bagItems, { excludeUserId: userid });
+
+    // ✅ Automatic promotions (no code) on the current prices, itemized per bag line
+    const promotionResult = await promotionService.evaluateBag(bagItems);
+
     // Check for price changes and stock issues
-    const itemsWithUpdates = bagItems.map(item => {
+    const itemsWithUpdates = bagItems.map((item, index) => {
       const bagItem = { ...item };
       
       if (item.productId) {
@@ -233,10 +257,15 @@ router.get("/:userid", async (req, res) => {
         bagItem.priceChanged = item.priceWhenAdded !== item.productId.price;
         bagItem.currentPrice = item.productId.price;
         bagItem.priceDifference = item.productId.price - item.priceWhenAdded;
+        bagItem.saleEnded = endedSaleItemIds.has(item._id.toString());
+
+        const itemPromotions = promotionResult.items[item._id.toString()];
+        bagItem.promotionDiscount = itemPromotions ? itemPromotions.discount : 0;
+        bagItem.promotions = itemPromotions ? itemPromotions.promotions : [];
         
         // Check stock availability
-        bagItem.inStock = !item.productId.stock || item.productId.stock >= item.quantity;
-        bagItem.availableStock = item.productId.stock;
+        bagItem.inStock = stockResults[index].ok;
+        bagItem.availableStock = stockResults[index].available;
         
         // Check if size/color still available
         bagItem.sizeAvailable = !item.productId.sizes ||
@@ -262,8 +291,10 @@ router.get("/:userid", async (req, res) => {
         sum + (item.quantity * item.priceWhenAdded), 0
       ),
       savings: 0,
+      promotionDiscount: promotionResult.totalDiscount,
       outOfStockItems: itemsWithUpdates.filter(item => !item.inStock).length,
-      priceChangedItems: itemsWithUpdates.filter(item => item.priceChanged).length
+      priceChangedItems: itemsWithUpdates.filter(item => item.priceChanged).length,
+      saleEndedItems: endedSaleItemIds.size
     };
 
     totals.savings = totals.originalTotal - totals.subtotal;
@@ -272,11 +303,12 @@ router.get("/:userid", async (req, res) => {
     const bagWithCoupon = await Bag.findOne({ 
       userId: userid, 
       appliedCoupon: { $exists: true, $ne: null } 
-    }).populate('appliedCoupon');
+    });
     
     const couponDiscount = bagWithCoupon && bagWithCoupon.appliedCoupon ? bagWithCoupon.discountAmount : 0;
+    const appliedCoupon = bagWithCoupon ? await couponService.findByCode(bagWithCoupon.appliedCoupon) : null;
     
-    let finalTotalAfterDiscount = totals.subtotal - couponDiscount;
+    let finalTotalAfterDiscount = totals.subtotal - totals.promotionDiscount - couponDiscount;
     if (finalTotalAfterDiscount < 0) finalTotalAfterDiscount = 0;
 
     // Estimated shipping and tax (can be made dynamic)
@@ -290,7 +322,7 @@ router.get("/:userid", async (req, res) => {
     // Prepare comprehensive response
     const response = {
       success: true,
-      data: itemsWithUpdates,
+      data: itemsWithUpdates.slice(skip, skip + limitNum),
       totals: {
         ...totals,
         shipping,
@@ -298,6 +330,7 @@ router.get("/:userid", async (req, res) => {
         couponDiscount: Math.round(couponDiscount),
         finalTotal: Math.round(finalTotalWithShippingAndTax)
       },
+      promotions: promotionResult.applied,
       meta: {
         total: totalCount,
         page: pageNum,
@@ -310,18 +343,20 @@ router.get("/:userid", async (req, res) => {
       alerts: {
         hasOutOfStockItems: totals.outOfStockItems > 0,
         hasPriceChanges: totals.priceChangedItems > 0,
+        hasEndedSales: totals.saleEndedItems > 0,
         freeShippingEligible: finalTotalAfterDiscount > 499,
         freeShippingRemaining: Math.max(0, 499 - finalTotalAfterDiscount),
-        couponApplied: !!bagWithCoupon
+        couponApplied: !!bagWithCoupon,
+        promotionsApplied: promotionResult.applied.length > 0
       }
     };
 
     if (bagWithCoupon) {
       response.coupon = {
-        code: bagWithCoupon.appliedCoupon.code,
-        description: bagWithCoupon.appliedCoupon.description,
-        discount_value: bagWithCoupon.appliedCoupon.discount_value,
-        discount_type: bagWithCoupon.appliedCoupon.discount_type,
+        code: bagWithCoupon.appliedCoupon,
+        description: appliedCoupon?.description || '',
+        discount_value: appliedCoupon?.discount ?? 0,
+        discount_type: appliedCoupon?.discountType || '',
         couponDiscount: couponDiscount
       };
     }
@@ -408,9 +443,9 @@ router.put("/:itemid/quantity", async (req, res) => {
     }
 
     // Find the bag item
-    const bagItem = await Bag.findById(itemid).populate({
+    const bagItem = await Bag.findOne({ _id: itemid, userId: req.user.id }).populate({
       path: 'productId',
-      select: 'name brand stock'
+      select: 'name brand stock skus'
     });
 
     if (!bagItem) {
@@ -427,12 +462,16 @@ router.put("/:itemid/quantity", async (req, res) => {
       });
     }
 
-    // Check stock availability
-    if (bagItem.productId.stock !== undefined && bagItem.productId.stock < quantity) {
+    // ✅ Check stock of this size/color
+    const { results } = await inventoryService.checkItems(
+      [{ productId: bagItem.productId, size: bagItem.size, color: bagItem.color, quantity }],
+      { excludeUserId: bagItem.userId }
+    );
+    if (!results[0].ok) {
       return res.status(400).json({
         success: false,
-        message: `Only ${bagItem.productId.stock} items available in stock`,
-        availableStock: bagItem.productId.stock,
+        message: `Only ${results[0].available} items available in stock`,
+        availableStock: results[0].available,
         currentQuantity: bagItem.quantity
       });
     }
@@ -442,9 +481,9 @@ router.put("/:itemid/quantity", async (req, res) => {
     await bagItem.save();
 
     // Get updated item with product details
-    const updatedItem = await Bag.findById(itemid).populate({
+    const updatedItem = await Bag.findOne({ _id: itemid, userId: req.user.id }).populate({
       path: 'productId',
-      select: 'name brand price discount images rating stock'
+      select: 'name brand price pricing discount images rating stock'
     });
 
     res.status(200).json({
@@ -487,7 +526,7 @@ router.delete("/:itemid", async (req, res) => {
     }
 
     // Find and delete the item
-    const deletedItem = await Bag.findByIdAndDelete(itemid)
+    const deletedItem = await Bag.findOneAndDelete({ _id: itemid, userId: req.user.id })
       .populate({
         path: 'productId',
         select: 'name brand price images'
@@ -539,7 +578,7 @@ router.patch("/:itemid/save", async (req, res) => {
       });
     }
 
-    const bagItem = await Bag.findById(itemid);
+    const bagItem = await Bag.findOne({ _id: itemid, userId: req.user.id });
     
     if (!bagItem) {
       return res.status(404).json({
@@ -554,9 +593,9 @@ router.patch("/:itemid/save", async (req, res) => {
     await bagItem.save();
 
     // Get updated item with product details
-    const updatedItem = await Bag.findById(itemid).populate({
+    const updatedItem = await Bag.findOne({ _id: itemid, userId: req.user.id }).populate({
       path: 'productId',
-      select: 'name brand price discount images'
+      select: 'name brand price pricing discount images'
     });
 
     res.status(200).json({
@@ -588,7 +627,7 @@ router.patch("/:itemid/move-to-bag", async (req, res) => {
       });
     }
 
-    const bagItem = await Bag.findById(itemid);
+    const bagItem = await Bag.findOne({ _id: itemid, userId: req.user.id });
     
     if (!bagItem) {
       return res.status(404).json({
@@ -603,9 +642,9 @@ router.patch("/:itemid/move-to-bag", async (req, res) => {
     await bagItem.save();
 
     // Get updated item with product details
-    const updatedItem = await Bag.findById(itemid).populate({
+    const updatedItem = await Bag.findOne({ _id: itemid, userId: req.user.id }).populate({
       path: 'productId',
-      select: 'name brand price discount images stock'
+      select: 'name brand price pricing discount images stock'
     });
 
     res.status(200).json({
@@ -654,7 +693,7 @@ router.get("/:userid/saved", async (req, res) => {
     })
       .populate({
         path: 'productId',
-        select: 'name brand price discount images rating ratingCount stock',
+        select: 'name brand price pricing discount images rating ratingCount stock',
         match: { _id: { $exists: true } }
       })
       .sort({ [sortBy]: sortOrderNum })
@@ -749,7 +788,7 @@ router.get("/:userid/summary", async (req, res) => {
       Bag.find({ userId: userid, savedForLater: false })
         .populate({
           path: 'productId',
-          select: 'price',
+          select: 'name brand price categoryPath',
           match: { _id: { $exists: true } }
         })
         .lean()
@@ -758,6 +797,8 @@ router.get("/:userid/summary", async (req, res) => {
     // Filter valid items and calculate total
     const validBagItems = bagItems.filter(item => item.productId);
     const bagTotal = validBagItems.reduce((sum, item) => sum + (item.quantity * item.productId.price), 0);
+    const promotionResult = await promotionService.evaluateBag(validBagItems);
+    const promotionDiscount = promotionResult.totalDiscount;
     
     const savedCount = await Bag.countDocuments({ userId: userid, savedForLater: true });
 
@@ -765,11 +806,11 @@ router.get("/:userid/summary", async (req, res) => {
     const bagWithCoupon = await Bag.findOne({ 
       userId: userid, 
       appliedCoupon: { $exists: true, $ne: null } 
-    }).populate('appliedCoupon');
+    });
     
     const couponDiscount = bagWithCoupon && bagWithCoupon.appliedCoupon ? bagWithCoupon.discountAmount : 0;
     
-    let finalTotalAfterDiscount = bagTotal - couponDiscount;
+    let finalTotalAfterDiscount = bagTotal - promotionDiscount - couponDiscount;
     if (finalTotalAfterDiscount < 0) finalTotalAfterDiscount = 0;
 
     // Calculate shipping and tax
@@ -783,6 +824,8 @@ router.get("/:userid/summary", async (req, res) => {
         itemCount,
         savedItemCount: savedCount,
         subtotal: Math.round(bagTotal),
+        promotionDiscount,
+        promotions: promotionResult.applied,
         couponDiscount: Math.round(couponDiscount),
         shipping,
         tax,
@@ -812,50 +855,26 @@ router.post('/apply-coupon', async (req, res) => {
       return res.status(400).json({ success: false, message: 'User ID and coupon code are required.' });
     }
     
-    // Find all non-saved bag items for the user
-    const bagItems = await Bag.find({ userId: userId, savedForLater: false }).populate({
-      path: 'productId',
-      select: 'price category',
-      populate: {
-        path: 'category',
-        select: '_id'
-      }
-    });
-    
-    if (bagItems.length === 0) {
-      return res.status(404).json({ success: false, message: 'Your bag is empty.' });
-    }
-
-    const bagTotal = bagItems.reduce((sum, item) => sum + (item.quantity * item.productId.price), 0);
-
-    // Find and validate the coupon using the static method from CouponRoutes
-    const Coupon = require('../models/Coupon');
-    const { valid, errors, coupon } = await Coupon.findValidCoupon(couponCode, userId, bagItems, bagTotal);
-
-    if (!valid) {
-      return res.status(400).json({ success: false, message: errors[0], errors: errors });
-    }
-
-    // Calculate the discount
-    const discountAmount = coupon.calculateDiscount(bagTotal, bagItems);
-
-    // Apply coupon to all non-saved bag items
-    await Bag.updateMany(
-      { userId: userId, savedForLater: false },
-      { $set: { appliedCoupon: coupon._id, discountAmount: discountAmount } }
-    );
+    // Same store and rules as /api/coupons/apply
+    const { coupon, cartTotal, discountAmount } = await couponService.applyToBag(userId, couponCode);
 
     res.status(200).json({
       success: true,
       message: 'Coupon applied successfully!',
       couponCode: coupon.code,
       discountAmount: discountAmount,
-      cartTotal: bagTotal,
-      newTotal: bagTotal - discountAmount,
-      couponId: coupon._id
+      cartTotal: cartTotal,
+      newTotal: cartTotal - discountAmount,
+      couponId: coupon.code
     });
 
   } catch (error) {
+    if (error.code === 'BAG_EMPTY') {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    if (error.code === 'COUPON_NOT_APPLICABLE') {
+      return res.status(400).json({ success: false, message: error.message, errors: error.reasons || [error.message] });
+    }
     console.error("Error applying coupon:", error);
     res.status(500).json({ success: false, message: 'Server error occurred.' });
   }
@@ -871,10 +890,7 @@ router.post('/remove-coupon', async (req, res) => {
     }
     
     // Remove coupon from all non-saved bag items
-    await Bag.updateMany(
-      { userId: userId, savedForLater: false },
-      { $unset: { appliedCoupon: "", discountAmount: "" } }
-    );
+    await couponService.clearFromBag(userId);
 
     res.status(200).json({
       success: true,
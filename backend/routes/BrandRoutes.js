@@ -0,0 +1,260 @@
+const express = require("express");
+const brandService = require("../services/brandService");
+const { authenticate, optionalAuthenticate } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// BRAND ROUTES - DIRECTORY, BRAND PAGES, FACETED BRAND CATALOG AND FOLLOWS
+// ============================================================================
+
+const findBrand = async (req, res) => {
+  const brand = await brandService.resolve(req.params.brandId);
+  if (!brand) {
+    res.status(404).json({ success: false, message: "Brand not found" });
+    return null;
+  }
+  return brand;
+};
+
+// ✅ Brand directory - ?search, ?country, ?sortBy=name|followers|products
+router.get("/", async (req, res) => {
+  try {
+    const { search, country, sortBy = 'name', page = 1, limit = 20 } = req.query;
+
+    if (!brandService.listSorts.includes(sortBy)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid sort option",
+        validSorts: brandService.listSorts
+      });
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const { brands, total } = await brandService.list({ search, country, sortBy, page: pageNum, limit: limitNum });
+
+    res.status(200).json({
+      success: true,
+      data: brands,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching brands:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch brands",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Brands the signed-in user follows, most recent first
+router.get("/following", authenticate, async (req, res) => {
+  try {
+    const brands = await brandService.listFollowed(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: brands,
+      meta: { total: brands.length }
+    });
+
+  } catch (error) {
+    console.error("Error fetching followed brands:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch followed brands",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Newest products from followed brands (home tab)
+router.get("/following/products", authenticate, async (req, res) => {
+  try {
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit) || 20));
+    const { brands, products } = await brandService.getFollowedProducts(req.user.id, { limit });
+
+    res.status(200).json({
+      success: true,
+      data: products,
+      brands: brands.map(({ _id, name, slug, logo }) => ({ _id, name, slug, logo })),
+      meta: { total: products.length }
+    });
+
+  } catch (error) {
+    console.error("Error fetching followed brand products:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch products from followed brands",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Brand page by id, slug or name; isFollowing is set for signed-in users
+router.get("/:brandId", optionalAuthenticate, async (req, res) => {
+  try {
+    const brand = await findBrand(req, res);
+    if (!brand) return;
+
+    const [detail, isFollowing] = await Promise.all([
+      brandService.getDetail(brand),
+      req.user ? brandService.isFollowing(req.user.id, brand._id) : false
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { ...detail, isFollowing }
+    });
+
+  } catch (error) {
+    console.error("Error fetching brand:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch brand",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Paginated brand products with facets - same filters as search, plus categoryId
+router.get("/:brandId/products", async (req, res) => {
+  try {
+    const brand = await findBrand(req, res);
+    if (!brand) return;
+
+    const {
+      page = 1,
+      limit = 20,
+      sortBy = 'popularity',
+      categoryId,
+      minPrice,
+      maxPrice,
+      sizes,
+      colors,
+      rating,
+      discount,
+      inStock,
+      isNew,
+      isBestseller,
+      cursor
+    } = req.query;
+
+    if (!brandService.productSorts.includes(sortBy)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid sort option",
+        validSorts: brandService.productSorts
+      });
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
+
+    const { products, total, facets, hasNextPage, nextCursor } = await brandService.getProducts(brand, {
+      cursor,
+      page: pageNum,
+      limit: limitNum,
+      sortBy,
+      categoryId,
+      minPrice,
+      maxPrice,
+      sizes,
+      colors,
+      rating,
+      discount,
+      inStock,
+      isNew,
+      isBestseller
+    });
+
+    res.status(200).json({
+      success: true,
+      data: products,
+      facets,
+      meta: {
+        total,
+        page: cursor ? null : pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage,
+        hasPrevPage: !!cursor || pageNum > 1,
+        nextCursor,
+        applied: { sortBy, categoryId, minPrice, maxPrice, sizes, colors, rating, discount, inStock, isNew, isBestseller }
+      }
+    });
+
+  } catch (error) {
+    if (error.code === 'INVALID_CURSOR') {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error("Error fetching brand products:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch brand products",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.post("/:brandId/follow", authenticate, async (req, res) => {
+  try {
+    const brand = await findBrand(req, res);
+    if (!brand) return;
+
+    const { created } = await brandService.follow(req.user.id, brand);
+    if (created) console.log(`⭐ User ${req.user.id} followed brand ${brand.name}`);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? `You're now following ${brand.name}` : `You already follow ${brand.name}`,
+      data: { brandId: brand._id, isFollowing: true, followerCount: brand.followerCount + (created ? 1 : 0) }
+    });
+
+  } catch (error) {
+    console.error("Error following brand:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to follow brand",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.delete("/:brandId/follow", authenticate, async (req, res) => {
+  try {
+    const brand = await findBrand(req, res);
+    if (!brand) return;
+
+    const follow = await brandService.unfollow(req.user.id, brand);
+
+    res.status(200).json({
+      success: true,
+      message: follow ? `You unfollowed ${brand.name}` : `You weren't following ${brand.name}`,
+      data: {
+        brandId: brand._id,
+        isFollowing: false,
+        followerCount: Math.max(0, brand.followerCount - (follow ? 1 : 0))
+      }
+    });
+
+  } catch (error) {
+    console.error("Error unfollowing brand:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to unfollow brand",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
@@ -1,6 +1,9 @@
 const express = require("express");
 const Category = require("../models/Category");
 const Product = require("../models/Product");
+const categoryService = require("../services/categoryService");
+const productQueryService = require("../services/productQueryService");
+const { authenticate, requireAdmin } = require("../middleware/auth");
 const router = express.Router();
 const mongoose = require("mongoose");
 
@@ -8,17 +11,47 @@ const mongoose = require("mongoose");
 // FIXED VERSION - CATEGORY ROUTES WITH PROPER ObjectId USAGE
 // ============================================================================
 
+// ✅ NEW: Taxonomy errors from categoryService → status codes
+const CATEGORY_ERROR_STATUS = {
+  PARENT_NOT_FOUND: 400,
+  INVALID_PARENT: 400,
+  INVALID_SLUG: 400,
+  HAS_CHILDREN: 400,
+  HAS_PRODUCTS: 400,
+  DUPLICATE_NAME: 409,
+  DUPLICATE_SLUG: 409
+};
+
+const sendCategoryError = (res, error) => res.status(CATEGORY_ERROR_STATUS[error.code]).json({
+  success: false,
+  message: error.message,
+  code: error.code,
+  ...(error.childCount !== undefined ? { childCount: error.childCount } : {}),
+  ...(error.productCount !== undefined ? { productCount: error.productCount } : {})
+});
+
+// ✅ NEW: Accepts an id or a slug; sends 404 and returns null when there is no such category
+const findCategory = async (req, res) => {
+  const category = await categoryService.resolve(req.params.categoryId);
+  if (!category) {
+    res.status(404).json({ success: false, message: "Category not found" });
+    return null;
+  }
+  return category;
+};
+
 // ✅ FIXED: Get all categories with enhanced aggregation and proper error handling
 router.get("/", async (req, res) => {
   try {
     const {
       page = 1,
       limit = 20,
-      sortBy = 'name',
+      sortBy = 'order', // ✅ UPDATED: sibling order, then name
       sortOrder = 'asc',
       search,
       includeStats = 'false',
-      minProducts = 0
+      minProducts = 0,
+      parent
     } = req.query;
 
     // Build base query
@@ -27,6 +60,19 @@ router.get("/", async (req, res) => {
       matchQuery.name = { $regex: search.trim(), $options: 'i' };
     }
 
+    // ✅ NEW: Top-level categories by default (any level when searching); ?parent=<id>|all
+    if (parent && parent !== 'all') {
+      if (parent !== 'root' && !mongoose.Types.ObjectId.isValid(parent)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid parent category ID format"
+        });
+      }
+      matchQuery.parent = parent === 'root' ? null : new mongoose.Types.ObjectId(parent);
+    } else if (!parent && !matchQuery.name) {
+      matchQuery.parent = null;
+    }
+
     // ✅ FIXED: Enhanced aggregation with proper error handling
     const pipeline = [
       { $match: matchQuery },
@@ -34,7 +80,7 @@ router.get("/", async (req, res) => {
         $lookup: {
           from: 'products',
           localField: '_id',
-          foreignField: 'category', // ✅ Changed from 'categoryId' to 'category'
+          foreignField: 'categoryPath', // ✅ Every product in the subtree
           as: 'products'
         }
       },
@@ -172,12 +218,7 @@ router.get("/", async (req, res) => {
                 $size: {
                   $filter: {
                     input: '$products',
-                    cond: { 
-                      $and: [
-                        { $ne: ['$$this.discount', null] },
-                        { $ne: ['$$this.discount', ''] }
-                      ]
-                    }
+                    cond: { $gt: [{ $ifNull: ['$$this.pricing.discountPercent', 0] }, 0] }
                   }
                 }
               },
@@ -195,7 +236,7 @@ router.get("/", async (req, res) => {
         }
       },
       // Sort
-      { $sort: { [sortBy]: sortOrder === 'desc' ? -1 : 1 } },
+      { $sort: { [sortBy]: sortOrder === 'desc' ? -1 : 1, ...(sortBy !== 'name' ? { name: 1 } : {}) } },
       // Pagination
       { $skip: (parseInt(page) - 1) * parseInt(limit) },
       { $limit: parseInt(limit) }
@@ -228,7 +269,7 @@ router.get("/", async (req, res) => {
           $lookup: {
             from: 'products',
             localField: '_id',
-            foreignField: 'category', // ✅ Fixed field name
+            foreignField: 'categoryPath', // ✅ Every product in the subtree
             as: 'products'
           }
         },
@@ -270,31 +311,84 @@ router.get("/", async (req, res) => {
   }
 });
 
-// ✅ FIXED: Get single category with safe aggregation and proper ObjectId
-router.get("/:categoryId", async (req, res) => {
+// ✅ NEW: Full category tree with subtree product counts; ?root=<id|slug> for one branch
+router.get("/tree", async (req, res) => {
   try {
-    const { categoryId } = req.params;
+    const { root } = req.query;
 
-    // Validate ObjectId
-    if (!mongoose.Types.ObjectId.isValid(categoryId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid category ID format"
-      });
+    let rootId = null;
+    if (root) {
+      const rootCategory = await categoryService.resolve(root, '_id');
+      if (!rootCategory) {
+        return res.status(404).json({
+          success: false,
+          message: "Category not found"
+        });
+      }
+      rootId = rootCategory._id;
     }
 
+    const tree = await categoryService.getTree({ rootId });
+
+    res.status(200).json({
+      success: true,
+      data: tree
+    });
+
+  } catch (error) {
+    console.error("Error fetching category tree:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch category tree",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ NEW: Breadcrumb trail (root first) and direct children for drill-down
+router.get("/:categoryId/path", async (req, res) => {
+  try {
+    const category = await findCategory(req, res);
+    if (!category) return;
+
+    const [path, children] = await Promise.all([
+      categoryService.getPath(category),
+      categoryService.getChildren(category._id)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { path, children }
+    });
+
+  } catch (error) {
+    console.error("Error fetching category path:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch category path",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ UPDATED: Get single category by id or slug - counts cover the whole subtree, with breadcrumbs and children
+router.get("/:categoryId", async (req, res) => {
+  try {
+    const category = await findCategory(req, res);
+    if (!category) return;
+
     // ✅ FIXED: Safe aggregation for single category with proper ObjectId
     const pipeline = [
       { 
         $match: { 
-          _id: new mongoose.Types.ObjectId(categoryId) // ✅ FIXED: Added 'new'
+          _id: category._id
         } 
       },
       {
         $lookup: {
           from: 'products',
           localField: '_id',
-          foreignField: 'category', // ✅ Fixed field name
+          foreignField: 'categoryPath', // ✅ Every product in the subtree
           as: 'products'
         }
       },
@@ -382,7 +476,11 @@ router.get("/:categoryId", async (req, res) => {
       }
     ];
 
-    const result = await Category.aggregate(pipeline);
+    const [result, path, children] = await Promise.all([
+      Category.aggregate(pipeline),
+      categoryService.getPath(category),
+      categoryService.getChildren(category._id)
+    ]);
 
     if (result.length === 0) {
       return res.status(404).json({
@@ -393,7 +491,7 @@ router.get("/:categoryId", async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: result[0]
+      data: { ...result[0], path, children }
     });
 
   } catch (error) {
@@ -407,54 +505,36 @@ router.get("/:categoryId", async (req, res) => {
 });
 
 // ✅ FIXED: Get products by category with proper ObjectId
+// ✅ UPDATED: Filters, sorts and cursor pagination shared with /api/product (productQueryService)
 router.get("/:categoryId/products", async (req, res) => {
   try {
-    const { categoryId } = req.params;
     const {
       page = 1,
       limit = 20,
       sortBy = 'createdAt',
       sortOrder = 'desc',
-      minPrice,
-      maxPrice,
-      brand,
-      inStock = 'all'
+      cursor
     } = req.query;
 
-    // Validate ObjectId
-    if (!mongoose.Types.ObjectId.isValid(categoryId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid category ID format"
-      });
-    }
-
-    // Build match query
-    let matchQuery = { 
-      category: new mongoose.Types.ObjectId(categoryId) // ✅ FIXED: Added 'new'
-    };
-
-    // Add filters
-    if (minPrice || maxPrice) {
-      matchQuery.price = {};
-      if (minPrice) matchQuery.price.$gte = parseFloat(minPrice);
-      if (maxPrice) matchQuery.price.$lte = parseFloat(maxPrice);
-    }
+    const category = await findCategory(req, res);
+    if (!category) return;
 
-    if (brand) {
-      const brandArray = Array.isArray(brand) ? brand : brand.split(',');
-      matchQuery.brand = { $in: brandArray };
-    }
-
-    if (inStock === 'true') {
-      matchQuery.stock = { $gt: 0 };
-    } else if (inStock === 'false') {
-      matchQuery.stock = { $lte: 0 };
-    }
+    // ✅ UPDATED: products anywhere in the category's subtree
+    const filters = productQueryService.parseFilters({ ...req.query, categoryId: category._id.toString() });
+    const matchQuery = productQueryService.buildMatch(filters);
+    const sort = productQueryService.buildSort(sortBy, sortOrder);
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const pageMatch = cursor
+      ? { $and: [matchQuery, productQueryService.buildCursorMatch(sort, productQueryService.decodeCursor(cursor, sort))] }
+      : matchQuery;
 
     // ✅ FIXED: Aggregation pipeline with proper ObjectId usage
     const pipeline = [
-      { $match: matchQuery },
+      { $match: pageMatch },
+      { $sort: sort },
+      { $skip: cursor ? 0 : (pageNum - 1) * limitNum },
+      { $limit: limitNum + 1 },
       {
         $lookup: {
           from: 'categories',
@@ -473,47 +553,47 @@ router.get("/:categoryId/products", async (req, res) => {
             }
           },
           isInStock: { $gt: ['$stock', 0] },
-          hasDiscount: { 
-            $and: [
-              { $ne: ['$discount', null] },
-              { $ne: ['$discount', ''] }
-            ]
-          }
+          discountPercentage: { $ifNull: ['$pricing.discountPercent', 0] },
+          hasDiscount: { $gt: [{ $ifNull: ['$pricing.discountPercent', 0] }, 0] },
+          mrp: { $ifNull: ['$pricing.mrp', '$price'] }
         }
       },
       {
         $project: {
           categoryInfo: 0
         }
-      },
-      { $sort: { [sortBy]: sortOrder === 'desc' ? -1 : 1 } },
-      { $skip: (parseInt(page) - 1) * parseInt(limit) },
-      { $limit: parseInt(limit) }
+      }
     ];
 
-    const products = await Product.aggregate(pipeline);
-
-    // Get total count
-    const totalCount = await Product.countDocuments(matchQuery);
-
-    // Get category info
-    const category = await Category.findById(categoryId);
+    const [docs, totalCount] = await Promise.all([
+      Product.aggregate(pipeline),
+      Product.countDocuments(matchQuery)
+    ]);
+    const { items: products, hasNextPage, nextCursor } = productQueryService.toCursorPage(docs, sort, limitNum);
 
     res.status(200).json({
       success: true,
       data: products,
-      category: category || null,
+      category,
       meta: {
         total: totalCount,
-        page: parseInt(page),
-        limit: parseInt(limit),
-        totalPages: Math.ceil(totalCount / parseInt(limit)),
-        hasNextPage: parseInt(page) * parseInt(limit) < totalCount,
-        hasPrevPage: parseInt(page) > 1
+        page: cursor ? null : pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage,
+        hasPrevPage: !!cursor || pageNum > 1,
+        nextCursor
       }
     });
 
   } catch (error) {
+    if (['INVALID_FILTER', 'INVALID_SORT', 'INVALID_CURSOR'].includes(error.code)) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        ...(error.validSorts ? { validSorts: error.validSorts } : {})
+      });
+    }
     console.error("Error fetching products by category:", error);
     res.status(500).json({
       success: false,
@@ -523,10 +603,10 @@ router.get("/:categoryId/products", async (req, res) => {
   }
 });
 
-// ✅ ENHANCED: Create new category
-router.post("/", async (req, res) => {
+// ✅ UPDATED: Create new category - optionally under a parent, with slug and sibling order (admin only)
+router.post("/", authenticate, requireAdmin, async (req, res) => {
   try {
-    const { name, description, image, isActive = true } = req.body;
+    const { name, description, image, parent = null, slug, order = 0 } = req.body;
 
     // Validate required fields
     if (!name || !description) {
@@ -536,27 +616,14 @@ router.post("/", async (req, res) => {
       });
     }
 
-    // Check if category already exists
-    const existingCategory = await Category.findOne({ 
-      name: { $regex: new RegExp(`^${name}$`, 'i') } 
-    });
-
-    if (existingCategory) {
-      return res.status(409).json({
-        success: false,
-        message: "Category with this name already exists"
-      });
-    }
-
-    const newCategory = new Category({
+    const savedCategory = await categoryService.createCategory({
       name: name.trim(),
-      description: description.trim(),
+      parent,
+      slug,
       image: image?.trim() || '',
-      isActive
+      order: parseInt(order) || 0
     });
 
-    const savedCategory = await newCategory.save();
-
     res.status(201).json({
       success: true,
       message: "Category created successfully",
@@ -565,6 +632,10 @@ router.post("/", async (req, res) => {
 
   } catch (error) {
     console.error("Error creating category:", error);
+
+    if (CATEGORY_ERROR_STATUS[error.code]) {
+      return sendCategoryError(res, error);
+    }
     
     if (error.name === 'ValidationError') {
       return res.status(400).json({
@@ -582,11 +653,11 @@ router.post("/", async (req, res) => {
   }
 });
 
-// ✅ FIXED: Update category with proper ObjectId validation
-router.put("/:categoryId", async (req, res) => {
+// ✅ UPDATED: Update category - `parent` moves it (and its subtree); null makes it top-level (admin only)
+router.put("/:categoryId", authenticate, requireAdmin, async (req, res) => {
   try {
     const { categoryId } = req.params;
-    const { name, description, image, isActive } = req.body;
+    const { name, image, parent, slug, order } = req.body;
 
     // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(categoryId)) {
@@ -596,41 +667,24 @@ router.put("/:categoryId", async (req, res) => {
       });
     }
 
-    // Build update object
-    const updateData = {};
-    if (name !== undefined) updateData.name = name.trim();
-    if (description !== undefined) updateData.description = description.trim();
-    if (image !== undefined) updateData.image = image.trim();
-    if (isActive !== undefined) updateData.isActive = isActive;
-
-    // Check if name already exists (if name is being updated)
-    if (name) {
-      const existingCategory = await Category.findOne({ 
-        name: { $regex: new RegExp(`^${name}$`, 'i') },
-        _id: { $ne: categoryId }
-      });
-
-      if (existingCategory) {
-        return res.status(409).json({
-          success: false,
-          message: "Category with this name already exists"
-        });
-      }
-    }
-
-    const updatedCategory = await Category.findByIdAndUpdate(
-      categoryId,
-      updateData,
-      { new: true, runValidators: true }
-    );
-
-    if (!updatedCategory) {
+    const category = await Category.findById(categoryId);
+    if (!category) {
       return res.status(404).json({
         success: false,
         message: "Category not found"
       });
     }
 
+    // Build update object
+    const updateData = {};
+    if (name !== undefined) updateData.name = name.trim();
+    if (image !== undefined) updateData.image = image.trim();
+    if (slug !== undefined) updateData.slug = slug;
+    if (order !== undefined) updateData.order = parseInt(order) || 0;
+    if (parent !== undefined) updateData.parent = parent || null;
+
+    const updatedCategory = await categoryService.updateCategory(category, updateData);
+
     res.status(200).json({
       success: true,
       message: "Category updated successfully",
@@ -639,6 +693,10 @@ router.put("/:categoryId", async (req, res) => {
 
   } catch (error) {
     console.error("Error updating category:", error);
+
+    if (CATEGORY_ERROR_STATUS[error.code]) {
+      return sendCategoryError(res, error);
+    }
     
     if (error.name === 'ValidationError') {
       return res.status(400).json({
@@ -656,8 +714,8 @@ router.put("/:categoryId", async (req, res) => {
   }
 });
 
-// ✅ FIXED: Delete category with proper ObjectId validation
-router.delete("/:categoryId", async (req, res) => {
+// ✅ UPDATED: Delete category - only when it has no subcategories and no products (admin only)
+router.delete("/:categoryId", authenticate, requireAdmin, async (req, res) => {
   try {
     const { categoryId } = req.params;
 
@@ -669,26 +727,16 @@ router.delete("/:categoryId", async (req, res) => {
       });
     }
 
-    // Check if category has products
-    const productCount = await Product.countDocuments({ category: categoryId });
-    
-    if (productCount > 0) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot delete category. It has ${productCount} products. Please move or delete products first.`,
-        productCount
-      });
-    }
-
-    const deletedCategory = await Category.findByIdAndDelete(categoryId);
-
-    if (!deletedCategory) {
+    const category = await Category.findById(categoryId);
+    if (!category) {
       return res.status(404).json({
         success: false,
         message: "Category not found"
       });
     }
 
+    const deletedCategory = await categoryService.deleteCategory(category);
+
     res.status(200).json({
       success: true,
       message: "Category deleted successfully",
@@ -703,6 +751,11 @@ router.delete("/:categoryId", async (req, res) => {
 
   } catch (error) {
     console.error("Error deleting category:", error);
+
+    if (CATEGORY_ERROR_STATUS[error.code]) {
+      return sendCategoryError(res, error);
+    }
+
     res.status(500).json({
       success: false,
       message: "Failed to delete category",
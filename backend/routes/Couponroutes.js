@@ -1,31 +1,26 @@
 const express = require('express');
 const router = express.Router();
 const mongoose = require('mongoose');
-const Coupon = require('../models/Coupon');
 const Bag = require('../models/Bag');
 const CouponRuleEngine = require('../couponRules');
+const couponService = require('../services/couponService');
+const { authenticate, requireSameUser, matchUserParam } = require('../middleware/auth');
 
-// ✅ HELPER FUNCTION: Safe cart total calculation
-const calculateSafeCartTotal = (userBagItems) => {
-  return userBagItems
-    .filter(item => item.productId && item.productId.price != null) // Filter out null productId
-    .reduce((sum, item) => sum + (item.productId.price * item.quantity), 0);
-};
+// ✅ NEW: JWT auth - every coupon route acts on the signed-in user's own data
+router.use(authenticate, requireSameUser);
+router.param('userId', matchUserParam);
+
+// ✅ Coupon errors from couponService → status codes
+const sendCouponError = (res, error, logMessage) => {
+    if (error.code === 'BAG_EMPTY') {
+        return res.status(404).json({ success: false, message: error.message });
+    }
+    if (error.code === 'COUPON_NOT_APPLICABLE') {
+        return res.status(400).json({ success: false, message: error.message, errors: error.reasons || [error.message] });
+    }
 
-// ✅ HELPER FUNCTION: Safe cart state preparation
-const prepareSafeCartState = (userBagItems) => {
-  const validItems = userBagItems.filter(item => item.productId && item.productId.price != null);
-  const cartTotal = calculateSafeCartTotal(userBagItems);
-  
-  return {
-    total: cartTotal,
-    items: validItems.map(item => ({
-      id: item.productId._id,
-      price: item.productId.price,
-      quantity: item.quantity,
-      category: item.productId.category ? item.productId.category.toString() : null
-    }))
-  };
+    console.error(logMessage, error);
+    res.status(500).json({ success: false, message: 'Server error occurred.' });
 };
 
 // ✅ FIXED: Route to apply a coupon code
@@ -42,75 +37,7 @@ router.post('/apply', async (req, res) => {
     }
 
     try {
-        const userBagItems = await Bag.find({ userId: userId, savedForLater: false }).populate({
-            path: 'productId',
-            select: 'price category',
-            populate: {
-                path: 'category',
-                select: '_id'
-            }
-        });
-
-        if (userBagItems.length === 0) {
-            return res.status(404).json({ success: false, message: 'Your bag is empty.' });
-        }
-
-        // ✅ FIXED: Use safe calculation
-        const cartTotal = calculateSafeCartTotal(userBagItems);
-
-        if (cartTotal === 0) {
-            return res.status(400).json({ success: false, message: 'Cart has no valid items with prices.' });
-        }
-
-        const jsonCoupon = CouponRuleEngine.getAllCoupons().find(c => c.name === couponCode.toUpperCase());
-        
-        if (jsonCoupon) {
-            const cartState = prepareSafeCartState(userBagItems);
-            const validation = CouponRuleEngine.validateCoupon(jsonCoupon, cartState);
-            
-            if (!validation.isValid) {
-                return res.status(400).json({ 
-                    success: false, 
-                    message: validation.reasons[0], 
-                    errors: validation.reasons 
-                });
-            }
-
-            const discountAmount = validation.discountAmount;
-
-            await Bag.updateMany(
-                { userId: userId, savedForLater: false },
-                { $set: { appliedCoupon: jsonCoupon.id, discountAmount: discountAmount } }
-            );
-
-            CouponRuleEngine.incrementUsageCount(jsonCoupon.id);
-
-            return res.status(200).json({
-                success: true,
-                message: 'Coupon applied successfully!',
-                couponCode: jsonCoupon.name,
-                discountAmount: discountAmount,
-                cartTotal: cartTotal,
-                newTotal: cartTotal - discountAmount,
-                couponId: jsonCoupon.id
-            });
-        }
-
-        // Fallback to MongoDB coupon system...
-        const { valid, errors, coupon } = await Coupon.findValidCoupon(couponCode, userId, userBagItems, cartTotal);
-
-        if (!valid) {
-            return res.status(400).json({ success: false, message: errors[0], errors: errors });
-        }
-
-        const discountAmount = coupon.calculateDiscount(cartTotal, userBagItems);
-
-        await Bag.updateMany(
-            { userId: userId, savedForLater: false },
-            { $set: { appliedCoupon: coupon._id, discountAmount: discountAmount } }
-        );
-
-        await Coupon.updateOne({ _id: coupon._id }, { $inc: { used: 1 } });
+        const { coupon, cartTotal, discountAmount } = await couponService.applyToBag(userId, couponCode);
 
         res.status(200).json({
             success: true,
@@ -119,12 +46,11 @@ router.post('/apply', async (req, res) => {
             discountAmount: discountAmount,
             cartTotal: cartTotal,
             newTotal: cartTotal - discountAmount,
-            couponId: coupon._id
+            couponId: coupon.code
         });
 
     } catch (error) {
-        console.error('❌ Error applying coupon:', error);
-        res.status(500).json({ success: false, message: 'Server error occurred.' });
+        sendCouponError(res, error, '❌ Error applying coupon:');
     }
 });
 
@@ -142,29 +68,9 @@ router.post('/remove', async (req, res) => {
     }
 
     try {
-        const bagWithCoupon = await Bag.findOne({ 
-            userId: userId, 
-            savedForLater: false, 
-            appliedCoupon: { $exists: true, $ne: null } 
-        });
-
-        await Bag.updateMany(
-            { userId: userId, savedForLater: false },
-            { $unset: { appliedCoupon: "", discountAmount: "" } }
-        );
+        // Nothing to give back - usage is only counted when an order is placed
+        await couponService.clearFromBag(userId);
 
-        if (bagWithCoupon && bagWithCoupon.appliedCoupon) {
-            const jsonCoupon = CouponRuleEngine.getCouponById(bagWithCoupon.appliedCoupon.toString());
-            if (jsonCoupon) {
-                CouponRuleEngine.decrementUsageCount(bagWithCoupon.appliedCoupon.toString());
-            } else {
-                await Coupon.updateOne(
-                    { _id: bagWithCoupon.appliedCoupon },
-                    { $inc: { used: -1 } }
-                );
-            }
-        }
-        
         res.status(200).json({
             success: true,
             message: 'Coupon removed successfully!',
@@ -187,26 +93,27 @@ router.get('/available/:userId', async (req, res) => {
     }
 
     try {
-        const userBagItems = await Bag.find({ userId, savedForLater: false }).populate('productId');
-        
+        const userBagItems = await couponService.findCartItems(userId);
+
         // ✅ FIXED: Use safe calculation
-        const cartTotal = calculateSafeCartTotal(userBagItems);
+        const cartState = couponService.buildCartState(userBagItems);
+        const cartTotal = cartState.total;
         console.log('🛒 Safe cart total:', cartTotal, 'Items:', userBagItems.length);
 
-        const cartState = prepareSafeCartState(userBagItems);
-        console.log('🎯 Safe cart state prepared:', cartState);
-
         try {
-            const availableCoupons = CouponRuleEngine.getActiveCoupons();
-            const expiredCoupons = CouponRuleEngine.getExpiredCoupons();
+            const [availableCoupons, expiredCoupons, userState] = await Promise.all([
+                couponService.getActiveCoupons(),
+                couponService.getExpiredCoupons(),
+                couponService.getUserState(userId)
+            ]);
 
             console.log('✅ Found coupons - Available:', availableCoupons.length, 'Expired:', expiredCoupons.length);
 
             const formattedAvailable = availableCoupons.map(coupon => {
                 try {
-                    return CouponRuleEngine.formatCouponForDisplay(coupon, cartState);
+                    return CouponRuleEngine.formatCouponForDisplay(coupon, cartState, userState);
                 } catch (formatError) {
-                    console.error('❌ Error formatting coupon:', coupon.id, formatError);
+                    console.error('❌ Error formatting coupon:', coupon.code, formatError);
                     return {
                         ...coupon,
                         isApplicable: false,
@@ -219,7 +126,7 @@ router.get('/available/:userId', async (req, res) => {
                 try {
                     return CouponRuleEngine.formatCouponForDisplay(coupon);
                 } catch (formatError) {
-                    console.error('❌ Error formatting expired coupon:', coupon.id, formatError);
+                    console.error('❌ Error formatting expired coupon:', coupon.code, formatError);
                     return coupon;
                 }
             });
@@ -261,17 +168,20 @@ router.post('/threshold-check', async (req, res) => {
     }
 
     try {
-        const userBagItems = await Bag.find({ userId, savedForLater: false }).populate('productId');
-        
+        const userBagItems = await couponService.findCartItems(userId);
+
         // ✅ FIXED: Use safe calculation
-        const cartTotal = calculateSafeCartTotal(userBagItems);
+        const cartState = couponService.buildCartState(userBagItems);
+        const cartTotal = cartState.total;
         console.log('🛒 Threshold check - Safe cart total:', cartTotal);
 
-        const cartState = prepareSafeCartState(userBagItems);
-
         let suggestion = null;
         try {
-            suggestion = CouponRuleEngine.getBestThresholdSuggestion(cartState);
+            const [activeCoupons, userState] = await Promise.all([
+                couponService.getActiveCoupons(),
+                couponService.getUserState(userId)
+            ]);
+            suggestion = CouponRuleEngine.getBestThresholdSuggestion(activeCoupons, cartState, userState);
             console.log('💡 Threshold suggestion:', suggestion ? 'Found' : 'None');
         } catch (thresholdError) {
             console.error('❌ Error getting threshold suggestion:', thresholdError);
@@ -282,7 +192,7 @@ router.post('/threshold-check', async (req, res) => {
             data: {
                 cartTotal,
                 suggestion: suggestion ? {
-                    coupon: suggestion.coupon,
+                    coupon: CouponRuleEngine.formatCouponForDisplay(suggestion.coupon),
                     amountNeeded: suggestion.amountNeeded,
                     potentialSavings: suggestion.potentialSavings
                 } : null
@@ -321,19 +231,17 @@ router.post('/validate-applied', async (req, res) => {
             });
         }
 
-        const userBagItems = await Bag.find({ userId, savedForLater: false }).populate('productId');
-        
+        const userBagItems = await couponService.findCartItems(userId);
+
         // ✅ FIXED: Use safe calculation
-        const cartTotal = calculateSafeCartTotal(userBagItems);
-        const cartState = prepareSafeCartState(userBagItems);
+        const cartState = couponService.buildCartState(userBagItems);
 
-        const appliedCoupon = CouponRuleEngine.getCouponById(bagWithCoupon.appliedCoupon.toString());
+        const { coupon: appliedCoupon, validation } = await couponService.evaluate(
+            bagWithCoupon.appliedCoupon, userId, cartState
+        );
         
         if (!appliedCoupon) {
-            await Bag.updateMany(
-                { userId, savedForLater: false },
-                { $unset: { appliedCoupon: "", discountAmount: "" } }
-            );
+            await couponService.clearFromBag(userId);
 
             return res.status(200).json({
                 success: true,
@@ -345,15 +253,8 @@ router.post('/validate-applied', async (req, res) => {
             });
         }
 
-        const validation = CouponRuleEngine.validateCoupon(appliedCoupon, cartState);
-
         if (!validation.isValid) {
-            await Bag.updateMany(
-                { userId, savedForLater: false },
-                { $unset: { appliedCoupon: "", discountAmount: "" } }
-            );
-
-            CouponRuleEngine.decrementUsageCount(appliedCoupon.id);
+            await couponService.clearFromBag(userId);
         }
 
         res.status(200).json({
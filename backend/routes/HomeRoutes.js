@@ -0,0 +1,35 @@
+const express = require("express");
+const homeService = require("../services/homeService");
+const { optionalAuthenticate } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// HOME SCREEN - ORDERED, TYPED SECTIONS FROM THE CMS
+// ============================================================================
+
+// ✅ Live sections for the viewer (signed-in users are targeted as new/returning; guests as new)
+router.get("/", optionalAuthenticate, async (req, res) => {
+  try {
+    const { sections, audience } = await homeService.getSections({ userId: req.user?.id });
+
+    res.status(200).json({
+      success: true,
+      data: sections,
+      meta: {
+        total: sections.length,
+        audience,
+        generatedAt: new Date()
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching home sections:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load home screen",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,116 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Notification = require("../models/Notification");
+const notificationService = require("../services/notificationService");
+const { authenticate } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// IN-APP NOTIFICATIONS - THE SIGNED-IN USER'S OWN NOTIFICATIONS
+// ============================================================================
+
+router.use(authenticate);
+
+// ✅ Newest first; meta.unreadCount is across all types
+router.get("/", async (req, res) => {
+  try {
+    const { unreadOnly = 'false', type, page = 1, limit = 20 } = req.query;
+
+    if (type && !Notification.NOTIFICATION_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid notification type",
+        validTypes: Notification.NOTIFICATION_TYPES
+      });
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
+
+    const { notifications, total, unreadCount } = await notificationService.list(req.user.id, {
+      unreadOnly: unreadOnly === 'true',
+      type,
+      page: pageNum,
+      limit: limitNum
+    });
+
+    res.status(200).json({
+      success: true,
+      data: notifications,
+      meta: {
+        total,
+        unreadCount,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch notifications",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.patch("/read-all", async (req, res) => {
+  try {
+    const { type } = req.body;
+    const updated = await notificationService.markAllRead(req.user.id, type);
+
+    res.status(200).json({
+      success: true,
+      message: `${updated} notification${updated === 1 ? '' : 's'} marked as read`,
+      data: { updated }
+    });
+
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update notifications",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.patch("/:notificationId/read", async (req, res) => {
+  try {
+    const { notificationId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid notification ID format"
+      });
+    }
+
+    const notification = await notificationService.markRead(req.user.id, notificationId);
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: "Notification not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: notification
+    });
+
+  } catch (error) {
+    console.error("Error marking notification read:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update notification",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
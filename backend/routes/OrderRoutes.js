@@ -2,77 +2,53 @@ const express = require("express");
 const Bag = require("../models/Bag");
 const Order = require("../models/Order");
 const Product = require("../models/Product");
+const Address = require("../models/Address");
+const inventoryService = require("../services/inventoryService");
+const paymentService = require("../services/paymentService");
+const couponService = require("../services/couponService");
+const saleService = require("../services/saleService");
+const promotionService = require("../services/promotionService");
+const unpaidOrderService = require("../services/unpaidOrderService");
+const emailService = require("../services/emailService");
+const orderEvents = require("../services/orderEvents");
+const { authenticate, requireSameUser, matchUserParam } = require("../middleware/auth");
 const router = express.Router();
 const mongoose = require("mongoose");
 
+// ✅ NEW: JWT auth - every order route acts on the signed-in user's own data
+router.use(authenticate, requireSameUser);
+router.param("userId", matchUserParam);
+router.param("userid", matchUserParam);
+
 // ============================================================================
 // ENHANCED ORDER ROUTES WITH PROFESSIONAL FEATURES & TRACKING
 // ============================================================================
 
-// ✅ Professional tracking number generator with carrier-specific formats
+// ✅ UPDATED: Every order starts at "Label Created" - later tracking statuses only come from
+// real status changes (admin / courier updates), never from random values
 function generateTrackingInfo(carrier = null) {
-  const carriers = [
-    { name: "Delhivery", prefix: "DEL", length: 12 },
-    { name: "Bluedart", prefix: "BD", length: 10 },
-    { name: "Ecom Express", prefix: "ECE", length: 11 },
-    { name: "XpressBees", prefix: "XPB", length: 10 },
-    { name: "India Post", prefix: "IP", length: 13 },
-    { name: "FedEx", prefix: "FDX", length: 12 },
-    { name: "DHL", prefix: "DHL", length: 10 }
-  ];
-
-  const selectedCarrier = carrier ? 
-    carriers.find(c => c.name === carrier) || carriers[0] : 
-    carriers[Math.floor(Math.random() * carriers.length)];
-
-  const statusOptions = ["Label Created", "Picked Up", "In Transit", "Out for Delivery"];
-  const locations = [
-    "Mumbai Distribution Center", "Delhi Hub", "Bangalore Facility", 
-    "Hyderabad Warehouse", "Pune Center", "Chennai Hub", 
-    "Kolkata Facility", "Gurgaon Warehouse"
-  ];
-
-  const randomStatus = statusOptions[Math.floor(Math.random() * statusOptions.length)];
-  const randomLocation = locations[Math.floor(Math.random() * locations.length)];
-
-  // Generate tracking number with carrier-specific format
-  const randomDigits = Math.floor(Math.random() * Math.pow(10, selectedCarrier.length - selectedCarrier.prefix.length))
-    .toString().padStart(selectedCarrier.length - selectedCarrier.prefix.length, '0');
-  
-  const trackingNumber = selectedCarrier.prefix + randomDigits;
+  const selectedCarrier = Order.CARRIERS.includes(carrier) ?
+    carrier :
+    Order.CARRIERS[Math.floor(Math.random() * Order.CARRIERS.length)];
 
   // Generate estimated delivery date (3-7 days from now)
   const deliveryDays = Math.floor(Math.random() * 5) + 3;
   const estimatedDelivery = new Date(Date.now() + deliveryDays * 24 * 60 * 60 * 1000);
 
   return {
-    number: trackingNumber,
-    carrier: selectedCarrier.name,
+    number: Order.generateTrackingNumber(selectedCarrier),
+    carrier: selectedCarrier,
     estimatedDelivery,
     actualDelivery: null,
-    currentLocation: randomLocation,
-    status: randomStatus,
+    currentLocation: "Warehouse",
+    status: "Label Created",
     timeline: [
       {
         status: "Order Placed",
         location: "Online Platform",
-        timestamp: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
+        timestamp: new Date(),
         description: "Order has been placed successfully",
         updatedBy: "system"
-      },
-      {
-        status: "Order Confirmed",
-        location: "Warehouse",
-        timestamp: new Date(Date.now() - 15 * 60 * 1000), // 15 minutes ago
-        description: "Order confirmed and processing initiated",
-        updatedBy: "system"
-      },
-      {
-        status: randomStatus,
-        location: randomLocation,
-        timestamp: new Date(),
-        description: `Package ${randomStatus.toLowerCase()} at ${randomLocation}`,
-        updatedBy: "courier"
       }
     ],
     deliveryAttempts: 0,
@@ -90,10 +66,8 @@ router.post("/create/:userId", async (req, res) => {
       shippingAddress, 
       billingAddress,
       paymentMethod = 'COD',
-      paymentGateway,
       customerNotes = '',
       deliveryPreferences = {},
-      coupons = [],
       analytics = {}
     } = req.body;
 
@@ -144,7 +118,8 @@ router.post("/create/:userId", async (req, res) => {
     const bagItems = await Bag.find({ userId, savedForLater: { $ne: true } })
       .populate({
         path: 'productId',
-        select: 'name brand price discount images description stock'
+        select: 'name brand price pricing flashSale discount images description stock skus category categoryPath subcategory',
+        populate: [{ path: 'category', select: 'name' }, { path: 'categoryPath', select: 'name' }]
       });
 
     if (bagItems.length === 0) {
@@ -154,27 +129,16 @@ router.post("/create/:userId", async (req, res) => {
       });
     }
 
-    // Validate stock availability for all items
-    const stockIssues = [];
-    for (const bagItem of bagItems) {
-      if (!bagItem.productId) {
-        stockIssues.push({
-          itemId: bagItem._id,
-          issue: "Product no longer available"
-        });
-        continue;
-      }
+    // Validate stock availability for all items (per size/color, minus other users' checkout holds)
+    const stockIssues = bagItems
+      .filter(bagItem => !bagItem.productId)
+      .map(bagItem => ({ itemId: bagItem._id, issue: "Product no longer available" }));
 
-      if (bagItem.productId.stock !== undefined && bagItem.productId.stock < bagItem.quantity) {
-        stockIssues.push({
-          itemId: bagItem._id,
-          productName: bagItem.productId.name,
-          availableStock: bagItem.productId.stock,
-          requestedQuantity: bagItem.quantity,
-          issue: "Insufficient stock"
-        });
-      }
-    }
+    // Filter out items with null productId
+    const validBagItems = bagItems.filter(item => item.productId);
+
+    const { issues } = await inventoryService.checkItems(validBagItems, { excludeUserId: userId });
+    stockIssues.push(...issues);
 
     if (stockIssues.length > 0) {
       return res.status(400).json({
@@ -184,57 +148,85 @@ router.post("/create/:userId", async (req, res) => {
       });
     }
 
-    // Filter out items with null productId
-    const validBagItems = bagItems.filter(item => item.productId);
+    // ✅ A flash sale that ended while the items sat in the bag: reprice them and let the user
+    // confirm the new total rather than charging it silently
+    const now = new Date();
+    await saleService.refreshProducts(validBagItems.map(item => item.productId), now);
+    const endedSaleItems = saleService.findEndedSaleItems(validBagItems);
+    if (endedSaleItems.length > 0) {
+      const repricedItems = await saleService.repriceBagItems(endedSaleItems);
+      return res.status(409).json({
+        success: false,
+        message: "A sale on some items in your bag has ended - their prices have been updated",
+        code: 'SALE_ENDED',
+        saleEnded: true,
+        repricedItems
+      });
+    }
+
+    // ✅ Automatic promotions are worked out again here, never taken from the client
+    const promotionResult = await promotionService.evaluateBag(validBagItems, now);
 
     // Transform bag items to order items with product snapshots
-    const orderItems = validBagItems.map(item => ({
-      productId: item.productId._id,
-      productSnapshot: {
-        name: item.productId.name,
-        brand: item.productId.brand,
-        images: item.productId.images || [],
-        description: item.productId.description || ''
-      },
-      size: item.size,
-      color: item.color,
-      price: item.productId.price,
-      quantity: item.quantity,
-      discount: {
-        percentage: 0,
-        amount: 0,
-        code: item.discountWhenAdded || ''
-      },
-      status: 'Processing'
-    }));
+    const orderItems = validBagItems.map(item => {
+      const itemDiscount = promotionResult.items[item._id.toString()]?.discount || 0;
+      const lineTotal = item.productId.price * item.quantity;
+
+      return {
+        productId: item.productId._id,
+        productSnapshot: {
+          name: item.productId.name,
+          brand: item.productId.brand,
+          images: item.productId.images || [],
+          description: item.productId.description || ''
+        },
+        size: item.size,
+        color: item.color,
+        price: item.productId.price,
+        quantity: item.quantity,
+        discount: {
+          percentage: lineTotal > 0 ? Math.round(itemDiscount / lineTotal * 100) : 0,
+          amount: itemDiscount,
+          code: item.discountWhenAdded || ''
+        },
+        sale: saleService.orderItemSale(item.productId, now) || undefined,
+        status: 'Processing'
+      };
+    });
 
     // Calculate pricing breakdown
     const subtotal = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    const promotionDiscount = orderItems.reduce((sum, item) => sum + item.discount.amount, 0);
     
-    // Apply coupons if provided
-    let totalDiscount = 0;
+    // ✅ The bag's applied coupon is re-checked against the store - clients never send discounts
+    let couponDiscount = 0;
     const appliedCoupons = [];
-    
-    for (const coupon of coupons) {
-      if (coupon.type === 'percentage') {
-        const discountAmount = (subtotal * coupon.discount) / 100;
-        totalDiscount += discountAmount;
-        appliedCoupons.push({
-          code: coupon.code,
-          discount: discountAmount,
-          type: 'percentage'
-        });
-      } else if (coupon.type === 'fixed') {
-        totalDiscount += coupon.discount;
-        appliedCoupons.push({
-          code: coupon.code,
-          discount: coupon.discount,
-          type: 'fixed'
+    let couponToRedeem = null;
+
+    const appliedCouponCode = validBagItems.find(item => item.appliedCoupon)?.appliedCoupon;
+    if (appliedCouponCode) {
+      const { coupon, validation } = await couponService.evaluate(
+        appliedCouponCode,
+        userId,
+        couponService.buildCartState(validBagItems),
+        { paymentMethod, platform: analytics.sourceChannel === 'web' ? 'web' : 'mobile_app' }
+      );
+
+      if (!coupon || !validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: `Coupon ${appliedCouponCode} can no longer be applied: ${coupon ? validation.reasons[0] : 'coupon not found'}`,
+          couponInvalid: true
         });
       }
+
+      couponDiscount = validation.discountAmount;
+      appliedCoupons.push({ code: coupon.code, discount: couponDiscount, type: coupon.discountType });
+      couponToRedeem = coupon;
     }
 
     // Calculate shipping and tax
+    const totalDiscount = Math.min(subtotal, promotionDiscount + couponDiscount);
     const discountedSubtotal = Math.max(0, subtotal - totalDiscount);
     const shipping = discountedSubtotal > 499 ? 0 : 99;
     const tax = Math.round(discountedSubtotal * 0.05); // 5% tax
@@ -243,6 +235,9 @@ router.post("/create/:userId", async (req, res) => {
     // Generate tracking information
     const trackingInfo = generateTrackingInfo();
 
+    // ✅ Online payments start Pending - only a confirmed payment intent marks them Completed
+    const isOnlinePayment = paymentMethod !== 'COD';
+
     // Create order data
     const orderData = {
       orderId: Order.generateOrderId(),
@@ -253,11 +248,13 @@ router.post("/create/:userId", async (req, res) => {
       pricing: {
         subtotal,
         discount: totalDiscount,
+        promotionDiscount,
         shipping,
         tax,
         total: finalTotal
       },
       coupons: appliedCoupons,
+      promotions: promotionResult.applied.map(applied => promotionService.toOrderPromotion(applied)),
       shippingAddress: {
         ...shippingAddress,
         country: shippingAddress.country || 'India'
@@ -265,10 +262,10 @@ router.post("/create/:userId", async (req, res) => {
       billingAddress: billingAddress || shippingAddress,
       payment: {
         method: paymentMethod,
-        status: paymentMethod === 'COD' ? 'Pending' : 'Completed',
-        paymentGateway: paymentGateway || null,
-        paidAmount: paymentMethod === 'COD' ? 0 : finalTotal,
-        paymentDate: paymentMethod === 'COD' ? null : new Date()
+        status: 'Pending',
+        paymentGateway: isOnlinePayment ? paymentService.getProvider().gatewayName : undefined,
+        paidAmount: 0,
+        paymentDate: null
       },
       tracking: trackingInfo,
       customerNotes: customerNotes.trim(),
@@ -286,23 +283,37 @@ router.post("/create/:userId", async (req, res) => {
       }
     };
 
-    // Create and save the order
-    const newOrder = new Order(orderData);
-    const savedOrder = await newOrder.save();
-
-    // Update order status to confirmed
-    await savedOrder.updateStatus('Confirmed', 'Warehouse', 'Order confirmed and ready for processing');
-
-    // Clear user's bag after successful order creation
-    await Bag.clearUserBag(userId);
+    // ✅ Decrement SKU stock, save the order, clear the bag and drop the checkout hold atomically
+    const savedOrder = await inventoryService.withTransaction(async (session) => {
+      await inventoryService.decrementStock(orderItems, session);
+      let couponRedeemed = false;
+      let salesClaimed = false;
+      try {
+        // ✅ Sale units are claimed with the stock so a sale's quantity cap can't be oversold
+        await saleService.claimOrderItems(orderItems, session, now);
+        salesClaimed = true;
+        // ✅ Counted here (not when applied) so per-user and global limits track placed orders
+        if (couponToRedeem) {
+          await couponService.redeem(couponToRedeem, userId, orderData.orderId, couponDiscount, session);
+          couponRedeemed = true;
+        }
+        const [order] = await Order.create([orderData], { session });
+        await Bag.deleteMany({ userId, savedForLater: false }, { session });
+        await inventoryService.releaseReservation(userId, session);
+        return order;
+      } catch (error) {
+        if (!session) {
+          await inventoryService.restoreStock(orderItems);
+          if (couponRedeemed) await couponService.releaseOrderCoupons(orderData);
+          if (salesClaimed) await saleService.releaseOrderSales(orderData);
+        }
+        throw error;
+      }
+    });
 
-    // Update product stock (optional - based on your inventory management)
-    for (const item of orderItems) {
-      await Product.findByIdAndUpdate(
-        item.productId,
-        { $inc: { stock: -item.quantity } },
-        { new: true }
-      );
+    // Update order status to confirmed (online payments confirm once the payment succeeds)
+    if (!isOnlinePayment) {
+      await savedOrder.updateStatus('Confirmed', 'Warehouse', 'Order confirmed and ready for processing');
     }
 
     // Populate the saved order for response
@@ -312,11 +323,15 @@ router.post("/create/:userId", async (req, res) => {
         select: 'name brand images price discount rating'
       });
 
+    // ✅ NEW: Order confirmation email (fire-and-forget)
+    emailService.notifyOrderStatus(populatedOrder, 'Pending');
+
     res.status(201).json({
       success: true,
-      message: "Order placed successfully",
+      message: isOnlinePayment ? "Order created, awaiting payment" : "Order placed successfully",
       data: {
         order: populatedOrder,
+        paymentRequired: isOnlinePayment,
         estimatedDelivery: trackingInfo.estimatedDelivery,
         trackingNumber: trackingInfo.number,
         nextSteps: [
@@ -330,6 +345,34 @@ router.post("/create/:userId", async (req, res) => {
   } catch (error) {
     console.error("Error creating order:", error);
     
+    // ✅ Another order took the last units between the check and the decrement
+    if (error.code === 'INSUFFICIENT_STOCK') {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        stockIssues: error.stockIssues || []
+      });
+    }
+    
+    // ✅ The sale ended or sold out between the bag check and the claim
+    if (error.code === 'SALE_ENDED') {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        saleEnded: true
+      });
+    }
+    
+    // ✅ Someone else used the coupon's last redemption (or this user's) in the meantime
+    if (error.code === 'COUPON_LIMIT_REACHED') {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        couponInvalid: true
+      });
+    }
+    
     if (error.name === 'ValidationError') {
       return res.status(400).json({
         success: false,
@@ -346,6 +389,89 @@ router.post("/create/:userId", async (req, res) => {
   }
 });
 
+// ✅ NEW: Hold the bag's stock while the user is on the checkout screen
+router.post("/reserve/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid user ID format"
+      });
+    }
+
+    const bagItems = await Bag.find({ userId, savedForLater: false }).select('productId size color quantity').lean();
+
+    if (bagItems.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No items in the bag to reserve"
+      });
+    }
+
+    const { reservation, issues } = await inventoryService.reserve(userId, bagItems);
+
+    if (!reservation) {
+      return res.status(409).json({
+        success: false,
+        message: "Some items have stock issues",
+        stockIssues: issues
+      });
+    }
+
+    console.log(`🔒 Reserved ${reservation.items.length} SKU(s) for user ${userId} until ${reservation.expiresAt.toISOString()}`);
+
+    res.status(200).json({
+      success: true,
+      message: "Items reserved for checkout",
+      data: {
+        items: reservation.items,
+        expiresAt: reservation.expiresAt,
+        ttlSeconds: Math.round(inventoryService.reservationTtlMs / 1000)
+      }
+    });
+
+  } catch (error) {
+    console.error("Error reserving stock:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to reserve items",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ NEW: Release the checkout hold (user left checkout)
+router.delete("/reserve/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid user ID format"
+      });
+    }
+
+    const result = await inventoryService.releaseReservation(userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.deletedCount > 0 ? "Reservation released" : "No active reservation",
+      data: { released: result.deletedCount > 0 }
+    });
+
+  } catch (error) {
+    console.error("Error releasing reservation:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to release reservation",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // ✅ Enhanced GET user orders with advanced filtering
 router.get("/user/:userid", async (req, res) => {
   try {
@@ -420,6 +546,7 @@ router.get("/user/:userid", async (req, res) => {
       ...order,
       canBeCancelled: order.canBeCancelled,
       canBeReturned: order.canBeReturned,
+      paymentDueAt: unpaidOrderService.getPaymentDueAt(order), // ✅ Unpaid online orders are cancelled after this
       isDelivered: order.isDelivered,
       itemCount: order.itemCount,
       daysSinceOrder: Math.floor((new Date() - new Date(order.orderDate)) / (1000 * 60 * 60 * 24)),
@@ -484,6 +611,58 @@ router.get("/user/:userid", async (req, res) => {
   }
 });
 
+// ============================================================================
+// LIVE ORDER UPDATES (SERVER-SENT EVENTS)
+// ============================================================================
+
+const EVENT_HEARTBEAT_MS = 25000;
+
+// ✅ NEW: Stream of the signed-in user's order changes (admins may pass ?scope=all).
+// Clients re-fetch after reconnecting - missed events are not replayed.
+router.get("/events", (req, res) => {
+  const scope = req.query.scope === 'all' && req.user.role === 'admin' ? '*' : req.user.id;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // keep nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  const write = (chunk) => {
+    res.write(chunk);
+    if (typeof res.flush === 'function') res.flush(); // compression middleware buffers otherwise
+  };
+
+  write(`retry: 5000\n`);
+  write(`event: ready\ndata: ${JSON.stringify({ scope: scope === '*' ? 'all' : 'user', connectedAt: new Date().toISOString() })}\n\n`);
+
+  const unsubscribe = orderEvents.subscribe(scope, (event) => {
+    write(`id: ${event.id}\nevent: order\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment lines keep proxies and mobile networks from closing an idle connection
+  const heartbeat = setInterval(() => write(`: ping ${Date.now()}\n\n`), EVENT_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// ✅ NEW: Return reason codes and pickup slots for the return form
+router.get("/return-reasons", (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      reasons: Object.entries(Order.RETURN_REASON_CODES).map(([code, label]) => ({ code, label })),
+      pickupTimeSlots: Order.PICKUP_TIME_SLOTS,
+      returnWindowDays: 30
+    }
+  });
+});
+
 // ✅ NEW: Get single order details
 router.get("/:orderid", async (req, res) => {
   try {
@@ -497,7 +676,8 @@ router.get("/:orderid", async (req, res) => {
       });
     }
 
-    const order = await Order.findById(orderid)
+    // ✅ Only the signed-in user's own orders
+    const order = await Order.findOne({ _id: orderid, userId: req.user.id })
       .populate({
         path: 'items.productId',
         select: 'name brand images price discount rating ratingCount stock'
@@ -515,6 +695,7 @@ router.get("/:orderid", async (req, res) => {
       ...order.toObject(),
       canBeCancelled: order.canBeCancelled,
       canBeReturned: order.canBeReturned,
+      paymentDueAt: unpaidOrderService.getPaymentDueAt(order), // ✅ Unpaid online orders are cancelled after this
       isDelivered: order.isDelivered,
       itemCount: order.itemCount,
       daysSinceOrder: Math.floor((new Date() - new Date(order.orderDate)) / (1000 * 60 * 60 * 24)),
@@ -538,11 +719,11 @@ router.get("/:orderid", async (req, res) => {
   }
 });
 
-// ✅ NEW: Update order status (admin functionality)
-router.patch("/:orderid/status", async (req, res) => {
+// ✅ NEW: Cancel order
+router.patch("/:orderid/cancel", async (req, res) => {
   try {
     const { orderid } = req.params;
-    const { status, location = '', description = '', updatedBy = 'admin' } = req.body;
+    const { reason = 'Customer request', refundAmount } = req.body;
 
     // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(orderid)) {
@@ -552,67 +733,180 @@ router.patch("/:orderid/status", async (req, res) => {
       });
     }
 
-    // Validate status
-    const validStatuses = ['Pending', 'Confirmed', 'Processing', 'Shipped', 'Delivered', 'Cancelled', 'Returned', 'Refunded'];
-    if (!validStatuses.includes(status)) {
+    const order = await Order.findOne({ _id: orderid, userId: req.user.id });
+    
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    // Check if order can be cancelled
+    if (!order.canBeCancelled) {
       return res.status(400).json({
         success: false,
-        message: "Invalid status",
-        validStatuses
+        message: "This order cannot be cancelled",
+        currentStatus: order.status
       });
     }
 
-    const order = await Order.findById(orderid);
+    // Cancel order using model method (online payments are refunded through the provider)
+    const refundedBefore = order.payment.refundAmount || 0;
+    await order.cancelOrder(reason, {
+      refundAmount,
+      updatedBy: 'customer',
+      refundPayment: (amount, refundReason) => paymentService.refundOrder(order, amount, refundReason)
+    });
+    await couponService.releaseOrderCoupons(order);
+    await saleService.releaseOrderSales(order);
+
+    emailService.notifyOrderStatus(order, 'Cancelled', {
+      reason,
+      refundAmount: (order.payment.refundAmount || 0) - refundedBefore
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Order cancelled successfully",
+      data: {
+        orderId: order.orderId,
+        cancelledAt: new Date().toISOString(),
+        reason,
+        refundStatus: order.payment.status,
+        refundAmount: order.payment.refundAmount || 0
+      }
+    });
+
+  } catch (error) {
+    console.error("Error cancelling order:", error);
     
-    if (!order) {
+    if (error.message.includes('cannot be cancelled') || error.code === 'PAYMENT_NOT_ALLOWED') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (error.code === 'REFUND_FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Failed to cancel order",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ============================================================================
+// RETURNS & EXCHANGES
+// ============================================================================
+
+// ✅ NEW: Request a return or size exchange for delivered items
+router.post("/:orderid/return", async (req, res) => {
+  try {
+    const { orderid } = req.params;
+    const { items, addressId, scheduledDate, timeSlot } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    if (!addressId || !mongoose.Types.ObjectId.isValid(addressId)) {
+      return res.status(400).json({
+        success: false,
+        message: "A saved pickup address (addressId) is required"
+      });
+    }
+
+    const order = await Order.findById(orderid);
+
+    if (!order || order.userId.toString() !== req.user.id) {
       return res.status(404).json({
         success: false,
         message: "Order not found"
       });
     }
 
-    // Update order status using model method
-    await order.updateStatus(status, location, description);
-
-    // Special handling for delivered status
-    if (status === 'Delivered') {
-      order.actualDeliveryDate = new Date();
-      if (order.tracking) {
-        order.tracking.actualDelivery = new Date();
-        order.tracking.status = 'Delivered';
-      }
-      await order.save();
+    // Pickup happens from one of the user's saved addresses
+    const address = await Address.findOne({ _id: addressId, userId: req.user.id });
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        message: "Pickup address not found"
+      });
     }
 
-    res.status(200).json({
+    const returns = await order.requestReturn({
+      items,
+      addressId: address._id,
+      pickupAddress: {
+        fullName: address.name,
+        phone: address.phone,
+        addressLine1: address.addressLine1,
+        addressLine2: address.addressLine2 || '',
+        landmark: address.landmark || '',
+        city: address.city,
+        state: address.state,
+        pincode: address.pincode,
+        country: address.country || 'India',
+        addressType: address.addressType || 'Home'
+      },
+      scheduledDate,
+      timeSlot
+    });
+
+    console.log(`↩️ Return requested on ${order.orderId}: ${returns.map(r => `${r.returnId} (${r.type})`).join(', ')}`);
+
+    res.status(201).json({
       success: true,
-      message: `Order status updated to ${status}`,
+      message: returns.length > 1 ? "Return and exchange requested" : `${returns[0].type === 'exchange' ? 'Exchange' : 'Return'} requested`,
       data: {
         orderId: order.orderId,
-        previousStatus: order.status,
-        newStatus: status,
-        updatedAt: new Date().toISOString(),
+        returns,
         trackingTimeline: order.tracking?.timeline || []
       }
     });
 
   } catch (error) {
-    console.error("Error updating order status:", error);
+    console.error("Error requesting return:", error);
+
+    if (error.code === 'RETURN_NOT_ALLOWED') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid return data",
+        details: Object.values(error.errors).map(err => err.message)
+      });
+    }
+
     res.status(500).json({
       success: false,
-      message: "Failed to update order status",
+      message: "Failed to request return",
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
 });
 
-// ✅ NEW: Cancel order
-router.patch("/:orderid/cancel", async (req, res) => {
+// ✅ NEW: Return requests of an order
+router.get("/:orderid/returns", async (req, res) => {
   try {
     const { orderid } = req.params;
-    const { reason = 'Customer request', refundAmount } = req.body;
 
-    // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(orderid)) {
       return res.status(400).json({
         success: false,
@@ -620,65 +914,106 @@ router.patch("/:orderid/cancel", async (req, res) => {
       });
     }
 
-    const order = await Order.findById(orderid);
-    
-    if (!order) {
+    const order = await Order.findById(orderid).select('orderId userId returns');
+
+    if (!order || order.userId.toString() !== req.user.id) {
       return res.status(404).json({
         success: false,
         message: "Order not found"
       });
     }
 
-    // Check if order can be cancelled
-    if (!order.canBeCancelled) {
+    res.status(200).json({
+      success: true,
+      data: order.returns
+    });
+
+  } catch (error) {
+    console.error("Error fetching returns:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch returns",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ NEW: Advance a return (approve / reject / pick up / refund / exchange / cancel).
+// Customers can only cancel their own requests; every other step is for admins.
+router.patch("/:orderid/return/:returnId/status", async (req, res) => {
+  try {
+    const { orderid, returnId } = req.params;
+    const { status, note = '' } = req.body;
+    const isAdmin = req.user.role === 'admin';
+
+    if (!isAdmin && status !== 'Cancelled') {
+      return res.status(403).json({
+        success: false,
+        message: "You are not allowed to access this resource"
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(orderid)) {
       return res.status(400).json({
         success: false,
-        message: "This order cannot be cancelled",
-        currentStatus: order.status
+        message: "Invalid order ID format"
       });
     }
 
-    // Cancel order using model method
-    await order.cancelOrder(reason);
+    const order = await Order.findById(orderid);
 
-    // Process refund if payment was already made
-    if (order.payment.status === 'Completed' && refundAmount) {
-      await order.processRefund(refundAmount);
+    if (!order || (!isAdmin && order.userId.toString() !== req.user.id)) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
     }
 
-    // Restore product stock
-    for (const item of order.items) {
-      await Product.findByIdAndUpdate(
-        item.productId,
-        { $inc: { stock: item.quantity } }
-      );
+    const returnRequest = await order.advanceReturn(returnId, status, {
+      note,
+      updatedBy: isAdmin ? 'admin' : 'customer',
+      // ✅ Refunds of online payments go back through the payment provider
+      refundPayment: (amount, reason) => paymentService.refundOrder(order, amount, reason)
+    });
+
+    if (status === 'Refunded') {
+      emailService.notifyRefund(order, returnRequest.refundAmount, `Return ${returnRequest.returnId}`);
     }
 
     res.status(200).json({
       success: true,
-      message: "Order cancelled successfully",
+      message: `Return ${returnId} is now ${status}`,
       data: {
         orderId: order.orderId,
-        cancelledAt: new Date().toISOString(),
-        reason,
-        refundStatus: order.payment.status,
-        refundAmount: order.payment.refundAmount || 0
+        orderStatus: order.status,
+        payment: {
+          status: order.payment.status,
+          refundAmount: order.payment.refundAmount || 0
+        },
+        return: returnRequest
       }
     });
 
   } catch (error) {
-    console.error("Error cancelling order:", error);
-    
-    if (error.message.includes('cannot be cancelled')) {
+    console.error("Error updating return status:", error);
+
+    if (['RETURN_NOT_ALLOWED', 'INSUFFICIENT_STOCK', 'PAYMENT_NOT_ALLOWED'].includes(error.code)) {
       return res.status(400).json({
         success: false,
         message: error.message
       });
     }
 
+    if (error.code === 'REFUND_FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     res.status(500).json({
       success: false,
-      message: "Failed to cancel order",
+      message: "Failed to update return",
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
@@ -690,13 +1025,14 @@ router.get("/track/:trackingnumber", async (req, res) => {
     const { trackingnumber } = req.params;
 
     const order = await Order.findOne({ 'tracking.number': trackingnumber })
-      .select('orderId status tracking shippingAddress items')
+      .select('orderId userId status orderDate expectedDeliveryDate tracking shippingAddress items')
       .populate({
         path: 'items.productId',
         select: 'name brand images'
       });
 
-    if (!order) {
+    // ✅ Shipments of other users are reported as not found
+    if (!order || order.userId.toString() !== req.user.id) {
       return res.status(404).json({
         success: false,
         message: "Tracking number not found"
@@ -706,8 +1042,10 @@ router.get("/track/:trackingnumber", async (req, res) => {
     res.status(200).json({
       success: true,
       data: {
+        _id: order._id,
         orderId: order.orderId,
         status: order.status,
+        orderDate: order.orderDate,
         tracking: order.tracking,
         shippingAddress: {
           city: order.shippingAddress.city,
@@ -715,7 +1053,16 @@ router.get("/track/:trackingnumber", async (req, res) => {
           pincode: order.shippingAddress.pincode
         },
         itemCount: order.items.length,
-        estimatedDelivery: order.tracking?.estimatedDelivery,
+        // ✅ NEW: Thumbnails for the tracking screen
+        items: order.items.map(item => ({
+          _id: item._id,
+          name: item.productSnapshot?.name || item.productId?.name,
+          brand: item.productSnapshot?.brand || item.productId?.brand,
+          image: item.productSnapshot?.images?.[0] || item.productId?.images?.[0],
+          size: item.size,
+          quantity: item.quantity
+        })),
+        estimatedDelivery: order.tracking?.estimatedDelivery || order.expectedDeliveryDate,
         lastUpdate: order.tracking?.timeline[order.tracking.timeline.length - 1]
       }
     });
@@ -0,0 +1,138 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const Order = require("../models/Order");
+const PaymentIntent = require("../models/PaymentIntent");
+const paymentService = require("../services/paymentService");
+const { authenticate, requireSameUser } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// PAYMENT INTENT ROUTES - CARD / UPI DETAILS NEVER REACH THIS API
+// ============================================================================
+
+const sendPaymentError = (res, error, fallbackMessage) => {
+  if (error.code === 'PAYMENT_NOT_ALLOWED') {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  if (error.code === 'PROVIDER_UNAVAILABLE' || error.code === 'REFUND_FAILED') {
+    return res.status(502).json({ success: false, message: error.message });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
+// ✅ Provider callback - authenticated by the provider's signature, not a user token
+router.post("/webhook/:provider", async (req, res) => {
+  try {
+    const intent = await paymentService.handleWebhook(req.params.provider, req.rawBody, req.headers);
+
+    // Always 200 for verified events so the provider stops retrying
+    res.status(200).json({
+      success: true,
+      received: true,
+      intentId: intent?.intentId || null
+    });
+
+  } catch (error) {
+    console.error("❌ Payment webhook rejected:", error.message);
+
+    if (error.code === 'PROVIDER_UNAVAILABLE') {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+
+    res.status(400).json({
+      success: false,
+      message: "Invalid webhook"
+    });
+  }
+});
+
+router.use(authenticate, requireSameUser);
+
+const findOwnIntent = async (req, res) => {
+  const intent = await PaymentIntent.findOne({ intentId: req.params.intentId });
+  if (!intent || intent.userId.toString() !== req.user.id) {
+    res.status(404).json({ success: false, message: "Payment not found" });
+    return null;
+  }
+  return intent;
+};
+
+// ✅ Start (or resume) the online payment of a pending order
+router.post("/intents", async (req, res) => {
+  try {
+    const { orderId } = req.body;
+
+    if (!orderId || !mongoose.Types.ObjectId.isValid(orderId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid order ID format"
+      });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order || order.userId.toString() !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+    }
+
+    const intent = await paymentService.createIntent(order);
+
+    res.status(201).json({
+      success: true,
+      message: "Payment initiated",
+      data: intent.toClientJSON()
+    });
+
+  } catch (error) {
+    console.error("Error creating payment intent:", error);
+    sendPaymentError(res, error, "Failed to initiate payment");
+  }
+});
+
+router.get("/intents/:intentId", async (req, res) => {
+  try {
+    const intent = await findOwnIntent(req, res);
+    if (!intent) return;
+
+    res.status(200).json({
+      success: true,
+      data: intent.toClientJSON()
+    });
+
+  } catch (error) {
+    console.error("Error fetching payment intent:", error);
+    sendPaymentError(res, error, "Failed to fetch payment");
+  }
+});
+
+// ✅ Confirm after the client finished the provider's checkout.
+// The mock provider accepts { testOutcome: 'fail' } to simulate a decline.
+router.post("/intents/:intentId/confirm", async (req, res) => {
+  try {
+    const intent = await findOwnIntent(req, res);
+    if (!intent) return;
+
+    const { testOutcome } = req.body;
+    const confirmed = await paymentService.confirmIntent(intent, { testOutcome });
+    const succeeded = confirmed.status === 'succeeded';
+
+    res.status(succeeded ? 200 : 402).json({
+      success: succeeded,
+      message: succeeded ? "Payment successful" : (confirmed.failureReason || "Payment failed"),
+      data: confirmed.toClientJSON()
+    });
+
+  } catch (error) {
+    console.error("Error confirming payment:", error);
+    sendPaymentError(res, error, "Failed to confirm payment");
+  }
+});
+
+module.exports = router;
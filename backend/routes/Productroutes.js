@@ -1,6 +1,14 @@
 const express = require("express");
 const Product = require("../models/Product");
 const Category = require("../models/Category");
+const SearchLog = require("../models/SearchLog");
+const searchService = require("../services/searchService");
+const suggestService = require("../services/suggestService");
+const inventoryService = require("../services/inventoryService");
+const pricingService = require("../services/pricingService");
+const saleService = require("../services/saleService");
+const categoryService = require("../services/categoryService");
+const productQueryService = require("../services/productQueryService");
 const router = express.Router();
 const mongoose = require("mongoose");
 
@@ -8,94 +16,44 @@ const mongoose = require("mongoose");
 // FIXED VERSION - PRODUCT ROUTES WITH SAFE DISCOUNT HANDLING
 // ============================================================================
 
+// ✅ Invalid filter values, sort options and cursors are client errors
+const sendProductQueryError = (res, error, fallbackMessage) => {
+  if (['INVALID_FILTER', 'INVALID_SORT', 'INVALID_CURSOR'].includes(error.code)) {
+    return res.status(400).json({
+      success: false,
+      message: error.message,
+      ...(error.validSorts ? { validSorts: error.validSorts } : {})
+    });
+  }
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+};
+
 // ✅ FIXED: ADDED MISSING GET ALL PRODUCTS ROUTE WITH SAFE DISCOUNT CONVERSION
+// ✅ UPDATED: Accepts every FilterState field and SortOption - see productQueryService
+// ✅ UPDATED: ?cursor=<meta.nextCursor> continues after the last product (page still works)
 router.get("/", async (req, res) => {
   try {
-    const {
-      page = 1,
-      limit = 20,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
-      search,
-      categoryId,
-      minPrice,
-      maxPrice,
-      brand,
-      sizes,
-      colors,
-      rating,
-      inStock = 'all',
-      isNew,
-      isFeatured
-    } = req.query;
-
-    // Build match query
-    let matchQuery = {};
-
-    // Search functionality
-    if (search && search.trim()) {
-      matchQuery.$or = [
-        { name: { $regex: search.trim(), $options: 'i' } },
-        { brand: { $regex: search.trim(), $options: 'i' } },
-        { description: { $regex: search.trim(), $options: 'i' } }
-      ];
-    }
-
-    // Category filter
-    if (categoryId && mongoose.Types.ObjectId.isValid(categoryId)) {
-      matchQuery.category = new mongoose.Types.ObjectId(categoryId);
-    }
-
-    // Price range filter
-    if (minPrice || maxPrice) {
-      matchQuery.price = {};
-      if (minPrice) matchQuery.price.$gte = parseFloat(minPrice);
-      if (maxPrice) matchQuery.price.$lte = parseFloat(maxPrice);
-    }
-
-    // Brand filter
-    if (brand) {
-      const brandArray = Array.isArray(brand) ? brand : brand.split(',');
-      matchQuery.brand = { $in: brandArray };
-    }
-
-    // Sizes filter
-    if (sizes) {
-      const sizeArray = Array.isArray(sizes) ? sizes : sizes.split(',');
-      matchQuery.sizes = { $in: sizeArray };
-    }
-
-    // Colors filter
-    if (colors) {
-      const colorArray = Array.isArray(colors) ? colors : colors.split(',');
-      matchQuery.colors = { $in: colorArray };
-    }
-
-    // Rating filter
-    if (rating) {
-      matchQuery.rating = { $gte: parseFloat(rating) };
-    }
-
-    // Stock filter
-    if (inStock === 'true') {
-      matchQuery.stock = { $gt: 0 };
-    } else if (inStock === 'false') {
-      matchQuery.stock = { $lte: 0 };
-    }
-
-    // New products filter
-    if (isNew === 'true') {
-      matchQuery.isNew = true;
-    }
-
-    // Featured products filter
-    if (isFeatured === 'true') {
-      matchQuery.isFeatured = true;
-    }
-
-    // ✅ FIXED: Aggregation pipeline with SAFE discount handling
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc', cursor } = req.query;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+
+    const filters = productQueryService.parseFilters(req.query);
+    const matchQuery = productQueryService.buildMatch(filters);
+    const sort = productQueryService.buildSort(sortBy, sortOrder);
+    const pageMatch = cursor
+      ? { $and: [matchQuery, productQueryService.buildCursorMatch(sort, productQueryService.decodeCursor(cursor, sort))] }
+      : matchQuery;
+
+    // ✅ UPDATED: Discount comes from structured pricing; price is already the selling price
     const pipeline = [
-      { $match: matchQuery },
+      { $match: pageMatch },
+      { $sort: sort },
+      { $skip: cursor ? 0 : (pageNum - 1) * limitNum },
+      { $limit: limitNum + 1 },
       {
         $lookup: {
           from: 'categories',
@@ -114,68 +72,22 @@ router.get("/", async (req, res) => {
             }
           },
           isInStock: { $gt: ['$stock', 0] },
-          hasDiscount: { 
-            $and: [
-              { $ne: ['$discount', null] },
-              { $ne: ['$discount', ''] }
-            ]
-          },
-          // ✅ FIXED: Safe discount number extraction
-          discountPercentage: {
-            $cond: {
-              if: { 
-                $and: [
-                  { $ne: ['$discount', null] },
-                  { $ne: ['$discount', ''] }
-                ]
-              },
-              then: {
-                $convert: {
-                  input: {
-                    $regexFind: {
-                      input: { $toString: '$discount' },
-                      regex: /\d+/  // Extract first number from discount string
-                    }
-                  },
-                  to: 'double',
-                  onError: 0,  // ✅ FIXED: Added onError handling
-                  onNull: 0
-                }
-              },
-              else: 0
-            }
-          }
-        }
-      },
-      {
-        $addFields: {
-          // ✅ FIXED: Safe final price calculation
-          finalPrice: {
-            $cond: {
-              if: { $gt: ['$discountPercentage', 0] },
-              then: {
-                $subtract: [
-                  '$price',
-                  { $multiply: ['$price', { $divide: ['$discountPercentage', 100] }] }
-                ]
-              },
-              else: '$price'
-            }
-          }
+          discountPercentage: { $ifNull: ['$pricing.discountPercent', 0] },
+          hasDiscount: { $gt: [{ $ifNull: ['$pricing.discountPercent', 0] }, 0] },
+          mrp: { $ifNull: ['$pricing.mrp', '$price'] },
+          finalPrice: '$price'
         }
       },
       {
         $project: {
-          categoryInfo: 0,
-          discountPercentage: 0  // Remove helper field from output
+          categoryInfo: 0
         }
-      },
-      { $sort: { [sortBy]: sortOrder === 'desc' ? -1 : 1 } },
-      { $skip: (parseInt(page) - 1) * parseInt(limit) },
-      { $limit: parseInt(limit) }
+      }
     ];
 
-    const products = await Product.aggregate(pipeline);
+    const { items: products, hasNextPage, nextCursor } = productQueryService.toCursorPage(
+      await Product.aggregate(pipeline), sort, limitNum
+    );
 
     // Get total count for pagination
     const totalCount = await Product.countDocuments(matchQuery);
@@ -195,18 +107,7 @@ router.get("/", async (req, res) => {
             $sum: { $cond: [{ $gt: ['$stock', 0] }, 1, 0] }
           },
           discountedCount: {
-            $sum: { 
-              $cond: [
-                { 
-                  $and: [
-                    { $ne: ['$discount', null] },
-                    { $ne: ['$discount', ''] }
-                  ]
-                }, 
-                1, 
-                0
-              ]
-            }
+            $sum: { $cond: [{ $gt: [{ $ifNull: ['$pricing.discountPercent', 0] }, 0] }, 1, 0] }
           }
         }
       }
@@ -217,29 +118,52 @@ router.get("/", async (req, res) => {
       data: products,
       meta: {
         total: totalCount,
-        page: parseInt(page),
-        limit: parseInt(limit),
-        totalPages: Math.ceil(totalCount / parseInt(limit)),
-        hasNextPage: parseInt(page) * parseInt(limit) < totalCount,
-        hasPrevPage: parseInt(page) > 1
+        page: cursor ? null : pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage,
+        hasPrevPage: !!cursor || pageNum > 1,
+        nextCursor
       },
       filters: {
-        applied: { search, categoryId, minPrice, maxPrice, brand, sizes, colors, rating, inStock, isNew, isFeatured },
+        applied: { ...filters, sortBy, sortOrder },
         statistics: stats[0] || {}
       }
     });
 
   } catch (error) {
     console.error("Error fetching all products:", error);
+    sendProductQueryError(res, error, "Failed to fetch products");
+  }
+});
+
+// ✅ NEW: Typeahead suggestions (products, brands, categories, subcategories, popular queries)
+// Must be registered before "/:productId"
+router.get("/suggest", async (req, res) => {
+  try {
+    const { q = '', limit = 10 } = req.query;
+    const limitNum = Math.min(20, Math.max(1, parseInt(limit) || 10));
+
+    const suggestions = await suggestService.suggest(q.toString().slice(0, 100), limitNum);
+
+    res.status(200).json({
+      success: true,
+      message: "Suggestions fetched successfully",
+      data: suggestions,
+      query: q.toString().trim()
+    });
+
+  } catch (error) {
+    console.error("Error fetching suggestions:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to fetch products",
+      message: "Failed to fetch suggestions",
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
 });
 
-// ✅ FIXED: Get single product by ID with safe discount handling
+// ✅ UPDATED: Get single product by ID - discount and MRP from structured pricing
 router.get("/:productId", async (req, res) => {
   try {
     const { productId } = req.params;
@@ -255,7 +179,7 @@ router.get("/:productId", async (req, res) => {
     const product = await Product.findById(productId)
       .populate({
         path: 'category',
-        select: 'name subcategory'
+        select: 'name slug subcategory ancestors'
       });
 
     if (!product) {
@@ -265,36 +189,47 @@ router.get("/:productId", async (req, res) => {
       });
     }
 
-    // ✅ FIXED: Safe discount percentage extraction
-    let discountPercentage = 0;
-    if (product.discount) {
-      const match = product.discount.toString().match(/\d+/);
-      discountPercentage = match ? parseInt(match[0]) : 0;
-    }
+    // ✅ NEW: Never show a flash sale price after the sale has ended
+    await saleService.refreshProducts([product]);
+
+    const discountPercentage = product.pricing?.discountPercent || 0;
+    const mrp = product.pricing?.mrp ?? product.price;
 
     // Get related products
     const relatedProducts = await Product.find({
       category: product.category,
       _id: { $ne: product._id }
     })
-    .select('name brand price images rating discount')
+    .select('name brand price pricing flashSale images rating discount')
     .limit(4);
 
+    // ✅ NEW: Per-size stock for the size picker (null when the product has no SKUs)
+    const sizeAvailability = await inventoryService.getSizeAvailability(product);
+
+    // ✅ NEW: Category trail for the breadcrumbs, root first
+    const breadcrumbs = await categoryService.getPath(product.category);
+    // ✅ NEW: Countdown and units left for a live flash sale (null otherwise)
+    const sale = await saleService.getProductSale(product);
+    const availableStock = sizeAvailability
+      ? sizeAvailability.reduce((sum, entry) => sum + entry.available, 0)
+      : null;
+
     // Add computed fields
     const enhancedProduct = {
       ...product.toObject(),
-      isInStock: product.stock > 0,
-      stockStatus: product.stock > 10 ? 'In Stock' : 
-                   product.stock > 0 ? 'Low Stock' : 'Out of Stock',
-      hasDiscount: Boolean(product.discount && discountPercentage > 0),
+      sizeAvailability,
+      isInStock: availableStock === null || availableStock > 0,
+      stockStatus: availableStock === null || availableStock > 10 ? 'In Stock' : 
+                   availableStock > 0 ? 'Low Stock' : 'Out of Stock',
+      hasDiscount: discountPercentage > 0,
       discountPercentage,
       averageRating: product.rating || 0,
       totalReviews: product.ratingCount || 0,
-      finalPrice: discountPercentage > 0 ? 
-        Math.round(product.price - (product.price * (discountPercentage / 100))) : 
-        product.price,
-      savings: discountPercentage > 0 ? 
-        Math.round(product.price * (discountPercentage / 100)) : 0,
+      mrp,
+      finalPrice: product.price,
+      savings: Math.max(0, mrp - product.price),
+      sale,
+      breadcrumbs,
       relatedProducts
     };
 
@@ -313,26 +248,53 @@ router.get("/:productId", async (req, res) => {
   }
 });
 
+// ✅ NEW: Price points for the product page chart (?days=90, max 365)
+router.get("/:productId/price-history", async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid product ID format"
+      });
+    }
+
+    const product = await Product.findById(productId).select('price pricing').lean();
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: "Product not found"
+      });
+    }
+
+    const history = await pricingService.getPriceHistory(product, { days: req.query.days });
+
+    res.status(200).json({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    console.error("Error fetching price history:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch price history",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // ✅ Keep all other routes as they were (category products, search, etc.)
 // Just removing the problematic aggregation parts
 
 // Get products by category
+// ✅ UPDATED: Same filters, sorts and cursors as GET / (the category's whole subtree), plus
+// the filter options available in the category
 router.get("/category/:categoryId", async (req, res) => {
   try {
     const { categoryId } = req.params;
-    const {
-      page = 1,
-      limit = 20,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
-      minPrice,
-      maxPrice,
-      brand,
-      sizes,
-      colors,
-      rating,
-      inStock = 'all'
-    } = req.query;
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc', cursor } = req.query;
 
     // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(categoryId)) {
@@ -342,58 +304,29 @@ router.get("/category/:categoryId", async (req, res) => {
       });
     }
 
-    // Build match query
-    let matchQuery = { 
-      category: new mongoose.Types.ObjectId(categoryId)
-    };
-
-    // Add filters
-    if (minPrice || maxPrice) {
-      matchQuery.price = {};
-      if (minPrice) matchQuery.price.$gte = parseFloat(minPrice);
-      if (maxPrice) matchQuery.price.$lte = parseFloat(maxPrice);
-    }
-
-    if (brand) {
-      const brandArray = Array.isArray(brand) ? brand : brand.split(',');
-      matchQuery.brand = { $in: brandArray };
-    }
-
-    if (sizes) {
-      const sizeArray = Array.isArray(sizes) ? sizes : sizes.split(',');
-      matchQuery.sizes = { $in: sizeArray };
-    }
-
-    if (colors) {
-      const colorArray = Array.isArray(colors) ? colors : colors.split(',');
-      matchQuery.colors = { $in: colorArray };
-    }
-
-    if (rating) {
-      matchQuery.rating = { $gte: parseFloat(rating) };
-    }
-
-    if (inStock === 'true') {
-      matchQuery.stock = { $gt: 0 };
-    } else if (inStock === 'false') {
-      matchQuery.stock = { $lte: 0 };
-    }
-
-    // Simple find query instead of complex aggregation
-    const products = await Product.find(matchQuery)
-      .populate({
-        path: 'category',
-        select: 'name'
-      })
-      .sort({ [sortBy]: sortOrder === 'desc' ? -1 : 1 })
-      .skip((parseInt(page) - 1) * parseInt(limit))
-      .limit(parseInt(limit));
-
-    // Get total count
-    const totalCount = await Product.countDocuments(matchQuery);
-
-    // Get category info
-    const category = await Category.findById(categoryId);
+    const filters = productQueryService.parseFilters({ ...req.query, categoryId });
+    const matchQuery = productQueryService.buildMatch(filters);
+    const sort = productQueryService.buildSort(sortBy, sortOrder);
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const pageMatch = cursor
+      ? { $and: [matchQuery, productQueryService.buildCursorMatch(sort, productQueryService.decodeCursor(cursor, sort))] }
+      : matchQuery;
+
+    const [docs, totalCount, category, options] = await Promise.all([
+      Product.find(pageMatch)
+        .populate({
+          path: 'category',
+          select: 'name'
+        })
+        .sort(sort)
+        .skip(cursor ? 0 : (pageNum - 1) * limitNum)
+        .limit(limitNum + 1),
+      Product.countDocuments(matchQuery),
+      Category.findById(categoryId),
+      productQueryService.getFilterOptions({ categoryPath: new mongoose.Types.ObjectId(categoryId) })
+    ]);
+    const { items: products, hasNextPage, nextCursor } = productQueryService.toCursorPage(docs, sort, limitNum);
 
     res.status(200).json({
       success: true,
@@ -401,25 +334,26 @@ router.get("/category/:categoryId", async (req, res) => {
       category: category || null,
       meta: {
         total: totalCount,
-        page: parseInt(page),
-        limit: parseInt(limit),
-        totalPages: Math.ceil(totalCount / parseInt(limit)),
-        hasNextPage: parseInt(page) * parseInt(limit) < totalCount,
-        hasPrevPage: parseInt(page) > 1
+        page: cursor ? null : pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(totalCount / limitNum),
+        hasNextPage,
+        hasPrevPage: !!cursor || pageNum > 1,
+        nextCursor
+      },
+      filters: {
+        applied: { ...filters, sortBy, sortOrder },
+        options
       }
     });
 
   } catch (error) {
     console.error("Error fetching products by category:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to fetch products",
-      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
-    });
+    sendProductQueryError(res, error, "Failed to fetch products");
   }
 });
 
-// Search products
+// ✅ ENHANCED: Ranked search - weighted fields, fuzzy matching, pagination and facets
 router.get("/search/:query", async (req, res) => {
   try {
     const { query } = req.params;
@@ -430,7 +364,16 @@ router.get("/search/:query", async (req, res) => {
       categoryId,
       minPrice,
       maxPrice,
-      brand
+      brand,
+      sizes,
+      colors,
+      rating,
+      discount,
+      inStock,
+      isNew,
+      isBestseller,
+      userId,
+      cursor
     } = req.query;
 
     if (!query || query.trim().length < 2) {
@@ -440,64 +383,57 @@ router.get("/search/:query", async (req, res) => {
       });
     }
 
-    // Build match query
-    let matchQuery = {
-      $or: [
-        { name: { $regex: query.trim(), $options: 'i' } },
-        { brand: { $regex: query.trim(), $options: 'i' } },
-        { description: { $regex: query.trim(), $options: 'i' } }
-      ]
-    };
-
-    // Add filters
-    if (categoryId && mongoose.Types.ObjectId.isValid(categoryId)) {
-      matchQuery.category = new mongoose.Types.ObjectId(categoryId);
-    }
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
 
-    if (minPrice || maxPrice) {
-      matchQuery.price = {};
-      if (minPrice) matchQuery.price.$gte = parseFloat(minPrice);
-      if (maxPrice) matchQuery.price.$lte = parseFloat(maxPrice);
-    }
+    const { products, total, facets, terms, hasNextPage, nextCursor } = await searchService.search(query, {
+      cursor,
+      page: pageNum,
+      limit: limitNum,
+      sortBy,
+      categoryId,
+      minPrice,
+      maxPrice,
+      brand,
+      sizes,
+      colors,
+      rating,
+      discount,
+      inStock,
+      isNew,
+      isBestseller
+    });
 
-    if (brand) {
-      matchQuery.brand = { $regex: brand, $options: 'i' };
-    }
+    const totalPages = Math.ceil(total / limitNum);
 
-    // Simple find query for search
-    const products = await Product.find(matchQuery)
-      .populate({
-        path: 'category',
-        select: 'name'
-      })
-      .sort(sortBy === 'relevance' ? { rating: -1 } : { [sortBy]: -1 })
-      .skip((parseInt(page) - 1) * parseInt(limit))
-      .limit(parseInt(limit));
+    console.log(`🔍 Search "${query.trim()}" → ${total} results (terms: ${terms.join(', ')})`);
 
-    // Get total count
-    const totalCount = await Product.countDocuments(matchQuery);
+    // ✅ Feed trending suggestions - only the first page counts as a search
+    if (pageNum === 1 && !cursor) {
+      SearchLog.logSearch({ query, resultCount: total, userId })
+        .catch(error => console.warn("⚠️ Failed to log search:", error.message));
+    }
 
     res.status(200).json({
       success: true,
       data: products,
       query: query.trim(),
+      facets,
       meta: {
-        total: totalCount,
-        page: parseInt(page),
-        limit: parseInt(limit),
-        totalPages: Math.ceil(totalCount / parseInt(limit)),
-        hasNextPage: parseInt(page) * parseInt(limit) < totalCount,
-        hasPrevPage: parseInt(page) > 1
+        total,
+        page: cursor ? null : pageNum,
+        limit: limitNum,
+        totalPages,
+        hasNextPage,
+        hasPrevPage: !!cursor || pageNum > 1,
+        sortBy,
+        nextCursor
       }
     });
 
   } catch (error) {
     console.error("Error searching products:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to search products",
-      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
-    });
+    sendProductQueryError(res, error, "Failed to search products");
   }
 });
 
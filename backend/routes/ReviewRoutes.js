@@ -0,0 +1,336 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const User = require('../models/User');
+const { authenticate, optionalAuthenticate } = require('../middleware/auth');
+
+const router = express.Router();
+
+// ============================================================================
+// PRODUCT REVIEW & RATING ROUTES
+// ============================================================================
+
+const REVIEW_SORT_OPTIONS = {
+  recent: { createdAt: -1 },
+  helpful: { helpful: -1, createdAt: -1 },
+  rating_high: { rating: -1, createdAt: -1 },
+  rating_low: { rating: 1, createdAt: -1 }
+};
+
+// ✅ POST - Create a review (one per user per product) as the signed-in user
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { productId, rating, title = '', comment = '', images = [], size } = req.body;
+
+    if (!productId || rating === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'productId and rating are required'
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid productId format'
+      });
+    }
+
+    const ratingNum = Number(rating);
+    if (!Number.isInteger(ratingNum) || ratingNum < 1 || ratingNum > 5) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rating must be a whole number between 1 and 5'
+      });
+    }
+
+    if (!Array.isArray(images) || images.length > 5) {
+      return res.status(400).json({
+        success: false,
+        message: 'images must be an array of at most 5 URLs'
+      });
+    }
+
+    const [product, user] = await Promise.all([
+      Product.findById(productId).select('sizes name'),
+      User.findById(userId).select('fullName')
+    ]);
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (size && product.sizes?.length && !product.sizes.includes(size)) {
+      return res.status(400).json({
+        success: false,
+        message: `Size ${size} is not available for this product`
+      });
+    }
+
+    const verified = await Review.isVerifiedPurchase(userId, productId);
+
+    const review = new Review({
+      userId,
+      productId,
+      userName: user.fullName,
+      rating: ratingNum,
+      title,
+      comment,
+      images,
+      size,
+      verified
+    });
+    await review.save();
+
+    const ratingBreakdown = await Review.syncProductRating(productId);
+
+    console.log(`⭐ Review added for ${product.name} by ${userId} (${ratingNum}★, verified: ${verified})`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Review submitted successfully',
+      data: review,
+      ratingBreakdown
+    });
+
+  } catch (error) {
+    console.error('Error creating review:', error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit review',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ GET - Rating breakdown only (lightweight, used by product cards/headers)
+router.get('/product/:productId/breakdown', async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product ID format'
+      });
+    }
+
+    const ratingBreakdown = await Review.getRatingBreakdown(productId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Rating breakdown fetched successfully',
+      data: ratingBreakdown
+    });
+
+  } catch (error) {
+    console.error('Error fetching rating breakdown:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch rating breakdown',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ GET - Paginated reviews for a product with sorting and star filter (isHelpful is per signed-in user)
+router.get('/product/:productId', optionalAuthenticate, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = 'recent',
+      rating,
+      verifiedOnly = 'false',
+      withImages = 'false'
+    } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid product ID format'
+      });
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 10));
+    const skip = (pageNum - 1) * limitNum;
+
+    const query = { productId };
+    if (rating) {
+      const ratingNum = parseInt(rating);
+      if (ratingNum >= 1 && ratingNum <= 5) query.rating = ratingNum;
+    }
+    if (verifiedOnly === 'true') query.verified = true;
+    if (withImages === 'true') query['images.0'] = { $exists: true };
+
+    const sort = REVIEW_SORT_OPTIONS[sortBy] || REVIEW_SORT_OPTIONS.recent;
+
+    const [reviews, total, ratingBreakdown] = await Promise.all([
+      Review.find(query).sort(sort).skip(skip).limit(limitNum),
+      Review.countDocuments(query),
+      Review.getRatingBreakdown(productId)
+    ]);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.status(200).json({
+      success: true,
+      message: 'Reviews fetched successfully',
+      data: reviews.map(review => review.toClientJSON(req.user?.id)),
+      ratingBreakdown,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1,
+        sortBy: REVIEW_SORT_OPTIONS[sortBy] ? sortBy : 'recent'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch reviews',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ PATCH - Mark a review as helpful (toggles for the same user)
+router.patch('/:reviewId/helpful', authenticate, async (req, res) => {
+  try {
+    const { reviewId } = req.params;
+    const userId = req.user.id;
+
+    if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid reviewId format'
+      });
+    }
+
+    const review = await Review.findById(reviewId);
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    if (review.userId.toString() === userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot mark your own review as helpful'
+      });
+    }
+
+    // ✅ Each vote is conditioned on the list, so the count always moves with it. If a
+    // concurrent toggle got there first, the opposite toggle is applied instead.
+    const addVote = () => Review.findOneAndUpdate(
+      { _id: reviewId, helpfulBy: { $ne: userId } },
+      { $addToSet: { helpfulBy: userId }, $inc: { helpful: 1 } },
+      { new: true }
+    );
+    const removeVote = () => Review.findOneAndUpdate(
+      { _id: reviewId, helpfulBy: userId },
+      { $pull: { helpfulBy: userId }, $inc: { helpful: -1 } },
+      { new: true }
+    );
+
+    const [first, second] = review.isHelpfulTo(userId) ? [removeVote, addVote] : [addVote, removeVote];
+    const updatedReview = (await first()) || (await second());
+    if (!updatedReview) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    const isHelpful = updatedReview.isHelpfulTo(userId);
+
+    res.status(200).json({
+      success: true,
+      message: isHelpful ? 'Marked as helpful' : 'Helpful vote removed',
+      data: {
+        reviewId: updatedReview._id,
+        helpfulCount: updatedReview.helpful,
+        isHelpful
+      }
+    });
+
+  } catch (error) {
+    console.error('Error marking review helpful:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update helpful count',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ DELETE - Remove own review
+router.delete('/:reviewId', authenticate, async (req, res) => {
+  try {
+    const { reviewId } = req.params;
+    const userId = req.user.id;
+
+    if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid reviewId format'
+      });
+    }
+
+    const review = await Review.findOneAndDelete({ _id: reviewId, userId });
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    const ratingBreakdown = await Review.syncProductRating(review.productId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Review deleted successfully',
+      data: { reviewId },
+      ratingBreakdown
+    });
+
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete review',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
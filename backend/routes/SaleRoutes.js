@@ -0,0 +1,66 @@
+const express = require("express");
+const saleService = require("../services/saleService");
+const router = express.Router();
+
+// ============================================================================
+// FLASH SALES - LIVE AND UPCOMING SALES WITH THEIR COUNTDOWNS
+// ============================================================================
+
+// ✅ Live sales (with their first products) and sales starting within 24 hours (?productLimit=12)
+router.get("/", async (req, res) => {
+  try {
+    const productLimit = Math.min(24, Math.max(1, parseInt(req.query.productLimit) || 12));
+    const now = new Date();
+    const { live, upcoming } = await saleService.getSales({ now, productLimit });
+
+    res.status(200).json({
+      success: true,
+      data: { live, upcoming },
+      meta: {
+        liveCount: live.length,
+        upcomingCount: upcoming.length,
+        serverTime: now
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching sales:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch sales",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ One sale with a page of its products (?page=1&limit=20)
+router.get("/:saleId", async (req, res) => {
+  try {
+    const { page, limit } = req.query;
+    const now = new Date();
+    const result = await saleService.getSale(req.params.saleId, { page, limit, now });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: "Sale not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { ...result.sale, products: result.products },
+      meta: { ...result.meta, serverTime: now }
+    });
+
+  } catch (error) {
+    console.error("Error fetching sale:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch sale",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
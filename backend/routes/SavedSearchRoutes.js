@@ -0,0 +1,226 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const savedSearchService = require("../services/savedSearchService");
+const { authenticate } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// SAVED SEARCHES - THE SIGNED-IN USER'S NAMED QUERIES + FILTERS
+// ============================================================================
+
+router.use(authenticate);
+
+// ✅ Saved search errors from savedSearchService → status codes
+const SAVED_SEARCH_ERROR_STATUS = {
+  INVALID_SAVED_SEARCH: 400,
+  LIMIT_REACHED: 400,
+  DUPLICATE_NAME: 409
+};
+
+// Sends the domain error response; returns false for anything else
+const sendSavedSearchError = (res, error) => {
+  if (!SAVED_SEARCH_ERROR_STATUS[error.code]) return false;
+  res.status(SAVED_SEARCH_ERROR_STATUS[error.code]).json({
+    success: false,
+    message: error.message,
+    code: error.code
+  });
+  return true;
+};
+
+const rejectInvalidId = (req, res) => {
+  if (mongoose.Types.ObjectId.isValid(req.params.savedSearchId)) return false;
+  res.status(400).json({
+    success: false,
+    message: "Invalid saved search ID format"
+  });
+  return true;
+};
+
+// ✅ Most recently updated first, each with the number of products added since it was last opened
+router.get("/", async (req, res) => {
+  try {
+    const savedSearches = await savedSearchService.list(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: savedSearches,
+      meta: {
+        total: savedSearches.length,
+        limit: savedSearchService.maxSavedSearches
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch saved searches",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Body: { name, query?, filters?, digestEnabled?, digestFrequency? } - filters is a FilterState
+router.post("/", async (req, res) => {
+  try {
+    const { name, query, filters, digestEnabled, digestFrequency } = req.body;
+
+    const savedSearch = await savedSearchService.create(req.user.id, {
+      name,
+      query,
+      filters,
+      digestEnabled,
+      digestFrequency
+    });
+
+    console.log(`🔎 Saved search "${savedSearch.name}" created by user ${req.user.id}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Search saved",
+      data: savedSearch
+    });
+
+  } catch (error) {
+    if (sendSavedSearchError(res, error)) return;
+
+    console.error("Error creating saved search:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save search",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Rename, replace the query/filters or change the digest settings
+router.patch("/:savedSearchId", async (req, res) => {
+  try {
+    if (rejectInvalidId(req, res)) return;
+
+    const { name, query, filters, digestEnabled, digestFrequency } = req.body;
+    const savedSearch = await savedSearchService.update(req.user.id, req.params.savedSearchId, {
+      name,
+      query,
+      filters,
+      digestEnabled,
+      digestFrequency
+    });
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved search not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Saved search updated",
+      data: savedSearch
+    });
+
+  } catch (error) {
+    if (sendSavedSearchError(res, error)) return;
+
+    console.error("Error updating saved search:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update saved search",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.delete("/:savedSearchId", async (req, res) => {
+  try {
+    if (rejectInvalidId(req, res)) return;
+
+    const savedSearch = await savedSearchService.remove(req.user.id, req.params.savedSearchId);
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved search not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Saved search deleted"
+    });
+
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete saved search",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Called when the user opens a saved search - resets its "new" count
+router.post("/:savedSearchId/viewed", async (req, res) => {
+  try {
+    if (rejectInvalidId(req, res)) return;
+
+    const savedSearch = await savedSearchService.markViewed(req.user.id, req.params.savedSearchId);
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved search not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: savedSearch
+    });
+
+  } catch (error) {
+    console.error("Error marking saved search viewed:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update saved search",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ The products behind the "new" count, newest first (?limit, max 50)
+router.get("/:savedSearchId/new-products", async (req, res) => {
+  try {
+    if (rejectInvalidId(req, res)) return;
+
+    const savedSearch = await savedSearchService.findOwned(req.user.id, req.params.savedSearchId);
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved search not found"
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 50);
+    const { products, total } = await savedSearchService.findNewProducts(savedSearch, savedSearch.lastViewedAt, { limit });
+
+    res.status(200).json({
+      success: true,
+      data: products,
+      meta: {
+        total,
+        since: savedSearch.lastViewedAt
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching new products for saved search:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch new products",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,134 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const StockSubscription = require("../models/StockSubscription");
+const stockAlertService = require("../services/stockAlertService");
+const { authenticate } = require("../middleware/auth");
+const router = express.Router();
+
+// ============================================================================
+// BACK IN STOCK ALERTS - THE SIGNED-IN USER'S "NOTIFY ME" SUBSCRIPTIONS
+// ============================================================================
+
+router.use(authenticate);
+
+// ✅ Subscription errors from stockAlertService → status codes
+const SUBSCRIPTION_ERROR_STATUS = {
+  PRODUCT_NOT_FOUND: 404,
+  NOT_TRACKED: 400,
+  INVALID_OPTION: 400,
+  IN_STOCK: 409
+};
+
+// ✅ Active subscriptions by default; ?status=notified|cancelled|all for the rest
+router.get("/", async (req, res) => {
+  try {
+    const { status = 'active' } = req.query;
+
+    if (status !== 'all' && !StockSubscription.SUBSCRIPTION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid subscription status",
+        validStatuses: [...StockSubscription.SUBSCRIPTION_STATUSES, 'all']
+      });
+    }
+
+    const subscriptions = await stockAlertService.list(req.user.id, { status: status === 'all' ? null : status });
+
+    res.status(200).json({
+      success: true,
+      data: subscriptions.filter(subscription => subscription.productId),
+      meta: { total: subscriptions.length }
+    });
+
+  } catch (error) {
+    console.error("Error fetching stock alerts:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch stock alerts",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ✅ Subscribe to a sold-out size (and optionally color); repeating the request is a no-op
+router.post("/", async (req, res) => {
+  try {
+    const { productId, size = '', color = '' } = req.body;
+
+    if (!productId || !mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid product ID format"
+      });
+    }
+
+    const { subscription, created } = await stockAlertService.subscribe(req.user.id, {
+      productId,
+      size: String(size),
+      color: String(color)
+    });
+
+    if (created) {
+      console.log(`📦 Stock alert: user ${req.user.id} → product ${productId} size "${subscription.size}"`);
+    }
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? "We'll let you know when it's back in stock" : "You're already subscribed to this size",
+      data: subscription
+    });
+
+  } catch (error) {
+    if (SUBSCRIPTION_ERROR_STATUS[error.code]) {
+      return res.status(SUBSCRIPTION_ERROR_STATUS[error.code]).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error("Error creating stock alert:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create stock alert",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+router.delete("/:subscriptionId", async (req, res) => {
+  try {
+    const { subscriptionId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(subscriptionId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid subscription ID format"
+      });
+    }
+
+    const subscription = await stockAlertService.cancel(req.user.id, subscriptionId);
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        message: "Active subscription not found"
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Stock alert cancelled",
+      data: subscription
+    });
+
+  } catch (error) {
+    console.error("Error cancelling stock alert:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to cancel stock alert",
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
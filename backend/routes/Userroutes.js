@@ -3,7 +3,8 @@ const bcrypt = require("bcryptjs");
 const crypto = require("crypto");
 const User = require("../models/User");
 const mongoose = require("mongoose");
-// const { sendPasswordResetEmail } = require("../services/emailService");
+const { authenticate, generateAuthTokens, verifyRefreshToken } = require("../middleware/auth");
+const emailService = require("../services/emailService");
 
 const router = express.Router();
 
@@ -373,18 +374,23 @@ router.post("/signup", async (req, res) => {
 
     await user.save();
 
+    // ✅ NEW: Welcome email (fire-and-forget)
+    emailService.sendWelcomeEmail(user);
+
     // ✅ FIXED: Send fullName instead of name to match frontend expectation
     const userData = {
       _id: user._id,
       fullName: user.fullName,  // ✅ Changed from 'name' to 'fullName'
       email: user.email,
+      role: user.role,
       createdAt: user.createdAt
     };
 
     res.status(201).json({ 
       success: true,
       message: "User created successfully", 
-      data: userData 
+      data: userData,
+      tokens: await generateAuthTokens(user)
     });
   } catch (error) {
     console.error("Signup error:", error);
@@ -430,13 +436,15 @@ router.post("/login", async (req, res) => {
       _id: user._id,
       fullName: user.fullName,  // ✅ Changed from 'name' to 'fullName'
       email: user.email,
+      role: user.role,
       lastLogin: new Date()
     };
 
     res.status(200).json({ 
       success: true,
       message: "Login successful", 
-      data: userData 
+      data: userData,
+      tokens: await generateAuthTokens(user)
     });
   } catch (error) {
     console.error("Login error:", error);
@@ -475,9 +483,7 @@ router.post("/forgot-password", async (req, res) => {
     await user.save();
 
     try {
-      // Email service integration (optional)
-      // await sendPasswordResetEmail(email, resetToken);
-      console.log(`Reset email would be sent to ${email} with token: ${resetToken}`);
+      await emailService.sendPasswordResetEmail(user.email, resetToken, user.fullName);
     } catch (emailError) {
       console.error("Failed to send reset email:", emailError);
     }
@@ -496,6 +502,67 @@ router.post("/forgot-password", async (req, res) => {
   }
 });
 
+// ✅ NEW: REFRESH TOKEN - rotate the access/refresh token pair (the old refresh token is spent)
+router.post("/refresh-token", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ 
+        success: false,
+        message: "Refresh token is required" 
+      });
+    }
+
+    let user;
+    try {
+      user = await verifyRefreshToken(refreshToken);
+    } catch (verifyError) {
+      return res.status(401).json({ 
+        success: false,
+        message: "Invalid or expired refresh token",
+        code: "REFRESH_TOKEN_INVALID"
+      });
+    }
+
+    res.status(200).json({ 
+      success: true,
+      message: "Token refreshed successfully",
+      data: {
+        _id: user._id,
+        fullName: user.fullName,
+        email: user.email,
+        role: user.role
+      },
+      tokens: await generateAuthTokens(user)
+    });
+  } catch (error) {
+    console.error("Refresh token error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: "Internal server error" 
+    });
+  }
+});
+
+// ✅ NEW: LOGOUT - revoke all refresh tokens for the signed-in user
+router.post("/logout", authenticate, async (req, res) => {
+  try {
+    await User.findByIdAndUpdate(req.user.id, { $inc: { tokenVersion: 1 }, $set: { refreshTokenIds: [] } });
+
+    res.status(200).json({ 
+      success: true,
+      message: "Logged out successfully" 
+    });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: "Internal server error" 
+    });
+  }
+});
+
 // RESET PASSWORD
 router.post("/reset-password", async (req, res) => {
   try {
@@ -532,6 +599,8 @@ router.post("/reset-password", async (req, res) => {
     user.password = hashedPassword;
     user.resetPasswordToken = null;
     user.resetPasswordExpires = null;
+    user.tokenVersion = (user.tokenVersion || 0) + 1; // ✅ Sign out every other session
+    user.refreshTokenIds = [];
 
     await user.save();
 
@@ -2,9 +2,14 @@ const express = require('express');
 const mongoose = require('mongoose');
 const Wishlist = require('../models/Wishlist');
 const Product = require('../models/Product');
+const { authenticate, requireSameUser, matchUserParam } = require('../middleware/auth');
 
 const router = express.Router();
 
+// ✅ NEW: JWT auth - every wishlist route acts on the signed-in user's own data
+router.use(authenticate, requireSameUser);
+router.param('userid', matchUserParam);
+
 // ============================================================================
 // ENHANCED WISHLIST ROUTES WITH PROFESSIONAL FEATURES
 // ============================================================================
@@ -65,7 +70,7 @@ router.post('/', async (req, res) => {
     // Populate product details for response
     const populatedItem = await Wishlist.findById(newItem._id).populate({
       path: 'productId',
-      select: 'name brand price discount images rating ratingCount isNew isFeatured'
+      select: 'name brand price pricing discount images rating ratingCount isNew isFeatured'
     });
 
     res.status(201).json({
@@ -130,7 +135,7 @@ router.get('/:userid', async (req, res) => {
     let wishlistItems = await Wishlist.find(query)
       .populate({
         path: 'productId',
-        select: 'name brand price discount images rating ratingCount isNew isFeatured'
+        select: 'name brand price pricing discount images rating ratingCount isNew isFeatured'
       })
       .sort({ [sortBy]: sortOrderNum })
       .skip(skip)
@@ -161,7 +166,13 @@ router.get('/:userid', async (req, res) => {
     }
 
     // Remove items with null productId (deleted products)
-    wishlistItems = wishlistItems.filter(item => item.productId);
+    wishlistItems = wishlistItems
+      .filter(item => item.productId)
+      .map(item => ({
+        ...item,
+        // ✅ NEW: Drop since the item was wishlisted, shown on the wishlist card
+        priceDrop: Wishlist.getPriceDrop(item.originalPrice, item.productId.price)
+      }));
 
     // Get total count for pagination
     const totalCount = await Wishlist.countDocuments({ userId: userid });
@@ -242,6 +253,84 @@ router.get('/:userid', async (req, res) => {
   }
 });
 
+// ✅ NEW: PATCH - Update priority, notes or the price-drop alert of a wishlist item
+router.patch('/:itemid', async (req, res) => {
+  try {
+    const { itemid } = req.params;
+    const { priority, notes, priceAlertEnabled } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(itemid)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid item ID format'
+      });
+    }
+
+    if (priority === undefined && notes === undefined && priceAlertEnabled === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing to update - send priority, notes or priceAlertEnabled'
+      });
+    }
+
+    if (priceAlertEnabled !== undefined && typeof priceAlertEnabled !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'priceAlertEnabled must be true or false'
+      });
+    }
+
+    const item = await Wishlist.findOne({ _id: itemid, userId: req.user.id })
+      .populate({ path: 'productId', select: 'name brand price pricing discount images rating ratingCount isNew isFeatured' });
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist item not found'
+      });
+    }
+
+    if (priority !== undefined) item.priority = priority;
+    if (notes !== undefined) item.notes = String(notes).trim();
+    if (priceAlertEnabled !== undefined) {
+      item.priceAlertEnabled = priceAlertEnabled;
+      // Items wishlisted before prices were tracked start from today's price
+      if (priceAlertEnabled && item.originalPrice == null && item.productId) {
+        item.originalPrice = item.productId.price;
+      }
+      if (!priceAlertEnabled) item.lastAlertedPrice = null;
+    }
+
+    await item.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist item updated',
+      data: {
+        ...item.toJSON(),
+        priceDrop: item.productId ? Wishlist.getPriceDrop(item.originalPrice, item.productId.price) : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Error updating wishlist item:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid wishlist item data',
+        errors: Object.values(error.errors).map(err => err.message)
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update wishlist item',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // ✅ DELETE - Remove item from wishlist by item ID
 router.delete('/:itemid', async (req, res) => {
   try {
@@ -256,7 +345,7 @@ router.delete('/:itemid', async (req, res) => {
     }
 
     // Find and delete the item
-    const deletedItem = await Wishlist.findByIdAndDelete(itemid)
+    const deletedItem = await Wishlist.findOneAndDelete({ _id: itemid, userId: req.user.id })
       .populate({
         path: 'productId',
         select: 'name brand'
@@ -2,6 +2,8 @@ const fs = require('fs');
 const path = require('path');
 const Product = require('./models/Product');
 const Category = require('./models/Category');
+const PriceHistory = require('./models/PriceHistory');
+const Brand = require('./models/Brand');
 
 const unwrapId = (id) => {
   if (typeof id === 'string') return id;
@@ -10,29 +12,64 @@ const unwrapId = (id) => {
   return id;
 };
 
+const DEFAULT_SKU_STOCK = 20;
+
 async function seed() {
   try {
     // 1. Remove old data
     await Product.deleteMany({});
     await Category.deleteMany({});
+    await PriceHistory.deleteMany({}); // re-seeded products get new ids
 
-    // 2. Read category and product JSON
+    // 2. Read category, product and brand JSON
     const categoriesData = JSON.parse(fs.readFileSync(path.join(__dirname, 'category.json'), 'utf-8'));
     const productsData  = JSON.parse(fs.readFileSync(path.join(__dirname, 'product.json'), 'utf-8'));
+    const brandsData    = JSON.parse(fs.readFileSync(path.join(__dirname, 'brand.json'), 'utf-8'));
+
+    // 3. Insert top-level categories, then one child category per legacy subcategory name
+    const insertedRoots = await Category.insertMany(categoriesData.map(({ productId, ...category }) => ({
+      ...category,
+      slug: Category.slugify(category.name)
+    })));
+
+    // Child images default to the first product image in that subcategory
+    const subcategoryImage = {};
+    productsData.forEach(product => {
+      const key = `${product.categoryName?.trim().toLowerCase()}/${product.subcategory?.trim().toLowerCase()}`;
+      if (!subcategoryImage[key] && product.images?.length) subcategoryImage[key] = product.images[0];
+    });
+
+    const insertedChildren = await Category.insertMany(insertedRoots.flatMap(root =>
+      (root.subcategory || []).map((name, index) => ({
+        name,
+        slug: `${root.slug}-${Category.slugify(name)}`,
+        parent: root._id,
+        ancestors: [root._id],
+        order: index + 1,
+        image: subcategoryImage[`${root.name.trim().toLowerCase()}/${name.trim().toLowerCase()}`] || root.image
+      }))
+    ));
 
-    // 3. Insert categories
-    const insertedCategories = await Category.insertMany(categoriesData);
     const categoryMap = {};
-    insertedCategories.forEach(cat => {
-      categoryMap[cat.name.trim().toLowerCase()] = cat._id;
+    insertedRoots.forEach(cat => {
+      categoryMap[cat.name.trim().toLowerCase()] = cat;
+    });
+    insertedChildren.forEach(cat => {
+      const root = insertedRoots.find(candidate => candidate._id.equals(cat.parent));
+      categoryMap[`${root.name.trim().toLowerCase()}/${cat.name.trim().toLowerCase()}`] = cat;
     });
 
-    // 4. Prepare products with proper category references
-    const productsToInsert = productsData.map(product => {
+    // 4. Prepare products with their deepest category, structured pricing and starting SKU stock
+    const productsToInsert = productsData.map(({ mrp, ...product }) => {
       const categoryName = product.categoryName?.trim().toLowerCase();
+      const subcategoryName = product.subcategory?.trim().toLowerCase();
+      const category = categoryMap[`${categoryName}/${subcategoryName}`] || categoryMap[categoryName] || null;
       return {
         ...product,
-        category: categoryName && categoryMap[categoryName] ? categoryMap[categoryName] : null,
+        pricing: { mrp: mrp || product.price, sellingPrice: product.price },
+        category: category ? category._id : null,
+        categoryPath: category ? [...category.ancestors, category._id] : [],
+        skus: product.skus || Product.buildSkus(product.sizes, product.colors, DEFAULT_SKU_STOCK),
       };
     });
 
@@ -55,9 +92,36 @@ async function seed() {
       })
     );
 
+    // 8. Upsert one brand per product brand - brands are kept (not wiped) so follows survive a re-seed
+    const brandMeta = new Map(brandsData.map(brand => [Brand.slugify(brand.name), brand]));
+    const brandsBySlug = new Map();
+    insertedProducts.forEach(prod => {
+      const slug = Brand.slugify(prod.brand);
+      if (!slug || brandsBySlug.has(slug)) return;
+      const meta = brandMeta.get(slug) || {};
+      brandsBySlug.set(slug, {
+        name: meta.name || prod.brand.trim(),
+        description: meta.description || '',
+        country: meta.country || '',
+        logo: meta.logo || '',
+        banner: meta.banner || prod.images?.[0] || ''
+      });
+    });
+
+    if (brandsBySlug.size > 0) {
+      await Brand.bulkWrite([...brandsBySlug.entries()].map(([slug, brand]) => ({
+        updateOne: {
+          filter: { slug },
+          update: { $set: brand, $setOnInsert: { slug } },
+          upsert: true
+        }
+      })));
+    }
+
     console.log('🌱 Database seeded:');
-    console.log(`   Categories: ${insertedCategories.length}`);
+    console.log(`   Categories: ${insertedRoots.length} top-level, ${insertedChildren.length} subcategories`);
     console.log(`   Products:   ${insertedProducts.length}`);
+    console.log(`   Brands:     ${brandsBySlug.size}`);
   } catch (error) {
     console.error('Seeding error:', error);
     throw error;
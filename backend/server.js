@@ -2,7 +2,6 @@ require('dotenv').config();
 const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
-const fs = require('fs');
 const path = require('path');
 
 // ============================================================================
@@ -23,8 +22,71 @@ const AddressRoutes = require('./routes/AddressRoutes');
 const recommendationRoutes = require('./routes/RecommendationRoutes');
 const browsingHistoryRoutes = require('./routes/BrowsingHistoryRoutes');
 
-// ✅ NEW: Import Coupon Rule Engine
-const CouponRuleEngine = require('./couponRules');
+// ✅ NEW: Import Review Routes
+const ReviewRoutes = require('./routes/ReviewRoutes');
+
+// ✅ NEW: Import Payment Routes
+const PaymentRoutes = require('./routes/PaymentRoutes');
+
+// ✅ NEW: Import Admin Order Routes
+const AdminOrderRoutes = require('./routes/AdminOrderRoutes');
+
+// ✅ NEW: Import Admin Coupon Routes
+const AdminCouponRoutes = require('./routes/AdminCouponRoutes');
+
+// ✅ NEW: Import Admin Product Routes
+const AdminProductRoutes = require('./routes/AdminProductRoutes');
+
+// ✅ NEW: Import Admin Home Section Routes
+const AdminHomeRoutes = require('./routes/AdminHomeRoutes');
+
+// ✅ NEW: Import Home Screen Routes
+const HomeRoutes = require('./routes/HomeRoutes');
+
+// ✅ NEW: Import Flash Sale Routes
+const SaleRoutes = require('./routes/SaleRoutes');
+
+// ✅ NEW: Import Admin Flash Sale Routes
+const AdminSaleRoutes = require('./routes/AdminSaleRoutes');
+
+// ✅ NEW: Import Admin Promotion Routes
+const AdminPromotionRoutes = require('./routes/AdminPromotionRoutes');
+
+// ✅ NEW: Import Notification Routes
+const NotificationRoutes = require('./routes/NotificationRoutes');
+
+// ✅ NEW: Import Back-in-Stock Alert Routes
+const StockAlertRoutes = require('./routes/StockAlertRoutes');
+
+// ✅ NEW: Import Brand Routes
+const BrandRoutes = require('./routes/BrandRoutes');
+
+// ✅ NEW: Import Saved Search Routes
+const SavedSearchRoutes = require('./routes/SavedSearchRoutes');
+
+// ✅ NEW: Import Coupon Service (coupon store backed by MongoDB)
+const couponService = require('./services/couponService');
+
+// ✅ NEW: Import Price Alert Service (scheduled wishlist price-drop checks)
+const priceAlertService = require('./services/priceAlertService');
+
+// ✅ NEW: Import Stock Alert Service (back-in-stock "notify me" subscriptions)
+const stockAlertService = require('./services/stockAlertService');
+
+// ✅ NEW: Import Pricing Service (scheduled selling-price windows)
+const pricingService = require('./services/pricingService');
+
+// ✅ NEW: Import Saved Search Service (new-arrival digests for saved searches)
+const savedSearchService = require('./services/savedSearchService');
+
+// ✅ NEW: Import Home Service (CMS home screen sections)
+const homeService = require('./services/homeService');
+
+// ✅ NEW: Import Sale Service (flash sale windows and quantity caps)
+const saleService = require('./services/saleService');
+
+// ✅ NEW: Import Unpaid Order Expiry Service
+const unpaidOrderService = require('./services/unpaidOrderService');
 
 // ✅ FIXED: Import seed function with proper path
 const { seed } = require('./seed');
@@ -36,7 +98,11 @@ const app = express();
 // ============================================================================
 
 // ✅ Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // ✅ Keep the raw body - payment webhooks are signed over the exact bytes
+  verify: (req, res, buf) => { req.rawBody = buf; }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // ✅ ENHANCED CORS configuration
@@ -80,21 +146,14 @@ app.use((req, res, next) => {
 // ============================================================================
 
 // ✅ NEW: Initialize and validate coupon system
-function initializeCouponSystem() {
+async function initializeCouponSystem() {
   try {
-    // ✅ UPDATED: Check if coupons.json exists in backend directory
-    const couponsPath = path.join(__dirname, 'coupons.json');
-    if (!fs.existsSync(couponsPath)) {
-      console.warn('⚠️ coupons.json not found, creating empty coupons file');
-      fs.writeFileSync(couponsPath, JSON.stringify({ coupons: [] }, null, 2));
-    }
+    // ✅ UPDATED: coupons.json only seeds an empty store - the database is authoritative
+    await couponService.importFromFile(path.join(__dirname, 'coupons.json'));
 
-    // Test coupon rule engine
-    const coupons = CouponRuleEngine.getAllCoupons();
-    console.log(`🎟️ Coupon system initialized: ${coupons.length} coupons loaded`);
-    
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
-    console.log(`✅ Active coupons: ${activeCoupons.length}`);
+    const stats = await couponService.getStats();
+    console.log(`🎟️ Coupon system initialized: ${stats.total} coupons in store`);
+    console.log(`✅ Active coupons: ${stats.active}`);
 
     return true;
   } catch (error) {
@@ -127,7 +186,7 @@ app.get("/", (req, res) => {
 });
 
 // ✅ API status route
-app.get("/api/status", (req, res) => {
+app.get("/api/status", async (req, res) => {
   const couponStats = {
     total: 0,
     active: 0,
@@ -135,13 +194,11 @@ app.get("/api/status", (req, res) => {
   };
 
   try {
-    const allCoupons = CouponRuleEngine.getAllCoupons();
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
-    const expiredCoupons = CouponRuleEngine.getExpiredCoupons();
+    const stats = await couponService.getStats();
     
-    couponStats.total = allCoupons.length;
-    couponStats.active = activeCoupons.length;
-    couponStats.expired = expiredCoupons.length;
+    couponStats.total = stats.total;
+    couponStats.active = stats.active;
+    couponStats.expired = stats.expired;
   } catch (error) {
     console.error('Error getting coupon stats:', error);
   }
@@ -162,26 +219,17 @@ app.get("/api/status", (req, res) => {
 });
 
 // ✅ NEW: Coupon system status route
-app.get("/api/coupons/system-status", (req, res) => {
+app.get("/api/coupons/system-status", async (req, res) => {
   try {
-    const allCoupons = CouponRuleEngine.getAllCoupons();
-    const activeCoupons = CouponRuleEngine.getActiveCoupons();
-    const expiredCoupons = CouponRuleEngine.getExpiredCoupons();
-
-    // Get coupon types breakdown
-    const typeBreakdown = {};
-    allCoupons.forEach(coupon => {
-      const type = coupon.discountType || 'unknown';
-      typeBreakdown[type] = (typeBreakdown[type] || 0) + 1;
-    });
+    const { total, active, expired, typeBreakdown } = await couponService.getStats();
 
     res.status(200).json({
       success: true,
       message: "Coupon system status",
       statistics: {
-        total: allCoupons.length,
-        active: activeCoupons.length,
-        expired: expiredCoupons.length,
+        total,
+        active,
+        expired,
         typeBreakdown,
         systemHealth: "Operational"
       },
@@ -190,6 +238,7 @@ app.get("/api/coupons/system-status", (req, res) => {
         ruleEngine: true,
         dynamicValidation: true,
         usageTracking: true,
+        perUserLimits: true,
         multipleDiscountTypes: true
       }
     });
@@ -218,6 +267,48 @@ app.use("/api/address", AddressRoutes);
 app.use('/api/recommendations', recommendationRoutes);
 app.use('/api/browsing-history', browsingHistoryRoutes);
 
+// ✅ NEW: Add review and rating routes
+app.use("/api/reviews", ReviewRoutes);
+
+// ✅ NEW: Add payment intent routes
+app.use("/api/payments", PaymentRoutes);
+
+// ✅ NEW: Add admin order management routes (admin role required)
+app.use("/api/admin/orders", AdminOrderRoutes);
+
+// ✅ NEW: Add admin coupon management routes (admin role required)
+app.use("/api/admin/coupons", AdminCouponRoutes);
+
+// ✅ NEW: Add admin product catalog routes (admin role required)
+app.use("/api/admin/products", AdminProductRoutes);
+
+// ✅ NEW: Add admin home screen content routes (admin role required)
+app.use("/api/admin/home-sections", AdminHomeRoutes);
+
+// ✅ NEW: Add admin flash sale routes (admin role required)
+app.use("/api/admin/sales", AdminSaleRoutes);
+
+// ✅ NEW: Add admin automatic promotion routes (admin role required)
+app.use("/api/admin/promotions", AdminPromotionRoutes);
+
+// ✅ NEW: Add in-app notification routes
+app.use("/api/notifications", NotificationRoutes);
+
+// ✅ NEW: Add back-in-stock subscription routes
+app.use("/api/stock-alerts", StockAlertRoutes);
+
+// ✅ NEW: Add brand pages, brand catalog and brand follow routes
+app.use("/api/brand", BrandRoutes);
+
+// ✅ NEW: Add saved search routes
+app.use("/api/saved-searches", SavedSearchRoutes);
+
+// ✅ NEW: Add CMS-driven home screen routes
+app.use("/api/home", HomeRoutes);
+
+// ✅ NEW: Add flash sale routes
+app.use("/api/sales", SaleRoutes);
+
 // ✅ Legacy routes (without /api prefix) for backward compatibility
 app.use("/user", userrouter);
 app.use("/category", categoryrouter);
@@ -245,25 +336,48 @@ app.use((req, res) => {
       auth: [
         "POST /api/user/signup",
         "POST /api/user/login",
+        "POST /api/user/refresh-token",
+        "POST /api/user/logout",
         "GET /api/user/profile/:id"
       ],
       products: [
         "GET /api/product",
         "GET /api/product/:id",
+        "GET /api/product/:id/price-history",
+        "GET /api/product/search/:query",
+        "GET /api/product/suggest?q=",
         "GET /api/category",
-        "GET /api/category/:id"
+        "GET /api/category/tree",
+        "GET /api/category/:id",
+        "GET /api/category/:id/path"
+      ],
+      brands: [
+        "GET /api/brand",
+        "GET /api/brand/following",
+        "GET /api/brand/following/products",
+        "GET /api/brand/:brandId",
+        "GET /api/brand/:brandId/products",
+        "POST /api/brand/:brandId/follow",
+        "DELETE /api/brand/:brandId/follow"
       ],
       shopping: [
         "GET /api/bag/:userid",
         "POST /api/bag/add",
         "DELETE /api/bag/remove",
         "GET /api/wishlist/:userid",
+        "PATCH /api/wishlist/:itemid",
         "POST /api/wishlist/add",
         "DELETE /api/wishlist/remove"
       ],
       orders: [
         "GET /api/order/user/:userid",
+        "GET /api/order/events (text/event-stream)",
         "POST /api/order/create",
+        "POST /api/order/reserve/:userId",
+        "DELETE /api/order/reserve/:userId",
+        "POST /api/order/:orderid/return",
+        "GET /api/order/:orderid/returns",
+        "PATCH /api/order/:orderid/return/:returnId/status",
         "GET /api/order/:id"
       ],
       addresses: [
@@ -294,6 +408,86 @@ app.use((req, res) => {
         "GET /api/browsing-history/product/:productId/analytics",
         "DELETE /api/browsing-history/user/:userId/clear",
         "GET /api/browsing-history/popular-products"
+      ],
+      reviews: [
+        "POST /api/reviews",
+        "GET /api/reviews/product/:productId",
+        "GET /api/reviews/product/:productId/breakdown",
+        "PATCH /api/reviews/:reviewId/helpful",
+        "DELETE /api/reviews/:reviewId"
+      ],
+      payments: [
+        "POST /api/payments/intents",
+        "GET /api/payments/intents/:intentId",
+        "POST /api/payments/intents/:intentId/confirm",
+        "POST /api/payments/webhook/:provider"
+      ],
+      notifications: [
+        "GET /api/notifications",
+        "PATCH /api/notifications/:notificationId/read",
+        "PATCH /api/notifications/read-all"
+      ],
+      stockAlerts: [
+        "GET /api/stock-alerts",
+        "POST /api/stock-alerts",
+        "DELETE /api/stock-alerts/:subscriptionId"
+      ],
+      home: [
+        "GET /api/home"
+      ],
+      sales: [
+        "GET /api/sales",
+        "GET /api/sales/:saleId"
+      ],
+      savedSearches: [
+        "GET /api/saved-searches",
+        "POST /api/saved-searches",
+        "PATCH /api/saved-searches/:savedSearchId",
+        "DELETE /api/saved-searches/:savedSearchId",
+        "POST /api/saved-searches/:savedSearchId/viewed",
+        "GET /api/saved-searches/:savedSearchId/new-products"
+      ],
+      admin: [
+        "GET /api/admin/orders",
+        "GET /api/admin/orders/options",
+        "GET /api/admin/orders/:orderid",
+        "PATCH /api/admin/orders/:orderid/status",
+        "PATCH /api/admin/orders/:orderid/carrier",
+        "PATCH /api/admin/orders/:orderid/tracking",
+        "PATCH /api/admin/orders/bulk/status",
+        "GET /api/admin/coupons",
+        "GET /api/admin/coupons/options",
+        "POST /api/admin/coupons",
+        "GET /api/admin/coupons/:couponId",
+        "PATCH /api/admin/coupons/:couponId",
+        "DELETE /api/admin/coupons/:couponId",
+        "GET /api/admin/coupons/:couponId/usage",
+        "GET /api/admin/products",
+        "POST /api/admin/products",
+        "POST /api/admin/products/import",
+        "GET /api/admin/products/export",
+        "GET /api/admin/products/:productId",
+        "PATCH /api/admin/products/:productId",
+        "DELETE /api/admin/products/:productId",
+        "GET /api/admin/home-sections",
+        "GET /api/admin/home-sections/options",
+        "GET /api/admin/home-sections/preview",
+        "POST /api/admin/home-sections",
+        "GET /api/admin/home-sections/:sectionId",
+        "PATCH /api/admin/home-sections/:sectionId",
+        "DELETE /api/admin/home-sections/:sectionId",
+        "GET /api/admin/sales",
+        "GET /api/admin/sales/options",
+        "POST /api/admin/sales",
+        "GET /api/admin/sales/:saleId",
+        "PATCH /api/admin/sales/:saleId",
+        "DELETE /api/admin/sales/:saleId",
+        "GET /api/admin/promotions",
+        "GET /api/admin/promotions/options",
+        "POST /api/admin/promotions",
+        "GET /api/admin/promotions/:promotionId",
+        "PATCH /api/admin/promotions/:promotionId",
+        "DELETE /api/admin/promotions/:promotionId"
       ]
     },
     documentation: "Contact your API administrator for detailed documentation"
@@ -391,7 +585,7 @@ mongoose.connect(process.env.MONGO_URI, {
   
   // ✅ NEW: Initialize coupon system
   console.log("🎟️ Initializing coupon system...");
-  const couponSystemReady = initializeCouponSystem();
+  const couponSystemReady = await initializeCouponSystem();
   if (couponSystemReady) {
     console.log("🎟️ Coupon system initialized successfully ✅");
   } else {
@@ -411,6 +605,32 @@ mongoose.connect(process.env.MONGO_URI, {
     console.error("❌ Database seeding failed:", seedError.message);
     // Don't exit process, continue without seeding
   }
+
+  // ✅ NEW: homeSections.json only seeds an empty store - the database is authoritative
+  try {
+    await homeService.importFromFile();
+  } catch (homeError) {
+    console.error("❌ Home section import failed:", homeError.message);
+  }
+
+  // ✅ NEW: Scheduled wishlist price-drop checks
+  priceAlertService.start();
+
+  // ✅ NEW: Sweep for restocks the model hooks didn't see
+  stockAlertService.start();
+
+  // ✅ NEW: Open/close selling-price windows
+  pricingService.start();
+
+  // ✅ NEW: Daily/weekly new-arrival digests for saved searches
+  savedSearchService.start();
+
+  // ✅ NEW: Put live flash sales on (re-seeded) products now, then start/end them on the minute
+  saleService.syncSales().catch(error => console.error("❌ Flash sale sync failed:", error.message));
+  saleService.start();
+
+  // ✅ NEW: Cancel online orders left unpaid, giving back their stock, coupon and sale units
+  unpaidOrderService.start();
   
   // Start the server
   app.listen(PORT, () => {
@@ -431,7 +651,11 @@ mongoose.connect(process.env.MONGO_URI, {
     console.log("   • API Status: GET /api/status");
     console.log("   • Coupon Status: GET /api/coupons/system-status");
     console.log("   • Products: GET /api/product");
+    console.log("   • Search Suggestions: GET /api/product/suggest?q=");
+    console.log("   • Price History: GET /api/product/:id/price-history");
     console.log("   • Categories: GET /api/category");
+    console.log("   • Category Tree: GET /api/category/tree");
+    console.log("   • Brands: GET /api/brand");
     console.log("   • User Auth: POST /api/user/login");
     console.log("   • Shopping Bag: GET /api/bag/:userId");
     console.log("   • Wishlist: GET /api/wishlist/:userId");
@@ -443,6 +667,20 @@ mongoose.connect(process.env.MONGO_URI, {
     console.log("   • Address Management: GET /api/address/user/:userId");
     console.log("   • Create Address: POST /api/address");
     console.log("   • Set Default Address: PATCH /api/address/:addressId/default");
+    console.log("   • Product Reviews: GET /api/reviews/product/:productId");
+    console.log("   • Payment Intents: POST /api/payments/intents");
+    console.log("   • Live Order Updates: GET /api/order/events");
+    console.log("   • Notifications: GET /api/notifications");
+    console.log("   • Back-in-Stock Alerts: POST /api/stock-alerts");
+    console.log("   • Saved Searches: GET /api/saved-searches");
+    console.log("   • Home Screen: GET /api/home");
+    console.log("   • Flash Sales: GET /api/sales");
+    console.log("   • Admin Orders: GET /api/admin/orders");
+    console.log("   • Admin Coupons: GET /api/admin/coupons");
+    console.log("   • Admin Products: GET /api/admin/products");
+    console.log("   • Admin Home Sections: GET /api/admin/home-sections");
+    console.log("   • Admin Flash Sales: GET /api/admin/sales");
+    console.log("   • Admin Promotions: GET /api/admin/promotions");
     console.log("=".repeat(60));
     console.log("✅ Server startup completed successfully!");
     console.log("=".repeat(60) + "\n");
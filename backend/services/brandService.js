@@ -0,0 +1,206 @@
+const mongoose = require('mongoose');
+const Brand = require('../models/Brand');
+const BrandFollow = require('../models/BrandFollow');
+const Product = require('../models/Product');
+const searchService = require('./searchService');
+const productQueryService = require('./productQueryService');
+
+// ============================================================================
+// BRANDS - BRAND PAGES, FACETED BRAND CATALOG, FOLLOWS AND THE FOLLOWED-BRANDS FEED
+// ============================================================================
+
+const LIST_SORTS = ['name', 'followers', 'products'];
+const PRODUCT_SORTS = ['popularity', 'price_asc', 'price_desc', 'rating', 'newest'];
+const FEED_LIMIT = 20;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const brandKey = (name) => (name || '').toString().trim().toLowerCase();
+
+class BrandService {
+
+  constructor() {
+    this.listSorts = LIST_SORTS;
+    this.productSorts = PRODUCT_SORTS;
+  }
+
+  // ✅ Brands are addressed by id, slug or name ("H&M" and "h-and-m" both resolve)
+  async resolve(idOrSlug) {
+    if (mongoose.Types.ObjectId.isValid(idOrSlug)) {
+      const brand = await Brand.findById(idOrSlug);
+      if (brand) return brand;
+    }
+    return Brand.findOne({ slug: Brand.slugify(idOrSlug) });
+  }
+
+  // Product.brand is free text - match the brand name case-insensitively
+  productQuery(brands) {
+    const list = Array.isArray(brands) ? brands : [brands];
+    return {
+      brand: { $in: list.map(brand => new RegExp(`^${escapeRegex(brand.name.trim())}$`, 'i')) }
+    };
+  }
+
+  // ✅ Creates a bare brand for a product brand name that has no page yet
+  async ensureBrand(name) {
+    if (!name || !name.trim()) return null;
+    const slug = Brand.slugify(name);
+    if (!slug) return null;
+
+    return Brand.findOneAndUpdate(
+      { slug },
+      { $setOnInsert: { name: name.trim(), slug } },
+      { upsert: true, new: true }
+    );
+  }
+
+  async getProductCounts() {
+    const counts = await Product.aggregate([
+      { $match: { brand: { $type: 'string' } } },
+      { $group: { _id: { $toLower: { $trim: { input: '$brand' } } }, count: { $sum: 1 } } }
+    ]);
+    return new Map(counts.map(entry => [entry._id, entry.count]));
+  }
+
+  // ✅ Brand directory with product counts; search matches the name, country is exact
+  async list({ search, country, sortBy = 'name', page = 1, limit = 20 } = {}) {
+    const query = {};
+    if (search && search.trim()) query.name = { $regex: escapeRegex(search.trim()), $options: 'i' };
+    if (country && country.trim()) query.country = { $regex: `^${escapeRegex(country.trim())}$`, $options: 'i' };
+
+    const [brands, productCounts] = await Promise.all([
+      Brand.find(query).lean(),
+      this.getProductCounts()
+    ]);
+
+    const withCounts = brands.map(brand => ({
+      ...brand,
+      productCount: productCounts.get(brandKey(brand.name)) || 0
+    }));
+
+    const sorters = {
+      name: (a, b) => a.name.localeCompare(b.name),
+      followers: (a, b) => b.followerCount - a.followerCount || a.name.localeCompare(b.name),
+      products: (a, b) => b.productCount - a.productCount || a.name.localeCompare(b.name)
+    };
+    withCounts.sort(sorters[sortBy] || sorters.name);
+
+    return {
+      brands: withCounts.slice((page - 1) * limit, page * limit),
+      total: withCounts.length
+    };
+  }
+
+  // ✅ Brand page header: counts, price range and the categories the brand sells in
+  async getDetail(brand) {
+    const products = await Product.find(this.productQuery(brand))
+      .select('price category')
+      .populate({ path: 'category', select: 'name slug' })
+      .lean();
+
+    const prices = products.map(product => product.price).filter(price => typeof price === 'number');
+    const categoryById = new Map(products
+      .filter(product => product.category)
+      .map(product => [product.category._id.toString(), product.category]));
+    const categories = searchService.countBy(products, product =>
+      product.category ? [product.category._id.toString()] : []
+    ).map(({ value, count }) => ({ ...categoryById.get(value), count }));
+
+    return {
+      ...brand.toObject(),
+      productCount: products.length,
+      priceRange: {
+        min: prices.length ? Math.min(...prices) : 0,
+        max: prices.length ? Math.max(...prices) : 0
+      },
+      categories
+    };
+  }
+
+  // ✅ Paginated brand catalog with disjunctive facets (same filters as search, plus categoryId)
+  // ✅ UPDATED: cursor pagination on the active sort (page still works)
+  async getProducts(brand, { page = 1, limit = 20, sortBy = 'popularity', categoryId, cursor, ...filters } = {}) {
+    const query = this.productQuery(brand);
+    if (categoryId && mongoose.Types.ObjectId.isValid(categoryId)) {
+      query.categoryPath = new mongoose.Types.ObjectId(categoryId);
+    }
+
+    const products = await Product.find(query)
+      .populate({ path: 'category', select: 'name' })
+      .lean();
+
+    // Every product is this brand's, so a brand filter doesn't apply
+    const predicates = searchService.buildFilters({ ...filters, brand: undefined, brands: undefined });
+    const matched = searchService.applyPredicates(products, predicates);
+    const facets = searchService.buildFacets(products, predicates);
+
+    const sortKey = PRODUCT_SORTS.includes(sortBy) ? sortBy : 'popularity';
+    const sorted = searchService.sortResults(
+      matched.map(product => ({ ...product, categoryName: product.category?.name || '', relevanceScore: 0 })),
+      sortKey
+    );
+    const { items, hasNextPage, nextCursor } = productQueryService.paginate(
+      sorted, searchService.sortKeys(sortKey), { cursor, page, limit }
+    );
+
+    return {
+      products: items,
+      total: matched.length,
+      facets,
+      hasNextPage,
+      nextCursor
+    };
+  }
+
+  async isFollowing(userId, brandId) {
+    return !!(await BrandFollow.exists({ userId, brandId }));
+  }
+
+  // ✅ Following twice is a no-op; followerCount only moves when a follow is created/removed
+  async follow(userId, brand) {
+    try {
+      const follow = await BrandFollow.create({ userId, brandId: brand._id });
+      await Brand.updateOne({ _id: brand._id }, { $inc: { followerCount: 1 } });
+      return { follow, created: true };
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      const follow = await BrandFollow.findOne({ userId, brandId: brand._id });
+      return { follow, created: false };
+    }
+  }
+
+  async unfollow(userId, brand) {
+    const follow = await BrandFollow.findOneAndDelete({ userId, brandId: brand._id });
+    if (follow) {
+      await Brand.updateOne({ _id: brand._id, followerCount: { $gt: 0 } }, { $inc: { followerCount: -1 } });
+    }
+    return follow;
+  }
+
+  // Most recently followed first; follows of deleted brands are skipped
+  async listFollowed(userId) {
+    const follows = await BrandFollow.find({ userId })
+      .sort({ createdAt: -1 })
+      .populate('brandId')
+      .lean();
+
+    return follows
+      .filter(follow => follow.brandId)
+      .map(follow => ({ ...follow.brandId, followedAt: follow.createdAt }));
+  }
+
+  // ✅ Newest products across every followed brand (home tab section)
+  async getFollowedProducts(userId, { limit = FEED_LIMIT } = {}) {
+    const brands = await this.listFollowed(userId);
+    if (brands.length === 0) return { brands: [], products: [] };
+
+    const products = await Product.find(this.productQuery(brands))
+      .sort({ createdAt: -1, _id: 1 })
+      .limit(limit)
+      .lean();
+
+    return { brands, products };
+  }
+}
+
+module.exports = new BrandService();
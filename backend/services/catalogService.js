@@ -0,0 +1,426 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const Bag = require('../models/Bag');
+const Wishlist = require('../models/Wishlist');
+const brandService = require('./brandService');
+
+// ============================================================================
+// CATALOG - ADMIN PRODUCT WRITES, CATEGORY SYNC, BULK CSV/JSON IMPORT AND EXPORT
+// ============================================================================
+
+const MAX_IMPORT_ROWS = 1000;
+const LIST_SEPARATOR = '|';
+
+// Import/export columns - an export can be edited and imported back as-is.
+// `stock` is the exported total (read-only); per-SKU stock goes in `skus` as "size/color:stock|...".
+const CSV_COLUMNS = [
+  '_id', 'name', 'brand', 'mrp', 'sellingPrice', 'effectiveFrom', 'effectiveTo', 'description',
+  'category', 'subcategory', 'sizes', 'colors', 'images', 'skus', 'stock'
+];
+
+const AMBIGUOUS = Symbol('ambiguous category');
+
+const catalogError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const isBlank = (value) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value) => {
+  if (Array.isArray(value)) return value.map(entry => String(entry).trim()).filter(Boolean);
+  return String(value).split(LIST_SEPARATOR).map(entry => entry.trim()).filter(Boolean);
+};
+
+// "S/Red:10|M:5" or [{ size, color, stock }]
+const parseSkus = (value, errors) => {
+  const entries = Array.isArray(value)
+    ? value
+    : toList(value).map(entry => {
+      const [variant, stock] = entry.split(':');
+      const [size = '', color = ''] = (variant || '').split('/');
+      return { size, color, stock };
+    });
+
+  return entries.map(entry => {
+    const stock = Number(entry.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.push(`Invalid stock "${entry.stock}" for SKU ${entry.size || '-'}/${entry.color || '-'}`);
+    }
+    return { size: String(entry.size || '').trim(), color: String(entry.color || '').trim(), stock };
+  });
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+// ✅ RFC 4180 - quoted fields may contain commas, quotes ("") and newlines
+const parseCsv = (text) => {
+  const records = [];
+  let record = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter(row => row.some(value => value.trim() !== ''));
+  const columns = header.map(column => column.trim()); // trim() also drops a leading BOM
+
+  return rows.map(row => columns.reduce((object, column, index) => {
+    if (column) object[column] = (row[index] ?? '').replace(ESCAPED_FORMULA, '$1');
+    return object;
+  }, {}));
+};
+
+// ✅ Text starting with = + - @ (or tab/CR) would run as a formula in Excel/Sheets - a leading '
+// keeps it text. Our own import strips it again, so exported files round-trip.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'([=+\-@\t\r])/;
+
+const csvValue = (value) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class CatalogService {
+
+  constructor() {
+    this.maxImportRows = MAX_IMPORT_ROWS;
+    this.csvColumns = CSV_COLUMNS;
+  }
+
+  parseCsv(text) {
+    return parseCsv(text);
+  }
+
+  // ✅ category id, slug or name (case-insensitive) → category. A name shared by several
+  // categories (e.g. "Activewear" under Men and Women) maps to AMBIGUOUS.
+  async loadCategoryLookup() {
+    const categories = await Category.find().select('name slug').lean();
+    const lookup = new Map();
+    categories.forEach(category => {
+      const name = category.name.trim().toLowerCase();
+      lookup.set(name, lookup.has(name) ? AMBIGUOUS : category);
+    });
+    categories.forEach(category => {
+      if (category.slug) lookup.set(category.slug, category);
+      lookup.set(category._id.toString(), category);
+    });
+    return lookup;
+  }
+
+  // ✅ API/CSV/JSON input → Product fields plus row-level errors. `partial` skips required checks (updates).
+  normalizeInput(input, categoryLookup, { partial = false } = {}) {
+    const errors = [];
+    const fields = {};
+
+    const text = (key, { required = false, max = 500 } = {}) => {
+      if (isBlank(input[key])) {
+        if (required && !partial) errors.push(`${key} is required`);
+        return;
+      }
+      const value = String(input[key]).trim();
+      if (value.length > max) errors.push(`${key} must be at most ${max} characters`);
+      fields[key] = value;
+    };
+
+    text('name', { required: true, max: 200 });
+    text('brand', { required: true, max: 100 });
+    text('description', { max: 5000 });
+    text('subcategory', { max: 100 });
+
+    // Pricing - nested `pricing` or flat mrp/sellingPrice columns; a lone `price` means no discount
+    const pricingInput = { ...(input.pricing || {}) };
+    ['mrp', 'sellingPrice', 'effectiveFrom', 'effectiveTo'].forEach(key => {
+      if (input[key] !== undefined) pricingInput[key] = input[key];
+    });
+    if (isBlank(pricingInput.sellingPrice) && !isBlank(input.price)) pricingInput.sellingPrice = input.price;
+    if (isBlank(pricingInput.mrp) && !isBlank(pricingInput.sellingPrice) && !partial) pricingInput.mrp = pricingInput.sellingPrice;
+
+    const pricing = {};
+    ['mrp', 'sellingPrice'].forEach(key => {
+      if (isBlank(pricingInput[key])) return;
+      const amount = Number(pricingInput[key]);
+      if (!Number.isFinite(amount) || amount < 0) errors.push(`${key} must be a non-negative number`);
+      else pricing[key] = amount;
+    });
+    ['effectiveFrom', 'effectiveTo'].forEach(key => {
+      if (pricingInput[key] === undefined) return;
+      if (isBlank(pricingInput[key])) {
+        pricing[key] = null;
+        return;
+      }
+      const date = new Date(pricingInput[key]);
+      if (Number.isNaN(date.getTime())) errors.push(`${key} must be a valid date`);
+      else pricing[key] = date;
+    });
+    if (!partial && (pricing.mrp === undefined || pricing.sellingPrice === undefined)) {
+      if (!errors.some(error => error.startsWith('mrp') || error.startsWith('sellingPrice'))) {
+        errors.push('mrp and sellingPrice (or price) are required');
+      }
+    }
+    if (Object.keys(pricing).length > 0) fields.pricing = pricing;
+
+    ['sizes', 'colors', 'images'].forEach(key => {
+      if (input[key] !== undefined) fields[key] = isBlank(input[key]) ? [] : toList(input[key]);
+    });
+
+    if (!isBlank(input.category)) {
+      const category = categoryLookup.get(String(input.category).trim().toLowerCase()) ||
+        categoryLookup.get(String(input.category).trim());
+      if (category === AMBIGUOUS) errors.push(`Category "${input.category}" is ambiguous - use its slug or id`);
+      else if (category) fields.category = category._id;
+      else errors.push(`Unknown category "${input.category}"`);
+    } else if (input.category !== undefined && partial) {
+      fields.category = null;
+    }
+
+    if (!isBlank(input.skus)) {
+      fields.skus = parseSkus(input.skus, errors);
+    } else if (!isBlank(input.stockPerSku) && !partial) {
+      const stockPerSku = Number(input.stockPerSku);
+      if (!Number.isInteger(stockPerSku) || stockPerSku < 0) errors.push('stockPerSku must be a non-negative integer');
+      else fields.skus = Product.buildSkus(fields.sizes || [], fields.colors || [], stockPerSku);
+    }
+
+    return { fields, errors };
+  }
+
+  // ✅ Keep Category.productId in step with Product.category
+  async syncCategory(productId, previousCategoryId, nextCategoryId) {
+    const previous = previousCategoryId ? previousCategoryId.toString() : null;
+    const next = nextCategoryId ? nextCategoryId.toString() : null;
+    if (previous === next) return;
+
+    if (previous) await Category.updateOne({ _id: previous }, { $pull: { productId } });
+    if (next) await Category.updateOne({ _id: next }, { $addToSet: { productId } });
+  }
+
+  // Applies fields to a new or existing product; pricing is merged so a partial update keeps the rest
+  applyFields(product, fields) {
+    const { pricing, ...rest } = fields;
+    product.set(rest);
+    if (pricing) {
+      const current = product.pricing ? product.pricing.toObject() : {};
+      product.pricing = { ...current, ...pricing };
+    }
+    return product;
+  }
+
+  async createProduct(fields) {
+    const product = this.applyFields(new Product(), fields);
+    await product.save();
+    await this.syncCategory(product._id, null, product.category);
+    await brandService.ensureBrand(product.brand); // new brand names get a (bare) brand page
+    return product;
+  }
+
+  async updateProduct(product, fields) {
+    const previousCategory = product.category;
+    this.applyFields(product, fields);
+    await product.save();
+    await this.syncCategory(product._id, previousCategory, product.category);
+    if (fields.brand !== undefined) await brandService.ensureBrand(product.brand);
+    return product;
+  }
+
+  // ✅ Also drops the product from bags and wishlists; orders keep their own snapshots
+  async deleteProduct(product) {
+    await product.deleteOne();
+    await Promise.all([
+      this.syncCategory(product._id, product.category, null),
+      Bag.deleteMany({ productId: product._id }),
+      Wishlist.deleteMany({ productId: product._id })
+    ]);
+  }
+
+  // ✅ Row-by-row import. Invalid rows are reported and skipped; with dryRun nothing is written.
+  // Rows with an _id update that product, the rest create new products.
+  async importProducts(rows, { dryRun = false } = {}) {
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw catalogError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`, 'TOO_MANY_ROWS');
+    }
+
+    const categoryLookup = await this.loadCategoryLookup();
+    const ids = rows.map(row => row._id).filter(id => !isBlank(id) && mongoose.Types.ObjectId.isValid(String(id).trim()));
+    const existing = await Product.find({ _id: { $in: ids } });
+    const existingById = new Map(existing.map(product => [product._id.toString(), product]));
+    const seenIds = new Set();
+
+    const results = [];
+    for (const [index, row] of rows.entries()) {
+      const id = isBlank(row._id) ? null : String(row._id).trim();
+      const action = id ? 'update' : 'create';
+      const result = { row: index + 1, action, productId: id, name: row.name || null, status: 'ok', errors: [] };
+      results.push(result);
+
+      if (id && !mongoose.Types.ObjectId.isValid(id)) {
+        result.errors.push(`Invalid product ID "${id}"`);
+      } else if (id && !existingById.has(id)) {
+        result.errors.push(`Product ${id} not found`);
+      } else if (id && seenIds.has(id)) {
+        result.errors.push(`Product ${id} appears more than once`);
+      }
+      if (id) seenIds.add(id);
+
+      const { fields, errors } = this.normalizeInput(row, categoryLookup, { partial: action === 'update' });
+      result.errors.push(...errors);
+
+      if (result.errors.length === 0) {
+        const product = action === 'update'
+          ? this.applyFields(Product.hydrate(existingById.get(id).toObject()), fields)
+          : this.applyFields(new Product(), fields);
+        try {
+          await product.validate();
+        } catch (error) {
+          result.errors.push(...(error.errors ? Object.values(error.errors).map(err => err.message) : [error.message]));
+        }
+      }
+
+      if (result.errors.length > 0) {
+        result.status = 'error';
+        continue;
+      }
+      if (dryRun) continue;
+
+      try {
+        const saved = action === 'update'
+          ? await this.updateProduct(existingById.get(id), fields)
+          : await this.createProduct(fields);
+        result.productId = saved._id.toString();
+        result.name = saved.name;
+      } catch (error) {
+        result.status = 'error';
+        result.errors.push(error.message);
+      }
+    }
+
+    const failed = results.filter(result => result.status === 'error');
+    const succeeded = results.filter(result => result.status === 'ok');
+
+    return {
+      dryRun,
+      summary: {
+        total: results.length,
+        valid: succeeded.length,
+        invalid: failed.length,
+        created: dryRun ? 0 : succeeded.filter(result => result.action === 'create').length,
+        updated: dryRun ? 0 : succeeded.filter(result => result.action === 'update').length
+      },
+      rows: results
+    };
+  }
+
+  // ✅ Admin catalog filters shared by the list and export endpoints
+  buildQuery({ category, brand, search, inStock, priceMin, priceMax } = {}) {
+    const query = {};
+    if (category) {
+      if (!mongoose.Types.ObjectId.isValid(category)) throw catalogError('Invalid category ID format', 'INVALID_FILTER');
+      query.categoryPath = category; // the category and its subcategories
+    }
+    if (brand) query.brand = { $in: (Array.isArray(brand) ? brand : brand.split(',')).map(entry => entry.trim()) };
+    if (search && search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: searchRegex }, { brand: searchRegex }, { subcategory: searchRegex }];
+    }
+    if (inStock === 'true') query.stock = { $gt: 0 };
+    else if (inStock === 'false') query.stock = { $lte: 0 };
+    if (priceMin || priceMax) {
+      query.price = {};
+      if (priceMin) query.price.$gte = parseFloat(priceMin);
+      if (priceMax) query.price.$lte = parseFloat(priceMax);
+    }
+    return query;
+  }
+
+  // ✅ Products in the import shape (category by slug, pricing nested)
+  async exportProducts(query) {
+    const products = await Product.find(query)
+      .sort({ createdAt: 1, _id: 1 })
+      .populate({ path: 'category', select: 'name slug' })
+      .lean();
+
+    return products.map(product => ({
+      _id: product._id.toString(),
+      name: product.name,
+      brand: product.brand,
+      pricing: product.pricing
+        ? {
+          mrp: product.pricing.mrp,
+          sellingPrice: product.pricing.sellingPrice,
+          effectiveFrom: product.pricing.effectiveFrom,
+          effectiveTo: product.pricing.effectiveTo
+        }
+        : { mrp: product.price, sellingPrice: product.price, effectiveFrom: null, effectiveTo: null },
+      description: product.description || '',
+      category: product.category?.slug || product.category?.name || '',
+      subcategory: product.subcategory || '',
+      sizes: product.sizes || [],
+      colors: product.colors || [],
+      images: product.images || [],
+      skus: (product.skus || []).map(({ size, color, stock }) => ({ size, color, stock })),
+      stock: product.stock ?? null
+    }));
+  }
+
+  toCsv(products) {
+    const toDate = (date) => (date ? new Date(date).toISOString() : '');
+    const lines = products.map(product => [
+      product._id,
+      product.name,
+      product.brand,
+      product.pricing.mrp,
+      product.pricing.sellingPrice,
+      toDate(product.pricing.effectiveFrom),
+      toDate(product.pricing.effectiveTo),
+      product.description,
+      product.category,
+      product.subcategory,
+      product.sizes.join(LIST_SEPARATOR),
+      product.colors.join(LIST_SEPARATOR),
+      product.images.join(LIST_SEPARATOR),
+      product.skus.map(sku => `${sku.size}${sku.color ? `/${sku.color}` : ''}:${sku.stock}`).join(LIST_SEPARATOR),
+      product.stock
+    ].map(csvValue).join(','));
+
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+  }
+}
+
+module.exports = new CatalogService();
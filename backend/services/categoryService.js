@@ -0,0 +1,241 @@
+const mongoose = require('mongoose');
+const Category = require('../models/Category');
+const Product = require('../models/Product');
+
+// ============================================================================
+// CATEGORY TAXONOMY - PARENT/CHILD TREE, SLUGS, BREADCRUMB PATHS
+// ============================================================================
+
+const TREE_FIELDS = '_id name slug image order parent ancestors';
+
+const categoryError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const bySiblingOrder = (a, b) => (a.order || 0) - (b.order || 0) || (a.name || '').localeCompare(b.name || '');
+
+class CategoryService {
+
+  // ✅ Categories are addressed by id or slug
+  async resolve(idOrSlug, select = null) {
+    const query = mongoose.Types.ObjectId.isValid(idOrSlug)
+      ? Category.findById(idOrSlug)
+      : Category.findOne({ slug: String(idOrSlug).trim().toLowerCase() });
+    return select ? query.select(select) : query;
+  }
+
+  // ✅ Root-to-category trail for breadcrumbs: [{ _id, name, slug }]
+  async getPath(category) {
+    if (!category) return [];
+    const ancestorIds = category.ancestors || [];
+    const ancestors = ancestorIds.length > 0
+      ? await Category.find({ _id: { $in: ancestorIds } }).select('name slug').lean()
+      : [];
+    const byId = new Map(ancestors.map(ancestor => [ancestor._id.toString(), ancestor]));
+
+    return [
+      ...ancestorIds.map(id => byId.get(id.toString())).filter(Boolean),
+      category
+    ].map(({ _id, name, slug }) => ({ _id, name, slug }));
+  }
+
+  // ✅ Nested tree with product counts (a node counts every product below it).
+  // `rootId` limits the result to that category's subtree.
+  async getTree({ rootId = null } = {}) {
+    const [categories, counts] = await Promise.all([
+      Category.find().select(TREE_FIELDS).lean(),
+      Product.aggregate([
+        { $unwind: '$categoryPath' },
+        { $group: { _id: '$categoryPath', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const countById = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+    const nodes = new Map(categories.map(category => [category._id.toString(), {
+      _id: category._id,
+      name: category.name,
+      slug: category.slug,
+      image: category.image || null,
+      order: category.order || 0,
+      parent: category.parent || null,
+      level: (category.ancestors || []).length,
+      productCount: countById.get(category._id.toString()) || 0,
+      children: []
+    }]));
+
+    const roots = [];
+    nodes.forEach(node => {
+      const parent = node.parent && nodes.get(node.parent.toString());
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    });
+    nodes.forEach(node => node.children.sort(bySiblingOrder));
+    roots.sort(bySiblingOrder);
+
+    if (!rootId) return roots;
+    const root = nodes.get(rootId.toString());
+    return root ? [root] : [];
+  }
+
+  async getChildren(categoryId) {
+    return Category.find({ parent: categoryId })
+      .select('name slug image order')
+      .sort({ order: 1, name: 1 })
+      .lean();
+  }
+
+  async assertUniqueAmongSiblings(name, parentId, excludeId = null) {
+    const existing = await Category.findOne({
+      name: { $regex: new RegExp(`^${escapeRegex(name)}$`, 'i') },
+      parent: parentId || null,
+      ...(excludeId ? { _id: { $ne: excludeId } } : {})
+    }).select('_id').lean();
+
+    if (existing) throw categoryError('A category with this name already exists here', 'DUPLICATE_NAME');
+  }
+
+  async assertSlugAvailable(slug, excludeId = null) {
+    const existing = await Category.findOne({ slug, ...(excludeId ? { _id: { $ne: excludeId } } : {}) }).select('_id').lean();
+    if (existing) throw categoryError(`Slug "${slug}" is already in use`, 'DUPLICATE_SLUG');
+  }
+
+  async loadParent(parentId) {
+    if (!parentId) return null;
+    const parent = mongoose.Types.ObjectId.isValid(parentId) ? await Category.findById(parentId) : null;
+    if (!parent) throw categoryError('Parent category not found', 'PARENT_NOT_FOUND');
+    return parent;
+  }
+
+  // Child slugs are prefixed with the parent's so "Activewear" can live under both Men and Women
+  buildSlug(name, parent, slug) {
+    const base = Category.slugify(slug || name);
+    if (slug || !parent) return base;
+    return `${parent.slug}-${base}`;
+  }
+
+  async createCategory({ name, parent: parentId = null, slug, image = '', order = 0 }) {
+    const parent = await this.loadParent(parentId);
+    await this.assertUniqueAmongSiblings(name, parent?._id);
+
+    const categorySlug = this.buildSlug(name, parent, slug);
+    if (!categorySlug) throw categoryError('Slug cannot be empty', 'INVALID_SLUG');
+    await this.assertSlugAvailable(categorySlug);
+
+    const category = await Category.create({
+      name,
+      slug: categorySlug,
+      parent: parent?._id || null,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+      order,
+      image
+    });
+
+    if (parent) await Category.updateOne({ _id: parent._id }, { $addToSet: { subcategory: name } });
+    return category;
+  }
+
+  // ✅ name/slug/image/order/parent. Moving a category re-roots its whole subtree and the
+  // categoryPath of every product in it.
+  async updateCategory(category, updates) {
+    const previousName = category.name;
+    const previousParentId = category.parent ? category.parent.toString() : null;
+    const parentChanged = updates.parent !== undefined && (updates.parent || null) !== previousParentId;
+
+    let parent = null;
+    if (parentChanged) {
+      parent = await this.loadParent(updates.parent);
+      if (parent && (parent._id.equals(category._id) || parent.ancestors.some(id => id.equals(category._id)))) {
+        throw categoryError('A category cannot be moved under itself or its own subcategory', 'INVALID_PARENT');
+      }
+    } else if (category.parent) {
+      parent = await Category.findById(category.parent).select('slug ancestors');
+    }
+
+    const name = updates.name !== undefined ? updates.name : category.name;
+    if (updates.name !== undefined || parentChanged) {
+      await this.assertUniqueAmongSiblings(name, parent?._id, category._id);
+    }
+
+    if (updates.slug !== undefined) {
+      const slug = Category.slugify(updates.slug);
+      if (!slug) throw categoryError('Slug cannot be empty', 'INVALID_SLUG');
+      await this.assertSlugAvailable(slug, category._id);
+      category.slug = slug;
+    }
+
+    ['name', 'image', 'order'].forEach(key => {
+      if (updates[key] !== undefined) category[key] = updates[key];
+    });
+
+    if (parentChanged) {
+      category.parent = parent?._id || null;
+      category.ancestors = parent ? [...parent.ancestors, parent._id] : [];
+    }
+
+    await category.save();
+
+    if (parentChanged) {
+      await this.rebuildSubtree(category);
+      if (previousParentId) await Category.updateOne({ _id: previousParentId }, { $pull: { subcategory: previousName } });
+      if (parent) await Category.updateOne({ _id: parent._id }, { $addToSet: { subcategory: category.name } });
+    } else if (parent && category.name !== previousName) {
+      await Category.updateOne({ _id: parent._id }, { $pull: { subcategory: previousName } });
+      await Category.updateOne({ _id: parent._id }, { $addToSet: { subcategory: category.name } });
+    }
+
+    return category;
+  }
+
+  // Rewrites ancestors below a moved category, then the categoryPath of the products in the subtree
+  async rebuildSubtree(category) {
+    const descendants = await Category.find({ ancestors: category._id }).select('ancestors').lean();
+    const prefix = [...category.ancestors, category._id];
+
+    const rewritten = descendants.map(descendant => {
+      const index = descendant.ancestors.findIndex(id => id.equals(category._id));
+      return { _id: descendant._id, ancestors: [...prefix, ...descendant.ancestors.slice(index + 1)] };
+    });
+
+    if (rewritten.length > 0) {
+      await Category.bulkWrite(rewritten.map(({ _id, ancestors }) => ({
+        updateOne: { filter: { _id }, update: { $set: { ancestors } } }
+      })));
+    }
+
+    const nodes = [{ _id: category._id, ancestors: category.ancestors }, ...rewritten];
+    await Product.bulkWrite(nodes.map(({ _id, ancestors }) => ({
+      updateMany: { filter: { category: _id }, update: { $set: { categoryPath: [...ancestors, _id] } } }
+    })));
+  }
+
+  // Only empty leaves can be deleted - move or delete children and products first
+  async deleteCategory(category) {
+    const [childCount, productCount] = await Promise.all([
+      Category.countDocuments({ parent: category._id }),
+      Product.countDocuments({ categoryPath: category._id })
+    ]);
+
+    if (childCount > 0) {
+      throw Object.assign(
+        categoryError(`Cannot delete category. It has ${childCount} subcategories. Please move or delete them first.`, 'HAS_CHILDREN'),
+        { childCount }
+      );
+    }
+    if (productCount > 0) {
+      throw Object.assign(
+        categoryError(`Cannot delete category. It has ${productCount} products. Please move or delete products first.`, 'HAS_PRODUCTS'),
+        { productCount }
+      );
+    }
+
+    await Category.deleteOne({ _id: category._id });
+    if (category.parent) await Category.updateOne({ _id: category.parent }, { $pull: { subcategory: category.name } });
+    return category;
+  }
+}
+
+module.exports = new CategoryService();
@@ -0,0 +1,311 @@
+const fs = require('fs');
+const path = require('path');
+const mongoose = require('mongoose');
+const Coupon = require('../models/Coupon');
+const CouponUsage = require('../models/CouponUsage');
+const Order = require('../models/Order');
+const Bag = require('../models/Bag');
+const CouponRuleEngine = require('../couponRules');
+
+// ============================================================================
+// COUPONS - STORE ACCESS, PER-USER STATE, ATOMIC REDEMPTION AND RELEASE
+// ============================================================================
+
+const SEED_FILE = path.join(__dirname, '..', 'coupons.json');
+
+const couponError = (message, code = 'COUPON_NOT_APPLICABLE') => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const toSlug = (value) => (value || '').toString().trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const topLevelCategoryName = (product) => product.categoryPath?.[0]?.name || product.category?.name || null;
+
+// Drop null/undefined keys so optional rule shapes stay unset instead of failing validation
+const compact = (object = {}) => Object.fromEntries(
+  Object.entries(object).filter(([, value]) => value !== null && value !== undefined)
+);
+
+class CouponService {
+
+  // ✅ One-time import of the legacy coupons.json into the store (skipped once coupons exist)
+  async importFromFile(filePath = SEED_FILE) {
+    const existing = await Coupon.estimatedDocumentCount();
+    if (existing > 0) return { imported: 0, skipped: true, total: existing };
+
+    if (!fs.existsSync(filePath)) {
+      console.warn('⚠️ No coupon seed file found at', filePath);
+      return { imported: 0, skipped: true, total: 0 };
+    }
+
+    const { coupons = [] } = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+    // Keep the coupons that pass the store's rule validation; report the rest
+    const valid = coupons.map(legacy => new Coupon(this.fromLegacyJson(legacy))).filter(coupon => {
+      const error = coupon.validateSync();
+      if (error) console.error(`❌ Skipping coupon ${coupon.code}:`, error.message);
+      return !error;
+    });
+
+    const result = await Coupon.insertMany(valid);
+
+    console.log(`🎟️ Imported ${result.length} of ${coupons.length} coupons from ${path.basename(filePath)}`);
+    return { imported: result.length, skipped: false, total: result.length };
+  }
+
+  // The JSON's `usageLimit: 1` always meant "once per customer", not "one customer ever"
+  fromLegacyJson(legacy) {
+    const oncePerUser = legacy.usageLimit === 1;
+    const conditions = legacy.conditions || {};
+
+    return {
+      code: legacy.name || legacy.id,
+      description: legacy.description,
+      discount: legacy.discount,
+      discountType: legacy.discountType,
+      threshold: legacy.threshold || 0,
+      maxDiscount: legacy.maxDiscount ?? null,
+      validFrom: legacy.validFrom,
+      validUpto: legacy.validUpto,
+      paymentMethods: legacy.paymentMethods || [],
+      categories: legacy.categories || [],
+      usageLimit: oncePerUser ? null : (legacy.usageLimit ?? null),
+      perUserLimit: oncePerUser ? 1 : null,
+      used: legacy.used || 0,
+      isActive: legacy.isActive !== false,
+      priority: legacy.priority || 3,
+      stackable: !!legacy.stackable,
+      autoApply: !!legacy.autoApply,
+      conditions: {
+        ...compact(conditions),
+        cartValue: conditions.cartValue || {},
+        itemCount: conditions.itemCount || {},
+        userType: conditions.userType || null
+      }
+    };
+  }
+
+  getActiveCoupons() {
+    return Coupon.find(Coupon.activeQuery()).sort({ priority: 1, discount: -1 }).lean();
+  }
+
+  getExpiredCoupons() {
+    return Coupon.find({
+      $or: [{ isActive: false }, { validUpto: { $lt: new Date() } }]
+    }).sort({ validUpto: -1 }).lean();
+  }
+
+  findByCode(code) {
+    if (!code) return null;
+    return Coupon.findOne({ code: code.toString().trim().toUpperCase() }).lean();
+  }
+
+  async getStats() {
+    const now = new Date();
+    const [total, active, expired, byType] = await Promise.all([
+      Coupon.countDocuments(),
+      Coupon.countDocuments(Coupon.activeQuery(now)),
+      Coupon.countDocuments({ $or: [{ isActive: false }, { validUpto: { $lt: now } }] }),
+      Coupon.aggregate([{ $group: { _id: '$discountType', count: { $sum: 1 } } }])
+    ]);
+
+    return {
+      total,
+      active,
+      expired,
+      typeBreakdown: byType.reduce((acc, { _id, count }) => {
+        acc[_id || 'unknown'] = count;
+        return acc;
+      }, {})
+    };
+  }
+
+  // ✅ Bag items with what the coupon rules look at (price, top-level category name, subcategory)
+  findCartItems(userId) {
+    return Bag.find({ userId, savedForLater: false }).populate({
+      path: 'productId',
+      select: 'price category categoryPath subcategory',
+      populate: [{ path: 'category', select: 'name' }, { path: 'categoryPath', select: 'name' }]
+    });
+  }
+
+  // ✅ Cart shape the rule engine expects. bagItems need productId populated with
+  // price, subcategory and category/categoryPath (name); items of deleted products are skipped.
+  // Coupon categories name top-level categories, so `category` is the root of the product's path.
+  buildCartState(bagItems) {
+    const validItems = bagItems.filter(item => item.productId && item.productId.price != null);
+
+    return {
+      total: validItems.reduce((sum, item) => sum + (item.productId.price * item.quantity), 0),
+      items: validItems.map(item => ({
+        id: item.productId._id,
+        price: item.productId.price,
+        quantity: item.quantity,
+        category: topLevelCategoryName(item.productId)
+          ? toSlug(topLevelCategoryName(item.productId))
+          : null,
+        subcategory: item.productId.subcategory ? toSlug(item.productId.subcategory) : null
+      }))
+    };
+  }
+
+  // ✅ Order history and coupon usage that decide userType/perUserLimit rules
+  async getUserState(userId, { paymentMethod = null, platform = null } = {}) {
+    const userObjectId = new mongoose.Types.ObjectId(userId.toString());
+
+    const [orderStats, usages] = await Promise.all([
+      Order.aggregate([
+        { $match: { userId: userObjectId, status: { $ne: 'Cancelled' } } },
+        { $group: { _id: null, count: { $sum: 1 }, lastOrderDate: { $max: '$orderDate' } } }
+      ]),
+      CouponUsage.find({ userId: userObjectId, count: { $gt: 0 } }).select('code count').lean()
+    ]);
+
+    const orderCount = orderStats[0]?.count || 0;
+
+    return {
+      orderCount,
+      lastOrderDate: orderStats[0]?.lastOrderDate || null,
+      userTypes: orderCount === 0 ? ['new', 'first_purchase'] : ['repeat', 'returning'],
+      couponUsage: usages.reduce((acc, usage) => {
+        acc[usage.code] = usage.count;
+        return acc;
+      }, {}),
+      paymentMethod: paymentMethod ? this.toCouponPaymentMethod(paymentMethod) : null,
+      platform
+    };
+  }
+
+  // Orders say 'Credit Card'/'Debit Card'; coupon rules just say 'Card'
+  toCouponPaymentMethod(method) {
+    return /card$/i.test(method) ? 'Card' : method;
+  }
+
+  // ✅ Validate a code for this user and cart → { coupon, userState, validation }
+  async evaluate(code, userId, cartState, options = {}) {
+    const coupon = await this.findByCode(code);
+    if (!coupon) return { coupon: null, userState: null, validation: null };
+
+    const userState = await this.getUserState(userId, options);
+    const validation = CouponRuleEngine.validateCoupon(coupon, cartState, userState);
+    return { coupon, userState, validation };
+  }
+
+  // ✅ Validate against the live bag and remember the code on it. Usage is only counted
+  // when the order is placed, so applying/removing never touches the counters.
+  async applyToBag(userId, couponCode) {
+    const bagItems = await this.findCartItems(userId);
+    if (bagItems.length === 0) throw couponError('Your bag is empty.', 'BAG_EMPTY');
+
+    const cartState = this.buildCartState(bagItems);
+    if (cartState.total === 0) throw couponError('Cart has no valid items with prices.');
+
+    const { coupon, validation } = await this.evaluate(couponCode, userId, cartState);
+    if (!coupon) throw couponError('Invalid coupon code');
+    if (!validation.isValid) {
+      const error = couponError(validation.reasons[0]);
+      error.reasons = validation.reasons;
+      throw error;
+    }
+
+    await Bag.updateMany(
+      { userId, savedForLater: false },
+      { $set: { appliedCoupon: coupon.code, discountAmount: validation.discountAmount } }
+    );
+
+    return { coupon, cartTotal: cartState.total, discountAmount: validation.discountAmount };
+  }
+
+  clearFromBag(userId) {
+    return Bag.updateMany(
+      { userId, savedForLater: false },
+      { $unset: { appliedCoupon: "", discountAmount: "" } }
+    );
+  }
+
+  // ✅ Count one redemption for an order. The per-user slot and the global counter are both
+  // claimed with conditional updates, so concurrent checkouts can't push either past its limit.
+  async redeem(coupon, userId, orderId, discountAmount, session = null) {
+    const usageFilter = { couponId: coupon._id, userId };
+    if (coupon.perUserLimit) usageFilter.count = { $lt: coupon.perUserLimit };
+
+    let usage;
+    try {
+      usage = await CouponUsage.findOneAndUpdate(
+        usageFilter,
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { code: coupon.code },
+          $push: { redemptions: { orderId, discountAmount } }
+        },
+        { upsert: true, new: true, session }
+      );
+    } catch (error) {
+      // The user's usage document exists but is already at the limit, so the upsert collides
+      if (error.code === 11000) {
+        throw couponError(CouponRuleEngine.getUserRestriction(coupon, {
+          couponUsage: { [coupon.code]: coupon.perUserLimit }
+        }), 'COUPON_LIMIT_REACHED');
+      }
+      throw error;
+    }
+
+    const claimed = await Coupon.findOneAndUpdate(
+      { _id: coupon._id, ...Coupon.activeQuery() },
+      { $inc: { used: 1 } },
+      { new: true, session }
+    );
+
+    if (!claimed) {
+      await CouponUsage.updateOne(
+        { _id: usage._id },
+        { $inc: { count: -1 }, $pull: { redemptions: { orderId } } },
+        { session }
+      );
+      throw couponError(`Coupon ${coupon.code} is no longer available`, 'COUPON_LIMIT_REACHED');
+    }
+
+    console.log(`🎟️ Coupon ${coupon.code} redeemed for order ${orderId}`);
+    return claimed;
+  }
+
+  // ✅ Give a cancelled order's coupons back to the user and the global pool (idempotent)
+  async releaseOrderCoupons(order) {
+    for (const { code } of order.coupons || []) {
+      const usage = await CouponUsage.findOneAndUpdate(
+        {
+          userId: order.userId,
+          code,
+          redemptions: { $elemMatch: { orderId: order.orderId, status: 'redeemed' } }
+        },
+        {
+          $inc: { count: -1 },
+          $set: { 'redemptions.$.status': 'released', 'redemptions.$.releasedAt': new Date() }
+        }
+      );
+
+      if (usage) {
+        await Coupon.updateOne({ _id: usage.couponId, used: { $gt: 0 } }, { $inc: { used: -1 } });
+        console.log(`🎟️ Coupon ${code} released from order ${order.orderId}`);
+      }
+    }
+  }
+
+  async getUsageHistory(couponId, { page = 1, limit = 20 } = {}) {
+    const skip = (page - 1) * limit;
+    const [usages, total] = await Promise.all([
+      CouponUsage.find({ couponId })
+        .populate({ path: 'userId', select: 'fullName email' })
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      CouponUsage.countDocuments({ couponId })
+    ]);
+    return { usages, total };
+  }
+}
+
+module.exports = new CouponService();
@@ -1,105 +1,122 @@
-const nodemailer = require('nodemailer');
-
-// Create transporter
-const createTransporter = () => {
-  return nodemailer.createTransporter({
-    host: process.env.EMAIL_HOST,
-    port: process.env.EMAIL_PORT,
-    secure: false, // true for 465, false for other ports
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS,
-    },
-  });
+const User = require('../models/User');
+const emailTemplates = require('./emailTemplates');
+const outboxTransport = require('./emailTransports/outboxTransport');
+const smtpTransport = require('./emailTransports/smtpTransport');
+
+// ============================================================================
+// EMAIL SERVICE - TEMPLATED TRANSACTIONAL EMAILS OVER A PLUGGABLE TRANSPORT
+// ============================================================================
+
+// Order status → template. Statuses without an entry don't email the customer.
+const ORDER_STATUS_TEMPLATES = {
+  'Pending': 'orderPlaced',
+  'Shipped': 'orderShipped',
+  'Out for Delivery': 'orderOutForDelivery',
+  'Delivered': 'orderDelivered',
+  'Cancelled': 'orderCancelled'
 };
 
-// Send password reset email
-const sendPasswordResetEmail = async (email, resetToken) => {
-  try {
-    const transporter = createTransporter();
-    
-    const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${resetToken}`;
-    
-    const mailOptions = {
-      from: {
-        name: 'Myntra Clone',
-        address: process.env.EMAIL_FROM,
-      },
-      to: email,
-      subject: 'Password Reset Request - Myntra Clone',
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            .container { max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; }
-            .header { background-color: #ff3f6c; padding: 20px; text-align: center; }
-            .header h1 { color: white; margin: 0; }
-            .content { padding: 30px; background-color: #f9f9f9; }
-            .button { 
-              display: inline-block; 
-              padding: 12px 30px; 
-              background-color: #ff3f6c; 
-              color: white; 
-              text-decoration: none; 
-              border-radius: 5px; 
-              font-weight: bold;
-            }
-            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>Myntra Clone</h1>
-            </div>
-            <div class="content">
-              <h2>Password Reset Request</h2>
-              <p>Hello,</p>
-              <p>We received a request to reset your password. Click the button below to reset it:</p>
-              <p style="text-align: center; margin: 30px 0;">
-                <a href="${resetUrl}" class="button">Reset Password</a>
-              </p>
-              <p>Or copy and paste this link in your browser:</p>
-              <p style="word-break: break-all; color: #666;">${resetUrl}</p>
-              <p><strong>This link will expire in 10 minutes.</strong></p>
-              <p>If you didn't request this password reset, please ignore this email.</p>
-              <p>Thanks,<br>The Myntra Clone Team</p>
-            </div>
-            <div class="footer">
-              <p>This is an automated email. Please do not reply to this email.</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-      text: `
-        Password Reset Request
-        
-        Hello,
-        
-        We received a request to reset your password. Click the link below to reset it:
-        ${resetUrl}
-        
-        This link will expire in 10 minutes.
-        
-        If you didn't request this password reset, please ignore this email.
-        
-        Thanks,
-        The Myntra Clone Team
-      `,
+class EmailService {
+
+  constructor() {
+    this.transports = new Map();
+    this.registerTransport(outboxTransport);
+    this.registerTransport(smtpTransport);
+  }
+
+  registerTransport(transport) {
+    this.transports.set(transport.name, transport);
+  }
+
+  // ✅ EMAIL_TRANSPORT picks explicitly; otherwise SMTP in production (when configured), outbox everywhere else
+  getTransport() {
+    const name = process.env.EMAIL_TRANSPORT
+      || (process.env.NODE_ENV === 'production' && smtpTransport.isConfigured() ? 'smtp' : 'outbox');
+
+    const transport = this.transports.get(name);
+    if (!transport) throw new Error(`Unknown email transport "${name}"`);
+    return transport;
+  }
+
+  getFrom() {
+    return {
+      name: 'Myntra Clone',
+      address: process.env.EMAIL_FROM || 'no-reply@myntra-clone.local'
     };
+  }
 
-    const result = await transporter.sendMail(mailOptions);
-    console.log('Password reset email sent:', result.messageId);
-    return result;
+  render(template, data) {
+    return emailTemplates.render(template, data);
+  }
 
-  } catch (error) {
-    console.error('Email sending error:', error);
-    throw new Error('Failed to send password reset email');
+  // ✅ Render and deliver one email - throws if rendering or delivery fails
+  async send(template, to, data = {}) {
+    if (!to) throw new Error(`No recipient for "${template}" email`);
+
+    const { subject, html, text } = this.render(template, data);
+    const from = this.getFrom();
+
+    return this.getTransport().send({
+      from: `"${from.name}" <${from.address}>`,
+      to,
+      subject,
+      html,
+      text,
+      template
+    });
   }
-};
 
-module.exports = {
-  sendPasswordResetEmail,
-};
+  // ✅ Fire-and-forget variant for request handlers: an email problem never fails the request
+  notify(template, to, data = {}) {
+    return this.send(template, to, data).catch(error => {
+      console.error(`❌ Failed to send "${template}" email to ${to}:`, error.message);
+      return null;
+    });
+  }
+
+  // Orders only keep the userId; populated orders already carry the customer
+  async getCustomer(order) {
+    if (order.userId && order.userId.email) return order.userId;
+    return User.findById(order.userId).select('fullName email').lean();
+  }
+
+  // ✅ Email the customer about an order status change (no-op for internal statuses)
+  async notifyOrderStatus(order, status = order.status, extra = {}) {
+    const template = ORDER_STATUS_TEMPLATES[status];
+    if (!template) return null;
+
+    try {
+      const customer = await this.getCustomer(order);
+      if (!customer) return null;
+      return this.notify(template, customer.email, { name: customer.fullName, order, ...extra });
+    } catch (error) {
+      console.error(`❌ Failed to send order ${status} email for ${order.orderId}:`, error.message);
+      return null;
+    }
+  }
+
+  async notifyRefund(order, amount, reason = '') {
+    if (!(amount > 0)) return null;
+
+    try {
+      const customer = await this.getCustomer(order);
+      if (!customer) return null;
+      return this.notify('refundIssued', customer.email, { name: customer.fullName, order, amount, reason });
+    } catch (error) {
+      console.error(`❌ Failed to send refund email for ${order.orderId}:`, error.message);
+      return null;
+    }
+  }
+
+  sendWelcomeEmail(user) {
+    return this.notify('welcome', user.email, { name: user.fullName });
+  }
+
+  // Awaited (and throws) so forgot-password can log a reset link that never went out
+  sendPasswordResetEmail(email, resetToken, name = '') {
+    const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:8081'}/reset-password?token=${resetToken}`;
+    return this.send('passwordReset', email, { name, resetUrl, expiresInMinutes: 10 });
+  }
+}
+
+module.exports = new EmailService();
@@ -0,0 +1,289 @@
+// ============================================================================
+// EMAIL TEMPLATES - SUBJECT, HTML AND PLAIN-TEXT BODIES FOR TRANSACTIONAL EMAILS
+// ============================================================================
+
+// A template takes the data passed to emailService.send and returns
+//   { subject, heading, paragraphs: string[], action?: { label, url }, details?: [label, value][], footnote? }
+// Strings are plain text - the layout escapes them for the HTML part.
+
+const BRAND = 'Myntra Clone';
+
+const frontendUrl = (pathname) => `${process.env.FRONTEND_URL || 'http://localhost:8081'}${pathname}`;
+
+const formatCurrency = (amount) => `₹${Math.round(amount || 0).toLocaleString('en-IN')}`;
+
+const formatDate = (date) => date
+  ? new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+  : '';
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const greeting = (name) => `Hello${name ? ` ${name}` : ''},`;
+
+const itemLines = (order) => (order.items || []).map(item => {
+  const name = item.productSnapshot?.name || item.productId?.name || 'Item';
+  const variant = [item.size && `Size ${item.size}`, item.color].filter(Boolean).join(', ');
+  return [`${name}${variant ? ` (${variant})` : ''} × ${item.quantity}`, formatCurrency(item.price * item.quantity)];
+});
+
+const trackingAction = (order) => order.tracking?.number
+  ? { label: 'Track Order', url: frontendUrl(`/tracking/${order.tracking.number}`) }
+  : { label: 'View Orders', url: frontendUrl('/orders') };
+
+const templates = {
+  welcome: ({ name }) => ({
+    subject: `Welcome to ${BRAND}!`,
+    heading: 'Welcome aboard',
+    paragraphs: [
+      greeting(name),
+      `Thanks for signing up. Your account is ready - start exploring the latest styles and save your favourites to your wishlist.`,
+      'Use code WELCOME50 on your first order.'
+    ],
+    action: { label: 'Start Shopping', url: frontendUrl('/') }
+  }),
+
+  passwordReset: ({ name, resetUrl, expiresInMinutes = 10 }) => ({
+    subject: `Password Reset Request - ${BRAND}`,
+    heading: 'Password Reset Request',
+    paragraphs: [
+      greeting(name),
+      'We received a request to reset your password. Use the button below to choose a new one.',
+      `This link will expire in ${expiresInMinutes} minutes.`,
+      `If you didn't request this password reset, please ignore this email.`
+    ],
+    action: { label: 'Reset Password', url: resetUrl }
+  }),
+
+  orderPlaced: ({ name, order }) => ({
+    subject: `Order ${order.orderId} placed`,
+    heading: 'Thanks for your order!',
+    paragraphs: [
+      greeting(name),
+      order.payment?.method !== 'COD' && order.payment?.status === 'Pending'
+        ? `We've received order ${order.orderId}. It will be confirmed as soon as your payment goes through.`
+        : `We've received order ${order.orderId} and will let you know when it ships.`
+    ],
+    details: [
+      ...itemLines(order),
+      ['Total', formatCurrency(order.pricing?.total)],
+      ['Payment', order.payment?.method],
+      ['Expected delivery', formatDate(order.expectedDeliveryDate || order.tracking?.estimatedDelivery)]
+    ],
+    action: trackingAction(order)
+  }),
+
+  orderShipped: ({ name, order }) => ({
+    subject: `Order ${order.orderId} has shipped`,
+    heading: 'Your order is on its way',
+    paragraphs: [
+      greeting(name),
+      `Order ${order.orderId} has been handed over to ${order.tracking?.carrier || 'our delivery partner'}.`
+    ],
+    details: [
+      ['Carrier', order.tracking?.carrier],
+      ['Tracking number', order.tracking?.number],
+      ['Expected delivery', formatDate(order.tracking?.estimatedDelivery || order.expectedDeliveryDate)]
+    ],
+    action: trackingAction(order)
+  }),
+
+  orderOutForDelivery: ({ name, order }) => ({
+    subject: `Order ${order.orderId} is out for delivery`,
+    heading: 'Arriving today',
+    paragraphs: [
+      greeting(name),
+      `Order ${order.orderId} is out for delivery and should reach you today.`,
+      order.payment?.method === 'COD'
+        ? `Please keep ${formatCurrency(order.pricing?.total)} ready for cash on delivery.`
+        : 'No payment is due on delivery.'
+    ],
+    action: trackingAction(order)
+  }),
+
+  orderDelivered: ({ name, order }) => ({
+    subject: `Order ${order.orderId} delivered`,
+    heading: 'Delivered!',
+    paragraphs: [
+      greeting(name),
+      `Order ${order.orderId} was delivered on ${formatDate(order.actualDeliveryDate || new Date())}. We hope you love it.`,
+      'Not the right fit? You can request a return or exchange within 30 days of delivery.'
+    ],
+    action: { label: 'View Order', url: frontendUrl('/orders') }
+  }),
+
+  orderCancelled: ({ name, order, reason, refundAmount = 0 }) => ({
+    subject: `Order ${order.orderId} cancelled`,
+    heading: 'Your order has been cancelled',
+    paragraphs: [
+      greeting(name),
+      `Order ${order.orderId} has been cancelled${reason ? ` (${reason})` : ''}.`,
+      refundAmount > 0
+        ? `A refund of ${formatCurrency(refundAmount)} has been initiated to your original payment method.`
+        : 'No payment was collected for this order, so no refund is due.'
+    ],
+    action: { label: 'View Orders', url: frontendUrl('/orders') }
+  }),
+
+  priceDrop: ({ name, items = [] }) => ({
+    subject: items.length === 1
+      ? `Price drop: ${items[0].name} is now ${formatCurrency(items[0].currentPrice)}`
+      : `Prices dropped on ${items.length} items in your wishlist`,
+    heading: 'Good news - prices dropped!',
+    paragraphs: [
+      greeting(name),
+      `${items.length === 1 ? 'An item' : 'Some items'} in your wishlist just got cheaper.`
+    ],
+    details: items.map(item => [
+      `${item.brand ? `${item.brand} ` : ''}${item.name}`,
+      `${formatCurrency(item.currentPrice)} (was ${formatCurrency(item.previousPrice)}, ${formatCurrency(item.dropAmount)} off)`
+    ]),
+    action: { label: 'View Wishlist', url: frontendUrl('/wishlist') },
+    footnote: 'You are receiving this because price alerts are on for these wishlist items.'
+  }),
+
+  backInStock: ({ name, product, size, color }) => {
+    const variant = [size && `Size ${size}`, color].filter(Boolean).join(', ');
+    return {
+      subject: `Back in stock: ${product.name}${variant ? ` (${variant})` : ''}`,
+      heading: 'It\'s back in stock!',
+      paragraphs: [
+        greeting(name),
+        `${product.brand ? `${product.brand} ` : ''}${product.name}${variant ? ` in ${variant}` : ''} is available again. Stock is limited, so grab it before it sells out.`
+      ],
+      details: [
+        ['Product', product.name],
+        ...(variant ? [['Variant', variant]] : []),
+        ['Price', formatCurrency(product.price)]
+      ],
+      action: {
+        label: 'Buy Now',
+        url: frontendUrl(`/product/${product._id}${size ? `?size=${encodeURIComponent(size)}` : ''}`)
+      },
+      footnote: 'You are receiving this because you asked to be notified when this item was restocked.'
+    };
+  },
+
+  savedSearchDigest: ({ name, searches = [] }) => {
+    const totalNew = searches.reduce((sum, search) => sum + search.newCount, 0);
+    return {
+      subject: searches.length === 1
+        ? `${totalNew} new arrival${totalNew === 1 ? '' : 's'} for "${searches[0].name}"`
+        : `${totalNew} new arrivals across your saved searches`,
+      heading: 'New arrivals for your saved searches',
+      paragraphs: [
+        greeting(name),
+        `We found ${totalNew} new product${totalNew === 1 ? '' : 's'} matching ${searches.length === 1 ? 'a search' : 'searches'} you saved.`
+      ],
+      details: searches.flatMap(search => [
+        [search.name, `${search.newCount} new`],
+        ...search.products.map(product => [
+          `${product.brand ? `${product.brand} ` : ''}${product.name}`,
+          formatCurrency(product.price)
+        ])
+      ]),
+      action: { label: 'Start Shopping', url: frontendUrl('/') },
+      footnote: 'You are receiving this because digests are on for these saved searches. Turn them off from the search screen.'
+    };
+  },
+
+  refundIssued: ({ name, order, amount, reason }) => ({
+    subject: `Refund of ${formatCurrency(amount)} issued for order ${order.orderId}`,
+    heading: 'Refund issued',
+    paragraphs: [
+      greeting(name),
+      `We've issued a refund of ${formatCurrency(amount)} for order ${order.orderId}${reason ? ` (${reason})` : ''}.`,
+      order.payment?.method === 'COD'
+        ? 'The amount will be credited to your account within 5-7 business days.'
+        : 'It will appear on your original payment method within 5-7 business days.'
+    ],
+    details: [
+      ['Refund amount', formatCurrency(amount)],
+      ['Total refunded', formatCurrency(order.payment?.refundAmount || amount)]
+    ],
+    action: { label: 'View Orders', url: frontendUrl('/orders') }
+  })
+};
+
+// ✅ Shared layout - same look as the original password reset email
+const renderHtml = ({ subject, heading, paragraphs, action, details, footnote }) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(subject)}</title>
+  <style>
+    .container { max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; }
+    .header { background-color: #ff3f6c; padding: 20px; text-align: center; }
+    .header h1 { color: white; margin: 0; }
+    .content { padding: 30px; background-color: #f9f9f9; }
+    .button {
+      display: inline-block;
+      padding: 12px 30px;
+      background-color: #ff3f6c;
+      color: white;
+      text-decoration: none;
+      border-radius: 5px;
+      font-weight: bold;
+    }
+    .details { width: 100%; border-collapse: collapse; margin: 20px 0; }
+    .details td { padding: 8px 0; border-bottom: 1px solid #eee; }
+    .details td:last-child { text-align: right; font-weight: bold; }
+    .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${BRAND}</h1>
+    </div>
+    <div class="content">
+      <h2>${escapeHtml(heading)}</h2>
+      ${paragraphs.filter(Boolean).map(text => `<p>${escapeHtml(text)}</p>`).join('\n      ')}
+      ${details && details.length ? `<table class="details">
+        ${details.filter(([, value]) => value).map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('\n        ')}
+      </table>` : ''}
+      ${action ? `<p style="text-align: center; margin: 30px 0;">
+        <a href="${escapeHtml(action.url)}" class="button">${escapeHtml(action.label)}</a>
+      </p>
+      <p>Or copy and paste this link in your browser:</p>
+      <p style="word-break: break-all; color: #666;">${escapeHtml(action.url)}</p>` : ''}
+      <p>Thanks,<br>The ${BRAND} Team</p>
+    </div>
+    <div class="footer">
+      <p>${escapeHtml(footnote || 'This is an automated email. Please do not reply to this email.')}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+
+const renderText = ({ heading, paragraphs, action, details }) => [
+  heading,
+  '',
+  ...paragraphs.filter(Boolean).flatMap(text => [text, '']),
+  ...(details && details.length ? [...details.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`), ''] : []),
+  ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+  'Thanks,',
+  `The ${BRAND} Team`
+].join('\n');
+
+const render = (name, data = {}) => {
+  const template = templates[name];
+  if (!template) throw new Error(`Unknown email template "${name}"`);
+
+  const content = template(data);
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content)
+  };
+};
+
+module.exports = {
+  render,
+  TEMPLATE_NAMES: Object.keys(templates)
+};
@@ -0,0 +1,42 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// ============================================================================
+// OUTBOX TRANSPORT - WRITES RENDERED EMAILS TO A LOCAL DIRECTORY (DEVELOPMENT)
+// ============================================================================
+
+// Each message becomes <id>.html (open it in a browser) plus <id>.json (headers + text part)
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '..', '..', 'outbox');
+
+const safeName = (value) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+class OutboxTransport {
+
+  constructor() {
+    this.name = 'outbox';
+    this.directory = process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR;
+  }
+
+  async send({ from, to, subject, html, text, template }) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const id = `${timestamp}-${safeName(template || 'email')}-${crypto.randomBytes(3).toString('hex')}`;
+    const messageId = `<${id}@outbox.local>`;
+
+    await Promise.all([
+      fs.promises.writeFile(path.join(this.directory, `${id}.html`), html, 'utf8'),
+      fs.promises.writeFile(
+        path.join(this.directory, `${id}.json`),
+        JSON.stringify({ messageId, from, to, subject, template, text, createdAt: new Date().toISOString() }, null, 2),
+        'utf8'
+      )
+    ]);
+
+    console.log(`📧 [outbox] "${subject}" → ${to} (${id}.html)`);
+    return { messageId, path: path.join(this.directory, `${id}.html`) };
+  }
+}
+
+module.exports = new OutboxTransport();
@@ -0,0 +1,41 @@
+const nodemailer = require('nodemailer');
+
+// ============================================================================
+// SMTP TRANSPORT - REAL DELIVERY THROUGH NODEMAILER (EMAIL_HOST / EMAIL_USER / ...)
+// ============================================================================
+
+class SmtpTransport {
+
+  constructor() {
+    this.name = 'smtp';
+    this.transporter = null; // created on first send so a missing config only fails when used
+  }
+
+  isConfigured() {
+    return !!process.env.EMAIL_HOST;
+  }
+
+  getTransporter() {
+    if (!this.transporter) {
+      const port = parseInt(process.env.EMAIL_PORT) || 587;
+      this.transporter = nodemailer.createTransport({
+        host: process.env.EMAIL_HOST,
+        port,
+        secure: port === 465, // true for 465, false for other ports
+        auth: process.env.EMAIL_USER ? {
+          user: process.env.EMAIL_USER,
+          pass: process.env.EMAIL_PASS,
+        } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  async send({ from, to, subject, html, text }) {
+    const result = await this.getTransporter().sendMail({ from, to, subject, html, text });
+    console.log(`📧 [smtp] "${subject}" → ${to} (${result.messageId})`);
+    return { messageId: result.messageId };
+  }
+}
+
+module.exports = new SmtpTransport();
@@ -0,0 +1,182 @@
+const fs = require('fs');
+const path = require('path');
+const mongoose = require('mongoose');
+const HomeSection = require('../models/HomeSection');
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const Order = require('../models/Order');
+const productQueryService = require('./productQueryService');
+const saleService = require('./saleService');
+
+// ============================================================================
+// HOME SCREEN - LIVE CMS SECTIONS FOR THE VIEWER, WITH THEIR CONTENT RESOLVED
+// ============================================================================
+
+const SEED_FILE = path.join(__dirname, '..', 'homeSections.json');
+const DEFAULT_CATEGORY_TILES = 8;
+const PRODUCT_CARD_FIELDS = 'name brand price pricing flashSale discount images rating ratingCount stock category subcategory createdAt';
+
+const homeError = (message, code = 'INVALID_SECTION') => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+// Listing query params are stored as strings, the way GET /api/product receives them
+const toQueryParams = (filters = {}) => Object.fromEntries(
+  Object.entries(filters)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => [key, Array.isArray(value) ? value.join(',') : String(value)])
+);
+
+class HomeService {
+
+  // ✅ One-time import of homeSections.json into an empty store - the database is authoritative
+  async importFromFile(filePath = SEED_FILE) {
+    const existing = await HomeSection.estimatedDocumentCount();
+    if (existing > 0) return { imported: 0, skipped: true, total: existing };
+
+    if (!fs.existsSync(filePath)) {
+      console.warn('⚠️ No home section seed file found at', filePath);
+      return { imported: 0, skipped: true, total: 0 };
+    }
+
+    const { sections = [] } = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+    // validate() rather than validateSync() - the per-type content checks are a pre('validate') hook
+    const checked = await Promise.all(sections.map(async data => {
+      const section = new HomeSection(data);
+      try {
+        await section.validate();
+        this.checkSource(section);
+        return section;
+      } catch (error) {
+        console.error(`❌ Skipping home section ${section.key}:`, error.message);
+        return null;
+      }
+    }));
+
+    const result = await HomeSection.insertMany(checked.filter(Boolean));
+
+    console.log(`🏠 Imported ${result.length} of ${sections.length} home sections from ${path.basename(filePath)}`);
+    return { imported: result.length, skipped: false, total: result.length };
+  }
+
+  // ✅ A collection's filters and sort must be ones the listing query accepts
+  checkSource(section) {
+    if (section.type !== 'product_collection' || !section.source) return;
+
+    try {
+      productQueryService.parseFilters(toQueryParams(section.source.filters));
+      productQueryService.buildSort(section.source.sortBy || 'popularity');
+    } catch (error) {
+      throw homeError(`Invalid product collection: ${error.message}`);
+    }
+  }
+
+  // new = no orders yet (guests included), returning = at least one - matches coupon userType
+  async getAudience(userId) {
+    if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return 'new';
+    const hasOrders = await Order.exists({ userId, status: { $ne: 'Cancelled' } });
+    return hasOrders ? 'returning' : 'new';
+  }
+
+  async resolveCategories(section) {
+    const ids = section.categoryIds || [];
+    if (!ids.length) {
+      return Category.find({ parent: null })
+        .select('name slug image order')
+        .sort({ order: 1, name: 1 })
+        .limit(DEFAULT_CATEGORY_TILES)
+        .lean();
+    }
+
+    const categories = await Category.find({ _id: { $in: ids } }).select('name slug image order').lean();
+    const byId = new Map(categories.map(category => [category._id.toString(), category]));
+    return ids.map(id => byId.get(id.toString())).filter(Boolean);
+  }
+
+  async resolveProducts(section, now) {
+    const { productIds = [], filters, sortBy = 'popularity', limit = 12 } = section.source || {};
+    let products;
+
+    if (productIds.length) {
+      // Hand-picked: keep the editor's order
+      const found = await Product.find({ _id: { $in: productIds } }).select(PRODUCT_CARD_FIELDS).lean();
+      const byId = new Map(found.map(product => [product._id.toString(), product]));
+      products = productIds.map(id => byId.get(id.toString())).filter(Boolean).slice(0, limit);
+    } else {
+      const match = productQueryService.buildMatch(productQueryService.parseFilters(toQueryParams(filters)), now);
+      products = await Product.find(match)
+        .select(PRODUCT_CARD_FIELDS)
+        .sort(productQueryService.buildSort(sortBy))
+        .limit(limit)
+        .lean();
+    }
+
+    return products.map(product => ({
+      ...product,
+      isNew: productQueryService.isNewArrival(product, now),
+      isBestseller: productQueryService.isBestseller(product)
+    }));
+  }
+
+  // Section → response shape; null drops a section that has nothing to show
+  async resolveSection(section, now) {
+    const base = {
+      _id: section._id,
+      key: section.key,
+      type: section.type,
+      title: section.title || null,
+      subtitle: section.subtitle || null,
+      icon: section.icon || null,
+      viewAllLink: section.viewAllLink || null
+    };
+
+    switch (section.type) {
+      case 'banner':
+      case 'carousel':
+        return { ...base, slides: section.slides || [] };
+      case 'category_tiles': {
+        const categories = await this.resolveCategories(section);
+        return categories.length ? { ...base, categories } : null;
+      }
+      case 'product_collection': {
+        const products = await this.resolveProducts(section, now);
+        return products.length ? { ...base, products } : null;
+      }
+      case 'flash_sale': {
+        const { live } = await saleService.getSales({ now });
+        return live.length ? { ...base, sales: live } : null;
+      }
+      default:
+        // recently_viewed / followed_brands - filled in by the app
+        return base;
+    }
+  }
+
+  /**
+   * The ordered, typed sections for the home screen. Only live sections for the viewer's
+   * audience are returned, and a section whose content fails to load is skipped rather than
+   * failing the whole screen.
+   */
+  async getSections({ userId = null, audience = null, now = new Date() } = {}) {
+    const viewerAudience = audience || await this.getAudience(userId);
+
+    const sections = await HomeSection.find({
+      ...HomeSection.liveQuery(now),
+      audience: { $in: ['all', viewerAudience] }
+    }).sort({ order: 1, _id: 1 }).lean();
+
+    const resolved = await Promise.all(sections.map(section =>
+      this.resolveSection(section, now).catch(error => {
+        console.error(`❌ Failed to resolve home section ${section.key}:`, error.message);
+        return null;
+      })
+    ));
+
+    return { sections: resolved.filter(Boolean), audience: viewerAudience };
+  }
+}
+
+module.exports = new HomeService();
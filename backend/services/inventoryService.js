@@ -0,0 +1,205 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const StockReservation = require('../models/StockReservation');
+
+// ============================================================================
+// INVENTORY - PER SIZE/COLOR STOCK, CHECKOUT RESERVATIONS, ORDER DECREMENTS
+// ============================================================================
+
+const RESERVATION_TTL_MS = 10 * 60 * 1000; // checkout holds last 10 minutes
+const LOW_STOCK_THRESHOLD = 5; // "Only N left" below this
+
+const getId = (product) => (product?._id || product).toString();
+
+class InventoryService {
+
+  constructor() {
+    this.reservationTtlMs = RESERVATION_TTL_MS;
+    this.lowStockThreshold = LOW_STOCK_THRESHOLD;
+  }
+
+  isTracked(product) {
+    return Array.isArray(product?.skus) && product.skus.length > 0;
+  }
+
+  availableFor(product, sku, reserved) {
+    const held = reserved.get(StockReservation.keyFor(getId(product), sku.size, sku.color)) || 0;
+    return Math.max(0, (sku.stock || 0) - held);
+  }
+
+  // ✅ Per-size availability for the product page size picker
+  async getSizeAvailability(product, { excludeUserId = null } = {}) {
+    if (!this.isTracked(product)) return null;
+
+    const reserved = await StockReservation.getReservedQuantities([getId(product)], excludeUserId);
+    const sizes = product.sizes?.length ? product.sizes : [...new Set(product.skus.map(sku => sku.size))];
+
+    return sizes.map(size => {
+      const skus = product.skus.filter(sku => (sku.size || '').toLowerCase() === (size || '').toLowerCase());
+      const byColor = skus.map(sku => ({ color: sku.color, available: this.availableFor(product, sku, reserved) }));
+      const available = byColor.reduce((sum, entry) => sum + entry.available, 0);
+
+      return {
+        size,
+        available,
+        soldOut: available === 0,
+        lowStock: available > 0 && available <= LOW_STOCK_THRESHOLD,
+        colors: byColor.filter(entry => entry.color)
+      };
+    });
+  }
+
+  // ✅ Check requested items against stock minus other users' holds.
+  // items: [{ productId (populated doc or id), size, color, quantity }]
+  async checkItems(items, { excludeUserId = null } = {}) {
+    const productIds = [...new Set(items.map(item => getId(item.productId)))];
+    const products = await Product.find({ _id: { $in: productIds } }).select('name brand skus sizes').lean();
+    const productById = new Map(products.map(product => [product._id.toString(), product]));
+    const reserved = await StockReservation.getReservedQuantities(productIds, excludeUserId);
+
+    const results = items.map(item => {
+      const product = productById.get(getId(item.productId));
+      const base = {
+        productId: getId(item.productId),
+        productName: product?.name,
+        size: item.size || '',
+        color: item.color || '',
+        requestedQuantity: item.quantity
+      };
+
+      if (!product) return { ...base, tracked: false, available: 0, ok: false, issue: 'Product no longer available' };
+      if (!this.isTracked(product)) return { ...base, tracked: false, available: null, ok: true };
+
+      const sku = Product.findSku(product, item.size, item.color);
+      if (!sku) return { ...base, tracked: true, available: 0, ok: false, issue: 'Selected size/color is not sold' };
+
+      const available = this.availableFor(product, sku, reserved);
+      return {
+        ...base,
+        sku,
+        tracked: true,
+        available,
+        ok: available >= item.quantity,
+        issue: available === 0 ? 'Out of stock' : available < item.quantity ? 'Insufficient stock' : null
+      };
+    });
+
+    return {
+      results,
+      issues: results
+        .filter(result => !result.ok)
+        .map(({ sku, tracked, ok, ...issue }) => ({ ...issue, availableStock: issue.available }))
+    };
+  }
+
+  // ✅ Hold the items for a user while they complete checkout (replaces any earlier hold)
+  async reserve(userId, items) {
+    const { results, issues } = await this.checkItems(items, { excludeUserId: userId });
+    if (issues.length > 0) return { reservation: null, issues };
+
+    const reservedItems = results
+      .filter(result => result.tracked)
+      .map(result => ({
+        productId: result.productId,
+        size: result.sku.size,
+        color: result.sku.color,
+        quantity: result.requestedQuantity
+      }));
+
+    const reservation = await StockReservation.findOneAndUpdate(
+      { userId },
+      { items: reservedItems, expiresAt: new Date(Date.now() + RESERVATION_TTL_MS) },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return { reservation, issues: [] };
+  }
+
+  releaseReservation(userId, session = null) {
+    return StockReservation.deleteOne({ userId }, { session });
+  }
+
+  // ✅ Atomic per-SKU decrement - fails (and undoes itself outside a transaction) if any SKU ran out
+  async decrementStock(items, session = null) {
+    const applied = [];
+
+    try {
+      for (const item of items) {
+        const product = await Product.findById(item.productId).select('name skus').session(session).lean();
+        if (!this.isTracked(product)) continue;
+
+        const sku = Product.findSku(product, item.size, item.color);
+        const result = sku && await Product.updateOne(
+          {
+            _id: product._id,
+            skus: { $elemMatch: { size: sku.size, color: sku.color, stock: { $gte: item.quantity } } }
+          },
+          { $inc: { 'skus.$.stock': -item.quantity, stock: -item.quantity } },
+          { session }
+        );
+
+        if (!result || result.modifiedCount === 0) {
+          const error = new Error(`Insufficient stock for ${product.name}${item.size ? ` (size ${item.size})` : ''}`);
+          error.code = 'INSUFFICIENT_STOCK';
+          error.stockIssues = [{
+            productId: product._id.toString(),
+            productName: product.name,
+            size: item.size || '',
+            color: item.color || '',
+            requestedQuantity: item.quantity,
+            availableStock: sku ? sku.stock : 0,
+            issue: 'Insufficient stock'
+          }];
+          throw error;
+        }
+
+        applied.push({ ...item, size: sku.size, color: sku.color });
+      }
+    } catch (error) {
+      // Inside a transaction the abort rolls everything back for us
+      if (!session && applied.length > 0) await this.restoreStock(applied);
+      throw error;
+    }
+
+    return applied;
+  }
+
+  // ✅ Put stock back (order cancelled / failed mid-way)
+  async restoreStock(items, session = null) {
+    for (const item of items) {
+      const product = await Product.findById(item.productId).select('skus').session(session).lean();
+      if (!this.isTracked(product)) continue;
+
+      const sku = Product.findSku(product, item.size, item.color);
+      if (!sku) continue;
+
+      await Product.updateOne(
+        { _id: product._id, skus: { $elemMatch: { size: sku.size, color: sku.color } } },
+        { $inc: { 'skus.$.stock': item.quantity, stock: item.quantity } },
+        { session }
+      );
+    }
+  }
+
+  // ✅ Run work(session) in a transaction; standalone MongoDB (no replica set) runs it without one
+  async withTransaction(work) {
+    const session = await mongoose.startSession();
+    try {
+      let result;
+      await session.withTransaction(async () => {
+        result = await work(session);
+      });
+      return result;
+    } catch (error) {
+      const unsupported = error.code === 20 || /replica set|Transaction numbers/i.test(error.message || '');
+      if (!unsupported) throw error;
+
+      console.warn('⚠️ Transactions unavailable (standalone MongoDB) - continuing without one');
+      return work(null);
+    } finally {
+      await session.endSession();
+    }
+  }
+}
+
+module.exports = new InventoryService();
@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+const Notification = require('../models/Notification');
+
+// ============================================================================
+// NOTIFICATIONS - CREATE, LIST AND MARK READ (IN-APP)
+// ============================================================================
+
+class NotificationService {
+
+  create(userId, { type, title, message, data = {} }) {
+    return Notification.create({ userId, type, title, message, data });
+  }
+
+  async list(userId, { unreadOnly = false, type, page = 1, limit = 20 } = {}) {
+    const query = { userId };
+    if (unreadOnly) query.isRead = false;
+    if (type) query.type = type;
+
+    const skip = (page - 1) * limit;
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ userId, isRead: false })
+    ]);
+
+    return { notifications, total, unreadCount };
+  }
+
+  // ✅ Only the owner can mark a notification; returns null when it isn't theirs
+  markRead(userId, notificationId) {
+    if (!mongoose.Types.ObjectId.isValid(notificationId)) return null;
+    return Notification.findOneAndUpdate(
+      { _id: notificationId, userId },
+      { $set: { isRead: true, readAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  async markAllRead(userId, type) {
+    const query = { userId, isRead: false };
+    if (type) query.type = type;
+    const result = await Notification.updateMany(query, { $set: { isRead: true, readAt: new Date() } });
+    return result.modifiedCount;
+  }
+}
+
+module.exports = new NotificationService();
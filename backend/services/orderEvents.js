@@ -0,0 +1,74 @@
+const { EventEmitter } = require('events');
+
+// ============================================================================
+// ORDER EVENTS - IN-PROCESS PUB/SUB FEEDING THE SERVER-SENT EVENTS STREAM
+// ============================================================================
+
+// Events live in this process only; running several API instances would need a shared
+// broker (Redis pub/sub etc.) behind publish/subscribe.
+const ORDER_EVENT_TYPES = ['status', 'cancelled', 'refund', 'payment', 'tracking', 'return'];
+
+class OrderEventService {
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0); // one listener per open stream
+    this.sequence = 0;
+  }
+
+  // ✅ Snapshot of what the orders list / tracking screen show - never the whole document
+  toPayload(order, type, extra = {}) {
+    return {
+      id: ++this.sequence,
+      type,
+      _id: order._id.toString(),
+      orderId: order.orderId,
+      userId: (order.userId?._id || order.userId).toString(),
+      status: order.status,
+      payment: {
+        method: order.payment?.method,
+        status: order.payment?.status,
+        paidAmount: order.payment?.paidAmount || 0,
+        refundAmount: order.payment?.refundAmount || 0
+      },
+      tracking: order.tracking ? {
+        number: order.tracking.number,
+        carrier: order.tracking.carrier,
+        status: order.tracking.status,
+        currentLocation: order.tracking.currentLocation,
+        estimatedDelivery: order.tracking.estimatedDelivery,
+        actualDelivery: order.tracking.actualDelivery
+      } : null,
+      items: (order.items || []).map(item => ({
+        _id: item._id.toString(),
+        status: item.status,
+        returnStatus: item.returnStatus
+      })),
+      actualDeliveryDate: order.actualDeliveryDate || null,
+      updatedAt: order.updatedAt || new Date(),
+      ...extra
+    };
+  }
+
+  publish(order, type, extra = {}) {
+    if (!ORDER_EVENT_TYPES.includes(type)) throw new Error(`Unknown order event type "${type}"`);
+
+    const payload = this.toPayload(order, type, extra);
+    this.emitter.emit(`user:${payload.userId}`, payload);
+    this.emitter.emit('all', payload);
+    return payload;
+  }
+
+  // ✅ Listen to one customer's orders (or every order with userId '*'); returns the unsubscribe
+  subscribe(userId, listener) {
+    const channel = userId === '*' ? 'all' : `user:${userId}`;
+    this.emitter.on(channel, listener);
+    return () => this.emitter.off(channel, listener);
+  }
+
+  getSubscriberCount() {
+    return this.emitter.eventNames().reduce((sum, name) => sum + this.emitter.listenerCount(name), 0);
+  }
+}
+
+module.exports = new OrderEventService();
@@ -0,0 +1,92 @@
+const crypto = require('crypto');
+
+// ============================================================================
+// MOCK PAYMENT PROVIDER - IN-PROCESS STAND-IN FOR A REAL GATEWAY (DEV / TESTS)
+// ============================================================================
+
+const WEBHOOK_SECRET = process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock-payment-webhook-secret';
+const SIGNATURE_HEADER = 'x-mock-signature';
+
+// Confirm with testOutcome: 'fail' to simulate a decline
+const DECLINE_REASON = 'Payment declined by issuer (mock)';
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+
+class MockPaymentProvider {
+
+  constructor() {
+    this.name = 'mock';
+    this.gatewayName = 'Mock'; // value stored in order.payment.paymentGateway
+    this.payments = new Map(); // reference → { amount, refunded, status }
+  }
+
+  async createIntent({ amount, currency = 'INR', method }) {
+    const reference = randomId('mock_pay');
+    this.payments.set(reference, { amount, currency, method, refunded: 0, status: 'requires_confirmation' });
+
+    return {
+      reference,
+      clientSecret: `${reference}_secret_${crypto.randomBytes(6).toString('hex')}`,
+      status: 'requires_confirmation'
+    };
+  }
+
+  async confirmIntent(reference, { testOutcome } = {}) {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      return { status: 'failed', failureReason: 'Unknown payment reference' };
+    }
+
+    if (testOutcome === 'fail') {
+      payment.status = 'failed';
+      return { status: 'failed', failureReason: DECLINE_REASON };
+    }
+
+    payment.status = 'succeeded';
+    return { status: 'succeeded', transactionId: randomId('mock_txn') };
+  }
+
+  async refund(reference, amount) {
+    const payment = this.payments.get(reference);
+    // References from before a restart are unknown to the mock - accept the refund anyway
+    if (payment) {
+      if (payment.refunded + amount > payment.amount) {
+        return { status: 'failed', failureReason: 'Refund exceeds captured amount' };
+      }
+      payment.refunded += amount;
+    }
+
+    return { refundId: randomId('mock_rfnd'), status: 'succeeded' };
+  }
+
+  sign(rawBody) {
+    return crypto.createHmac('sha256', WEBHOOK_SECRET).update(rawBody).digest('hex');
+  }
+
+  // ✅ Returns { type, reference, transactionId, failureReason } or throws on a bad signature
+  verifyWebhook(rawBody, headers = {}) {
+    const signature = headers[SIGNATURE_HEADER];
+    const expected = this.sign(rawBody || '');
+
+    if (!signature || signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody.toString());
+    return {
+      type: event.type,
+      reference: event.data?.reference,
+      transactionId: event.data?.transactionId,
+      failureReason: event.data?.failureReason
+    };
+  }
+
+  // Dev helper: body + headers for a webhook call, e.g. to replay a payment.succeeded
+  buildWebhook(type, data) {
+    const body = JSON.stringify({ id: randomId('mock_evt'), type, data });
+    return { body, headers: { [SIGNATURE_HEADER]: this.sign(body) } };
+  }
+}
+
+module.exports = new MockPaymentProvider();
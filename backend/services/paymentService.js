@@ -0,0 +1,256 @@
+const Order = require('../models/Order');
+const PaymentIntent = require('../models/PaymentIntent');
+const mockProvider = require('./paymentProviders/mockProvider');
+const orderEvents = require('./orderEvents');
+
+// ============================================================================
+// PAYMENTS - PROVIDER-AGNOSTIC PAYMENT INTENTS (CREATE, CONFIRM, WEBHOOK, REFUND)
+// ============================================================================
+
+// A provider implements:
+//   name, gatewayName
+//   createIntent({ amount, currency, method, metadata }) → { reference, clientSecret, status }
+//   confirmIntent(reference, options)                    → { status, transactionId?, failureReason? }
+//   refund(reference, amount, reason)                    → { refundId, status, failureReason? }
+//   verifyWebhook(rawBody, headers)                      → { type, reference, transactionId?, failureReason? }
+
+const OPEN_STATUSES = ['requires_confirmation', 'processing'];
+// The mock provider lets a client confirm its own payment - never the silent default elsewhere
+const MOCK_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+const FINAL_STATUSES = ['succeeded', 'cancelled'];
+
+const paymentError = (message, code = 'PAYMENT_NOT_ALLOWED') => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+class PaymentService {
+
+  constructor() {
+    this.providers = new Map();
+    this.defaultProvider = this.resolveDefaultProvider();
+    this.registerProvider(mockProvider);
+  }
+
+  // ✅ PAYMENT_PROVIDER is required unless NODE_ENV is development or test (then it defaults to mock)
+  resolveDefaultProvider() {
+    if (process.env.PAYMENT_PROVIDER) return process.env.PAYMENT_PROVIDER;
+    if (MOCK_PROVIDER_ENVIRONMENTS.includes(process.env.NODE_ENV)) return 'mock';
+    throw new Error(`PAYMENT_PROVIDER must be set when NODE_ENV is ${process.env.NODE_ENV || 'unset'}`);
+  }
+
+  registerProvider(provider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name = this.defaultProvider) {
+    const provider = this.providers.get(name);
+    if (!provider) throw paymentError(`Payment provider "${name}" is not configured`, 'PROVIDER_UNAVAILABLE');
+    return provider;
+  }
+
+  // ✅ Reuses the order's unconfirmed intent; a retry after a decline gets a new one
+  async createIntent(order) {
+    if (order.payment.method === 'COD') {
+      throw paymentError('Cash on delivery orders do not need an online payment');
+    }
+    if (order.payment.status === 'Completed') {
+      throw paymentError('This order is already paid');
+    }
+    if (['Cancelled', 'Returned', 'Refunded'].includes(order.status)) {
+      throw paymentError(`Cannot pay for an order that is ${order.status.toLowerCase()}`);
+    }
+
+    const existing = await PaymentIntent.findOne({
+      orderId: order._id,
+      status: 'requires_confirmation'
+    }).sort({ createdAt: -1 });
+    if (existing && existing.amount === order.pricing.total) return existing;
+
+    const provider = this.getProvider();
+    const created = await provider.createIntent({
+      amount: order.pricing.total,
+      currency: 'INR',
+      method: order.payment.method,
+      metadata: { orderId: order.orderId }
+    });
+
+    const intent = new PaymentIntent({
+      intentId: PaymentIntent.generateIntentId(),
+      orderId: order._id,
+      userId: order.userId,
+      provider: provider.name,
+      providerReference: created.reference,
+      clientSecret: created.clientSecret,
+      amount: order.pricing.total,
+      method: order.payment.method,
+      status: created.status || 'requires_confirmation'
+    });
+    intent.recordEvent('intent.created', 'api', { amount: intent.amount });
+    await intent.save();
+
+    return intent;
+  }
+
+  async confirmIntent(intent, options = {}) {
+    if (intent.status === 'succeeded') return intent;
+    if (!OPEN_STATUSES.includes(intent.status)) {
+      throw paymentError(`Payment is ${intent.status} and cannot be confirmed`);
+    }
+
+    const provider = this.getProvider(intent.provider);
+    const outcome = await provider.confirmIntent(intent.providerReference, options);
+    return this.applyOutcome(intent, outcome, 'api');
+  }
+
+  // ✅ Idempotent: the confirm response and the provider's webhook may both report the same result.
+  // The save only lands while the stored intent is still open, so a copy loaded before the
+  // unpaid-order expiry cancelled it (or before the other report) can't overwrite that.
+  async applyOutcome(intent, { status, transactionId, failureReason }, source) {
+    if (FINAL_STATUSES.includes(intent.status)) return intent;
+
+    intent.recordEvent(`payment.${status}`, source, { transactionId, failureReason });
+    intent.status = status;
+    if (transactionId) intent.transactionId = transactionId;
+    intent.failureReason = status === 'failed' ? failureReason : undefined;
+    intent.$where = { status: { $nin: FINAL_STATUSES } };
+    try {
+      await intent.save();
+    } catch (error) {
+      if (error.name !== 'DocumentNotFoundError') throw error;
+      const current = await PaymentIntent.findById(intent._id);
+      if (status === 'succeeded' && current?.status === 'cancelled') {
+        await this.refundCancelledIntent(current, transactionId);
+      }
+      return current;
+    } finally {
+      intent.$where = undefined;
+    }
+
+    if (status === 'succeeded' || status === 'failed') {
+      await this.syncOrderPayment(intent);
+    }
+
+    return intent;
+  }
+
+  // Order payment status only changes here, once the provider has confirmed the result
+  async syncOrderPayment(intent) {
+    let order = await Order.findById(intent.orderId);
+    if (!order) return null;
+
+    if (intent.status === 'succeeded') {
+      try {
+        await this.recordPayment(order, intent);
+      } catch (error) {
+        if (error.code !== 'INVALID_STATUS_TRANSITION') throw error;
+        // ✅ The status changed after the order was loaded (e.g. it expired unpaid) - record
+        // the payment against the current order instead
+        order = await Order.findById(intent.orderId);
+        await this.recordPayment(order, intent);
+      }
+    } else if (order.payment.status !== 'Completed') {
+      order.payment.status = 'Failed';
+      await order.save();
+    }
+
+    orderEvents.publish(order, 'payment');
+    return order;
+  }
+
+  // Saved only while the order status is the one the payment was recorded against
+  async recordPayment(order, intent) {
+    const provider = this.getProvider(intent.provider);
+    const fromStatus = order.status;
+
+    order.payment.status = 'Completed';
+    order.payment.paidAmount = intent.amount;
+    order.payment.paymentDate = new Date();
+    order.payment.transactionId = intent.transactionId;
+    order.payment.paymentGateway = provider.gatewayName;
+    order.addTimelineEvent('Payment Verified', `Payment of ₹${intent.amount} received`, 'system');
+    if (fromStatus === 'Pending') {
+      order.transitionTo('Confirmed', { location: 'Warehouse', description: 'Order confirmed after payment' });
+    } else if (fromStatus === 'Cancelled') {
+      // ✅ Paid after the order was cancelled (e.g. it expired unpaid) - give the money straight back
+      await this.refundOrder(order, intent.amount, 'Order was cancelled before the payment completed');
+      order.applyRefund(intent.amount);
+      order.addTimelineEvent('Refunded', `₹${intent.amount} refunded - the order was already cancelled`, 'system');
+    }
+
+    await order.saveTransition(fromStatus);
+  }
+
+  // ✅ The provider captured a payment on an intent the expiry already cancelled - return the money.
+  // Claimed first, so the confirm response and the webhook can't both refund it.
+  async refundCancelledIntent(intent, transactionId) {
+    const claimed = await PaymentIntent.findOneAndUpdate(
+      { _id: intent._id, status: 'cancelled', refundedAmount: 0 },
+      { $set: { refundedAmount: intent.amount } },
+      { new: true }
+    );
+    if (!claimed) return;
+
+    const provider = this.getProvider(claimed.provider);
+    const result = await provider.refund(claimed.providerReference, claimed.amount, 'Payment completed after the order was cancelled');
+    if (result.status === 'failed') {
+      await PaymentIntent.updateOne({ _id: claimed._id }, { $set: { refundedAmount: 0 } });
+      throw paymentError(result.failureReason || 'Refund failed', 'REFUND_FAILED');
+    }
+
+    claimed.refunds.push({ refundId: result.refundId, amount: claimed.amount, reason: 'Order cancelled', status: result.status });
+    claimed.recordEvent('refund.created', 'system', { refundId: result.refundId, amount: claimed.amount, transactionId });
+    await claimed.save();
+  }
+
+  async handleWebhook(providerName, rawBody, headers) {
+    const provider = this.getProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, headers);
+
+    const intent = await PaymentIntent.findOne({ provider: provider.name, providerReference: event.reference });
+    if (!intent) {
+      console.warn(`⚠️ Webhook for unknown ${provider.name} payment ${event.reference}`);
+      return null;
+    }
+
+    if (event.type === 'payment.succeeded' || event.type === 'payment.failed') {
+      return this.applyOutcome(intent, {
+        status: event.type === 'payment.succeeded' ? 'succeeded' : 'failed',
+        transactionId: event.transactionId,
+        failureReason: event.failureReason
+      }, 'webhook');
+    }
+
+    intent.recordEvent(event.type, 'webhook', {});
+    await intent.save();
+    return intent;
+  }
+
+  // ✅ Refund part of an order's captured payment with its provider. Returns null when nothing
+  // was paid online (COD) - the caller still records the refund on the order.
+  async refundOrder(order, amount, reason = '') {
+    const intent = await PaymentIntent.findOne({ orderId: order._id, status: 'succeeded' }).sort({ createdAt: -1 });
+    if (!intent || amount <= 0) return null;
+
+    const refundable = intent.amount - intent.refundedAmount;
+    if (amount > refundable) {
+      throw paymentError(`Only ₹${refundable} of this payment can still be refunded`);
+    }
+
+    const provider = this.getProvider(intent.provider);
+    const result = await provider.refund(intent.providerReference, amount, reason);
+    if (result.status === 'failed') {
+      throw paymentError(result.failureReason || 'Refund failed', 'REFUND_FAILED');
+    }
+
+    intent.refunds.push({ refundId: result.refundId, amount, reason, status: result.status });
+    intent.refundedAmount += amount;
+    intent.recordEvent('refund.created', 'api', { refundId: result.refundId, amount });
+    await intent.save();
+
+    return intent.refunds[intent.refunds.length - 1];
+  }
+}
+
+module.exports = new PaymentService();
@@ -0,0 +1,128 @@
+const Wishlist = require('../models/Wishlist');
+const notificationService = require('./notificationService');
+const emailService = require('./emailService');
+
+// ============================================================================
+// PRICE ALERTS - SCHEDULED CHECK OF WISHLISTED PRICES AGAINST THE WISHLISTED PRICE
+// ============================================================================
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+class PriceAlertService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.lastRun = null;
+  }
+
+  // ✅ Which alert-enabled wishlist items dropped since they were wishlisted (or since the last alert),
+  // grouped by user. Items whose price went back up are re-armed for the next drop.
+  async findDrops() {
+    const items = await Wishlist.find({ priceAlertEnabled: true })
+      .populate({ path: 'productId', select: 'name brand price images' })
+      .populate({ path: 'userId', select: 'fullName email' });
+
+    const dropsByUser = new Map();
+    const rearmed = [];
+
+    for (const item of items) {
+      const product = item.productId;
+      if (!product || !item.userId || product.price == null) continue;
+
+      const drop = Wishlist.getPriceDrop(item.originalPrice, product.price);
+      if (!drop) {
+        if (item.lastAlertedPrice !== null) rearmed.push(item._id);
+        continue;
+      }
+      if (item.lastAlertedPrice !== null && product.price >= item.lastAlertedPrice) continue;
+
+      const userId = item.userId._id.toString();
+      if (!dropsByUser.has(userId)) dropsByUser.set(userId, { user: item.userId, entries: [] });
+      dropsByUser.get(userId).entries.push({ item, product, drop });
+    }
+
+    if (rearmed.length > 0) {
+      await Wishlist.updateMany({ _id: { $in: rearmed } }, { $set: { lastAlertedPrice: null } });
+    }
+
+    return dropsByUser;
+  }
+
+  // ✅ One in-app notification and one email per user, listing every item that dropped
+  async notifyUser(user, entries) {
+    const items = entries.map(({ product, drop }) => ({
+      productId: product._id.toString(),
+      name: product.name,
+      brand: product.brand,
+      image: product.images?.[0] || null,
+      previousPrice: drop.originalPrice,
+      currentPrice: drop.currentPrice,
+      dropAmount: drop.amount,
+      dropPercentage: drop.percentage
+    }));
+
+    const title = items.length === 1
+      ? `Price drop on ${items[0].name}`
+      : `Prices dropped on ${items.length} wishlist items`;
+    const message = items
+      .map(entry => `${entry.brand ? `${entry.brand} ` : ''}${entry.name}: now ₹${entry.currentPrice} (₹${entry.dropAmount} off)`)
+      .join('\n');
+
+    await notificationService.create(user._id, { type: 'price_drop', title, message, data: { items } });
+
+    const now = new Date();
+    await Promise.all(entries.map(({ item, product }) =>
+      Wishlist.updateOne({ _id: item._id }, { $set: { lastAlertedPrice: product.price, lastAlertedAt: now } })
+    ));
+
+    emailService.notify('priceDrop', user.email, { name: user.fullName, items });
+  }
+
+  async runCheck() {
+    if (this.running) return { skipped: true };
+    this.running = true;
+
+    try {
+      const dropsByUser = await this.findDrops();
+      let itemCount = 0;
+
+      for (const { user, entries } of dropsByUser.values()) {
+        try {
+          await this.notifyUser(user, entries);
+          itemCount += entries.length;
+        } catch (error) {
+          console.error(`❌ Failed to send price alerts to ${user.email}:`, error.message);
+        }
+      }
+
+      this.lastRun = new Date();
+      if (itemCount > 0) {
+        console.log(`🔔 Price alerts: ${itemCount} item(s) dropped for ${dropsByUser.size} user(s)`);
+      }
+      return { users: dropsByUser.size, items: itemCount };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ✅ PRICE_ALERT_INTERVAL_MINUTES (default 60, 0 disables)
+  start(intervalMinutes = parseInt(process.env.PRICE_ALERT_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.runCheck().catch(error => console.error('❌ Price alert check failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref(); // never keeps the process alive on its own
+
+    console.log(`🔔 Price alert checker running every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new PriceAlertService();
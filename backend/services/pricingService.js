@@ -0,0 +1,99 @@
+const Product = require('../models/Product');
+const PriceHistory = require('../models/PriceHistory');
+
+// ============================================================================
+// PRICING - SELLING-PRICE WINDOWS AND PRICE HISTORY FOR THE PRODUCT PAGE CHART
+// ============================================================================
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const DEFAULT_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 365;
+const MAX_HISTORY_ENTRIES = 200;
+
+class PricingService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  // ✅ Re-save products whose selling-price window opened or closed since their price was synced.
+  // save() recomputes price from pricing and records the change in the price history.
+  async applyScheduledPrices(now = new Date()) {
+    if (this.running) return { skipped: true };
+    this.running = true;
+
+    try {
+      const products = await Product.find({
+        'pricing.mrp': { $ne: null },
+        $or: [{ 'pricing.effectiveFrom': { $ne: null } }, { 'pricing.effectiveTo': { $ne: null } }]
+      });
+
+      let updated = 0;
+      for (const product of products) {
+        const { price } = Product.resolvePricing(product.pricing, now, product.flashSale);
+        if (price === product.price) continue;
+
+        try {
+          await product.save();
+          updated++;
+        } catch (error) {
+          console.error(`❌ Failed to apply scheduled price for ${product._id}:`, error.message);
+        }
+      }
+
+      if (updated > 0) console.log(`🏷️ Scheduled pricing: ${updated} product price(s) updated`);
+      return { updated };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ✅ Oldest-first price points for the last `days` days. The point in effect when the window
+  // starts is included (moved to the window start) so the chart begins at the right level.
+  async getPriceHistory(product, { days = DEFAULT_HISTORY_DAYS } = {}) {
+    const windowDays = Math.min(MAX_HISTORY_DAYS, Math.max(1, parseInt(days) || DEFAULT_HISTORY_DAYS));
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const [entries, before] = await Promise.all([
+      PriceHistory.getProductHistory(product._id, MAX_HISTORY_ENTRIES, since),
+      PriceHistory.findOne({ productId: product._id, changedAt: { $lt: since } }).sort({ changedAt: -1 }).lean()
+    ]);
+
+    const points = entries.reverse().map(entry => ({ price: entry.price, mrp: entry.mrp, changedAt: entry.changedAt }));
+    if (before) points.unshift({ price: before.price, mrp: before.mrp, changedAt: since });
+
+    const prices = points.length > 0 ? points.map(point => point.price) : [product.price];
+
+    return {
+      productId: product._id,
+      days: windowDays,
+      currentPrice: product.price,
+      mrp: product.pricing?.mrp ?? product.price,
+      discountPercent: product.pricing?.discountPercent || 0,
+      lowestPrice: Math.min(...prices),
+      highestPrice: Math.max(...prices),
+      history: points
+    };
+  }
+
+  // ✅ PRICING_REFRESH_INTERVAL_MINUTES (default 5, 0 disables)
+  start(intervalMinutes = parseInt(process.env.PRICING_REFRESH_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.applyScheduledPrices().catch(error => console.error('❌ Scheduled pricing failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`🏷️ Scheduled pricing running every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new PricingService();
@@ -0,0 +1,300 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+
+// ============================================================================
+// PRODUCT LISTING QUERIES - EVERY FilterState FIELD AND SortOption AS A MONGO QUERY
+// ============================================================================
+
+// ✅ Frontend SortOption → index-backed sort. _id last keeps pages stable between requests.
+const SORTS = {
+  relevance: { ratingCount: -1, rating: -1 }, // no query text to rank by - same as popularity
+  popularity: { ratingCount: -1, rating: -1 },
+  price_asc: { price: 1 },
+  price_desc: { price: -1 },
+  rating: { rating: -1, ratingCount: -1 },
+  newest: { createdAt: -1 }
+};
+
+// Older clients send a field name plus sortOrder
+const LEGACY_SORT_FIELDS = ['createdAt', 'updatedAt', 'price', 'name', 'rating', 'ratingCount'];
+
+// ✅ Derived flags - products don't store isNew/isBestseller
+const NEW_ARRIVAL_DAYS = 30;
+const BESTSELLER_MIN_RATING = 4;
+const BESTSELLER_MIN_RATING_COUNT = 50;
+
+const queryError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value) => {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.toString().split(',');
+  return [...new Set(list.map(item => item.toString().trim()).filter(Boolean))];
+};
+
+const toFlag = (value) => value === true || value === 'true';
+
+// Cursor values are JSON - these sort keys are revived as Dates
+const CURSOR_DATE_FIELDS = ['createdAt', 'updatedAt'];
+
+// Mongo order: missing/null sorts lowest, ObjectIds by hex, Dates by time
+const compareValues = (a, b) => {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+
+  const normalize = (value) => value instanceof Date ? value.getTime()
+    : typeof value === 'object' ? value.toString()
+    : value;
+  const x = normalize(a);
+  const y = normalize(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const sortSignature = (sort) => Object.entries(sort).map(([key, direction]) => `${key}:${direction}`).join(',');
+
+class ProductQueryService {
+
+  constructor() {
+    this.sortOptions = Object.keys(SORTS);
+  }
+
+  newArrivalSince(now = new Date()) {
+    return new Date(now.getTime() - NEW_ARRIVAL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  // Same definitions as the Mongo query, for in-memory filtering (search, brand pages)
+  isNewArrival(product, now = new Date()) {
+    return !!product.createdAt && new Date(product.createdAt) >= this.newArrivalSince(now);
+  }
+
+  isBestseller(product) {
+    return (product.rating || 0) >= BESTSELLER_MIN_RATING &&
+      (product.ratingCount || 0) >= BESTSELLER_MIN_RATING_COUNT;
+  }
+
+  parseNumber(value, name) {
+    if (value === undefined || value === null || value === '') return null;
+    const number = parseFloat(value);
+    if (!Number.isFinite(number) || number < 0) {
+      throw queryError(`Invalid ${name}: expected a non-negative number`, 'INVALID_FILTER');
+    }
+    return number;
+  }
+
+  // ✅ Query string → normalized filters. Accepts FilterState names (brands, priceMin/priceMax)
+  // and the older API names (brand, minPrice/maxPrice); lists are comma-separated or repeated.
+  parseFilters(query = {}) {
+    const { categoryId } = query;
+    if (categoryId && !mongoose.Types.ObjectId.isValid(categoryId)) {
+      throw queryError('Invalid category ID format', 'INVALID_FILTER');
+    }
+
+    const minPrice = this.parseNumber(query.minPrice ?? query.priceMin, 'minPrice');
+    const maxPrice = this.parseNumber(query.maxPrice ?? query.priceMax, 'maxPrice');
+    if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+      throw queryError('minPrice cannot be greater than maxPrice', 'INVALID_FILTER');
+    }
+
+    const rating = this.parseNumber(query.rating, 'rating');
+    if (rating !== null && rating > 5) throw queryError('Invalid rating: expected 0-5', 'INVALID_FILTER');
+
+    const discount = this.parseNumber(query.discount, 'discount');
+    if (discount !== null && discount > 100) throw queryError('Invalid discount: expected 0-100', 'INVALID_FILTER');
+
+    return {
+      categoryId: categoryId || null,
+      search: query.search && query.search.toString().trim() ? query.search.toString().trim() : null,
+      subcategory: query.subcategory ? query.subcategory.toString().trim() : null,
+      brands: toList(query.brand || query.brands),
+      sizes: toList(query.sizes),
+      colors: toList(query.colors),
+      minPrice,
+      maxPrice,
+      rating,
+      discount,
+      inStock: query.inStock === true || query.inStock === 'true' ? true
+        : query.inStock === false || query.inStock === 'false' ? false
+        : null, // 'all' / absent
+      isNew: toFlag(query.isNew),
+      isBestseller: toFlag(query.isBestseller),
+      isFeatured: toFlag(query.isFeatured)
+    };
+  }
+
+  buildMatch(filters, now = new Date()) {
+    const match = {};
+
+    if (filters.categoryId) match.categoryPath = new mongoose.Types.ObjectId(filters.categoryId); // the whole subtree
+    if (filters.search) {
+      const searchRegex = new RegExp(escapeRegex(filters.search), 'i');
+      match.$or = [{ name: searchRegex }, { brand: searchRegex }, { description: searchRegex }];
+    }
+    if (filters.subcategory) match.subcategory = new RegExp(`^${escapeRegex(filters.subcategory)}$`, 'i');
+    if (filters.brands.length) match.brand = { $in: filters.brands };
+    if (filters.sizes.length) match.sizes = { $in: filters.sizes };
+    if (filters.colors.length) match.colors = { $in: filters.colors };
+
+    if (filters.minPrice !== null || filters.maxPrice !== null) {
+      match.price = {};
+      if (filters.minPrice !== null) match.price.$gte = filters.minPrice;
+      if (filters.maxPrice !== null) match.price.$lte = filters.maxPrice;
+    }
+
+    if (filters.rating) match.rating = { $gte: filters.rating };
+    if (filters.discount) match['pricing.discountPercent'] = { $gte: filters.discount };
+
+    if (filters.inStock === true) match.stock = { $gt: 0 };
+    else if (filters.inStock === false) match.stock = { $lte: 0 };
+
+    if (filters.isNew) match.createdAt = { $gte: this.newArrivalSince(now) };
+    if (filters.isBestseller) {
+      match.rating = { $gte: Math.max(filters.rating || 0, BESTSELLER_MIN_RATING) };
+      match.ratingCount = { $gte: BESTSELLER_MIN_RATING_COUNT };
+    }
+    if (filters.isFeatured) match.isFeatured = true;
+
+    return match;
+  }
+
+  // ✅ A SortOption, or (legacy) a field name with sortOrder
+  buildSort(sortBy = 'relevance', sortOrder = 'desc') {
+    if (SORTS[sortBy]) return { ...SORTS[sortBy], _id: 1 };
+    if (LEGACY_SORT_FIELDS.includes(sortBy)) return { [sortBy]: sortOrder === 'asc' ? 1 : -1, _id: 1 };
+    throw Object.assign(queryError(`Invalid sort option "${sortBy}"`, 'INVALID_SORT'), {
+      validSorts: [...this.sortOptions, ...LEGACY_SORT_FIELDS]
+    });
+  }
+
+  // ============================================================================
+  // CURSOR PAGINATION - keyset on the active sort, so inserts/price changes don't shift pages
+  // ============================================================================
+
+  // Opaque cursor = the sort key values of the last item on the page
+  encodeCursor(doc, sort) {
+    const values = Object.keys(sort).map(key => doc[key] ?? null);
+    return Buffer.from(JSON.stringify({ sort: sortSignature(sort), values })).toString('base64url');
+  }
+
+  // ✅ A cursor only continues the sort it was issued for
+  decodeCursor(cursor, sort) {
+    let payload;
+    try {
+      payload = JSON.parse(Buffer.from(cursor.toString(), 'base64url').toString('utf8'));
+    } catch (error) {
+      throw queryError('Invalid cursor', 'INVALID_CURSOR');
+    }
+
+    const keys = Object.keys(sort);
+    if (!payload || payload.sort !== sortSignature(sort) || !Array.isArray(payload.values) ||
+        payload.values.length !== keys.length) {
+      throw queryError('Cursor does not match the requested sort - start again from the first page', 'INVALID_CURSOR');
+    }
+
+    return keys.map((key, index) => {
+      const value = payload.values[index];
+      if (value === null) return null;
+      if (key === '_id') {
+        if (!mongoose.Types.ObjectId.isValid(value)) throw queryError('Invalid cursor', 'INVALID_CURSOR');
+        return new mongoose.Types.ObjectId(value);
+      }
+      return CURSOR_DATE_FIELDS.includes(key) ? new Date(value) : value;
+    });
+  }
+
+  // ✅ Mongo match for "everything after the cursor" in sort order:
+  // (k1 after v1) OR (k1 = v1 AND k2 after v2) OR ...
+  buildCursorMatch(sort, values) {
+    const keys = Object.keys(sort);
+    const after = (key, direction, value) => {
+      if (direction === 1) return value === null ? { [key]: { $ne: null } } : { [key]: { $gt: value } };
+      // Descending: nulls come last
+      return value === null ? null : { $or: [{ [key]: { $lt: value } }, { [key]: null }] };
+    };
+
+    const clauses = keys
+      .map((key, index) => {
+        const condition = after(key, sort[key], values[index]);
+        if (!condition) return null;
+        const equalities = keys.slice(0, index).map((previous, i) => ({ [previous]: values[i] }));
+        return equalities.length ? { $and: [...equalities, condition] } : condition;
+      })
+      .filter(Boolean);
+
+    return { $or: clauses };
+  }
+
+  // Same ordering as a Mongo sort, for lists ranked in memory (search, brand pages)
+  compareBySort(a, b, sort) {
+    for (const [key, direction] of Object.entries(sort)) {
+      const result = compareValues(a[key], b[key]) * direction;
+      if (result !== 0) return result;
+    }
+    return 0;
+  }
+
+  // ✅ Page of an in-memory sorted list - by cursor when given, otherwise by page number
+  paginate(sorted, sort, { cursor, page = 1, limit = 20 } = {}) {
+    let start = (page - 1) * limit;
+    if (cursor) {
+      const values = this.decodeCursor(cursor, sort);
+      const cursorDoc = Object.fromEntries(Object.keys(sort).map((key, index) => [key, values[index]]));
+      start = sorted.findIndex(item => this.compareBySort(item, cursorDoc, sort) > 0);
+      if (start === -1) start = sorted.length;
+    }
+
+    const items = sorted.slice(start, start + limit);
+    const hasNextPage = start + limit < sorted.length;
+    return {
+      items,
+      hasNextPage,
+      nextCursor: hasNextPage && items.length ? this.encodeCursor(items[items.length - 1], sort) : null
+    };
+  }
+
+  // Fetch limit + 1 from Mongo; the extra document only says whether there's a next page
+  toCursorPage(docs, sort, limit) {
+    const items = docs.slice(0, limit);
+    const hasNextPage = docs.length > limit;
+    return {
+      items,
+      hasNextPage,
+      nextCursor: hasNextPage ? this.encodeCursor(items[items.length - 1], sort) : null
+    };
+  }
+
+  // ✅ Values the filter UI can offer for a base query (e.g. one category), independent of
+  // the filters currently applied
+  async getFilterOptions(baseMatch) {
+    const [options] = await Product.aggregate([
+      { $match: baseMatch },
+      {
+        $group: {
+          _id: null,
+          brands: { $addToSet: '$brand' },
+          sizes: { $push: '$sizes' },
+          colors: { $push: '$colors' },
+          minPrice: { $min: '$price' },
+          maxPrice: { $max: '$price' }
+        }
+      }
+    ]);
+
+    if (!options) return { brands: [], sizes: [], colors: [], priceRange: { min: 0, max: 0 } };
+
+    const unique = (lists) => [...new Set(lists.flat().filter(Boolean))].sort();
+    return {
+      brands: options.brands.filter(Boolean).sort(),
+      sizes: unique(options.sizes),
+      colors: unique(options.colors),
+      priceRange: { min: options.minPrice || 0, max: options.maxPrice || 0 }
+    };
+  }
+}
+
+module.exports = new ProductQueryService();
@@ -0,0 +1,77 @@
+const Promotion = require('../models/Promotion');
+const PromotionRuleEngine = require('../promotionRules');
+
+// ============================================================================
+// PROMOTIONS - LIVE PROMOTIONS APPLIED TO BAGS AND ORDERS
+// ============================================================================
+
+class PromotionService {
+
+  getLivePromotions(now = new Date()) {
+    return Promotion.find(Promotion.liveQuery(now)).sort({ priority: 1, createdAt: 1 }).lean();
+  }
+
+  // ✅ Cart shape the rule engine expects. bagItems need productId populated with
+  // price, brand and categoryPath (ids); items of deleted products are skipped.
+  buildCartItems(bagItems) {
+    return bagItems
+      .filter(item => item.productId && item.productId.price != null)
+      .map(item => ({
+        id: item._id.toString(),
+        productId: item.productId._id,
+        name: item.productId.name,
+        brand: item.productId.brand,
+        price: item.productId.price,
+        quantity: item.quantity,
+        categoryIds: (item.productId.categoryPath || []).map(category => category._id || category)
+      }));
+  }
+
+  // ✅ Promotions a bag qualifies for → { totalDiscount, applied, items } (items keyed by bag item id).
+  // Pass the whole bag - a buy X get Y or bundle can span items on different bag pages.
+  async evaluateBag(bagItems, now = new Date()) {
+    const cartItems = this.buildCartItems(bagItems);
+    if (cartItems.length === 0) return { totalDiscount: 0, applied: [], items: {} };
+
+    const promotions = await this.getLivePromotions(now);
+    return this.toRupees(PromotionRuleEngine.evaluate(promotions, cartItems, now));
+  }
+
+  // ✅ Whole-rupee discounts, rounded once per promotion and bag line; every total is a sum of
+  // those, so the bag shows exactly what the order charges
+  toRupees(result) {
+    const items = {};
+    const applied = result.applied.map(promotion => {
+      const lines = promotion.items.map(line => ({ ...line, discount: Math.round(line.discount) }));
+
+      for (const line of lines) {
+        if (line.discount <= 0) continue;
+        const entry = items[line.itemId] || (items[line.itemId] = { discount: 0, promotions: [] });
+        entry.discount += line.discount;
+        entry.promotions.push({ promotionId: promotion.promotionId, name: promotion.name, discount: line.discount });
+      }
+
+      return { ...promotion, discount: lines.reduce((sum, line) => sum + line.discount, 0), items: lines };
+    }).filter(promotion => promotion.discount > 0);
+
+    return {
+      totalDiscount: applied.reduce((sum, promotion) => sum + promotion.discount, 0),
+      applied,
+      items
+    };
+  }
+
+  // Order record of an applied promotion - items point at products, not bag lines
+  toOrderPromotion(applied) {
+    return {
+      promotionId: applied.promotionId,
+      name: applied.name,
+      label: applied.label,
+      type: applied.type,
+      discount: applied.discount,
+      items: applied.items.map(({ productId, quantity, discount }) => ({ productId, quantity, discount }))
+    };
+  }
+}
+
+module.exports = new PromotionService();
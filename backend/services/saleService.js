@@ -0,0 +1,381 @@
+const mongoose = require('mongoose');
+const SaleEvent = require('../models/SaleEvent');
+const Product = require('../models/Product');
+const Bag = require('../models/Bag');
+const productQueryService = require('./productQueryService');
+
+// ============================================================================
+// FLASH SALES - SALE WINDOWS ON PRODUCTS, QUANTITY CAPS AND BAG REPRICING
+// ============================================================================
+
+// Products carry a snapshot of their live sale (Product.flashSale) so listings, filters and
+// sorts see the sale price like any other price. This service keeps those snapshots in step
+// with the sale events and re-checks them at the points where money changes hands.
+
+const DEFAULT_INTERVAL_MINUTES = 1;
+const DEFAULT_PRODUCTS_PER_SALE = 12;
+const MAX_PRODUCTS_PER_PAGE = 50;
+const UPCOMING_WINDOW_HOURS = 24;
+const PRODUCT_CARD_FIELDS = 'name brand price pricing flashSale discount images rating ratingCount stock category subcategory createdAt';
+
+const saleError = (message, code = 'SALE_ENDED') => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const sameId = (a, b) => !!a && !!b && a.toString() === b.toString();
+
+const isLive = (flashSale, now = new Date()) =>
+  !!flashSale && flashSale.startsAt <= now && flashSale.endsAt > now;
+
+const snapshot = (sale) => ({
+  saleId: sale._id,
+  name: sale.name,
+  discountPercent: sale.discountPercent,
+  startsAt: sale.startsAt,
+  endsAt: sale.endsAt
+});
+
+const sameSnapshot = (current, next) => {
+  if (!current || !next) return !current && !next;
+  return sameId(current.saleId, next.saleId) &&
+    current.discountPercent === next.discountPercent &&
+    current.name === next.name &&
+    new Date(current.startsAt).getTime() === new Date(next.startsAt).getTime() &&
+    new Date(current.endsAt).getTime() === new Date(next.endsAt).getTime();
+};
+
+// Units per sale for a set of order items
+const quantitiesBySale = (items) => items.reduce((totals, item) => {
+  const saleId = item.sale?.saleId?.toString();
+  if (saleId) totals.set(saleId, (totals.get(saleId) || 0) + item.quantity);
+  return totals;
+}, new Map());
+
+class SaleService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.pending = false;
+  }
+
+  // ✅ Sales only reprice products with structured pricing (the sale comes off their regular price)
+  targetQuery(sale) {
+    const targets = [];
+    if (sale.productIds?.length) targets.push({ _id: { $in: sale.productIds } });
+    if (sale.categoryIds?.length) targets.push({ categoryPath: { $in: sale.categoryIds } });
+    return { 'pricing.mrp': { $ne: null }, $or: targets };
+  }
+
+  /**
+   * Bring every product's flash sale snapshot in line with the live sales. A product in
+   * several live sales takes the biggest discount (then the one ending first). save()
+   * recomputes the price and records it in the price history. A call made while a sync is
+   * running is remembered and run once more when it finishes, so no change is left unsynced.
+   */
+  async syncSales(now = new Date()) {
+    if (this.running) {
+      this.pending = true;
+      return { skipped: true };
+    }
+    this.running = true;
+
+    try {
+      const sales = await SaleEvent.find(SaleEvent.liveQuery(now)).sort({ discountPercent: -1, endsAt: 1, _id: 1 }).lean();
+
+      const assigned = new Map();
+      for (const sale of sales) {
+        const ids = await Product.find(this.targetQuery(sale)).distinct('_id');
+        ids.forEach(id => {
+          if (!assigned.has(id.toString())) assigned.set(id.toString(), sale);
+        });
+      }
+
+      const products = await Product.find({
+        $or: [
+          { _id: { $in: [...assigned.keys()] } },
+          { flashSale: { $ne: null } }
+        ]
+      });
+
+      let applied = 0;
+      let cleared = 0;
+      for (const product of products) {
+        const sale = assigned.get(product._id.toString());
+        const next = sale ? snapshot(sale) : undefined;
+        if (sameSnapshot(product.flashSale, next)) continue;
+
+        try {
+          product.flashSale = next;
+          await product.save();
+          if (next) applied++;
+          else cleared++;
+        } catch (error) {
+          console.error(`❌ Failed to sync flash sale for ${product._id}:`, error.message);
+        }
+      }
+
+      if (applied > 0 || cleared > 0) {
+        console.log(`⚡ Flash sales: ${applied} product(s) repriced for a sale, ${cleared} back to regular price`);
+      }
+      return { applied, cleared, liveSales: sales.length };
+    } finally {
+      this.running = false;
+      if (this.pending) {
+        this.pending = false;
+        this.queueSync();
+      }
+    }
+  }
+
+  // Fire-and-forget sync after a sale sells out, is edited or frees up units
+  queueSync() {
+    setImmediate(() => {
+      this.syncSales().catch(error => console.error('❌ Flash sale sync failed:', error.message));
+    });
+  }
+
+  /**
+   * Products (documents or lean objects) whose sale window has closed since the last sync are
+   * saved at their regular price and updated in place, so callers never charge an ended sale.
+   */
+  async refreshProducts(products, now = new Date()) {
+    const expired = products.filter(product => product?.flashSale && !isLive(product.flashSale, now));
+
+    for (const product of expired) {
+      const fresh = await Product.findById(product._id);
+      if (!fresh) continue;
+
+      if (fresh.flashSale && !isLive(fresh.flashSale, now)) {
+        fresh.flashSale = undefined;
+        await fresh.save();
+      }
+
+      product.price = fresh.price;
+      product.discount = fresh.discount;
+      product.pricing = fresh.pricing ? fresh.pricing.toObject() : fresh.pricing;
+      product.flashSale = fresh.flashSale ? fresh.flashSale.toObject() : undefined;
+    }
+
+    return expired.length;
+  }
+
+  // ✅ Bag items added at a sale price whose sale is no longer on the product
+  findEndedSaleItems(bagItems) {
+    return bagItems.filter(item =>
+      item.productId && item.saleIdWhenAdded && !sameId(item.productId.flashSale?.saleId, item.saleIdWhenAdded)
+    );
+  }
+
+  // ✅ Move bag items onto the product's current price (and sale, if any)
+  async repriceBagItems(bagItems) {
+    await Promise.all(bagItems.map(item => Bag.updateOne(
+      { _id: item._id },
+      { $set: { priceWhenAdded: item.productId.price, saleIdWhenAdded: item.productId.flashSale?.saleId || null } }
+    )));
+
+    return bagItems.map(item => ({
+      itemId: item._id,
+      productId: item.productId._id,
+      productName: item.productId.name,
+      previousPrice: item.priceWhenAdded,
+      currentPrice: item.productId.price
+    }));
+  }
+
+  // Sale details kept on an order item (null when it was bought at the regular price)
+  orderItemSale(product, now = new Date()) {
+    if (!product.pricing || !isLive(product.flashSale, now)) return null;
+    const { regularPrice } = Product.resolvePricing(product.pricing, now, product.flashSale);
+
+    return {
+      saleId: product.flashSale.saleId,
+      name: product.flashSale.name,
+      discountPercent: product.flashSale.discountPercent,
+      regularPrice
+    };
+  }
+
+  /**
+   * Count order items against their sales' quantity caps. Each claim is atomic; if one sale is
+   * over (ended, deactivated or out of units) the claims made so far are undone outside a
+   * transaction and SALE_ENDED is thrown.
+   */
+  async claimOrderItems(items, session = null, now = new Date()) {
+    const claimed = [];
+
+    try {
+      for (const [saleId, quantity] of quantitiesBySale(items)) {
+        const sale = await SaleEvent.findOneAndUpdate(
+          {
+            _id: saleId,
+            $and: [
+              SaleEvent.liveQuery(now),
+              {
+                $or: [
+                  { quantityCap: null },
+                  { $expr: { $lte: [{ $add: ['$soldQuantity', quantity] }, '$quantityCap'] } }
+                ]
+              }
+            ]
+          },
+          { $inc: { soldQuantity: quantity } },
+          { new: true, session }
+        );
+
+        if (!sale) {
+          const current = await SaleEvent.findById(saleId).session(session).lean();
+          const remaining = current?.quantityCap != null ? Math.max(0, current.quantityCap - current.soldQuantity) : null;
+          const stillRunning = current && current.isActive && current.startsAt <= now && current.endsAt > now;
+
+          this.queueSync();
+          const error = saleError(stillRunning && remaining > 0
+            ? `Only ${remaining} item(s) left at the ${current.name} price`
+            : `${current?.name || 'The sale'} has ended`);
+          error.saleId = saleId;
+          throw error;
+        }
+
+        claimed.push({ saleId, quantity });
+        if (sale.quantityCap != null && sale.soldQuantity >= sale.quantityCap) this.queueSync();
+      }
+    } catch (error) {
+      if (!session) await this.releaseQuantities(claimed);
+      throw error;
+    }
+
+    return claimed;
+  }
+
+  async releaseQuantities(entries) {
+    for (const { saleId, quantity } of entries) {
+      await SaleEvent.updateOne({ _id: saleId, soldQuantity: { $gte: quantity } }, { $inc: { soldQuantity: -quantity } });
+    }
+  }
+
+  // ✅ Give a cancelled order's sale units back (a sold-out sale that is still running reopens)
+  async releaseOrderSales(order) {
+    const entries = [...quantitiesBySale(order.items || [])].map(([saleId, quantity]) => ({ saleId, quantity }));
+    if (entries.length === 0) return;
+
+    await this.releaseQuantities(entries);
+    console.log(`⚡ Released ${entries.length} flash sale claim(s) from order ${order.orderId}`);
+    this.queueSync();
+  }
+
+  // Units left, or null when the sale has no cap
+  remainingQuantity(sale) {
+    return sale.quantityCap == null ? null : Math.max(0, sale.quantityCap - (sale.soldQuantity || 0));
+  }
+
+  toPublicSale(sale, now = new Date()) {
+    return {
+      _id: sale._id,
+      name: sale.name,
+      description: sale.description || null,
+      bannerImage: sale.bannerImage || null,
+      discountPercent: sale.discountPercent,
+      startsAt: sale.startsAt,
+      endsAt: sale.endsAt,
+      quantityCap: sale.quantityCap,
+      remainingQuantity: this.remainingQuantity(sale),
+      isLive: sale.startsAt <= now && sale.endsAt > now
+    };
+  }
+
+  // Products currently sold at this sale's price, most popular first
+  saleProducts(saleId, { skip = 0, limit = DEFAULT_PRODUCTS_PER_SALE } = {}) {
+    return Product.find({ 'flashSale.saleId': saleId })
+      .select(PRODUCT_CARD_FIELDS)
+      .sort(productQueryService.buildSort('popularity'))
+      .skip(skip)
+      .limit(limit)
+      .lean();
+  }
+
+  // ✅ Live sales with their first products, plus sales starting in the next 24 hours
+  async getSales({ now = new Date(), productLimit = DEFAULT_PRODUCTS_PER_SALE } = {}) {
+    const upcomingUntil = new Date(now.getTime() + UPCOMING_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const [liveSales, upcomingSales] = await Promise.all([
+      SaleEvent.find(SaleEvent.liveQuery(now)).sort({ endsAt: 1, _id: 1 }).lean(),
+      SaleEvent.find({ isActive: true, startsAt: { $gt: now, $lte: upcomingUntil } }).sort({ startsAt: 1, _id: 1 }).lean()
+    ]);
+
+    const live = await Promise.all(liveSales.map(async sale => ({
+      ...this.toPublicSale(sale, now),
+      products: await this.saleProducts(sale._id, { limit: productLimit })
+    })));
+
+    return {
+      live: live.filter(sale => sale.products.length > 0),
+      upcoming: upcomingSales.map(sale => this.toPublicSale(sale, now))
+    };
+  }
+
+  // ✅ One sale with a page of its products (null when it doesn't exist or isn't public yet)
+  async getSale(saleId, { page = 1, limit = 20, now = new Date() } = {}) {
+    if (!mongoose.Types.ObjectId.isValid(saleId)) return null;
+
+    const sale = await SaleEvent.findOne({ _id: saleId, isActive: true, startsAt: { $lte: now } }).lean();
+    if (!sale) return null;
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(MAX_PRODUCTS_PER_PAGE, Math.max(1, parseInt(limit) || 20));
+    const [products, total] = await Promise.all([
+      this.saleProducts(sale._id, { skip: (pageNum - 1) * limitNum, limit: limitNum }),
+      Product.countDocuments({ 'flashSale.saleId': sale._id })
+    ]);
+
+    return {
+      sale: this.toPublicSale(sale, now),
+      products,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total
+      }
+    };
+  }
+
+  // ✅ Sale banner details for the product page (null when the product isn't in a live sale)
+  async getProductSale(product, now = new Date()) {
+    if (!product.pricing || !isLive(product.flashSale, now)) return null;
+
+    const sale = await SaleEvent.findById(product.flashSale.saleId).select('quantityCap soldQuantity').lean();
+    const { regularPrice } = Product.resolvePricing(product.pricing, now, product.flashSale);
+
+    return {
+      saleId: product.flashSale.saleId,
+      name: product.flashSale.name,
+      discountPercent: product.flashSale.discountPercent,
+      endsAt: product.flashSale.endsAt,
+      regularPrice,
+      remainingQuantity: sale ? this.remainingQuantity(sale) : null
+    };
+  }
+
+  // ✅ SALE_REFRESH_INTERVAL_MINUTES (default 1, 0 disables) - sales start and end on the minute
+  start(intervalMinutes = parseInt(process.env.SALE_REFRESH_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.syncSales().catch(error => console.error('❌ Flash sale sync failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`⚡ Flash sale sync running every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new SaleService();
@@ -0,0 +1,361 @@
+const mongoose = require('mongoose');
+const SavedSearch = require('../models/SavedSearch');
+const Product = require('../models/Product');
+const productQueryService = require('./productQueryService');
+const searchService = require('./searchService');
+const notificationService = require('./notificationService');
+const emailService = require('./emailService');
+
+// ============================================================================
+// SAVED SEARCHES - NAMED QUERY + FILTERS, "NEW SINCE LAST VISIT" COUNTS AND DIGESTS
+// ============================================================================
+
+const MAX_SAVED_SEARCHES = 20;
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DIGEST_PREVIEW_LIMIT = 5;
+const NEW_PRODUCTS_LIMIT = 20;
+
+const DIGEST_PERIOD_MS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const FILTER_LIST_FIELDS = ['brands', 'sizes', 'colors'];
+const FILTER_NUMBER_FIELDS = ['priceMin', 'priceMax', 'rating', 'discount'];
+const FILTER_FLAG_FIELDS = ['inStock', 'isNew', 'isBestseller'];
+
+const savedSearchError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+class SavedSearchService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.maxSavedSearches = MAX_SAVED_SEARCHES;
+  }
+
+  // ✅ FilterState from the client → stored filters. Unknown fields are dropped, lists are
+  // de-duplicated and sorted so equal searches store equally.
+  normalizeFilters(filters = {}) {
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+      throw savedSearchError('filters must be an object', 'INVALID_SAVED_SEARCH');
+    }
+
+    const normalized = {};
+    if (filters.category) normalized.category = String(filters.category);
+    if (filters.subcategory) normalized.subcategory = String(filters.subcategory);
+
+    FILTER_LIST_FIELDS.forEach(field => {
+      if (filters[field] === undefined || filters[field] === null) return;
+      if (!Array.isArray(filters[field])) {
+        throw savedSearchError(`filters.${field} must be an array`, 'INVALID_SAVED_SEARCH');
+      }
+      const list = [...new Set(filters[field].map(value => String(value).trim()).filter(Boolean))].sort();
+      if (list.length) normalized[field] = list;
+    });
+
+    FILTER_NUMBER_FIELDS.forEach(field => {
+      if (filters[field] === undefined || filters[field] === null || filters[field] === '') return;
+      const value = Number(filters[field]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw savedSearchError(`filters.${field} must be a non-negative number`, 'INVALID_SAVED_SEARCH');
+      }
+      if (value > 0) normalized[field] = value;
+    });
+
+    if (filters.inStock === true || filters.inStock === false) normalized.inStock = filters.inStock;
+    if (filters.isNew === true) normalized.isNewArrival = true;
+    if (filters.isBestseller === true) normalized.isBestseller = true;
+    if (filters.sortBy) {
+      if (!productQueryService.sortOptions.includes(filters.sortBy)) {
+        throw savedSearchError(`Invalid sort option "${filters.sortBy}"`, 'INVALID_SAVED_SEARCH');
+      }
+      normalized.sortBy = filters.sortBy;
+    }
+
+    return normalized;
+  }
+
+  // Stored filters → FilterState for the client
+  toFilterState(filters = {}) {
+    const { isNewArrival, ...rest } = filters;
+    const state = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined && value !== null));
+    if (isNewArrival) state.isNew = true;
+    return state;
+  }
+
+  // Stored filters → listing/search query params (the names GET /api/product accepts)
+  toQueryParams(filters = {}) {
+    const state = this.toFilterState(filters);
+    const params = {};
+    if (state.category) params.categoryId = state.category;
+    if (state.subcategory) params.subcategory = state.subcategory;
+    if (state.brands) params.brand = state.brands.join(',');
+    if (state.sizes) params.sizes = state.sizes.join(',');
+    if (state.colors) params.colors = state.colors.join(',');
+    if (state.priceMin) params.minPrice = String(state.priceMin);
+    if (state.priceMax) params.maxPrice = String(state.priceMax);
+    if (state.rating) params.rating = String(state.rating);
+    if (state.discount) params.discount = String(state.discount);
+    FILTER_FLAG_FIELDS.forEach(field => {
+      if (state[field] !== undefined) params[field] = String(state[field]);
+    });
+    return params;
+  }
+
+  toResponse(savedSearch, newCount = 0) {
+    const plain = typeof savedSearch.toObject === 'function' ? savedSearch.toObject() : savedSearch;
+    return { ...plain, filters: this.toFilterState(plain.filters), newCount };
+  }
+
+  // ✅ Products matching a saved search that were added after `since`, newest first.
+  // Searches with a query are ranked like the search screen; filters-only searches use the
+  // listing query.
+  async findNewProducts(savedSearch, since, { limit = NEW_PRODUCTS_LIMIT } = {}) {
+    const params = this.toQueryParams(savedSearch.filters || {});
+
+    if (savedSearch.query) {
+      const { products, total } = await searchService.search(savedSearch.query, {
+        ...params,
+        createdAfter: since,
+        sortBy: 'newest',
+        limit
+      });
+      return { products, total };
+    }
+
+    const match = productQueryService.buildMatch(productQueryService.parseFilters(params));
+    match.createdAt = { ...(match.createdAt || {}), $gt: since };
+
+    const [products, total] = await Promise.all([
+      Product.find(match).sort({ createdAt: -1, _id: 1 }).limit(limit).lean(),
+      Product.countDocuments(match)
+    ]);
+    return { products, total };
+  }
+
+  async list(userId) {
+    const savedSearches = await SavedSearch.find({ userId }).sort({ updatedAt: -1 }).lean();
+
+    const counts = await Promise.all(savedSearches.map(savedSearch =>
+      this.findNewProducts(savedSearch, savedSearch.lastViewedAt, { limit: 1 })
+        .then(({ total }) => total)
+        .catch(error => {
+          console.warn(`⚠️ Failed to count new products for saved search ${savedSearch._id}:`, error.message);
+          return 0;
+        })
+    ));
+
+    return savedSearches.map((savedSearch, index) => this.toResponse(savedSearch, counts[index]));
+  }
+
+  findOwned(userId, savedSearchId) {
+    if (!mongoose.Types.ObjectId.isValid(savedSearchId)) return null;
+    return SavedSearch.findOne({ _id: savedSearchId, userId });
+  }
+
+  validateFields({ name, query, digestFrequency }, { partial = false } = {}) {
+    if (!partial || name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        throw savedSearchError('Saved search name is required', 'INVALID_SAVED_SEARCH');
+      }
+    }
+    if (query !== undefined && typeof query !== 'string') {
+      throw savedSearchError('query must be a string', 'INVALID_SAVED_SEARCH');
+    }
+    if (digestFrequency !== undefined && !SavedSearch.DIGEST_FREQUENCIES.includes(digestFrequency)) {
+      throw savedSearchError(
+        `digestFrequency must be one of: ${SavedSearch.DIGEST_FREQUENCIES.join(', ')}`,
+        'INVALID_SAVED_SEARCH'
+      );
+    }
+  }
+
+  // Duplicate names surface as a domain error; everything else bubbles up
+  async saveOrConflict(savedSearch) {
+    try {
+      return await savedSearch.save();
+    } catch (error) {
+      if (error.code === 11000) {
+        throw savedSearchError(`You already have a saved search named "${savedSearch.name}"`, 'DUPLICATE_NAME');
+      }
+      if (error.name === 'ValidationError') {
+        throw savedSearchError(Object.values(error.errors).map(err => err.message).join(', '), 'INVALID_SAVED_SEARCH');
+      }
+      throw error;
+    }
+  }
+
+  async create(userId, { name, query = '', filters = {}, digestEnabled = false, digestFrequency = 'daily' }) {
+    this.validateFields({ name, query, digestFrequency });
+    const normalizedFilters = this.normalizeFilters(filters);
+
+    if (!query.trim() && Object.keys(normalizedFilters).every(key => key === 'sortBy')) {
+      throw savedSearchError('A saved search needs a query or at least one filter', 'INVALID_SAVED_SEARCH');
+    }
+
+    const count = await SavedSearch.countDocuments({ userId });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw savedSearchError(`You can save up to ${MAX_SAVED_SEARCHES} searches - delete one first`, 'LIMIT_REACHED');
+    }
+
+    const savedSearch = await this.saveOrConflict(new SavedSearch({
+      userId,
+      name: name.trim(),
+      query: query.trim(),
+      filters: normalizedFilters,
+      digestEnabled: !!digestEnabled,
+      digestFrequency,
+      lastViewedAt: new Date()
+    }));
+
+    return this.toResponse(savedSearch);
+  }
+
+  // ✅ Rename, change the query/filters or the digest settings; returns null when not found
+  async update(userId, savedSearchId, changes) {
+    const savedSearch = await this.findOwned(userId, savedSearchId);
+    if (!savedSearch) return null;
+
+    this.validateFields(changes, { partial: true });
+
+    if (changes.name !== undefined) savedSearch.name = changes.name.trim();
+    if (changes.query !== undefined) savedSearch.query = changes.query.trim();
+    if (changes.filters !== undefined) savedSearch.filters = this.normalizeFilters(changes.filters);
+    if (changes.digestFrequency !== undefined) savedSearch.digestFrequency = changes.digestFrequency;
+    if (changes.digestEnabled !== undefined) {
+      const enabling = !!changes.digestEnabled && !savedSearch.digestEnabled;
+      savedSearch.digestEnabled = !!changes.digestEnabled;
+      // The first digest covers products added from now on
+      if (enabling) savedSearch.lastDigestAt = new Date();
+    }
+
+    await this.saveOrConflict(savedSearch);
+    const { total } = await this.findNewProducts(savedSearch, savedSearch.lastViewedAt, { limit: 1 });
+    return this.toResponse(savedSearch, total);
+  }
+
+  remove(userId, savedSearchId) {
+    if (!mongoose.Types.ObjectId.isValid(savedSearchId)) return null;
+    return SavedSearch.findOneAndDelete({ _id: savedSearchId, userId });
+  }
+
+  // ✅ Opening a saved search resets its "new" count
+  async markViewed(userId, savedSearchId) {
+    const savedSearch = await this.findOwned(userId, savedSearchId);
+    if (!savedSearch) return null;
+
+    savedSearch.lastViewedAt = new Date();
+    await savedSearch.save();
+    return this.toResponse(savedSearch);
+  }
+
+  // ============================================================================
+  // DIGEST - ONE NOTIFICATION AND EMAIL PER USER FOR EVERY DUE SAVED SEARCH WITH NEW PRODUCTS
+  // ============================================================================
+
+  isDigestDue(savedSearch, now = new Date()) {
+    const since = savedSearch.lastDigestAt || savedSearch.createdAt;
+    return now - new Date(since) >= DIGEST_PERIOD_MS[savedSearch.digestFrequency || 'daily'];
+  }
+
+  async notifyUser(user, entries) {
+    const searches = entries.map(({ savedSearch, products, total }) => ({
+      savedSearchId: savedSearch._id.toString(),
+      name: savedSearch.name,
+      query: savedSearch.query,
+      newCount: total,
+      products: products.slice(0, DIGEST_PREVIEW_LIMIT).map(product => ({
+        productId: product._id.toString(),
+        name: product.name,
+        brand: product.brand,
+        price: product.price,
+        image: product.images?.[0] || null
+      }))
+    }));
+
+    const totalNew = searches.reduce((sum, search) => sum + search.newCount, 0);
+    const title = searches.length === 1
+      ? `${totalNew} new for "${searches[0].name}"`
+      : `${totalNew} new products across ${searches.length} saved searches`;
+    const message = searches
+      .map(search => `${search.name}: ${search.newCount} new product${search.newCount === 1 ? '' : 's'}`)
+      .join('\n');
+
+    await notificationService.create(user._id, { type: 'saved_search', title, message, data: { searches } });
+    emailService.notify('savedSearchDigest', user.email, { name: user.fullName, searches });
+  }
+
+  async runDigest(now = new Date()) {
+    if (this.running) return { skipped: true };
+    this.running = true;
+
+    try {
+      const candidates = await SavedSearch.find({ digestEnabled: true })
+        .populate({ path: 'userId', select: 'fullName email' });
+      const due = candidates.filter(savedSearch => savedSearch.userId && this.isDigestDue(savedSearch, now));
+
+      const entriesByUser = new Map();
+      for (const savedSearch of due) {
+        try {
+          const since = savedSearch.lastDigestAt || savedSearch.createdAt;
+          const { products, total } = await this.findNewProducts(savedSearch, since, { limit: DIGEST_PREVIEW_LIMIT });
+          if (total === 0) continue;
+
+          const userId = savedSearch.userId._id.toString();
+          if (!entriesByUser.has(userId)) entriesByUser.set(userId, { user: savedSearch.userId, entries: [] });
+          entriesByUser.get(userId).entries.push({ savedSearch, products, total });
+        } catch (error) {
+          console.error(`❌ Saved search digest failed for ${savedSearch._id}:`, error.message);
+        }
+      }
+
+      let notified = 0;
+      for (const { user, entries } of entriesByUser.values()) {
+        try {
+          await this.notifyUser(user, entries);
+          notified++;
+        } catch (error) {
+          console.error(`❌ Failed to send saved search digest to ${user.email}:`, error.message);
+        }
+      }
+
+      // Every due search moves its window forward, with or without new products
+      if (due.length > 0) {
+        await SavedSearch.updateMany({ _id: { $in: due.map(savedSearch => savedSearch._id) } }, { $set: { lastDigestAt: now } });
+      }
+
+      if (notified > 0) {
+        console.log(`🔎 Saved search digests: ${notified} user(s) notified for ${due.length} due search(es)`);
+      }
+      return { due: due.length, users: notified };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ✅ SAVED_SEARCH_DIGEST_INTERVAL_MINUTES (default 60, 0 disables) - how often due digests
+  // are looked for; each saved search still only gets one per day/week
+  start(intervalMinutes = parseInt(process.env.SAVED_SEARCH_DIGEST_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.runDigest().catch(error => console.error('❌ Saved search digest run failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref(); // never keeps the process alive on its own
+
+    console.log(`🔎 Saved search digests checked every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new SavedSearchService();
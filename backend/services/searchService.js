@@ -0,0 +1,339 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const productQueryService = require('./productQueryService');
+
+// ============================================================================
+// RANKED PRODUCT SEARCH WITH FUZZY MATCHING AND FACETS
+// ============================================================================
+
+// Field weights used for relevance scoring
+const FIELD_WEIGHTS = {
+  name: 10,
+  brand: 8,
+  category: 5,
+  description: 2
+};
+
+// How strongly each kind of term match counts (multiplied by the field weight)
+const MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.8,
+  substring: 0.6,
+  fuzzy: 0.4
+};
+
+// ✅ Same buckets as PRICE_RANGES on the frontend
+const PRICE_BUCKETS = [
+  { label: 'Under ₹299', min: 0, max: 299 },
+  { label: '₹300 - ₹599', min: 300, max: 599 },
+  { label: '₹600 - ₹999', min: 600, max: 999 },
+  { label: '₹1000 - ₹1999', min: 1000, max: 1999 },
+  { label: '₹2000 - ₹4999', min: 2000, max: 4999 },
+  { label: '₹5000+', min: 5000, max: null }
+];
+
+// ✅ Sort keys per SortOption - relevance then _id break ties so cursors are stable
+const SORT_KEYS = {
+  relevance: { relevanceScore: -1, _id: 1 },
+  price_asc: { price: 1, relevanceScore: -1, _id: 1 },
+  price_desc: { price: -1, relevanceScore: -1, _id: 1 },
+  rating: { rating: -1, relevanceScore: -1, _id: 1 },
+  newest: { createdAt: -1, relevanceScore: -1, _id: 1 },
+  popularity: { ratingCount: -1, rating: -1, relevanceScore: -1, _id: 1 }
+};
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+const MAX_CANDIDATES = 2000;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value) => {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.toString().split(',');
+  return list.map(item => item.trim()).filter(Boolean);
+};
+
+class SearchService {
+
+  normalize(text) {
+    return (text || '')
+      .toString()
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  tokenize(text) {
+    return this.normalize(text).split(' ').filter(term => term.length >= 2);
+  }
+
+  // Levenshtein distance with an early exit once maxDistance is exceeded
+  editDistance(a, b, maxDistance = 2) {
+    if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > maxDistance) return maxDistance + 1;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  // Typos allowed grow with the term length: none below 4 chars, 1 up to 6, then 2
+  allowedTypos(term) {
+    if (term.length < 4) return 0;
+    return term.length <= 6 ? 1 : 2;
+  }
+
+  // Best match quality of a single query term against a field's words
+  matchTerm(term, fieldText, fieldWords) {
+    if (!fieldText) return 0;
+    if (fieldWords.includes(term)) return MATCH_SCORES.exact;
+    if (fieldWords.some(word => word.startsWith(term))) return MATCH_SCORES.prefix;
+    if (fieldText.includes(term)) return MATCH_SCORES.substring;
+
+    const typos = this.allowedTypos(term);
+    if (typos > 0 && fieldWords.some(word => this.editDistance(term, word, typos) <= typos)) {
+      return MATCH_SCORES.fuzzy;
+    }
+    return 0;
+  }
+
+  scoreProduct(product, terms) {
+    const fields = {
+      name: this.normalize(product.name),
+      brand: this.normalize(product.brand),
+      category: this.normalize(`${product.categoryTrail || product.categoryName || ''} ${product.subcategory || ''}`),
+      description: this.normalize(product.description)
+    };
+    const words = Object.fromEntries(
+      Object.entries(fields).map(([field, text]) => [field, text ? text.split(' ') : []])
+    );
+
+    let score = 0;
+    const matchedTerms = [];
+
+    terms.forEach(term => {
+      let best = 0;
+      Object.keys(FIELD_WEIGHTS).forEach(field => {
+        const quality = this.matchTerm(term, fields[field], words[field]);
+        best = Math.max(best, quality * FIELD_WEIGHTS[field]);
+      });
+      if (best > 0) {
+        score += best;
+        matchedTerms.push(term);
+      }
+    });
+
+    if (matchedTerms.length === 0) return { score: 0, matchedTerms };
+
+    // Reward products that cover every term, then the whole phrase in the name
+    score *= matchedTerms.length / terms.length;
+    if (terms.length > 1 && fields.name.includes(terms.join(' '))) {
+      score += FIELD_WEIGHTS.name;
+    }
+    // Light popularity tie-breaker
+    score += (product.rating || 0) * 0.1;
+
+    return { score: Math.round(score * 100) / 100, matchedTerms };
+  }
+
+  // Pull a broad candidate set: any field containing a term prefix, or a matching category
+  async fetchCandidates(terms, categoryId) {
+    const prefixes = terms.map(term => escapeRegex(term.slice(0, Math.min(3, term.length))));
+    const prefixRegex = new RegExp(prefixes.join('|'), 'i');
+
+    const matchingCategories = await Category.find({ name: prefixRegex }).select('_id');
+
+    const baseQuery = {};
+    if (categoryId && mongoose.Types.ObjectId.isValid(categoryId)) {
+      baseQuery.categoryPath = new mongoose.Types.ObjectId(categoryId);
+    }
+
+    let candidates = await Product.find({
+      ...baseQuery,
+      $or: [
+        { name: prefixRegex },
+        { brand: prefixRegex },
+        { description: prefixRegex },
+        { subcategory: prefixRegex },
+        { categoryPath: { $in: matchingCategories.map(c => c._id) } }
+      ]
+    })
+      .populate({ path: 'category', select: 'name' })
+      .populate({ path: 'categoryPath', select: 'name' })
+      .limit(MAX_CANDIDATES)
+      .lean();
+
+    // Typo in the first letters - fall back to scanning the catalog
+    if (candidates.length === 0) {
+      candidates = await Product.find(baseQuery)
+        .populate({ path: 'category', select: 'name' })
+        .populate({ path: 'categoryPath', select: 'name' })
+        .limit(MAX_CANDIDATES)
+        .lean();
+    }
+
+    // categoryTrail ("Men T-Shirts") lets a query for the parent category match its subcategories
+    return candidates.map(product => ({
+      ...product,
+      categoryPath: (product.categoryPath || []).map(category => category._id),
+      categoryName: product.category?.name || '',
+      categoryTrail: (product.categoryPath || []).map(category => category.name).join(' ')
+    }));
+  }
+
+  // Each predicate is keyed by the facet it belongs to so facets can skip their own filter
+  buildFilters(filters) {
+    const brands = toList(filters.brand || filters.brands);
+    const sizes = toList(filters.sizes);
+    const colors = toList(filters.colors);
+    const minPrice = parseFloat(filters.minPrice);
+    const maxPrice = parseFloat(filters.maxPrice);
+    const rating = filters.rating ? parseFloat(filters.rating) : null;
+
+    const predicates = {};
+    if (brands.length) {
+      const wanted = brands.map(b => b.toLowerCase());
+      predicates.brand = p => wanted.includes((p.brand || '').toLowerCase());
+    }
+    if (sizes.length) {
+      predicates.size = p => (p.sizes || []).some(size => sizes.includes(size));
+    }
+    if (colors.length) {
+      const wanted = colors.map(c => c.toLowerCase());
+      predicates.color = p => (p.colors || []).some(color => wanted.includes(color.toLowerCase()));
+    }
+    if (Number.isFinite(minPrice) || Number.isFinite(maxPrice)) {
+      predicates.price = p => (!Number.isFinite(minPrice) || p.price >= minPrice) &&
+        (!Number.isFinite(maxPrice) || p.price <= maxPrice);
+    }
+    if (rating) {
+      predicates.rating = p => (p.rating || 0) >= rating;
+    }
+
+    // ✅ Non-facet filters - same definitions as the product listing query
+    const discount = filters.discount ? parseFloat(filters.discount) : null;
+    if (discount) {
+      predicates.discount = p => (p.pricing?.discountPercent || 0) >= discount;
+    }
+    if (filters.inStock === 'true' || filters.inStock === 'false') {
+      const wanted = filters.inStock === 'true';
+      predicates.stock = p => ((p.stock || 0) > 0) === wanted;
+    }
+    if (filters.isNew === 'true') {
+      predicates.isNew = p => productQueryService.isNewArrival(p);
+    }
+    if (filters.isBestseller === 'true') {
+      predicates.isBestseller = p => productQueryService.isBestseller(p);
+    }
+    // ✅ Saved-search "new since" window
+    if (filters.createdAfter) {
+      const since = new Date(filters.createdAfter);
+      predicates.createdAfter = p => !!p.createdAt && new Date(p.createdAt) > since;
+    }
+    return predicates;
+  }
+
+  applyPredicates(products, predicates, skipKey = null) {
+    const active = Object.entries(predicates).filter(([key]) => key !== skipKey);
+    return products.filter(product => active.every(([, predicate]) => predicate(product)));
+  }
+
+  countBy(products, getValues) {
+    const counts = new Map();
+    products.forEach(product => {
+      new Set(getValues(product)).forEach(value => {
+        if (!value) return;
+        counts.set(value, (counts.get(value) || 0) + 1);
+      });
+    });
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.toString().localeCompare(b.value.toString()));
+  }
+
+  // ✅ Disjunctive facets: each facet ignores its own selection so users can multi-select
+  buildFacets(products, predicates) {
+    const forBrand = this.applyPredicates(products, predicates, 'brand');
+    const forPrice = this.applyPredicates(products, predicates, 'price');
+    const forSize = this.applyPredicates(products, predicates, 'size');
+    const forColor = this.applyPredicates(products, predicates, 'color');
+    const forRating = this.applyPredicates(products, predicates, 'rating');
+
+    const prices = forPrice.map(p => p.price).filter(price => typeof price === 'number');
+
+    return {
+      brands: this.countBy(forBrand, p => [p.brand]),
+      priceRanges: PRICE_BUCKETS.map(bucket => ({
+        ...bucket,
+        count: prices.filter(price => price >= bucket.min && (bucket.max === null || price <= bucket.max)).length
+      })),
+      priceRange: {
+        min: prices.length ? Math.min(...prices) : 0,
+        max: prices.length ? Math.max(...prices) : 0
+      },
+      sizes: this.countBy(forSize, p => p.sizes || []),
+      colors: this.countBy(forColor, p => p.colors || []),
+      ratings: RATING_THRESHOLDS.map(threshold => ({
+        value: threshold,
+        count: forRating.filter(p => (p.rating || 0) >= threshold).length
+      }))
+    };
+  }
+
+  sortKeys(sortBy) {
+    return SORT_KEYS[sortBy] || SORT_KEYS.relevance;
+  }
+
+  sortResults(products, sortBy) {
+    const sort = this.sortKeys(sortBy);
+    return [...products].sort((a, b) => productQueryService.compareBySort(a, b, sort));
+  }
+
+  // ✅ UPDATED: ?cursor continues after the last result of the previous page
+  async search(query, options = {}) {
+    const { page = 1, limit = 20, sortBy = 'relevance', categoryId, cursor, ...filters } = options;
+    const terms = this.tokenize(query);
+
+    if (terms.length === 0) {
+      return { products: [], total: 0, facets: this.buildFacets([], {}), terms, hasNextPage: false, nextCursor: null };
+    }
+
+    const candidates = await this.fetchCandidates(terms, categoryId);
+
+    const matched = candidates
+      .map(product => {
+        const { score, matchedTerms } = this.scoreProduct(product, terms);
+        return { ...product, relevanceScore: score, matchedTerms };
+      })
+      .filter(product => product.relevanceScore > 0);
+
+    const predicates = this.buildFilters(filters);
+    const filtered = this.applyPredicates(matched, predicates);
+    const sorted = this.sortResults(filtered, sortBy);
+    const { items: products, hasNextPage, nextCursor } = productQueryService.paginate(
+      sorted, this.sortKeys(sortBy), { cursor, page, limit }
+    );
+
+    return {
+      products,
+      total: filtered.length,
+      facets: this.buildFacets(matched, predicates),
+      terms,
+      hasNextPage,
+      nextCursor
+    };
+  }
+}
+
+module.exports = new SearchService();
@@ -0,0 +1,197 @@
+const Product = require('../models/Product');
+const StockSubscription = require('../models/StockSubscription');
+const inventoryService = require('./inventoryService');
+const notificationService = require('./notificationService');
+const emailService = require('./emailService');
+
+// ============================================================================
+// BACK IN STOCK - "NOTIFY ME" SUBSCRIPTIONS FOR SOLD-OUT SIZES, PROCESSED ON RESTOCK
+// ============================================================================
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+const stockAlertError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const sameOption = (a, b) => (a || '').toString().trim().toLowerCase() === (b || '').toString().trim().toLowerCase();
+
+class StockAlertService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.pending = new Set();
+    this.flushScheduled = false;
+  }
+
+  // ✅ Units available for a subscription's size (and color, when it names one)
+  availableFor(availability, subscription) {
+    const entry = (availability || []).find(option => sameOption(option.size, subscription.size));
+    if (!entry) return 0;
+    if (!subscription.color) return entry.available;
+
+    const colorEntry = entry.colors.find(option => sameOption(option.color, subscription.color));
+    return colorEntry ? colorEntry.available : entry.available;
+  }
+
+  // ✅ Only sold-out sizes of stock-tracked products can be subscribed to; repeats return the existing one
+  async subscribe(userId, { productId, size = '', color = '' }) {
+    const product = await Product.findById(productId).select('name brand sizes colors skus').lean();
+    if (!product) throw stockAlertError('Product not found', 'PRODUCT_NOT_FOUND');
+
+    const availability = await inventoryService.getSizeAvailability(product);
+    if (!availability) {
+      throw stockAlertError('Stock is not tracked for this product', 'NOT_TRACKED');
+    }
+    if (!availability.some(option => sameOption(option.size, size))) {
+      throw stockAlertError(`Size ${size || '(none)'} is not sold for this product`, 'INVALID_OPTION');
+    }
+
+    const subscriptionFields = { userId, productId: product._id, size: size.trim(), color: color.trim() };
+    if (this.availableFor(availability, subscriptionFields) > 0) {
+      throw stockAlertError('This size is in stock', 'IN_STOCK');
+    }
+
+    const existing = await StockSubscription.findOne({ ...subscriptionFields, status: 'active' });
+    if (existing) return { subscription: existing, created: false };
+
+    try {
+      const subscription = await StockSubscription.create(subscriptionFields);
+      return { subscription, created: true };
+    } catch (error) {
+      // Lost a race with an identical request
+      if (error.code === 11000) {
+        return { subscription: await StockSubscription.findOne({ ...subscriptionFields, status: 'active' }), created: false };
+      }
+      throw error;
+    }
+  }
+
+  list(userId, { status = 'active' } = {}) {
+    const query = { userId };
+    if (status) query.status = status;
+
+    return StockSubscription.find(query)
+      .sort({ createdAt: -1 })
+      .populate({ path: 'productId', select: 'name brand price discount images' })
+      .lean();
+  }
+
+  // ✅ Returns null unless it is the user's own active subscription
+  cancel(userId, subscriptionId) {
+    return StockSubscription.findOneAndUpdate(
+      { _id: subscriptionId, userId, status: 'active' },
+      { $set: { status: 'cancelled', cancelledAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  // ✅ Notify every active subscription whose size is available again
+  async processProducts(productIds) {
+    let notified = 0;
+
+    for (const productId of productIds) {
+      const subscriptions = await StockSubscription.find({ productId, status: 'active' })
+        .populate({ path: 'userId', select: 'fullName email' });
+      if (subscriptions.length === 0) continue;
+
+      const product = await Product.findById(productId).select('name brand price images sizes skus').lean();
+      if (!product) continue;
+
+      const availability = await inventoryService.getSizeAvailability(product);
+      if (!availability) continue;
+
+      for (const subscription of subscriptions) {
+        if (!subscription.userId || this.availableFor(availability, subscription) === 0) continue;
+
+        // Claim it first so a concurrent run can't notify twice
+        const claimed = await StockSubscription.findOneAndUpdate(
+          { _id: subscription._id, status: 'active' },
+          { $set: { status: 'notified', notifiedAt: new Date() } }
+        );
+        if (!claimed) continue;
+
+        try {
+          await this.notifyUser(subscription.userId, product, subscription);
+          notified++;
+        } catch (error) {
+          console.error(`❌ Failed to send back-in-stock alert to ${subscription.userId.email}:`, error.message);
+        }
+      }
+    }
+
+    if (notified > 0) console.log(`📦 Back in stock: ${notified} subscriber(s) notified`);
+    return { notified };
+  }
+
+  async notifyUser(user, product, { size, color }) {
+    const variant = [size && `size ${size}`, color].filter(Boolean).join(', ');
+
+    await notificationService.create(user._id, {
+      type: 'back_in_stock',
+      title: `Back in stock: ${product.name}`.slice(0, 120),
+      message: `${product.brand ? `${product.brand} ` : ''}${product.name}${variant ? ` in ${variant}` : ''} is available again.`,
+      data: {
+        productId: product._id.toString(),
+        name: product.name,
+        brand: product.brand,
+        image: product.images?.[0] || null,
+        price: product.price,
+        size,
+        color
+      }
+    });
+
+    emailService.notify('backInStock', user.email, { name: user.fullName, product, size, color });
+  }
+
+  // ✅ Called by the Product model when stock goes up; batched so a multi-SKU restock runs once
+  queueRestock(productIds) {
+    productIds.forEach(productId => this.pending.add(productId.toString()));
+    if (this.pending.size === 0 || this.flushScheduled) return;
+
+    this.flushScheduled = true;
+    setImmediate(() => {
+      const batch = [...this.pending];
+      this.pending.clear();
+      this.flushScheduled = false;
+      this.processProducts(batch).catch(error => console.error('❌ Back-in-stock processing failed:', error.message));
+    });
+  }
+
+  // ✅ Sweep of every product with active subscriptions (catches restocks made outside the model hooks)
+  async runCheck() {
+    if (this.running) return { skipped: true };
+    this.running = true;
+
+    try {
+      const productIds = await StockSubscription.distinct('productId', { status: 'active' });
+      return await this.processProducts(productIds);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ✅ STOCK_ALERT_INTERVAL_MINUTES (default 15, 0 disables)
+  start(intervalMinutes = parseInt(process.env.STOCK_ALERT_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.runCheck().catch(error => console.error('❌ Back-in-stock check failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`📦 Back-in-stock checker running every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new StockAlertService();
@@ -0,0 +1,212 @@
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const SearchLog = require('../models/SearchLog');
+
+// ============================================================================
+// TYPEAHEAD SUGGESTIONS - IN-MEMORY PREFIX INDEX + TRENDING QUERIES
+// ============================================================================
+
+const INDEX_TTL_MS = 10 * 60 * 1000; // rebuild the prefix index every 10 minutes
+
+// Max suggestions returned per type, in display order
+const TYPE_LIMITS = {
+  query: 3,
+  brand: 3,
+  category: 4, // ✅ Includes subcategories (child categories)
+  product: 4
+};
+
+const normalize = (text) => (text || '')
+  .toString()
+  .toLowerCase()
+  .replace(/[^a-z0-9&\s]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+class SuggestService {
+
+  constructor() {
+    this.index = [];       // sorted [{ key, entry }] - binary searched by prefix
+    this.builtAt = 0;
+    this.buildPromise = null;
+  }
+
+  // Index the full text plus every word start, so "tee" finds "Classic Cotton Tee"
+  indexKeysFor(text) {
+    const normalized = normalize(text);
+    if (!normalized) return [];
+    const words = normalized.split(' ');
+    return words.map((_, i) => words.slice(i).join(' '));
+  }
+
+  async buildIndex() {
+    const [products, categories] = await Promise.all([
+      Product.find().select('name brand images category categoryPath').lean(),
+      Category.find().select('name image parent').lean()
+    ]);
+
+    const entries = new Map();
+    const upsert = (id, data) => {
+      const existing = entries.get(id);
+      if (existing) {
+        existing.count += 1;
+        return existing;
+      }
+      const entry = { id, ...data, count: 1 };
+      entries.set(id, entry);
+      return entry;
+    };
+
+    const categoryById = new Map(categories.map(category => [category._id.toString(), category]));
+
+    // Categories are listed even before they have products; subcategories read "T-Shirts in Men"
+    categories.forEach(category => {
+      const parent = category.parent && categoryById.get(category.parent.toString());
+      entries.set(`category-${category._id}`, {
+        id: `category-${category._id}`,
+        type: 'category',
+        text: parent ? `${category.name} in ${parent.name}` : category.name,
+        image: category.image,
+        categoryId: category._id.toString(),
+        categoryName: category.name,
+        keyText: category.name,
+        count: 0
+      });
+    });
+
+    products.forEach(product => {
+      const productId = product._id.toString();
+      entries.set(`product-${productId}`, {
+        id: `product-${productId}`,
+        type: 'product',
+        text: product.name,
+        image: product.images?.[0],
+        productId,
+        brand: product.brand
+      });
+
+      if (product.brand) {
+        upsert(`brand-${normalize(product.brand).replace(/\s+/g, '-')}`, {
+          type: 'brand',
+          text: product.brand,
+          brand: product.brand
+        });
+      }
+
+      // A product counts towards its category and every category above it
+      (product.categoryPath || []).forEach(categoryId => {
+        const entry = entries.get(`category-${categoryId}`);
+        if (entry) entry.count += 1;
+      });
+    });
+
+    const index = [];
+    entries.forEach(entry => {
+      this.indexKeysFor(entry.keyText || entry.text).forEach(key => index.push({ key, entry }));
+    });
+    index.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    this.index = index;
+    this.builtAt = Date.now();
+    console.log(`🔤 Suggestion index built: ${entries.size} entries, ${index.length} keys`);
+  }
+
+  async ensureIndex() {
+    if (this.builtAt && Date.now() - this.builtAt < INDEX_TTL_MS) return;
+    if (!this.buildPromise) {
+      this.buildPromise = this.buildIndex().finally(() => {
+        this.buildPromise = null;
+      });
+    }
+    await this.buildPromise;
+  }
+
+  // ✅ Call after catalog changes so the next request rebuilds the index
+  invalidate() {
+    this.builtAt = 0;
+  }
+
+  lowerBound(prefix) {
+    let low = 0;
+    let high = this.index.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.index[mid].key < prefix) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  lookup(prefix) {
+    const matches = new Map();
+    for (let i = this.lowerBound(prefix); i < this.index.length; i++) {
+      const { key, entry } = this.index[i];
+      if (!key.startsWith(prefix)) break;
+      const existing = matches.get(entry.id);
+      // Matching from the first word ranks above a mid-text word match
+      const startsText = normalize(entry.keyText || entry.text).startsWith(prefix);
+      if (!existing || (startsText && !existing.startsText)) {
+        matches.set(entry.id, { entry, startsText });
+      }
+    }
+    return Array.from(matches.values());
+  }
+
+  async suggest(query, limit = 10) {
+    const prefix = normalize(query);
+
+    const trendingPromise = SearchLog.getTrendingQueries({
+      prefix,
+      limit: prefix ? TYPE_LIMITS.query : limit
+    }).catch(error => {
+      console.warn('⚠️ Trending queries unavailable:', error.message);
+      return [];
+    });
+
+    // Empty query → popular searches only
+    if (!prefix) {
+      const trending = await trendingPromise;
+      return trending.map(this.toQuerySuggestion);
+    }
+
+    await this.ensureIndex();
+    const [matches, trending] = await Promise.all([this.lookup(prefix), trendingPromise]);
+
+    const byType = {};
+    matches
+      .filter(({ entry }) => entry.type === 'product' || entry.count > 0)
+      .sort((a, b) =>
+        Number(b.startsText) - Number(a.startsText) ||
+        (b.entry.count || 0) - (a.entry.count || 0) ||
+        a.entry.text.localeCompare(b.entry.text)
+      )
+      .forEach(({ entry }) => {
+        byType[entry.type] = byType[entry.type] || [];
+        if (byType[entry.type].length < TYPE_LIMITS[entry.type]) {
+          const { keyText, ...suggestion } = entry;
+          byType[entry.type].push(suggestion);
+        }
+      });
+
+    const suggestions = [
+      ...trending.map(this.toQuerySuggestion),
+      ...(byType.brand || []),
+      ...(byType.category || []),
+      ...(byType.product || [])
+    ];
+
+    return suggestions.slice(0, limit);
+  }
+
+  toQuerySuggestion({ query, searchCount, avgResults }) {
+    return {
+      id: `query-${query.replace(/\s+/g, '-')}`,
+      type: 'query',
+      text: query,
+      count: avgResults,
+      searchCount
+    };
+  }
+}
+
+module.exports = new SuggestService();
@@ -0,0 +1,108 @@
+const Order = require('../models/Order');
+const PaymentIntent = require('../models/PaymentIntent');
+const couponService = require('./couponService');
+const saleService = require('./saleService');
+const emailService = require('./emailService');
+
+// ============================================================================
+// UNPAID ORDERS - CANCEL ONLINE ORDERS WHOSE PAYMENT NEVER COMPLETED
+// ============================================================================
+
+// An online order holds its stock, coupon redemption and sale units from the moment it's
+// placed; one left unpaid past the window gives them back.
+
+const DEFAULT_TTL_MINUTES = 30;
+const DEFAULT_INTERVAL_MINUTES = 5;
+const EXPIRY_REASON = 'Payment not completed in time';
+
+class UnpaidOrderService {
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  // ✅ UNPAID_ORDER_TTL_MINUTES (default 30) - how long an online order waits for its payment
+  get ttlMinutes() {
+    const minutes = parseInt(process.env.UNPAID_ORDER_TTL_MINUTES ?? DEFAULT_TTL_MINUTES);
+    return minutes > 0 ? minutes : DEFAULT_TTL_MINUTES;
+  }
+
+  // When an unpaid online order will be cancelled; null once it's paid or no longer pending
+  getPaymentDueAt(order) {
+    if (order.status !== 'Pending' || order.payment?.method === 'COD') return null;
+    if (!['Pending', 'Failed'].includes(order.payment?.status)) return null;
+    return new Date(new Date(order.orderDate).getTime() + this.ttlMinutes * 60 * 1000);
+  }
+
+  async expireOrder(order) {
+    // A confirmation that lands after this is refunded, not applied (see paymentService.applyOutcome)
+    await PaymentIntent.updateMany(
+      { orderId: order._id, status: { $in: ['requires_confirmation', 'processing'] } },
+      { $set: { status: 'cancelled' } }
+    );
+
+    // Only while still unpaid - a payment confirmed since the lookup keeps the order
+    await order.cancelOrder(EXPIRY_REASON, {
+      updatedBy: 'system',
+      onlyIf: { status: 'Pending', 'payment.status': { $in: ['Pending', 'Failed'] } }
+    });
+    await couponService.releaseOrderCoupons(order);
+    await saleService.releaseOrderSales(order);
+    emailService.notifyOrderStatus(order, 'Cancelled', { reason: EXPIRY_REASON, refundAmount: 0 });
+  }
+
+  async expireUnpaidOrders(now = new Date()) {
+    if (this.running) return { skipped: true };
+    this.running = true;
+
+    try {
+      const cutoff = new Date(now.getTime() - this.ttlMinutes * 60 * 1000);
+      const orders = await Order.find({
+        status: 'Pending',
+        'payment.method': { $ne: 'COD' },
+        'payment.status': { $in: ['Pending', 'Failed'] },
+        orderDate: { $lte: cutoff }
+      });
+
+      let expired = 0;
+      for (const order of orders) {
+        try {
+          await this.expireOrder(order);
+          expired++;
+        } catch (error) {
+          // Paid or cancelled in the meantime - the atomic cancel claim lost, nothing to undo
+          if (error.code === 'INVALID_STATUS_TRANSITION') continue;
+          console.error(`❌ Failed to expire unpaid order ${order.orderId}:`, error.message);
+        }
+      }
+
+      if (expired > 0) {
+        console.log(`⌛ Cancelled ${expired} unpaid order(s) older than ${this.ttlMinutes} minute(s)`);
+      }
+      return { due: orders.length, expired };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ✅ UNPAID_ORDER_CHECK_INTERVAL_MINUTES (default 5, 0 disables)
+  start(intervalMinutes = parseInt(process.env.UNPAID_ORDER_CHECK_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) return false;
+
+    this.timer = setInterval(() => {
+      this.expireUnpaidOrders().catch(error => console.error('❌ Unpaid order expiry failed:', error.message));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`⌛ Unpaid order expiry running every ${intervalMinutes} minute(s)`);
+    return true;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new UnpaidOrderService();
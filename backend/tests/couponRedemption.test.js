@@ -0,0 +1,92 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+const Coupon = require('../models/Coupon');
+const CouponUsage = require('../models/CouponUsage');
+const couponService = require('../services/couponService');
+const { installMemoryStore } = require('./helpers/memoryStore');
+
+// ============================================================================
+// COUPON REDEMPTION LIMITS UNDER CONCURRENT CHECKOUTS
+// ============================================================================
+
+let coupons;
+let usages;
+let originalLog;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const insertCoupon = (overrides = {}) => coupons.insert({
+  code: 'SAVE100',
+  description: '₹100 off',
+  discount: 100,
+  discountType: 'fixed',
+  validFrom: new Date(Date.now() - DAY_MS),
+  validUpto: new Date(Date.now() + DAY_MS),
+  ...overrides
+});
+
+const userId = () => new mongoose.Types.ObjectId().toString();
+
+beforeEach(() => {
+  coupons = installMemoryStore(Coupon);
+  usages = installMemoryStore(CouponUsage);
+  originalLog = console.log;
+  console.log = () => {};
+});
+
+afterEach(() => {
+  coupons.restore();
+  usages.restore();
+  console.log = originalLog;
+});
+
+test('the last global redemption goes to exactly one of two checkouts', async () => {
+  const coupon = await Coupon.findById(insertCoupon({ usageLimit: 1 })._id);
+  const [first, second] = [userId(), userId()];
+
+  const results = await Promise.allSettled([
+    couponService.redeem(coupon, first, 'ORD-1', 100),
+    couponService.redeem(coupon, second, 'ORD-2', 100)
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal(results.find(result => result.status === 'rejected').reason.code, 'COUPON_LIMIT_REACHED');
+  assert.equal(coupons.get(coupon._id).used, 1);
+  // The losing checkout's per-user slot is handed back
+  assert.deepEqual(usages.docs.map(usage => usage.count).sort(), [0, 1]);
+});
+
+test('one user cannot redeem a once-per-user coupon in two parallel checkouts', async () => {
+  const coupon = await Coupon.findById(insertCoupon({ perUserLimit: 1 })._id);
+  const user = userId();
+
+  const results = await Promise.allSettled([
+    couponService.redeem(coupon, user, 'ORD-1', 100),
+    couponService.redeem(coupon, user, 'ORD-2', 100)
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal(results.find(result => result.status === 'rejected').reason.code, 'COUPON_LIMIT_REACHED');
+  assert.equal(usages.docs.length, 1);
+  assert.equal(usages.docs[0].count, 1);
+  assert.equal(coupons.get(coupon._id).used, 1);
+});
+
+test('releasing a cancelled order frees its redemption once', async () => {
+  const coupon = await Coupon.findById(insertCoupon({ usageLimit: 1, perUserLimit: 1 })._id);
+  const user = userId();
+  const order = { orderId: 'ORD-1', userId: user, coupons: [{ code: 'SAVE100' }] };
+
+  await couponService.redeem(coupon, user, order.orderId, 100);
+  await Promise.all([couponService.releaseOrderCoupons(order), couponService.releaseOrderCoupons(order)]);
+
+  assert.equal(coupons.get(coupon._id).used, 0);
+  assert.equal(usages.docs[0].count, 0);
+  assert.equal(usages.docs[0].redemptions[0].status, 'released');
+
+  // The freed slot can be used again
+  await couponService.redeem(await Coupon.findById(coupon._id), user, 'ORD-2', 100);
+  assert.equal(coupons.get(coupon._id).used, 1);
+});
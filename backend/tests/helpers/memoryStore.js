@@ -0,0 +1,229 @@
+const mongoose = require('mongoose');
+
+// ============================================================================
+// IN-MEMORY STAND-IN FOR A MODEL'S COLLECTION (TESTS ONLY)
+// ============================================================================
+
+// Replaces the few model calls the services use with versions that run against plain objects.
+// Each call matches and writes without awaiting in between, like a single MongoDB operation,
+// so concurrent callers race the way they would against the database.
+// Filters: equality (arrays: contains), $in, $nin, $ne, $lt/$lte/$gt/$gte, $elemMatch, $or,
+// $expr ($lt/$gt of two fields) and dotted paths. Updates: $set, $setOnInsert, $inc, $push
+// ($each/$slice), $pull, $addToSet and the positional `$` of an $elemMatch. Upserts honour
+// the schema's unique indexes (E11000 on a duplicate).
+
+const clone = (value) => JSON.parse(JSON.stringify(value));
+const same = (a, b) => String(a) === String(b);
+
+const getPath = (object, path) => path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), object);
+
+const setPath = (object, path, value) => {
+  const keys = path.split('.');
+  const last = keys.pop();
+  const target = keys.reduce((node, key) => (node[key] = node[key] ?? {}), object);
+  target[last] = value;
+};
+
+// Stored dates are ISO strings (documents are kept as JSON)
+const comparable = (value) => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && Number.isNaN(Number(value)) && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+  return value;
+};
+
+const isOperatorObject = (value) => value && typeof value === 'object' && !Array.isArray(value) &&
+  !(value instanceof mongoose.Types.ObjectId) && !(value instanceof Date) &&
+  Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+
+const matchesValue = (actual, expected, path, context) => {
+  if (isOperatorObject(expected)) {
+    return Object.entries(expected).every(([operator, operand]) => {
+      switch (operator) {
+        case '$in': return operand.some(option => matchesValue(actual, option));
+        case '$nin': return !operand.some(option => matchesValue(actual, option));
+        case '$ne': return !matchesValue(actual, operand);
+        case '$lt': return actual != null && comparable(actual) < comparable(operand);
+        case '$lte': return actual != null && comparable(actual) <= comparable(operand);
+        case '$gt': return actual != null && comparable(actual) > comparable(operand);
+        case '$gte': return actual != null && comparable(actual) >= comparable(operand);
+        case '$elemMatch': {
+          const index = (actual || []).findIndex(element => matches(element, operand));
+          if (index !== -1 && context) context.positions[path] = index;
+          return index !== -1;
+        }
+        default: throw new Error(`memoryStore: unsupported operator ${operator}`);
+      }
+    });
+  }
+  if (Array.isArray(actual)) return actual.some(item => same(item, expected));
+  if (expected === null) return actual == null;
+  return actual !== undefined && same(actual, expected);
+};
+
+const fieldValue = (doc, operand) => (typeof operand === 'string' && operand.startsWith('$') ? getPath(doc, operand.slice(1)) : operand);
+
+const matchesExpression = (doc, expression) => Object.entries(expression).every(([operator, [left, right]]) => {
+  const a = comparable(fieldValue(doc, left));
+  const b = comparable(fieldValue(doc, right));
+  switch (operator) {
+    case '$lt': return a < b;
+    case '$gt': return a > b;
+    default: throw new Error(`memoryStore: unsupported $expr operator ${operator}`);
+  }
+});
+
+const matches = (doc, filter = {}, context = null) => Object.entries(filter).every(([path, expected]) => {
+  if (path === '$or') return expected.some(branch => matches(doc, branch, context));
+  if (path === '$expr') return matchesExpression(doc, expected);
+  return matchesValue(getPath(doc, path), expected, path, context);
+});
+
+// Subdocuments pushed into a document array get their schema defaults, as Mongoose casts them
+const castElements = (schema, path, values) => {
+  const Subdocument = schema?.path(path.replace(/\.\d+(\.|$)/g, '$1'))?.casterConstructor;
+  if (!Subdocument?.schema) return clone(values);
+  return values.map(value => clone(new Subdocument(value).toObject()));
+};
+
+const applyUpdate = (doc, update, { positions = {}, inserting = false, schema = null } = {}) => {
+  const operators = Object.keys(update).some(key => key.startsWith('$')) ? update : { $set: update };
+
+  for (const [operator, fields] of Object.entries(operators)) {
+    if (operator === '$setOnInsert' && !inserting) continue;
+
+    for (const [rawPath, value] of Object.entries(fields)) {
+      const path = rawPath.replace(/^([^$]+)\.\$\./, (whole, arrayPath) => `${arrayPath}.${positions[arrayPath]}.`);
+      const current = getPath(doc, path);
+      switch (operator) {
+        case '$set':
+        case '$setOnInsert':
+          setPath(doc, path, clone(value));
+          break;
+        case '$inc':
+          setPath(doc, path, (current || 0) + value);
+          break;
+        case '$push': {
+          const list = [...(current || []), ...castElements(schema, path, value.$each ?? [value])];
+          setPath(doc, path, value.$slice ? list.slice(value.$slice) : list);
+          break;
+        }
+        case '$addToSet':
+          setPath(doc, path, (current || []).some(item => same(item, value)) ? current : [...(current || []), clone(value)]);
+          break;
+        case '$pull':
+          // { field: value } pulls matching subdocuments, anything else equal values
+          setPath(doc, path, (current || []).filter(item => (value?.constructor === Object
+            ? !matches(item, value)
+            : !same(item, value))));
+          break;
+        default:
+          throw new Error(`memoryStore: unsupported update operator ${operator}`);
+      }
+    }
+  }
+};
+
+// A settled query that also supports the chained .select()/.sort()/.session()/.lean() calls
+const query = (result, error = null) => {
+  const promise = error ? Promise.reject(error) : Promise.resolve(result);
+  promise.select = () => promise;
+  promise.sort = () => promise;
+  promise.session = () => promise;
+  promise.lean = () => query(result && clone(result.toObject ? result.toObject() : result));
+  return promise;
+};
+
+/**
+ * Install the store on a model; returns { docs, insert, get, restore }. `docs` holds the stored
+ * plain objects, `get(id)` a stored copy, `restore()` puts the real model methods back.
+ */
+const installMemoryStore = (Model) => {
+  const docs = [];
+  const originals = {};
+  const statics = ['findById', 'findOne', 'find', 'findOneAndUpdate', 'updateOne', 'updateMany'];
+
+  const findStored = (filter, context = null) => docs.find(doc => matches(doc, filter, context));
+  const hydrate = (doc) => (doc ? Model.hydrate(clone(doc)) : null);
+
+  const uniqueIndexes = Model.schema.indexes()
+    .filter(([, options]) => options?.unique)
+    .map(([fields]) => Object.keys(fields));
+
+  const insertStored = (doc) => {
+    const duplicate = uniqueIndexes.some(fields => docs.some(stored => fields.every(field => same(getPath(stored, field), getPath(doc, field)))));
+    if (duplicate) throw Object.assign(new Error(`E11000 duplicate key error (${Model.modelName})`), { code: 11000 });
+    docs.push(doc);
+    return doc;
+  };
+
+  // Equality conditions of a filter seed an upserted document, as in MongoDB
+  const upsertSeed = (filter) => Object.entries(filter).reduce((doc, [path, value]) => {
+    if (!path.startsWith('$') && !isOperatorObject(value)) setPath(doc, path, clone(value));
+    return doc;
+  }, { _id: new mongoose.Types.ObjectId().toString() });
+
+  statics.forEach(name => { originals[name] = Model[name]; });
+  originals.save = Model.prototype.save;
+
+  Model.findById = (id) => query(hydrate(findStored({ _id: id })));
+  Model.findOne = (filter) => query(hydrate(findStored(filter)));
+  Model.find = (filter) => query(docs.filter(doc => matches(doc, filter)).map(hydrate));
+
+  Model.findOneAndUpdate = (filter, update, options = {}) => {
+    const context = { positions: {} };
+    const doc = findStored(filter, context);
+    if (!doc) {
+      if (!options.upsert) return query(null);
+      try {
+        const inserted = upsertSeed(filter);
+        applyUpdate(inserted, update, { inserting: true, schema: Model.schema });
+        insertStored(inserted);
+        return query(options.new ? hydrate(inserted) : null);
+      } catch (error) {
+        return query(null, error);
+      }
+    }
+    const before = hydrate(doc);
+    applyUpdate(doc, update, { ...context, schema: Model.schema });
+    return query(options.new ? hydrate(doc) : before);
+  };
+
+  Model.updateOne = async (filter, update) => {
+    const context = { positions: {} };
+    const doc = findStored(filter, context);
+    if (doc) applyUpdate(doc, update, { ...context, schema: Model.schema });
+    return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+  };
+
+  Model.updateMany = async (filter, update) => {
+    const matched = docs.filter(doc => matches(doc, filter));
+    matched.forEach(doc => applyUpdate(doc, update, { schema: Model.schema }));
+    return { matchedCount: matched.length, modifiedCount: matched.length };
+  };
+
+  // Whole-document write, honouring the `$where` conditions save() adds to its query
+  Model.prototype.save = async function() {
+    const index = docs.findIndex(doc => matches(doc, { ...(this.$where || {}), _id: this._id }));
+    if (index === -1) {
+      if (this.$where || docs.some(doc => same(doc._id, this._id))) {
+        throw new mongoose.Error.DocumentNotFoundError({ _id: this._id }, Model.modelName, 0, {});
+      }
+      insertStored(clone(this.toObject()));
+    } else {
+      docs[index] = clone(this.toObject());
+    }
+    return this;
+  };
+
+  return {
+    docs,
+    insert: (doc) => insertStored(clone(new Model(doc).toObject())),
+    get: (id) => clone(findStored({ _id: id })),
+    restore: () => {
+      statics.forEach(name => { Model[name] = originals[name]; });
+      Model.prototype.save = originals.save;
+    }
+  };
+};
+
+module.exports = { installMemoryStore };
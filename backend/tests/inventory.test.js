@@ -0,0 +1,84 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+const Product = require('../models/Product');
+const inventoryService = require('../services/inventoryService');
+const { installMemoryStore } = require('./helpers/memoryStore');
+
+// ============================================================================
+// PER-SKU STOCK DECREMENTS UNDER CONCURRENT CHECKOUTS
+// ============================================================================
+
+let store;
+
+const insertProduct = (skus) => store.insert({
+  name: 'Sneakers',
+  brand: 'Brand',
+  price: 2999,
+  sizes: skus.map(sku => sku.size),
+  skus,
+  stock: skus.reduce((sum, sku) => sum + sku.stock, 0)
+});
+
+const skuStock = (productId, size) => store.get(productId).skus.find(sku => sku.size === size).stock;
+
+beforeEach(() => {
+  store = installMemoryStore(Product);
+});
+
+afterEach(() => {
+  store.restore();
+});
+
+test('concurrent checkouts cannot sell the last unit twice', async () => {
+  const { _id } = insertProduct([{ size: '9', color: '', stock: 1 }]);
+  const item = { productId: _id, size: '9', quantity: 1 };
+
+  const results = await Promise.allSettled([
+    inventoryService.decrementStock([item]),
+    inventoryService.decrementStock([item])
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal(results.find(result => result.status === 'rejected').reason.code, 'INSUFFICIENT_STOCK');
+  assert.equal(skuStock(_id, '9'), 0);
+  assert.equal(store.get(_id).stock, 0);
+});
+
+test('a checkout that runs out on a later item puts the earlier ones back', async () => {
+  const { _id } = insertProduct([
+    { size: '8', color: '', stock: 3 },
+    { size: '10', color: '', stock: 1 }
+  ]);
+
+  await assert.rejects(
+    inventoryService.decrementStock([
+      { productId: _id, size: '8', quantity: 2 },
+      { productId: _id, size: '10', quantity: 2 }
+    ]),
+    { code: 'INSUFFICIENT_STOCK' }
+  );
+
+  assert.equal(skuStock(_id, '8'), 3);
+  assert.equal(skuStock(_id, '10'), 1);
+  assert.equal(store.get(_id).stock, 4);
+});
+
+test('restocking a cancelled order returns its units to the same SKU', async () => {
+  const { _id } = insertProduct([{ size: '9', color: 'Black', stock: 2 }]);
+  const items = [{ productId: _id, size: '9', color: 'black', quantity: 2 }];
+
+  const applied = await inventoryService.decrementStock(items);
+  assert.equal(skuStock(_id, '9'), 0);
+
+  await inventoryService.restoreStock(applied);
+  assert.equal(skuStock(_id, '9'), 2);
+});
+
+test('untracked products (no SKUs) are left alone', async () => {
+  const { _id } = store.insert({ name: 'Gift card', brand: 'Brand', price: 500, skus: [] });
+
+  const applied = await inventoryService.decrementStock([{ productId: new mongoose.Types.ObjectId(_id), quantity: 5 }]);
+  assert.deepEqual(applied, []);
+});
@@ -0,0 +1,126 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+const Order = require('../models/Order');
+const inventoryService = require('../services/inventoryService');
+const { installMemoryStore } = require('./helpers/memoryStore');
+
+// ============================================================================
+// ORDER STATUS CHANGES RACING A CANCELLATION
+// ============================================================================
+
+let store;
+let restocked;
+let originalRestoreStock;
+
+const insertOrder = (overrides = {}) => store.insert({
+  orderId: 'ORD-TEST-1',
+  userId: new mongoose.Types.ObjectId(),
+  status: 'Confirmed',
+  items: [{
+    productId: new mongoose.Types.ObjectId(),
+    productSnapshot: { name: 'Tee', brand: 'Brand' },
+    size: 'M',
+    price: 500,
+    quantity: 2,
+    status: 'Processing'
+  }],
+  payment: { method: 'UPI', status: 'Completed', paidAmount: 1000, refundAmount: 0 },
+  pricing: { subtotal: 1000, total: 1000 },
+  tracking: { status: 'Order Placed', timeline: [] },
+  ...overrides
+});
+
+beforeEach(() => {
+  store = installMemoryStore(Order);
+  restocked = [];
+  originalRestoreStock = inventoryService.restoreStock;
+  inventoryService.restoreStock = async (items) => { restocked.push(...items); };
+});
+
+afterEach(() => {
+  store.restore();
+  inventoryService.restoreStock = originalRestoreStock;
+});
+
+test('of two concurrent cancels only one restocks and refunds', async () => {
+  const { _id } = insertOrder();
+  const [first, second] = await Promise.all([Order.findById(_id), Order.findById(_id)]);
+  const refunds = [];
+  const refundPayment = async (amount) => { refunds.push(amount); };
+
+  const results = await Promise.allSettled([
+    first.cancelOrder('Changed my mind', { refundPayment }),
+    second.cancelOrder('Changed my mind', { refundPayment })
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  const rejected = results.find(result => result.status === 'rejected');
+  assert.equal(rejected.reason.code, 'INVALID_STATUS_TRANSITION');
+  assert.deepEqual(refunds, [1000]);
+  assert.equal(restocked.length, 1);
+  assert.equal(store.get(_id).status, 'Cancelled');
+});
+
+test('a status change loaded before a cancel cannot overwrite it', async () => {
+  const { _id } = insertOrder();
+  const adminCopy = await Order.findById(_id);
+  const customerCopy = await Order.findById(_id);
+
+  await customerCopy.cancelOrder('Ordered by mistake', { refundPayment: async () => {} });
+
+  await assert.rejects(
+    adminCopy.updateStatus('Processing', 'Warehouse', '', 'admin'),
+    { code: 'INVALID_STATUS_TRANSITION' }
+  );
+  assert.equal(store.get(_id).status, 'Cancelled');
+  assert.equal(store.get(_id).payment.status, 'Refunded');
+});
+
+test('a cancel after a stale status change still wins the claim', async () => {
+  const { _id } = insertOrder();
+  const adminCopy = await Order.findById(_id);
+
+  await adminCopy.updateStatus('Processing', 'Warehouse', '', 'admin');
+  const customerCopy = await Order.findById(_id);
+  await customerCopy.cancelOrder('Too slow', { refundPayment: async () => {} });
+
+  assert.equal(store.get(_id).status, 'Cancelled');
+  assert.equal(restocked.length, 1);
+});
+
+test('a failed refund hands the order back without restocking', async () => {
+  const { _id } = insertOrder();
+  const order = await Order.findById(_id);
+
+  await assert.rejects(
+    order.cancelOrder('Changed my mind', {
+      refundPayment: async () => { throw Object.assign(new Error('Gateway down'), { code: 'REFUND_FAILED' }); }
+    }),
+    { code: 'REFUND_FAILED' }
+  );
+  assert.equal(store.get(_id).status, 'Confirmed');
+  assert.equal(restocked.length, 0);
+
+  const retry = await Order.findById(_id);
+  await retry.cancelOrder('Changed my mind', { refundPayment: async () => {} });
+  assert.equal(store.get(_id).status, 'Cancelled');
+});
+
+test('onlyIf narrows the cancel claim to the stored state', async () => {
+  const { _id } = insertOrder({ status: 'Pending', payment: { method: 'UPI', status: 'Pending' } });
+  const expiryCopy = await Order.findById(_id);
+
+  // Paid (and confirmed) after the expiry job loaded it
+  await Order.updateOne({ _id }, { $set: { status: 'Confirmed', 'payment.status': 'Completed' } });
+
+  await assert.rejects(
+    expiryCopy.cancelOrder('Payment not completed in time', {
+      onlyIf: { status: 'Pending', 'payment.status': { $in: ['Pending', 'Failed'] } }
+    }),
+    { code: 'INVALID_STATUS_TRANSITION' }
+  );
+  assert.equal(store.get(_id).status, 'Confirmed');
+  assert.equal(restocked.length, 0);
+});
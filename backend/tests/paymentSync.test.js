@@ -0,0 +1,155 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+process.env.NODE_ENV = process.env.NODE_ENV || 'test';
+
+const Order = require('../models/Order');
+const PaymentIntent = require('../models/PaymentIntent');
+const paymentService = require('../services/paymentService');
+const unpaidOrderService = require('../services/unpaidOrderService');
+const inventoryService = require('../services/inventoryService');
+const couponService = require('../services/couponService');
+const saleService = require('../services/saleService');
+const emailService = require('../services/emailService');
+const { installMemoryStore } = require('./helpers/memoryStore');
+
+// ============================================================================
+// PAYMENT CONFIRMATIONS RACING THE UNPAID-ORDER EXPIRY
+// ============================================================================
+
+let orders;
+let intents;
+let restocked;
+const stubs = [];
+
+const stub = (object, name, replacement) => {
+  stubs.push([object, name, object[name]]);
+  object[name] = replacement;
+};
+
+const insertUnpaidOrder = () => orders.insert({
+  orderId: 'ORD-TEST-2',
+  userId: new mongoose.Types.ObjectId(),
+  status: 'Pending',
+  orderDate: new Date(Date.now() - 60 * 60 * 1000),
+  items: [{
+    productId: new mongoose.Types.ObjectId(),
+    productSnapshot: { name: 'Jeans', brand: 'Brand' },
+    size: '32',
+    price: 1500,
+    quantity: 1,
+    status: 'Processing'
+  }],
+  payment: { method: 'UPI', status: 'Pending' },
+  pricing: { subtotal: 1500, total: 1500 },
+  tracking: { status: 'Order Placed', timeline: [] }
+});
+
+beforeEach(() => {
+  orders = installMemoryStore(Order);
+  intents = installMemoryStore(PaymentIntent);
+  restocked = [];
+  stub(inventoryService, 'restoreStock', async (items) => { restocked.push(...items); });
+  stub(couponService, 'releaseOrderCoupons', async () => {});
+  stub(saleService, 'releaseOrderSales', async () => {});
+  stub(emailService, 'notifyOrderStatus', async () => {});
+});
+
+afterEach(() => {
+  orders.restore();
+  intents.restore();
+  while (stubs.length > 0) {
+    const [object, name, original] = stubs.pop();
+    object[name] = original;
+  }
+});
+
+test('a payment reported after the expiry cancelled the order is refunded once, not applied', async () => {
+  const { _id } = insertUnpaidOrder();
+  const intent = await paymentService.createIntent(await Order.findById(_id));
+  const confirmCopy = await PaymentIntent.findById(intent._id);
+  const webhookCopy = await PaymentIntent.findById(intent._id);
+
+  await unpaidOrderService.expireOrder(await Order.findById(_id));
+
+  await paymentService.applyOutcome(confirmCopy, { status: 'succeeded', transactionId: 'txn_1' }, 'api');
+  await paymentService.applyOutcome(webhookCopy, { status: 'succeeded', transactionId: 'txn_1' }, 'webhook');
+
+  const storedIntent = intents.get(intent._id);
+  assert.equal(storedIntent.status, 'cancelled');
+  assert.equal(storedIntent.refunds.length, 1);
+  assert.equal(storedIntent.refundedAmount, 1500);
+  assert.equal(orders.get(_id).status, 'Cancelled');
+  assert.equal(restocked.length, 1);
+});
+
+test('a payment whose order is cancelled mid-sync refunds instead of confirming', async () => {
+  const { _id } = insertUnpaidOrder();
+  const intent = await paymentService.createIntent(await Order.findById(_id));
+
+  // The sync loads the Pending order, then the expiry cancels it before the sync saves
+  const findById = Order.findById;
+  Order.findById = async (id) => {
+    Order.findById = findById;
+    const stale = await findById(id);
+    await unpaidOrderService.expireOrder(await findById(id));
+    return stale;
+  };
+
+  const succeeded = await paymentService.applyOutcome(intent, { status: 'succeeded', transactionId: 'txn_2' }, 'webhook');
+
+  const storedOrder = orders.get(_id);
+  assert.equal(succeeded.status, 'succeeded');
+  assert.equal(storedOrder.status, 'Cancelled');
+  assert.equal(storedOrder.payment.status, 'Refunded');
+  assert.equal(storedOrder.payment.refundAmount, 1500);
+  assert.equal(intents.get(intent._id).refunds.length, 1);
+});
+
+test('the expiry leaves an order that was paid after it was looked up', async () => {
+  const { _id } = insertUnpaidOrder();
+  const expiryCopy = await Order.findById(_id);
+  const intent = await paymentService.createIntent(await Order.findById(_id));
+
+  await paymentService.applyOutcome(intent, { status: 'succeeded', transactionId: 'txn_3' }, 'api');
+  await assert.rejects(unpaidOrderService.expireOrder(expiryCopy), { code: 'INVALID_STATUS_TRANSITION' });
+
+  assert.equal(orders.get(_id).status, 'Confirmed');
+  assert.equal(orders.get(_id).payment.status, 'Completed');
+  assert.equal(restocked.length, 0);
+});
+
+test('the confirm response and the webhook together confirm the order once', async () => {
+  const { _id } = insertUnpaidOrder();
+  const intent = await paymentService.createIntent(await Order.findById(_id));
+  const [confirmCopy, webhookCopy] = await Promise.all([
+    PaymentIntent.findById(intent._id),
+    PaymentIntent.findById(intent._id)
+  ]);
+
+  await Promise.all([
+    paymentService.applyOutcome(confirmCopy, { status: 'succeeded', transactionId: 'txn_4' }, 'api'),
+    paymentService.applyOutcome(webhookCopy, { status: 'succeeded', transactionId: 'txn_4' }, 'webhook')
+  ]);
+
+  const storedOrder = orders.get(_id);
+  assert.equal(storedOrder.status, 'Confirmed');
+  assert.equal(storedOrder.tracking.timeline.filter(event => event.status === 'Payment Verified').length, 1);
+  assert.equal(intents.get(intent._id).events.filter(event => event.type === 'payment.succeeded').length, 1);
+});
+
+test('the mock provider is only the default in development and test', () => {
+  const { NODE_ENV, PAYMENT_PROVIDER } = process.env;
+  delete process.env.PAYMENT_PROVIDER;
+
+  try {
+    process.env.NODE_ENV = 'production';
+    assert.throws(() => paymentService.resolveDefaultProvider(), /PAYMENT_PROVIDER must be set/);
+    process.env.NODE_ENV = 'test';
+    assert.equal(paymentService.resolveDefaultProvider(), 'mock');
+  } finally {
+    process.env.NODE_ENV = NODE_ENV;
+    if (PAYMENT_PROVIDER !== undefined) process.env.PAYMENT_PROVIDER = PAYMENT_PROVIDER;
+  }
+});
@@ -28,7 +28,7 @@ import {
   Gift,
 } from "lucide-react-native";
 import { useAuth } from "@/context/AuthContext";
-import { BagItem, WishlistItem, ApiResponse, Address } from "@/types/product"; // ✅ Added Address import
+import { BagItem, WishlistItem, ApiResponse, Address, AppliedPromotion } from "@/types/product"; // ✅ Added Address import
 import {
   getUserBag,
   updateBagItemQuantity,
@@ -45,6 +45,7 @@ import {
 // ✅ Import coupon components
 import CouponOverlay from "@/components/CouponOverlay";
 import CouponThresholdMessage from "@/components/CouponThresholdMessage";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 
 // ✅ NEW: Import address and order overlays
 import AddressSelectionOverlay from "@/components/AddressSelectionOverlay";
@@ -60,6 +61,7 @@ interface BagTotals {
   tax: number;
   finalTotal: number;
   couponDiscount: number;
+  promotionDiscount: number;
 }
 
 interface CouponState {
@@ -96,6 +98,9 @@ export default function Bag() {
   } = useAuth();
 
   const [bagItems, setBagItems] = useState<BagItem[]>([]);
+  const [hasOutOfStockItems, setHasOutOfStockItems] = useState(false);
+  const [hasEndedSales, setHasEndedSales] = useState(false);
+  const [promotions, setPromotions] = useState<AppliedPromotion[]>([]);
   const [totals, setTotals] = useState<BagTotals>({
     itemCount: 0,
     subtotal: 0,
@@ -103,6 +108,7 @@ export default function Bag() {
     tax: 0,
     finalTotal: 0,
     couponDiscount: 0,
+    promotionDiscount: 0,
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -182,11 +188,15 @@ export default function Bag() {
           tax: responseTotals.tax ?? 0,
           finalTotal: responseTotals.finalTotal ?? 0,
           couponDiscount: responseTotals.couponDiscount ?? 0,
+          promotionDiscount: responseTotals.promotionDiscount ?? 0,
         });
+        setPromotions(response.promotions ?? []);
         
         // ✅ FIXED: Use type assertion for alerts and coupon data
         const alerts = (response as any).alerts || {};
         const couponInfo = (response as any).coupon || {};
+        setHasOutOfStockItems(Boolean(alerts.hasOutOfStockItems));
+        setHasEndedSales(Boolean(alerts.hasEndedSales));
         
         if (alerts.couponApplied) {
           setCoupon(prev => ({
@@ -216,7 +226,9 @@ export default function Bag() {
           tax: 0,
           finalTotal: 0,
           couponDiscount: 0,
+          promotionDiscount: 0,
         });
+        setPromotions([]);
         setCoupon({
           code: "",
           isApplied: false,
@@ -399,6 +411,15 @@ export default function Bag() {
       return;
     }
 
+    // ✅ NEW: Sold-out sizes can't be ordered
+    if (hasOutOfStockItems) {
+      Alert.alert(
+        "Items Out of Stock",
+        "Some items in your bag are out of stock or don't have enough quantity left. Remove them or reduce the quantity to continue."
+      );
+      return;
+    }
+
     // Show order preview overlay
     setShowOrderPreview(true);
   };
@@ -456,7 +477,9 @@ export default function Bag() {
         tax: 0,
         finalTotal: 0,
         couponDiscount: 0,
+        promotionDiscount: 0,
       });
+      setPromotions([]);
       
       // Close overlay and navigate
       setShowOrderPreview(false);
@@ -593,6 +616,25 @@ export default function Bag() {
               </View>
             )}
             <Text style={styles.price}>₹{price}</Text>
+            {/* ✅ NEW: Live sale countdown, or the repricing notice once the sale has ended */}
+            {item.saleEnded ? (
+              <Text style={styles.saleEndedText}>
+                Sale ended · was ₹{item.priceWhenAdded}, now ₹{price}
+              </Text>
+            ) : (
+              <SaleCountdownBadge sale={item.productId.flashSale} style={styles.saleCountdownBadge} />
+            )}
+            {/* ✅ NEW: Automatic promotions covering this line */}
+            {item.promotions?.map(promotion => (
+              <Text key={promotion.promotionId} style={styles.itemPromotionText}>
+                {promotion.name} · - ₹{Math.round(promotion.discount)}
+              </Text>
+            ))}
+            {item.inStock === false ? (
+              <Text style={styles.stockWarningText}>
+                {item.availableStock ? `Only ${item.availableStock} left in this size` : 'Out of stock'}
+              </Text>
+            ) : null}
             <RatingDisplay rating={item.productId.rating} />
           </View>
         </TouchableOpacity>
@@ -726,6 +768,15 @@ export default function Bag() {
               </View>
             )}
             
+            {/* ✅ NEW: Sale prices that ended since the items were added */}
+            {hasEndedSales && (
+              <View style={styles.saleEndedBanner}>
+                <Text style={styles.saleEndedBannerText}>
+                  A sale on some items has ended - their prices have been updated
+                </Text>
+              </View>
+            )}
+
             {/* ✅ Items section */}
             <View style={styles.itemsSection}>
               {bagItems.map((item) => (
@@ -809,6 +860,13 @@ export default function Bag() {
                 <Text style={styles.summaryLabel}>Subtotal ({totals.itemCount} items)</Text>
                 <Text style={styles.summaryValue}>₹{totals.subtotal}</Text>
               </View>
+              {/* ✅ NEW: One row per automatic promotion */}
+              {promotions.map(promotion => (
+                <View key={promotion.promotionId} style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel} numberOfLines={1}>{promotion.label}</Text>
+                  <Text style={styles.discountValue}>- ₹{Math.round(promotion.discount)}</Text>
+                </View>
+              ))}
               {totals.couponDiscount > 0 && (
                 <View style={[styles.summaryRow, styles.discountRow]}>
                   <Text style={styles.summaryLabel}>Coupon Discount</Text>
@@ -963,6 +1021,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  saleEndedBanner: {
+    backgroundColor: '#fff3e0',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ff9800',
+  },
+  saleEndedBannerText: {
+    fontSize: 14,
+    color: '#e65100',
+    fontWeight: '600',
+  },
   itemsSection: {
     paddingHorizontal: 16,
   },
@@ -1021,6 +1093,27 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 4,
   },
+  stockWarningText: {
+    fontSize: 12,
+    color: '#d32f2f',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  saleEndedText: {
+    fontSize: 12,
+    color: '#e65100',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  itemPromotionText: {
+    fontSize: 12,
+    color: '#4caf50',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  saleCountdownBadge: {
+    marginBottom: 4,
+  },
   ratingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
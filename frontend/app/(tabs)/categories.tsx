@@ -14,7 +14,7 @@ import {
   Animated,
   StatusBar,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import {
   Search,
   Star,
@@ -23,6 +23,8 @@ import {
   Tag,
   Heart,
   ChevronRight,
+  ChevronDown,
+  FolderTree,
   Sparkles,
   Package,
   Award,
@@ -32,15 +34,19 @@ import {
 // ✅ UPDATED: Only import wishlist-related API functions
 import {
   getCategories,
+  getCategoryTree,
   getProducts,
   handleApiError,
   addToWishlist,
   removeFromWishlist,
 } from "@/utils/api";
 
-import { Category, Product, FilterState } from "@/types/product";
+import { Category, CategoryTreeNode, Product } from "@/types/product";
 import { useAuth } from "@/context/AuthContext";
+import { useRouteFilters } from "@/hooks/useRouteFilters";
+import { SEARCH_QUERY_PARAM } from "@/utils/filterParams";
 import SearchOverlay from "@/components/SearchOverlay";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -110,6 +116,7 @@ interface CategoryWithStats extends Category {
 
 interface CategoriesState {
   categories: Category[];
+  categoryTree: CategoryTreeNode[];
   allProducts: Product[];
   featuredProducts: Product[];
   trendingProducts: Product[];
@@ -136,6 +143,7 @@ export default function Categories() {
   // ✅ Professional state management
   const [state, setState] = useState<CategoriesState>({
     categories: [],
+    categoryTree: [],
     allProducts: [],
     featuredProducts: [],
     trendingProducts: [],
@@ -145,8 +153,11 @@ export default function Categories() {
     refreshing: false,
   });
 
-  const [showSearchOverlay, setShowSearchOverlay] = useState(false);
-  const [filters] = useState<FilterState>({ sortBy: "relevance" });
+  // ✅ A ?q= link opens search with its filters (see utils/filterParams)
+  const { [SEARCH_QUERY_PARAM]: searchQueryParam } = useLocalSearchParams();
+  const [showSearchOverlay, setShowSearchOverlay] = useState(Boolean(searchQueryParam));
+  const [filters, setFilters] = useRouteFilters('categories');
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
 
   // ✅ Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -157,6 +168,10 @@ export default function Categories() {
   const categoriesWithStats = useMemo((): CategoryWithStats[] => {
     return state.categories.map(category => {
       const categoryProducts = state.allProducts.filter(product => {
+        // ✅ Products in subcategories count towards their parents
+        if (product.categoryPath?.length) {
+          return product.categoryPath.includes(category._id);
+        }
         if (typeof product.category === 'string') {
           return product.category === category._id;
         }
@@ -250,8 +265,9 @@ export default function Categories() {
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
-      const [categoriesResponse, productsResponse] = await Promise.all([
+      const [categoriesResponse, treeResponse, productsResponse] = await Promise.all([
         getCategories({ includeStats: true }),
+        getCategoryTree(),
         getProducts({ 
           limit: 1000,
           sortBy: 'createdAt', 
@@ -273,6 +289,13 @@ export default function Categories() {
         throw new Error(handleApiError(categoriesResponse.error));
       }
 
+      // ✅ The nested tree is optional - the top-level grid still works without it
+      if (treeResponse.success && Array.isArray(treeResponse.data)) {
+        setState(prev => ({ ...prev, categoryTree: treeResponse.data || [] }));
+      } else {
+        console.warn("Category tree fetch failed:", handleApiError(treeResponse.error));
+      }
+
       if (productsResponse.success && Array.isArray(productsResponse.data)) {
         const enhancedProducts = productsResponse.data.map((product: any) => ({
           ...product,
@@ -436,6 +459,15 @@ export default function Categories() {
     router.push(`/product/${productId}`);
   };
 
+  const toggleCategoryExpanded = (categoryId: string) => {
+    setExpandedCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) next.delete(categoryId);
+      else next.add(categoryId);
+      return next;
+    });
+  };
+
   const handleSearchPress = () => {
     setShowSearchOverlay(true);
   };
@@ -528,6 +560,53 @@ export default function Categories() {
     );
   };
 
+  // ✅ NEW: One row of the nested category tree - tap the name to open, the chevron to expand
+  const CategoryTreeRow: React.FC<{ node: CategoryTreeNode }> = ({ node }) => {
+    const hasChildren = node.children.length > 0;
+    const isExpanded = expandedCategories.has(node._id);
+
+    return (
+      <View>
+        <View style={[styles.treeRow, { paddingLeft: spacing.lg + node.level * spacing.xl }]}>
+          <TouchableOpacity
+            style={styles.treeRowMain}
+            onPress={() => handleCategoryPress(node._id)}
+            activeOpacity={0.7}
+          >
+            {node.image ? (
+              <Image source={{ uri: node.image }} style={styles.treeImage} />
+            ) : null}
+            <Text
+              style={[styles.treeName, node.level === 0 && styles.treeRootName]}
+              numberOfLines={1}
+            >
+              {node.name}
+            </Text>
+            <Text style={styles.treeCount}>{node.productCount}</Text>
+          </TouchableOpacity>
+
+          {hasChildren ? (
+            <TouchableOpacity
+              style={styles.treeToggle}
+              onPress={() => toggleCategoryExpanded(node._id)}
+              activeOpacity={0.7}
+            >
+              {isExpanded
+                ? <ChevronDown size={18} color={colors.textLight} />
+                : <ChevronRight size={18} color={colors.textLight} />}
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.treeToggle} />
+          )}
+        </View>
+
+        {hasChildren && isExpanded && node.children.map(child => (
+          <CategoryTreeRow key={child._id} node={child} />
+        ))}
+      </View>
+    );
+  };
+
   // ✅ UPDATED: Product card with only wishlist functionality
   const ProductCard: React.FC<{ 
     product: Product; 
@@ -557,6 +636,7 @@ export default function Categories() {
           
           {/* Product Badges */}
           <View style={styles.productBadges}>
+            <SaleCountdownBadge sale={product.flashSale} style={styles.saleCountdownBadge} />
             {product.isNew && (
               <View style={styles.newProductBadge}>
                 <Text style={styles.productBadgeText}>NEW</Text>
@@ -710,6 +790,22 @@ export default function Categories() {
             )}
           </View>
 
+          {/* ✅ NEW: BROWSE BY CATEGORY - NESTED TREE */}
+          {state.categoryTree.length > 0 && (
+            <View style={styles.treeSection}>
+              <View style={styles.sectionHeader}>
+                <View style={styles.sectionTitleContainer}>
+                  <FolderTree size={getResponsiveValue(20, 22, 24)} color={colors.primary} />
+                  <Text style={styles.sectionTitle}>Browse by Category</Text>
+                </View>
+              </View>
+
+              {state.categoryTree.map(node => (
+                <CategoryTreeRow key={node._id} node={node} />
+              ))}
+            </View>
+          )}
+
           {/* ✅ FEATURED PRODUCTS SECTION */}
           {state.featuredProducts.length > 0 && (
             <View style={styles.productsSection}>
@@ -785,6 +881,7 @@ export default function Categories() {
         categories={state.categories}
         onProductPress={handleProductPress}
         activeFilters={filters}
+        onApplyFilters={setFilters}
         onWishlistPress={handleWishlistPress}
         onBagPress={undefined} // ✅ REMOVED: No bag functionality
         onCategoryPress={(categoryId, categoryName) => handleCategoryPress(categoryId)}
@@ -905,6 +1002,50 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
     marginBottom: spacing.sm,
   },
+  treeSection: {
+    paddingVertical: spacing.xl,
+    backgroundColor: colors.background,
+    marginBottom: spacing.sm,
+  },
+  treeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  treeRowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  treeImage: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: spacing.md,
+    backgroundColor: colors.surface,
+  },
+  treeName: {
+    flex: 1,
+    fontSize: typography.md,
+    color: colors.text,
+  },
+  treeRootName: {
+    fontWeight: '700',
+  },
+  treeCount: {
+    fontSize: typography.sm,
+    color: colors.textMuted,
+    marginLeft: spacing.sm,
+  },
+  treeToggle: {
+    width: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+  },
   productsSection: {
     paddingVertical: spacing.xl,
     backgroundColor: colors.background,
@@ -1082,6 +1223,9 @@ const styles = StyleSheet.create({
     left: spacing.sm,
     flexDirection: 'column',
   },
+  saleCountdownBadge: {
+    marginBottom: spacing.xs,
+  },
   newProductBadge: {
     backgroundColor: colors.success,
     paddingHorizontal: spacing.xs,
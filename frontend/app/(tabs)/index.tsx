@@ -15,7 +15,8 @@ import {
   Platform,
 } from "react-native";
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from "expo-router";
+import * as Linking from 'expo-linking';
+import { Href, useLocalSearchParams, useRouter } from "expo-router";
 import {
   Search,
   ChevronRight,
@@ -31,9 +32,12 @@ import {
   Zap,
   ShoppingBag,
   MapPin,
+  Store,
 } from "lucide-react-native";
 import { useAuth } from "@/context/AuthContext";
-import { Product, Category, FilterState, Address } from "@/types/product";
+import { useRouteFilters } from "@/hooks/useRouteFilters";
+import { SEARCH_QUERY_PARAM } from "@/utils/filterParams";
+import { Product, Category, Address, BrandSummary, HomeSection, HomeSlide, SaleEvent } from "@/types/product";
 import { useFocusEffect } from '@react-navigation/native';
 
 // ✅ API imports
@@ -43,6 +47,8 @@ import {
   addToWishlist as addWishlistApi,        
   removeFromWishlist as removeWishlistApi, 
   checkWishlistStatus,
+  getFollowedBrandProducts,
+  getHomeSections,
   handleApiError,
 } from "@/utils/api";
 
@@ -53,6 +59,7 @@ import { getRecentlyViewed } from "@/utils/recentlyViewed";
 import AddressSelectionOverlay from "@/components/AddressSelectionOverlay";
 import AddressManagementOverlay from "@/components/AddressManagementOverlay";
 import SearchOverlay from "@/components/SearchOverlay";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 const isTablet = screenWidth >= 768;
@@ -119,47 +126,56 @@ const colors = {
   },
 };
 
-// ✅ Enhanced deals data
-const deals = [
+// ✅ NEW: Icon names used by CMS sections and slides
+const SECTION_ICONS: Record<string, typeof Tag> = {
+  tag: Tag,
+  sparkles: Sparkles,
+  trending: TrendingUp,
+  award: Award,
+  store: Store,
+  eye: Eye,
+  zap: Zap,
+};
+
+// ✅ NEW: Shown when /api/home can't be reached - the screen still works from the catalog
+const fallbackSections = (categories: Category[], products: Product[]): HomeSection[] => [
   {
-    id: 1,
-    title: "Under ₹599",
-    description: "Budget-friendly fashion finds",
-    image: "https://images.unsplash.com/photo-1434389677669-e08b4cac3105?w=500",
-    discount: "UP TO 60% OFF",
-    category: "budget",
-    gradient: ['#ff6b6b', '#ee5a24'],
-    icon: <Tag size={20} color="#fff" />,
+    _id: 'fallback-categories',
+    key: 'shop-by-category',
+    type: 'category_tiles',
+    title: 'SHOP BY CATEGORY',
+    subtitle: null,
+    icon: 'tag',
+    viewAllLink: '/categories',
+    categories: categories.slice(0, 8),
   },
   {
-    id: 2,
-    title: "Flash Sale",
-    description: "Limited time mega discounts",
-    image: "https://images.unsplash.com/photo-1483985988355-763728e1935b?w=500",
-    discount: "70% OFF",
-    category: "sale",
-    gradient: ['#5f27cd', '#341f97'],
-    icon: <Zap size={20} color="#fff" />,
+    _id: 'fallback-trending',
+    key: 'trending-now',
+    type: 'product_collection',
+    title: 'TRENDING NOW',
+    subtitle: null,
+    icon: 'trending',
+    viewAllLink: '/categories',
+    products: products.slice(0, 12),
   },
   {
-    id: 3,
-    title: "New Arrivals",
-    description: "Latest fashion trends",
-    image: "https://images.unsplash.com/photo-1441986302599-5a16a6ab8f72?w=500",
-    discount: "NEW",
-    category: "new",
-    gradient: ['#00d2d3', '#01a3a4'],
-    icon: <Sparkles size={20} color="#fff" />,
+    _id: 'fallback-followed-brands',
+    key: 'from-brands-you-follow',
+    type: 'followed_brands',
+    title: 'FROM BRANDS YOU FOLLOW',
+    subtitle: null,
+    icon: 'store',
+    viewAllLink: null,
   },
   {
-    id: 4,
-    title: "Premium Brands",
-    description: "Luxury fashion collections",
-    image: "https://images.unsplash.com/photo-1512436991641-6745cad1c942?w=500",
-    discount: "EXCLUSIVE",
-    category: "premium",
-    gradient: ['#feca57', '#ff9ff3'],
-    icon: <Award size={20} color="#fff" />,
+    _id: 'fallback-recently-viewed',
+    key: 'recently-viewed',
+    type: 'recently_viewed',
+    title: 'RECENTLY VIEWED',
+    subtitle: null,
+    icon: 'eye',
+    viewAllLink: null,
   },
 ];
 
@@ -184,23 +200,27 @@ export default function Home() {
     refreshing: boolean;
     products: Product[];
     categories: Category[];
-    featuredProducts: Product[];
-    newArrivals: Product[];
+    sections: HomeSection[];
     recentlyViewed: Product[];
+    followedBrands: BrandSummary[];
+    followedBrandProducts: Product[];
     error: string | null;
   }>({
     isLoading: false,
     refreshing: false,
     products: [],
     categories: [],
-    featuredProducts: [],
-    newArrivals: [],
+    sections: [],
     recentlyViewed: [],
+    followedBrands: [],
+    followedBrandProducts: [],
     error: null,
   });
 
-  const [searchVisible, setSearchVisible] = useState(false);
-  const [filters] = useState<FilterState>({ sortBy: "relevance" });
+  // ✅ A ?q= link opens search with its filters (see utils/filterParams)
+  const { [SEARCH_QUERY_PARAM]: searchQueryParam } = useLocalSearchParams();
+  const [searchVisible, setSearchVisible] = useState(Boolean(searchQueryParam));
+  const [filters, setFilters] = useRouteFilters('home');
   
   // ✅ NEW: Address overlay states
   const [addressSelectionVisible, setAddressSelectionVisible] = useState(false);
@@ -238,8 +258,15 @@ export default function Home() {
           }));
       });
 
+    // ✅ CMS collections can hold products outside the latest 50 - wishlist lookups need them too
+    const sectionProducts = state.sections.flatMap(section =>
+      section.type === 'product_collection' ? section.products
+        : section.type === 'flash_sale' ? section.sales.flatMap(sale => sale.products || [])
+        : []
+    );
+
     const safeProducts = state.products.filter(p => p && typeof p === 'object' && p._id);
-    const all = [...safeProducts, ...catProducts];
+    const all = [...safeProducts, ...catProducts, ...sectionProducts];
     
     const uniqueMap = new Map<string, Product>();
     all.forEach((p) => {
@@ -249,7 +276,7 @@ export default function Home() {
     });
     
     return Array.from(uniqueMap.values());
-  }, [state.categories, state.products]);
+  }, [state.categories, state.products, state.sections]);
 
   const availableBrands = useMemo(() => {
     const brandSet = new Set<string>();
@@ -297,6 +324,29 @@ export default function Home() {
     }
   };
 
+  // ✅ NEW: Newest products from brands the user follows
+  const loadFollowedBrandFeed = async () => {
+    if (!user) {
+      setState(prev => ({ ...prev, followedBrands: [], followedBrandProducts: [] }));
+      return;
+    }
+
+    try {
+      const response = await getFollowedBrandProducts(12);
+      if (response.success) {
+        setState(prev => ({
+          ...prev,
+          followedBrands: response.brands || [],
+          followedBrandProducts: response.data || [],
+        }));
+      } else {
+        console.warn("Followed brands load error:", handleApiError(response.error));
+      }
+    } catch (error) {
+      console.error('Error loading followed brand products:', error);
+    }
+  };
+
   // ✅ Toggle recently viewed function
   const toggleRecentlyViewed = () => {
     const toValue = recentlyViewedCollapsed ? 1 : 0;
@@ -353,24 +403,28 @@ export default function Home() {
     }
   }, [wishlistRefreshTrigger]);
 
-  // ✅ Refresh recently viewed when screen comes into focus
+  // ✅ Refresh recently viewed (and the followed-brands feed) when screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
       loadRecentlyViewed();
-    }, [])
+      loadFollowedBrandFeed();
+    }, [user?._id])
   );
 
   // ✅ Enhanced data fetching
   async function fetchData() {
     try {
       setState((s) => ({ ...s, isLoading: true, error: null }));
+      loadFollowedBrandFeed();
       
-      const [catRes, prodRes] = await Promise.all([
+      const [catRes, prodRes, homeRes] = await Promise.all([
         getCategories({ includeStats: true }),
-        getProducts({ limit: 50, sortBy: "createdAt", sortOrder: "desc" })
+        getProducts({ limit: 50, sortBy: "createdAt", sortOrder: "desc" }),
+        getHomeSections(),
       ]);
 
       let hasData = false;
+      let enhanced: Product[] = [];
 
       if (catRes.success && Array.isArray(catRes.data)) {
         setState((s) => ({ ...s, categories: catRes.data || [] }));
@@ -380,7 +434,7 @@ export default function Home() {
       }
 
       if (prodRes.success && Array.isArray(prodRes.data)) {
-        const enhanced = prodRes.data
+        enhanced = prodRes.data
           .filter(p => p && typeof p === 'object' && p._id)
           .map((p) => ({
             ...p,
@@ -399,24 +453,21 @@ export default function Home() {
             images: Array.isArray(p.images) ? p.images : [],
           }));
 
-        setState((s) => ({
-          ...s,
-          products: enhanced,
-          featuredProducts: enhanced.filter((p) => p.isFeatured).slice(0, 8),
-          newArrivals: enhanced
-            .slice()
-            .sort((a, b) => {
-              const aDate = new Date(a.createdAt || 0).getTime();
-              const bDate = new Date(b.createdAt || 0).getTime();
-              return bDate - aDate;
-            })
-            .slice(0, 8),
-        }));
+        setState((s) => ({ ...s, products: enhanced }));
         hasData = true;
       } else {
         console.warn("Products load error:", handleApiError(prodRes.error));
       }
 
+      // ✅ NEW: Section layout comes from the CMS
+      if (homeRes.success && Array.isArray(homeRes.data)) {
+        setState((s) => ({ ...s, sections: homeRes.data || [] }));
+      } else {
+        console.warn("Home sections load error:", handleApiError(homeRes.error));
+        const categories = catRes.success && Array.isArray(catRes.data) ? catRes.data : [];
+        setState((s) => ({ ...s, sections: fallbackSections(categories, enhanced) }));
+      }
+
       if (!hasData) {
         throw new Error("Failed to load data from server");
       }
@@ -561,20 +612,19 @@ export default function Home() {
     setAddressManagementVisible(true);
   };
 
-  function handleDealPress(deal: typeof deals[number]) {
-    switch (deal.category) {
-      case "budget":
-        router.push("/categories?maxPrice=599");
-        break;
-      case "sale":
-        router.push("/categories?discount=40");
-        break;
-      case "new":
-        router.push("/categories?newArrivals=true");
-        break;
-      default:
-        router.push("/categories");
+  // ✅ NEW: CMS links are app paths, or http(s) URLs opened outside the app; anything else is ignored
+  function openLink(link?: string | null) {
+    if (!link) return;
+    if (/^https?:\/\//i.test(link)) {
+      Linking.openURL(link);
+      return;
     }
+    // A single leading slash only - "//host" and backslashes would leave the app
+    if (!/^\/(?![\/\\])[^\\]*$/.test(link)) {
+      console.warn('Ignoring unsupported banner link:', link);
+      return;
+    }
+    router.push(link as Href);
   }
 
   // ✅ Enhanced rating display component
@@ -618,6 +668,7 @@ export default function Home() {
             />
             
             <View style={styles.badgesContainer}>
+              <SaleCountdownBadge sale={product.flashSale} />
               {product.isNew && (
                 <View style={styles.newBadge}>
                   <Text style={styles.badgeText}>NEW</Text>
@@ -704,7 +755,7 @@ export default function Home() {
   };
 
   // ✅ Enhanced Recently Viewed Carousel Component
-  const RecentlyViewedCarousel = () => {
+  const RecentlyViewedCarousel = ({ title }: { title: string }) => {
     if (state.recentlyViewed.length === 0) return null;
 
     const animatedHeight = recentlyViewedHeightAnim.interpolate({
@@ -718,7 +769,7 @@ export default function Home() {
         <View style={styles.sectionHeader}>
           <View style={styles.sectionTitleContainer}>
             <Eye size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-            <Text style={styles.sectionTitle}>RECENTLY VIEWED</Text>
+            <Text style={styles.sectionTitle}>{title}</Text>
           </View>
           <TouchableOpacity 
             style={styles.toggleButton}
@@ -775,18 +826,54 @@ export default function Home() {
     );
   };
 
-  // ✅ Enhanced categories section
-  function renderCategories() {
-    if (state.isLoading && state.categories.length === 0) {
-      return (
-        <View style={styles.centered}>
-          <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading categories...</Text>
+  // ✅ NEW: Section title row - icon and "View All" come from the CMS
+  const SectionHeader = ({ section }: { section: HomeSection }) => {
+    if (!section.title) return null;
+    const Icon = (section.icon && SECTION_ICONS[section.icon]) || Tag;
+
+    return (
+      <View style={styles.sectionHeader}>
+        <View style={styles.sectionTitleContainer}>
+          <Icon size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
+          <Text style={styles.sectionTitle}>{section.title}</Text>
         </View>
-      );
-    }
+        {section.viewAllLink && (
+          <TouchableOpacity
+            onPress={() => openLink(section.viewAllLink)}
+            style={styles.viewAll}
+          >
+            <Text style={styles.viewAllText}>View All</Text>
+            <ChevronRight size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
 
-    if (!state.categories.length) {
+  // ✅ UPDATED: Single CMS banner (was the hardcoded "Fashion Forward" banner)
+  function renderBanner(slide: HomeSlide) {
+    return (
+      <TouchableOpacity activeOpacity={0.95} style={styles.bannerContainer} onPress={() => openLink(slide.link)}>
+        <Image
+          source={{ uri: slide.image }}
+          style={styles.banner}
+        />
+        {(slide.title || slide.subtitle) && (
+          <LinearGradient
+            colors={['transparent', 'rgba(0,0,0,0.7)']}
+            style={styles.bannerOverlay}
+          >
+            {slide.title && <Text style={styles.bannerTitle}>{slide.title}</Text>}
+            {slide.subtitle && <Text style={styles.bannerSubtitle}>{slide.subtitle}</Text>}
+          </LinearGradient>
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  // ✅ Enhanced categories section
+  function renderCategories(categories: Pick<Category, '_id' | 'name' | 'image'>[]) {
+    if (!categories.length) {
       return (
         <View style={styles.centered}>
           <Text style={styles.emptyText}>No categories available</Text>
@@ -804,7 +891,7 @@ export default function Home() {
         style={styles.categoriesScroll} 
         contentContainerStyle={styles.categoriesContainer}
       >
-        {state.categories.slice(0, 8).map((cat, index) => (
+        {categories.map((cat, index) => (
           <Animated.View
             key={cat._id}
             style={{
@@ -850,8 +937,8 @@ export default function Home() {
     );
   }
 
-  // ✅ Enhanced deals section  
-  function renderDeals() {
+  // ✅ UPDATED: CMS carousel (was the hardcoded deals list)
+  function renderCarousel(slides: HomeSlide[]) {
     return (
       <ScrollView 
         horizontal 
@@ -859,39 +946,46 @@ export default function Home() {
         style={styles.dealsScroll} 
         contentContainerStyle={styles.dealsContainer}
       >
-        {deals.map((deal, index) => (
-          <Animated.View
-            key={deal.id}
-            style={{
-              opacity: fadeAnim,
-              transform: [{
-                translateX: slideAnim.interpolate({
-                  inputRange: [0, 50],
-                  outputRange: [0, index * 15],
-                  extrapolate: 'clamp',
-                })
-              }]
-            }}
-          >
-            <TouchableOpacity
-              style={[styles.dealCard, { width: dealCardWidth }]}
-              onPress={() => handleDealPress(deal)}
-              activeOpacity={0.9}
+        {slides.map((slide, index) => {
+          const SlideIcon = slide.icon ? SECTION_ICONS[slide.icon] : undefined;
+          return (
+            <Animated.View
+              key={`${slide.image}-${index}`}
+              style={{
+                opacity: fadeAnim,
+                transform: [{
+                  translateX: slideAnim.interpolate({
+                    inputRange: [0, 50],
+                    outputRange: [0, index * 15],
+                    extrapolate: 'clamp',
+                  })
+                }]
+              }}
             >
-              <Image source={{ uri: deal.image }} style={styles.dealImage} />
-              <View style={styles.dealOverlay}>
-                <View style={styles.dealBadge}>
-                  {deal.icon}
-                  <Text style={styles.dealBadgeText}>{deal.discount}</Text>
+              <TouchableOpacity
+                style={[styles.dealCard, { width: dealCardWidth }]}
+                onPress={() => openLink(slide.link)}
+                activeOpacity={0.9}
+              >
+                <Image source={{ uri: slide.image }} style={styles.dealImage} />
+                <View style={styles.dealOverlay}>
+                  {(slide.badge || SlideIcon) && (
+                    <View style={[styles.dealBadge, slide.gradient?.[0] ? { backgroundColor: slide.gradient[0] } : null]}>
+                      {SlideIcon && <SlideIcon size={20} color="#fff" />}
+                      {slide.badge && <Text style={styles.dealBadgeText}>{slide.badge}</Text>}
+                    </View>
+                  )}
+                  {slide.title && <Text style={styles.dealTitle}>{slide.title}</Text>}
+                  {slide.subtitle && (
+                    <Text style={styles.dealDescription} numberOfLines={2}>
+                      {slide.subtitle}
+                    </Text>
+                  )}
                 </View>
-                <Text style={styles.dealTitle}>{deal.title}</Text>
-                <Text style={styles.dealDescription} numberOfLines={2}>
-                  {deal.description}
-                </Text>
-              </View>
-            </TouchableOpacity>
-          </Animated.View>
-        ))}
+              </TouchableOpacity>
+            </Animated.View>
+          );
+        })}
       </ScrollView>
     );
   }
@@ -935,6 +1029,105 @@ export default function Home() {
     );
   }
 
+  // ✅ NEW: Live flash sales - a countdown header per sale over its products
+  function renderFlashSales(sales: SaleEvent[]) {
+    return sales.map((sale) => (
+      <View key={sale._id} style={styles.flashSale}>
+        <View style={styles.flashSaleHeader}>
+          <View style={styles.flashSaleInfo}>
+            <Text style={styles.flashSaleName} numberOfLines={1}>{sale.name}</Text>
+            <Text style={styles.flashSaleDiscount}>
+              Extra {sale.discountPercent}% OFF
+              {sale.remainingQuantity !== null && ` · Only ${sale.remainingQuantity} left`}
+            </Text>
+          </View>
+          <SaleCountdownBadge sale={sale} variant="full" />
+        </View>
+        {renderProductsHorizontal(sale.products || [], sale.name)}
+      </View>
+    ));
+  }
+
+  // ✅ NEW: One CMS section; null when there's nothing to show for this user
+  function renderSection(section: HomeSection) {
+    let content: React.ReactNode = null;
+
+    switch (section.type) {
+      case 'banner':
+        return (
+          <Animated.View key={section._id} style={{ opacity: fadeAnim, transform: [{ scale: scaleAnim }] }}>
+            {renderBanner(section.slides[0])}
+          </Animated.View>
+        );
+      case 'carousel':
+        content = renderCarousel(section.slides);
+        break;
+      case 'category_tiles':
+        content = renderCategories(section.categories);
+        break;
+      case 'product_collection':
+        content = renderProductsHorizontal(section.products, section.title || 'Products');
+        break;
+      case 'flash_sale':
+        content = renderFlashSales(section.sales);
+        break;
+      case 'followed_brands':
+        if (!user || state.followedBrandProducts.length === 0) return null;
+        content = (
+          <>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.followedBrandsRow}
+            >
+              {state.followedBrands.map((brand) => (
+                <TouchableOpacity
+                  key={brand._id}
+                  style={styles.followedBrandChip}
+                  onPress={() => router.push(`/brand/${brand.slug}`)}
+                  activeOpacity={0.8}
+                >
+                  {brand.logo ? (
+                    <Image source={{ uri: brand.logo }} style={styles.followedBrandLogo} />
+                  ) : (
+                    <View style={[styles.followedBrandLogo, styles.followedBrandLogoPlaceholder]}>
+                      <Text style={styles.followedBrandInitial}>{brand.name.charAt(0).toUpperCase()}</Text>
+                    </View>
+                  )}
+                  <Text style={styles.followedBrandName} numberOfLines={1}>{brand.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            {renderProductsHorizontal(state.followedBrandProducts, "Products From Brands You Follow")}
+          </>
+        );
+        break;
+      case 'recently_viewed':
+        // Has its own collapsible header
+        if (state.recentlyViewed.length === 0) return null;
+        return (
+          <Animated.View key={section._id} style={[styles.section, {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }]
+          }]}>
+            <RecentlyViewedCarousel title={section.title || 'RECENTLY VIEWED'} />
+          </Animated.View>
+        );
+      default:
+        return null;
+    }
+
+    return (
+      <Animated.View key={section._id} style={[styles.section, {
+        opacity: fadeAnim,
+        transform: [{ translateY: slideAnim }]
+      }]}>
+        <SectionHeader section={section} />
+        {content}
+      </Animated.View>
+    );
+  }
+
   // ✅ Enhanced error state
   if (state.error && !state.refreshing && !state.isLoading) {
     return (
@@ -1001,110 +1194,14 @@ export default function Home() {
         {/* ✅ NEW: Address Section */}
         <AddressSection />
 
-        {/* ✅ Fashion Forward Banner */}
-        <Animated.View style={{ opacity: fadeAnim, transform: [{ scale: scaleAnim }] }}>
-          <TouchableOpacity activeOpacity={0.95} style={styles.bannerContainer}>
-            <Image
-              source={{ uri: "https://images.unsplash.com/photo-1441986302599-5a16a6ab8f72?w=800" }}
-              style={styles.banner}
-            />
-            <LinearGradient
-              colors={['transparent', 'rgba(0,0,0,0.7)']}
-              style={styles.bannerOverlay}
-            >
-              <Text style={styles.bannerTitle}>Fashion Forward</Text>
-              <Text style={styles.bannerSubtitle}>Discover your unique style</Text>
-            </LinearGradient>
-          </TouchableOpacity>
-        </Animated.View>
-
-        {/* ✅ Shop by Category */}
-        <Animated.View style={[styles.section, { 
-          opacity: fadeAnim, 
-          transform: [{ translateY: slideAnim }] 
-        }]}>
-          <View style={styles.sectionHeader}>
-            <View style={styles.sectionTitleContainer}>
-              <Tag size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-              <Text style={styles.sectionTitle}>SHOP BY CATEGORY</Text>
-            </View>
-            <TouchableOpacity 
-              onPress={() => router.push("/(tabs)/categories")} 
-              style={styles.viewAll}
-            >
-              <Text style={styles.viewAllText}>View All</Text>
-              <ChevronRight size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-            </TouchableOpacity>
-          </View>
-          {renderCategories()}
-        </Animated.View>
-
-        {/* ✅ Deals of the Day */}
-        <Animated.View style={[styles.section, { 
-          opacity: fadeAnim, 
-          transform: [{ translateY: slideAnim }] 
-        }]}>
-          <View style={styles.sectionHeader}>
-            <View style={styles.sectionTitleContainer}>
-              <Sparkles size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-              <Text style={styles.sectionTitle}>DEALS OF THE DAY</Text>
-            </View>
+        {/* ✅ UPDATED: Sections in the order the CMS returns them */}
+        {state.isLoading && state.sections.length === 0 ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text style={styles.loadingText}>Loading...</Text>
           </View>
-          {renderDeals()}
-        </Animated.View>
-
-        {/* ✅ Trending Products */}
-        <Animated.View style={[styles.section, { 
-          opacity: fadeAnim, 
-          transform: [{ translateY: slideAnim }] 
-        }]}>
-          <View style={styles.sectionHeader}>
-            <View style={styles.sectionTitleContainer}>
-              <TrendingUp size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-              <Text style={styles.sectionTitle}>TRENDING NOW</Text>
-            </View>
-            <TouchableOpacity 
-              style={styles.viewAll} 
-              onPress={() => router.push("/(tabs)/categories")}
-            >
-              <Text style={styles.viewAllText}>View All</Text>
-              <ChevronRight size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-            </TouchableOpacity>
-          </View>
-          {renderProductsHorizontal(state.products, "Trending Products")}
-        </Animated.View>
-
-        {/* ✅ Recently Viewed */}
-        {state.recentlyViewed.length > 0 && (
-          <Animated.View style={[styles.section, { 
-            opacity: fadeAnim, 
-            transform: [{ translateY: slideAnim }] 
-          }]}>
-            <RecentlyViewedCarousel />
-          </Animated.View>
-        )}
-
-        {/* ✅ Featured Products */}
-        {state.featuredProducts.length > 0 && (
-          <Animated.View style={[styles.section, { 
-            opacity: fadeAnim, 
-            transform: [{ translateY: slideAnim }] 
-          }]}>
-            <View style={styles.sectionHeader}>
-              <View style={styles.sectionTitleContainer}>
-                <Award size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-                <Text style={styles.sectionTitle}>FEATURED PRODUCTS</Text>
-              </View>
-              <TouchableOpacity 
-                style={styles.viewAll} 
-                onPress={() => router.push("/(tabs)/categories?featured=true")}
-              >
-                <Text style={styles.viewAllText}>View All</Text>
-                <ChevronRight size={getResponsiveValue(18, 20, 22)} color={colors.primary} />
-              </TouchableOpacity>
-            </View>
-            {renderProductsHorizontal(state.featuredProducts, "Featured Products")}
-          </Animated.View>
+        ) : (
+          state.sections.map(renderSection)
         )}
 
         {/* Bottom spacing */}
@@ -1119,6 +1216,7 @@ export default function Home() {
         categories={state.categories}
         onProductPress={(id) => router.push(`/product/${id}`)}
         activeFilters={filters}
+        onApplyFilters={setFilters}
         onWishlistPress={handleWishlistPress}
         onBagPress={undefined}
         onCategoryPress={(categoryId, categoryName) => router.push(`/category/${categoryId}`)}
@@ -1326,6 +1424,31 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     flex: 1,
   },
+  flashSale: {
+    marginBottom: spacing.lg,
+  },
+  flashSaleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    gap: spacing.md,
+  },
+  flashSaleInfo: {
+    flex: 1,
+  },
+  flashSaleName: {
+    fontSize: typography.md,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  flashSaleDiscount: {
+    fontSize: typography.sm,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 2,
+  },
   sectionTitle: {
     fontSize: typography.lg,
     fontWeight: '700',
@@ -1579,6 +1702,47 @@ categoryName: {
     color: colors.textMuted,
   },
 
+  // ===============================
+  // FOLLOWED BRANDS STYLES
+  // ===============================
+  followedBrandsRow: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  followedBrandChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    paddingLeft: spacing.xs,
+    paddingRight: spacing.md,
+    backgroundColor: colors.primaryLight,
+    borderRadius: 20,
+  },
+  followedBrandLogo: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.background,
+  },
+  followedBrandLogoPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  followedBrandInitial: {
+    fontSize: typography.xs,
+    fontWeight: '700',
+    color: colors.background,
+  },
+  followedBrandName: {
+    marginLeft: spacing.xs,
+    fontSize: typography.sm,
+    fontWeight: '600',
+    color: colors.primary,
+    maxWidth: 120,
+  },
+
   // ===============================
   // RECENTLY VIEWED STYLES
   // ===============================
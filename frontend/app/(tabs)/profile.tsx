@@ -4,8 +4,11 @@ import {
   ScrollView,
   TouchableOpacity,
   StyleSheet,
+  Image,
+  Alert,
 } from "react-native";
 import { useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
 import {
   User,
   Package,
@@ -15,9 +18,20 @@ import {
   Settings,
   LogOut,
   ChevronRight,
+  ClipboardList,
+  Bell,
+  X,
 } from "lucide-react-native";
-import React from "react";
+import React, { useState } from "react";
 import { useAuth } from "@/context/AuthContext";
+import { AppNotification, StockSubscription } from "@/types/product";
+import {
+  getStockAlerts,
+  cancelStockAlert,
+  getNotifications,
+  markNotificationRead,
+  handleApiError,
+} from "@/utils/api";
 
 const menuItems = [
   { icon: Package, label: "Orders", route: "/orders" },
@@ -27,9 +41,58 @@ const menuItems = [
   { icon: Settings, label: "Settings", route: "/settings" },
 ];
 
+// ✅ NEW: Only shown to admins
+const adminMenuItems = [
+  { icon: ClipboardList, label: "Manage Orders", route: "/admin/orders" },
+];
+
 export default function Profile() {
   const router = useRouter();
   const { user, logout } = useAuth();
+
+  // ✅ NEW: Back-in-stock subscriptions and the alerts they fired
+  const [stockAlerts, setStockAlerts] = useState<StockSubscription[]>([]);
+  const [restockNotifications, setRestockNotifications] = useState<AppNotification[]>([]);
+
+  const fetchStockAlerts = async () => {
+    try {
+      const [alertsResponse, notificationsResponse] = await Promise.all([
+        getStockAlerts(),
+        getNotifications({ unreadOnly: true, type: 'back_in_stock', limit: 10 }),
+      ]);
+      if (alertsResponse.success) setStockAlerts(alertsResponse.data || []);
+      if (notificationsResponse.success) setRestockNotifications(notificationsResponse.data || []);
+    } catch (error) {
+      console.error("Error fetching stock alerts:", error);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      if (user) fetchStockAlerts();
+    }, [user])
+  );
+
+  const handleCancelStockAlert = async (subscription: StockSubscription) => {
+    setStockAlerts(prev => prev.filter(item => item._id !== subscription._id));
+
+    const response = await cancelStockAlert(subscription._id);
+    if (!response.success) {
+      setStockAlerts(prev => [subscription, ...prev]);
+      Alert.alert("Error", handleApiError(response.error) || "Failed to cancel the alert");
+    }
+  };
+
+  // ✅ Opens the product with the restocked size preselected
+  const openRestockedProduct = (notification: AppNotification) => {
+    setRestockNotifications(prev => prev.filter(item => item._id !== notification._id));
+    markNotificationRead(notification._id).catch(error => console.error("Error marking notification read:", error));
+
+    const { productId, size } = notification.data;
+    if (!productId) return;
+    router.push({ pathname: "/product/[id]", params: size ? { id: productId, size } : { id: productId } });
+  };
+
   const handleLogout = () => {
     logout()
     router.replace("/");
@@ -75,7 +138,7 @@ export default function Profile() {
         </View>
 
         <View style={styles.menuSection}>
-          {menuItems.map((item, index) => (
+          {[...menuItems, ...(user.role === 'admin' ? adminMenuItems : [])].map((item, index) => (
             <TouchableOpacity
               key={index}
               style={styles.menuItem}
@@ -90,6 +153,57 @@ export default function Profile() {
           ))}
         </View>
 
+        {(restockNotifications.length > 0 || stockAlerts.length > 0) && (
+          <View style={styles.alertSection}>
+            <Text style={styles.alertSectionTitle}>Back in Stock Alerts</Text>
+
+            {restockNotifications.map(notification => (
+              <TouchableOpacity
+                key={notification._id}
+                style={[styles.alertRow, styles.restockedRow]}
+                onPress={() => openRestockedProduct(notification)}
+              >
+                <Bell size={20} color="#4caf50" fill="#4caf50" />
+                <View style={styles.alertDetails}>
+                  <Text style={styles.alertName} numberOfLines={1}>{notification.title}</Text>
+                  <Text style={styles.alertMeta} numberOfLines={2}>{notification.message}</Text>
+                </View>
+                <ChevronRight size={20} color="#3e3e3e" />
+              </TouchableOpacity>
+            ))}
+
+            {stockAlerts.map(subscription => (
+              <TouchableOpacity
+                key={subscription._id}
+                style={styles.alertRow}
+                onPress={() => router.push(`/product/${subscription.productId._id}`)}
+              >
+                {subscription.productId.images?.[0] ? (
+                  <Image source={{ uri: subscription.productId.images[0] }} style={styles.alertImage} />
+                ) : (
+                  <Bell size={20} color="#ff3f6c" />
+                )}
+                <View style={styles.alertDetails}>
+                  <Text style={styles.alertName} numberOfLines={1}>
+                    {subscription.productId.brand ? `${subscription.productId.brand} ` : ''}{subscription.productId.name}
+                  </Text>
+                  <Text style={styles.alertMeta}>
+                    {[subscription.size && `Size ${subscription.size}`, subscription.color].filter(Boolean).join(' • ') || 'Any size'}
+                    {' • Waiting for restock'}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleCancelStockAlert(subscription)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityLabel="Cancel stock alert"
+                >
+                  <X size={20} color="#666" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
           <LogOut size={24} color="#ff3f6c" />
           <Text style={styles.logoutText}>Logout</Text>
@@ -190,6 +304,47 @@ const styles = StyleSheet.create({
     color: "#3e3e3e",
     marginLeft: 15,
   },
+  alertSection: {
+    marginTop: 20,
+  },
+  alertSectionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#3e3e3e",
+    paddingHorizontal: 15,
+    marginBottom: 5,
+  },
+  alertRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 15,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  restockedRow: {
+    backgroundColor: "#f1f8f1",
+  },
+  alertImage: {
+    width: 40,
+    height: 50,
+    borderRadius: 4,
+    backgroundColor: "#f0f0f0",
+  },
+  alertDetails: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  alertName: {
+    fontSize: 15,
+    color: "#3e3e3e",
+    fontWeight: "600",
+  },
+  alertMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
   logoutButton: {
     flexDirection: "row",
     alignItems: "center",
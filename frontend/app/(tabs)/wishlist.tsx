@@ -24,14 +24,21 @@ import {
   Package,
   Sparkles,
   TrendingUp,
+  TrendingDown,
+  Bell,
+  BellOff,
+  X,
 } from "lucide-react-native";
 import { useAuth } from "@/context/AuthContext";
-import { Product } from "@/types/product";
+import { AppNotification, PriceDrop, Product } from "@/types/product";
 
 // ✅ UPDATED: Only import needed API functions
 import {
   getUserWishlist,
   removeFromWishlist,
+  updateWishlistItem,
+  getNotifications,
+  markAllNotificationsRead,
   handleApiError
 } from "@/utils/api";
 
@@ -61,6 +68,7 @@ interface WishlistItem {
   priceAlertEnabled: boolean;
   originalPrice: number;
   daysInWishlist: number;
+  priceDrop?: PriceDrop | null;
 }
 
 interface WishlistState {
@@ -106,6 +114,8 @@ export default function Wishlist() {
 
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [removingItems, setRemovingItems] = useState<Set<string>>(new Set());
+  const [togglingAlerts, setTogglingAlerts] = useState<Set<string>>(new Set());
+  const [priceAlerts, setPriceAlerts] = useState<AppNotification[]>([]);
 
   // ✅ Filter and sort state
   const [sortBy, setSortBy] = useState<SortOption>('newest');
@@ -124,6 +134,7 @@ export default function Wishlist() {
   useEffect(() => {
     if (user) {
       fetchWishlist();
+      fetchPriceAlerts();
       initializeAnimations();
     }
   }, [user]);
@@ -217,6 +228,67 @@ export default function Wishlist() {
     }
   };
 
+  // ✅ NEW: Unread price-drop notifications for the banner
+  const fetchPriceAlerts = async () => {
+    if (!user) return;
+
+    try {
+      const response = await getNotifications({ unreadOnly: true, type: 'price_drop', limit: 5 });
+      if (response.success) {
+        setPriceAlerts(response.data || []);
+      }
+    } catch (error) {
+      console.error("Error fetching price alerts:", error);
+    }
+  };
+
+  const dismissPriceAlerts = async () => {
+    setPriceAlerts([]);
+    try {
+      await markAllNotificationsRead('price_drop');
+    } catch (error) {
+      console.error("Error dismissing price alerts:", error);
+    }
+  };
+
+  // ✅ NEW: Turn the price-drop alert on/off (optimistic, reverted on failure)
+  const handleTogglePriceAlert = async (item: WishlistItem) => {
+    const itemId = item._id;
+    const enabled = !item.priceAlertEnabled;
+
+    const applyToggle = (value: boolean) => setState(prev => ({
+      ...prev,
+      items: prev.items.map(wishlistItem =>
+        wishlistItem._id === itemId ? { ...wishlistItem, priceAlertEnabled: value } : wishlistItem
+      ),
+      stats: prev.stats ? {
+        ...prev.stats,
+        priceAlertsEnabled: prev.stats.priceAlertsEnabled + (value ? 1 : -1),
+      } : null,
+    }));
+
+    setTogglingAlerts(prev => new Set([...prev, itemId]));
+    applyToggle(enabled);
+
+    try {
+      const response = await updateWishlistItem(itemId, { priceAlertEnabled: enabled });
+      if (!response.success) {
+        applyToggle(!enabled);
+        Alert.alert("Error", handleApiError(response.error) || "Failed to update price alert");
+      }
+    } catch (error) {
+      console.error("Error toggling price alert:", error);
+      applyToggle(!enabled);
+      Alert.alert("Error", "Failed to update price alert. Please try again.");
+    } finally {
+      setTogglingAlerts(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(itemId);
+        return newSet;
+      });
+    }
+  };
+
   // ✅ Sort items functionality
   const sortItems = () => {
     setState(prev => ({
@@ -302,7 +374,7 @@ export default function Wishlist() {
 
   const onRefresh = async () => {
     setState(prev => ({ ...prev, refreshing: true }));
-    await fetchWishlist(false);
+    await Promise.all([fetchWishlist(false), fetchPriceAlerts()]);
     await refreshUserPreferences();
     setState(prev => ({ ...prev, refreshing: false }));
   };
@@ -326,8 +398,10 @@ export default function Wishlist() {
   const WishlistItemCard: React.FC<{
     item: WishlistItem;
     onRemove: () => void;
+    onToggleAlert: () => void;
     isRemoving: boolean;
-  }> = ({ item, onRemove, isRemoving }) => {
+    isTogglingAlert: boolean;
+  }> = ({ item, onRemove, onToggleAlert, isRemoving, isTogglingAlert }) => {
     const product = item.productId;
     const cardStyle = viewMode === 'grid' ? styles.gridCard : styles.listCard;
     const imageStyle = viewMode === 'grid' ? styles.gridImage : styles.listImage;
@@ -338,9 +412,9 @@ export default function Wishlist() {
       ? product.images[0] 
       : `https://picsum.photos/200/200?random=${product._id}`;
 
-    // ✅ Price comparison logic
+    // ✅ Price comparison logic (priceDrop comes from the server, relative to the wishlisted price)
     const priceChanged = item.originalPrice !== product.price;
-    const priceSavings = item.originalPrice - product.price;
+    const priceSavings = item.priceDrop ? item.priceDrop.amount : item.originalPrice - product.price;
 
     return (
       <Animated.View
@@ -410,6 +484,15 @@ export default function Wishlist() {
               )}
             </View>
 
+            {item.priceDrop && (
+              <View style={styles.priceDropRow}>
+                <TrendingDown size={12} color="#4caf50" />
+                <Text style={styles.priceDropText}>
+                  ₹{item.priceDrop.amount} ({item.priceDrop.percentage}%) less than when you saved it
+                </Text>
+              </View>
+            )}
+
             {product.rating && (
               <View style={styles.ratingContainer}>
                 <Star size={12} color="#ffa500" fill="#ffa500" />
@@ -430,8 +513,20 @@ export default function Wishlist() {
           </View>
         </TouchableOpacity>
 
-        {/* ✅ SIMPLIFIED: Only remove button */}
         <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={[styles.alertToggle, item.priceAlertEnabled && styles.alertToggleActive]}
+            onPress={onToggleAlert}
+            disabled={isTogglingAlert || isRemoving}
+            activeOpacity={0.7}
+            accessibilityLabel={item.priceAlertEnabled ? "Turn off price alert" : "Turn on price alert"}
+          >
+            {item.priceAlertEnabled ? (
+              <Bell size={18} color="#ff3f6c" fill="#ff3f6c" />
+            ) : (
+              <BellOff size={18} color="#666" />
+            )}
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.removeButton, isRemoving && styles.removeButtonDisabled]}
             onPress={onRemove}
@@ -482,6 +577,41 @@ export default function Wishlist() {
     </Animated.View>
   );
 
+  // ✅ NEW: Unread price-drop notifications
+  const PriceAlertBanner: React.FC = () => {
+    if (priceAlerts.length === 0) return null;
+
+    const droppedItems = priceAlerts.flatMap(notification => notification.data.items || []);
+    const uniqueItems = droppedItems.filter(
+      (entry, index) => droppedItems.findIndex(other => other.productId === entry.productId) === index
+    );
+
+    return (
+      <View style={styles.priceAlertBanner}>
+        <View style={styles.priceAlertHeader}>
+          <Bell size={16} color="#4caf50" fill="#4caf50" />
+          <Text style={styles.priceAlertTitle}>
+            {uniqueItems.length === 1 ? 'Price drop on 1 item' : `Prices dropped on ${uniqueItems.length} items`}
+          </Text>
+          <TouchableOpacity onPress={dismissPriceAlerts} activeOpacity={0.7} accessibilityLabel="Dismiss price alerts">
+            <X size={16} color="#666" />
+          </TouchableOpacity>
+        </View>
+        {uniqueItems.slice(0, 3).map(entry => (
+          <TouchableOpacity
+            key={entry.productId}
+            onPress={() => router.push(`/product/${entry.productId}`)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.priceAlertItem} numberOfLines={1}>
+              {entry.name}: ₹{entry.currentPrice} <Text style={styles.priceAlertDrop}>(₹{entry.dropAmount} off)</Text>
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   const WishlistStats: React.FC = () => {
     if (!state.stats) return null;
 
@@ -667,6 +797,7 @@ export default function Wishlist() {
         <EmptyWishlistState />
       ) : (
         <>
+          <PriceAlertBanner />
           <WishlistStats />
           <FilterBar />
 
@@ -679,7 +810,9 @@ export default function Wishlist() {
               <WishlistItemCard
                 item={item}
                 onRemove={() => handleRemoveFromWishlist(item)}
+                onToggleAlert={() => handleTogglePriceAlert(item)}
                 isRemoving={removingItems.has(item._id)}
+                isTogglingAlert={togglingAlerts.has(item._id)}
               />
             )}
             contentContainerStyle={[
@@ -1022,12 +1155,69 @@ const styles = StyleSheet.create({
   alertText: {
     fontSize: 8,
   },
-  // ✅ SIMPLIFIED: Only remove button styles
+  priceDropRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  priceDropText: {
+    fontSize: 10,
+    color: '#4caf50',
+    fontWeight: '600',
+    marginLeft: 4,
+    flexShrink: 1,
+  },
+  priceAlertBanner: {
+    backgroundColor: '#f1f8f1',
+    borderWidth: 1,
+    borderColor: '#c8e6c9',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginTop: 8,
+    padding: 12,
+  },
+  priceAlertHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  priceAlertTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  priceAlertItem: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 2,
+  },
+  priceAlertDrop: {
+    color: '#4caf50',
+    fontWeight: '600',
+  },
   actionButtons: {
+    flexDirection: 'row',
     padding: 12,
     paddingTop: 8,
   },
+  alertToggle: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 12,
+    marginRight: 8,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+  },
+  alertToggleActive: {
+    backgroundColor: '#fff0f3',
+    borderColor: '#ffc1d0',
+  },
   removeButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
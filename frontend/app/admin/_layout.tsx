@@ -0,0 +1,16 @@
+import { Redirect, Stack } from 'expo-router';
+import React from 'react';
+import { useAuth } from '@/context/AuthContext';
+
+// ✅ Admin screens - the API enforces the role too, this only keeps other users out of the UI
+export default function AdminLayout() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) return null;
+
+  if (user?.role !== 'admin') {
+    return <Redirect href="/" />;
+  }
+
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
@@ -0,0 +1,561 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  Image,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  StatusBar,
+  Alert,
+  Dimensions,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ArrowLeft, Package, Truck, MapPin, User, CreditCard, Clock } from "lucide-react-native";
+import { AdminOrderDetails, OrderStatus } from "@/types/product";
+import {
+  getAdminOrder,
+  getAdminOrderOptions,
+  updateAdminOrderStatus,
+  assignOrderCarrier,
+  handleApiError,
+} from "@/utils/api";
+import { OrderStatusColors } from "@/constants/Colors";
+
+const { height: screenHeight } = Dimensions.get("window");
+const hp = (percentage: number) => (screenHeight * percentage) / 100;
+
+// Statuses where the parcel can still be (re)assigned to a carrier
+const CARRIER_EDITABLE_STATUSES: OrderStatus[] = ["Pending", "Confirmed", "Processing", "Shipped"];
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleString("en-IN", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export default function AdminOrderDetailScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [order, setOrder] = useState<AdminOrderDetails | null>(null);
+  const [carriers, setCarriers] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [location, setLocation] = useState("");
+  const [note, setNote] = useState("");
+  const [selectedCarrier, setSelectedCarrier] = useState<string | null>(null);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getAdminOrderOptions().then(response => {
+      if (response.success && response.data) setCarriers(response.data.carriers);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (id) fetchOrder();
+  }, [id]);
+
+  const fetchOrder = async () => {
+    try {
+      const response = await getAdminOrder(id);
+      if (response.success && response.data) {
+        setOrder(response.data);
+        setSelectedCarrier(response.data.tracking?.carrier || null);
+        setError(null);
+      } else {
+        setError(handleApiError(response.error));
+      }
+    } catch (err) {
+      console.error("Error loading order:", err);
+      setError("Failed to load order");
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchOrder();
+  };
+
+  const changeStatus = (status: OrderStatus) => {
+    if (!order) return;
+
+    Alert.alert(
+      "Update Status",
+      `Move order #${order.orderId} from ${order.status} to ${status}?${
+        status === "Cancelled" ? " Items are restocked and online payments refunded." : ""
+      }`,
+      [
+        { text: "Back", style: "cancel" },
+        {
+          text: "Update",
+          style: status === "Cancelled" ? "destructive" : "default",
+          onPress: async () => {
+            setIsSaving(true);
+            try {
+              const response = await updateAdminOrderStatus(order._id, {
+                status,
+                location: location.trim(),
+                description: note.trim(),
+              });
+              if (response.success) {
+                setLocation("");
+                setNote("");
+                await fetchOrder();
+              } else {
+                Alert.alert("Update Failed", handleApiError(response.error));
+              }
+            } finally {
+              setIsSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const saveCarrier = async () => {
+    if (!order || !selectedCarrier) return;
+
+    setIsSaving(true);
+    try {
+      const response = await assignOrderCarrier(order._id, selectedCarrier, trackingNumber.trim());
+      if (response.success && response.data) {
+        setTrackingNumber("");
+        Alert.alert("Carrier Assigned", `${response.data.tracking.carrier} • ${response.data.tracking.number}`);
+        await fetchOrder();
+      } else {
+        Alert.alert("Assignment Failed", handleApiError(response.error));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#ff3f6c" />
+      </View>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error || "Order not found"}</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+          <Text style={styles.primaryButtonText}>GO BACK</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const timeline = [...(order.tracking?.timeline || [])].reverse();
+  const canEditCarrier = CARRIER_EDITABLE_STATUSES.includes(order.status);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color="#333" />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <Text style={styles.headerText}>#{order.orderId}</Text>
+          <Text style={styles.headerSubtext}>Placed {formatDate(order.orderDate)}</Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: OrderStatusColors[order.status] }]}>
+          <Text style={styles.statusBadgeText}>{order.status}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#ff3f6c"]} tintColor="#ff3f6c" />
+        }
+      >
+        {/* Status actions */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Update Status</Text>
+          {order.allowedTransitions.length === 0 ? (
+            <Text style={styles.mutedText}>This order is {order.status.toLowerCase()} - no further changes.</Text>
+          ) : (
+            <>
+              <TextInput
+                style={styles.input}
+                value={location}
+                onChangeText={setLocation}
+                placeholder="Location (optional)"
+                placeholderTextColor="#999"
+              />
+              <TextInput
+                style={styles.input}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Note for the timeline (optional)"
+                placeholderTextColor="#999"
+              />
+              <View style={styles.actionRow}>
+                {order.allowedTransitions.map(status => (
+                  <TouchableOpacity
+                    key={status}
+                    style={[styles.actionButton, { backgroundColor: OrderStatusColors[status] }]}
+                    onPress={() => changeStatus(status)}
+                    disabled={isSaving}
+                  >
+                    <Text style={styles.actionButtonText}>Mark {status}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Carrier */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Truck size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Shipment</Text>
+          </View>
+          <Text style={styles.bodyText}>
+            {order.tracking?.carrier} • {order.tracking?.number}
+          </Text>
+          <Text style={styles.mutedText}>
+            {order.tracking?.status} • {order.tracking?.currentLocation}
+          </Text>
+
+          {canEditCarrier && (
+            <>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {carriers.map(carrier => (
+                  <TouchableOpacity
+                    key={carrier}
+                    style={[styles.chip, selectedCarrier === carrier && styles.chipActive]}
+                    onPress={() => setSelectedCarrier(carrier)}
+                  >
+                    <Text style={[styles.chipText, selectedCarrier === carrier && styles.chipTextActive]}>
+                      {carrier}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              <TextInput
+                style={styles.input}
+                value={trackingNumber}
+                onChangeText={setTrackingNumber}
+                placeholder="Tracking number (leave empty to generate)"
+                placeholderTextColor="#999"
+                autoCapitalize="characters"
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, (!selectedCarrier || isSaving) && styles.buttonDisabled]}
+                onPress={saveCarrier}
+                disabled={!selectedCarrier || isSaving}
+              >
+                <Text style={styles.primaryButtonText}>ASSIGN CARRIER</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {/* Customer & payment */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <User size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Customer</Text>
+          </View>
+          <Text style={styles.bodyText}>{order.userId?.fullName || "Unknown customer"}</Text>
+          <Text style={styles.mutedText}>{order.userId?.email}</Text>
+
+          <View style={[styles.cardTitleRow, styles.sectionSpacing]}>
+            <CreditCard size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Payment</Text>
+          </View>
+          <Text style={styles.bodyText}>
+            {order.payment.method} • {order.payment.status} • ₹{order.pricing.total}
+          </Text>
+          {!!order.payment.refundAmount && (
+            <Text style={styles.mutedText}>Refunded ₹{order.payment.refundAmount}</Text>
+          )}
+
+          <View style={[styles.cardTitleRow, styles.sectionSpacing]}>
+            <MapPin size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Ship To</Text>
+          </View>
+          <Text style={styles.bodyText}>
+            {order.shippingAddress.fullName} • {order.shippingAddress.phone}
+          </Text>
+          <Text style={styles.mutedText}>
+            {[order.shippingAddress.addressLine1, order.shippingAddress.addressLine2, order.shippingAddress.city, order.shippingAddress.state, order.shippingAddress.pincode]
+              .filter(Boolean)
+              .join(", ")}
+          </Text>
+        </View>
+
+        {/* Items */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Package size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Items ({order.itemCount})</Text>
+          </View>
+          {order.items.map(item => (
+            <View key={item._id} style={styles.itemRow}>
+              {item.productId?.images?.[0] ? (
+                <Image source={{ uri: item.productId.images[0] }} style={styles.itemImage} />
+              ) : (
+                <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                  <Package size={20} color="#ccc" />
+                </View>
+              )}
+              <View style={styles.itemInfo}>
+                <Text style={styles.bodyText} numberOfLines={1}>
+                  {item.productId?.brand} {item.productId?.name}
+                </Text>
+                <Text style={styles.mutedText}>
+                  {item.size ? `Size ${item.size} • ` : ""}Qty {item.quantity} • ₹{item.price} • {item.status}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Timeline */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Clock size={18} color="#ff3f6c" />
+            <Text style={styles.cardTitleInline}>Timeline</Text>
+          </View>
+          {timeline.map((event, index) => (
+            <View key={`${event.timestamp}-${index}`} style={styles.timelineRow}>
+              <View style={[styles.timelineDot, index === 0 && styles.timelineDotActive]} />
+              <View style={styles.itemInfo}>
+                <Text style={styles.bodyText}>{event.status}</Text>
+                {!!event.description && <Text style={styles.mutedText}>{event.description}</Text>}
+                <Text style={styles.mutedText}>
+                  {formatDate(event.timestamp)} • {event.location}
+                  {event.updatedBy ? ` • ${event.updatedBy}` : ""}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: hp(6),
+    paddingBottom: 16,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.05)",
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+  },
+  headerSubtext: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 40,
+    backgroundColor: "#f8f9fa",
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginBottom: 12,
+  },
+  cardTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  cardTitleInline: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginLeft: 8,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  mutedText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 10,
+  },
+  actionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  actionButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipRow: {
+    marginVertical: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    borderColor: "#ff3f6c",
+    backgroundColor: "#fff5f7",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  chipTextActive: {
+    color: "#ff3f6c",
+    fontWeight: "600",
+  },
+  primaryButton: {
+    backgroundColor: "#ff3f6c",
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontWeight: "700",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  itemImage: {
+    width: 48,
+    height: 60,
+    borderRadius: 4,
+    marginRight: 12,
+    backgroundColor: "#f5f5f5",
+  },
+  itemImagePlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  timelineRow: {
+    flexDirection: "row",
+    paddingVertical: 8,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#ccc",
+    marginTop: 5,
+    marginRight: 12,
+  },
+  timelineDotActive: {
+    backgroundColor: "#ff3f6c",
+  },
+});
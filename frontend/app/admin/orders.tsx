@@ -0,0 +1,556 @@
+import React, { useEffect, useState, useMemo } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  StatusBar,
+  Alert,
+  Dimensions,
+} from "react-native";
+import { useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  Search,
+  Package,
+  Truck,
+  CheckSquare,
+  Square,
+  X,
+} from "lucide-react-native";
+import { AdminOrderFilters, AdminOrderOptions, AdminOrderSummary, OrderStatus } from "@/types/product";
+import {
+  getAdminOrders,
+  getAdminOrderOptions,
+  bulkUpdateOrderStatus,
+  handleApiError,
+} from "@/utils/api";
+import { OrderStatusColors } from "@/constants/Colors";
+
+const { height: screenHeight } = Dimensions.get("window");
+const hp = (percentage: number) => (screenHeight * percentage) / 100;
+
+const PAGE_SIZE = 20;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+
+export default function AdminOrdersScreen() {
+  const router = useRouter();
+
+  const [options, setOptions] = useState<AdminOrderOptions | null>(null);
+  const [orders, setOrders] = useState<AdminOrderSummary[]>([]);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
+
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | undefined>(undefined);
+  const [carrierFilter, setCarrierFilter] = useState<string | undefined>(undefined);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAdminOrderOptions().then(response => {
+      if (response.success && response.data) setOptions(response.data);
+    });
+  }, []);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    fetchOrders(1);
+  }, [statusFilter, carrierFilter, search]);
+
+  const fetchOrders = async (pageToLoad: number) => {
+    const filters: AdminOrderFilters = {
+      status: statusFilter,
+      carrier: carrierFilter,
+      search: search || undefined,
+      page: pageToLoad,
+      limit: PAGE_SIZE,
+    };
+
+    try {
+      const response = await getAdminOrders(filters);
+      if (response.success && response.data) {
+        const loaded = response.data;
+        setOrders(prev => (pageToLoad === 1 ? loaded : [...prev, ...loaded]));
+        setStatusCounts(response.statusCounts || {});
+        setTotal(response.meta?.total || 0);
+        setHasNextPage(!!response.meta?.hasNextPage);
+        setPage(pageToLoad);
+        setError(null);
+      } else {
+        setError(handleApiError(response.error));
+      }
+    } catch (err) {
+      console.error("Error loading admin orders:", err);
+      setError("Failed to load orders");
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchOrders(1);
+  };
+
+  const loadMore = () => {
+    if (!hasNextPage || isLoadingMore || isLoading) return;
+    setIsLoadingMore(true);
+    fetchOrders(page + 1);
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  // Only offer statuses that every selected order can move to
+  const bulkTransitions = useMemo(() => {
+    const selected = orders.filter(order => selectedIds.has(order._id));
+    if (selected.length === 0) return [];
+    return selected
+      .map(order => order.allowedTransitions)
+      .reduce((common, allowed) => common.filter(status => allowed.includes(status)));
+  }, [orders, selectedIds]);
+
+  const handleBulkUpdate = (status: OrderStatus) => {
+    const count = selectedIds.size;
+    Alert.alert(
+      "Update Orders",
+      `Move ${count} order${count > 1 ? "s" : ""} to ${status}?${
+        status === "Cancelled" ? " Items are restocked and online payments refunded." : ""
+      }`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Update",
+          style: status === "Cancelled" ? "destructive" : "default",
+          onPress: async () => {
+            setIsUpdating(true);
+            try {
+              const response = await bulkUpdateOrderStatus(Array.from(selectedIds), { status });
+              if (response.success && response.data) {
+                const failures = response.data.results.filter(result => !result.success);
+                Alert.alert(
+                  "Orders Updated",
+                  [
+                    response.message,
+                    ...failures.map(result => `${result.orderId || result.id}: ${result.message}`),
+                  ].join("\n")
+                );
+                setSelectedIds(new Set());
+                fetchOrders(1);
+              } else {
+                Alert.alert("Update Failed", handleApiError(response.error));
+              }
+            } finally {
+              setIsUpdating(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFilterChip = (label: string, active: boolean, onPress: () => void, count?: number) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+        {count !== undefined ? ` (${count})` : ""}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderOrder = ({ item }: { item: AdminOrderSummary }) => {
+    const selected = selectedIds.has(item._id);
+    return (
+      <TouchableOpacity
+        style={[styles.orderCard, selected && styles.orderCardSelected]}
+        onPress={() =>
+          selectedIds.size > 0 ? toggleSelected(item._id) : router.push(`/admin/order/${item._id}`)
+        }
+        onLongPress={() => toggleSelected(item._id)}
+        activeOpacity={0.8}
+      >
+        <TouchableOpacity style={styles.checkbox} onPress={() => toggleSelected(item._id)}>
+          {selected ? <CheckSquare size={20} color="#ff3f6c" /> : <Square size={20} color="#999" />}
+        </TouchableOpacity>
+
+        <View style={styles.orderInfo}>
+          <View style={styles.orderRow}>
+            <Text style={styles.orderId}>#{item.orderId}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: OrderStatusColors[item.status] }]}>
+              <Text style={styles.statusBadgeText}>{item.status}</Text>
+            </View>
+          </View>
+          <Text style={styles.customerText} numberOfLines={1}>
+            {item.customer ? `${item.customer.fullName} • ${item.customer.email}` : "Unknown customer"}
+          </Text>
+          <View style={styles.orderRow}>
+            <Text style={styles.metaText}>
+              {formatDate(item.orderDate)} • {item.itemCount} item{item.itemCount === 1 ? "" : "s"} • ₹{item.total}
+            </Text>
+            <Text style={styles.metaText}>{item.payment.method} • {item.payment.status}</Text>
+          </View>
+          <View style={styles.carrierRow}>
+            <Truck size={14} color="#666" />
+            <Text style={styles.metaText}>
+              {" "}{item.carrier} • {item.trackingNumber} • {item.trackingStatus}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const totalCount = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color="#333" />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <Text style={styles.headerText}>Manage Orders</Text>
+          <Text style={styles.headerSubtext}>{total} order{total === 1 ? "" : "s"}</Text>
+        </View>
+      </View>
+
+      <View style={styles.searchBar}>
+        <Search size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          value={searchInput}
+          onChangeText={setSearchInput}
+          onSubmitEditing={() => setSearch(searchInput.trim())}
+          placeholder="Order ID, tracking number, customer"
+          placeholderTextColor="#999"
+          returnKeyType="search"
+          autoCapitalize="none"
+        />
+        {searchInput.length > 0 && (
+          <TouchableOpacity
+            onPress={() => {
+              setSearchInput("");
+              setSearch("");
+            }}
+          >
+            <X size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {renderFilterChip("All", !statusFilter, () => setStatusFilter(undefined), totalCount)}
+        {(options?.statuses || []).map(status =>
+          renderFilterChip(status, statusFilter === status, () => setStatusFilter(status), statusCounts[status] || 0)
+        )}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {renderFilterChip("All carriers", !carrierFilter, () => setCarrierFilter(undefined))}
+        {(options?.carriers || []).map(carrier =>
+          renderFilterChip(carrier, carrierFilter === carrier, () => setCarrierFilter(carrier))
+        )}
+      </ScrollView>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#ff3f6c" />
+        </View>
+      ) : error ? (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchOrders(1)}>
+            <Text style={styles.retryButtonText}>RETRY</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={orders}
+          keyExtractor={item => item._id}
+          renderItem={renderOrder}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#ff3f6c"]} tintColor="#ff3f6c" />
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator color="#ff3f6c" style={styles.footerLoader} /> : null}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Package size={48} color="#ccc" />
+              <Text style={styles.errorText}>No orders match these filters</Text>
+            </View>
+          }
+        />
+      )}
+
+      {selectedIds.size > 0 && (
+        <View style={styles.bulkBar}>
+          <View style={styles.bulkHeader}>
+            <Text style={styles.bulkTitle}>{selectedIds.size} selected</Text>
+            <TouchableOpacity onPress={() => setSelectedIds(new Set())}>
+              <Text style={styles.bulkClear}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {isUpdating ? (
+            <ActivityIndicator color="#ff3f6c" />
+          ) : bulkTransitions.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {bulkTransitions.map(status => (
+                <TouchableOpacity
+                  key={status}
+                  style={[styles.bulkAction, { backgroundColor: OrderStatusColors[status] }]}
+                  onPress={() => handleBulkUpdate(status)}
+                >
+                  <Text style={styles.bulkActionText}>Mark {status}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : (
+            <Text style={styles.metaText}>The selected orders have no status change in common</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: hp(6),
+    paddingBottom: 16,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.05)",
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+  },
+  headerSubtext: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 14,
+    color: "#333",
+  },
+  filterRow: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    borderColor: "#ff3f6c",
+    backgroundColor: "#fff5f7",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  chipTextActive: {
+    color: "#ff3f6c",
+    fontWeight: "600",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 40,
+    paddingHorizontal: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: "#ff3f6c",
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: "#fff",
+    fontWeight: "700",
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 160,
+  },
+  orderCard: {
+    flexDirection: "row",
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  orderCardSelected: {
+    borderColor: "#ff3f6c",
+    backgroundColor: "#fff5f7",
+  },
+  checkbox: {
+    paddingRight: 10,
+    paddingTop: 2,
+  },
+  orderInfo: {
+    flex: 1,
+  },
+  orderRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  orderId: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#333",
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  customerText: {
+    fontSize: 13,
+    color: "#333",
+    marginBottom: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  carrierRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  bulkBar: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    paddingBottom: 28,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 8,
+  },
+  bulkHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  bulkTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#333",
+  },
+  bulkClear: {
+    fontSize: 14,
+    color: "#ff3f6c",
+    fontWeight: "600",
+  },
+  bulkAction: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  bulkActionText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+});
@@ -8,14 +8,18 @@ import {
   StatusBar,
   RefreshControl,
   FlatList,
+  ScrollView,
   StyleSheet,
   Dimensions,
   Modal,
+  Alert,
+  Share,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import {
   ArrowLeft,
   Search,
+  Share2,
   Filter,
   Grid3X3,
   List,
@@ -25,48 +29,84 @@ import {
   Package,
   SortAsc,
   RotateCcw,
+  MapPin,
+  Check,
+  Plus,
 } from "lucide-react-native";
 
 import {
-  getProducts,
+  getBrand,
+  getBrandProducts,
+  followBrand,
+  unfollowBrand,
   addToWishlist,
   removeFromWishlist,
   addToBag,
   handleApiError,
-  applyFiltersToProducts,
 } from "@/utils/api";
 
 import { 
   Product as OriginalProduct, 
+  BrandDetail,
+  BrandProductFilters,
   FilterState, 
+  SearchFacets,
   SortOption,
   getActiveFiltersCount,
   resetFilters,
   getSortLabel,
   SORT_OPTIONS,
+  getProductMrp,
+  getProductDiscountPercent,
 } from "@/types/product";
 import FilterModal from "@/components/FilterModal";
 import SearchOverlay from "@/components/SearchOverlay";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 import { useAuth } from "@/context/AuthContext";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { useRouteFilters } from "@/hooks/useRouteFilters";
+import { createListingUrl, SEARCH_QUERY_PARAM } from "@/utils/filterParams";
 
 // Get screen dimensions
 const { width: screenWidth } = Dimensions.get('window');
 const isTablet = screenWidth >= 768;
 
+const PAGE_SIZE = 20;
+
 // Extend Product type
 type Product = OriginalProduct & { 
   id?: string;
-  originalPrice?: number;
 };
 
 interface BrandDetailState {
-  brandName: string;
-  products: Product[];
+  brand: BrandDetail | null;
   isLoading: boolean;
   error: string | null;
   refreshing: boolean;
 }
 
+// ✅ Brand products are filtered and sorted on the server; "relevance" has no meaning
+// without a query, so it falls back to popularity
+const toBrandProductFilters = (filters: FilterState): BrandProductFilters => ({
+  sortBy: filters.sortBy && filters.sortBy !== 'relevance' ? filters.sortBy : 'popularity',
+  categoryId: filters.category,
+  sizes: filters.sizes,
+  colors: filters.colors,
+  minPrice: filters.priceMin,
+  maxPrice: filters.priceMax,
+  rating: filters.rating,
+  discount: filters.discount,
+  inStock: filters.inStock,
+  isNew: filters.isNew,
+  isBestseller: filters.isBestseller,
+});
+
+const formatFollowers = (count: number) => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return count.toString();
+};
+
 // ✅ ProductCard Component
 interface ProductCardProps {
   product: Product;
@@ -95,12 +135,6 @@ const ProductCard: React.FC<ProductCardProps> = ({
     return `₹${price.toLocaleString()}`;
   };
 
-  const calculateDiscount = (price: number, originalPrice?: number) => {
-    if (!originalPrice || originalPrice <= price) return null;
-    const discount = Math.round(((originalPrice - price) / originalPrice) * 100);
-    return `${discount}% OFF`;
-  };
-
   const renderRating = (rating: number, ratingCount?: number) => {
     return (
       <View style={styles.productRating}>
@@ -136,18 +170,20 @@ const ProductCard: React.FC<ProductCardProps> = ({
           <Text style={styles.productPrice}>
             {formatPrice(product.price)}
           </Text>
-          {product.originalPrice && product.originalPrice > product.price && (
+          {getProductDiscountPercent(product) > 0 && (
             <>
               <Text style={styles.productOriginalPrice}>
-                {formatPrice(product.originalPrice)}
+                {formatPrice(getProductMrp(product))}
               </Text>
               <Text style={styles.productDiscount}>
-                {calculateDiscount(product.price, product.originalPrice)}
+                {getProductDiscountPercent(product)}% OFF
               </Text>
             </>
           )}
         </View>
 
+        <SaleCountdownBadge sale={product.flashSale} style={styles.saleCountdownBadge} />
+
         {product.rating && renderRating(product.rating, product.ratingCount)}
         
         {layout === 'list' && (
@@ -172,70 +208,66 @@ const ProductCard: React.FC<ProductCardProps> = ({
 };
 
 export default function BrandDetails() {
-  const { name } = useLocalSearchParams();
+  const { name, [SEARCH_QUERY_PARAM]: searchQueryParam } = useLocalSearchParams();
   const router = useRouter();
   const { user } = useAuth();
 
-  console.log("🔍 Brand name from params:", name);
-
   const [state, setState] = useState<BrandDetailState>({
-    brandName: (name as string) || '',
-    products: [],
+    brand: null,
     isLoading: true,
     error: null,
     refreshing: false,
   });
 
-  const [filters, setFilters] = useState<FilterState>({
-    sortBy: 'relevance',
-    brands: [(name as string)]
-  });
+  // ✅ Filters and sort live in the route (?sort=...&sizes=...) so the view can be shared
+  const [filters, setFilters] = useRouteFilters(`brand:${name}`);
 
   const [layout, setLayout] = useState<'grid' | 'list'>('grid');
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [showSearchOverlay, setShowSearchOverlay] = useState(false);
+  const [showSearchOverlay, setShowSearchOverlay] = useState(Boolean(searchQueryParam));
   const [showSortModal, setShowSortModal] = useState(false);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
   const [wishlistItems, setWishlistItems] = useState<Set<string>>(new Set());
   const [bagItems, setBagItems] = useState<Set<string>>(new Set());
 
-  // Apply filters to products
-  const filteredProducts = useMemo(() => {
-    let filtered = [...state.products];
-    filtered = applyFiltersToProducts(filtered, filters);
-    return filtered;
-  }, [state.products, filters]);
+  const brandSlug = state.brand?.slug;
+
+  // ✅ Cursor-paginated brand products with facets for the filter modal
+  const products = useInfiniteScroll<Product, SearchFacets>(
+    async (cursor, signal) => {
+      const response = await getBrandProducts(brandSlug!, {
+        cursor,
+        limit: PAGE_SIZE,
+        ...toBrandProductFilters(filters),
+        signal,
+      });
+
+      if (!response.success) {
+        throw new Error(handleApiError(response.error));
+      }
+
+      return {
+        items: response.data || [],
+        nextCursor: response.meta?.nextCursor ?? null,
+        total: response.meta?.total,
+        extra: response.facets,
+      };
+    },
+    { deps: [brandSlug, filters], getKey: product => product._id, enabled: !!brandSlug }
+  );
 
   // Count active filters
   const activeFiltersCount = useMemo(() => {
     return getActiveFiltersCount(filters);
   }, [filters]);
 
-  // Extract available filter options
-  const availableOptions = useMemo(() => {
-    const brands = new Set<string>();
-    const colors = new Set<string>();
-    const sizes = new Set<string>();
-    let minPrice = Infinity;
-    let maxPrice = 0;
-
-    state.products.forEach(product => {
-      if (product.brand) brands.add(product.brand);
-      if (product.colors) product.colors.forEach(color => colors.add(color));
-      if (product.sizes) product.sizes.forEach(size => sizes.add(size));
-      if (product.price < minPrice) minPrice = product.price;
-      if (product.price > maxPrice) maxPrice = product.price;
-    });
-
-    return {
-      brands: Array.from(brands).sort(),
-      colors: Array.from(colors).sort(),
-      sizes: Array.from(sizes).sort(),
-      priceRange: { min: minPrice === Infinity ? 0 : minPrice, max: maxPrice },
-    };
-  }, [state.products]);
+  // The brand facet is always this brand - hide it from the filter modal
+  const filterFacets = useMemo(() => {
+    return products.extra ? { ...products.extra, brands: [] } : undefined;
+  }, [products.extra]);
 
-  // Fetch brand products
-  const fetchBrandProducts = async () => {
+  // Fetch brand header (description, followers, categories)
+  const fetchBrand = async () => {
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
@@ -243,58 +275,75 @@ export default function BrandDetails() {
         throw new Error("Brand name is missing");
       }
 
-      console.log("🔍 Fetching products for brand:", name);
+      console.log("🔍 Fetching brand:", name);
 
-      const productsResponse = await getProducts({ 
-        limit: 100,
-        brand: name as string
-      });
+      const response = await getBrand(name as string);
 
-      if (!productsResponse.success) {
-        throw new Error(handleApiError(productsResponse.error));
+      if (!response.success || !response.data) {
+        throw new Error(handleApiError(response.error));
       }
 
-      // Filter products by brand name and add missing properties
-      const brandProducts = (productsResponse.data || [])
-        .filter((product: Product) => 
-          product.brand?.toLowerCase() === (name as string).toLowerCase()
-        )
-        .map((product: Product) => {
-          const productId = product._id || product.id || `temp-${Math.random()}`;
-          
-          return {
-            ...product,
-            _id: productId,
-            id: productId,
-            rating: product.rating || (3.5 + Math.random() * 1.5),
-            ratingCount: product.ratingCount || Math.floor(Math.random() * 500) + 10,
-            originalPrice: product.originalPrice || (product.price * (1.2 + Math.random() * 0.3)),
-          };
-        });
-
-      console.log("🔍 Brand products found:", brandProducts.length);
-
+      const brand = response.data;
       setState(prev => ({
         ...prev,
-        products: brandProducts,
+        brand,
         isLoading: false,
       }));
 
     } catch (error: any) {
-      console.error("❌ Error loading brand products:", error);
+      console.error("❌ Error loading brand:", error);
       setState(prev => ({
         ...prev,
-        error: error.message || "Failed to load brand products",
+        error: error.message || "Failed to load brand",
         isLoading: false,
       }));
     }
   };
 
+  // ✅ Refetch on sign-in/out so isFollowing reflects the current user
   useEffect(() => {
     if (name) {
-      fetchBrandProducts();
+      fetchBrand();
     }
-  }, [name]);
+  }, [name, user?._id]);
+
+  // ✅ Follow / unfollow - the server returns the updated follower count
+  const handleToggleFollow = async () => {
+    const brand = state.brand;
+    if (!brand || isUpdatingFollow) return;
+
+    if (!user) {
+      Alert.alert(
+        "Login Required",
+        `Please login to follow ${brand.name}`,
+        [
+          { text: "Login", onPress: () => router.push("/login") },
+          { text: "Cancel", style: "cancel" },
+        ]
+      );
+      return;
+    }
+
+    setIsUpdatingFollow(true);
+    try {
+      const response = brand.isFollowing
+        ? await unfollowBrand(brand._id)
+        : await followBrand(brand._id);
+
+      if (!response.success || !response.data) {
+        Alert.alert("Error", handleApiError(response.error) || "Failed to update follow");
+        return;
+      }
+
+      const { isFollowing, followerCount } = response.data;
+      setState(prev => prev.brand
+        ? { ...prev, brand: { ...prev.brand, isFollowing, followerCount } }
+        : prev
+      );
+    } finally {
+      setIsUpdatingFollow(false);
+    }
+  };
 
   // Handle filter application
   const handleApplyFilters = (newFilters: FilterState) => {
@@ -304,11 +353,22 @@ export default function BrandDetails() {
 
   // Reset filters
   const handleResetFilters = () => {
-    const resetedFilters = resetFilters();
-    setFilters({
-      ...resetedFilters,
-      brands: [(name as string)] // Keep brand filter
-    });
+    setFilters(resetFilters());
+  };
+
+  // ✅ Shares the brand page exactly as filtered and sorted
+  const handleShareListing = async () => {
+    if (!state.brand) return;
+
+    try {
+      const url = createListingUrl(`/brand/${state.brand.slug}`, filters);
+      await Share.share({
+        message: `${state.brand.name} on Myntra: ${url}`,
+        url,
+      });
+    } catch (error) {
+      console.error("Error sharing brand:", error);
+    }
   };
 
   // Handle sort change
@@ -318,6 +378,14 @@ export default function BrandDetails() {
     setShowSortModal(false);
   };
 
+  // Category chips - tapping the active chip clears it
+  const handleCategoryPress = (categoryId?: string) => {
+    setFilters(prev => ({
+      ...prev,
+      category: categoryId && prev.category !== categoryId ? categoryId : undefined,
+    }));
+  };
+
   const handleProductPress = (product: Product) => {
     const productId = product._id || product.id;
     console.log("🔍 Product pressed:", productId);
@@ -368,7 +436,7 @@ export default function BrandDetails() {
   // Handle refresh
   const handleRefresh = () => {
     setState(prev => ({ ...prev, refreshing: true }));
-    fetchBrandProducts().finally(() => {
+    Promise.all([fetchBrand(), products.refresh()]).finally(() => {
       setState(prev => ({ ...prev, refreshing: false }));
     });
   };
@@ -377,10 +445,7 @@ export default function BrandDetails() {
   const handleSearchComplete = (query: string, searchFilters?: FilterState) => {
     console.log('🔍 Brand search:', query, searchFilters);
     if (searchFilters) {
-      setFilters({
-        ...searchFilters,
-        brands: [(name as string)] // Always keep brand filter
-      });
+      setFilters({ ...searchFilters, brands: undefined });
     }
   };
 
@@ -412,23 +477,174 @@ export default function BrandDetails() {
     </Modal>
   );
 
-  if (state.isLoading) {
+  // ✅ Brand header: banner, logo, description, followers and category chips
+  const renderBrandHeader = () => {
+    const brand = state.brand;
+    if (!brand) return null;
+
+    return (
+      <View style={styles.brandHeader}>
+        {brand.banner ? (
+          <Image source={{ uri: brand.banner }} style={styles.brandBanner} resizeMode="cover" />
+        ) : (
+          <View style={[styles.brandBanner, styles.brandBannerPlaceholder]} />
+        )}
+
+        <View style={styles.brandInfo}>
+          <View style={styles.brandInfoTop}>
+            {brand.logo ? (
+              <Image source={{ uri: brand.logo }} style={styles.brandLogo} resizeMode="contain" />
+            ) : (
+              <View style={[styles.brandLogo, styles.brandLogoPlaceholder]}>
+                <Text style={styles.brandLogoInitial}>{brand.name.charAt(0).toUpperCase()}</Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.followButton, brand.isFollowing && styles.followButtonActive]}
+              onPress={handleToggleFollow}
+              disabled={isUpdatingFollow}
+              activeOpacity={0.7}
+            >
+              {isUpdatingFollow ? (
+                <ActivityIndicator size="small" color={brand.isFollowing ? "#ff3f6c" : "#fff"} />
+              ) : (
+                <>
+                  {brand.isFollowing ? (
+                    <Check size={16} color="#ff3f6c" />
+                  ) : (
+                    <Plus size={16} color="#fff" />
+                  )}
+                  <Text style={[styles.followButtonText, brand.isFollowing && styles.followButtonTextActive]}>
+                    {brand.isFollowing ? 'Following' : 'Follow'}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.brandTitle}>{brand.name}</Text>
+
+          <View style={styles.brandMeta}>
+            <Text style={styles.brandMetaText}>
+              {formatFollowers(brand.followerCount)} follower{brand.followerCount !== 1 ? 's' : ''}
+            </Text>
+            <Text style={styles.brandMetaDot}>•</Text>
+            <Text style={styles.brandMetaText}>
+              {brand.productCount} product{brand.productCount !== 1 ? 's' : ''}
+            </Text>
+            {!!brand.country && (
+              <>
+                <Text style={styles.brandMetaDot}>•</Text>
+                <MapPin size={12} color="#666" />
+                <Text style={[styles.brandMetaText, styles.brandCountry]}>{brand.country}</Text>
+              </>
+            )}
+          </View>
+
+          {!!brand.description && (
+            <Text style={styles.brandDescription}>{brand.description}</Text>
+          )}
+
+          {brand.productCount > 0 && (
+            <Text style={styles.brandPriceRange}>
+              ₹{brand.priceRange.min.toLocaleString()} - ₹{brand.priceRange.max.toLocaleString()}
+            </Text>
+          )}
+        </View>
+
+        {brand.categories.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.categoryChips}
+          >
+            <TouchableOpacity
+              style={[styles.categoryChip, !filters.category && styles.categoryChipActive]}
+              onPress={() => handleCategoryPress()}
+            >
+              <Text style={[styles.categoryChipText, !filters.category && styles.categoryChipTextActive]}>
+                All
+              </Text>
+            </TouchableOpacity>
+            {brand.categories.map(category => {
+              const isActive = filters.category === category._id;
+              return (
+                <TouchableOpacity
+                  key={category._id}
+                  style={[styles.categoryChip, isActive && styles.categoryChipActive]}
+                  onPress={() => handleCategoryPress(category._id)}
+                >
+                  <Text style={[styles.categoryChipText, isActive && styles.categoryChipTextActive]}>
+                    {category.name} ({category.count})
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (products.isLoading) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color="#ff3f6c" />
+        </View>
+      );
+    }
+
+    const hasNoProducts = !state.brand || state.brand.productCount === 0;
+    return (
+      <View style={styles.emptyContainer}>
+        <View style={styles.emptyIcon}>
+          <Package size={40} color="#ccc" />
+        </View>
+        <Text style={styles.emptyTitle}>No Products Found</Text>
+        <Text style={styles.emptyText}>
+          {hasNoProducts 
+            ? `We couldn't find any products for "${state.brand?.name || name}". Try browsing other brands or check back later.`
+            : `No products match your current filters. Try adjusting your search criteria.`
+          }
+        </Text>
+        {hasNoProducts ? (
+          <TouchableOpacity 
+            style={styles.exploreButton}
+            onPress={() => router.push('/categories')}
+          >
+            <Text style={styles.exploreButtonText}>Explore Categories</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity 
+            style={styles.exploreButton}
+            onPress={handleResetFilters}
+          >
+            <Text style={styles.exploreButtonText}>Clear Filters</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (state.isLoading && !state.brand) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#ff3f6c" />
-        <Text style={styles.loadingText}>Loading {name} products...</Text>
+        <Text style={styles.loadingText}>Loading {name}...</Text>
       </View>
     );
   }
 
-  if (state.error) {
+  if (state.error && !state.brand) {
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorTitle}>Brand not found</Text>
         <Text style={styles.errorText}>{state.error}</Text>
         <TouchableOpacity 
           style={styles.retryButton} 
-          onPress={fetchBrandProducts}
+          onPress={fetchBrand}
         >
           <Text style={styles.retryButtonText}>Try Again</Text>
         </TouchableOpacity>
@@ -450,13 +666,19 @@ export default function BrandDetails() {
         </TouchableOpacity>
 
         <View style={styles.headerTitle}>
-          <Text style={styles.brandName}>{name}</Text>
+          <Text style={styles.brandName}>{state.brand?.name || name}</Text>
           <Text style={styles.productCount}>
-            {filteredProducts.length} product{filteredProducts.length !== 1 ? 's' : ''}
+            {products.total} product{products.total !== 1 ? 's' : ''}
           </Text>
         </View>
 
         <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={handleShareListing}
+          >
+            <Share2 size={22} color="#333" />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.searchButton}
             onPress={() => setShowSearchOverlay(true)}
@@ -514,63 +736,40 @@ export default function BrandDetails() {
         </TouchableOpacity>
       </View>
 
-      {/* Empty State or Product List */}
-      {filteredProducts.length === 0 && !state.isLoading ? (
-        <View style={styles.emptyContainer}>
-          <View style={styles.emptyIcon}>
-            <Package size={40} color="#ccc" />
-          </View>
-          <Text style={styles.emptyTitle}>No Products Found</Text>
-          <Text style={styles.emptyText}>
-            {state.products.length === 0 
-              ? `We couldn't find any products for "${name}". Try browsing other brands or check back later.`
-              : `No products match your current filters. Try adjusting your search criteria.`
-            }
-          </Text>
-          {state.products.length === 0 ? (
-            <TouchableOpacity 
-              style={styles.exploreButton}
-              onPress={() => router.push('/categories')}
-            >
-              <Text style={styles.exploreButtonText}>Explore Categories</Text>
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity 
-              style={styles.exploreButton}
-              onPress={handleResetFilters}
-            >
-              <Text style={styles.exploreButtonText}>Clear Filters</Text>
-            </TouchableOpacity>
-          )}
-        </View>
-      ) : (
-        <FlatList
-          data={filteredProducts}
-          keyExtractor={(item, index) => `${item._id || item.id}-${index}`}
-          numColumns={layout === 'grid' ? 2 : 1}
-          key={layout}
-          renderItem={({ item }) => (
-            <ProductCard
-              product={item}
-              layout={layout}
-              onPress={() => handleProductPress(item)}
-              onWishlistPress={() => handleWishlistPress(item)}
-              onBagPress={() => handleBagPress(item)}
-              isInWishlist={wishlistItems.has(item._id || item.id || '')}
-              isInBag={bagItems.has(item._id || item.id || '')}
-            />
-          )}
-          contentContainerStyle={styles.productsList}
-          showsVerticalScrollIndicator={false}
-          refreshControl={
-            <RefreshControl
-              refreshing={state.refreshing}
-              onRefresh={handleRefresh}
-              colors={['#ff3f6c']}
-            />
-          }
-        />
-      )}
+      {/* Brand header + server-paginated product list */}
+      <FlatList
+        data={products.isLoading ? [] : products.items}
+        keyExtractor={(item, index) => `${item._id || item.id}-${index}`}
+        numColumns={layout === 'grid' ? 2 : 1}
+        key={layout}
+        ListHeaderComponent={renderBrandHeader}
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={products.isLoadingMore ? (
+          <ActivityIndicator size="small" color="#ff3f6c" style={styles.loadingMore} />
+        ) : null}
+        renderItem={({ item }) => (
+          <ProductCard
+            product={item}
+            layout={layout}
+            onPress={() => handleProductPress(item)}
+            onWishlistPress={() => handleWishlistPress(item)}
+            onBagPress={() => handleBagPress(item)}
+            isInWishlist={wishlistItems.has(item._id || item.id || '')}
+            isInBag={bagItems.has(item._id || item.id || '')}
+          />
+        )}
+        onEndReached={products.loadMore}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.productsList}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={state.refreshing}
+            onRefresh={handleRefresh}
+            colors={['#ff3f6c']}
+          />
+        }
+      />
 
       {/* Filter Modal */}
       <FilterModal
@@ -579,31 +778,28 @@ export default function BrandDetails() {
         onApply={handleApplyFilters}
         currentFilters={filters}
         categories={[]}
-        brands={availableOptions.brands}
-        priceRange={availableOptions.priceRange}
-        totalProducts={filteredProducts.length}
-        colors={availableOptions.colors}
-        sizes={availableOptions.sizes}
-        products={state.products}
+        totalProducts={products.total}
+        products={products.items}
+        facets={filterFacets}
       />
 
       {/* Search Overlay */}
       <SearchOverlay
         visible={showSearchOverlay}
         onClose={() => setShowSearchOverlay(false)}
-        products={state.products}
+        products={products.items}
         onProductPress={(productId: string) => {
-          const product = state.products.find(p => p._id === productId || p.id === productId);
+          const product = products.items.find(p => p._id === productId || p.id === productId);
           if (product) handleProductPress(product);
         }}
         activeFilters={filters}
         onSearchComplete={handleSearchComplete}
         onApplyFilters={handleApplyFilters}
-        availableBrands={availableOptions.brands}
-        priceRange={availableOptions.priceRange}
-        availableColors={availableOptions.colors}
-        availableSizes={availableOptions.sizes}
-        totalProducts={filteredProducts.length}
+        availableBrands={[]}
+        priceRange={products.extra?.priceRange || state.brand?.priceRange}
+        availableColors={products.extra?.colors.map(facet => facet.value) || []}
+        availableSizes={products.extra?.sizes.map(facet => facet.value) || []}
+        totalProducts={products.total}
         onSortChange={handleSortChange}
       />
 
@@ -806,8 +1002,145 @@ const styles = StyleSheet.create({
   },
   productsList: {
     paddingHorizontal: isTablet ? 20 : 16,
-    paddingVertical: isTablet ? 16 : 12,
+    paddingBottom: isTablet ? 16 : 12,
     backgroundColor: '#f8f9fa',
+    flexGrow: 1,
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  // Brand header styles
+  brandHeader: {
+    marginHorizontal: isTablet ? -20 : -16,
+    marginBottom: isTablet ? 16 : 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  brandBanner: {
+    width: '100%',
+    height: isTablet ? 220 : 160,
+    backgroundColor: '#f0f0f0',
+  },
+  brandBannerPlaceholder: {
+    backgroundColor: '#ffe4ea',
+  },
+  brandInfo: {
+    paddingHorizontal: isTablet ? 24 : 16,
+    paddingBottom: 12,
+  },
+  brandInfoTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginTop: isTablet ? -40 : -32,
+  },
+  brandLogo: {
+    width: isTablet ? 80 : 64,
+    height: isTablet ? 80 : 64,
+    borderRadius: isTablet ? 40 : 32,
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#fff',
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  brandLogoPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ff3f6c',
+  },
+  brandLogoInitial: {
+    fontSize: isTablet ? 32 : 26,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  followButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 110,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: '#ff3f6c',
+    borderWidth: 1,
+    borderColor: '#ff3f6c',
+  },
+  followButtonActive: {
+    backgroundColor: '#fff',
+  },
+  followButtonText: {
+    fontSize: isTablet ? 15 : 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginLeft: 6,
+  },
+  followButtonTextActive: {
+    color: '#ff3f6c',
+  },
+  brandTitle: {
+    fontSize: isTablet ? 26 : 22,
+    fontWeight: '700',
+    color: '#333',
+    marginTop: 12,
+  },
+  brandMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  brandMetaText: {
+    fontSize: isTablet ? 14 : 13,
+    color: '#666',
+  },
+  brandMetaDot: {
+    marginHorizontal: 6,
+    color: '#999',
+  },
+  brandCountry: {
+    marginLeft: 3,
+  },
+  brandDescription: {
+    fontSize: isTablet ? 15 : 14,
+    color: '#444',
+    lineHeight: 20,
+    marginTop: 10,
+  },
+  brandPriceRange: {
+    fontSize: isTablet ? 14 : 13,
+    color: '#333',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  categoryChips: {
+    paddingHorizontal: isTablet ? 24 : 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  categoryChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  categoryChipActive: {
+    backgroundColor: '#ff3f6c',
+    borderColor: '#ff3f6c',
+  },
+  categoryChipText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+  },
+  categoryChipTextActive: {
+    color: '#fff',
   },
   emptyContainer: {
     flex: 1,
@@ -906,6 +1239,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  saleCountdownBadge: {
+    marginBottom: 8,
+  },
   productPrice: {
     fontSize: isTablet ? 18 : 16,
     fontWeight: '700',
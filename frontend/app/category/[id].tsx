@@ -13,11 +13,13 @@ import {
   Animated,
   StatusBar,
   Alert,
+  Share,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import {
   ArrowLeft,
   Search,
+  Share2,
   Filter,
   Grid3X3,
   List,
@@ -31,8 +33,6 @@ import {
 
 // ✅ UPDATED: Only import wishlist-related API functions
 import {
-  getCategories,
-  getProducts,
   getCategoryById,
   getProductsByCategory,
   addToWishlist,
@@ -41,21 +41,31 @@ import {
   getUserWishlist,
 } from "@/utils/api";
 
-import { Product as OriginalProduct, Category, SortOption, FilterState } from "@/types/product";
+import {
+  Product as OriginalProduct,
+  Category,
+  SortOption,
+  FilterState,
+  ProductFilterOptions,
+  getActiveFiltersCount,
+} from "@/types/product";
 
 // Extend Product type to include optional 'id' for compatibility
 type Product = OriginalProduct & { id?: string };
 import FilterModal from "@/components/FilterModal";
+import CategoryBreadcrumbs from "@/components/CategoryBreadcrumbs";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 import SearchOverlay from "@/components/SearchOverlay";
 import { useAuth } from "@/context/AuthContext";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { useRouteFilters } from "@/hooks/useRouteFilters";
+import { createListingUrl, SEARCH_QUERY_PARAM } from "@/utils/filterParams";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
 // Types
 interface CategoryDetailState {
   category: Category | null;
-  products: Product[];
-  filteredProducts: Product[];
   isLoading: boolean;
   error: string | null;
   refreshing: boolean;
@@ -83,7 +93,7 @@ const SORT_OPTIONS: { label: string; value: SortOption; icon: string }[] = [
 ];
 
 export default function CategoryDetails() {
-  const { id } = useLocalSearchParams();
+  const { id, [SEARCH_QUERY_PARAM]: searchQueryParam } = useLocalSearchParams();
   const router = useRouter();
   
   // ✅ UPDATED: Only use wishlist-related context methods
@@ -102,19 +112,16 @@ export default function CategoryDetails() {
   // State
   const [state, setState] = useState<CategoryDetailState>({
     category: null,
-    products: [],
-    filteredProducts: [],
     isLoading: true,
     error: null,
     refreshing: false,
   });
 
-  const [filters, setFilters] = useState<FilterState>({
-    sortBy: 'relevance',
-  });
+  // ✅ Filters and sort live in the route (?sort=...&brands=...) so the view can be shared
+  const [filters, setFilters] = useRouteFilters(`category:${id}`);
   const [layout, setLayout] = useState<'grid' | 'list'>('grid');
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [showSearchOverlay, setShowSearchOverlay] = useState(false);
+  const [showSearchOverlay, setShowSearchOverlay] = useState(Boolean(searchQueryParam));
   
   // ✅ UPDATED: Only wishlist loading state
   const [wishlistLoading, setWishlistLoading] = useState<Set<string>>(new Set());
@@ -123,6 +130,32 @@ export default function CategoryDetails() {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const headerScrollY = useRef(new Animated.Value(0)).current;
 
+  const categoryId = state.category?._id;
+
+  // ✅ Products are filtered, sorted and cursor-paginated on the server
+  const products = useInfiniteScroll<Product, ProductFilterOptions>(
+    async (cursor, signal) => {
+      const response = await getProductsByCategory(categoryId!, {
+        cursor,
+        limit: PRODUCTS_PER_PAGE,
+        filters,
+        signal,
+      });
+
+      if (!response.success) {
+        throw new Error(handleApiError(response.error));
+      }
+
+      return {
+        items: (response.data || []).map((product: Product) => ({ ...product, id: product._id })),
+        nextCursor: response.meta?.nextCursor ?? null,
+        total: response.meta?.total,
+        extra: response.filters?.options,
+      };
+    },
+    { deps: [categoryId, filters], getKey: product => product._id, enabled: !!categoryId }
+  );
+
   // ✅ Listen to wishlist refresh triggers for cross-page sync
   useEffect(() => {
     if (wishlistRefreshTrigger > 0) {
@@ -133,91 +166,14 @@ export default function CategoryDetails() {
 
   // Memoized calculations
   const activeFiltersCount = useMemo(() => {
-    let count = 0;
-    if (filters.priceMin !== undefined || filters.priceMax !== undefined) count++;
-    if (filters.rating) count++;
-    if (filters.brands && filters.brands.length > 0) count++;
-    if (filters.discount) count++;
-    if (filters.sortBy && filters.sortBy !== 'relevance') count++;
-    if (filters.category) count++;
-    if (filters.subcategory) count++;
-    return count;
+    return getActiveFiltersCount(filters);
   }, [filters]);
 
-  const availableBrands = useMemo(() => {
-    const brandsSet = new Set<string>();
-    state.products.forEach(product => {
-      if (product.brand) brandsSet.add(product.brand);
-    });
-    return Array.from(brandsSet).sort();
-  }, [state.products]);
-
+  // ✅ Filter options come from the server for the whole category, not just the loaded page
   const priceRange = useMemo(() => {
-    if (state.products.length === 0) return { min: 0, max: 50000 };
-    
-    const prices = state.products.map(p => p.price);
-    return {
-      min: Math.min(...prices),
-      max: Math.max(...prices),
-    };
-  }, [state.products]);
-
-  // Apply filters to products
-  const filteredProducts = useMemo(() => {
-    let filtered = [...state.products];
-
-    // Apply price filter
-    if (filters.priceMin !== undefined) {
-      filtered = filtered.filter(p => p.price >= filters.priceMin!);
-    }
-    if (filters.priceMax !== undefined) {
-      filtered = filtered.filter(p => p.price <= filters.priceMax!);
-    }
-
-    // Apply rating filter
-    if (filters.rating) {
-      filtered = filtered.filter(p => (p.rating || 0) >= filters.rating!);
-    }
-
-    // Apply brand filter
-    if (filters.brands && filters.brands.length > 0) {
-      filtered = filtered.filter(p => p.brand && filters.brands!.includes(p.brand));
-    }
-
-    // Apply discount filter
-    if (filters.discount) {
-      filtered = filtered.filter(p => {
-        if (!p.discount) return false;
-        const discountPercent = parseInt(p.discount.replace(/\D/g, ''));
-        return discountPercent >= filters.discount!;
-      });
-    }
-
-    // Apply sorting
-    switch (filters.sortBy) {
-      case 'price_asc':
-        filtered.sort((a, b) => a.price - b.price);
-        break;
-      case 'price_desc':
-        filtered.sort((a, b) => b.price - a.price);
-        break;
-      case 'rating':
-        filtered.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-        break;
-      case 'newest':
-        filtered.sort((a, b) => 
-          new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-        );
-        break;
-      case 'popularity':
-        filtered.sort((a, b) => (b.popularity || 0) - (a.popularity || 0));
-        break;
-      default:
-        break;
-    }
-
-    return filtered;
-  }, [state.products, filters]);
+    const range = products.extra?.priceRange;
+    return range && range.max > 0 ? range : { min: 0, max: 50000 };
+  }, [products.extra]);
 
   // Effects
   useEffect(() => {
@@ -264,86 +220,10 @@ export default function CategoryDetails() {
         return;
       }
 
-      // Try multiple approaches to get products
-      let categoryProducts: Product[] = [];
-
-      // Method 1: Try category-specific products endpoint
-      try {
-        console.log("🔍 Trying getProductsByCategory...");
-        const productsResponse = await getProductsByCategory(id as string, { 
-          limit: 50,
-          page: 1 
-        });
-        
-        if (productsResponse.success && productsResponse.data) {
-          categoryProducts = productsResponse.data;
-          console.log("✅ Got products from getProductsByCategory:", categoryProducts.length);
-        }
-      } catch (error) {
-        console.warn("⚠️ getProductsByCategory failed, trying fallback");
-      }
-
-      // Method 2: Use category's productId array if available
-      if (
-        categoryProducts.length === 0 &&
-        Array.isArray(matchedCategory.productId) &&
-        matchedCategory.productId.length > 0
-      ) {
-        console.log("🔍 Using category.productId array:", matchedCategory.productId.length);
-        categoryProducts = matchedCategory.productId;
-      }
-
-      // Method 3: Fallback - Get products with category filter
-      if (categoryProducts.length === 0) {
-        try {
-          console.log("🔍 Trying fallback with getProducts...");
-          const allProductsResponse = await getProducts({ 
-            limit: 50,
-            categoryId: id as string
-          });
-          
-          if (allProductsResponse.success && allProductsResponse.data) {
-            categoryProducts = (allProductsResponse.data || []).filter((product: Product) => {
-              // Check if product belongs to this category
-              if (typeof product.category === 'object' && product.category?._id === id) {
-                return true;
-              }
-              if (typeof product.category === 'string' && product.category === id) {
-                return true;
-              }
-              return false;
-            });
-            console.log("✅ Got products from fallback filtering:", categoryProducts.length);
-          }
-        } catch (error) {
-          console.warn("⚠️ Fallback getProducts also failed");
-        }
-      }
-
-      // Ensure products have proper IDs
-      const enhancedProducts = categoryProducts.map((product: Product) => {
-        const productId = product._id || product.id || `temp-${Math.random()}`;
-        
-        return {
-          ...product,
-          _id: productId,
-          id: productId,
-          rating: product.rating || (3.5 + Math.random() * 1.5),
-          ratingCount: product.ratingCount || Math.floor(Math.random() * 500) + 10,
-          popularity: product.popularity || Math.floor(Math.random() * 1000),
-          isNew: product.isNew ?? (Math.random() > 0.8),
-          isBestseller: product.isBestseller ?? (Math.random() > 0.9),
-        };
-      });
-
-      console.log("🔍 Final enhanced products:", enhancedProducts.length);
-      console.log("🔍 First product structure:", enhancedProducts[0]);
-
+      // ✅ The route param may be a slug - products load once the resolved id is in state
       setState(prev => ({
         ...prev,
         category: matchedCategory,
-        products: enhancedProducts,
-        filteredProducts: enhancedProducts,
         isLoading: false,
       }));
 
@@ -360,7 +240,7 @@ export default function CategoryDetails() {
   // ✅ Updated onRefresh to use global preferences
   const onRefresh = async () => {
     setState(prev => ({ ...prev, refreshing: true }));
-    await fetchCategoryData();
+    await Promise.all([fetchCategoryData(), products.refresh()]);
     
     if (user) {
       await refreshUserPreferences();
@@ -422,7 +302,7 @@ export default function CategoryDetails() {
         } else {
           // ✅ REVERT: Revert optimistic update on failure
           console.log("❌ Category: Failed to remove, reverting UI");
-          const product = filteredProducts.find(p => (p._id || p.id) === productId);
+          const product = products.items.find(p => (p._id || p.id) === productId);
           if (product) {
             const revertItem = { 
               _id: productId, 
@@ -443,7 +323,7 @@ export default function CategoryDetails() {
         // ✅ OPTIMISTIC UPDATE: Update UI immediately
         console.log("🔄 Category: Optimistic update - Adding to wishlist UI");
         
-        const product = filteredProducts.find(p => (p._id || p.id) === productId);
+        const product = products.items.find(p => (p._id || p.id) === productId);
         if (!product) {
           Alert.alert("Error", "Product not found. Please refresh and try again.");
           return;
@@ -525,6 +405,21 @@ export default function CategoryDetails() {
     setFilters({ sortBy: 'relevance' });
   };
 
+  // ✅ Shares the listing exactly as filtered and sorted
+  const handleShareListing = async () => {
+    if (!state.category) return;
+
+    try {
+      const url = createListingUrl(`/category/${state.category.slug || state.category._id}`, filters);
+      await Share.share({
+        message: `${state.category.name} on Myntra: ${url}`,
+        url,
+      });
+    } catch (error) {
+      console.error("Error sharing category:", error);
+    }
+  };
+
   // Rating Component
   const RatingDisplay: React.FC<{ 
     rating?: number; 
@@ -582,6 +477,7 @@ export default function CategoryDetails() {
           
           {/* Product Badges */}
           <View style={styles.productBadges}>
+            <SaleCountdownBadge sale={product.flashSale} style={styles.saleCountdownBadge} />
             {product.isNew && (
               <View style={[styles.badge, styles.newBadge]}>
                 <Text style={styles.badgeText}>NEW</Text>
@@ -679,10 +575,18 @@ export default function CategoryDetails() {
             {state.category?.name || 'Category'}
           </Text>
           <Text style={styles.productCount}>
-            {filteredProducts.length} product{filteredProducts.length !== 1 ? 's' : ''}
+            {products.total} product{products.total !== 1 ? 's' : ''}
           </Text>
         </View>
 
+        <TouchableOpacity
+          style={styles.searchButton}
+          onPress={handleShareListing}
+          activeOpacity={0.7}
+        >
+          <Share2 size={22} color="#333" />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.searchButton}
           onPress={() => setShowSearchOverlay(true)}
@@ -692,6 +596,33 @@ export default function CategoryDetails() {
         </TouchableOpacity>
       </View>
 
+      {/* ✅ NEW: Breadcrumbs and subcategory drill-down */}
+      {state.category?.path && state.category.path.length > 1 && (
+        <CategoryBreadcrumbs path={state.category.path} />
+      )}
+
+      {state.category?.children && state.category.children.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.subcategoryRow}
+        >
+          {state.category.children.map(child => (
+            <TouchableOpacity
+              key={child._id}
+              style={styles.subcategoryChip}
+              onPress={() => router.push(`/category/${child._id}`)}
+              activeOpacity={0.7}
+            >
+              {child.image ? (
+                <Image source={{ uri: child.image }} style={styles.subcategoryImage} />
+              ) : null}
+              <Text style={styles.subcategoryText} numberOfLines={1}>{child.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Filter Bar */}
       <View style={styles.filterBar}>
         <ScrollView 
@@ -807,7 +738,11 @@ export default function CategoryDetails() {
       {renderHeader()}
 
       <Animated.View style={[styles.content, { opacity: fadeAnim }]}>
-        {filteredProducts.length === 0 ? (
+        {products.isLoading && products.items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color="#ff3f6c" />
+          </View>
+        ) : products.items.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyTitle}>No products found</Text>
             <Text style={styles.emptyText}>
@@ -825,7 +760,7 @@ export default function CategoryDetails() {
           </View>
         ) : (
           <FlatList
-            data={filteredProducts}
+            data={products.items}
             keyExtractor={(item, index) => `${item._id || item.id}-${index}`}
             numColumns={layout === 'grid' ? 2 : 1}
             key={layout}
@@ -857,6 +792,11 @@ export default function CategoryDetails() {
               />
             }
             showsVerticalScrollIndicator={false}
+            onEndReached={products.loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={products.isLoadingMore ? (
+              <ActivityIndicator size="small" color="#ff3f6c" style={styles.loadingMore} />
+            ) : null}
             onScroll={Animated.event(
               [{ nativeEvent: { contentOffset: { y: headerScrollY } } }],
               { useNativeDriver: false }
@@ -875,18 +815,20 @@ export default function CategoryDetails() {
         onApply={handleFilterApply}
         currentFilters={filters}
         categories={[]}
-        brands={availableBrands}
+        brands={products.extra?.brands || []}
+        colors={products.extra?.colors || []}
+        sizes={products.extra?.sizes || []}
         priceRange={priceRange}
-        totalProducts={filteredProducts.length}
+        totalProducts={products.total}
       />
 
       {/* ✅ UPDATED: Search Overlay with only wishlist functionality */}
       <SearchOverlay
         visible={showSearchOverlay}
         onClose={() => setShowSearchOverlay(false)}
-        products={state.products}
+        products={products.items}
         onProductPress={(productId: string) => {
-          const product = state.products.find(
+          const product = products.items.find(
             (p) => p._id === productId || p.id === productId
           );
           if (product) {
@@ -993,6 +935,34 @@ const styles = StyleSheet.create({
   searchButton: {
     padding: 8,
   },
+  subcategoryRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  subcategoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 4,
+    paddingRight: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#fff',
+  },
+  subcategoryImage: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 6,
+    backgroundColor: '#f1f5f9',
+  },
+  subcategoryText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
   filterBar: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1128,6 +1098,9 @@ const styles = StyleSheet.create({
     flexDirection: 'column',
     alignItems: 'flex-start',
   },
+  saleCountdownBadge: {
+    marginBottom: 4,
+  },
   badge: {
     paddingHorizontal: 6,
     paddingVertical: 2,
@@ -1226,6 +1199,9 @@ const styles = StyleSheet.create({
   listSeparator: {
     height: 8,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -34,8 +34,13 @@ import { useAuth } from "@/context/AuthContext";
 // ✅ UPDATED: Import centralized API functions
 import {
   createOrder,
-  handleApiError
+  createPaymentIntent,
+  confirmPaymentIntent,
+  handleApiError,
+  reserveCheckoutStock,
+  releaseCheckoutStock
 } from "@/utils/api";
+import { AppliedPromotion, RepricedBagItem, StockIssue } from "@/types/product";
 import { getBagSummary } from '../utils/api';
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -60,17 +65,19 @@ interface Address {
 
 interface PaymentMethod {
   method: 'COD' | 'Credit Card' | 'Debit Card' | 'UPI' | 'Net Banking' | 'Wallet';
-  cardNumber?: string;
-  expiryDate?: string;
-  cvv?: string;
-  cardHolderName?: string;
-  upiId?: string;
+}
+
+// Order created but its online payment still outstanding (declined or abandoned)
+interface PendingPaymentOrder {
+  orderId: string;
+  trackingNumber?: string;
 }
 
 interface OrderSummary {
   itemCount: number;
   subtotal: number;
   discount: number;
+  promotions: AppliedPromotion[];
   shipping: number;
   tax: number;
   total: number;
@@ -135,6 +142,23 @@ const PAYMENT_METHODS = [
   },
 ];
 
+// ✅ NEW: Renew the checkout stock hold a minute before it lapses
+const RESERVATION_RENEW_MARGIN_MS = 60 * 1000;
+
+const formatStockIssues = (issues: StockIssue[]): string =>
+  issues
+    .map(issue => {
+      const item = `${issue.productName || 'An item'}${issue.size ? ` (size ${issue.size})` : ''}`;
+      return issue.availableStock
+        ? `• ${item}: only ${issue.availableStock} left`
+        : `• ${item}: ${issue.issue.toLowerCase()}`;
+    })
+    .join('\n');
+
+// ✅ NEW: Bag items moved off an ended flash sale price
+const formatRepricedItems = (items: RepricedBagItem[]): string =>
+  items.map(item => `• ${item.productName}: ₹${item.previousPrice} → ₹${item.currentPrice}`).join('\n');
+
 export default function Checkout() {
   const router = useRouter();
   const { user } = useAuth();
@@ -143,6 +167,14 @@ export default function Checkout() {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
 
+  // ✅ NEW: Checkout stock reservation
+  const [reservationExpiresAt, setReservationExpiresAt] = useState<Date | null>(null);
+  const reservationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const orderPlacedRef = useRef(false);
+
+  // ✅ NEW: Online payment still owed for an order that was already placed
+  const [pendingPaymentOrder, setPendingPaymentOrder] = useState<PendingPaymentOrder | null>(null);
+
   // State
   const [state, setState] = useState<CheckoutState>({
     shippingAddress: {
@@ -176,6 +208,7 @@ export default function Checkout() {
       itemCount: 0,
       subtotal: 0,
       discount: 0,
+      promotions: [],
       shipping: 0,
       tax: 0,
       total: 0,
@@ -200,6 +233,46 @@ export default function Checkout() {
     initializeAnimations();
   }, [user]);
 
+  // ✅ NEW: Hold stock while the user is on this screen, release it when they leave
+  useEffect(() => {
+    if (!user?._id) return;
+    const userId = user._id;
+    reserveStock(userId);
+
+    return () => {
+      if (reservationTimerRef.current) clearTimeout(reservationTimerRef.current);
+      if (!orderPlacedRef.current) {
+        releaseCheckoutStock(userId);
+      }
+    };
+  }, [user?._id]);
+
+  const reserveStock = async (userId: string) => {
+    const response = await reserveCheckoutStock(userId);
+
+    if (response.success && response.data) {
+      const expiresAt = new Date(response.data.expiresAt);
+      setReservationExpiresAt(expiresAt);
+
+      if (reservationTimerRef.current) clearTimeout(reservationTimerRef.current);
+      reservationTimerRef.current = setTimeout(
+        () => reserveStock(userId),
+        Math.max(5000, expiresAt.getTime() - Date.now() - RESERVATION_RENEW_MARGIN_MS)
+      );
+    } else if (response.stockIssues?.length) {
+      setReservationExpiresAt(null);
+      Alert.alert(
+        "Some Items Are Unavailable",
+        `${formatStockIssues(response.stockIssues)}\n\nPlease update your bag to continue.`,
+        [{ text: "Go to Bag", onPress: () => router.push("/(tabs)/bag") }]
+      );
+    } else {
+      // Not fatal - the order is still stock-checked when it is placed
+      console.warn("⚠️ Could not reserve checkout stock:", response.error?.message);
+      setReservationExpiresAt(null);
+    }
+  };
+
   // Animations
   const initializeAnimations = () => {
     Animated.parallel([
@@ -235,6 +308,7 @@ const fetchBagSummary = async () => {
             itemCount: summary.itemCount || 0,
             subtotal: summary.subtotal || 0,
             discount: summary.discount || 0,
+            promotions: summary.promotions ?? [],
             shipping: summary.shipping || 0,
             tax: summary.tax || 0,
             total: summary.total || 0,
@@ -320,44 +394,6 @@ const fetchBagSummary = async () => {
     return errors;
   };
 
-  const validatePayment = (payment: PaymentMethod): { [key: string]: string } => {
-    const errors: { [key: string]: string } = {};
-
-    if (payment.method === 'Credit Card' || payment.method === 'Debit Card') {
-      if (!payment.cardNumber?.trim()) {
-        errors.cardNumber = 'Card number is required';
-      } else if (!/^\d{16}$/.test(payment.cardNumber.replace(/\s/g, ''))) {
-        errors.cardNumber = 'Please enter a valid 16-digit card number';
-      }
-
-      if (!payment.expiryDate?.trim()) {
-        errors.expiryDate = 'Expiry date is required';
-      } else if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test(payment.expiryDate)) {
-        errors.expiryDate = 'Please enter a valid expiry date (MM/YY)';
-      }
-
-      if (!payment.cvv?.trim()) {
-        errors.cvv = 'CVV is required';
-      } else if (!/^\d{3,4}$/.test(payment.cvv)) {
-        errors.cvv = 'Please enter a valid CVV';
-      }
-
-      if (!payment.cardHolderName?.trim()) {
-        errors.cardHolderName = 'Cardholder name is required';
-      }
-    }
-
-    if (payment.method === 'UPI') {
-      if (!payment.upiId?.trim()) {
-        errors.upiId = 'UPI ID is required';
-      } else if (!/^[\w.-]+@[\w.-]+$/.test(payment.upiId)) {
-        errors.upiId = 'Please enter a valid UPI ID';
-      }
-    }
-
-    return errors;
-  };
-
   // Handlers (keeping existing handlers unchanged)
   const handleAddressChange = (field: keyof Address, value: string, isShipping = true) => {
     setState(prev => ({
@@ -375,11 +411,10 @@ const fetchBagSummary = async () => {
     }));
   };
 
-  const handlePaymentChange = (field: keyof PaymentMethod, value: string) => {
+  const handlePaymentChange = (method: PaymentMethod['method']) => {
     setState(prev => ({
       ...prev,
-      paymentMethod: { ...prev.paymentMethod, [field]: value },
-      errors: { ...prev.errors, [`payment_${field}`]: '' },
+      paymentMethod: { method },
     }));
   };
 
@@ -391,27 +426,74 @@ const fetchBagSummary = async () => {
     }));
   };
 
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = matches && matches[0] || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return v;
+  const showOrderPlaced = (reference: string, paid: boolean) => {
+    Alert.alert(
+      "Order Placed Successfully! 🎉",
+      `${paid ? 'Payment received and your order is confirmed.' : 'Your order has been confirmed.'} Track it using: ${reference}`,
+      [
+        {
+          text: "View Orders",
+          onPress: () => router.push("/orders")
+        },
+        {
+          text: "Continue Shopping",
+          onPress: () => router.push("/(tabs)/categories")
+        }
+      ]
+    );
+  };
+
+  // ✅ NEW: Collect the online payment through the provider. Card/UPI details are entered in the
+  // provider's checkout (opened with intent.clientSecret) - the mock provider needs no UI.
+  const payForOrder = async (order: PendingPaymentOrder) => {
+    setState(prev => ({ ...prev, isPlacingOrder: true }));
+
+    try {
+      const intentResponse = await createPaymentIntent(order.orderId);
+      if (!intentResponse.success || !intentResponse.data) {
+        throw new Error(handleApiError(intentResponse.error));
+      }
+
+      const confirmResponse = await confirmPaymentIntent(intentResponse.data.intentId);
+      if (!confirmResponse.success) {
+        throw new Error(handleApiError(confirmResponse.error));
+      }
+
+      setPendingPaymentOrder(null);
+      showOrderPlaced(order.trackingNumber || 'Order ID: ' + order.orderId, true);
+    } catch (error: any) {
+      console.error("Error paying for order:", error);
+      setPendingPaymentOrder(order);
+      Alert.alert(
+        "Payment Failed",
+        `${error.message || 'We could not complete your payment.'} Your order is saved - retry now or pay from My Orders before it expires.`,
+        [
+          {
+            text: "Pay Later",
+            onPress: () => router.push("/orders")
+          },
+          {
+            text: "Retry Payment",
+            onPress: () => payForOrder(order)
+          }
+        ]
+      );
+    } finally {
+      setState(prev => ({ ...prev, isPlacingOrder: false }));
     }
   };
 
   // ✅ UPDATED: Place order using centralized API
   const handlePlaceOrder = async () => {
+    // Order already exists - only its payment is outstanding
+    if (pendingPaymentOrder) {
+      await payForOrder(pendingPaymentOrder);
+      return;
+    }
+
     // Validate all fields
     const shippingErrors = validateAddress(state.shippingAddress);
     const billingErrors = state.useBillingAsShipping ? {} : validateAddress(state.billingAddress);
-    const paymentErrors = validatePayment(state.paymentMethod);
 
     const allErrors = {
       ...Object.keys(shippingErrors).reduce((acc, key) => ({
@@ -422,10 +504,6 @@ const fetchBagSummary = async () => {
         ...acc,
         [`billing_${key}`]: billingErrors[key]
       }), {}),
-      ...Object.keys(paymentErrors).reduce((acc, key) => ({
-        ...acc,
-        [`payment_${key}`]: paymentErrors[key]
-      }), {}),
     };
 
     if (Object.keys(allErrors).length > 0) {
@@ -441,7 +519,6 @@ const fetchBagSummary = async () => {
         shippingAddress: state.shippingAddress,
         billingAddress: state.useBillingAsShipping ? state.shippingAddress : state.billingAddress,
         paymentMethod: state.paymentMethod.method,
-        paymentGateway: state.paymentMethod.method !== 'COD' ? 'Razorpay' : null,
         customerNotes: state.specialInstructions,
         deliveryPreferences: {
           timeSlot: state.selectedDeliveryTime,
@@ -461,22 +538,35 @@ const fetchBagSummary = async () => {
       const response = await createOrder(user!._id, orderData);
 
       if (response.success) {
-        // Order placed successfully
+        orderPlacedRef.current = true;
+        if (reservationTimerRef.current) clearTimeout(reservationTimerRef.current);
+        setReservationExpiresAt(null);
+
+        if (response.data?.paymentRequired) {
+          await payForOrder({
+            orderId: response.data.order._id,
+            trackingNumber: response.data.trackingNumber,
+          });
+        } else {
+          // Order placed successfully
+          showOrderPlaced(
+            response.data?.trackingNumber || (response.data ? 'Order ID: ' + response.data._id : ''),
+            false
+          );
+        }
+      } else if (response.stockIssues?.length) {
         Alert.alert(
-          "Order Placed Successfully! 🎉",
-          `Your order has been confirmed. Track it using: ${
-            response.data?.trackingNumber || (response.data ? 'Order ID: ' + response.data._id : '')
-          }`,
-          [
-            {
-              text: "View Orders",
-              onPress: () => router.push("/orders")
-            },
-            {
-              text: "Continue Shopping",
-              onPress: () => router.push("/(tabs)/categories")
-            }
-          ]
+          "Some Items Sold Out",
+          formatStockIssues(response.stockIssues),
+          [{ text: "Update Bag", onPress: () => router.push("/(tabs)/bag") }]
+        );
+      } else if (response.saleEnded) {
+        // The bag has already been repriced - the user reviews the new total before ordering again
+        const repriced = response.repricedItems?.length ? `\n\n${formatRepricedItems(response.repricedItems)}` : '';
+        Alert.alert(
+          "Sale Ended",
+          `${handleApiError(response.error)}${repriced}`,
+          [{ text: "Review Bag", onPress: () => router.push("/(tabs)/bag") }]
         );
       } else {
         throw new Error(handleApiError(response.error));
@@ -801,7 +891,8 @@ const fetchBagSummary = async () => {
                     styles.paymentMethod,
                     state.paymentMethod.method === method.value && styles.activePaymentMethod
                   ]}
-                  onPress={() => handlePaymentChange('method', method.value)}
+                  onPress={() => handlePaymentChange(method.value as PaymentMethod['method'])}
+                  disabled={!!pendingPaymentOrder}
                   activeOpacity={0.7}
                 >
                   <View style={styles.paymentMethodLeft}>
@@ -824,76 +915,15 @@ const fetchBagSummary = async () => {
                 </TouchableOpacity>
               ))}
 
-              {/* Card Details (if card payment selected) */}
-              {(state.paymentMethod.method === 'Credit Card' || state.paymentMethod.method === 'Debit Card') && (
-                <View style={styles.cardDetails}>
-                  <InputField
-                    label="Cardholder Name"
-                    value={state.paymentMethod.cardHolderName || ''}
-                    onChangeText={(text) => handlePaymentChange('cardHolderName', text)}
-                    placeholder="Name on card"
-                    error={state.errors.payment_cardHolderName}
-                    required
-                  />
-                  
-                  <InputField
-                    label="Card Number"
-                    value={state.paymentMethod.cardNumber || ''}
-                    onChangeText={(text) => handlePaymentChange('cardNumber', formatCardNumber(text))}
-                    placeholder="1234 5678 9012 3456"
-                    keyboardType="number-pad"
-                    maxLength={19}
-                    error={state.errors.payment_cardNumber}
-                    required
-                  />
-                  
-                  <View style={styles.inputRow}>
-                    <View style={[styles.inputContainer, { flex: 1, marginRight: 8 }]}>
-                      <InputField
-                        label="Expiry Date"
-                        value={state.paymentMethod.expiryDate || ''}
-                        onChangeText={(text) => {
-                          let formatted = text.replace(/\D/g, '');
-                          if (formatted.length >= 2) {
-                            formatted = formatted.substring(0, 2) + '/' + formatted.substring(2, 4);
-                          }
-                          handlePaymentChange('expiryDate', formatted);
-                        }}
-                        placeholder="MM/YY"
-                        keyboardType="number-pad"
-                        maxLength={5}
-                        error={state.errors.payment_expiryDate}
-                        required
-                      />
-                    </View>
-                    <View style={[styles.inputContainer, { flex: 1, marginLeft: 8 }]}>
-                      <InputField
-                        label="CVV"
-                        value={state.paymentMethod.cvv || ''}
-                        onChangeText={(text) => handlePaymentChange('cvv', text)}
-                        placeholder="123"
-                        keyboardType="number-pad"
-                        maxLength={4}
-                        error={state.errors.payment_cvv}
-                        required
-                      />
-                    </View>
-                  </View>
-                </View>
-              )}
-
-              {/* UPI Details (if UPI selected) */}
-              {state.paymentMethod.method === 'UPI' && (
-                <View style={styles.upiDetails}>
-                  <InputField
-                    label="UPI ID"
-                    value={state.paymentMethod.upiId || ''}
-                    onChangeText={(text) => handlePaymentChange('upiId', text)}
-                    placeholder="yourname@paytm"
-                    keyboardType="email-address"
-                    error={state.errors.payment_upiId}
-                    required
-                  />
+              {/* ✅ NEW: Online payments are completed with the payment partner */}
+              {state.paymentMethod.method !== 'COD' && (
+                <View style={styles.providerNote}>
+                  <Shield size={16} color="#ff3f6c" />
+                  <Text style={styles.providerNoteText}>
+                    {pendingPaymentOrder
+                      ? 'Your order is placed. Complete the payment to confirm it.'
+                      : "You'll enter your card or UPI details with our payment partner after placing the order. They are never sent to our servers."}
+                  </Text>
                 </View>
               )}
             </View>
@@ -915,6 +945,17 @@ const fetchBagSummary = async () => {
                 <Text style={styles.summaryValue}>₹{state.orderSummary.subtotal}</Text>
               </View>
 
+              {state.orderSummary.promotions.map(promotion => (
+                <View key={promotion.promotionId} style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: '#4caf50' }]} numberOfLines={1}>
+                    {promotion.label}
+                  </Text>
+                  <Text style={[styles.summaryValue, { color: '#4caf50' }]}>
+                    -₹{Math.round(promotion.discount)}
+                  </Text>
+                </View>
+              ))}
+
               {state.orderSummary.discount > 0 && (
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: '#4caf50' }]}>Discount</Text>
@@ -996,10 +1037,21 @@ const fetchBagSummary = async () => {
             <Truck size={20} color="#fff" />
           )}
           <Text style={styles.placeOrderButtonText}>
-            {state.isPlacingOrder ? 'PLACING ORDER...' : `PLACE ORDER • ₹${state.orderSummary.total}`}
+            {state.isPlacingOrder
+              ? (pendingPaymentOrder ? 'PROCESSING PAYMENT...' : 'PLACING ORDER...')
+              : `${pendingPaymentOrder ? 'RETRY PAYMENT' : 'PLACE ORDER'} • ₹${state.orderSummary.total}`}
           </Text>
         </TouchableOpacity>
         
+        {reservationExpiresAt && (
+          <View style={[styles.securityNote, styles.reservationNote]}>
+            <Clock size={16} color="#ff9800" />
+            <Text style={styles.securityText}>
+              Items reserved for you until {reservationExpiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          </View>
+        )}
+        
         <View style={styles.securityNote}>
           <Shield size={16} color="#4caf50" />
           <Text style={styles.securityText}>
@@ -1252,7 +1304,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
-  cardDetails: {
+  providerNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginTop: 16,
     padding: 16,
     backgroundColor: '#fff5f7',
@@ -1260,13 +1314,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#ff3f6c',
   },
-  upiDetails: {
-    marginTop: 16,
-    padding: 16,
-    backgroundColor: '#fff5f7',
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#ff3f6c',
+  providerNoteText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#333',
   },
   orderSummary: {
     backgroundColor: '#f8f9fa',
@@ -1388,6 +1440,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  reservationNote: {
+    marginBottom: 8,
+  },
   securityText: {
     fontSize: 12,
     color: '#666',
@@ -35,16 +35,21 @@ import {
   Phone,
   MessageCircle,
   Navigation,
+  RotateCcw,
+  Tag,
 } from "lucide-react-native";
 import { useAuth } from "@/context/AuthContext";
-import { Product } from "@/types/product";
+import { OrderEvent, OrderPromotion, Product, ReturnRequest } from "@/types/product";
+import ReturnRequestModal, { isItemReturnable } from "@/components/ReturnRequestModal";
+import { useOrderEvents } from "@/hooks/useOrderEvents";
 
 // ✅ UPDATED: Import centralized API functions
 import {
   getUserOrders,
   cancelOrder,
   getOrderById,
-  trackOrder,
+  createPaymentIntent,
+  confirmPaymentIntent,
   handleApiError
 } from "@/utils/api";
 
@@ -75,6 +80,8 @@ interface OrderItem {
     code: string;
   };
   status: 'Processing' | 'Shipped' | 'Delivered' | 'Cancelled' | 'Returned';
+  returnStatus?: 'Not Requested' | 'Requested' | 'Approved' | 'Rejected' | 'Picked Up' | 'Completed';
+  exchangedSize?: string;
 }
 
 interface TrackingTimeline {
@@ -111,6 +118,7 @@ interface Order {
   pricing: {
     subtotal: number;
     discount: number;
+    promotionDiscount?: number;
     shipping: number;
     tax: number;
     total: number;
@@ -120,6 +128,7 @@ interface Order {
     discount: number;
     type: string;
   }>;
+  promotions?: OrderPromotion[];
   shippingAddress: {
     fullName: string;
     phone: string;
@@ -138,6 +147,7 @@ interface Order {
     paidAmount: number;
   };
   tracking?: TrackingInfo;
+  returns?: ReturnRequest[];
   customerNotes: string;
   // Enhanced computed fields
   canBeCancelled?: boolean;
@@ -146,6 +156,7 @@ interface Order {
   itemCount?: number;
   daysSinceOrder?: number;
   estimatedDaysRemaining?: number;
+  paymentDueAt?: string | null; // ✅ Set while an online payment is outstanding
 }
 
 interface OrdersState {
@@ -173,6 +184,18 @@ const ORDER_STATUS_OPTIONS = [
   { label: 'Cancelled', value: 'Cancelled' as OrderStatus, color: '#ff6b6b' },
 ];
 
+const RETURN_WINDOW_DAYS = 30;
+
+const RETURN_STATUS_COLORS: { [key: string]: string } = {
+  'Requested': '#ffa500',
+  'Approved': '#2196f3',
+  'Picked Up': '#2196f3',
+  'Refunded': '#4caf50',
+  'Exchanged': '#4caf50',
+  'Rejected': '#ff6b6b',
+  'Cancelled': '#999',
+};
+
 const SORT_OPTIONS = [
   { label: 'Newest First', value: 'newest' as SortOption },
   { label: 'Oldest First', value: 'oldest' as SortOption },
@@ -180,6 +203,52 @@ const SORT_OPTIONS = [
   { label: 'Amount: Low to High', value: 'amount_low' as SortOption },
 ];
 
+// Computed fields used by the cards - re-derived whenever a live update changes an order
+const enhanceOrder = (order: any): Order => ({
+  ...order,
+  canBeCancelled: ['Pending', 'Confirmed', 'Processing'].includes(order.status),
+  canBeReturned: order.status === 'Delivered' &&
+    (!order.actualDeliveryDate ||
+      Date.now() - new Date(order.actualDeliveryDate).getTime() <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) &&
+    (order.items || []).some(isItemReturnable),
+  isDelivered: order.status === 'Delivered',
+  itemCount: order.items?.length || 0,
+  daysSinceOrder: Math.floor(
+    (Date.now() - new Date(order.orderDate).getTime()) / (1000 * 60 * 60 * 24)
+  ),
+  estimatedDaysRemaining: order.expectedDeliveryDate 
+    ? Math.max(0, Math.floor(
+        (new Date(order.expectedDeliveryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+      ))
+    : null,
+});
+
+const computeOrderStats = (orders: Order[]): NonNullable<OrdersState['stats']> => {
+  const totalSpent = orders.reduce((sum, order) => sum + (order.pricing?.total || 0), 0);
+  return {
+    totalOrders: orders.length,
+    totalSpent,
+    averageOrderValue: orders.length > 0 ? totalSpent / orders.length : 0,
+    statusBreakdown: orders.reduce((acc: { [key: string]: number }, order) => {
+      acc[order.status] = (acc[order.status] || 0) + 1;
+      return acc;
+    }, {}),
+  };
+};
+
+// ✅ NEW: Merge a pushed order update into the loaded order
+const applyOrderEvent = (order: Order, event: OrderEvent): Order => enhanceOrder({
+  ...order,
+  status: event.status,
+  payment: { ...order.payment, ...event.payment },
+  tracking: order.tracking && event.tracking ? { ...order.tracking, ...event.tracking } : order.tracking,
+  items: order.items.map(item => {
+    const update = event.items.find(eventItem => eventItem._id === item._id);
+    return update ? { ...item, status: update.status, returnStatus: update.returnStatus } : item;
+  }),
+  actualDeliveryDate: event.actualDeliveryDate || order.actualDeliveryDate,
+});
+
 export default function Orders() {
   const router = useRouter();
   const { user } = useAuth();
@@ -197,6 +266,8 @@ export default function Orders() {
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
   const [selectedStatus, setSelectedStatus] = useState<OrderStatus>('all');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -249,44 +320,14 @@ export default function Orders() {
       });
 
       if (response.success) {
-        const orders = response.data || [];
-        
-        // Calculate stats from orders data
-        const stats = {
-          totalOrders: orders.length,
-          totalSpent: orders.reduce((sum: number, order: any) => 
-            sum + (order.pricing?.total || 0), 0),
-          averageOrderValue: orders.length > 0 
-            ? orders.reduce((sum: number, order: any) => sum + (order.pricing?.total || 0), 0) / orders.length 
-            : 0,
-          statusBreakdown: orders.reduce((acc: any, order: any) => {
-            acc[order.status] = (acc[order.status] || 0) + 1;
-            return acc;
-          }, {}),
-        };
-
         // Enhance orders with computed fields
-        const enhancedOrders = orders.map((order: any) => ({
-          ...order,
-          canBeCancelled: ['Pending', 'Confirmed', 'Processing'].includes(order.status),
-          canBeReturned: order.status === 'Delivered',
-          isDelivered: order.status === 'Delivered',
-          itemCount: order.items?.length || 0,
-          daysSinceOrder: Math.floor(
-            (Date.now() - new Date(order.orderDate).getTime()) / (1000 * 60 * 60 * 24)
-          ),
-          estimatedDaysRemaining: order.expectedDeliveryDate 
-            ? Math.max(0, Math.floor(
-                (new Date(order.expectedDeliveryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-              ))
-            : null,
-        }));
+        const enhancedOrders: Order[] = (response.data || []).map(enhanceOrder);
 
         setState(prev => ({
           ...prev,
           orders: enhancedOrders,
           filteredOrders: enhancedOrders,
-          stats,
+          stats: computeOrderStats(enhancedOrders),
           isLoading: false,
           error: null,
         }));
@@ -307,6 +348,25 @@ export default function Orders() {
     }
   };
 
+  // ✅ NEW: Live updates - patch the order in place; new orders and return changes need a reload
+  const handleOrderEvent = (event: OrderEvent) => {
+    const isKnownOrder = state.orders.some(order => order._id === event._id);
+    if (!isKnownOrder || event.type === 'return') {
+      fetchOrders(false);
+      return;
+    }
+
+    setState(prev => {
+      const orders = prev.orders.map(order => (order._id === event._id ? applyOrderEvent(order, event) : order));
+      return { ...prev, orders, stats: computeOrderStats(orders) };
+    });
+  };
+
+  const connectionState = useOrderEvents(handleOrderEvent, {
+    enabled: !!user,
+    onPoll: () => fetchOrders(false),
+  });
+
   const filterAndSortOrders = () => {
     let filtered = [...state.orders];
 
@@ -352,57 +412,9 @@ export default function Orders() {
     });
   };
 
-  // ✅ UPDATED: Track order using centralized API
-  const handleTrackOrder = async (trackingNumber: string) => {
-    try {
-      // ✅ UPDATED: Use centralized trackOrder function
-      const response = await trackOrder(trackingNumber);
-      
-      if (response.success) {
-        const trackingData = response.data;
-        
-        if (trackingData) {
-          Alert.alert(
-            "Tracking Information",
-            `Status: ${trackingData.status}\nLocation: ${trackingData.currentLocation}\nEstimated Delivery: ${new Date(trackingData.estimatedDelivery).toLocaleDateString()}`,
-            [
-              { text: "Close", style: "cancel" },
-              { text: "View Details", onPress: () => {
-                // Could navigate to a detailed tracking page
-                // router.push(`/tracking/${trackingNumber}`);
-              }}
-            ]
-          );
-        } else {
-          Alert.alert(
-            "Tracking Information",
-            "Tracking details are currently unavailable.",
-            [
-              { text: "Close", style: "cancel" }
-            ]
-          );
-        }
-      } else {
-        Alert.alert(
-          "Track Order",
-          `Tracking Number: ${trackingNumber}\n\nTrack your order online or contact customer support for updates.`,
-          [
-            { text: "Copy", onPress: () => {/* Copy to clipboard */} },
-            { text: "Contact Support", onPress: () => {/* Contact support */} },
-            { text: "Close", style: "cancel" }
-          ]
-        );
-      }
-    } catch (error) {
-      Alert.alert(
-        "Track Order",
-        `Tracking Number: ${trackingNumber}\n\nUnable to fetch live tracking. Please check the tracking number on the carrier's website.`,
-        [
-          { text: "Copy", onPress: () => {/* Copy to clipboard */} },
-          { text: "Close", style: "cancel" }
-        ]
-      );
-    }
+  // ✅ UPDATED: Live tracking has its own screen
+  const handleTrackOrder = (trackingNumber: string) => {
+    router.push(`/tracking/${encodeURIComponent(trackingNumber)}`);
   };
 
   // ✅ UPDATED: Cancel order using centralized API
@@ -442,6 +454,55 @@ export default function Orders() {
     );
   };
 
+  // ✅ NEW: Finish the online payment of an order placed at checkout but never paid
+  const handlePayNow = async (order: Order) => {
+    setPayingOrderId(order._id);
+
+    try {
+      const intentResponse = await createPaymentIntent(order._id);
+      if (!intentResponse.success || !intentResponse.data) {
+        throw new Error(handleApiError(intentResponse.error));
+      }
+
+      const confirmResponse = await confirmPaymentIntent(intentResponse.data.intentId);
+      if (!confirmResponse.success) {
+        throw new Error(handleApiError(confirmResponse.error));
+      }
+
+      fetchOrders(false);
+      Alert.alert("Payment Received", `Order ${order.orderId} is confirmed.`);
+    } catch (error: any) {
+      console.error("Error paying for order:", error);
+      fetchOrders(false);
+      Alert.alert("Payment Failed", error.message || "We could not complete your payment. Please try again.");
+    } finally {
+      setPayingOrderId(null);
+    }
+  };
+
+  // ✅ NEW: Returns & exchanges
+  const handleReturnOrder = (order: Order) => {
+    if (!order.canBeReturned) {
+      Alert.alert("Cannot Return", `Items can be returned within ${RETURN_WINDOW_DAYS} days of delivery.`);
+      return;
+    }
+    setReturnOrder(order);
+  };
+
+  const handleReturnRequested = (returns: ReturnRequest[]) => {
+    // Show the new requests right away, then sync item return statuses from the server
+    setState(prev => {
+      const attach = (order: Order) =>
+        order._id === returnOrder?._id ? { ...order, returns: [...(order.returns || []), ...returns] } : order;
+      return {
+        ...prev,
+        orders: prev.orders.map(attach),
+        filteredOrders: prev.filteredOrders.map(attach),
+      };
+    });
+    fetchOrders(false);
+  };
+
   const handleContactSupport = (order: Order) => {
     Alert.alert(
       "Contact Support",
@@ -581,6 +642,28 @@ export default function Orders() {
               </Text>
             </View>
           )}
+
+          {/* ✅ NEW: Outstanding online payment - the order is cancelled if it isn't paid in time */}
+          {order.paymentDueAt && (
+            <View style={styles.paymentDueBanner}>
+              <Text style={styles.paymentDueText}>
+                Payment pending · pay by{' '}
+                {new Date(order.paymentDueAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+              <TouchableOpacity
+                style={[styles.payNowButton, payingOrderId === order._id && styles.payNowButtonDisabled]}
+                onPress={() => handlePayNow(order)}
+                disabled={payingOrderId === order._id}
+                activeOpacity={0.8}
+              >
+                {payingOrderId === order._id ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.payNowText}>Pay ₹{order.pricing.total}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         {/* Expanded Details */}
@@ -621,11 +704,36 @@ export default function Orders() {
                       <Text style={styles.itemPrice}>₹{item.price}</Text>
                       <Text style={styles.itemQuantity}>Qty: {item.quantity}</Text>
                     </View>
+                    {item.discount?.amount > 0 && (
+                      <Text style={styles.itemOfferText}>Offer: - ₹{item.discount.amount}</Text>
+                    )}
+                    {item.returnStatus && item.returnStatus !== 'Not Requested' && (
+                      <Text style={styles.itemReturnStatus}>
+                        Return: {item.returnStatus}
+                        {item.exchangedSize ? ` · Exchanged for size ${item.exchangedSize}` : ''}
+                      </Text>
+                    )}
                   </View>
                 </View>
               ))}
             </View>
 
+            {/* ✅ NEW: Automatic promotions applied when the order was placed */}
+            {order.promotions && order.promotions.length > 0 && (
+              <View style={styles.offersSection}>
+                <View style={styles.sectionHeader}>
+                  <Tag size={18} color="#666" />
+                  <Text style={styles.sectionTitle}>Offers Applied</Text>
+                </View>
+                {order.promotions.map(promotion => (
+                  <View key={promotion.promotionId} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{promotion.label || promotion.name}</Text>
+                    <Text style={styles.offerValue}>- ₹{promotion.discount}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Shipping Address */}
             <View style={styles.addressSection}>
               <View style={styles.sectionHeader}>
@@ -742,6 +850,47 @@ export default function Orders() {
               </View>
             )}
 
+            {/* Returns & Exchanges */}
+            {order.returns && order.returns.length > 0 && (
+              <View style={styles.returnsSection}>
+                <View style={styles.sectionHeader}>
+                  <RotateCcw size={18} color="#666" />
+                  <Text style={styles.sectionTitle}>Returns & Exchanges</Text>
+                </View>
+                {order.returns.map((request) => {
+                  const latest = request.history[request.history.length - 1];
+                  const statusColor = RETURN_STATUS_COLORS[request.status] || '#666';
+                  return (
+                    <View key={request.returnId} style={styles.returnCard}>
+                      <View style={styles.returnHeader}>
+                        <Text style={styles.returnId}>
+                          {request.type === 'exchange' ? 'Exchange' : 'Return'} #{request.returnId}
+                        </Text>
+                        <View style={[styles.returnStatusBadge, { backgroundColor: `${statusColor}20` }]}>
+                          <Text style={[styles.returnStatusText, { color: statusColor }]}>
+                            {request.status}
+                          </Text>
+                        </View>
+                      </View>
+                      <Text style={styles.returnDetail}>
+                        {request.items.length} item{request.items.length !== 1 ? 's' : ''} · Pickup{' '}
+                        {new Date(request.pickup.scheduledDate).toLocaleDateString('en-IN', {
+                          day: 'numeric',
+                          month: 'short'
+                        })}, {request.pickup.timeSlot}
+                      </Text>
+                      {request.type === 'return' && request.refundAmount > 0 && (
+                        <Text style={styles.returnDetail}>Refund: ₹{request.refundAmount}</Text>
+                      )}
+                      {latest?.note ? (
+                        <Text style={styles.returnNote}>{latest.note}</Text>
+                      ) : null}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
             {/* Order Actions */}
             <View style={styles.orderActions}>
               {order.canBeCancelled && (
@@ -757,6 +906,17 @@ export default function Orders() {
                 </TouchableOpacity>
               )}
               
+              {order.canBeReturned && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleReturnOrder(order)}
+                  activeOpacity={0.7}
+                >
+                  <RotateCcw size={16} color="#666" />
+                  <Text style={styles.actionButtonText}>Return / Exchange</Text>
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity
                 style={styles.actionButton}
                 onPress={() => handleContactSupport(order)}
@@ -938,7 +1098,17 @@ export default function Orders() {
           }
         ]}
       >
-        <Text style={styles.headerTitle}>My Orders</Text>
+        <View>
+          <Text style={styles.headerTitle}>My Orders</Text>
+          {connectionState === 'live' || connectionState === 'polling' ? (
+            <View style={styles.liveIndicator}>
+              <View style={[styles.liveDot, connectionState === 'polling' && styles.liveDotPolling]} />
+              <Text style={styles.liveText}>
+                {connectionState === 'live' ? 'Live updates' : 'Refreshing periodically'}
+              </Text>
+            </View>
+          ) : null}
+        </View>
         <TouchableOpacity
           style={styles.refreshButton}
           onPress={() => fetchOrders()}
@@ -1001,6 +1171,13 @@ export default function Orders() {
           />
         </>
       )}
+
+      <ReturnRequestModal
+        visible={!!returnOrder}
+        order={returnOrder}
+        onClose={() => setReturnOrder(null)}
+        onSuccess={handleReturnRequested}
+      />
     </View>
   );
 }
@@ -1082,6 +1259,25 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     backgroundColor: '#f8f9fa',
   },
+  liveIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#4caf50',
+    marginRight: 6,
+  },
+  liveDotPolling: {
+    backgroundColor: '#ffa500',
+  },
+  liveText: {
+    fontSize: 12,
+    color: '#666',
+  },
   statsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -1286,6 +1482,39 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#333',
   },
+  paymentDueBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff3e0',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  paymentDueText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#e65100',
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  payNowButton: {
+    backgroundColor: '#ff3f6c',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    minWidth: 90,
+    alignItems: 'center',
+  },
+  payNowButtonDisabled: {
+    opacity: 0.6,
+  },
+  payNowText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
   trackingPreview: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1370,6 +1599,22 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  itemOfferText: {
+    fontSize: 12,
+    color: '#4caf50',
+    marginTop: 4,
+    fontWeight: '500',
+  },
+  offersSection: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  offerValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4caf50',
+  },
   addressSection: {
     padding: 16,
     borderTopWidth: 1,
@@ -1510,6 +1755,54 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontWeight: '500',
   },
+  itemReturnStatus: {
+    fontSize: 12,
+    color: '#9c27b0',
+    marginTop: 4,
+    fontWeight: '500',
+  },
+  returnsSection: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  returnCard: {
+    backgroundColor: '#fafafa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  returnHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  returnId: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  returnStatusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  returnStatusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  returnDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  returnNote: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   orderActions: {
     flexDirection: 'row',
     justifyContent: 'space-around',
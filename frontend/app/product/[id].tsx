@@ -34,9 +34,21 @@ import {
   X,
   Plus,
   Minus,
+  ThumbsUp,
+  BadgeCheck,
+  Bell,
 } from "lucide-react-native";
 import { useAuth } from "@/context/AuthContext";
-import { Product, Review, RatingBreakdown, BagItem, WishlistItem } from "@/types/product";
+import {
+  Product,
+  Review,
+  RatingBreakdown,
+  BagItem,
+  WishlistItem,
+  SizeAvailability,
+  getProductMrp,
+  getProductDiscountPercent,
+} from "@/types/product";
 
 // ✅ UPDATED: Import the API functions we need
 import {
@@ -49,6 +61,11 @@ import {
   checkWishlistStatus,
   getUserBag,
   updateBagItemQuantity,
+  getProductReviews,
+  markReviewHelpful,
+  getStockAlerts,
+  subscribeToStockAlert,
+  cancelStockAlert,
 } from "@/utils/api";
 
 // ✅ NEW: Recently viewed tracking import
@@ -59,6 +76,9 @@ import AwesomeAlert from 'react-native-awesome-alerts';
 
 // ✅ NEW: Import recommendation components and APIs
 import YouMayAlsoLikeCarousel from "@/components/YouMayAlsoLikeCarousel";
+import PriceHistoryChart from "@/components/PriceHistoryChart";
+import CategoryBreadcrumbs from "@/components/CategoryBreadcrumbs";
+import SaleCountdownBadge from "@/components/SaleCountdownBadge";
 import { recommendationApi, trackProductView } from "@/utils/recommendationApi";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
@@ -92,7 +112,8 @@ const PRODUCT_FEATURES = [
 ];
 
 export default function ProductDetails() {
-  const { id } = useLocalSearchParams();
+  // ✅ size: preselected size (back-in-stock links)
+  const { id, size: sizeParam } = useLocalSearchParams<{ id: string; size?: string }>();
   const router = useRouter();
 
   // ✅ ENHANCED: Use enhanced AuthContext with sync triggers
@@ -129,6 +150,32 @@ export default function ProductDetails() {
   const [addToBagLoading, setAddToBagLoading] = useState(false);
   const [wishlistLoading, setWishlistLoading] = useState(false);
 
+  // ✅ NEW: Per-size stock from the server (absent when the product has no SKU stock)
+  const sizeStock = useMemo(() => {
+    const map = new Map<string, SizeAvailability>();
+    (state.product?.sizeAvailability || []).forEach(entry => map.set(entry.size, entry));
+    return map;
+  }, [state.product?.sizeAvailability]);
+
+  const selectedSizeStock = selectedSize ? sizeStock.get(selectedSize) : undefined;
+  const maxQuantity = Math.min(10, selectedSizeStock ? selectedSizeStock.available : 10);
+
+  // ✅ NEW: Back-in-stock subscriptions - size → subscription id
+  const [notifySize, setNotifySize] = useState<string>("");
+  const [stockAlerts, setStockAlerts] = useState<Map<string, string>>(new Map());
+  const [stockAlertLoading, setStockAlertLoading] = useState(false);
+
+  const handleSelectSize = (size: string) => {
+    const stock = sizeStock.get(size);
+    if (stock?.soldOut) {
+      setNotifySize(prev => (prev === size ? "" : size));
+      return;
+    }
+    setNotifySize("");
+    setSelectedSize(size);
+    if (stock) setQuantity(prev => Math.max(1, Math.min(prev, stock.available)));
+  };
+
   // ✅ NEW: Sweet Alert state
   const [showSizeAlert, setShowSizeAlert] = useState(false);
 
@@ -164,16 +211,9 @@ export default function ProductDetails() {
     return state.ratingBreakdown.total;
   }, [state.ratingBreakdown]);
 
-  const discountPercentage = useMemo(() => {
-    if (!state.product?.discount) return 0;
-    const match = state.product.discount.match(/(\d+)%/);
-    return match ? parseInt(match[1], 10) : 0;
-  }, [state.product?.discount]);
-
-  const originalPrice = useMemo(() => {
-    if (!state.product?.price || !discountPercentage) return null;
-    return Math.round(state.product.price / (1 - discountPercentage / 100));
-  }, [state.product?.price, discountPercentage]);
+  // ✅ UPDATED: Discount and MRP from the server's structured pricing
+  const discountPercentage = state.product ? getProductDiscountPercent(state.product) : 0;
+  const originalPrice = state.product && discountPercentage > 0 ? getProductMrp(state.product) : null;
 
   // Effects
   useEffect(() => {
@@ -199,6 +239,25 @@ export default function ProductDetails() {
     }).start();
   }, []);
 
+  // ✅ NEW: Preselect the size from the link once the product (and its stock) is loaded
+  useEffect(() => {
+    if (!state.product || !sizeParam || !state.product.sizes?.includes(sizeParam)) return;
+
+    if (sizeStock.get(sizeParam)?.soldOut) {
+      setNotifySize(sizeParam);
+    } else {
+      setSelectedSize(sizeParam);
+    }
+  }, [state.product, sizeParam]);
+
+  useEffect(() => {
+    if (state.product && user) {
+      fetchStockAlerts();
+    } else {
+      setStockAlerts(new Map());
+    }
+  }, [state.product?._id, user]);
+
   // ✅ ENHANCED: Check status from global AuthContext state with refresh trigger
   useEffect(() => {
     if (state.product && user) {
@@ -332,9 +391,10 @@ export default function ProductDetails() {
 
       console.log("🔍 Fetching product data for ID:", id);
 
-      const [productResponse, relatedResponse] = await Promise.all([
+      const [productResponse, relatedResponse, reviewsResponse] = await Promise.all([
         getProduct(id as string),
         getProducts({ limit: 6 }),
+        getProductReviews(id as string, { limit: 10, sortBy: 'helpful' }),
       ]);
 
       if (!productResponse.success || !productResponse.data) {
@@ -350,29 +410,15 @@ export default function ProductDetails() {
         _id: product._id,
       };
 
-      // Generate mock rating breakdown and reviews for demonstration
-      const mockRatingBreakdown: RatingBreakdown = {
-        average: enhancedProduct?.rating || 4.2,
-        total: Math.floor(Math.random() * 500) + 50,
-        breakdown: {
-          5: Math.floor(Math.random() * 200) + 50,
-          4: Math.floor(Math.random() * 150) + 30,
-          3: Math.floor(Math.random() * 80) + 20,
-          2: Math.floor(Math.random() * 30) + 10,
-          1: Math.floor(Math.random() * 20) + 5,
-        },
-        percentages: {
-          5: 0, 4: 0, 3: 0, 2: 0, 1: 0,
-        },
+      // ✅ Real rating breakdown and reviews from the review service
+      const reviews = reviewsResponse.success ? reviewsResponse.data || [] : [];
+      const ratingBreakdown: RatingBreakdown = reviewsResponse.ratingBreakdown || {
+        average: 0,
+        total: 0,
+        breakdown: { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 },
+        percentages: { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 },
       };
 
-      // Calculate percentages
-      Object.keys(mockRatingBreakdown.breakdown).forEach(key => {
-        const rating = parseInt(key);
-        mockRatingBreakdown.percentages[rating as keyof typeof mockRatingBreakdown.percentages] =
-          (mockRatingBreakdown.breakdown[rating as keyof typeof mockRatingBreakdown.breakdown] / mockRatingBreakdown.total) * 100;
-      });
-
       const related = allProducts
         .filter((p: Product) => getProductId(p) !== getProductId(enhancedProduct))
         .slice(0, 6);
@@ -381,7 +427,8 @@ export default function ProductDetails() {
         ...prev,
         product: enhancedProduct,
         relatedProducts: related,
-        ratingBreakdown: mockRatingBreakdown,
+        reviews,
+        ratingBreakdown,
         isLoading: false,
       }));
 
@@ -441,6 +488,71 @@ export default function ProductDetails() {
     }, 4000);
   };
 
+  // ✅ NEW: This product's active back-in-stock subscriptions
+  const fetchStockAlerts = async () => {
+    if (!state.product) return;
+
+    try {
+      const response = await getStockAlerts();
+      if (response.success) {
+        const productId = getProductId(state.product);
+        const alerts = new Map<string, string>();
+        (response.data || [])
+          .filter(subscription => subscription.productId._id === productId)
+          .forEach(subscription => alerts.set(subscription.size, subscription._id));
+        setStockAlerts(alerts);
+      }
+    } catch (error) {
+      console.error("Error fetching stock alerts:", error);
+    }
+  };
+
+  const handleToggleStockAlert = async (size: string) => {
+    if (!user) {
+      Alert.alert(
+        "Login Required",
+        "Please login to get notified when this size is back",
+        [
+          { text: "Login", onPress: () => router.push("/login") },
+          { text: "Cancel", style: "cancel" },
+        ]
+      );
+      return;
+    }
+
+    const productId = getProductId(state.product!);
+    const subscriptionId = stockAlerts.get(size);
+    setStockAlertLoading(true);
+
+    try {
+      if (subscriptionId) {
+        const response = await cancelStockAlert(subscriptionId);
+        if (!response.success) {
+          Alert.alert("Error", handleApiError(response.error) || "Failed to cancel the alert");
+          return;
+        }
+        setStockAlerts(prev => {
+          const next = new Map(prev);
+          next.delete(size);
+          return next;
+        });
+      } else {
+        const response = await subscribeToStockAlert(productId, size, selectedColor);
+        if (!response.success || !response.data) {
+          Alert.alert("Error", handleApiError(response.error) || "Failed to set up the alert");
+          return;
+        }
+        const subscription = response.data;
+        setStockAlerts(prev => new Map(prev).set(size, subscription._id));
+      }
+    } catch (error) {
+      console.error("Error updating stock alert:", error);
+      Alert.alert("Error", "Something went wrong. Please try again.");
+    } finally {
+      setStockAlertLoading(false);
+    }
+  };
+
   // ✅ CORRECTED: Wishlist handler now uses the new updateWishlistStatus signature
   const handleAddToWishlist = async () => {
     if (!user) {
@@ -727,6 +839,45 @@ export default function ProductDetails() {
     router.push(`/product/${productId}`);
   };
 
+  // ✅ NEW: Mark a review as helpful (optimistic, then settled from the server or reverted on failure)
+  const handleMarkReviewHelpful = async (review: Review) => {
+    if (!user) {
+      Alert.alert("Login Required", "Please login to rate reviews", [
+        { text: "Cancel", style: "cancel" },
+        { text: "Login", onPress: () => router.push("/login") },
+      ]);
+      return;
+    }
+
+    if (review.userId === user._id) return;
+
+    const wasHelpful = review.isHelpful ?? false;
+    const applyVote = (isHelpful: boolean, helpfulCount?: number) => {
+      setState(prev => ({
+        ...prev,
+        reviews: prev.reviews.map(r =>
+          r._id === review._id
+            ? {
+                ...r,
+                helpfulCount: helpfulCount ?? Math.max(0, r.helpfulCount + (isHelpful ? 1 : -1)),
+                isHelpful,
+              }
+            : r
+        ),
+      }));
+    };
+
+    applyVote(!wasHelpful);
+
+    const response = await markReviewHelpful(review._id);
+    if (response.success && response.data) {
+      applyVote(response.data.isHelpful, response.data.helpfulCount);
+    } else {
+      applyVote(wasHelpful, review.helpfulCount);
+      Alert.alert("Error", handleApiError(response.error));
+    }
+  };
+
   // Rating Stars Component
   const RatingStars: React.FC<{
     rating: number;
@@ -794,6 +945,68 @@ export default function ProductDetails() {
     </View>
   );
 
+  // Review Item Component
+  const ReviewItem: React.FC<{ review: Review }> = ({ review }) => {
+    const isHelpful = !!user && !!review.isHelpful;
+
+    return (
+      <View style={styles.reviewItem}>
+        <View style={styles.reviewItemHeader}>
+          <View style={styles.reviewRatingBadge}>
+            <Text style={styles.reviewRatingBadgeText}>{review.rating}</Text>
+            <Star size={10} color="#fff" fill="#fff" />
+          </View>
+          {!!review.title && (
+            <Text style={styles.reviewTitle} numberOfLines={1}>{review.title}</Text>
+          )}
+        </View>
+
+        {!!review.comment && (
+          <Text style={styles.reviewComment}>{review.comment}</Text>
+        )}
+
+        {review.images && review.images.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.reviewImages}>
+            {review.images.map((uri, index) => (
+              <Image key={`${review._id}-${index}`} source={{ uri }} style={styles.reviewImage} />
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.reviewFooter}>
+          <View style={styles.reviewMeta}>
+            <Text style={styles.reviewAuthor}>{review.userName}</Text>
+            {review.verified && (
+              <View style={styles.verifiedBadge}>
+                <BadgeCheck size={12} color="#14cda8" />
+                <Text style={styles.verifiedText}>Verified Buyer</Text>
+              </View>
+            )}
+            <Text style={styles.reviewDate}>
+              {new Date(review.createdAt).toLocaleDateString()}
+              {review.size ? ` • Size ${review.size}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.helpfulButton}
+            onPress={() => handleMarkReviewHelpful(review)}
+            activeOpacity={0.7}
+            disabled={review.userId === user?._id}
+          >
+            <ThumbsUp
+              size={14}
+              color={isHelpful ? "#ff3f6c" : "#64748b"}
+              fill={isHelpful ? "#ff3f6c" : "transparent"}
+            />
+            <Text style={[styles.helpfulText, isHelpful && styles.helpfulTextActive]}>
+              {review.helpfulCount}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   // Image Gallery Component
   const ImageGallery: React.FC<ImageGalleryProps> = ({ images, onImagePress }) => (
     <View style={styles.imageGalleryContainer}>
@@ -859,14 +1072,25 @@ export default function ProductDetails() {
         {originalPrice && (
           <Text style={styles.originalPrice}>₹{originalPrice}</Text>
         )}
-        {product.discount && (
+        {discountPercentage > 0 && (
           <View style={styles.discountBadge}>
-            <Text style={styles.discountText}>{product.discount}</Text>
+            <Text style={styles.discountText}>{discountPercentage}% OFF</Text>
           </View>
         )}
       </View>
 
       <Text style={styles.taxText}>inclusive of all taxes</Text>
+
+      {/* ✅ NEW: Flash sale countdown - the price above already includes the sale discount */}
+      {product.sale && product.flashSale && (
+        <View style={styles.flashSaleBanner}>
+          <SaleCountdownBadge sale={product.flashSale} variant="full" />
+          <Text style={styles.flashSaleText}>
+            {product.sale.name}: extra {product.sale.discountPercent}% off ₹{product.sale.regularPrice}
+            {product.sale.remainingQuantity !== null && ` · only ${product.sale.remainingQuantity} left at this price`}
+          </Text>
+        </View>
+      )}
     </View>
   );
 
@@ -964,6 +1188,11 @@ export default function ProductDetails() {
             onImagePress={(index) => setCurrentImageIndex(index)}
           />
 
+          {/* ✅ NEW: Category breadcrumbs */}
+          {state.product.breadcrumbs && state.product.breadcrumbs.length > 0 && (
+            <CategoryBreadcrumbs path={state.product.breadcrumbs} linkLast />
+          )}
+
           {/* Product Info */}
           <ProductInfo product={state.product} />
 
@@ -973,28 +1202,73 @@ export default function ProductDetails() {
               <Text style={styles.sectionTitle}>Select Size</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 <View style={styles.sizeGrid}>
-                  {state.product.sizes.map((size) => (
-                    <TouchableOpacity
-                      key={size}
-                      style={[
-                        styles.sizeButton,
-                        selectedSize === size && styles.selectedSizeButton,
-                      ]}
-                      onPress={() => setSelectedSize(size)}
-                      activeOpacity={0.7}
-                    >
-                      <Text
-                        style={[
-                          styles.sizeButtonText,
-                          selectedSize === size && styles.selectedSizeButtonText,
-                        ]}
-                      >
-                        {size}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                  {state.product.sizes.map((size) => {
+                    const stock = sizeStock.get(size);
+                    const soldOut = Boolean(stock?.soldOut);
+                    return (
+                      <View key={size} style={styles.sizeOption}>
+                        <TouchableOpacity
+                          style={[
+                            styles.sizeButton,
+                            selectedSize === size && styles.selectedSizeButton,
+                            soldOut && styles.soldOutSizeButton,
+                          ]}
+                          onPress={() => handleSelectSize(size)}
+                          activeOpacity={0.7}
+                          accessibilityLabel={soldOut ? `Size ${size}, sold out` : `Size ${size}`}
+                        >
+                          <Text
+                            style={[
+                              styles.sizeButtonText,
+                              selectedSize === size && styles.selectedSizeButtonText,
+                              soldOut && styles.soldOutSizeButtonText,
+                            ]}
+                          >
+                            {size}
+                          </Text>
+                        </TouchableOpacity>
+                        {stock?.lowStock && (
+                          <Text style={styles.sizeStockText}>{stock.available} left</Text>
+                        )}
+                        {soldOut && stockAlerts.has(size) && (
+                          <Bell size={12} color="#ff3f6c" fill="#ff3f6c" style={styles.sizeAlertIcon} />
+                        )}
+                      </View>
+                    );
+                  })}
                 </View>
               </ScrollView>
+              {selectedSizeStock?.lowStock && (
+                <Text style={styles.lowStockText}>
+                  Only {selectedSizeStock.available} left in size {selectedSize}!
+                </Text>
+              )}
+              {notifySize !== "" && (
+                <View style={styles.notifyMeBox}>
+                  <Text style={styles.notifyMeText}>
+                    {stockAlerts.has(notifySize)
+                      ? `We'll let you know when size ${notifySize} is back in stock.`
+                      : `Size ${notifySize} is sold out.`}
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.notifyMeButton, stockAlerts.has(notifySize) && styles.notifyMeButtonActive]}
+                    onPress={() => handleToggleStockAlert(notifySize)}
+                    disabled={stockAlertLoading}
+                    activeOpacity={0.7}
+                  >
+                    {stockAlertLoading ? (
+                      <ActivityIndicator size="small" color="#ff3f6c" />
+                    ) : (
+                      <>
+                        <Bell size={14} color="#ff3f6c" fill={stockAlerts.has(notifySize) ? "#ff3f6c" : "none"} />
+                        <Text style={styles.notifyMeButtonText}>
+                          {stockAlerts.has(notifySize) ? "Cancel Alert" : "Notify Me"}
+                        </Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
             </View>
           )}
 
@@ -1018,10 +1292,11 @@ export default function ProductDetails() {
 
               <TouchableOpacity
                 style={styles.quantityButton}
-                onPress={() => setQuantity(quantity + 1)}
+                onPress={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
+                disabled={quantity >= maxQuantity}
                 activeOpacity={0.7}
               >
-                <Plus size={16} color="#333" />
+                <Plus size={16} color={quantity >= maxQuantity ? "#ccc" : "#333"} />
               </TouchableOpacity>
             </View>
           </View>
@@ -1036,6 +1311,9 @@ export default function ProductDetails() {
             ))}
           </View>
 
+          {/* Price History */}
+          <PriceHistoryChart productId={getProductId(state.product)} />
+
           {/* Description */}
           <View style={styles.descriptionSection}>
             <Text style={styles.sectionTitle}>Product Details</Text>
@@ -1095,6 +1373,19 @@ export default function ProductDetails() {
                   <RatingBreakdownComponent breakdown={state.ratingBreakdown} />
                 </View>
               </View>
+
+              {state.reviews.length > 0 ? (
+                <View style={styles.reviewList}>
+                  {(showAllReviews ? state.reviews : state.reviews.slice(0, 3)).map(review => (
+                    <ReviewItem key={review._id} review={review} />
+                  ))}
+                </View>
+              ) : (
+                <View style={styles.noReviewsContainer}>
+                  <MessageCircle size={20} color="#94a3b8" />
+                  <Text style={styles.noReviewsText}>No reviews yet for this product</Text>
+                </View>
+              )}
             </View>
           )}
 
@@ -1465,6 +1756,18 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     marginTop: 4,
   },
+  flashSaleBanner: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fff1f4',
+    gap: 8,
+  },
+  flashSaleText: {
+    fontSize: 13,
+    color: '#be123c',
+    fontWeight: '600',
+  },
   sizeSection: {
     padding: 20,
     backgroundColor: '#fff',
@@ -1513,6 +1816,72 @@ const styles = StyleSheet.create({
     color: '#ff3f6c',
     fontWeight: '700',
   },
+  sizeOption: {
+    alignItems: 'center',
+  },
+  soldOutSizeButton: {
+    borderColor: '#f1f5f9',
+    backgroundColor: '#f8fafc',
+    shadowOpacity: 0,
+  },
+  soldOutSizeButtonText: {
+    color: '#cbd5e1',
+    textDecorationLine: 'line-through',
+  },
+  sizeStockText: {
+    fontSize: 11,
+    color: '#f97316',
+    fontWeight: '600',
+    marginRight: 12,
+    marginTop: -4,
+  },
+  lowStockText: {
+    fontSize: 13,
+    color: '#f97316',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  sizeAlertIcon: {
+    marginTop: -4,
+    marginRight: 12,
+    alignSelf: 'center',
+  },
+  notifyMeBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fff5f7',
+  },
+  notifyMeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#334155',
+    marginRight: 12,
+  },
+  notifyMeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ff3f6c',
+    backgroundColor: '#fff',
+    minWidth: 110,
+    justifyContent: 'center',
+  },
+  notifyMeButtonActive: {
+    backgroundColor: '#ffe4ea',
+  },
+  notifyMeButtonText: {
+    marginLeft: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ff3f6c',
+  },
   quantitySection: {
     padding: 20,
     backgroundColor: '#fff',
@@ -1699,6 +2068,113 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     fontWeight: '500',
   },
+  reviewList: {
+    marginTop: 16,
+  },
+  reviewItem: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  reviewItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  reviewRatingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#14cda8',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 8,
+  },
+  reviewRatingBadgeText: {
+    fontSize: 12,
+    color: '#fff',
+    fontWeight: '700',
+    marginRight: 2,
+  },
+  reviewTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  reviewImages: {
+    marginTop: 10,
+  },
+  reviewImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    marginRight: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  reviewFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginTop: 10,
+  },
+  reviewMeta: {
+    flex: 1,
+  },
+  reviewAuthor: {
+    fontSize: 12,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  verifiedText: {
+    fontSize: 11,
+    color: '#14cda8',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  reviewDate: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  helpfulButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8fafc',
+  },
+  helpfulText: {
+    fontSize: 12,
+    color: '#64748b',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  helpfulTextActive: {
+    color: '#ff3f6c',
+  },
+  noReviewsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+  },
+  noReviewsText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    marginLeft: 8,
+  },
   relatedSection: {
     padding: 20,
     backgroundColor: '#fff',
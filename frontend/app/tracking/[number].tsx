@@ -0,0 +1,608 @@
+import React, { useEffect, useState, useMemo } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  StatusBar,
+  Dimensions,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  Package,
+  Truck,
+  MapPin,
+  Calendar,
+  CheckCircle,
+  AlertCircle,
+  Home,
+  Navigation,
+} from "lucide-react-native";
+import { OrderTrackingData, TrackingTimelineEvent } from "@/types/product";
+import { trackOrder, handleApiError } from "@/utils/api";
+import { useOrderEvents } from "@/hooks/useOrderEvents";
+
+const { height: screenHeight } = Dimensions.get("window");
+const hp = (percentage: number) => (screenHeight * percentage) / 100;
+
+// ✅ Progress stepper: each step lists the order, shipment and timeline statuses that reach it
+const TRACKING_STEPS = [
+  { label: "Ordered", statuses: ["Pending", "Confirmed", "Order Placed", "Order Confirmed", "Payment Verified"] },
+  { label: "Packed", statuses: ["Processing", "Packed", "Label Created"] },
+  { label: "Shipped", statuses: ["Shipped", "Picked Up", "In Transit"] },
+  { label: "Out for Delivery", statuses: ["Out for Delivery", "Failed Delivery"] },
+  { label: "Delivered", statuses: ["Delivered"] },
+];
+
+const STOPPED_STATUSES = ["Cancelled", "Returned", "Refunded", "Returned to Sender", "Lost"];
+
+const getStepIndex = (status?: string) =>
+  TRACKING_STEPS.findIndex(step => status && step.statuses.includes(status));
+
+const formatDate = (date?: string | null, withTime = false) =>
+  date
+    ? new Date(date).toLocaleString("en-IN", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+        ...(withTime ? { hour: "2-digit", minute: "2-digit" } : {}),
+      })
+    : "-";
+
+export default function TrackingScreen() {
+  const router = useRouter();
+  const { number } = useLocalSearchParams<{ number: string }>();
+
+  const [data, setData] = useState<OrderTrackingData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (number) {
+      fetchTracking();
+    }
+  }, [number]);
+
+  const fetchTracking = async () => {
+    try {
+      const response = await trackOrder(number);
+      if (response.success && response.data) {
+        setData(response.data);
+        setError(null);
+      } else {
+        setError(handleApiError(response.error));
+      }
+    } catch (err) {
+      console.error("Error fetching tracking:", err);
+      setError("Unable to fetch live tracking right now.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ✅ NEW: Reload when this shipment's order changes (polls while the live stream is down)
+  const connectionState = useOrderEvents(
+    event => {
+      if (event.tracking?.number === number || event.orderId === data?.orderId) fetchTracking();
+    },
+    { enabled: !!number, onPoll: fetchTracking }
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchTracking();
+    setRefreshing(false);
+  };
+
+  // Newest event first
+  const timeline = useMemo<TrackingTimelineEvent[]>(
+    () =>
+      [...(data?.tracking?.timeline || [])].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      ),
+    [data]
+  );
+
+  // Furthest step reached by the order status, shipment status or any timeline event
+  const currentStep = useMemo(() => {
+    if (!data) return -1;
+    return Math.max(
+      getStepIndex(data.status),
+      getStepIndex(data.tracking?.status),
+      ...timeline.map(event => getStepIndex(event.status))
+    );
+  }, [data, timeline]);
+
+  const stoppedStatus = data
+    ? STOPPED_STATUSES.find(status => status === data.status || status === data.tracking?.status)
+    : undefined;
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ArrowLeft size={24} color="#333" />
+      </TouchableOpacity>
+      <View style={styles.headerTitle}>
+        <Text style={styles.headerText}>Track Shipment</Text>
+        <Text style={styles.headerSubtext}>
+          {number}
+          {connectionState === 'live' ? ' • Live' : ''}
+        </Text>
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+        {renderHeader()}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#ff3f6c" />
+          <Text style={styles.loadingText}>Fetching shipment details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+        {renderHeader()}
+        <View style={styles.centered}>
+          <AlertCircle size={64} color="#ff6b6b" />
+          <Text style={styles.errorTitle}>Tracking unavailable</Text>
+          <Text style={styles.errorText}>{error || "Tracking details are currently unavailable."}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => { setIsLoading(true); fetchTracking(); }}>
+            <Text style={styles.retryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const { tracking } = data;
+  const isDelivered = currentStep === TRACKING_STEPS.length - 1;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+      {renderHeader()}
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#ff3f6c"]} tintColor="#ff3f6c" />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Summary */}
+        <View style={styles.card}>
+          <View style={styles.summaryRow}>
+            <View>
+              <Text style={styles.summaryLabel}>Order #{data.orderId}</Text>
+              <Text style={styles.summaryStatus}>{stoppedStatus || tracking.status}</Text>
+            </View>
+            <View style={styles.carrierBadge}>
+              <Truck size={14} color="#ff3f6c" />
+              <Text style={styles.carrierText}>{tracking.carrier}</Text>
+            </View>
+          </View>
+
+          <View style={styles.infoRow}>
+            <MapPin size={16} color="#666" />
+            <Text style={styles.infoText}>Current location: {tracking.currentLocation}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Calendar size={16} color={isDelivered ? "#4caf50" : "#666"} />
+            <Text style={[styles.infoText, isDelivered && styles.deliveredText]}>
+              {isDelivered
+                ? `Delivered on ${formatDate(tracking.actualDelivery || data.lastUpdate?.timestamp)}`
+                : `Estimated delivery: ${formatDate(data.estimatedDelivery || tracking.estimatedDelivery)}`}
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Home size={16} color="#666" />
+            <Text style={styles.infoText}>
+              Delivering to {data.shippingAddress.city}, {data.shippingAddress.state} - {data.shippingAddress.pincode}
+            </Text>
+          </View>
+          {tracking.deliveryAttempts > 0 && (
+            <View style={styles.infoRow}>
+              <Navigation size={16} color="#ffa500" />
+              <Text style={[styles.infoText, styles.attemptsText]}>
+                {tracking.deliveryAttempts} delivery attempt{tracking.deliveryAttempts !== 1 ? "s" : ""} made
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Progress stepper */}
+        <View style={styles.card}>
+          {stoppedStatus ? (
+            <View style={styles.stoppedBanner}>
+              <AlertCircle size={18} color="#ff6b6b" />
+              <Text style={styles.stoppedText}>This shipment is {stoppedStatus.toLowerCase()}.</Text>
+            </View>
+          ) : (
+            <View style={styles.stepper}>
+              {TRACKING_STEPS.map((step, index) => {
+                const reached = index <= currentStep;
+                return (
+                  <View key={step.label} style={styles.step}>
+                    <View style={styles.stepTrack}>
+                      <View style={[styles.stepLine, index === 0 && styles.hidden, reached && styles.stepLineActive]} />
+                      <View style={[styles.stepDot, reached && styles.stepDotActive]}>
+                        {reached && <CheckCircle size={14} color="#fff" />}
+                      </View>
+                      <View
+                        style={[
+                          styles.stepLine,
+                          index === TRACKING_STEPS.length - 1 && styles.hidden,
+                          index < currentStep && styles.stepLineActive,
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.stepLabel, reached && styles.stepLabelActive]} numberOfLines={2}>
+                      {step.label}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        {/* Timeline */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Shipment Updates</Text>
+          {timeline.length === 0 ? (
+            <Text style={styles.emptyText}>No updates yet.</Text>
+          ) : (
+            timeline.map((event, index) => (
+              <View key={`${event.status}-${event.timestamp}`} style={styles.timelineEvent}>
+                <View style={styles.timelineMarker}>
+                  <View style={[styles.timelinePoint, index === 0 && styles.timelinePointActive]} />
+                  {index !== timeline.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={styles.timelineContent}>
+                  <Text style={[styles.timelineStatus, index === 0 && styles.timelineStatusActive]}>
+                    {event.status}
+                  </Text>
+                  {!!event.description && <Text style={styles.timelineDescription}>{event.description}</Text>}
+                  <Text style={styles.timelineMeta}>
+                    {event.location} · {formatDate(event.timestamp, true)}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Items */}
+        {data.items?.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>
+              {data.itemCount} item{data.itemCount !== 1 ? "s" : ""} in this shipment
+            </Text>
+            {data.items.map(item => (
+              <View key={item._id} style={styles.itemRow}>
+                {item.image ? (
+                  <Image source={{ uri: item.image }} style={styles.itemImage} />
+                ) : (
+                  <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                    <Package size={20} color="#ccc" />
+                  </View>
+                )}
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemBrand}>{item.brand}</Text>
+                  <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+                  <Text style={styles.itemMeta}>
+                    {item.size ? `Size: ${item.size}  ` : ""}Qty: {item.quantity}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {!!tracking.deliveryInstructions && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Delivery Instructions</Text>
+            <Text style={styles.infoText}>{tracking.deliveryInstructions}</Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: hp(6),
+    paddingBottom: 16,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.05)",
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+  },
+  headerSubtext: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 40,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#666",
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  retryButton: {
+    backgroundColor: "#ff3f6c",
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+    elevation: 1,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 12,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: "#666",
+  },
+  summaryStatus: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 4,
+  },
+  carrierBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff4f6",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  carrierText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#ff3f6c",
+    marginLeft: 4,
+  },
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+    marginLeft: 8,
+    lineHeight: 18,
+  },
+  deliveredText: {
+    color: "#4caf50",
+    fontWeight: "600",
+  },
+  attemptsText: {
+    color: "#ffa500",
+  },
+  stoppedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffeaea",
+    padding: 12,
+    borderRadius: 8,
+  },
+  stoppedText: {
+    fontSize: 14,
+    color: "#ff6b6b",
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  stepper: {
+    flexDirection: "row",
+  },
+  step: {
+    flex: 1,
+    alignItems: "center",
+  },
+  stepTrack: {
+    flexDirection: "row",
+    alignItems: "center",
+    width: "100%",
+  },
+  stepLine: {
+    flex: 1,
+    height: 3,
+    backgroundColor: "#e0e0e0",
+  },
+  stepLineActive: {
+    backgroundColor: "#4caf50",
+  },
+  hidden: {
+    opacity: 0,
+  },
+  stepDot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: "#e0e0e0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepDotActive: {
+    backgroundColor: "#4caf50",
+  },
+  stepLabel: {
+    fontSize: 11,
+    color: "#999",
+    textAlign: "center",
+    marginTop: 6,
+    paddingHorizontal: 2,
+  },
+  stepLabelActive: {
+    color: "#333",
+    fontWeight: "600",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#999",
+  },
+  timelineEvent: {
+    flexDirection: "row",
+  },
+  timelineMarker: {
+    width: 20,
+    alignItems: "center",
+  },
+  timelinePoint: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: "#ddd",
+    marginTop: 3,
+  },
+  timelinePointActive: {
+    backgroundColor: "#ff3f6c",
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: "#eee",
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 18,
+  },
+  timelineStatus: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+  },
+  timelineStatusActive: {
+    color: "#333",
+  },
+  timelineDescription: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  timelineMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 4,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  itemImage: {
+    width: 48,
+    height: 58,
+    borderRadius: 6,
+    backgroundColor: "#f5f5f5",
+  },
+  itemImagePlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemBrand: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#333",
+  },
+  itemName: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+});
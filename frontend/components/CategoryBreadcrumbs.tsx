@@ -0,0 +1,76 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { CategoryBreadcrumb } from '@/types/product';
+
+interface CategoryBreadcrumbsProps {
+  path: CategoryBreadcrumb[];
+  // Category screens show the current category as plain text; product screens link every step
+  linkLast?: boolean;
+}
+
+// ✅ Home › Men › T-Shirts - each step opens that category
+const CategoryBreadcrumbs: React.FC<CategoryBreadcrumbsProps> = ({ path, linkLast = false }) => {
+  const router = useRouter();
+
+  if (path.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      <TouchableOpacity onPress={() => router.push('/(tabs)/categories')}>
+        <Text style={styles.link}>Home</Text>
+      </TouchableOpacity>
+
+      {path.map((crumb, index) => {
+        const isCurrent = index === path.length - 1 && !linkLast;
+        return (
+          <React.Fragment key={crumb._id}>
+            <Text style={styles.separator}>›</Text>
+            {isCurrent ? (
+              <Text style={styles.current} numberOfLines={1}>{crumb.name}</Text>
+            ) : (
+              <TouchableOpacity onPress={() => router.push(`/category/${crumb._id}`)}>
+                <Text style={styles.link} numberOfLines={1}>{crumb.name}</Text>
+              </TouchableOpacity>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  link: {
+    fontSize: 13,
+    color: '#ff3f6c',
+    fontWeight: '500',
+  },
+  separator: {
+    marginHorizontal: 6,
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  current: {
+    fontSize: 13,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+});
+
+export default CategoryBreadcrumbs;
@@ -42,6 +42,7 @@ import {
   resetFilters,
   applyQuickFilter,
   getSortLabel,
+  SearchFacets,
 } from '@/types/product';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -59,6 +60,7 @@ interface FilterModalProps {
   colors?: string[];
   sizes?: string[];
   products?: Product[]; // For extracting filter options
+  facets?: SearchFacets; // ✅ NEW: Server facet counts take precedence over local extraction
 }
 
 interface FilterSectionProps {
@@ -115,6 +117,7 @@ const FilterModal: React.FC<FilterModalProps> = ({
   colors = [],
   sizes = [],
   products = [],
+  facets,
 }) => {
   const [filters, setFilters] = useState<FilterState>(currentFilters);
   const [searchBrand, setSearchBrand] = useState('');
@@ -153,8 +156,17 @@ const FilterModal: React.FC<FilterModalProps> = ({
     }
   }, [visible]);
 
-  // Extract available options from products
+  // Extract available options from server facets, or from products as a fallback
   const availableOptions = useMemo(() => {
+    if (facets) {
+      return {
+        brands: facets.brands.map(facet => facet.value),
+        colors: facets.colors.map(facet => facet.value),
+        sizes: facets.sizes.map(facet => facet.value),
+        priceRange: facets.priceRange,
+      };
+    }
+
     const extractedBrands = new Set<string>();
     const extractedColors = new Set<string>();
     const extractedSizes = new Set<string>();
@@ -175,13 +187,25 @@ const FilterModal: React.FC<FilterModalProps> = ({
       sizes: Array.from(extractedSizes).sort(),
       priceRange: { min: minPrice === Infinity ? 0 : minPrice, max: maxPrice },
     };
-  }, [products]);
+  }, [products, facets]);
+
+  // ✅ NEW: Facet counts keyed by value for quick lookup while rendering
+  const facetCounts = useMemo(() => {
+    if (!facets) return null;
+    return {
+      brands: new Map(facets.brands.map(facet => [facet.value, facet.count])),
+      colors: new Map(facets.colors.map(facet => [facet.value, facet.count])),
+      sizes: new Map(facets.sizes.map(facet => [facet.value, facet.count])),
+      ratings: new Map(facets.ratings.map(facet => [facet.value, facet.count])),
+      priceRanges: new Map(facets.priceRanges.map(facet => [facet.min, facet.count])),
+    };
+  }, [facets]);
 
-  // Use provided options or extracted options
-  const finalBrands = brands.length > 0 ? brands : availableOptions.brands;
-  const finalColors = colors.length > 0 ? colors : availableOptions.colors;
-  const finalSizes = sizes.length > 0 ? sizes : availableOptions.sizes;
-  const finalPriceRange = priceRange || availableOptions.priceRange;
+  // Use facets, then provided options, then extracted options
+  const finalBrands = facets ? availableOptions.brands : brands.length > 0 ? brands : availableOptions.brands;
+  const finalColors = facets ? availableOptions.colors : colors.length > 0 ? colors : availableOptions.colors;
+  const finalSizes = facets ? availableOptions.sizes : sizes.length > 0 ? sizes : availableOptions.sizes;
+  const finalPriceRange = facets ? availableOptions.priceRange : priceRange || availableOptions.priceRange;
 
   // Filtered brands based on search
   const filteredBrands = useMemo(() => {
@@ -288,6 +312,7 @@ const FilterModal: React.FC<FilterModalProps> = ({
             >
               <Text style={[styles.priceRangeText, isSelected && styles.priceRangeTextActive]}>
                 {range.label}
+                {facetCounts && ` (${facetCounts.priceRanges.get(range.min) ?? 0})`}
               </Text>
             </TouchableOpacity>
           );
@@ -353,6 +378,9 @@ const FilterModal: React.FC<FilterModalProps> = ({
                 {isSelected && <Check size={14} color="#fff" />}
               </View>
               <Text style={styles.brandText}>{item}</Text>
+              {facetCounts && (
+                <Text style={styles.facetCountText}>{facetCounts.brands.get(item) ?? 0}</Text>
+              )}
             </TouchableOpacity>
           );
         }}
@@ -385,6 +413,9 @@ const FilterModal: React.FC<FilterModalProps> = ({
               ))}
             </View>
             <Text style={styles.ratingText}>{rating}+ stars</Text>
+            {facetCounts && (
+              <Text style={styles.facetCountText}>{facetCounts.ratings.get(rating) ?? 0}</Text>
+            )}
           </TouchableOpacity>
         );
       })}
@@ -407,6 +438,7 @@ const FilterModal: React.FC<FilterModalProps> = ({
             >
               <Text style={[styles.colorText, isSelected && styles.colorTextActive]}>
                 {item}
+                {facetCounts && ` (${facetCounts.colors.get(item) ?? 0})`}
               </Text>
             </TouchableOpacity>
           );
@@ -432,6 +464,7 @@ const FilterModal: React.FC<FilterModalProps> = ({
             >
               <Text style={[styles.sizeText, isSelected && styles.sizeTextActive]}>
                 {item}
+                {facetCounts && ` (${facetCounts.sizes.get(item) ?? 0})`}
               </Text>
             </TouchableOpacity>
           );
@@ -973,6 +1006,11 @@ const styles = StyleSheet.create({
     color: '#333',
     flex: 1,
   },
+  facetCountText: {
+    fontSize: 13,
+    color: '#999',
+    marginLeft: 8,
+  },
 
   // Rating Filter
   ratingContainer: {},
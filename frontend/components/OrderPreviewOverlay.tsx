@@ -129,7 +129,9 @@ const OrderPreviewOverlay: React.FC<OrderPreviewOverlayProps> = ({
   const shipping = bagSummary?.shipping || (subtotal > 499 ? 0 : 50);
   const tax = bagSummary?.tax || Math.round(subtotal * 0.18);
   const couponDiscount = bagSummary?.couponDiscount || appliedCoupon?.discountAmount || 0;
-  const finalTotal = bagSummary?.total || (subtotal + shipping + tax - couponDiscount);
+  const promotions = bagSummary?.promotions ?? [];
+  const promotionDiscount = bagSummary?.promotionDiscount || 0;
+  const finalTotal = bagSummary?.total || (subtotal + shipping + tax - promotionDiscount - couponDiscount);
 
   const canPlaceOrder = bagItemsArray.length > 0 && 
                        deliveryAddress !== null && 
@@ -265,6 +267,13 @@ const OrderPreviewOverlay: React.FC<OrderPreviewOverlayProps> = ({
           <Text style={styles.summaryLabel}>Subtotal ({totalBagItems} items)</Text>
           <Text style={styles.summaryValue}>₹{subtotal}</Text>
         </View>
+
+        {promotions.map(promotion => (
+          <View key={promotion.promotionId} style={styles.summaryRow}>
+            <Text style={styles.summaryLabel} numberOfLines={1}>{promotion.label}</Text>
+            <Text style={styles.discountValue}>- ₹{Math.round(promotion.discount)}</Text>
+          </View>
+        ))}
         
         {couponDiscount > 0 && (
           <View style={[styles.summaryRow, styles.discountRow]}>
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { TrendingDown } from 'lucide-react-native';
+import { ProductPriceHistory } from '@/types/product';
+import { getProductPriceHistory } from '@/utils/api';
+
+const BAR_COUNT = 30;
+const CHART_HEIGHT = 80;
+
+interface PriceHistoryChartProps {
+  productId: string;
+  days?: number;
+}
+
+// ✅ Price in effect at the end of each of BAR_COUNT equal slices of the window (a step chart)
+const buildBars = (data: ProductPriceHistory): number[] => {
+  const end = Date.now();
+  const start = end - data.days * 24 * 60 * 60 * 1000;
+  const points = data.history.map(point => ({ price: point.price, time: new Date(point.changedAt).getTime() }));
+  const firstPrice = points.length > 0 ? points[0].price : data.currentPrice;
+
+  return Array.from({ length: BAR_COUNT }, (_, index) => {
+    const sliceEnd = start + ((index + 1) / BAR_COUNT) * (end - start);
+    const inEffect = points.filter(point => point.time <= sliceEnd).pop();
+    return inEffect ? inEffect.price : firstPrice;
+  });
+};
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ productId, days = 90 }) => {
+  const [data, setData] = useState<ProductPriceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getProductPriceHistory(productId, days)
+      .then(response => {
+        if (!cancelled) setData(response.success ? response.data || null : null);
+      })
+      .catch(error => console.warn('⚠️ Failed to load price history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, days]);
+
+  const bars = useMemo(() => (data ? buildBars(data) : []), [data]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.section}>
+        <ActivityIndicator size="small" color="#ff3f6c" />
+      </View>
+    );
+  }
+
+  // Nothing to chart until the price has changed at least once
+  if (!data || data.history.length < 2) return null;
+
+  const range = data.highestPrice - data.lowestPrice;
+  const isLowest = data.currentPrice <= data.lowestPrice && range > 0;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Price History</Text>
+        <Text style={styles.subtitle}>Last {data.days} days</Text>
+      </View>
+
+      {isLowest && (
+        <View style={styles.lowestBadge}>
+          <TrendingDown size={14} color="#16a34a" />
+          <Text style={styles.lowestText}>Lowest price in {data.days} days</Text>
+        </View>
+      )}
+
+      <View style={styles.chart}>
+        {bars.map((price, index) => {
+          const height = range > 0
+            ? 12 + ((price - data.lowestPrice) / range) * (CHART_HEIGHT - 12)
+            : CHART_HEIGHT / 2;
+          return (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                { height },
+                index === bars.length - 1 && styles.currentBar,
+              ]}
+            />
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Low ₹{data.lowestPrice}</Text>
+        <Text style={styles.legendText}>High ₹{data.highestPrice}</Text>
+        <Text style={[styles.legendText, styles.legendCurrent]}>Now ₹{data.currentPrice}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lowestBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#f0fdf4',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginBottom: 12,
+  },
+  lowestText: {
+    marginLeft: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#16a34a',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: '#fbcfe8',
+  },
+  currentBar: {
+    backgroundColor: '#ff3f6c',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  legendCurrent: {
+    color: '#ff3f6c',
+    fontWeight: '600',
+  },
+});
+
+export default PriceHistoryChart;
@@ -0,0 +1,746 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+  Dimensions,
+} from "react-native";
+import { X, RotateCcw, MapPin, Calendar, Clock, Check } from "lucide-react-native";
+import { useAuth } from "@/context/AuthContext";
+import {
+  ReturnOptions,
+  ReturnRequest,
+  ReturnType,
+  ReturnItemRequest,
+} from "@/types/product";
+import { getReturnOptions, requestOrderReturn, handleApiError } from "@/utils/api";
+
+const { height: screenHeight } = Dimensions.get("window");
+
+const PICKUP_DAYS = 7;
+
+export interface ReturnableOrder {
+  _id: string;
+  orderId: string;
+  items: Array<{
+    _id: string;
+    productId?: { sizes?: string[]; images?: string[] } | null;
+    productSnapshot: {
+      name: string;
+      brand: string;
+      images: string[];
+    };
+    size?: string;
+    color?: string;
+    price: number;
+    quantity: number;
+    status: string;
+    returnStatus?: string;
+  }>;
+}
+
+interface ReturnRequestModalProps {
+  visible: boolean;
+  order: ReturnableOrder | null;
+  onClose: () => void;
+  onSuccess?: (returns: ReturnRequest[]) => void;
+}
+
+interface ItemSelection {
+  type: ReturnType;
+  quantity: number;
+  reasonCode: string;
+  comments: string;
+  exchangeSize: string;
+}
+
+// Items can be returned once; a rejected request may be raised again
+export const isItemReturnable = (item: ReturnableOrder["items"][number]) =>
+  !["Cancelled", "Returned"].includes(item.status) &&
+  ["Not Requested", "Rejected", undefined].includes(item.returnStatus);
+
+// Pickup can be booked from tomorrow for the next 7 days (noon keeps the day stable across timezones)
+const getPickupDates = () =>
+  Array.from({ length: PICKUP_DAYS }, (_, index) => {
+    const date = new Date();
+    date.setDate(date.getDate() + index + 1);
+    date.setHours(12, 0, 0, 0);
+    return date;
+  });
+
+const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({
+  visible,
+  order,
+  onClose,
+  onSuccess,
+}) => {
+  const { user, addresses, defaultAddressId } = useAuth();
+
+  const [options, setOptions] = useState<ReturnOptions | null>(null);
+  const [isLoadingOptions, setIsLoadingOptions] = useState(false);
+  const [selections, setSelections] = useState<Record<string, ItemSelection>>({});
+  const [addressId, setAddressId] = useState<string | null>(null);
+  const [pickupDate, setPickupDate] = useState<Date | null>(null);
+  const [timeSlot, setTimeSlot] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pickupDates = useMemo(getPickupDates, [visible]);
+  const addressList = useMemo(() => Array.from(addresses.values()), [addresses]);
+  const returnableItems = useMemo(
+    () => (order ? order.items.filter(isItemReturnable) : []),
+    [order]
+  );
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSelections({});
+    setAddressId(defaultAddressId || addressList[0]?._id || null);
+    setPickupDate(pickupDates[0]);
+    setTimeSlot(null);
+
+    if (!options) {
+      loadOptions();
+    }
+  }, [visible, order?._id]);
+
+  const loadOptions = async () => {
+    setIsLoadingOptions(true);
+    const response = await getReturnOptions();
+    if (response.success && response.data) {
+      setOptions(response.data);
+    } else {
+      Alert.alert("Error", handleApiError(response.error));
+    }
+    setIsLoadingOptions(false);
+  };
+
+  // Default to the first slot once the options are known
+  useEffect(() => {
+    if (options && !timeSlot) {
+      setTimeSlot(options.pickupTimeSlots[0]);
+    }
+  }, [options, timeSlot]);
+
+  const toggleItem = (itemId: string, quantity: number) => {
+    setSelections(prev => {
+      if (prev[itemId]) {
+        const { [itemId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return {
+        ...prev,
+        [itemId]: { type: "return", quantity, reasonCode: "", comments: "", exchangeSize: "" },
+      };
+    });
+  };
+
+  const updateSelection = (itemId: string, changes: Partial<ItemSelection>) => {
+    setSelections(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const validate = (): string | null => {
+    const selected = Object.entries(selections);
+    if (selected.length === 0) return "Select at least one item to return or exchange.";
+
+    for (const [itemId, selection] of selected) {
+      const item = order?.items.find(orderItem => orderItem._id === itemId);
+      const name = item?.productSnapshot.name || "this item";
+      if (!selection.reasonCode) return `Choose a reason for ${name}.`;
+      if (selection.type === "exchange" && !selection.exchangeSize) {
+        return `Choose a new size for ${name}.`;
+      }
+    }
+
+    if (!addressId) return "Add a pickup address in your profile first.";
+    if (!pickupDate || !timeSlot) return "Choose a pickup date and time slot.";
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    if (!order || !user) return;
+
+    const validationError = validate();
+    if (validationError) {
+      Alert.alert("Return Request", validationError);
+      return;
+    }
+
+    const items: ReturnItemRequest[] = Object.entries(selections).map(([itemId, selection]) => ({
+      itemId,
+      quantity: selection.quantity,
+      type: selection.type,
+      reasonCode: selection.reasonCode,
+      comments: selection.comments.trim() || undefined,
+      exchangeSize: selection.type === "exchange" ? selection.exchangeSize : undefined,
+    }));
+
+    setIsSubmitting(true);
+    try {
+      const response = await requestOrderReturn(order._id, {
+        items,
+        addressId: addressId!,
+        scheduledDate: pickupDate!.toISOString(),
+        timeSlot: timeSlot!,
+      });
+
+      if (response.success && response.data) {
+        const returnIds = response.data.returns.map(request => request.returnId).join(", ");
+        Alert.alert(
+          "Request Submitted",
+          `Your request ${returnIds} has been placed. Pickup is scheduled for ${pickupDate!.toLocaleDateString("en-IN", {
+            weekday: "short",
+            day: "numeric",
+            month: "short",
+          })}, ${timeSlot}.`
+        );
+        onSuccess?.(response.data.returns);
+        onClose();
+      } else {
+        Alert.alert("Return Request", handleApiError(response.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderItem = (item: ReturnableOrder["items"][number]) => {
+    const selection = selections[item._id];
+    const exchangeSizes = (item.productId?.sizes || []).filter(size => size !== item.size);
+
+    return (
+      <View key={item._id} style={styles.itemCard}>
+        <TouchableOpacity
+          style={styles.itemRow}
+          onPress={() => toggleItem(item._id, item.quantity)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.checkbox, selection && styles.checkboxChecked]}>
+            {selection && <Check size={14} color="#fff" />}
+          </View>
+          <Image
+            source={{ uri: item.productSnapshot.images[0] || item.productId?.images?.[0] || "https://via.placeholder.com/60" }}
+            style={styles.itemImage}
+          />
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemBrand}>{item.productSnapshot.brand}</Text>
+            <Text style={styles.itemName} numberOfLines={2}>{item.productSnapshot.name}</Text>
+            <Text style={styles.itemMeta}>
+              {item.size ? `Size: ${item.size}  ` : ""}Qty: {item.quantity}  ₹{item.price}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {selection && (
+          <View style={styles.itemOptions}>
+            {/* Return or exchange */}
+            <View style={styles.chipRow}>
+              {(["return", "exchange"] as ReturnType[]).map(type => {
+                const disabled = type === "exchange" && exchangeSizes.length === 0;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.chip,
+                      selection.type === type && styles.chipSelected,
+                      disabled && styles.chipDisabled,
+                    ]}
+                    onPress={() => updateSelection(item._id, { type })}
+                    disabled={disabled}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, selection.type === type && styles.chipTextSelected]}>
+                      {type === "return" ? "Return for refund" : "Exchange size"}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {selection.type === "exchange" && (
+              <>
+                <Text style={styles.optionLabel}>New size</Text>
+                <View style={styles.chipRow}>
+                  {exchangeSizes.map(size => (
+                    <TouchableOpacity
+                      key={size}
+                      style={[styles.sizeChip, selection.exchangeSize === size && styles.chipSelected]}
+                      onPress={() => updateSelection(item._id, { exchangeSize: size })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, selection.exchangeSize === size && styles.chipTextSelected]}>
+                        {size}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {item.quantity > 1 && (
+              <>
+                <Text style={styles.optionLabel}>Quantity</Text>
+                <View style={styles.chipRow}>
+                  {Array.from({ length: item.quantity }, (_, index) => index + 1).map(quantity => (
+                    <TouchableOpacity
+                      key={quantity}
+                      style={[styles.sizeChip, selection.quantity === quantity && styles.chipSelected]}
+                      onPress={() => updateSelection(item._id, { quantity })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, selection.quantity === quantity && styles.chipTextSelected]}>
+                        {quantity}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.optionLabel}>Reason</Text>
+            <View style={styles.chipRow}>
+              {(options?.reasons || []).map(reason => (
+                <TouchableOpacity
+                  key={reason.code}
+                  style={[styles.chip, selection.reasonCode === reason.code && styles.chipSelected]}
+                  onPress={() => updateSelection(item._id, { reasonCode: reason.code })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, selection.reasonCode === reason.code && styles.chipTextSelected]}>
+                    {reason.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.commentsInput}
+              placeholder="Additional comments (optional)"
+              placeholderTextColor="#999"
+              value={selection.comments}
+              onChangeText={comments => updateSelection(item._id, { comments })}
+              maxLength={500}
+              multiline
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <View style={styles.container}>
+        <View style={styles.backdrop} />
+
+        <View style={styles.modalContent}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <RotateCcw size={20} color="#ff3f6c" />
+              <Text style={styles.headerTitle}>Return / Exchange</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSubmitting}>
+              <X size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          {isLoadingOptions ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#ff3f6c" />
+            </View>
+          ) : (
+            <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+              {order && <Text style={styles.orderLabel}>Order #{order.orderId}</Text>}
+
+              {/* Items */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Select items</Text>
+                {returnableItems.length === 0 ? (
+                  <Text style={styles.emptyText}>All items in this order already have a return in progress.</Text>
+                ) : (
+                  returnableItems.map(renderItem)
+                )}
+              </View>
+
+              {/* Pickup address */}
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <MapPin size={16} color="#666" />
+                  <Text style={styles.sectionTitle}>Pickup address</Text>
+                </View>
+                {addressList.length === 0 ? (
+                  <Text style={styles.emptyText}>No saved addresses. Add one from your profile to schedule a pickup.</Text>
+                ) : (
+                  addressList.map(address => (
+                    <TouchableOpacity
+                      key={address._id}
+                      style={[styles.addressCard, addressId === address._id && styles.addressCardSelected]}
+                      onPress={() => setAddressId(address._id || null)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.addressName}>{address.name}</Text>
+                      <Text style={styles.addressText} numberOfLines={2}>
+                        {address.addressLine1}
+                        {address.addressLine2 ? `, ${address.addressLine2}` : ""}, {address.city} - {address.pincode}
+                      </Text>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+
+              {/* Pickup date */}
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Calendar size={16} color="#666" />
+                  <Text style={styles.sectionTitle}>Pickup date</Text>
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {pickupDates.map(date => {
+                    const selected = pickupDate?.toDateString() === date.toDateString();
+                    return (
+                      <TouchableOpacity
+                        key={date.toDateString()}
+                        style={[styles.dateChip, selected && styles.chipSelected]}
+                        onPress={() => setPickupDate(date)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.dateDay, selected && styles.chipTextSelected]}>
+                          {date.toLocaleDateString("en-IN", { weekday: "short" })}
+                        </Text>
+                        <Text style={[styles.dateNumber, selected && styles.chipTextSelected]}>
+                          {date.getDate()}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+
+              {/* Time slot */}
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Clock size={16} color="#666" />
+                  <Text style={styles.sectionTitle}>Time slot</Text>
+                </View>
+                <View style={styles.chipRow}>
+                  {(options?.pickupTimeSlots || []).map(slot => (
+                    <TouchableOpacity
+                      key={slot}
+                      style={[styles.chip, timeSlot === slot && styles.chipSelected]}
+                      onPress={() => setTimeSlot(slot)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, timeSlot === slot && styles.chipTextSelected]}>{slot}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {options && (
+                <Text style={styles.policyText}>
+                  Items can be returned within {options.returnWindowDays} days of delivery. Refunds are issued once the pickup is completed.
+                </Text>
+              )}
+            </ScrollView>
+          )}
+
+          {/* Footer */}
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (isSubmitting || returnableItems.length === 0) && styles.submitButtonDisabled,
+              ]}
+              onPress={handleSubmit}
+              disabled={isSubmitting || returnableItems.length === 0}
+              activeOpacity={0.8}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Schedule Pickup</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backdrop: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalContent: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: screenHeight * 0.9,
+    marginTop: screenHeight * 0.1,
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  headerLeft: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+    marginLeft: 8,
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: "#f8f9fa",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  body: {
+    flex: 1,
+  },
+  bodyContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  orderLabel: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#999",
+    lineHeight: 18,
+  },
+  itemCard: {
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: "#ddd",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 10,
+  },
+  checkboxChecked: {
+    backgroundColor: "#ff3f6c",
+    borderColor: "#ff3f6c",
+  },
+  itemImage: {
+    width: 50,
+    height: 60,
+    borderRadius: 6,
+    backgroundColor: "#f5f5f5",
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  itemBrand: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#333",
+  },
+  itemName: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 4,
+  },
+  itemOptions: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f5f5f5",
+  },
+  optionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    backgroundColor: "#fff",
+  },
+  sizeChip: {
+    minWidth: 40,
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  chipSelected: {
+    borderColor: "#ff3f6c",
+    backgroundColor: "#fff4f6",
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  chipTextSelected: {
+    color: "#ff3f6c",
+    fontWeight: "600",
+  },
+  commentsInput: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 13,
+    color: "#333",
+    minHeight: 60,
+    marginTop: 12,
+    textAlignVertical: "top",
+  },
+  addressCard: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  addressCardSelected: {
+    borderColor: "#ff3f6c",
+    backgroundColor: "#fff4f6",
+  },
+  addressName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  addressText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 4,
+  },
+  dateChip: {
+    width: 56,
+    alignItems: "center",
+    paddingVertical: 10,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  dateDay: {
+    fontSize: 11,
+    color: "#999",
+  },
+  dateNumber: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 2,
+  },
+  policyText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 20,
+    lineHeight: 18,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  submitButton: {
+    backgroundColor: "#ff3f6c",
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
+
+export default ReturnRequestModal;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Zap } from 'lucide-react-native';
+import { ProductFlashSale } from '@/types/product';
+import { formatCountdown, useCountdown } from '@/hooks/useCountdown';
+
+interface SaleCountdownBadgeProps {
+  sale?: Pick<ProductFlashSale, 'startsAt' | 'endsAt'> | null;
+  // Cards use the compact pill; the product page and deals header spell it out
+  variant?: 'compact' | 'full';
+  style?: StyleProp<ViewStyle>;
+}
+
+// ✅ A flash sale has started when its startsAt has passed
+export const isSaleLive = (sale?: Pick<ProductFlashSale, 'startsAt' | 'endsAt'> | null): boolean => {
+  if (!sale) return false;
+  const now = Date.now();
+  return new Date(sale.startsAt).getTime() <= now && new Date(sale.endsAt).getTime() > now;
+};
+
+// ✅ "Ends in 04:12:09" - hides itself once the sale is over
+const SaleCountdownBadge: React.FC<SaleCountdownBadgeProps> = ({ sale, variant = 'compact', style }) => {
+  const countdown = useCountdown(sale?.endsAt);
+
+  if (!sale || !countdown || countdown.isOver || new Date(sale.startsAt).getTime() > Date.now()) return null;
+
+  const compact = variant === 'compact';
+  return (
+    <View style={[styles.badge, compact ? styles.compact : styles.full, style]}>
+      <Zap size={compact ? 10 : 14} color="#fff" fill="#fff" />
+      <Text style={compact ? styles.compactText : styles.fullText}>
+        {compact ? '' : 'Sale ends in '}{formatCountdown(countdown)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#ff3f6c',
+  },
+  compact: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    gap: 3,
+  },
+  full: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    gap: 6,
+  },
+  compactText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  fullText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+});
+
+export default SaleCountdownBadge;
@@ -14,6 +14,8 @@ import {
   KeyboardAvoidingView,
   Platform,
   FlatList,
+  Alert,
+  Switch,
 } from 'react-native';
 import {
   Search,
@@ -32,9 +34,13 @@ import {
   ShoppingBag,
   SortAsc,
   RotateCcw,
+  Bookmark,
+  Bell,
+  BellOff,
+  Trash2,
 } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
 import { 
   Product, 
@@ -46,10 +52,27 @@ import {
   getActiveFiltersCount,
   getSortLabel,
   SORT_OPTIONS,
+  getProductMrp,
+  getProductDiscountPercent,
   resetFilters,
+  SearchFacets,
+  SavedSearch,
 } from '@/types/product';
-import { applyFiltersToProducts } from '@/utils/api';
+import {
+  searchProducts,
+  getSearchSuggestions,
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  markSavedSearchViewed,
+  handleApiError,
+} from '@/utils/api';
+import { useAuth } from '@/context/AuthContext';
 import FilterModal from '@/components/FilterModal';
+import SaleCountdownBadge from '@/components/SaleCountdownBadge';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { SEARCH_QUERY_PARAM } from '@/utils/filterParams';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isTablet = screenWidth >= 768;
@@ -97,15 +120,18 @@ interface EnhancedSearchSuggestion extends SearchSuggestion {
 const RECENT_SEARCHES_KEY = '@recent_searches';
 const MAX_RECENT_SEARCHES = 10;
 const SEARCH_DELAY = 300;
-
-const TRENDING_SEARCHES = [
-  { id: '1', text: 'T-Shirts', type: 'category' as const, count: 1250 },
-  { id: '2', text: 'Jeans', type: 'category' as const, count: 890 },
-  { id: '3', text: 'Dresses', type: 'category' as const, count: 756 },
-  { id: '4', text: 'Roadster', type: 'brand' as const, count: 645 },
-  { id: '5', text: 'Men', type: 'category' as const, count: 523 },
-  { id: '6', text: 'Women', type: 'category' as const, count: 434 },
-];
+const SUGGEST_DELAY = 150;
+const SEARCH_PAGE_SIZE = 20;
+const SUGGESTION_LIMIT = 8;
+const TRENDING_LIMIT = 6;
+
+const SUGGESTION_TYPE_LABELS: Partial<Record<SearchSuggestion['type'], string>> = {
+  product: '🛍️ Product',
+  brand: '🏷️ Brand',
+  category: '📁 Category',
+  subcategory: '📂 Subcategory',
+  query: '🔥 Popular search',
+};
 
 // ✅ HELPER: Safe function to get product ID
 const getProductId = (product: Product): string => {
@@ -175,18 +201,20 @@ const ProductCard: React.FC<ProductCardProps> = ({
           <Text style={styles.productPrice}>
             {formatPrice(product.price)}
           </Text>
-          {product.originalPrice && product.originalPrice > product.price && (
+          {getProductDiscountPercent(product) > 0 && (
             <>
               <Text style={styles.productOriginalPrice}>
-                {formatPrice(product.originalPrice)}
+                {formatPrice(getProductMrp(product))}
               </Text>
               <Text style={styles.productDiscount}>
-                {Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)}% OFF
+                {getProductDiscountPercent(product)}% OFF
               </Text>
             </>
           )}
         </View>
 
+        <SaleCountdownBadge sale={product.flashSale} style={styles.saleCountdownBadge} />
+
         {product.rating && renderRating(product.rating, product.ratingCount)}
       </View>
 
@@ -235,6 +263,10 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
   onSortChange,
 }) => {
   const router = useRouter();
+  const { user } = useAuth();
+  // ✅ The query is mirrored into the host route (?q=) so an open search can be shared/restored
+  const { [SEARCH_QUERY_PARAM]: routeQueryParam } = useLocalSearchParams();
+  const routeQuery = typeof routeQueryParam === 'string' ? routeQueryParam : '';
   
   // ✅ ENHANCED: State management
   const [searchQuery, setSearchQuery] = useState(initialQuery);
@@ -249,127 +281,135 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [showSortModal, setShowSortModal] = useState(false);
   
+  // ✅ NEW: Server-side ranked results + facets
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  
+  // ✅ NEW: Server typeahead suggestions + trending queries
+  const [searchSuggestions, setSearchSuggestions] = useState<EnhancedSearchSuggestion[]>([]);
+  const [trendingSearches, setTrendingSearches] = useState<SearchSuggestion[]>([]);
+
+  // ✅ NEW: Saved searches (synced to the account; recent searches stay on the device)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveDigest, setSaveDigest] = useState(false);
+  const [isSavingSearch, setIsSavingSearch] = useState(false);
+  
   const [fadeAnim] = useState(new Animated.Value(0));
   const searchInputRef = useRef<TextInput>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | undefined>();
-
-  // ✅ ENHANCED: Safety check with proper ID handling
-  const safeProducts = useMemo(() => {
-    return Array.isArray(products) ? products.filter(p => p && typeof p === 'object' && getProductId(p)) : [];
-  }, [products]);
+  const suggestTimeoutRef = useRef<NodeJS.Timeout | undefined>();
+  const suggestAbortRef = useRef<AbortController | null>(null);
 
   const safeCategories = useMemo(() => {
     return Array.isArray(categories) ? categories.filter(c => c && typeof c === 'object' && c._id && c.name) : [];
   }, [categories]);
 
-  // ✅ NEW: Apply filters and search to products
-  const filteredProducts = useMemo(() => {
-    let filtered = [...safeProducts];
+  // ✅ NEW: Ranked search on the server - stale requests are cancelled
+  // ✅ UPDATED: Cursor-paginated infinite scroll shared with the category and brand grids
+  const results = useInfiniteScroll<Product, SearchFacets>(
+    async (cursor, signal) => {
+      const response = await searchProducts(debouncedQuery, {
+        cursor,
+        limit: SEARCH_PAGE_SIZE,
+        filters,
+        signal,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Search failed');
+      }
 
-    // Apply search query filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(product =>
-        product.name?.toLowerCase().includes(query) ||
-        product.brand?.toLowerCase().includes(query) ||
-        product.categoryName?.toLowerCase().includes(query) ||
-        product.description?.toLowerCase().includes(query)
-      );
+      return {
+        items: response.data || [],
+        nextCursor: response.meta?.nextCursor ?? null,
+        total: response.meta?.total,
+        extra: response.facets,
+      };
+    },
+    {
+      deps: [debouncedQuery, filters],
+      getKey: getProductId,
+      enabled: visible && debouncedQuery.length >= 2,
     }
+  );
 
-    // Apply filters using utility function
-    filtered = applyFiltersToProducts(filtered, filters);
-
-    return filtered;
-  }, [safeProducts, searchQuery, filters]);
+  useEffect(() => {
+    return () => {
+      suggestAbortRef.current?.abort();
+    };
+  }, []);
 
   // Count active filters
   const activeFiltersCount = useMemo(() => {
     return getActiveFiltersCount(filters);
   }, [filters]);
 
-  // ✅ ENHANCED: Advanced search suggestions with proper IDs
-  const searchSuggestions = useMemo(() => {
-    if (!searchQuery.trim() || searchQuery.length < 2) return [];
-    
-    const query = searchQuery.toLowerCase();
-    const suggestions: EnhancedSearchSuggestion[] = [];
+  // ✅ NEW: Typeahead suggestions from the server - shorter debounce, stale requests cancelled
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (suggestTimeoutRef.current) clearTimeout(suggestTimeoutRef.current);
 
-    // Category suggestions
-    safeCategories.forEach(category => {
-      const categoryId = category._id;
-      const categoryName = category.name;
-      
-      if (categoryName && categoryName.toLowerCase().includes(query)) {
-        suggestions.push({
-          id: `category-${categoryId}`,
-          text: categoryName,
-          type: 'category',
-          image: category.image,
-          count: safeProducts.filter(p => p.categoryName === categoryName).length,
-          categoryId: categoryId,
-          categoryName: categoryName,
-        });
+    if (!visible || query.length < 2) {
+      suggestAbortRef.current?.abort();
+      setSearchSuggestions([]);
+      return;
+    }
+
+    suggestTimeoutRef.current = setTimeout(async () => {
+      suggestAbortRef.current?.abort();
+      const controller = new AbortController();
+      suggestAbortRef.current = controller;
+
+      const response = await getSearchSuggestions(query, {
+        limit: SUGGESTION_LIMIT,
+        signal: controller.signal,
+      });
+
+      if (controller.signal.aborted) return;
+      setSearchSuggestions(response.success ? response.data || [] : []);
+    }, SUGGEST_DELAY);
+
+    return () => {
+      if (suggestTimeoutRef.current) {
+        clearTimeout(suggestTimeoutRef.current);
+        suggestTimeoutRef.current = undefined;
       }
+    };
+  }, [visible, searchQuery]);
+
+  // ✅ NEW: Trending queries (from search logs) for the empty state
+  useEffect(() => {
+    if (!visible) return;
+    const controller = new AbortController();
 
-      // Subcategory suggestions
-      if (Array.isArray(category.subcategory)) {
-        category.subcategory.forEach((sub: string) => {
-          if (sub && sub.toLowerCase().includes(query)) {
-            suggestions.push({
-              id: `subcategory-${categoryId}-${sub.replace(/\s+/g, '-')}`,
-              text: `${sub} in ${categoryName}`,
-              type: 'category',
-              image: category.image,
-              count: safeProducts.filter(p => 
-                p.categoryName === categoryName && 
-                (p.subcategory === sub || (p.name && p.name.toLowerCase().includes(sub.toLowerCase())))
-              ).length,
-              categoryId: categoryId,
-              categoryName: categoryName,
-              subcategory: sub,
-            });
-          }
-        });
+    getSearchSuggestions('', { limit: TRENDING_LIMIT, signal: controller.signal }).then(response => {
+      if (!controller.signal.aborted && response.success) {
+        setTrendingSearches(response.data || []);
       }
     });
 
-    // Product suggestions
-    const productSuggestions = safeProducts
-      .filter(p => p?.name && typeof p.name === 'string' && p.name.toLowerCase().includes(query))
-      .slice(0, 4)
-      .map(p => ({
-        id: getProductId(p),
-        text: p.name,
-        type: 'product' as const,
-        image: p.images?.[0],
-        productId: getProductId(p),
-        brand: p.brand,
-        categoryName: p.categoryName,
-      }));
-
-    // Brand suggestions
-    const brandSet = new Set<string>();
-    const brandSuggestions: EnhancedSearchSuggestion[] = [];
-    
-    for (const p of safeProducts) {
-      if (p?.brand && typeof p.brand === 'string' && 
-          p.brand.toLowerCase().includes(query) && 
-          !brandSet.has(p.brand)) {
-        brandSet.add(p.brand);
-        brandSuggestions.push({
-          id: `brand-${p.brand.replace(/\s+/g, '-')}`,
-          text: p.brand,
-          type: 'brand',
-          count: safeProducts.filter(prod => prod?.brand === p.brand).length,
-          brand: p.brand,
-        });
-        if (brandSuggestions.length >= 3) break;
-      }
+    return () => controller.abort();
+  }, [visible]);
+
+  // ✅ NEW: Saved searches with their "new since last visit" counts
+  useEffect(() => {
+    if (!visible || !user) {
+      setSavedSearches([]);
+      return;
     }
-    
-    return [...productSuggestions, ...suggestions.slice(0, 3), ...brandSuggestions].slice(0, 8);
-  }, [searchQuery, safeProducts, safeCategories]);
+    let cancelled = false;
+
+    getSavedSearches().then(response => {
+      if (!cancelled && response.success) {
+        setSavedSearches(response.data || []);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, user]);
 
   // Update filters when activeFilters change
   useEffect(() => {
@@ -424,8 +464,9 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
   // Handle visibility changes
   useEffect(() => {
     if (visible) {
-      setSearchQuery(initialQuery);
-      setShowResults(Boolean(initialQuery.trim()));
+      const query = initialQuery || routeQuery;
+      setSearchQuery(query);
+      setShowResults(Boolean(query.trim()));
       loadRecentSearches();
       Animated.timing(fadeAnim, { toValue: 1, duration: 300, useNativeDriver: true }).start();
       setTimeout(() => searchInputRef.current?.focus(), 100);
@@ -448,11 +489,13 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
         setIsSearching(false);
         setShowSuggestions(true);
         setShowResults(searchQuery.trim().length >= 2);
+        setDebouncedQuery(searchQuery.trim());
       }, SEARCH_DELAY);
     } else {
       setShowSuggestions(true);
       setShowResults(false);
       setIsSearching(false);
+      setDebouncedQuery('');
 
       if (searchTimeoutRef.current) {
         clearTimeout(searchTimeoutRef.current);
@@ -468,6 +511,15 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
     };
   }, [searchQuery]);
 
+  useEffect(() => {
+    // Wait for the debounce to settle, or opening from a ?q= link would clear it
+    if (!visible || debouncedQuery !== searchQuery.trim()) return;
+    const query = debouncedQuery.length >= 2 ? debouncedQuery : undefined;
+    if (query !== (routeQuery || undefined)) {
+      router.setParams({ [SEARCH_QUERY_PARAM]: query });
+    }
+  }, [visible, debouncedQuery]);
+
   // Handle input change
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -517,21 +569,19 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
         handleClose();
         return;
       }
+    } else if (suggestion.type === 'subcategory') {
+      if (suggestion.subcategory && suggestion.categoryId && suggestion.categoryName && onSubcategoryPress) {
+        console.log('🔍 Navigating to subcategory:', suggestion.categoryId, suggestion.subcategory, suggestion.categoryName);
+        onSubcategoryPress(suggestion.categoryId, suggestion.subcategory, suggestion.categoryName);
+        handleClose();
+        return;
+      }
     } else if (suggestion.type === 'category') {
-      if (suggestion.subcategory && suggestion.categoryId && suggestion.categoryName) {
-        if (onSubcategoryPress) {
-          console.log('🔍 Navigating to subcategory:', suggestion.categoryId, suggestion.subcategory, suggestion.categoryName);
-          onSubcategoryPress(suggestion.categoryId, suggestion.subcategory, suggestion.categoryName);
-          handleClose();
-          return;
-        }
-      } else if (suggestion.categoryId && suggestion.categoryName) {
-        if (onCategoryPress) {
-          console.log('🔍 Navigating to category:', suggestion.categoryId, suggestion.categoryName);
-          onCategoryPress(suggestion.categoryId, suggestion.categoryName);
-          handleClose();
-          return;
-        }
+      if (suggestion.categoryId && suggestion.categoryName && onCategoryPress) {
+        console.log('🔍 Navigating to category:', suggestion.categoryId, suggestion.categoryName);
+        onCategoryPress(suggestion.categoryId, suggestion.categoryName);
+        handleClose();
+        return;
       }
     } else if (suggestion.type === 'brand') {
       // ✅ ENHANCED: Brand navigation using router
@@ -576,6 +626,74 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
     }
   };
 
+  // ✅ NEW: Save the current query + filters
+  const openSaveModal = () => {
+    if (!user) {
+      Alert.alert('Login Required', 'Please login to save searches', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Login', onPress: () => { handleClose(); router.push('/login'); } },
+      ]);
+      return;
+    }
+    setSaveName(debouncedQuery);
+    setSaveDigest(false);
+    setShowSaveModal(true);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!saveName.trim() || isSavingSearch) return;
+    setIsSavingSearch(true);
+
+    const response = await createSavedSearch({
+      name: saveName.trim(),
+      query: debouncedQuery,
+      filters,
+      digestEnabled: saveDigest,
+    });
+
+    setIsSavingSearch(false);
+    if (response.success && response.data) {
+      setSavedSearches(prev => [response.data!, ...prev]);
+      setShowSaveModal(false);
+    } else {
+      Alert.alert('Error', handleApiError(response.error) || 'Failed to save search');
+    }
+  };
+
+  // ✅ NEW: Opening a saved search restores its query and filters and resets its "new" count
+  const handleSavedSearchPress = (savedSearch: SavedSearch) => {
+    setSavedSearches(prev => prev.map(item => (item._id === savedSearch._id ? { ...item, newCount: 0 } : item)));
+    markSavedSearchViewed(savedSearch._id).catch(error => console.error('Error marking saved search viewed:', error));
+
+    const savedFilters = { ...resetFilters(), ...savedSearch.filters };
+    setFilters(savedFilters);
+    onApplyFilters?.(savedFilters);
+    setSearchQuery(savedSearch.query);
+    setShowResults(savedSearch.query.length >= 2);
+    onSearchComplete?.(savedSearch.query, savedFilters);
+  };
+
+  const handleToggleDigest = async (savedSearch: SavedSearch) => {
+    const digestEnabled = !savedSearch.digestEnabled;
+    setSavedSearches(prev => prev.map(item => (item._id === savedSearch._id ? { ...item, digestEnabled } : item)));
+
+    const response = await updateSavedSearch(savedSearch._id, { digestEnabled });
+    if (!response.success) {
+      setSavedSearches(prev => prev.map(item => (item._id === savedSearch._id ? savedSearch : item)));
+      Alert.alert('Error', handleApiError(response.error) || 'Failed to update saved search');
+    }
+  };
+
+  const handleDeleteSavedSearch = async (savedSearch: SavedSearch) => {
+    setSavedSearches(prev => prev.filter(item => item._id !== savedSearch._id));
+
+    const response = await deleteSavedSearch(savedSearch._id);
+    if (!response.success) {
+      setSavedSearches(prev => [savedSearch, ...prev]);
+      Alert.alert('Error', handleApiError(response.error) || 'Failed to delete saved search');
+    }
+  };
+
   // Handle close with cleanup
   const handleClose = () => {
     setSearchQuery('');
@@ -583,6 +701,10 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
     setShowResults(false);
     setShowFilterModal(false);
     setShowSortModal(false);
+    setShowSaveModal(false);
+    if (routeQuery) {
+      router.setParams({ [SEARCH_QUERY_PARAM]: undefined });
+    }
     onClose();
   };
 
@@ -612,11 +734,9 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
         )}
         <View style={styles.suggestionTextContainer}>
           <Text style={styles.suggestionText}>{suggestion.text}</Text>
-          {suggestion.count && <Text style={styles.suggestionCount}>{suggestion.count} products</Text>}
+          {suggestion.count ? <Text style={styles.suggestionCount}>{suggestion.count} products</Text> : null}
           <Text style={styles.suggestionType}>
-            {suggestion.type === 'product' ? '🛍️ Product' : 
-             suggestion.type === 'brand' ? '🏷️ Brand' : 
-             suggestion.subcategory ? '📂 Subcategory' : '📁 Category'}
+            {SUGGESTION_TYPE_LABELS[suggestion.type] || '📁 Category'}
           </Text>
         </View>
       </View>
@@ -648,6 +768,54 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
     </Modal>
   );
 
+  // ✅ NEW: Name the search and opt in to the new-arrivals digest
+  const renderSaveModal = () => (
+    <Modal visible={showSaveModal} transparent animationType="fade" onRequestClose={() => setShowSaveModal(false)}>
+      <TouchableOpacity style={styles.sortModalOverlay} activeOpacity={1} onPress={() => setShowSaveModal(false)}>
+        <TouchableOpacity style={styles.saveModalContent} activeOpacity={1}>
+          <Text style={styles.sortModalTitle}>Save Search</Text>
+          <TextInput
+            style={styles.saveNameInput}
+            value={saveName}
+            onChangeText={setSaveName}
+            placeholder="Name this search"
+            placeholderTextColor="#999"
+            maxLength={60}
+            autoFocus
+            onSubmitEditing={handleSaveSearch}
+          />
+          <Text style={styles.saveSummary} numberOfLines={2}>
+            "{debouncedQuery}"{activeFiltersCount > 0 ? ` with ${activeFiltersCount} filter${activeFiltersCount !== 1 ? 's' : ''}` : ''}
+          </Text>
+          <View style={styles.saveDigestRow}>
+            <View style={styles.saveDigestText}>
+              <Text style={styles.saveDigestLabel}>Daily new-arrivals digest</Text>
+              <Text style={styles.saveDigestHint}>Get notified when new products match</Text>
+            </View>
+            <Switch
+              value={saveDigest}
+              onValueChange={setSaveDigest}
+              trackColor={{ false: '#ddd', true: '#ff3f6c' }}
+              thumbColor="#fff"
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, (!saveName.trim() || isSavingSearch) && styles.saveButtonDisabled]}
+            onPress={handleSaveSearch}
+            disabled={!saveName.trim() || isSavingSearch}
+            activeOpacity={0.8}
+          >
+            {isSavingSearch ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>SAVE</Text>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+
   if (!visible) return null;
 
   return (
@@ -739,11 +907,20 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
             {showResults && (
               <View style={styles.resultsHeader}>
                 <Text style={styles.resultsCount}>
-                  {filteredProducts.length} product{filteredProducts.length !== 1 ? 's' : ''} found
+                  {results.total} product{results.total !== 1 ? 's' : ''} found
                   {searchQuery.trim() && ` for "${searchQuery}"`}
                 </Text>
                 
                 <View style={styles.resultsActions}>
+                  <TouchableOpacity
+                    style={styles.saveSearchButton}
+                    onPress={openSaveModal}
+                    activeOpacity={0.7}
+                    accessibilityLabel="Save this search"
+                  >
+                    <Bookmark size={16} color="#ff3f6c" />
+                  </TouchableOpacity>
+
                   {activeFiltersCount > 0 && (
                     <TouchableOpacity
                       style={styles.resetFiltersButton}
@@ -777,7 +954,32 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
 
             {/* Content */}
             <ScrollView style={styles.scrollContent} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
-              {isSearching && (
+              {/* Search suggestions */}
+              {searchQuery.trim().length >= 2 && searchSuggestions.length > 0 && (
+                <View style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <Text style={styles.sectionTitle}>Suggestions</Text>
+                  </View>
+                  {searchSuggestions.map((suggestion) => (
+                    <SuggestionItem
+                      key={suggestion.id}
+                      suggestion={suggestion}
+                      onPress={() => handleSuggestionPress(suggestion)}
+                      icon={
+                        suggestion.type === 'product' ? (
+                          <Search size={16} color="#666" />
+                        ) : suggestion.type === 'query' ? (
+                          <TrendingUp size={16} color="#ff3f6c" />
+                        ) : (
+                          <Tag size={16} color="#666" />
+                        )
+                      }
+                    />
+                  ))}
+                </View>
+              )}
+
+              {(isSearching || results.isLoading) && (
                 <View style={styles.loadingContainer}>
                   <ActivityIndicator size="small" color="#ff3f6c" />
                   <Text style={styles.loadingText}>Searching...</Text>
@@ -785,11 +987,11 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
               )}
 
               {/* ✅ NEW: Search Results */}
-              {!isSearching && showResults && (
+              {!isSearching && !results.isLoading && showResults && (
                 <View style={styles.resultsContainer}>
-                  {filteredProducts.length > 0 ? (
+                  {results.items.length > 0 ? (
                     <FlatList
-                      data={filteredProducts}
+                      data={results.items}
                       keyExtractor={(item, index) => `${getProductId(item)}-${index}`}
                       numColumns={layout === 'grid' ? 2 : 1}
                       key={layout}
@@ -805,6 +1007,13 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
                       contentContainerStyle={styles.productsList}
                       showsVerticalScrollIndicator={false}
                       nestedScrollEnabled
+                      onEndReached={results.loadMore}
+                      onEndReachedThreshold={0.5}
+                      ListFooterComponent={
+                        results.isLoadingMore ? (
+                          <ActivityIndicator size="small" color="#ff3f6c" style={styles.loadingMore} />
+                        ) : null
+                      }
                     />
                   ) : (
                     <View style={styles.noResultsContainer}>
@@ -815,26 +1024,55 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
                 </View>
               )}
 
-              {/* Search suggestions */}
-              {!isSearching && searchQuery.trim() && searchSuggestions.length > 0 && !showResults && (
+              {/* ✅ NEW: Saved searches */}
+              {showSuggestions && !searchQuery.trim() && savedSearches.length > 0 && (
                 <View style={styles.section}>
                   <View style={styles.sectionHeader}>
-                    <Text style={styles.sectionTitle}>Suggestions</Text>
+                    <Text style={styles.sectionTitle}>Saved Searches</Text>
                   </View>
-                  {searchSuggestions.map((suggestion) => (
-                    <SuggestionItem
-                      key={suggestion.id}
-                      suggestion={suggestion}
-                      onPress={() => handleSuggestionPress(suggestion)}
-                      icon={
-                        suggestion.type === 'product' ? (
-                          <Search size={16} color="#666" />
-                        ) : (
-                          <Tag size={16} color="#666" />
-                        )
-                      }
-                    />
-                  ))}
+                  {savedSearches.map((savedSearch) => {
+                    const filterCount = getActiveFiltersCount(savedSearch.filters);
+                    return (
+                      <TouchableOpacity
+                        key={savedSearch._id}
+                        style={styles.recentItem}
+                        onPress={() => handleSavedSearchPress(savedSearch)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.recentLeft}>
+                          <Bookmark size={16} color="#ff3f6c" />
+                          <View style={styles.trendingTextContainer}>
+                            <Text style={styles.trendingText} numberOfLines={1}>{savedSearch.name}</Text>
+                            <Text style={styles.suggestionCount} numberOfLines={1}>
+                              {savedSearch.query ? `"${savedSearch.query}"` : 'All products'}
+                              {filterCount > 0 ? ` · ${filterCount} filter${filterCount !== 1 ? 's' : ''}` : ''}
+                            </Text>
+                          </View>
+                          {savedSearch.newCount > 0 && (
+                            <View style={styles.newCountBadge}>
+                              <Text style={styles.newCountText}>{savedSearch.newCount > 99 ? '99+' : savedSearch.newCount} new</Text>
+                            </View>
+                          )}
+                        </View>
+                        <TouchableOpacity
+                          style={styles.savedSearchAction}
+                          onPress={() => handleToggleDigest(savedSearch)}
+                          activeOpacity={0.7}
+                          accessibilityLabel={savedSearch.digestEnabled ? 'Turn off digest' : 'Turn on digest'}
+                        >
+                          {savedSearch.digestEnabled ? <Bell size={16} color="#ff3f6c" /> : <BellOff size={16} color="#999" />}
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.savedSearchAction}
+                          onPress={() => handleDeleteSavedSearch(savedSearch)}
+                          activeOpacity={0.7}
+                          accessibilityLabel="Delete saved search"
+                        >
+                          <Trash2 size={16} color="#999" />
+                        </TouchableOpacity>
+                      </TouchableOpacity>
+                    );
+                  })}
                 </View>
               )}
 
@@ -865,12 +1103,12 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
               )}
 
               {/* Trending searches */}
-              {showSuggestions && !searchQuery.trim() && (
+              {showSuggestions && !searchQuery.trim() && trendingSearches.length > 0 && (
                 <View style={styles.section}>
                   <View style={styles.sectionHeader}>
                     <Text style={styles.sectionTitle}>Trending</Text>
                   </View>
-                  {TRENDING_SEARCHES.map((trend) => (
+                  {trendingSearches.map((trend) => (
                     <TouchableOpacity
                       key={trend.id}
                       style={styles.trendingItem}
@@ -881,7 +1119,9 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
                         <TrendingUp size={16} color="#ff3f6c" />
                         <View style={styles.trendingTextContainer}>
                           <Text style={styles.trendingText}>{trend.text}</Text>
-                          <Text style={styles.trendingCount}>{trend.count} products</Text>
+                          {trend.searchCount ? (
+                            <Text style={styles.trendingCount}>{trend.searchCount} searches this week</Text>
+                          ) : null}
                         </View>
                       </View>
                       <ArrowUpRight size={16} color="#999" />
@@ -902,16 +1142,19 @@ const SearchOverlay: React.FC<SearchOverlayProps> = ({
           onApply={handleApplyFilters}
           currentFilters={filters}
           categories={safeCategories}
-          brands={availableBrands.length > 0 ? availableBrands : Array.from(new Set(safeProducts.map(p => p.brand).filter(Boolean)))}
-          priceRange={priceRange}
-          totalProducts={filteredProducts.length}
-          colors={availableColors.length > 0 ? availableColors : Array.from(new Set(safeProducts.flatMap(p => p.colors || [])))}
-          sizes={availableSizes.length > 0 ? availableSizes : Array.from(new Set(safeProducts.flatMap(p => p.sizes || [])))}
-          products={safeProducts}
+          brands={availableBrands}
+          priceRange={results.extra?.priceRange || priceRange}
+          totalProducts={results.total}
+          colors={availableColors}
+          sizes={availableSizes}
+          facets={results.extra}
         />
 
         {/* ✅ NEW: Sort Modal */}
         {renderSortModal()}
+
+        {/* ✅ NEW: Save Search Modal */}
+        {renderSaveModal()}
       </KeyboardAvoidingView>
     </Modal>
   );
@@ -1042,6 +1285,14 @@ const styles = StyleSheet.create({
     color: '#666',
     marginLeft: 4,
   },
+  saveSearchButton: {
+    padding: 6,
+    marginRight: 8,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
   layoutButton: {
     padding: 8,
     backgroundColor: '#fff',
@@ -1090,6 +1341,9 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
 
   // ✅ NEW: Product card styles
   productCard: {
@@ -1145,6 +1399,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  saleCountdownBadge: {
+    marginBottom: 8,
+  },
   productPrice: {
     fontSize: isTablet ? 18 : 16,
     fontWeight: '700',
@@ -1233,6 +1490,79 @@ const styles = StyleSheet.create({
     fontSize: 16,
   },
 
+  // ✅ NEW: Save search modal + saved search rows
+  saveModalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: isTablet ? 400 : screenWidth - 48,
+  },
+  saveNameInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  saveSummary: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  saveDigestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  saveDigestText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  saveDigestLabel: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+  },
+  saveDigestHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: '#ff3f6c',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  newCountBadge: {
+    backgroundColor: '#ff3f6c',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  newCountText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  savedSearchAction: {
+    padding: 6,
+    marginLeft: 4,
+  },
+
   // Original suggestion styles
   section: {
     paddingHorizontal: isTablet ? 24 : 16,
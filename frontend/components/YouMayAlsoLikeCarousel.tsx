@@ -13,7 +13,7 @@ import {
 import { useAuth } from '@/context/AuthContext';
 
 // ✅ FIXED: Import Product interface from your main types file instead of defining our own
-import { Product } from '@/types/product';
+import { Product, getProductMrp, getProductDiscountPercent } from '@/types/product';
 
 // ✅ UPDATED: Remove the Product interface definition and use the imported one
 interface Recommendation {
@@ -276,11 +276,6 @@ const YouMayAlsoLikeCarousel: React.FC<YouMayAlsoLikeCarouselProps> = ({
   }, [onProductPress, trackProductClick]);
 
   // ✅ Utility functions
-  const calculateDiscountPercentage = useCallback((originalPrice: number, currentPrice: number): number => {
-    if (!originalPrice || originalPrice <= currentPrice) return 0;
-    return Math.round(((originalPrice - currentPrice) / originalPrice) * 100);
-  }, []);
-
   const formatPrice = useCallback((price: number): string => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -335,10 +330,7 @@ const YouMayAlsoLikeCarousel: React.FC<YouMayAlsoLikeCarouselProps> = ({
       return null;
     }
 
-    const discountPercentage = calculateDiscountPercentage(
-      product.originalPrice || 0,
-      product.price
-    );
+    const discountPercentage = getProductDiscountPercent(product);
 
     return (
       <TouchableOpacity
@@ -387,9 +379,9 @@ const YouMayAlsoLikeCarousel: React.FC<YouMayAlsoLikeCarouselProps> = ({
             <Text style={styles.currentPrice}>
               {formatPrice(product.price)}
             </Text>
-            {product.originalPrice && product.originalPrice > product.price && (
+            {discountPercentage > 0 && (
               <Text style={styles.originalPrice}>
-                {formatPrice(product.originalPrice)}
+                {formatPrice(getProductMrp(product))}
               </Text>
             )}
           </View>
@@ -406,7 +398,7 @@ const YouMayAlsoLikeCarousel: React.FC<YouMayAlsoLikeCarouselProps> = ({
         </View>
       </TouchableOpacity>
     );
-  }, [calculateDiscountPercentage, formatPrice, getImageUrl, handleProductPress]);
+  }, [formatPrice, getImageUrl, handleProductPress]);
 
   // ✅ Error State Render
   if (error && !loading) {
@@ -24,3 +24,15 @@ export const Colors = {
     tabIconSelected: tintColorDark,
   },
 };
+
+// ✅ NEW: Order status badges (admin order screens)
+export const OrderStatusColors = {
+  Pending: '#ff9800',
+  Confirmed: '#2196f3',
+  Processing: '#673ab7',
+  Shipped: '#00bcd4',
+  Delivered: '#4caf50',
+  Cancelled: '#f44336',
+  Returned: '#795548',
+  Refunded: '#607d8b',
+};
@@ -1,6 +1,6 @@
 // frontend/context/AuthContext.tsx
 import { createContext, useContext, useEffect, useState } from "react";
-import { getUserData, saveUserData, clearUserData } from "@/utils/storage";
+import { getUserData, saveUserData, clearUserData, getAuthTokens, saveAuthTokens } from "@/utils/storage";
 import { 
   getUserWishlist, 
   getUserBag, 
@@ -8,7 +8,9 @@ import {
   getBagSummary,
   applyCoupon,
   removeCoupon,
-  addToBag
+  addToBag,
+  logoutUser,
+  setAuthEventHandlers
 } from "@/utils/api";
 
 // ✅ NEW: Import address API functions
@@ -24,7 +26,7 @@ import {
 
 import React from "react";
 import axios from "axios";
-import { BagItem, WishlistItem, BagSummaryData, CouponResponseData, Address } from "@/types/product";
+import { BagItem, WishlistItem, BagSummaryData, CouponResponseData, Address, AuthTokens, UserRole } from "@/types/product";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:5000";
 
@@ -37,8 +39,9 @@ type CouponOperationResult = {
 // ✅ ENHANCED: Updated AuthContextType with address management
 type AuthContextType = {
   isAuthenticated: boolean;
-  user: { _id: string; name: string; email: string } | null;
+  user: { _id: string; name: string; email: string; role: UserRole } | null;
   isLoading: boolean;
+  accessToken: string | null; // ✅ NEW: JWT access token (kept in sync with refreshes)
   
   // Auth methods
   Signup: (fullName: string, email: string, password: string) => Promise<void>;
@@ -120,7 +123,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [user, setUser] = useState<{ _id: string; name: string; email: string } | null>(null);
+  const [user, setUser] = useState<{ _id: string; name: string; email: string; role: UserRole } | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
 
   // Existing state
   const [wishlistItems, setWishlistItems] = useState<Map<string, WishlistItem>>(new Map());
@@ -159,6 +163,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     checkStoredUser();
   }, []);
 
+  // ✅ NEW: Mirror token refreshes from the API layer and force logout when refresh fails
+  useEffect(() => {
+    setAuthEventHandlers({
+      onTokensRefreshed: (tokens) => setAccessToken(tokens.accessToken),
+      onAuthFailure: () => {
+        console.warn("🔒 Session expired - logging out");
+        endSession(false);
+      },
+    });
+    return () => setAuthEventHandlers({});
+  }, []);
+
   useEffect(() => {
     if (user) {
       refreshUserPreferences();
@@ -178,10 +194,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const checkStoredUser = async () => {
     try {
-      const data = await getUserData();
-      if (data._id && data.name && data.email) {
-        setUser({ _id: data._id, name: data.name, email: data.email });
+      const [data, tokens] = await Promise.all([getUserData(), getAuthTokens()]);
+      if (data._id && data.name && data.email && tokens.refreshToken) {
+        setUser({ _id: data._id, name: data.name, email: data.email, role: data.role === 'admin' ? 'admin' : 'user' });
+        setAccessToken(tokens.accessToken);
         setIsAuthenticated(true);
+      } else if (data._id) {
+        // Stored user without a session (pre-JWT install) - make them sign in again
+        await clearUserData();
       }
     } catch (error) {
       console.error("Error checking stored user:", error);
@@ -640,6 +660,20 @@ const deleteAddressWithSync = async (addressId: string) => {
     });
   };
 
+  // ✅ NEW: Persist user + JWT pair after login/signup
+  const startSession = async (
+    sessionUser: { _id: string; name: string; email: string; role: UserRole },
+    tokens: AuthTokens
+  ) => {
+    await Promise.all([
+      saveUserData(sessionUser._id, sessionUser.name, sessionUser.email, sessionUser.role),
+      saveAuthTokens(tokens.accessToken, tokens.refreshToken),
+    ]);
+    setAccessToken(tokens.accessToken);
+    setUser(sessionUser);
+    setIsAuthenticated(true);
+  };
+
   // Auth methods (keeping existing implementation)
   const login = async (email: string, password: string) => {
     try {
@@ -650,12 +684,10 @@ const deleteAddressWithSync = async (addressId: string) => {
         password,
       });
 
-      if (response.data?.data) {
-        const { _id, fullName, email } = response.data.data;
+      if (response.data?.data && response.data?.tokens) {
+        const { _id, fullName, email, role } = response.data.data;
         
-        await saveUserData(_id, fullName, email);
-        setUser({ _id, name: fullName, email });
-        setIsAuthenticated(true);
+        await startSession({ _id, name: fullName, email, role: role === 'admin' ? 'admin' : 'user' }, response.data.tokens);
       } else {
         throw new Error("Invalid response from server");
       }
@@ -683,12 +715,10 @@ const deleteAddressWithSync = async (addressId: string) => {
         password,
       });
 
-      if (response.data?.data) {
-        const { _id, fullName, email } = response.data.data;
+      if (response.data?.data && response.data?.tokens) {
+        const { _id, fullName, email, role } = response.data.data;
         
-        await saveUserData(_id, fullName, email);
-        setUser({ _id, name: fullName, email });
-        setIsAuthenticated(true);
+        await startSession({ _id, name: fullName, email, role: role === 'admin' ? 'admin' : 'user' }, response.data.tokens);
       } else {
         throw new Error("Invalid response from server");
       }
@@ -706,10 +736,15 @@ const deleteAddressWithSync = async (addressId: string) => {
     }
   };
 
-  const logout = async () => {
+  // revokeSession=false when the server already rejected our tokens
+  const endSession = async (revokeSession: boolean) => {
     try {
+      if (revokeSession) {
+        await logoutUser().catch(err => console.warn("Server logout failed:", err));
+      }
       await clearUserData();
       setUser(null);
+      setAccessToken(null);
       setIsAuthenticated(false);
       
       // ✅ ENHANCED: Complete cleanup including addresses
@@ -733,6 +768,8 @@ const deleteAddressWithSync = async (addressId: string) => {
     }
   };
 
+  const logout = () => endSession(true);
+
   const forgotPassword = async (email: string): Promise<{ message: string; resetToken?: string }> => {
     try {
       const response = await axios.post(`${API_BASE_URL}/api/user/forgot-password`, {
@@ -770,6 +807,7 @@ const deleteAddressWithSync = async (addressId: string) => {
         isAuthenticated,
         user,
         isLoading,
+        accessToken,
         Signup,
         login,
         logout,
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+
+export interface Countdown {
+  remainingMs: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  isOver: boolean;
+}
+
+// One shared one-second ticker for every countdown on screen
+const listeners = new Set<() => void>();
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!ticker) ticker = setInterval(() => listeners.forEach(notify => notify()), 1000);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && ticker) {
+      clearInterval(ticker);
+      ticker = null;
+    }
+  };
+};
+
+const toCountdown = (endsAt: number): Countdown => {
+  const remainingMs = Math.max(0, endsAt - Date.now());
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  return {
+    remainingMs,
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+    isOver: remainingMs === 0,
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// "2d 04h" for long sales, "04:12:09" inside the last day
+export const formatCountdown = ({ days, hours, minutes, seconds }: Countdown): string =>
+  days > 0 ? `${days}d ${pad(hours)}h` : `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+
+/**
+ * Time left until `endsAt`, re-rendering every second until it is over.
+ * Returns null when there is no end time.
+ */
+export function useCountdown(endsAt?: string | null): Countdown | null {
+  const target = endsAt ? new Date(endsAt).getTime() : NaN;
+  const [countdown, setCountdown] = useState<Countdown | null>(() =>
+    Number.isNaN(target) ? null : toCountdown(target)
+  );
+
+  useEffect(() => {
+    if (Number.isNaN(target)) {
+      setCountdown(null);
+      return;
+    }
+
+    const update = () => setCountdown(toCountdown(target));
+    update();
+    if (target <= Date.now()) return;
+
+    const unsubscribe = subscribe(() => {
+      update();
+      if (target <= Date.now()) unsubscribe();
+    });
+    return unsubscribe;
+  }, [target]);
+
+  return countdown;
+}
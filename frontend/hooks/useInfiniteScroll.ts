@@ -0,0 +1,210 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+
+export interface InfinitePage<T, E = undefined> {
+  items: T[];
+  nextCursor: string | null;
+  total?: number;
+  // Page-level data the screen needs alongside the items (facets, filter options)
+  extra?: E;
+}
+
+export type InfinitePageFetcher<T, E = undefined> = (
+  cursor: string | null,
+  signal: AbortSignal
+) => Promise<InfinitePage<T, E>>;
+
+export interface InfiniteScrollState<T, E = undefined> {
+  items: T[];
+  total: number;
+  extra: E | undefined;
+  hasMore: boolean;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  loadMore: () => void;
+  refresh: () => Promise<void>;
+}
+
+interface Prefetch<T, E> {
+  cursor: string;
+  promise: Promise<InfinitePage<T, E>>;
+}
+
+/**
+ * Cursor-paginated list for product grids (category, brand, search).
+ * Reloads from the first page whenever `deps` change, prefetches the next page as soon as
+ * one arrives, and drops items already shown (by `getKey`) when products move between pages.
+ * `fetchPage` throws on failure; it may change every render - the latest one is used.
+ */
+export function useInfiniteScroll<T, E = undefined>(
+  fetchPage: InfinitePageFetcher<T, E>,
+  options: { deps: DependencyList; getKey: (item: T) => string; enabled?: boolean; prefetch?: boolean }
+): InfiniteScrollState<T, E> {
+  const { deps, enabled = true, prefetch = true } = options;
+
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [extra, setExtra] = useState<E | undefined>(undefined);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest callbacks without reloading on every render
+  const fetchPageRef = useRef(fetchPage);
+  const getKeyRef = useRef(options.getKey);
+  useEffect(() => {
+    fetchPageRef.current = fetchPage;
+    getKeyRef.current = options.getKey;
+  });
+
+  // Bumped on every reload - responses from an older generation are ignored
+  const generationRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+  const cursorRef = useRef<string | null>(null);
+  const seenKeysRef = useRef(new Set<string>());
+  const prefetchRef = useRef<Prefetch<T, E> | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  const request = (cursor: string | null) => {
+    const controller = controllerRef.current ?? new AbortController();
+    return fetchPageRef.current(cursor, controller.signal);
+  };
+
+  const startPrefetch = (cursor: string | null) => {
+    prefetchRef.current = null;
+    if (!prefetch || !cursor) return;
+
+    const promise = request(cursor);
+    promise.catch(() => {}); // surfaced when the page is actually needed
+    prefetchRef.current = { cursor, promise };
+  };
+
+  const applyPage = (page: InfinitePage<T, E>, replace: boolean) => {
+    if (replace) seenKeysRef.current = new Set();
+
+    const fresh = page.items.filter(item => {
+      const key = getKeyRef.current(item);
+      if (seenKeysRef.current.has(key)) return false;
+      seenKeysRef.current.add(key);
+      return true;
+    });
+
+    setItems(prev => (replace ? fresh : [...prev, ...fresh]));
+    if (page.total !== undefined) setTotal(page.total);
+    if (replace || page.extra !== undefined) setExtra(page.extra);
+
+    cursorRef.current = page.nextCursor;
+    setNextCursor(page.nextCursor);
+    startPrefetch(page.nextCursor);
+  };
+
+  const loadFirstPage = async (mode: 'initial' | 'refresh') => {
+    const generation = ++generationRef.current;
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    prefetchRef.current = null;
+    loadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    setError(null);
+
+    if (mode === 'refresh') {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      const page = await request(null);
+      if (generation !== generationRef.current) return;
+      applyPage(page, true);
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      console.error('❌ Failed to load first page:', err);
+      setError(err?.message || 'Failed to load products');
+      if (mode === 'initial') {
+        setItems([]);
+        setTotal(0);
+        cursorRef.current = null;
+        setNextCursor(null);
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  };
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    // ✅ Use the prefetched page when it's for this cursor
+    const pending = prefetchRef.current?.cursor === cursor ? prefetchRef.current.promise : request(cursor);
+    prefetchRef.current = null;
+
+    try {
+      const page = await pending;
+      if (generation !== generationRef.current) return;
+      applyPage(page, false);
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      // The cursor is kept, so scrolling again retries
+      console.error('❌ Failed to load next page:', err);
+      setError(err?.message || 'Failed to load more products');
+    } finally {
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, []);
+
+  const refresh = useCallback(() => loadFirstPage('refresh'), []);
+
+  useEffect(() => {
+    if (!enabled) {
+      generationRef.current++;
+      controllerRef.current?.abort();
+      prefetchRef.current = null;
+      cursorRef.current = null;
+      seenKeysRef.current = new Set();
+      setItems([]);
+      setTotal(0);
+      setExtra(undefined);
+      setNextCursor(null);
+      setIsLoading(false);
+      setIsLoadingMore(false);
+      loadingMoreRef.current = false;
+      return;
+    }
+    loadFirstPage('initial');
+  }, [enabled, ...deps]);
+
+  useEffect(() => {
+    return () => {
+      generationRef.current++;
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    items,
+    total,
+    extra,
+    hasMore: !!nextCursor,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    loadMore,
+    refresh,
+  };
+}
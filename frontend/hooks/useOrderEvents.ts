@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { OrderEvent } from '@/types/product';
+import { OrderEventsConnectionState, subscribeToOrderEvents } from '@/utils/orderEvents';
+
+/**
+ * Subscribes to the signed-in user's live order updates while `enabled`.
+ * `onPoll` is the REST fallback - called periodically while the stream is down
+ * and once after a reconnect to pick up anything that was missed.
+ */
+export function useOrderEvents(
+  onEvent: (event: OrderEvent) => void,
+  options: { enabled?: boolean; onPoll?: () => void; pollIntervalMs?: number; scope?: 'user' | 'all' } = {}
+): OrderEventsConnectionState {
+  const { enabled = true, pollIntervalMs, scope } = options;
+  const [connectionState, setConnectionState] = useState<OrderEventsConnectionState>('closed');
+
+  // Latest callbacks without reopening the stream on every render
+  const onEventRef = useRef(onEvent);
+  const onPollRef = useRef(options.onPoll);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onPollRef.current = options.onPoll;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setConnectionState('closed');
+      return;
+    }
+
+    return subscribeToOrderEvents({
+      onEvent: event => onEventRef.current(event),
+      onPoll: () => onPollRef.current?.(),
+      onStateChange: setConnectionState,
+      pollIntervalMs,
+      scope,
+    });
+  }, [enabled, pollIntervalMs, scope]);
+
+  return connectionState;
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
+
+import { FilterState } from '@/types/product';
+import {
+  decodeFilterParams,
+  encodeFilterParams,
+  FILTER_PARAM_NAMES,
+  filterParamsKey,
+  RouteParams,
+} from '@/utils/filterParams';
+import { getListingFilters, saveListingFilters } from '@/utils/storage';
+
+type FiltersUpdate = FilterState | ((prev: FilterState) => FilterState);
+
+/**
+ * Filter and sort state stored in the current route's search params instead of component
+ * state, so a filtered listing survives back/forward and can be shared or deep-linked.
+ * Works like `useState`; the returned filters object only changes when the filters do.
+ *
+ * The last state of each listing is also saved on the device under `listingKey` (e.g.
+ * `category:<id>`): opening the listing again without filter params - e.g. after a relaunch -
+ * restores it. Screens stay mounted behind the focused one, so only the focused screen
+ * restores or saves.
+ */
+export function useRouteFilters(listingKey: string): [FilterState, (update: FiltersUpdate) => void] {
+  const params = useLocalSearchParams() as RouteParams;
+  const router = useRouter();
+  const isFocused = useIsFocused();
+
+  const decoded = decodeFilterParams(params);
+  const key = filterParamsKey(decoded);
+  const filters = useMemo(() => decoded, [key]);
+
+  // Functional updates chain off the latest filters, even before the route re-renders
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  const setFilters = useCallback((update: FiltersUpdate) => {
+    const next = typeof update === 'function' ? update(filtersRef.current) : update;
+    filtersRef.current = next;
+    router.setParams(encodeFilterParams(next));
+  }, [router]);
+
+  // Restore the saved state once per listing, only when the route brought no filters of its own.
+  // Saving waits for this so the unfiltered first render can't overwrite what was saved.
+  const [restoredKey, setRestoredKey] = useState<string | null>(null);
+  const restored = restoredKey === listingKey;
+  const hasRouteFilters = FILTER_PARAM_NAMES.some(name => params[name] !== undefined);
+
+  useEffect(() => {
+    if (!isFocused || restored) return;
+    if (hasRouteFilters) {
+      setRestoredKey(listingKey);
+      return;
+    }
+
+    let cancelled = false;
+    getListingFilters(listingKey).then(saved => {
+      if (cancelled) return;
+      // Filters the user set while the read was in flight win over the saved ones
+      if (saved && !filterParamsKey(filtersRef.current)) {
+        router.setParams(encodeFilterParams(decodeFilterParams(saved)));
+      }
+      setRestoredKey(listingKey);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only on first focusing the listing - later param changes are the user's own
+  }, [isFocused, listingKey, restored]);
+
+  useEffect(() => {
+    if (!isFocused || !restored) return;
+    saveListingFilters(listingKey, key ? encodeFilterParams(filters) : null);
+  }, [isFocused, restored, listingKey, key]);
+
+  return [filters, setFilters];
+}
@@ -6,16 +6,19 @@ export interface Product {
   _id: string;
   name: string;
   brand: string;
-  price: number;
-  originalPrice?: number;
-  discount?: string;
+  price: number; // ✅ Effective selling price
+  pricing?: ProductPricing;
+  flashSale?: ProductFlashSale; // ✅ Live flash sale - already applied to price
+  discount?: string; // Derived "40% OFF" label - use pricing.discountPercent for numbers
   description?: string;
   images: string[];
   category?: {
     _id: string;
     name: string;
+    slug?: string;
     subcategory: string[];
   };
+  categoryPath?: string[]; // ✅ Category ids, root first
   categoryName?: string;
   subcategory?: string;
   rating?: number;
@@ -30,19 +33,198 @@ export interface Product {
   isFeatured?: boolean;
   stock?: number;
   colors?: string[];
+  skus?: ProductSku[];
+  sizeAvailability?: SizeAvailability[] | null; // ✅ Product detail only; null = stock not tracked
+  breadcrumbs?: CategoryBreadcrumb[]; // ✅ Product detail only
+  sale?: ProductSaleDetails | null; // ✅ Product detail only
+}
+
+// ✅ NEW: Per size/color stock-keeping unit
+export interface ProductSku {
+  sku: string;
+  size: string;
+  color: string;
+  stock: number;
+}
+
+// ✅ NEW: Structured pricing - sellingPrice applies inside the effective window, MRP outside it
+export interface ProductPricing {
+  mrp: number;
+  sellingPrice: number;
+  discountPercent: number;
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+}
+
+// ✅ NEW: Flash sale snapshot on a product (ends at endsAt, or earlier if the sale sells out)
+export interface ProductFlashSale {
+  saleId: string;
+  name: string;
+  discountPercent: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+// ✅ NEW: Flash sale details on the product page
+export interface ProductSaleDetails {
+  saleId: string;
+  name: string;
+  discountPercent: number;
+  endsAt: string;
+  regularPrice: number;
+  remainingQuantity: number | null; // null = no quantity cap
+}
+
+// ✅ NEW: Time-boxed sale event (GET /api/sales)
+export interface SaleEvent {
+  _id: string;
+  name: string;
+  description: string | null;
+  bannerImage: string | null;
+  discountPercent: number;
+  startsAt: string;
+  endsAt: string;
+  quantityCap: number | null;
+  remainingQuantity: number | null;
+  isLive: boolean;
+  products?: Product[]; // live sales only
+}
+
+export interface SalesOverview {
+  live: SaleEvent[];
+  upcoming: SaleEvent[];
+}
+
+export interface PriceHistoryPoint {
+  price: number;
+  mrp: number | null;
+  changedAt: string;
+}
+
+export interface ProductPriceHistory {
+  productId: string;
+  days: number;
+  currentPrice: number;
+  mrp: number;
+  discountPercent: number;
+  lowestPrice: number;
+  highestPrice: number;
+  history: PriceHistoryPoint[];
+}
+
+export interface SizeAvailability {
+  size: string;
+  available: number;
+  soldOut: boolean;
+  lowStock: boolean;
+  colors: { color: string; available: number }[];
 }
 
 export interface Category {
   _id: string;
   name: string;
-  subcategory: string[];
+  slug?: string;
+  parent?: string | null; // ✅ null = top level
+  ancestors?: string[]; // ✅ Root first
+  order?: number;
+  subcategory: string[]; // Legacy child names - use children / getCategoryTree
   image: string;
   productId?: Product[];
-  productCount?: number;
+  productCount?: number; // Includes products in subcategories
   createdAt?: string;
   updatedAt?: string;
   isPopular?: boolean;
   description?: string;
+  path?: CategoryBreadcrumb[]; // ✅ Category detail only
+  children?: CategoryChild[]; // ✅ Category detail only
+}
+
+// ✅ NEW: Category taxonomy - one breadcrumb step, root first
+export interface CategoryBreadcrumb {
+  _id: string;
+  name: string;
+  slug: string;
+}
+
+export interface CategoryChild extends CategoryBreadcrumb {
+  image?: string;
+  order: number;
+}
+
+export interface CategoryTreeNode {
+  _id: string;
+  name: string;
+  slug: string;
+  image: string | null;
+  order: number;
+  parent: string | null;
+  level: number; // 0 = top level
+  productCount: number; // Includes every subcategory
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryPathData {
+  path: CategoryBreadcrumb[];
+  children: CategoryChild[];
+}
+
+// ============================================================================
+// BRAND INTERFACES
+// ============================================================================
+
+// ✅ NEW: Brand pages - products link to a brand by name (Product.brand)
+export interface Brand {
+  _id: string;
+  name: string;
+  slug: string;
+  logo: string;
+  banner: string;
+  description: string;
+  country: string;
+  followerCount: number;
+  productCount?: number; // Brand directory only
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface BrandCategoryCount extends CategoryBreadcrumb {
+  count: number;
+}
+
+export interface BrandDetail extends Brand {
+  productCount: number;
+  priceRange: PriceRange;
+  categories: BrandCategoryCount[];
+  isFollowing: boolean; // Always false when signed out
+}
+
+export interface FollowedBrand extends Brand {
+  followedAt: string;
+}
+
+export type BrandSummary = Pick<Brand, '_id' | 'name' | 'slug' | 'logo'>;
+
+export type BrandSortOption = 'name' | 'followers' | 'products';
+export type BrandProductSortOption = 'popularity' | 'price_asc' | 'price_desc' | 'rating' | 'newest';
+
+export interface BrandProductFilters {
+  sortBy?: BrandProductSortOption;
+  categoryId?: string;
+  sizes?: string[];
+  colors?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  rating?: number;
+  discount?: number;
+  inStock?: boolean;
+  isNew?: boolean;
+  isBestseller?: boolean;
+}
+
+export interface BrandFollowResult {
+  brandId: string;
+  isFollowing: boolean;
+  followerCount: number;
 }
 
 // ============================================================================
@@ -87,12 +269,25 @@ export interface Review {
   rating: number;
   title?: string;
   comment: string;
-  helpful: number;
+  helpfulCount: number;
   verified: boolean;
   createdAt: string;
   updatedAt?: string;
   images?: string[];
   size?: string;
+  // Whether the signed-in user marked it helpful (false when signed out)
+  isHelpful?: boolean;
+}
+
+export type ReviewSortOption = 'recent' | 'helpful' | 'rating_high' | 'rating_low';
+
+export interface CreateReviewData {
+  productId: string;
+  rating: number;
+  title?: string;
+  comment?: string;
+  images?: string[];
+  size?: string;
 }
 
 // ============================================================================
@@ -155,8 +350,9 @@ export interface SearchResult extends Product {
 export interface SearchSuggestion {
   id: string;
   text: string;
-  type: 'product' | 'brand' | 'category' | 'recent' | 'trending' | 'filter';
+  type: 'product' | 'brand' | 'category' | 'subcategory' | 'query' | 'recent' | 'trending' | 'filter';
   count?: number;
+  searchCount?: number; // ✅ 'query' suggestions: times searched recently
   image?: string;
   categoryId?: string;
   categoryName?: string;
@@ -167,6 +363,37 @@ export interface SearchSuggestion {
   priority?: number;
 }
 
+// ✅ Filter values a category offers, independent of the filters applied
+// (GET /api/product/category/:id → filters.options)
+export interface ProductFilterOptions {
+  brands: string[];
+  sizes: string[];
+  colors: string[];
+  priceRange: PriceRange;
+}
+
+// ✅ Server-computed facet counts returned by /api/product/search/:query
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface PriceBucketFacet {
+  label: string;
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface SearchFacets {
+  brands: FacetCount[];
+  priceRanges: PriceBucketFacet[];
+  priceRange: PriceRange;
+  sizes: FacetCount[];
+  colors: FacetCount[];
+  ratings: FacetCount<number>[];
+}
+
 // ============================================================================
 // ENHANCED SEARCH WITH FILTERS INTERFACES
 // ============================================================================
@@ -331,6 +558,164 @@ export interface BagItem {
   addedFrom?: string;
   appliedCoupon?: string;
   discountAmount?: number;
+  saleIdWhenAdded?: string | null; // ✅ Flash sale the item was added under
+  // ✅ Computed by GET /api/bag/:userid
+  inStock?: boolean;
+  availableStock?: number | null;
+  priceChanged?: boolean;
+  currentPrice?: number;
+  priceDifference?: number;
+  saleEnded?: boolean; // ✅ Added at a sale price whose sale has since ended
+  promotionDiscount?: number; // ✅ This line's share of the automatic promotions
+  promotions?: BagItemPromotion[];
+}
+
+// ✅ NEW: Automatic promotions - applied by the server to the bag and the order, no code needed
+export type PromotionType = 'buy_x_get_y' | 'quantity_discount' | 'spend_threshold' | 'bundle';
+
+export interface BagItemPromotion {
+  promotionId: string;
+  name: string;
+  discount: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  label: string; // "Buy 2 Get 1 Free", "₹300 Off on ₹2999+"
+  type: PromotionType;
+  discount: number;
+  // Bag lines the promotion used, including full-price "buy" units
+  items: { itemId: string; productId: string; quantity: number; discount: number }[];
+}
+
+export interface OrderPromotion extends Omit<AppliedPromotion, 'items'> {
+  items: { productId: string; quantity: number; discount: number }[];
+}
+
+// ✅ NEW: Bag items moved to their new price when checkout found their sale had ended
+export interface RepricedBagItem {
+  itemId: string;
+  productId: string;
+  productName: string;
+  previousPrice: number;
+  currentPrice: number;
+}
+
+// ✅ NEW: Checkout stock hold
+export interface StockReservation {
+  items: { productId: string; size: string; color: string; quantity: number }[];
+  expiresAt: string;
+  ttlSeconds: number;
+}
+
+export interface StockIssue {
+  productId?: string;
+  itemId?: string;
+  productName?: string;
+  size?: string;
+  color?: string;
+  requestedQuantity?: number;
+  availableStock?: number | null;
+  issue: string;
+}
+
+// ✅ NEW: Online payment attempt for an order (card/UPI details go to the provider, never our API)
+export type PaymentIntentStatus = 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface PaymentIntent {
+  intentId: string;
+  orderId: string;
+  provider: string;
+  clientSecret?: string;
+  amount: number;
+  currency: string;
+  method: string;
+  status: PaymentIntentStatus;
+  transactionId?: string;
+  failureReason?: string;
+  refundedAmount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ✅ NEW: Returns & exchanges
+export type ReturnType = 'return' | 'exchange';
+
+export type ReturnRequestStatus =
+  | 'Requested'
+  | 'Approved'
+  | 'Rejected'
+  | 'Cancelled'
+  | 'Picked Up'
+  | 'Refunded'
+  | 'Exchanged';
+
+export interface ReturnReason {
+  code: string;
+  label: string;
+}
+
+export interface ReturnOptions {
+  reasons: ReturnReason[];
+  pickupTimeSlots: string[];
+  returnWindowDays: number;
+}
+
+export interface ReturnItemRequest {
+  itemId: string;
+  quantity: number;
+  type: ReturnType;
+  reasonCode: string;
+  comments?: string;
+  exchangeSize?: string;
+}
+
+export interface CreateReturnData {
+  items: ReturnItemRequest[];
+  addressId: string;
+  scheduledDate: string;
+  timeSlot: string;
+}
+
+export interface ReturnRequest {
+  returnId: string;
+  type: ReturnType;
+  status: ReturnRequestStatus;
+  items: {
+    itemId: string;
+    productId: string;
+    quantity: number;
+    size?: string;
+    color?: string;
+    exchangeSize?: string;
+    reasonCode: string;
+    comments?: string;
+    refundAmount: number;
+  }[];
+  pickup: {
+    addressId?: string;
+    address: {
+      fullName: string;
+      phone: string;
+      addressLine1: string;
+      addressLine2?: string;
+      city: string;
+      state: string;
+      pincode: string;
+    };
+    scheduledDate: string;
+    timeSlot: string;
+    pickedUpAt?: string;
+  };
+  refundAmount: number;
+  history: {
+    status: string;
+    timestamp: string;
+    note?: string;
+    updatedBy: string;
+  }[];
+  createdAt?: string;
 }
 
 export interface WishlistItem {
@@ -341,6 +726,106 @@ export interface WishlistItem {
   priority?: 'low' | 'medium' | 'high';
   notes?: string;
   priceAlertEnabled?: boolean;
+  originalPrice?: number;
+  lastAlertedPrice?: number | null;
+  priceDrop?: PriceDrop | null;
+}
+
+// ✅ NEW: Current price vs. the price when the item was wishlisted
+export interface PriceDrop {
+  amount: number;
+  percentage: number;
+  originalPrice: number;
+  currentPrice: number;
+}
+
+export interface WishlistItemUpdate {
+  priority?: 'low' | 'medium' | 'high';
+  notes?: string;
+  priceAlertEnabled?: boolean;
+}
+
+// ✅ NEW: In-app notifications (/api/notifications)
+export type NotificationType = 'price_drop' | 'back_in_stock' | 'saved_search';
+
+export interface PriceDropNotificationItem {
+  productId: string;
+  name: string;
+  brand?: string;
+  image?: string | null;
+  previousPrice: number;
+  currentPrice: number;
+  dropAmount: number;
+  dropPercentage: number;
+}
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: { items?: PriceDropNotificationItem[]; searches?: SavedSearchDigestEntry[] } & Partial<BackInStockNotificationData>;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// ✅ NEW: Back-in-stock "notify me" subscriptions
+export interface BackInStockNotificationData {
+  productId: string;
+  name: string;
+  brand?: string;
+  image?: string | null;
+  price?: number;
+  size: string;
+  color: string;
+}
+
+export type StockSubscriptionStatus = 'active' | 'notified' | 'cancelled';
+
+export interface StockSubscription {
+  _id: string;
+  productId: Pick<Product, '_id' | 'name' | 'brand' | 'price' | 'discount' | 'images'>;
+  size: string;
+  color: string;
+  status: StockSubscriptionStatus;
+  notifiedAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+// ✅ NEW: Saved searches (/api/saved-searches)
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  query: string;
+  filters: FilterState;
+  // Products added since the search was last opened
+  newCount: number;
+  lastViewedAt: string;
+  digestEnabled: boolean;
+  digestFrequency: DigestFrequency;
+  lastDigestAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  query?: string;
+  filters?: FilterState;
+  digestEnabled?: boolean;
+  digestFrequency?: DigestFrequency;
+}
+
+export interface SavedSearchDigestEntry {
+  savedSearchId: string;
+  name: string;
+  query: string;
+  newCount: number;
+  products: { productId: string; name: string; brand?: string; price: number; image?: string | null }[];
 }
 
 export interface Order {
@@ -360,6 +845,336 @@ export interface Order {
   estimatedDelivery?: string;
 }
 
+// ✅ NEW: Shipment tracking (GET /api/order/track/:trackingnumber)
+export interface TrackingTimelineEvent {
+  status: string;
+  location: string;
+  timestamp: string;
+  description?: string;
+  updatedBy?: string;
+}
+
+export interface TrackingDetails {
+  number: string;
+  carrier: string;
+  estimatedDelivery: string;
+  actualDelivery?: string | null;
+  currentLocation: string;
+  status: string;
+  timeline: TrackingTimelineEvent[];
+  deliveryAttempts: number;
+  deliveryInstructions?: string;
+  recipientName?: string;
+}
+
+export interface OrderTrackingData {
+  _id: string;
+  orderId: string;
+  status: string;
+  orderDate: string;
+  tracking: TrackingDetails;
+  shippingAddress: { city: string; state: string; pincode: string };
+  itemCount: number;
+  items: { _id: string; name: string; brand: string; image?: string; size?: string; quantity: number }[];
+  estimatedDelivery?: string;
+  lastUpdate?: TrackingTimelineEvent;
+}
+
+// ✅ NEW: Admin order management (/api/admin/orders)
+export type OrderStatus =
+  | 'Pending'
+  | 'Confirmed'
+  | 'Processing'
+  | 'Shipped'
+  | 'Delivered'
+  | 'Cancelled'
+  | 'Returned'
+  | 'Refunded';
+
+// ✅ NEW: Live order updates pushed over /api/order/events
+export type OrderEventType = 'status' | 'cancelled' | 'refund' | 'payment' | 'tracking' | 'return';
+
+export interface OrderEvent {
+  id: number;
+  type: OrderEventType;
+  _id: string;
+  orderId: string;
+  userId: string;
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  payment: { method: string; status: string; paidAmount: number; refundAmount: number };
+  tracking: {
+    number: string;
+    carrier: string;
+    status: string;
+    currentLocation: string;
+    estimatedDelivery: string;
+    actualDelivery?: string | null;
+  } | null;
+  items: { _id: string; status: string; returnStatus?: string }[];
+  actualDeliveryDate: string | null;
+  updatedAt: string;
+  reason?: string;
+  refundAmount?: number;
+  returnId?: string;
+  returnStatus?: string;
+}
+
+export interface AdminOrderSummary {
+  _id: string;
+  orderId: string;
+  status: OrderStatus;
+  orderDate: string;
+  updatedAt: string;
+  customer: { _id: string; fullName: string; email: string } | null;
+  itemCount: number;
+  total: number;
+  payment: { method: string; status: string };
+  carrier: string;
+  trackingNumber: string;
+  trackingStatus: string;
+  shippingCity?: string;
+  allowedTransitions: OrderStatus[];
+}
+
+export interface AdminOrderDetails {
+  _id: string;
+  orderId: string;
+  status: OrderStatus;
+  orderDate: string;
+  userId: { _id: string; fullName: string; email: string } | null;
+  items: {
+    _id: string;
+    productId: { _id: string; name: string; brand: string; images?: string[] } | null;
+    size?: string;
+    color?: string;
+    quantity: number;
+    price: number;
+    status: string;
+  }[];
+  itemCount: number;
+  pricing: { subtotal: number; discount: number; shipping: number; tax: number; total: number };
+  payment: { method: string; status: string; paidAmount?: number; refundAmount?: number; transactionId?: string };
+  shippingAddress: {
+    fullName: string;
+    phone: string;
+    addressLine1: string;
+    addressLine2?: string;
+    city: string;
+    state: string;
+    pincode: string;
+  };
+  tracking: TrackingDetails;
+  allowedTransitions: OrderStatus[];
+}
+
+export interface AdminOrderOptions {
+  statuses: OrderStatus[];
+  transitions: Record<OrderStatus, OrderStatus[]>;
+  carriers: string[];
+  carrierScanStatuses: CarrierScanStatus[];
+  paymentStatuses: string[];
+}
+
+export interface AdminOrderFilters {
+  status?: OrderStatus;
+  paymentStatus?: string;
+  carrier?: string;
+  userId?: string;
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: 'orderDate' | 'updatedAt' | 'total' | 'status';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export type CarrierScanStatus = 'Picked Up' | 'In Transit' | 'Out for Delivery' | 'Failed Delivery';
+
+export interface CarrierScanUpdate {
+  status: CarrierScanStatus;
+  location?: string;
+  description?: string;
+}
+
+export interface AdminStatusUpdate {
+  status: OrderStatus;
+  location?: string;
+  description?: string;
+}
+
+export interface AdminStatusUpdateResult {
+  orderId: string;
+  previousStatus: OrderStatus;
+  newStatus: OrderStatus;
+  allowedTransitions: OrderStatus[];
+  payment: { status: string; refundAmount: number };
+  tracking: TrackingDetails;
+}
+
+export interface BulkStatusResult {
+  id: string;
+  orderId?: string;
+  success: boolean;
+  message?: string;
+  previousStatus?: OrderStatus;
+  newStatus?: OrderStatus;
+}
+
+export interface BulkStatusUpdateResult {
+  updated: number;
+  failed: number;
+  results: BulkStatusResult[];
+}
+
+// ✅ NEW: Admin coupon management (/api/admin/coupons)
+export type CouponDiscountType = 'percentage' | 'fixed' | 'shipping' | 'bogo' | 'cashback';
+export type CouponState = 'active' | 'scheduled' | 'expired' | 'inactive';
+
+export interface CouponRange {
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface CouponConditions {
+  cartValue?: CouponRange;
+  itemCount?: CouponRange;
+  userType?: string | null;
+  dayRestriction?: string[];
+  timeRestriction?: { start: string; end: string }; // "HH:MM"
+  categoryCount?: { min: number };
+  daysSinceLastOrder?: { min: number };
+  checkoutTime?: { max: number };
+  minimumOrders?: number;
+  platform?: 'web' | 'mobile_app' | 'both';
+}
+
+export interface AdminCoupon {
+  _id: string;
+  code: string;
+  description: string;
+  discount: number;
+  discountType: CouponDiscountType;
+  threshold: number;
+  maxDiscount: number | null;
+  validFrom: string;
+  validUpto: string;
+  paymentMethods: string[];
+  categories: string[];
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  used: number;
+  isActive: boolean;
+  priority: number;
+  stackable: boolean;
+  autoApply: boolean;
+  conditions: CouponConditions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminCouponDetails extends AdminCoupon {
+  usage: { used: number; usageLimit: number | null; remaining: number | null; customers: number };
+}
+
+// `used` is server-managed and `code` can only be set on create
+export type AdminCouponInput = Partial<Omit<AdminCoupon, '_id' | 'used' | 'createdAt' | 'updatedAt'>>;
+
+export interface AdminCouponOptions {
+  discountTypes: CouponDiscountType[];
+  paymentMethods: string[];
+  weekdays: string[];
+  platforms: string[];
+  userTypes: string[];
+  states: CouponState[];
+}
+
+export interface AdminCouponFilters {
+  state?: CouponState;
+  discountType?: CouponDiscountType;
+  search?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: 'priority' | 'validUpto' | 'used' | 'createdAt' | 'code';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CouponUsageRecord {
+  customer: { _id: string; fullName: string; email: string } | null;
+  count: number;
+  redemptions: {
+    orderId: string;
+    discountAmount: number;
+    status: 'redeemed' | 'released';
+    redeemedAt: string;
+    releasedAt: string | null;
+  }[];
+  updatedAt: string;
+}
+
+// ✅ NEW: Admin catalog management. Category is an id, slug or unique name; lists accept arrays or "a|b|c".
+export interface AdminProductInput {
+  name?: string;
+  brand?: string;
+  description?: string;
+  price?: number; // Shorthand for sellingPrice = mrp = price
+  pricing?: Partial<Omit<ProductPricing, 'discountPercent'>>;
+  category?: string | null;
+  subcategory?: string;
+  sizes?: string[] | string;
+  colors?: string[] | string;
+  images?: string[] | string;
+  skus?: Pick<ProductSku, 'size' | 'color' | 'stock'>[] | string; // Replaces the whole stock grid
+  stockPerSku?: number; // Create only: one SKU per size/color with this stock
+}
+
+export interface AdminProductFilters {
+  category?: string;
+  brand?: string;
+  search?: string;
+  inStock?: boolean;
+  priceMin?: number;
+  priceMax?: number;
+  page?: number;
+  limit?: number;
+  sortBy?: 'createdAt' | 'updatedAt' | 'name' | 'price' | 'stock';
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Shape of an exported catalog row - it can be edited and imported back as-is
+export interface CatalogProductRow {
+  _id: string;
+  name: string;
+  brand: string;
+  pricing: { mrp: number; sellingPrice: number; effectiveFrom: string | null; effectiveTo: string | null };
+  description: string;
+  category: string;
+  subcategory: string;
+  sizes: string[];
+  colors: string[];
+  images: string[];
+  skus: Pick<ProductSku, 'size' | 'color' | 'stock'>[];
+  stock: number | null;
+}
+
+export type CatalogFormat = 'csv' | 'json';
+
+export interface CatalogImportRowResult {
+  row: number; // 1-based data row (CSV header excluded)
+  action: 'create' | 'update';
+  productId: string | null;
+  name: string | null;
+  status: 'ok' | 'error';
+  errors: string[];
+}
+
+export interface CatalogImportResult {
+  dryRun: boolean;
+  summary: { total: number; valid: number; invalid: number; created: number; updated: number };
+  rows: CatalogImportRowResult[];
+}
+
 export interface Address {
   _id?: string;
   name: string;
@@ -377,11 +1192,15 @@ export interface Address {
 // USER & AUTH INTERFACES
 // ============================================================================
 
+// ✅ NEW: Admins get the order-management screens
+export type UserRole = 'user' | 'admin';
+
 export interface User {
   _id: string;
   id?: string;
   name: string;
   email: string;
+  role?: UserRole;
   phone?: string;
   avatar?: string;
   addresses: Address[];
@@ -404,6 +1223,13 @@ export interface AuthState {
   isAuthenticated: boolean;
 }
 
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresAt: string;
+}
+
 // ============================================================================
 // UTILITY & HELPER INTERFACES
 // ============================================================================
@@ -432,14 +1258,50 @@ export interface ApiResponse<T> {
     tax: number;
     finalTotal: number;
     couponDiscount: number;
+    promotionDiscount?: number;
   };
   alerts?: {
     hasOutOfStockItems?: boolean;
     hasPriceChanges?: boolean;
+    hasEndedSales?: boolean;
     freeShippingEligible?: boolean;
     freeShippingRemaining?: number;
     couponApplied?: boolean;
+    promotionsApplied?: boolean;
   };
+  // Bag: automatic promotions behind totals.promotionDiscount
+  promotions?: AppliedPromotion[];
+
+  // Review-specific properties
+  ratingBreakdown?: RatingBreakdown;
+
+  // Inventory-specific properties (order create / checkout reservation)
+  stockIssues?: StockIssue[];
+
+  // Order create: a flash sale ended or sold out - repricedItems lists bag items moved to their new price
+  saleEnded?: boolean;
+  repricedItems?: RepricedBagItem[];
+
+  // Search-specific properties
+  facets?: SearchFacets;
+  query?: string;
+
+  // Auth-specific properties (login / signup / refresh-token)
+  tokens?: AuthTokens;
+
+  // Product listings: the filters the server applied, plus the category's filter options
+  filters?: {
+    applied?: Record<string, any>;
+    options?: ProductFilterOptions;
+    statistics?: any;
+  };
+
+  // Followed-brands feed: the brands the products come from
+  brands?: BrandSummary[];
+
+  // Admin order list: order count per status for the current filters
+  statusCounts?: Record<string, number>;
+
   // ✅ ADDED: Missing coupon property
   coupon?: {
     code: string;
@@ -466,6 +1328,8 @@ export interface BagSummaryData {
   itemCount: number;
   savedItemCount: number;
   subtotal: number;
+  promotionDiscount: number;
+  promotions: AppliedPromotion[];
   couponDiscount: number;
   shipping: number;
   tax: number;
@@ -487,6 +1351,13 @@ export interface PaginationParams {
   offset?: number;
 }
 
+// ✅ Cursor pagination - pass the previous response's meta.nextCursor to continue after its
+// last item (page is ignored when a cursor is given)
+export interface CursorParams {
+  cursor?: string | null;
+  signal?: AbortSignal;
+}
+
 export interface SortParams {
   sortBy?: SortOption;
   sortOrder?: 'asc' | 'desc';
@@ -496,12 +1367,10 @@ export interface SortParams {
 // SCREEN & NAVIGATION INTERFACES
 // ============================================================================
 
+// ✅ UPDATED: The home screen renders whatever sections GET /api/home returns
 export interface HomeScreenData {
-  categories: Category[];
-  featuredProducts: Product[];
-  newArrivals: Product[];
-  bestDeals: Product[];
-  banners: Banner[];
+  sections: HomeSection[];
+  audience: HomeAudience | null;
   isLoading: boolean;
   error: string | null;
 }
@@ -526,19 +1395,50 @@ export interface ProductScreenData {
   inBag: boolean;
 }
 
-export interface Banner {
-  _id: string;
-  title: string;
+// ============================================================================
+// HOME SCREEN SECTIONS (CMS)
+// ============================================================================
+
+export type HomeSectionType =
+  | 'banner'
+  | 'carousel'
+  | 'category_tiles'
+  | 'product_collection'
+  | 'recently_viewed'
+  | 'followed_brands'
+  | 'flash_sale';
+
+// new = no orders yet (guests included), returning = at least one order
+export type HomeAudience = 'new' | 'returning';
+
+export interface HomeSlide {
+  title?: string;
   subtitle?: string;
   image: string;
+  // App path ("/categories?discount=40") or an http(s) URL
   link?: string;
-  type: 'promotion' | 'category' | 'product' | 'brand';
-  isActive: boolean;
-  order: number;
-  startDate?: string;
-  endDate?: string;
+  badge?: string;
+  icon?: string;
+  gradient?: string[];
 }
 
+interface HomeSectionBase {
+  _id: string;
+  key: string;
+  title: string | null;
+  subtitle: string | null;
+  icon: string | null;
+  viewAllLink: string | null;
+}
+
+export type HomeSection =
+  | (HomeSectionBase & { type: 'banner' | 'carousel'; slides: HomeSlide[] })
+  | (HomeSectionBase & { type: 'category_tiles'; categories: Pick<Category, '_id' | 'name' | 'image' | 'slug'>[] })
+  | (HomeSectionBase & { type: 'product_collection'; products: Product[] })
+  | (HomeSectionBase & { type: 'flash_sale'; sales: SaleEvent[] })
+  // Filled in by the app from the device / the user's follows
+  | (HomeSectionBase & { type: 'recently_viewed' | 'followed_brands' });
+
 // ============================================================================
 // RESPONSIVE & UI INTERFACES
 // ============================================================================
@@ -734,16 +1634,13 @@ export const getDiscountPercentage = (originalPrice: number, discountedPrice: nu
   return Math.round(((originalPrice - discountedPrice) / originalPrice) * 100);
 };
 
-export const isValidDiscountString = (discount?: string): boolean => {
-  if (!discount) return false;
-  const regex = /(\d+)%/;
-  return regex.test(discount);
+// ✅ UPDATED: Discount and MRP come from the server's structured pricing
+export const getProductDiscountPercent = (product: Pick<Product, 'pricing'>): number => {
+  return product.pricing?.discountPercent || 0;
 };
 
-export const extractDiscountPercentage = (discount?: string): number => {
-  if (!discount) return 0;
-  const match = discount.match(/(\d+)%/);
-  return match ? parseInt(match[1], 10) : 0;
+export const getProductMrp = (product: Pick<Product, 'price' | 'pricing'>): number => {
+  return product.pricing?.mrp ?? product.price;
 };
 
 // ============================================================================
@@ -1,4 +1,5 @@
 import { ApiResponse, Address } from '@/types/product';
+import { fetchWithAuth } from '@/utils/api';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000';
 
@@ -23,13 +24,8 @@ async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<ApiR
   });
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-      ...options,
-    });
+    // ✅ Address routes require a bearer token - share the refresh logic in api.ts
+    const response = await fetchWithAuth(url, options);
 
     console.log(`📥 ${method} Response Received:`, {
       status: response.status,
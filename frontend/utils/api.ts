@@ -2,49 +2,193 @@
 import {
   Product,
   Category,
+  CategoryTreeNode,
+  CategoryPathData,
+  Brand,
+  BrandDetail,
+  FollowedBrand,
+  BrandSortOption,
+  BrandProductFilters,
+  BrandFollowResult,
   BagItem,
   WishlistItem,
+  WishlistItemUpdate,
+  AppNotification,
+  NotificationType,
+  StockSubscription,
+  StockSubscriptionStatus,
+  SavedSearch,
+  SavedSearchInput,
+  HomeSection,
+  SaleEvent,
+  SalesOverview,
   User,
   ApiResponse,
   FilterState,
   PaginationParams,
+  CursorParams,
   SortParams,
   SearchSuggestion,
+  StockReservation,
+  ReturnOptions,
+  ReturnRequest,
+  CreateReturnData,
+  OrderTrackingData,
+  PaymentIntent,
+  AdminOrderSummary,
+  AdminOrderDetails,
+  AdminOrderOptions,
+  AdminOrderFilters,
+  AdminStatusUpdate,
+  CarrierScanUpdate,
+  AdminStatusUpdateResult,
+  BulkStatusUpdateResult,
+  AdminCoupon,
+  AdminCouponDetails,
+  AdminCouponInput,
+  AdminCouponOptions,
+  AdminCouponFilters,
+  CouponUsageRecord,
+  AdminProductInput,
+  AdminProductFilters,
+  CatalogProductRow,
+  CatalogFormat,
+  CatalogImportResult,
+  TrackingDetails,
+  SearchResult,
   SORT_OPTIONS,
+  Review,
+  ReviewSortOption,
+  RatingBreakdown,
+  CreateReviewData,
   CouponResponseData,  // ✅ FIXED: Import from types instead of defining here
-  BagSummaryData       // ✅ FIXED: Import from types instead of defining here
+  BagSummaryData,      // ✅ FIXED: Import from types instead of defining here
+  AuthTokens,
+  ProductPriceHistory,
 } from '@/types/product';
+import { getAuthTokens, saveAuthTokens } from '@/utils/storage';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000';
 
 // ============================================================================
-// ENHANCED GENERIC API CALL FUNCTION WITH PERFECT ERROR HANDLING
+// AUTHENTICATED FETCH - BEARER TOKEN + AUTOMATIC REFRESH
 // ============================================================================
 
-async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<ApiResponse<T>> {
-  try {
-    const url = `${API_BASE_URL}${endpoint}`;
-    console.log('🔗 API Call:', url);
+type AuthEventHandlers = {
+  onTokensRefreshed?: (tokens: AuthTokens) => void;
+  onAuthFailure?: () => void;
+};
 
-    const response = await fetch(url, {
+let authEventHandlers: AuthEventHandlers = {};
+let refreshInFlight: Promise<string | null> | null = null;
+
+// ✅ AuthContext registers these to mirror token state and force a logout
+// when the session can no longer be renewed
+export const setAuthEventHandlers = (handlers: AuthEventHandlers) => {
+  authEventHandlers = handlers;
+};
+
+// Resolves with the new access token, or null when the refresh token was rejected.
+// Network failures throw so that a flaky connection doesn't log the user out.
+export const refreshAccessToken = async (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const { refreshToken } = await getAuthTokens();
+      if (!refreshToken) return null;
+
+      const response = await fetch(`${API_BASE_URL}/api/user/refresh-token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) return null;
+
+      const data: ApiResponse<unknown> = await response.json();
+      if (!data.tokens?.accessToken) return null;
+
+      await saveAuthTokens(data.tokens.accessToken, data.tokens.refreshToken);
+      authEventHandlers.onTokensRefreshed?.(data.tokens);
+      console.log('🔑 Access token refreshed');
+      return data.tokens.accessToken;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+export const fetchWithAuth = async (url: string, options?: RequestInit): Promise<Response> => {
+  const send = (accessToken: string | null) =>
+    fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
         ...options?.headers,
       },
-      ...options,
     });
 
+  const { accessToken } = await getAuthTokens();
+  const response = await send(accessToken);
+
+  if (response.status !== 401 || !accessToken) {
+    return response;
+  }
+
+  // ✅ Access token expired/invalid - refresh once and replay the request
+  const newAccessToken = await refreshAccessToken();
+  if (!newAccessToken) {
+    console.warn('🔒 Session expired - refresh token rejected');
+    authEventHandlers.onAuthFailure?.();
+    return response;
+  }
+
+  return send(newAccessToken);
+};
+
+// ============================================================================
+// ENHANCED GENERIC API CALL FUNCTION WITH PERFECT ERROR HANDLING
+// ============================================================================
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<ApiResponse<T>> {
+  try {
+    const url = `${API_BASE_URL}${endpoint}`;
+    console.log('🔗 API Call:', url);
+
+    const response = await fetchWithAuth(url, options);
+
     if (!response.ok) {
       const errorText = await response.text();
       let errorMessage = `HTTP error! status: ${response.status}`;
+      let errorData: any = null;
 
       try {
-        const errorData = JSON.parse(errorText);
+        errorData = JSON.parse(errorText);
         errorMessage = errorData.message || errorMessage;
       } catch {
         errorMessage = errorText || errorMessage;
       }
 
+      // ✅ Keep per-item stock problems so screens can point at the right item
+      if (errorData?.stockIssues) {
+        return {
+          success: false,
+          error: { message: errorMessage, statusCode: response.status },
+          stockIssues: errorData.stockIssues,
+        };
+      }
+
+      // ✅ A flash sale ended before checkout - the bag has been repriced for the user to review
+      if (errorData?.saleEnded) {
+        return {
+          success: false,
+          error: { message: errorMessage, statusCode: response.status },
+          saleEnded: true,
+          repricedItems: errorData.repricedItems || [],
+        };
+      }
+
       throw new Error(errorMessage);
     }
 
@@ -65,6 +209,37 @@ async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<ApiR
   }
 }
 
+// ============================================================================
+// HOME SCREEN APIs
+// ============================================================================
+
+// ✅ NEW: Ordered CMS sections for the viewer (meta.audience is 'new' or 'returning')
+export const getHomeSections = async (): Promise<ApiResponse<HomeSection[]>> => {
+  return apiCall<HomeSection[]>('/api/home');
+};
+
+// ============================================================================
+// FLASH SALE APIs
+// ============================================================================
+
+// ✅ NEW: Live sales (with their first products) and sales starting within 24 hours
+export const getSales = async (productLimit?: number): Promise<ApiResponse<SalesOverview>> => {
+  return apiCall<SalesOverview>(`/api/sales${productLimit ? `?productLimit=${productLimit}` : ''}`);
+};
+
+// ✅ NEW: One sale with a page of its products
+export const getSale = async (
+  saleId: string,
+  params?: { page?: number; limit?: number }
+): Promise<ApiResponse<SaleEvent>> => {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+  const query = queryParams.toString();
+  return apiCall<SaleEvent>(`/api/sales/${saleId}${query ? `?${query}` : ''}`);
+};
+
 // ============================================================================
 // CATEGORY APIs
 // ============================================================================
@@ -85,14 +260,110 @@ export const getCategories = async (params?: {
   return apiCall<Category[]>(endpoint);
 };
 
+// ✅ Accepts an id or a slug; includes the breadcrumb path and direct children
 export const getCategoryById = async (categoryId: string): Promise<ApiResponse<Category>> => {
   return apiCall<Category>(`/api/category/${categoryId}`);
 };
 
+// ✅ NEW: Nested category tree; pass an id or slug as root for one branch
+export const getCategoryTree = async (root?: string): Promise<ApiResponse<CategoryTreeNode[]>> => {
+  return apiCall<CategoryTreeNode[]>(`/api/category/tree${root ? `?root=${encodeURIComponent(root)}` : ''}`);
+};
+
+export const getCategoryPath = async (categoryId: string): Promise<ApiResponse<CategoryPathData>> => {
+  return apiCall<CategoryPathData>(`/api/category/${categoryId}/path`);
+};
+
+// ============================================================================
+// BRAND APIs
+// ============================================================================
+
+export const getBrands = async (params?: PaginationParams & {
+  search?: string;
+  country?: string;
+  sortBy?: BrandSortOption;
+}): Promise<ApiResponse<Brand[]>> => {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.search) queryParams.append('search', params.search);
+  if (params?.country) queryParams.append('country', params.country);
+  if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
+
+  const endpoint = `/api/brand${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  return apiCall<Brand[]>(endpoint);
+};
+
+// ✅ Accepts an id, slug or brand name; isFollowing is only set when signed in
+export const getBrand = async (brand: string): Promise<ApiResponse<BrandDetail>> => {
+  return apiCall<BrandDetail>(`/api/brand/${encodeURIComponent(brand)}`);
+};
+
+// ✅ Paginated brand products; response.facets has size/color/price/rating counts
+export const getBrandProducts = async (
+  brand: string,
+  params?: PaginationParams & CursorParams & BrandProductFilters
+): Promise<ApiResponse<Product[]>> => {
+  const queryParams = new URLSearchParams();
+  if (params?.cursor) queryParams.append('cursor', params.cursor);
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
+  if (params?.categoryId) queryParams.append('categoryId', params.categoryId);
+  if (params?.sizes?.length) queryParams.append('sizes', params.sizes.join(','));
+  if (params?.colors?.length) queryParams.append('colors', params.colors.join(','));
+  if (params?.minPrice) queryParams.append('minPrice', params.minPrice.toString());
+  if (params?.maxPrice) queryParams.append('maxPrice', params.maxPrice.toString());
+  if (params?.rating) queryParams.append('rating', params.rating.toString());
+  if (params?.discount) queryParams.append('discount', params.discount.toString());
+  if (params?.inStock !== undefined) queryParams.append('inStock', params.inStock.toString());
+  if (params?.isNew) queryParams.append('isNew', 'true');
+  if (params?.isBestseller) queryParams.append('isBestseller', 'true');
+
+  const endpoint = `/api/brand/${encodeURIComponent(brand)}/products${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  return apiCall<Product[]>(endpoint, { signal: params?.signal });
+};
+
+export const followBrand = async (brandId: string): Promise<ApiResponse<BrandFollowResult>> => {
+  return apiCall<BrandFollowResult>(`/api/brand/${brandId}/follow`, { method: 'POST' });
+};
+
+export const unfollowBrand = async (brandId: string): Promise<ApiResponse<BrandFollowResult>> => {
+  return apiCall<BrandFollowResult>(`/api/brand/${brandId}/follow`, { method: 'DELETE' });
+};
+
+export const getFollowedBrands = async (): Promise<ApiResponse<FollowedBrand[]>> => {
+  return apiCall<FollowedBrand[]>('/api/brand/following');
+};
+
+// ✅ Newest products from followed brands; response.brands lists the followed brands
+export const getFollowedBrandProducts = async (limit?: number): Promise<ApiResponse<Product[]>> => {
+  return apiCall<Product[]>(`/api/brand/following/products${limit ? `?limit=${limit}` : ''}`);
+};
+
 // ============================================================================
 // PRODUCT APIs
 // ============================================================================
 
+// ✅ FilterState → listing query params (GET /api/product, /category/:id and /search/:query
+// all accept the same names)
+const appendFilterParams = (queryParams: URLSearchParams, filters?: FilterState) => {
+  if (!filters) return;
+  if (filters.brands?.length) queryParams.set('brand', [...new Set(filters.brands)].join(','));
+  if (filters.colors?.length) queryParams.set('colors', filters.colors.join(','));
+  if (filters.sizes?.length) queryParams.set('sizes', filters.sizes.join(','));
+  if (filters.rating) queryParams.set('rating', filters.rating.toString());
+  if (filters.discount) queryParams.set('discount', filters.discount.toString());
+  if (filters.priceMin) queryParams.set('minPrice', filters.priceMin.toString());
+  if (filters.priceMax) queryParams.set('maxPrice', filters.priceMax.toString());
+  if (filters.category) queryParams.set('categoryId', filters.category);
+  if (filters.subcategory) queryParams.set('subcategory', filters.subcategory);
+  if (filters.inStock !== undefined) queryParams.set('inStock', filters.inStock.toString());
+  if (filters.isNew) queryParams.set('isNew', 'true');
+  if (filters.isBestseller) queryParams.set('isBestseller', 'true');
+  if (filters.sortBy) queryParams.set('sortBy', filters.sortBy);
+};
+
 export const getProducts = async (params?: {
   page?: number;
   limit?: number;
@@ -104,9 +375,10 @@ export const getProducts = async (params?: {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   filters?: FilterState;
-}): Promise<ApiResponse<Product[]>> => {
+} & CursorParams): Promise<ApiResponse<Product[]>> => {
   const queryParams = new URLSearchParams();
 
+  if (params?.cursor) queryParams.append('cursor', params.cursor);
   if (params?.page) queryParams.append('page', params.page.toString());
   if (params?.limit) queryParams.append('limit', params.limit.toString());
   if (params?.search) queryParams.append('search', params.search);
@@ -116,60 +388,16 @@ export const getProducts = async (params?: {
   if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
   if (params?.sortOrder) queryParams.append('sortOrder', params.sortOrder);
 
-  let brandValues: string[] = [];
-  if (params?.brand) {
-    brandValues.push(params.brand);
-  }
-
-  if (params?.filters) {
-    if (params.filters.brands?.length) {
-      brandValues.push(...params.filters.brands);
-    }
-    if (params.filters.colors?.length) {
-      queryParams.append('colors', params.filters.colors.join(','));
-    }
-    if (params.filters.sizes?.length) {
-      queryParams.append('sizes', params.filters.sizes.join(','));
-    }
-    if (params.filters.rating) {
-      queryParams.append('rating', params.filters.rating.toString());
-    }
-    if (params.filters.discount) {
-      queryParams.append('discount', params.filters.discount.toString());
-    }
-    if (params.filters.priceMin) {
-      queryParams.append('priceMin', params.filters.priceMin.toString());
-    }
-    if (params.filters.priceMax) {
-      queryParams.append('priceMax', params.filters.priceMax.toString());
-    }
-    if (params.filters.category) {
-      queryParams.append('categoryId', params.filters.category);
-    }
-    if (params.filters.subcategory) {
-      queryParams.append('subcategory', params.filters.subcategory);
-    }
-    if (params.filters.inStock !== undefined) {
-      queryParams.append('inStock', params.filters.inStock.toString());
-    }
-    if (params.filters.isNew) {
-      queryParams.append('isNew', 'true');
-    }
-    if (params.filters.isBestseller) {
-      queryParams.append('isBestseller', 'true');
-    }
-    if (params.filters.sortBy) {
-      queryParams.append('sortBy', params.filters.sortBy);
-    }
-  }
+  appendFilterParams(queryParams, params?.filters);
 
-  if (brandValues.length > 0) {
-    const uniqueBrands = [...new Set(brandValues)];
-    queryParams.append('brand', uniqueBrands.join(','));
+  // A single brand param combines with filter brands
+  if (params?.brand) {
+    const brands = new Set([params.brand, ...(params.filters?.brands || [])]);
+    queryParams.set('brand', [...brands].join(','));
   }
 
   const endpoint = `/api/product${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-  return apiCall<Product[]>(endpoint);
+  return apiCall<Product[]>(endpoint, { signal: params?.signal });
 };
 
 export const getProduct = async (productId: string): Promise<ApiResponse<Product>> => {
@@ -180,9 +408,17 @@ export const getProductById = async (productId: string): Promise<ApiResponse<Pro
   return getProduct(productId);
 };
 
+// ✅ NEW: Price points for the product page chart
+export const getProductPriceHistory = async (
+  productId: string,
+  days: number = 90
+): Promise<ApiResponse<ProductPriceHistory>> => {
+  return apiCall<ProductPriceHistory>(`/api/product/${productId}/price-history?days=${days}`);
+};
+
 export const getProductsByCategory = async (
   categoryId: string,
-  params?: PaginationParams & SortParams & {
+  params?: PaginationParams & CursorParams & SortParams & {
     minPrice?: number;
     maxPrice?: number;
     brand?: string;
@@ -191,6 +427,7 @@ export const getProductsByCategory = async (
 ): Promise<ApiResponse<Product[]>> => {
   const queryParams = new URLSearchParams();
 
+  if (params?.cursor) queryParams.append('cursor', params.cursor);
   if (params?.page) queryParams.append('page', params.page.toString());
   if (params?.limit) queryParams.append('limit', params.limit.toString());
   if (params?.minPrice) queryParams.append('minPrice', params.minPrice.toString());
@@ -199,8 +436,44 @@ export const getProductsByCategory = async (
   if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
   if (params?.sortOrder) queryParams.append('sortOrder', params.sortOrder);
 
+  // ✅ Filtered, sorted and paginated on the server; response.filters.options lists what the
+  // category offers (brands, sizes, colors, price range)
+  appendFilterParams(queryParams, params?.filters);
+
   const endpoint = `/api/product/category/${categoryId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-  return apiCall<Product[]>(endpoint);
+  return apiCall<Product[]>(endpoint, { signal: params?.signal });
+};
+
+// ✅ NEW: Ranked server-side search with facet counts (brand, price, size, color, rating)
+export const searchProducts = async (
+  query: string,
+  params?: PaginationParams & CursorParams & {
+    filters?: FilterState;
+    categoryId?: string;
+  }
+): Promise<ApiResponse<SearchResult[]>> => {
+  const queryParams = new URLSearchParams();
+  const filters = params?.filters;
+
+  if (params?.cursor) queryParams.append('cursor', params.cursor);
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  appendFilterParams(queryParams, filters);
+  if (params?.categoryId) queryParams.set('categoryId', params.categoryId);
+
+  const endpoint = `/api/product/search/${encodeURIComponent(query.trim())}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  return apiCall<SearchResult[]>(endpoint, { signal: params?.signal });
+};
+
+// ✅ NEW: Typeahead suggestions - an empty query returns trending searches
+export const getSearchSuggestions = async (
+  query: string,
+  params?: { limit?: number; signal?: AbortSignal }
+): Promise<ApiResponse<SearchSuggestion[]>> => {
+  const queryParams = new URLSearchParams({ q: query.trim() });
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+  return apiCall<SearchSuggestion[]>(`/api/product/suggest?${queryParams.toString()}`, { signal: params?.signal });
 };
 
 // ============================================================================
@@ -228,6 +501,12 @@ export const loginUser = async (credentials: {
   });
 };
 
+export const logoutUser = async (): Promise<ApiResponse<null>> => {
+  return apiCall<null>('/api/user/logout', {
+    method: 'POST',
+  });
+};
+
 export const getUserById = async (userId: string): Promise<ApiResponse<User>> => {
   return apiCall<User>(`/api/user/${userId}`);
 };
@@ -488,6 +767,116 @@ export const checkWishlistStatus = async (
   }>(`/api/wishlist/check/${userId}/${productId}`);
 };
 
+// ✅ NEW: Priority, notes and the price-drop alert toggle
+export const updateWishlistItem = async (
+  itemId: string,
+  updates: WishlistItemUpdate
+): Promise<ApiResponse<WishlistItem>> => {
+  return apiCall<WishlistItem>(`/api/wishlist/${itemId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+};
+
+// ============================================================================
+// NOTIFICATION APIs
+// ============================================================================
+
+export const getNotifications = async (params?: PaginationParams & {
+  unreadOnly?: boolean;
+  type?: NotificationType;
+}): Promise<ApiResponse<AppNotification[]>> => {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.unreadOnly) queryParams.append('unreadOnly', 'true');
+  if (params?.type) queryParams.append('type', params.type);
+
+  const query = queryParams.toString();
+  return apiCall<AppNotification[]>(`/api/notifications${query ? `?${query}` : ''}`);
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<ApiResponse<AppNotification>> => {
+  return apiCall<AppNotification>(`/api/notifications/${notificationId}/read`, {
+    method: 'PATCH',
+  });
+};
+
+export const markAllNotificationsRead = async (type?: NotificationType): Promise<ApiResponse<{ updated: number }>> => {
+  return apiCall<{ updated: number }>('/api/notifications/read-all', {
+    method: 'PATCH',
+    body: JSON.stringify({ type }),
+  });
+};
+
+// ============================================================================
+// BACK-IN-STOCK ALERT APIs
+// ============================================================================
+
+export const getStockAlerts = async (
+  status: StockSubscriptionStatus | 'all' = 'active'
+): Promise<ApiResponse<StockSubscription[]>> => {
+  return apiCall<StockSubscription[]>(`/api/stock-alerts?status=${status}`);
+};
+
+// Returned subscription is unpopulated (productId is the id)
+export const subscribeToStockAlert = async (
+  productId: string,
+  size: string,
+  color?: string
+): Promise<ApiResponse<Omit<StockSubscription, 'productId'> & { productId: string }>> => {
+  return apiCall<Omit<StockSubscription, 'productId'> & { productId: string }>('/api/stock-alerts', {
+    method: 'POST',
+    body: JSON.stringify({ productId, size, color: color || '' }),
+  });
+};
+
+export const cancelStockAlert = async (subscriptionId: string): Promise<ApiResponse<StockSubscription>> => {
+  return apiCall<StockSubscription>(`/api/stock-alerts/${subscriptionId}`, {
+    method: 'DELETE',
+  });
+};
+
+// ============================================================================
+// SAVED SEARCH APIs
+// ============================================================================
+
+export const getSavedSearches = async (): Promise<ApiResponse<SavedSearch[]>> => {
+  return apiCall<SavedSearch[]>('/api/saved-searches');
+};
+
+export const createSavedSearch = async (
+  input: SavedSearchInput & { name: string }
+): Promise<ApiResponse<SavedSearch>> => {
+  return apiCall<SavedSearch>('/api/saved-searches', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+};
+
+export const updateSavedSearch = async (
+  savedSearchId: string,
+  changes: SavedSearchInput
+): Promise<ApiResponse<SavedSearch>> => {
+  return apiCall<SavedSearch>(`/api/saved-searches/${savedSearchId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+};
+
+export const deleteSavedSearch = async (savedSearchId: string): Promise<ApiResponse<void>> => {
+  return apiCall<void>(`/api/saved-searches/${savedSearchId}`, {
+    method: 'DELETE',
+  });
+};
+
+// ✅ Resets the search's "new" count
+export const markSavedSearchViewed = async (savedSearchId: string): Promise<ApiResponse<SavedSearch>> => {
+  return apiCall<SavedSearch>(`/api/saved-searches/${savedSearchId}/viewed`, {
+    method: 'POST',
+  });
+};
+
 // ============================================================================
 // ENHANCED COUPON APIs - FULLY INTEGRATED WITH NEW SYSTEM
 // ============================================================================
@@ -622,17 +1011,77 @@ export const removeBagCoupon = async (
   });
 };
 
+// ============================================================================
+// REVIEW & RATING APIs
+// ============================================================================
+
+export const getProductReviews = async (
+  productId: string,
+  params?: PaginationParams & {
+    sortBy?: ReviewSortOption;
+    rating?: number;
+    verifiedOnly?: boolean;
+    withImages?: boolean;
+  }
+): Promise<ApiResponse<Review[]>> => {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
+  if (params?.rating) queryParams.append('rating', params.rating.toString());
+  if (params?.verifiedOnly) queryParams.append('verifiedOnly', 'true');
+  if (params?.withImages) queryParams.append('withImages', 'true');
+
+  const endpoint = `/api/reviews/product/${productId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  return apiCall<Review[]>(endpoint);
+};
+
+export const getRatingBreakdown = async (productId: string): Promise<ApiResponse<RatingBreakdown>> => {
+  return apiCall<RatingBreakdown>(`/api/reviews/product/${productId}/breakdown`);
+};
+
+export const createReview = async (reviewData: CreateReviewData): Promise<ApiResponse<Review>> => {
+  return apiCall<Review>('/api/reviews', {
+    method: 'POST',
+    body: JSON.stringify(reviewData),
+  });
+};
+
+// ✅ Review writes act as the signed-in user (taken from the access token)
+export const markReviewHelpful = async (
+  reviewId: string
+): Promise<ApiResponse<{ reviewId: string; helpfulCount: number; isHelpful: boolean }>> => {
+  return apiCall<{ reviewId: string; helpfulCount: number; isHelpful: boolean }>(`/api/reviews/${reviewId}/helpful`, {
+    method: 'PATCH',
+  });
+};
+
+export const deleteReview = async (reviewId: string): Promise<ApiResponse<{ reviewId: string }>> => {
+  return apiCall<{ reviewId: string }>(`/api/reviews/${reviewId}`, {
+    method: 'DELETE',
+  });
+};
+
 // ============================================================================
 // ORDER APIs
 // ============================================================================
 
-export const createOrder = async (orderData: any): Promise<ApiResponse<any>> => {
-  return apiCall<any>('/api/order', {
+export const createOrder = async (userId: string, orderData: any): Promise<ApiResponse<any>> => {
+  return apiCall<any>(`/api/order/create/${userId}`, {
     method: 'POST',
     body: JSON.stringify(orderData),
   });
 };
 
+// ✅ NEW: Hold the bag's stock while the user is at checkout
+export const reserveCheckoutStock = async (userId: string): Promise<ApiResponse<StockReservation>> => {
+  return apiCall<StockReservation>(`/api/order/reserve/${userId}`, { method: 'POST' });
+};
+
+export const releaseCheckoutStock = async (userId: string): Promise<ApiResponse<{ released: boolean }>> => {
+  return apiCall<{ released: boolean }>(`/api/order/reserve/${userId}`, { method: 'DELETE' });
+};
+
 export const getOrderHistory = async (userId: string): Promise<ApiResponse<any[]>> => {
   return apiCall<any[]>(`/api/order/user/${userId}`);
 };
@@ -641,6 +1090,289 @@ export const getOrderDetails = async (orderId: string): Promise<ApiResponse<any>
   return apiCall<any>(`/api/order/${orderId}`);
 };
 
+export const getUserOrders = async (
+  userId: string,
+  params?: {
+    status?: string;
+    page?: number;
+    limit?: number;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
+  }
+): Promise<ApiResponse<any[]>> => {
+  const queryParams = new URLSearchParams();
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const endpoint = `/api/order/user/${userId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  return apiCall<any[]>(endpoint);
+};
+
+export const getOrderById = async (orderId: string): Promise<ApiResponse<any>> => {
+  return apiCall<any>(`/api/order/${orderId}`);
+};
+
+export const cancelOrder = async (orderId: string, reason?: string): Promise<ApiResponse<any>> => {
+  return apiCall<any>(`/api/order/${orderId}/cancel`, {
+    method: 'PATCH',
+    body: JSON.stringify({ reason }),
+  });
+};
+
+export const trackOrder = async (trackingNumber: string): Promise<ApiResponse<OrderTrackingData>> => {
+  return apiCall<OrderTrackingData>(`/api/order/track/${encodeURIComponent(trackingNumber)}`);
+};
+
+// ✅ NEW: Returns & exchanges
+export const getReturnOptions = async (): Promise<ApiResponse<ReturnOptions>> => {
+  return apiCall<ReturnOptions>('/api/order/return-reasons');
+};
+
+export const requestOrderReturn = async (
+  orderId: string,
+  returnData: CreateReturnData
+): Promise<ApiResponse<{ orderId: string; returns: ReturnRequest[] }>> => {
+  return apiCall<{ orderId: string; returns: ReturnRequest[] }>(`/api/order/${orderId}/return`, {
+    method: 'POST',
+    body: JSON.stringify(returnData),
+  });
+};
+
+export const getOrderReturns = async (orderId: string): Promise<ApiResponse<ReturnRequest[]>> => {
+  return apiCall<ReturnRequest[]>(`/api/order/${orderId}/returns`);
+};
+
+// ============================================================================
+// PAYMENT APIs
+// ============================================================================
+
+export const createPaymentIntent = async (orderId: string): Promise<ApiResponse<PaymentIntent>> => {
+  return apiCall<PaymentIntent>('/api/payments/intents', {
+    method: 'POST',
+    body: JSON.stringify({ orderId }),
+  });
+};
+
+// ✅ Call once the provider's checkout has collected the payment details
+export const confirmPaymentIntent = async (
+  intentId: string,
+  options?: { testOutcome?: 'fail' }
+): Promise<ApiResponse<PaymentIntent>> => {
+  return apiCall<PaymentIntent>(`/api/payments/intents/${intentId}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify(options || {}),
+  });
+};
+
+export const getPaymentIntent = async (intentId: string): Promise<ApiResponse<PaymentIntent>> => {
+  return apiCall<PaymentIntent>(`/api/payments/intents/${intentId}`);
+};
+
+// ============================================================================
+// ADMIN ORDER APIs (admin role required)
+// ============================================================================
+
+export const getAdminOrderOptions = async (): Promise<ApiResponse<AdminOrderOptions>> => {
+  return apiCall<AdminOrderOptions>('/api/admin/orders/options');
+};
+
+export const getAdminOrders = async (filters: AdminOrderFilters = {}): Promise<ApiResponse<AdminOrderSummary[]>> => {
+  const queryParams = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') queryParams.append(key, String(value));
+  });
+
+  const query = queryParams.toString();
+  return apiCall<AdminOrderSummary[]>(`/api/admin/orders${query ? `?${query}` : ''}`);
+};
+
+export const getAdminOrder = async (orderId: string): Promise<ApiResponse<AdminOrderDetails>> => {
+  return apiCall<AdminOrderDetails>(`/api/admin/orders/${orderId}`);
+};
+
+export const updateAdminOrderStatus = async (
+  orderId: string,
+  update: AdminStatusUpdate
+): Promise<ApiResponse<AdminStatusUpdateResult>> => {
+  return apiCall<AdminStatusUpdateResult>(`/api/admin/orders/${orderId}/status`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+};
+
+// ✅ Leave trackingNumber empty to generate one in the carrier's format
+export const assignOrderCarrier = async (
+  orderId: string,
+  carrier: string,
+  trackingNumber?: string
+): Promise<ApiResponse<{ orderId: string; tracking: TrackingDetails }>> => {
+  return apiCall<{ orderId: string; tracking: TrackingDetails }>(`/api/admin/orders/${orderId}/carrier`, {
+    method: 'PATCH',
+    body: JSON.stringify({ carrier, trackingNumber }),
+  });
+};
+
+// ✅ NEW: Carrier scan on a shipped order - "Out for Delivery" also emails the customer
+export const recordCarrierScan = async (
+  orderId: string,
+  scan: CarrierScanUpdate
+): Promise<ApiResponse<{ orderId: string; tracking: TrackingDetails }>> => {
+  return apiCall<{ orderId: string; tracking: TrackingDetails }>(`/api/admin/orders/${orderId}/tracking`, {
+    method: 'PATCH',
+    body: JSON.stringify(scan),
+  });
+};
+
+export const bulkUpdateOrderStatus = async (
+  orderIds: string[],
+  update: AdminStatusUpdate
+): Promise<ApiResponse<BulkStatusUpdateResult>> => {
+  return apiCall<BulkStatusUpdateResult>('/api/admin/orders/bulk/status', {
+    method: 'PATCH',
+    body: JSON.stringify({ orderIds, ...update }),
+  });
+};
+
+// ============================================================================
+// ADMIN COUPON APIs (admin role required)
+// ============================================================================
+
+export const getAdminCouponOptions = async (): Promise<ApiResponse<AdminCouponOptions>> => {
+  return apiCall<AdminCouponOptions>('/api/admin/coupons/options');
+};
+
+export const getAdminCoupons = async (filters: AdminCouponFilters = {}): Promise<ApiResponse<AdminCoupon[]>> => {
+  const queryParams = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') queryParams.append(key, String(value));
+  });
+
+  const query = queryParams.toString();
+  return apiCall<AdminCoupon[]>(`/api/admin/coupons${query ? `?${query}` : ''}`);
+};
+
+export const getAdminCoupon = async (couponId: string): Promise<ApiResponse<AdminCouponDetails>> => {
+  return apiCall<AdminCouponDetails>(`/api/admin/coupons/${couponId}`);
+};
+
+export const createAdminCoupon = async (
+  coupon: AdminCouponInput & { code: string }
+): Promise<ApiResponse<AdminCoupon>> => {
+  return apiCall<AdminCoupon>('/api/admin/coupons', {
+    method: 'POST',
+    body: JSON.stringify(coupon),
+  });
+};
+
+// ✅ Sending `conditions` replaces all of them
+export const updateAdminCoupon = async (
+  couponId: string,
+  updates: AdminCouponInput
+): Promise<ApiResponse<AdminCoupon>> => {
+  return apiCall<AdminCoupon>(`/api/admin/coupons/${couponId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+};
+
+// Used coupons can't be deleted - deactivate them with updateAdminCoupon instead
+export const deleteAdminCoupon = async (couponId: string): Promise<ApiResponse<void>> => {
+  return apiCall<void>(`/api/admin/coupons/${couponId}`, {
+    method: 'DELETE',
+  });
+};
+
+export const getAdminCouponUsage = async (
+  couponId: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<ApiResponse<CouponUsageRecord[]>> => {
+  return apiCall<CouponUsageRecord[]>(`/api/admin/coupons/${couponId}/usage?page=${page}&limit=${limit}`);
+};
+
+// ============================================================================
+// ADMIN PRODUCT CATALOG APIs (admin role required)
+// ============================================================================
+
+const toCatalogQuery = (filters: AdminProductFilters): string => {
+  const queryParams = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') queryParams.append(key, String(value));
+  });
+  return queryParams.toString();
+};
+
+export const getAdminProducts = async (filters: AdminProductFilters = {}): Promise<ApiResponse<Product[]>> => {
+  const query = toCatalogQuery(filters);
+  return apiCall<Product[]>(`/api/admin/products${query ? `?${query}` : ''}`);
+};
+
+export const getAdminProduct = async (productId: string): Promise<ApiResponse<Product>> => {
+  return apiCall<Product>(`/api/admin/products/${productId}`);
+};
+
+export const createAdminProduct = async (
+  product: AdminProductInput & { name: string; brand: string }
+): Promise<ApiResponse<Product>> => {
+  return apiCall<Product>('/api/admin/products', {
+    method: 'POST',
+    body: JSON.stringify(product),
+  });
+};
+
+// ✅ Pricing fields are merged; sending `category: null` unassigns the product
+export const updateAdminProduct = async (
+  productId: string,
+  updates: AdminProductInput
+): Promise<ApiResponse<Product>> => {
+  return apiCall<Product>(`/api/admin/products/${productId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+};
+
+// Also removes the product from its category and from every bag and wishlist
+export const deleteAdminProduct = async (productId: string): Promise<ApiResponse<void>> => {
+  return apiCall<void>(`/api/admin/products/${productId}`, {
+    method: 'DELETE',
+  });
+};
+
+// ✅ Validate with dryRun first - the report lists every row, and invalid rows are never written
+export const importCatalog = async (
+  format: CatalogFormat,
+  data: string | AdminProductInput[],
+  dryRun: boolean = false
+): Promise<ApiResponse<CatalogImportResult>> => {
+  return apiCall<CatalogImportResult>('/api/admin/products/import', {
+    method: 'POST',
+    body: JSON.stringify({ format, data, dryRun }),
+  });
+};
+
+export const exportCatalog = async (filters: AdminProductFilters = {}): Promise<ApiResponse<CatalogProductRow[]>> => {
+  const query = toCatalogQuery({ ...filters, page: undefined, limit: undefined });
+  return apiCall<CatalogProductRow[]>(`/api/admin/products/export${query ? `?${query}&` : '?'}format=json`);
+};
+
+// CSV export is a file download rather than an ApiResponse - returns the raw CSV text
+export const exportCatalogCsv = async (filters: AdminProductFilters = {}): Promise<string> => {
+  const query = toCatalogQuery({ ...filters, page: undefined, limit: undefined });
+  const response = await fetchWithAuth(
+    `${API_BASE_URL}/api/admin/products/export${query ? `?${query}&` : '?'}format=csv`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Catalog export failed with status ${response.status}`);
+  }
+  return response.text();
+};
+
 // ============================================================================
 // ENHANCED HELPER FUNCTIONS
 // ============================================================================
@@ -664,83 +1396,6 @@ export const handleApiError = (error: any): string => {
   return 'Something went wrong. Please try again.';
 };
 
-export const applyFiltersToProducts = (products: Product[], filters: FilterState): Product[] => {
-  let filtered = [...products];
-
-  if (filters.priceMin !== undefined) {
-    filtered = filtered.filter(p => p.price >= filters.priceMin!);
-  }
-  if (filters.priceMax !== undefined) {
-    filtered = filtered.filter(p => p.price <= filters.priceMax!);
-  }
-
-  if (filters.rating) {
-    filtered = filtered.filter(p => (p.rating || 0) >= filters.rating!);
-  }
-
-  if (filters.brands?.length) {
-    filtered = filtered.filter(p => filters.brands!.includes(p.brand));
-  }
-
-  if (filters.colors?.length) {
-    filtered = filtered.filter(p =>
-      p.colors?.some(color => filters.colors!.includes(color))
-    );
-  }
-
-  if (filters.sizes?.length) {
-    filtered = filtered.filter(p =>
-      p.sizes?.some(size => filters.sizes!.includes(size))
-    );
-  }
-
-  if (filters.discount) {
-    filtered = filtered.filter(p => {
-      if (p.originalPrice && p.originalPrice > p.price) {
-        const discountPercent = ((p.originalPrice - p.price) / p.originalPrice) * 100;
-        return discountPercent >= filters.discount!;
-      }
-      return false;
-    });
-  }
-
-  if (filters.isNew) {
-    filtered = filtered.filter(p => p.isNew === true);
-  }
-  if (filters.isBestseller) {
-    filtered = filtered.filter(p => p.isBestseller === true);
-  }
-  if (filters.inStock) {
-    filtered = filtered.filter(p => (p.stock || 0) > 0);
-  }
-
-  if (filters.sortBy) {
-    switch (filters.sortBy) {
-      case 'price_asc':
-        filtered.sort((a, b) => a.price - b.price);
-        break;
-      case 'price_desc':
-        filtered.sort((a, b) => b.price - a.price);
-        break;
-      case 'rating':
-        filtered.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-        break;
-      case 'newest':
-        filtered.sort((a, b) =>
-          new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-        );
-        break;
-      case 'popularity':
-        filtered.sort((a, b) => (b.popularity || 0) - (a.popularity || 0));
-        break;
-      default:
-        break;
-    }
-  }
-
-  return filtered;
-};
-
 // ============================================================================
 // ENHANCED UTILITY FUNCTIONS FOR API RESPONSES
 // ============================================================================
@@ -0,0 +1,172 @@
+import * as Linking from 'expo-linking';
+
+import { FilterState, SortOption, SORT_OPTIONS } from '@/types/product';
+
+// ============================================================================
+// FILTER STATE <-> ROUTE SEARCH PARAMS
+// ============================================================================
+//
+// Filtered listings are addressable: /category/men-shirts?fv=1&sort=price_asc&brands=Nike,Puma
+// Keys and value formats are part of the URL contract - change them only together with
+// FILTER_PARAMS_VERSION and an upgrade step in decodeFilterParams.
+
+export const FILTER_PARAMS_VERSION = 1;
+
+// The search overlay's query lives next to the filters: /?q=shirts&fv=1&sizes=M
+export const SEARCH_QUERY_PARAM = 'q';
+
+type RouteParamValue = string | string[] | undefined;
+export type RouteParams = Record<string, RouteParamValue>;
+
+// FilterState field → param name (fixed order keeps encoded URLs stable)
+const PARAM_KEYS = {
+  sortBy: 'sort',
+  category: 'category',
+  subcategory: 'subcategory',
+  brands: 'brands',
+  sizes: 'sizes',
+  colors: 'colors',
+  priceMin: 'minPrice',
+  priceMax: 'maxPrice',
+  rating: 'rating',
+  discount: 'discount',
+  inStock: 'inStock',
+  isNew: 'isNew',
+  isBestseller: 'isBestseller',
+} as const;
+
+const VERSION_KEY = 'fv';
+
+const DEFAULT_SORT: SortOption = 'relevance';
+const SORT_VALUES = SORT_OPTIONS.map(option => option.value);
+
+// Every key this module owns - used to clear params that are no longer set
+export const FILTER_PARAM_NAMES = [VERSION_KEY, ...Object.values(PARAM_KEYS)];
+
+const first = (value: RouteParamValue): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw && raw.trim() ? raw.trim() : undefined;
+};
+
+// Lists are comma-separated (repeated params are accepted too); sorted so equal filters
+// always produce the same URL
+const toList = (value: RouteParamValue): string[] | undefined => {
+  const raw = Array.isArray(value) ? value : value ? [value] : [];
+  const list = [...new Set(raw.flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean))];
+  return list.length ? list.sort() : undefined;
+};
+
+const toNumber = (value: RouteParamValue, max?: number): number | undefined => {
+  const raw = first(value);
+  if (raw === undefined) return undefined;
+  const number = Number(raw);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  return max !== undefined ? Math.min(number, max) : number;
+};
+
+const toBoolean = (value: RouteParamValue): boolean | undefined => {
+  const raw = first(value);
+  if (raw === 'true' || raw === '1') return true;
+  if (raw === 'false' || raw === '0') return false;
+  return undefined;
+};
+
+/**
+ * Route params → FilterState. Unknown or malformed values are dropped rather than failing,
+ * so an old or hand-edited link still opens the listing. Links without `fv` (e.g. the
+ * `?subcategory=` links from the categories tab) are read as the current version.
+ */
+export const decodeFilterParams = (params: RouteParams): FilterState => {
+  const version = toNumber(params[VERSION_KEY]) ?? FILTER_PARAMS_VERSION;
+  if (version > FILTER_PARAMS_VERSION) {
+    console.warn(`⚠️ Filter link version ${version} is newer than this app (${FILTER_PARAMS_VERSION})`);
+  }
+
+  const sort = first(params[PARAM_KEYS.sortBy]) as SortOption | undefined;
+  const filters: FilterState = {
+    sortBy: sort && SORT_VALUES.includes(sort) ? sort : DEFAULT_SORT,
+  };
+
+  const category = first(params[PARAM_KEYS.category]);
+  const subcategory = first(params[PARAM_KEYS.subcategory]);
+  const brands = toList(params[PARAM_KEYS.brands]);
+  const sizes = toList(params[PARAM_KEYS.sizes]);
+  const colors = toList(params[PARAM_KEYS.colors]);
+  const priceMin = toNumber(params[PARAM_KEYS.priceMin]);
+  const priceMax = toNumber(params[PARAM_KEYS.priceMax]);
+  const rating = toNumber(params[PARAM_KEYS.rating], 5);
+  const discount = toNumber(params[PARAM_KEYS.discount], 100);
+  const inStock = toBoolean(params[PARAM_KEYS.inStock]);
+
+  if (category) filters.category = category;
+  if (subcategory) filters.subcategory = subcategory;
+  if (brands) filters.brands = brands;
+  if (sizes) filters.sizes = sizes;
+  if (colors) filters.colors = colors;
+  if (priceMin !== undefined) filters.priceMin = priceMin;
+  if (priceMax !== undefined && (priceMin === undefined || priceMax >= priceMin)) filters.priceMax = priceMax;
+  if (rating !== undefined) filters.rating = rating;
+  if (discount !== undefined) filters.discount = discount;
+  if (inStock !== undefined) filters.inStock = inStock;
+  if (toBoolean(params[PARAM_KEYS.isNew])) filters.isNew = true;
+  if (toBoolean(params[PARAM_KEYS.isBestseller])) filters.isBestseller = true;
+
+  return filters;
+};
+
+/**
+ * FilterState → route params for `router.setParams`. Every filter key is present -
+ * unset ones are `undefined` so stale params are removed - and defaults are omitted,
+ * so an unfiltered listing has a clean URL.
+ */
+export const encodeFilterParams = (filters: FilterState): Record<string, string | undefined> => {
+  const join = (list?: string[]) => (list?.length ? [...new Set(list)].sort().join(',') : undefined);
+  const number = (value?: number) => (value ? value.toString() : undefined);
+
+  const encoded: Record<string, string | undefined> = {
+    [PARAM_KEYS.sortBy]: filters.sortBy && filters.sortBy !== DEFAULT_SORT ? filters.sortBy : undefined,
+    [PARAM_KEYS.category]: filters.category || undefined,
+    [PARAM_KEYS.subcategory]: filters.subcategory || undefined,
+    [PARAM_KEYS.brands]: join(filters.brands),
+    [PARAM_KEYS.sizes]: join(filters.sizes),
+    [PARAM_KEYS.colors]: join(filters.colors),
+    [PARAM_KEYS.priceMin]: number(filters.priceMin),
+    [PARAM_KEYS.priceMax]: number(filters.priceMax),
+    [PARAM_KEYS.rating]: number(filters.rating),
+    [PARAM_KEYS.discount]: number(filters.discount),
+    [PARAM_KEYS.inStock]: filters.inStock !== undefined ? String(filters.inStock) : undefined,
+    [PARAM_KEYS.isNew]: filters.isNew ? 'true' : undefined,
+    [PARAM_KEYS.isBestseller]: filters.isBestseller ? 'true' : undefined,
+  };
+
+  const hasFilters = Object.values(encoded).some(value => value !== undefined);
+  return {
+    [VERSION_KEY]: hasFilters ? FILTER_PARAMS_VERSION.toString() : undefined,
+    ...encoded,
+  };
+};
+
+// Canonical string for a filter state - equal filters give equal keys
+export const filterParamsKey = (filters: FilterState): string => {
+  const encoded = encodeFilterParams(filters);
+  return FILTER_PARAM_NAMES
+    .filter(name => encoded[name] !== undefined)
+    .map(name => `${name}=${encodeURIComponent(encoded[name]!)}`)
+    .join('&');
+};
+
+// ✅ Query string for links and sharing, e.g. `/category/${id}?${filtersToQueryString(filters)}`
+export const filtersToQueryString = (filters: FilterState, extra: Record<string, string | undefined> = {}): string => {
+  const extraParams = Object.entries(extra)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}=${encodeURIComponent(value!)}`);
+  return [...extraParams, filterParamsKey(filters)].filter(Boolean).join('&');
+};
+
+// ✅ Absolute link to a filtered listing (app scheme on native, page URL on web)
+export const createListingUrl = (path: string, filters: FilterState, extra: Record<string, string | undefined> = {}): string => {
+  const queryParams = Object.fromEntries(
+    Object.entries({ ...extra, ...encodeFilterParams(filters) }).filter(([, value]) => value !== undefined && value !== '')
+  ) as Record<string, string>;
+  return Linking.createURL(path, { queryParams });
+};
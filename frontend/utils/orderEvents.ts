@@ -0,0 +1,202 @@
+import { OrderEvent } from '@/types/product';
+import { refreshAccessToken } from '@/utils/api';
+import { getAuthTokens } from '@/utils/storage';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000';
+
+// ============================================================================
+// LIVE ORDER UPDATES - SERVER-SENT EVENTS CLIENT WITH BACKOFF + POLLING FALLBACK
+// ============================================================================
+
+// React Native has no EventSource, and fetch can't stream a response body there.
+// XMLHttpRequest does report partial responseText, so the stream is read through it.
+
+export type OrderEventsConnectionState = 'connecting' | 'live' | 'polling' | 'closed';
+
+export interface OrderEventsOptions {
+  onEvent: (event: OrderEvent) => void;
+  onStateChange?: (state: OrderEventsConnectionState) => void;
+  // Refresh from the REST API: on an interval while the stream is down, and once after reconnecting
+  onPoll?: () => void;
+  pollIntervalMs?: number;
+  scope?: 'user' | 'all';
+}
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const FAILURES_BEFORE_POLLING = 2;
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+// responseText keeps the whole stream - start a fresh connection once it gets large
+const MAX_STREAM_LENGTH = 512 * 1024;
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const parseEventBlock = (block: string): ServerSentEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith(':')) return; // comment / heartbeat
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  });
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+// ✅ Opens the stream and keeps it open until the returned function is called
+export const subscribeToOrderEvents = (options: OrderEventsOptions): (() => void) => {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  let request: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let failures = 0;
+  let hasConnected = false;
+  let closed = false;
+  let state: OrderEventsConnectionState | null = null;
+
+  const setState = (next: OrderEventsConnectionState) => {
+    if (state === next) return;
+    state = next;
+    options.onStateChange?.(next);
+  };
+
+  const startPolling = () => {
+    if (!options.onPoll) return;
+    setState('polling');
+    if (!pollTimer) {
+      options.onPoll();
+      pollTimer = setInterval(() => options.onPoll?.(), pollIntervalMs);
+    }
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  // Exponential backoff with jitter; after a couple of failures the REST API is polled meanwhile
+  const scheduleReconnect = () => {
+    if (closed) return;
+    failures += 1;
+
+    if (failures >= FAILURES_BEFORE_POLLING && options.onPoll) {
+      startPolling();
+    } else {
+      setState('connecting');
+    }
+
+    const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** (failures - 1));
+    retryTimer = setTimeout(() => connect(), delay + Math.random() * delay * 0.2);
+  };
+
+  const handleEvent = ({ event, data }: ServerSentEvent) => {
+    if (event === 'ready') {
+      failures = 0;
+      stopPolling();
+      setState('live');
+      // Events sent while we were disconnected are not replayed
+      if (hasConnected) options.onPoll?.();
+      hasConnected = true;
+      return;
+    }
+
+    if (event === 'order') {
+      try {
+        options.onEvent(JSON.parse(data) as OrderEvent);
+      } catch (error) {
+        console.error('Error handling order event:', error);
+      }
+    }
+  };
+
+  const connect = async (allowTokenRefresh = true) => {
+    retryTimer = null;
+    if (closed) return;
+
+    const { accessToken } = await getAuthTokens();
+    if (closed) return;
+    if (!accessToken) {
+      setState('closed');
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    request = xhr;
+    let cursor = 0;
+    let buffer = '';
+
+    const consume = () => {
+      const text = xhr.responseText || '';
+      if (text.length <= cursor) return;
+
+      buffer += text.slice(cursor);
+      cursor = text.length;
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+      blocks.forEach(block => {
+        const parsed = parseEventBlock(block);
+        if (parsed) handleEvent(parsed);
+      });
+
+      if (cursor > MAX_STREAM_LENGTH) {
+        request = null;
+        xhr.abort();
+        connect();
+      }
+    };
+
+    xhr.onreadystatechange = () => {
+      if (request !== xhr) return;
+
+      if (xhr.readyState === XMLHttpRequest.LOADING && xhr.status === 200) {
+        consume();
+      }
+
+      if (xhr.readyState === XMLHttpRequest.DONE) {
+        if (xhr.status === 200) consume();
+        request = null;
+        if (closed) return;
+
+        // ✅ Access token expired - refresh once and reopen, like fetchWithAuth does
+        if (xhr.status === 401 && allowTokenRefresh) {
+          refreshAccessToken()
+            .then(token => (token ? connect(false) : setState('closed')))
+            .catch(scheduleReconnect);
+          return;
+        }
+
+        scheduleReconnect();
+      }
+    };
+
+    const scopeQuery = options.scope === 'all' ? '?scope=all' : '';
+    xhr.open('GET', `${API_BASE_URL}/api/order/events${scopeQuery}`);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Cache-Control', 'no-cache');
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.send();
+  };
+
+  setState('connecting');
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    stopPolling();
+    const active = request;
+    request = null;
+    active?.abort();
+    setState('closed');
+  };
+};
@@ -8,7 +8,8 @@ const isSecureStoreAvailable = Platform.OS !== 'web';
 export const saveUserData = async (
   _id: string,
   name: string,
-  email: string
+  email: string,
+  role: string = 'user'
 ) => {
   try {
     if (isSecureStoreAvailable) {
@@ -16,14 +17,16 @@ export const saveUserData = async (
       await Promise.all([
         SecureStore.setItemAsync("userid", _id),
         SecureStore.setItemAsync("userName", name),
-        SecureStore.setItemAsync("userEmail", email)
+        SecureStore.setItemAsync("userEmail", email),
+        SecureStore.setItemAsync("userRole", role)
       ]);
     } else {
       // Use AsyncStorage for web platform
       await Promise.all([
         AsyncStorage.setItem("userid", _id),
         AsyncStorage.setItem("userName", name),
-        AsyncStorage.setItem("userEmail", email)
+        AsyncStorage.setItem("userEmail", email),
+        AsyncStorage.setItem("userRole", role)
       ]);
     }
   } catch (error) {
@@ -37,27 +40,30 @@ export const getUserData = async () => {
     let _id: string | null;
     let name: string | null;
     let email: string | null;
+    let role: string | null;
 
     if (isSecureStoreAvailable) {
       // Use SecureStore for mobile platforms
-      [_id, name, email] = await Promise.all([
+      [_id, name, email, role] = await Promise.all([
         SecureStore.getItemAsync("userid"),
         SecureStore.getItemAsync("userName"),
-        SecureStore.getItemAsync("userEmail")
+        SecureStore.getItemAsync("userEmail"),
+        SecureStore.getItemAsync("userRole")
       ]);
     } else {
       // Use AsyncStorage for web platform
-      [_id, name, email] = await Promise.all([
+      [_id, name, email, role] = await Promise.all([
         AsyncStorage.getItem("userid"),
         AsyncStorage.getItem("userName"),
-        AsyncStorage.getItem("userEmail")
+        AsyncStorage.getItem("userEmail"),
+        AsyncStorage.getItem("userRole")
       ]);
     }
 
-    return { _id, name, email };
+    return { _id, name, email, role };
   } catch (error) {
     console.error("Error getting user data:", error);
-    return { _id: null, name: null, email: null };
+    return { _id: null, name: null, email: null, role: null };
   }
 };
 
@@ -68,16 +74,20 @@ export const clearUserData = async () => {
       await Promise.all([
         SecureStore.deleteItemAsync("userid"),
         SecureStore.deleteItemAsync("userName"),
-        SecureStore.deleteItemAsync("userEmail")
+        SecureStore.deleteItemAsync("userEmail"),
+        SecureStore.deleteItemAsync("userRole")
       ]);
     } else {
       // Use AsyncStorage for web platform
       await Promise.all([
         AsyncStorage.removeItem("userid"),
         AsyncStorage.removeItem("userName"),
-        AsyncStorage.removeItem("userEmail")
+        AsyncStorage.removeItem("userEmail"),
+        AsyncStorage.removeItem("userRole")
       ]);
     }
+    // ✅ Tokens belong to the session - never keep them without a user
+    await clearAuthTokens();
   } catch (error) {
     console.error("Error clearing user data:", error);
     throw error;
@@ -94,3 +104,96 @@ export const hasUserData = async (): Promise<boolean> => {
     return false;
   }
 };
+
+// ============================================================================
+// AUTH TOKEN STORAGE (JWT access + refresh tokens)
+// ============================================================================
+
+export const saveAuthTokens = async (accessToken: string, refreshToken: string) => {
+  try {
+    if (isSecureStoreAvailable) {
+      await Promise.all([
+        SecureStore.setItemAsync("accessToken", accessToken),
+        SecureStore.setItemAsync("refreshToken", refreshToken)
+      ]);
+    } else {
+      await Promise.all([
+        AsyncStorage.setItem("accessToken", accessToken),
+        AsyncStorage.setItem("refreshToken", refreshToken)
+      ]);
+    }
+  } catch (error) {
+    console.error("Error saving auth tokens:", error);
+    throw error;
+  }
+};
+
+export const getAuthTokens = async () => {
+  try {
+    let accessToken: string | null;
+    let refreshToken: string | null;
+
+    if (isSecureStoreAvailable) {
+      [accessToken, refreshToken] = await Promise.all([
+        SecureStore.getItemAsync("accessToken"),
+        SecureStore.getItemAsync("refreshToken")
+      ]);
+    } else {
+      [accessToken, refreshToken] = await Promise.all([
+        AsyncStorage.getItem("accessToken"),
+        AsyncStorage.getItem("refreshToken")
+      ]);
+    }
+
+    return { accessToken, refreshToken };
+  } catch (error) {
+    console.error("Error getting auth tokens:", error);
+    return { accessToken: null, refreshToken: null };
+  }
+};
+
+export const clearAuthTokens = async () => {
+  try {
+    if (isSecureStoreAvailable) {
+      await Promise.all([
+        SecureStore.deleteItemAsync("accessToken"),
+        SecureStore.deleteItemAsync("refreshToken")
+      ]);
+    } else {
+      await Promise.all([
+        AsyncStorage.removeItem("accessToken"),
+        AsyncStorage.removeItem("refreshToken")
+      ]);
+    }
+  } catch (error) {
+    console.error("Error clearing auth tokens:", error);
+    throw error;
+  }
+};
+
+// ✅ NEW: Last filter/sort state of each listing (its encoded route params, `fv` included),
+// so a listing opened without params comes back the way the user left it
+const LISTING_FILTERS_PREFIX = "listingFilters:";
+
+export const saveListingFilters = async (listingKey: string, params: Record<string, string | undefined> | null) => {
+  try {
+    const key = LISTING_FILTERS_PREFIX + listingKey;
+    if (params) {
+      await AsyncStorage.setItem(key, JSON.stringify(params));
+    } else {
+      await AsyncStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error("Error saving listing filters:", error);
+  }
+};
+
+export const getListingFilters = async (listingKey: string): Promise<Record<string, string> | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(LISTING_FILTERS_PREFIX + listingKey);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error("Error getting listing filters:", error);
+    return null;
+  }
+};